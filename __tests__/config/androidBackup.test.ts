@@ -15,6 +15,23 @@ describe("Android privacy configuration", () => {
     );
   });
 
+  it("only allows coarse, foreground location access", () => {
+    const appConfig = JSON.parse(readFileSync("app.json", "utf8")) as {
+      expo: {
+        ios: { infoPlist: Record<string, unknown> };
+        android: { blockedPermissions?: string[] };
+      };
+    };
+
+    expect(appConfig.expo.android.blockedPermissions).toEqual(
+      expect.arrayContaining([
+        "android.permission.ACCESS_FINE_LOCATION",
+        "android.permission.ACCESS_BACKGROUND_LOCATION",
+      ])
+    );
+    expect(appConfig.expo.ios.infoPlist.NSLocationDefaultAccuracyReduced).toBe(true);
+  });
+
   it("does not enable background remote notifications", () => {
     const appConfig = JSON.parse(readFileSync("app.json", "utf8")) as {
       expo: { plugins: (string | [string, Record<string, unknown>])[] };
@@ -4,6 +4,9 @@ const {
   createBackupMock,
   isBackupNeededMock,
   cleanupOldBackupsMock,
+  getBackupPolicyMock,
+  recordBackupFailureMock,
+  appendBackupLogMock,
   isTaskRegisteredAsyncMock,
   registerTaskAsyncMock,
   defineTaskMock,
@@ -11,6 +14,9 @@ const {
   createBackupMock: vi.fn(),
   isBackupNeededMock: vi.fn(),
   cleanupOldBackupsMock: vi.fn(),
+  getBackupPolicyMock: vi.fn(),
+  recordBackupFailureMock: vi.fn(),
+  appendBackupLogMock: vi.fn(),
   isTaskRegisteredAsyncMock: vi.fn(),
   registerTaskAsyncMock: vi.fn(),
   defineTaskMock: vi.fn(),
@@ -47,8 +53,14 @@ vi.mock("expo-constants", () => ({
 
 vi.mock("../../db/backup", () => ({
   createBackup: createBackupMock,
+  getBackupPolicy: getBackupPolicyMock,
   isBackupNeeded: isBackupNeededMock,
   cleanupOldBackups: cleanupOldBackupsMock,
+  recordBackupFailure: recordBackupFailureMock,
+}));
+
+vi.mock("../../db/backupLog", () => ({
+  appendBackupLog: appendBackupLogMock,
 }));
 
 import {
@@ -66,6 +78,7 @@ describe("runBackgroundBackupTask", () => {
     createBackupMock.mockReset();
     isBackupNeededMock.mockReset();
     cleanupOldBackupsMock.mockReset();
+    recordBackupFailureMock.mockReset();
     isTaskRegisteredAsyncMock.mockReset();
     registerTaskAsyncMock.mockReset();
   });
@@ -78,6 +91,11 @@ describe("runBackgroundBackupTask", () => {
     expect(result).toBe(1);
     expect(createBackupMock).not.toHaveBeenCalled();
     expect(cleanupOldBackupsMock).not.toHaveBeenCalled();
+    expect(appendBackupLogMock).toHaveBeenCalledWith({
+      operation: "backup",
+      trigger: "background",
+      result: "skipped",
+    });
   });
 
   test("returns Success and delegates cleanup to createBackup when it succeeds", async () => {
@@ -87,7 +105,7 @@ describe("runBackgroundBackupTask", () => {
     const result = await runBackgroundBackupTask();
 
     expect(result).toBe(1);
-    expect(createBackupMock).toHaveBeenCalledOnce();
+    expect(createBackupMock).toHaveBeenCalledWith("background");
     // The worker does not call cleanupOldBackups directly — createBackup runs
     // it internally on success, so the worker stays a single coherent step.
     expect(cleanupOldBackupsMock).not.toHaveBeenCalled();
@@ -103,12 +121,16 @@ describe("runBackgroundBackupTask", () => {
     expect(cleanupOldBackupsMock).not.toHaveBeenCalled();
   });
 
-  test("returns Failed when an unexpected error throws", async () => {
+  test("returns Failed and records the failure when an unexpected error throws", async () => {
     isBackupNeededMock.mockRejectedValue(new Error("boom"));
 
     const result = await runBackgroundBackupTask();
 
     expect(result).toBe(2);
+    expect(recordBackupFailureMock).toHaveBeenCalledWith("boom");
+    expect(appendBackupLogMock).toHaveBeenCalledWith(
+      expect.objectContaining({ trigger: "background", result: "failure", error: "boom" })
+    );
   });
 });
 
@@ -125,6 +147,10 @@ describe("registerBackgroundBackupTask", () => {
   beforeEach(() => {
     isTaskRegisteredAsyncMock.mockReset();
     registerTaskAsyncMock.mockReset();
+    getBackupPolicyMock.mockResolvedValue({
+      frequency: "weekly",
+      retention: { type: "keepLast", count: 8 },
+    });
   });
 
   test("registers the task when not already registered", async () => {
@@ -139,6 +165,20 @@ describe("registerBackgroundBackupTask", () => {
     );
   });
 
+  test("uses a shorter interval hint for daily backups", async () => {
+    isTaskRegisteredAsyncMock.mockResolvedValue(false);
+    getBackupPolicyMock.mockResolvedValue({
+      frequency: "daily",
+      retention: { type: "keepLast", count: 8 },
+    });
+
+    await registerBackgroundBackupTask();
+
+    expect(registerTaskAsyncMock).toHaveBeenCalledWith(BACKGROUND_BACKUP_TASK, {
+      minimumInterval: 60 * 12,
+    });
+  });
+
   test("does not re-register when the task is already registered", async () => {
     isTaskRegisteredAsyncMock.mockResolvedValue(true);
 
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+
+const mocks = vi.hoisted(() => ({
+  exportMoods: vi.fn(),
+}));
+
+vi.mock("react-native", () => ({
+  Platform: { OS: "ios" },
+}));
+
+vi.mock("../../db/db", async () => ({
+  ...(await vi.importActual<typeof import("../../db/moods/exportFormat")>(
+    "../../db/moods/exportFormat"
+  )),
+  exportMoods: mocks.exportMoods,
+  exportIncrementalMoods: vi.fn(),
+  getMoodChangeSequence: vi.fn(async () => 0),
+  getMoodChangesSince: vi.fn(),
+  getMoodCount: vi.fn(async () => 0),
+  pruneMoodChanges: vi.fn(),
+}));
+
+vi.mock("../../db/backupEncryption", () => ({
+  getBackupEncryptionKey: vi.fn(async () => null),
+}));
+
+import { createBackup, listBackups, setBackupPolicy } from "../../db/backup";
+import { buildMoodExportEnvelope } from "../../db/moods/exportFormat";
+import { getBackupFilename } from "../../db/backupPolicy";
+
+const BACKUP_DIR = "file:///documents/MoodinatorBackups/";
+const fileSystem = FileSystem as unknown as {
+  __files: Map<string, unknown>;
+  __reset: () => void;
+};
+
+async function backupJson(): Promise<string> {
+  return JSON.stringify(
+    await buildMoodExportEnvelope([], null, { checksum: true, backupId: "backup-id" })
+  );
+}
+
+async function seedBackups(count: number): Promise<string[]> {
+  const uris: string[] = [];
+  for (let day = 1; day <= count; day++) {
+    const uri = `${BACKUP_DIR}${getBackupFilename(Date.UTC(2024, 0, day, 12))}`;
+    await FileSystem.writeAsStringAsync(uri, await backupJson());
+    uris.push(uri);
+  }
+  return uris;
+}
+
+describe("createBackup", () => {
+  beforeEach(async () => {
+    fileSystem.__reset();
+    await AsyncStorage.clear();
+    mocks.exportMoods.mockImplementation(backupJson);
+    await setBackupPolicy({
+      frequency: "weekly",
+      retention: { type: "keepLast", count: 3 },
+      incremental: false,
+    });
+  });
+
+  it("keeps the oldest backup when a safety backup is made before restoring it", async () => {
+    const [oldest, ...rest] = await seedBackups(3);
+
+    const result = await createBackup("pre-restore");
+
+    expect(result.success).toBe(true);
+    expect(fileSystem.__files.has(oldest)).toBe(true);
+    rest.forEach((uri) => expect(fileSystem.__files.has(uri)).toBe(true));
+  });
+
+  it("rotates old backups out after a regular backup", async () => {
+    const [oldest, ...rest] = await seedBackups(3);
+
+    const result = await createBackup("manual");
+
+    expect(result.success).toBe(true);
+    expect(fileSystem.__files.has(oldest)).toBe(false);
+    rest.forEach((uri) => expect(fileSystem.__files.has(uri)).toBe(true));
+  });
+});
+
+describe("listBackups", () => {
+  beforeEach(async () => {
+    fileSystem.__reset();
+    await AsyncStorage.clear();
+    mocks.exportMoods.mockImplementation(backupJson);
+  });
+
+  it("describes new backups without reading them back", async () => {
+    await createBackup("manual");
+    vi.mocked(FileSystem.readAsStringAsync).mockClear();
+
+    const items = await listBackups();
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ encrypted: false, error: null, contents: { entryCount: 0 } });
+    expect(FileSystem.readAsStringAsync).not.toHaveBeenCalled();
+  });
+
+  it("reads a backup it has not seen only once", async () => {
+    await seedBackups(2);
+
+    const first = await listBackups();
+    const second = await listBackups();
+
+    expect(FileSystem.readAsStringAsync).toHaveBeenCalledTimes(2);
+    expect(second).toEqual(first);
+    expect(second.every((item) => item.contents?.entryCount === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createBackupKey,
+  decryptBackup,
+  deriveBackupKey,
+  encryptBackup,
+  isEncryptedBackup,
+  parseEncryptedBackup,
+} from "../../db/backupCrypto";
+import { base64ToBytes, bytesToBase64 } from "../../db/hashing";
+
+vi.mock("expo-crypto", async () => {
+  const { createCipheriv, createDecipheriv, randomBytes } = await import("node:crypto");
+  type Key = { bytes: Uint8Array };
+  type Sealed = { bytes: Uint8Array; combined: () => Promise<Uint8Array> };
+  const sealed = (bytes: Uint8Array): Sealed => ({ bytes, combined: async () => bytes });
+  return {
+    getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)),
+    AESEncryptionKey: { import: async (bytes: Uint8Array): Promise<Key> => ({ bytes }) },
+    AESSealedData: { fromCombined: sealed },
+    aesEncryptAsync: async (
+      plaintext: Uint8Array,
+      key: Key,
+      { additionalData }: { additionalData: Uint8Array }
+    ) => {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", key.bytes, iv);
+      cipher.setAAD(additionalData);
+      const body = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+      return sealed(new Uint8Array(Buffer.concat([iv, body, cipher.getAuthTag()])));
+    },
+    aesDecryptAsync: async (
+      data: Sealed,
+      key: Key,
+      { additionalData }: { additionalData: Uint8Array }
+    ) => {
+      const bytes = Buffer.from(data.bytes);
+      const decipher = createDecipheriv("aes-256-gcm", key.bytes, bytes.subarray(0, 12));
+      decipher.setAAD(additionalData);
+      decipher.setAuthTag(bytes.subarray(bytes.length - 16));
+      const body = bytes.subarray(12, bytes.length - 16);
+      return new Uint8Array(Buffer.concat([decipher.update(body), decipher.final()]));
+    },
+  };
+});
+
+describe("encrypted backups", () => {
+  const plaintext = JSON.stringify({ format: "moodinator-export", entries: [{ note: "héllo" }] });
+
+  async function fastKey(passphrase: string) {
+    return deriveBackupKey(passphrase, { iterations: 10, salt: bytesToBase64(new Uint8Array(16)) });
+  }
+
+  it("decrypts with the passphrase and records the KDF parameters in the header", async () => {
+    const content = await encryptBackup(plaintext, await fastKey("correct horse"));
+
+    expect(isEncryptedBackup(content)).toBe(true);
+    expect(isEncryptedBackup(plaintext)).toBe(false);
+    expect(content).not.toContain("héllo");
+    expect(parseEncryptedBackup(content)).toMatchObject({
+      format: "moodinator-encrypted-backup",
+      version: 1,
+      kdf: { name: "PBKDF2-SHA256", iterations: 10 },
+      cipher: "AES-256-GCM",
+    });
+    await expect(decryptBackup(content, "correct horse")).resolves.toBe(plaintext);
+  });
+
+  it("rejects a wrong passphrase and tampered ciphertext", async () => {
+    const content = await encryptBackup(plaintext, await fastKey("correct horse"));
+    const file = JSON.parse(content);
+    const data = base64ToBytes(file.data);
+    data[20] ^= 1;
+    const tampered = JSON.stringify({ ...file, data: bytesToBase64(data) });
+
+    await expect(decryptBackup(content, "wrong horse")).rejects.toThrow(
+      "Incorrect passphrase, or the backup is damaged."
+    );
+    await expect(decryptBackup(tampered, "correct horse")).rejects.toThrow(
+      "Incorrect passphrase, or the backup is damaged."
+    );
+  });
+
+  it("refuses backups from newer versions and short passphrases", async () => {
+    const content = await encryptBackup(plaintext, await fastKey("correct horse"));
+
+    expect(() => parseEncryptedBackup(JSON.stringify({ ...JSON.parse(content), version: 2 }))).toThrow(
+      "encrypted by a newer version"
+    );
+    await expect(createBackupKey("short")).rejects.toThrow(
+      "Passphrase must be at least 8 characters."
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as SecureStore from "expo-secure-store";
+import {
+  changeBackupPassphrase,
+  disableBackupEncryption,
+  enableBackupEncryption,
+  getBackupEncryptionKey,
+  isBackupEncryptionEnabled,
+  verifyBackupPassphrase,
+} from "../../db/backupEncryption";
+
+const secure = vi.hoisted(() => ({ values: new Map<string, string>() }));
+
+vi.mock("expo-secure-store", () => ({
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: "device-only",
+  getItemAsync: vi.fn((key: string) => Promise.resolve(secure.values.get(key) ?? null)),
+  setItemAsync: vi.fn((key: string, value: string) => {
+    secure.values.set(key, value);
+    return Promise.resolve();
+  }),
+  deleteItemAsync: vi.fn((key: string) => {
+    secure.values.delete(key);
+    return Promise.resolve();
+  }),
+}));
+
+vi.mock("expo-crypto", () => ({
+  getRandomBytes: vi.fn((length: number) => new Uint8Array(length).fill(7)),
+}));
+
+describe("backup encryption settings", () => {
+  beforeEach(() => {
+    secure.values.clear();
+    vi.clearAllMocks();
+  });
+
+  it("stores a derived key and verifier on this device only, never the passphrase", async () => {
+    await enableBackupEncryption("correct horse");
+
+    expect(await isBackupEncryptionEnabled()).toBe(true);
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith(
+      "backupEncryptionKey",
+      expect.any(String),
+      { keychainAccessible: "device-only" }
+    );
+    expect([...secure.values.values()].join()).not.toContain("correct horse");
+    expect((await getBackupEncryptionKey())?.key).toHaveLength(32);
+    expect(await verifyBackupPassphrase("correct horse")).toBe(true);
+    expect(await verifyBackupPassphrase("wrong horse")).toBe(false);
+  });
+
+  it("requires the current passphrase to change or turn off encryption", async () => {
+    await enableBackupEncryption("correct horse");
+
+    await expect(changeBackupPassphrase("wrong horse", "battery staple")).rejects.toThrow(
+      "Incorrect passphrase."
+    );
+    await changeBackupPassphrase("correct horse", "battery staple");
+    await expect(disableBackupEncryption("correct horse")).rejects.toThrow("Incorrect passphrase.");
+    await disableBackupEncryption("battery staple");
+
+    expect(await isBackupEncryptionEnabled()).toBe(false);
+    expect(await getBackupEncryptionKey()).toBeNull();
+  });
+});
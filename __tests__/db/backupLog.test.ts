@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  MAX_BACKUP_LOG_ENTRIES,
+  appendBackupLog,
+  clearBackupLog,
+  getBackupLog,
+  getBackupLogFilename,
+  serializeBackupLog,
+} from "../../db/backupLog";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+describe("backup log", () => {
+  beforeEach(async () => {
+    await clearBackupLog();
+  });
+
+  it("keeps the newest entries first, up to the cap", async () => {
+    await Promise.all(
+      Array.from({ length: MAX_BACKUP_LOG_ENTRIES + 5 }, (_, index) =>
+        appendBackupLog({ at: index, operation: "backup", trigger: "background", result: "success" })
+      )
+    );
+
+    const log = await getBackupLog();
+    expect(log).toHaveLength(MAX_BACKUP_LOG_ENTRIES);
+    expect(log[0]).toEqual({
+      at: MAX_BACKUP_LOG_ENTRIES + 4,
+      operation: "backup",
+      trigger: "background",
+      result: "success",
+      fileName: null,
+      entryCount: null,
+      error: null,
+    });
+    expect(log[log.length - 1].at).toBe(5);
+  });
+
+  it("collapses consecutive skipped runs into one entry", async () => {
+    await appendBackupLog({ at: 1, operation: "backup", trigger: "background", result: "success" });
+    for (let at = 2; at <= 50; at++) {
+      await appendBackupLog({ at, operation: "backup", trigger: "background", result: "skipped" });
+    }
+    await appendBackupLog({ at: 51, operation: "cleanup", trigger: "background", result: "success" });
+    await appendBackupLog({ at: 52, operation: "backup", trigger: "background", result: "skipped" });
+
+    const log = await getBackupLog();
+    expect(log.map((entry) => [entry.at, entry.result])).toEqual([
+      [52, "skipped"],
+      [51, "success"],
+      [50, "skipped"],
+      [1, "success"],
+    ]);
+  });
+
+  it("ignores unreadable stored entries", async () => {
+    await AsyncStorage.setItem(
+      "backupLog",
+      JSON.stringify([
+        { at: 1, operation: "restore", trigger: "manual", result: "failure", error: "bad file" },
+        { at: 2, operation: "sync", trigger: "manual", result: "success" },
+        "garbage",
+      ])
+    );
+
+    await expect(getBackupLog()).resolves.toEqual([
+      {
+        at: 1,
+        operation: "restore",
+        trigger: "manual",
+        result: "failure",
+        fileName: null,
+        entryCount: null,
+        error: "bad file",
+      },
+    ]);
+  });
+
+  it("serializes the log for support with readable times", async () => {
+    await appendBackupLog({
+      at: Date.UTC(2026, 0, 15, 9),
+      operation: "backup",
+      trigger: "manual",
+      result: "success",
+      fileName: "moodinator-backup-2026-01-15_09-00-00.json",
+      entryCount: 42,
+    });
+    const exportedAt = Date.UTC(2026, 0, 16);
+
+    expect(
+      JSON.parse(
+        serializeBackupLog(await getBackupLog(), { appVersion: "1.5.0", device: "android 34", exportedAt })
+      )
+    ).toEqual({
+      format: "moodinator-backup-log",
+      appVersion: "1.5.0",
+      device: "android 34",
+      exportedAt: "2026-01-16T00:00:00.000Z",
+      entries: [
+        {
+          at: "2026-01-15T09:00:00.000Z",
+          operation: "backup",
+          trigger: "manual",
+          result: "success",
+          fileName: "moodinator-backup-2026-01-15_09-00-00.json",
+          entryCount: 42,
+          error: null,
+        },
+      ],
+    });
+    expect(getBackupLogFilename(exportedAt)).toBe("moodinator-backup-log-2026-01-16.json");
+  });
+});
@@ -1,16 +1,21 @@
 import { describe, expect, it } from "vitest";
 
 import {
+  DEFAULT_BACKUP_POLICY,
+  assessBackupHealth,
+  canBackupIncrementally,
   getBackupFilename,
+  isBackupDue,
   parseBackupFilename,
+  parseBackupPolicy,
   parseBackupUri,
   selectBackupsForDeletion,
 } from "../../db/backupPolicy";
 
 describe("backupPolicy", () => {
-  it("creates stable date-based backup filenames", () => {
-    expect(getBackupFilename(Date.UTC(2026, 0, 15, 12))).toBe(
-      "moodinator-backup-2026-01-15.json"
+  it("creates backup filenames that include the time", () => {
+    expect(getBackupFilename(Date.UTC(2026, 0, 15, 12, 5, 9))).toBe(
+      "moodinator-backup-2026-01-15_12-05-09.json"
     );
   });
 
@@ -35,16 +40,164 @@ describe("backupPolicy", () => {
     });
   });
 
+  it("marks incremental backups by name", () => {
+    const timestamp = Date.UTC(2026, 0, 15, 12, 5, 9);
+    const filename = getBackupFilename(timestamp, "incremental");
+
+    expect(filename).toBe("moodinator-backup-2026-01-15_12-05-09-incremental.json");
+    expect(parseBackupFilename(filename, "file://x")).toEqual({
+      uri: "file://x",
+      filename,
+      timestamp,
+      kind: "incremental",
+    });
+    expect(parseBackupFilename(getBackupFilename(timestamp), "file://x")?.kind).toBe("full");
+  });
+
+  it("parses timed backup names and rejects other files", () => {
+    expect(
+      parseBackupUri(
+        "content://tree/backups/document/primary%3Amoodinator-backup-2026-01-16_08-30-00.json"
+      )
+    ).toMatchObject({
+      filename: "moodinator-backup-2026-01-16_08-30-00.json",
+      timestamp: Date.UTC(2026, 0, 16, 8, 30),
+    });
+    expect(parseBackupFilename("moodinator-backup-2026-01-16.json.bak", "file://x")).toBeNull();
+    expect(parseBackupFilename("moodinator-backup-latest.json", "file://x")).toBeNull();
+  });
+
   it("keeps the newest backups by retention count", () => {
     const backups = Array.from({ length: 10 }, (_, index) => ({
       filename: `moodinator-backup-2026-01-${String(index + 1).padStart(2, "0")}.json`,
       timestamp: Date.UTC(2026, 0, index + 1),
       uri: `file://${index}`,
+      kind: "full" as const,
     }));
 
-    expect(selectBackupsForDeletion(backups, 8).map((file) => file.filename)).toEqual([
-      "moodinator-backup-2026-01-02.json",
-      "moodinator-backup-2026-01-01.json",
+    expect(
+      selectBackupsForDeletion(backups, { type: "keepLast", count: 8 }).map(
+        (file) => file.filename
+      )
+    ).toEqual(["moodinator-backup-2026-01-02.json", "moodinator-backup-2026-01-01.json"]);
+  });
+
+  it("keeps the newest backup of each recent day, week and month", () => {
+    // Two backups a day at 09:00 and 21:00 local time for 90 days, ending Sunday 29 March 2026.
+    const backups = Array.from({ length: 180 }, (_, index) => {
+      const timestamp = new Date(2026, 2, 29 - Math.floor(index / 2), index % 2 === 0 ? 21 : 9).getTime();
+      return { filename: `backup-${index}`, timestamp, uri: `file://${index}`, kind: "full" as const };
+    });
+
+    const deleted = new Set(
+      selectBackupsForDeletion(backups, { type: "gfs", daily: 3, weekly: 2, monthly: 3 })
+    );
+    const kept = backups
+      .filter((file) => !deleted.has(file))
+      .map((file) => new Date(file.timestamp).toDateString());
+
+    expect(kept).toEqual([
+      new Date(2026, 2, 29).toDateString(),
+      new Date(2026, 2, 28).toDateString(),
+      new Date(2026, 2, 27).toDateString(),
+      // Newest backup of the previous week (Monday 16 to Sunday 22 March).
+      new Date(2026, 2, 22).toDateString(),
+      new Date(2026, 1, 28).toDateString(),
+      new Date(2026, 0, 31).toDateString(),
     ]);
   });
+
+  it("keeps the full backups that kept incremental backups build on", () => {
+    const backup = (day: number, kind: "full" | "incremental") => ({
+      filename: `${kind}-${day}`,
+      timestamp: Date.UTC(2026, 0, day),
+      uri: `file://${day}`,
+      kind,
+    });
+    const backups = [
+      backup(1, "incremental"),
+      backup(2, "full"),
+      backup(3, "incremental"),
+      backup(4, "full"),
+      backup(5, "incremental"),
+      backup(6, "incremental"),
+    ];
+
+    expect(
+      selectBackupsForDeletion(backups, { type: "keepLast", count: 2 }).map((file) => file.filename)
+    ).toEqual(["incremental-3", "full-2", "incremental-1"]);
+  });
+
+  it("only backs up incrementally while the chain is short and the changes small", () => {
+    const options = {
+      policy: { ...DEFAULT_BACKUP_POLICY, incremental: true },
+      baseAvailable: true,
+      incrementalCount: 2,
+      changedCount: 10,
+      totalCount: 100,
+    };
+
+    expect(canBackupIncrementally(options)).toBe(true);
+    expect(canBackupIncrementally({ ...options, policy: DEFAULT_BACKUP_POLICY })).toBe(false);
+    expect(canBackupIncrementally({ ...options, baseAvailable: false })).toBe(false);
+    expect(canBackupIncrementally({ ...options, incrementalCount: 6 })).toBe(false);
+    expect(canBackupIncrementally({ ...options, changedCount: 50 })).toBe(false);
+  });
+
+  it("decides when scheduled backups are due", () => {
+    const lastBackup = new Date(2026, 0, 31, 22).getTime();
+
+    expect(isBackupDue(null, "weekly")).toBe(true);
+    expect(isBackupDue(lastBackup, "daily", new Date(2026, 0, 31, 23).getTime())).toBe(false);
+    expect(isBackupDue(lastBackup, "daily", new Date(2026, 1, 1, 6).getTime())).toBe(true);
+    expect(isBackupDue(lastBackup, "weekly", new Date(2026, 1, 7, 21).getTime())).toBe(false);
+    expect(isBackupDue(lastBackup, "weekly", new Date(2026, 1, 7, 22).getTime())).toBe(true);
+    expect(isBackupDue(lastBackup, "monthly", new Date(2026, 1, 27).getTime())).toBe(false);
+    expect(isBackupDue(lastBackup, "monthly", new Date(2026, 1, 28, 22).getTime())).toBe(true);
+  });
+
+  it("reports failed and overdue backups", () => {
+    const lastBackup = new Date(2026, 0, 1, 10).getTime();
+    const failure = { at: new Date(2026, 0, 3).getTime(), error: "disk full" };
+
+    expect(assessBackupHealth(null, null, "weekly").status).toBe("none");
+    expect(assessBackupHealth(lastBackup, null, "weekly", new Date(2026, 0, 9).getTime()).status).toBe(
+      "healthy"
+    );
+    // Due on 8 January, overdue once the two-day grace period has passed.
+    expect(assessBackupHealth(lastBackup, null, "weekly", new Date(2026, 0, 10, 11).getTime()).status).toBe(
+      "overdue"
+    );
+    expect(assessBackupHealth(lastBackup, failure, "weekly", new Date(2026, 0, 3).getTime())).toEqual({
+      status: "failing",
+      lastSuccessAt: lastBackup,
+      lastFailure: failure,
+    });
+    // A later success clears an earlier failure.
+    expect(assessBackupHealth(failure.at + 1, failure, "weekly", failure.at + 2)).toMatchObject({
+      status: "healthy",
+      lastFailure: null,
+    });
+  });
+
+  it("falls back to the default policy for invalid stored values", () => {
+    expect(parseBackupPolicy(null)).toEqual(DEFAULT_BACKUP_POLICY);
+    expect(
+      parseBackupPolicy({
+        frequency: "hourly",
+        retention: { type: "gfs", daily: 7, weekly: 4, monthly: 12 },
+      })
+    ).toEqual({
+      frequency: "weekly",
+      retention: { type: "gfs", daily: 7, weekly: 4, monthly: 12 },
+      incremental: false,
+    });
+    expect(
+      parseBackupPolicy({
+        frequency: "daily",
+        retention: { type: "keepLast", count: 0 },
+        incremental: true,
+      })
+    ).toEqual({ frequency: "daily", retention: DEFAULT_BACKUP_POLICY.retention, incremental: true });
+  });
 });
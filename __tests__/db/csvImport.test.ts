@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  convertCsvRows,
+  createCsvImportMapping,
+  detectCsvImportPreset,
+  getLocaleDateOrder,
+  parseCsv,
+  type CsvImportMapping,
+} from "../../db/moods/csvImport";
+import { buildTherapyExportCsv } from "../../src/services/therapyExportService";
+import { createMockMoodEntry } from "./mockClient";
+
+const DAYLIO_CSV = [
+  "full_date,date,weekday,time,mood,activities,note_title,note",
+  '2024-01-15,January 15,Monday,8:30 PM,rad,"friends | gaming",Great day,"Went out, had fun"',
+  "2024-01-16,January 16,Tuesday,07:05,awful,,,",
+  "2024-01-17,January 17,Wednesday,9:00 AM,grumpy,,,",
+].join("\r\n");
+
+describe("parseCsv", () => {
+  it("handles quoted cells, escaped quotes, line breaks and a byte order mark", () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, ""y""","line 1\nline 2"\n\n1,2\n')).toEqual([
+      ["a", "b"],
+      ['x, "y"', "line 1\nline 2"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("detects semicolon separated files", () => {
+    expect(parseCsv("Date;Mood\n2024-01-15;7")).toEqual([
+      ["Date", "Mood"],
+      ["2024-01-15", "7"],
+    ]);
+  });
+});
+
+describe("CSV import presets", () => {
+  it("detects Daylio and Moodinator layouts from their headers", () => {
+    expect(detectCsvImportPreset(parseCsv(DAYLIO_CSV)[0])?.id).toBe("daylio");
+    expect(detectCsvImportPreset(["Timestamp", "Mood Rating", "Notes"])?.id).toBe("moodinator");
+    expect(detectCsvImportPreset(["when", "score"])).toBeNull();
+  });
+
+  it("converts Daylio rows and reports unreadable ones by line", () => {
+    const rows = parseCsv(DAYLIO_CSV);
+    const result = convertCsvRows(rows, createCsvImportMapping(rows[0]));
+
+    expect(result.rows).toEqual([
+      {
+        timestamp: new Date(2024, 0, 15, 20, 30).getTime(),
+        mood: 0,
+        emotions: [],
+        contextTags: ["friends", "gaming"],
+        energy: null,
+        note: "Great day\n\nWent out, had fun",
+      },
+      {
+        timestamp: new Date(2024, 0, 16, 7, 5).getTime(),
+        mood: 10,
+        emotions: [],
+        contextTags: [],
+        energy: null,
+        note: null,
+      },
+    ]);
+    expect(result.errors).toEqual(['Row 4: Unrecognized mood value "grumpy"']);
+  });
+
+  it("round-trips the therapy CSV export", () => {
+    const entries = [
+      createMockMoodEntry({
+        mood: 3,
+        timestamp: new Date(2024, 0, 15, 9, 45, 12).getTime(),
+        emotions: [
+          { name: "Calm", category: "positive" },
+          { name: "Tired", category: "negative" },
+        ],
+        contextTags: ["Work", "Home"],
+        energy: 6,
+        note: 'Long day, "ok"\nbetter later',
+      }),
+      createMockMoodEntry({
+        mood: 8,
+        timestamp: new Date(2024, 0, 16, 21, 0, 0).getTime(),
+        moodScale: { version: 2, min: 0, max: 10, lowerIsBetter: false },
+        emotions: [],
+        contextTags: [],
+        energy: null,
+        note: null,
+      }),
+    ];
+    const rows = parseCsv(
+      buildTherapyExportCsv(entries, ["timestamp", "mood", "emotions", "context", "energy", "notes"])
+    );
+
+    const result = convertCsvRows(rows, createCsvImportMapping(rows[0]), [
+      { name: "Calm", category: "positive" },
+    ]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([
+      {
+        timestamp: entries[0].timestamp,
+        mood: 3,
+        moodScale: { version: 1, min: 0, max: 10, lowerIsBetter: true },
+        emotions: [
+          { name: "Calm", category: "positive" },
+          { name: "Tired", category: "neutral" },
+        ],
+        contextTags: ["Work", "Home"],
+        energy: 6,
+        note: 'Long day, "ok"\nbetter later',
+      },
+      {
+        timestamp: entries[1].timestamp,
+        mood: 8,
+        moodScale: { version: 2, min: 0, max: 10, lowerIsBetter: false },
+        emotions: [],
+        contextTags: [],
+        energy: null,
+        note: null,
+      },
+    ]);
+  });
+
+  it("stops reading entries at the therapy export's baseline summary", () => {
+    const entries = [
+      createMockMoodEntry({ mood: 2, timestamp: new Date(2024, 0, 15, 9, 0).getTime() }),
+      createMockMoodEntry({ mood: 6, timestamp: new Date(2024, 0, 16, 9, 0).getTime() }),
+    ];
+    const rows = parseCsv(buildTherapyExportCsv(entries, ["timestamp", "mood", "baseline"]));
+
+    const result = convertCsvRows(rows, createCsvImportMapping(rows[0]));
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows.map((row) => row.mood)).toEqual([2, 6]);
+  });
+
+  it("keeps reading when an entry's first cell only looks like the summary heading", () => {
+    const rows = [
+      ["Note", "Date", "Mood"],
+      ["Moodinator Baseline Summary", "15/01/2024", "4"],
+      ["Later", "16/01/2024", "6"],
+    ];
+
+    const result = convertCsvRows(rows, {
+      timestamp: { column: "Date", format: "dateTime", dateOrder: "dmy" },
+      mood: { column: "Mood", min: 0, max: 10, lowerIsBetter: true },
+    });
+
+    expect(result.rows.map((row) => row.mood)).toEqual([4, 6]);
+  });
+});
+
+describe("convertCsvRows", () => {
+  const mapping: CsvImportMapping = {
+    timestamp: { column: "When", format: "dateTime", dateOrder: "dmy" },
+    mood: { column: "Score", min: 1, max: 10, lowerIsBetter: false },
+    energy: { column: "Energy", min: 1, max: 5 },
+  };
+
+  it("converts ratings and energy onto the app's scales", () => {
+    const result = convertCsvRows(
+      [
+        ["when", "score", "energy"],
+        ["15/01/2024 18:00", "10", "5"],
+        ["16.01.2024", "1", "1"],
+      ],
+      mapping
+    );
+
+    expect(result.rows.map(({ timestamp, mood, energy }) => ({ timestamp, mood, energy }))).toEqual([
+      { timestamp: new Date(2024, 0, 15, 18).getTime(), mood: 0, energy: 10 },
+      { timestamp: new Date(2024, 0, 16, 12).getTime(), mood: 10, energy: 0 },
+    ]);
+  });
+
+  it("rejects impossible dates, out-of-range ratings and missing columns", () => {
+    const result = convertCsvRows(
+      [
+        ["When", "Score", "Energy"],
+        ["31/02/2024", "5", ""],
+        ["15/01/2024", "11", ""],
+        ["", "5", ""],
+      ],
+      mapping
+    );
+
+    expect(result.rows).toEqual([]);
+    expect(result.errors).toEqual([
+      'Row 2: Unrecognized date "31/02/2024"',
+      'Row 3: Unrecognized mood value "11"',
+      "Row 4: Missing date",
+    ]);
+    expect(() => convertCsvRows([["Date", "Mood"]], mapping)).toThrow(
+      'CSV is missing the "When" and "Score" columns'
+    );
+  });
+
+  it("reads unix timestamps and guesses a mapping for unknown layouts", () => {
+    const rows = [
+      ["Date", "Mood", "Tags"],
+      ["1705320000", "4", "a;b"],
+    ];
+    const guessed = createCsvImportMapping(rows[0], rows.slice(1));
+
+    expect(guessed).toMatchObject({
+      timestamp: { column: "Date", format: "unixSeconds" },
+      mood: { column: "Mood", min: 1, max: 5, lowerIsBetter: false },
+      contextTags: { column: "Tags", delimiter: ";" },
+    });
+    expect(convertCsvRows(rows, guessed).rows[0]).toMatchObject({
+      timestamp: 1705320000000,
+      mood: 3,
+      contextTags: ["a", "b"],
+    });
+  });
+
+  it("reads the device's date order", () => {
+    expect(getLocaleDateOrder("en-US")).toBe("mdy");
+    expect(getLocaleDateOrder("en-GB")).toBe("dmy");
+    expect(getLocaleDateOrder("sv-SE")).toBe("ymd");
+  });
+});
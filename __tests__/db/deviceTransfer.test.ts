@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  TRANSFER_CHUNK_BYTES,
+  TRANSFER_FRAME,
+  buildTransferLink,
+  createTransferFrameReader,
+  createTransferInvite,
+  encodeTransferFrame,
+  parseTransferLink,
+  parseTransferParams,
+  receiveTransfer,
+  sendTransfer,
+} from "../../db/deviceTransfer";
+import { utf8Decode, utf8Encode } from "../../db/hashing";
+import { createLoopbackPair } from "./loopbackTransport";
+
+vi.mock("expo-crypto", async () => {
+  const { createCipheriv, createDecipheriv, randomBytes } = await import("node:crypto");
+  type Key = { bytes: Uint8Array };
+  type Sealed = { bytes: Uint8Array; combined: () => Promise<Uint8Array> };
+  const sealed = (bytes: Uint8Array): Sealed => ({ bytes, combined: async () => bytes });
+  return {
+    getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)),
+    AESEncryptionKey: { import: async (bytes: Uint8Array): Promise<Key> => ({ bytes }) },
+    AESSealedData: { fromCombined: sealed },
+    aesEncryptAsync: async (
+      plaintext: Uint8Array,
+      key: Key,
+      { additionalData }: { additionalData: Uint8Array }
+    ) => {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", key.bytes, iv);
+      cipher.setAAD(additionalData);
+      const body = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+      return sealed(new Uint8Array(Buffer.concat([iv, body, cipher.getAuthTag()])));
+    },
+    aesDecryptAsync: async (
+      data: Sealed,
+      key: Key,
+      { additionalData }: { additionalData: Uint8Array }
+    ) => {
+      const bytes = Buffer.from(data.bytes);
+      const decipher = createDecipheriv("aes-256-gcm", key.bytes, bytes.subarray(0, 12));
+      decipher.setAAD(additionalData);
+      decipher.setAuthTag(bytes.subarray(bytes.length - 16));
+      const body = bytes.subarray(12, bytes.length - 16);
+      return new Uint8Array(Buffer.concat([decipher.update(body), decipher.final()]));
+    },
+  };
+});
+
+describe("device transfer", () => {
+  const payload = JSON.stringify({
+    format: "moodinator-export",
+    entries: Array.from({ length: 800 }, (_, index) => ({
+      mood: index % 10,
+      note: `private note ${index} ${"x".repeat(80)}`,
+      timestamp: 1705320000000 + index,
+    })),
+  });
+
+  it("round-trips invites through transfer links", () => {
+    const invite = createTransferInvite("192.168.1.20", 51234);
+    const link = buildTransferLink(invite);
+
+    expect(link.startsWith("myapp://transfer?v=1&host=192.168.1.20&port=51234&")).toBe(true);
+    expect(parseTransferLink(` ${link} `)).toEqual(invite);
+    expect(
+      parseTransferParams({
+        v: "1",
+        host: invite.host,
+        port: String(invite.port),
+        session: invite.sessionId,
+        key: invite.key,
+      })
+    ).toEqual(invite);
+  });
+
+  it("rejects malformed and newer transfer links", () => {
+    const link = buildTransferLink(createTransferInvite("192.168.1.20", 51234));
+
+    expect(() => parseTransferLink("https://example.com/transfer?v=1")).toThrow(
+      "not a valid Moodinator transfer link"
+    );
+    expect(() => parseTransferLink(link.replace(/key=[^&]+/, "key=short"))).toThrow(
+      "not a valid Moodinator transfer link"
+    );
+    expect(() => parseTransferLink(link.replace("port=51234", "port=70000"))).toThrow(
+      "not a valid Moodinator transfer link"
+    );
+    expect(() => parseTransferLink(link.replace("v=1", "v=2"))).toThrow("newer version");
+  });
+
+  it("reassembles frames split across reads", () => {
+    const first = encodeTransferFrame(TRANSFER_FRAME.data, utf8Encode("hello"));
+    const second = encodeTransferFrame(TRANSFER_FRAME.ack);
+    const stream = new Uint8Array([...first, ...second]);
+    const reader = createTransferFrameReader();
+
+    const frames = [...stream].flatMap((byte) => reader.push(new Uint8Array([byte])));
+
+    expect(frames.map((frame) => frame.type)).toEqual([TRANSFER_FRAME.data, TRANSFER_FRAME.ack]);
+    expect(utf8Decode(frames[0].payload)).toBe("hello");
+    expect(createTransferFrameReader().push(stream)).toHaveLength(2);
+    expect(() => createTransferFrameReader().push(new Uint8Array([99, 0, 0, 0, 0]))).toThrow(
+      "can't read"
+    );
+  });
+
+  it("transfers the payload encrypted with the one-time key", async () => {
+    const invite = createTransferInvite("127.0.0.1", 40000);
+    const [sender, receiver] = createLoopbackPair({ chunkSize: 4096 });
+
+    const [, received] = await Promise.all([
+      sendTransfer(sender, invite, payload),
+      receiveTransfer(receiver, invite),
+    ]);
+
+    expect(received).toBe(payload);
+    // Several data frames, none of them readable without the key.
+    expect(payload.length).toBeGreaterThan(TRANSFER_CHUNK_BYTES);
+    const wire = Buffer.concat(sender.written).toString("latin1");
+    expect(wire).not.toContain("private note");
+  });
+
+  it("refuses receivers without the current key", async () => {
+    const invite = createTransferInvite("127.0.0.1", 40000);
+    const stale = { ...createTransferInvite("127.0.0.1", 40000), sessionId: invite.sessionId };
+    const [sender, receiver] = createLoopbackPair();
+
+    const results = await Promise.allSettled([
+      sendTransfer(sender, invite, payload),
+      receiveTransfer(receiver, stale),
+    ]);
+
+    expect(results).toMatchObject([
+      {
+        status: "rejected",
+        reason: { message: "A device connected without the current transfer code." },
+      },
+      { status: "rejected", reason: { message: expect.stringContaining("no longer valid") } },
+    ]);
+    expect(sender.written).toHaveLength(1);
+  });
+
+  it("reports data that fails to decrypt to both devices", async () => {
+    const invite = createTransferInvite("127.0.0.1", 40000);
+    const [sender, receiver] = createLoopbackPair();
+    const replies: number[] = [];
+    const reader = createTransferFrameReader();
+    sender.listen({
+      onData: (bytes) => replies.push(...reader.push(bytes).map((frame) => frame.type)),
+      onClose: () => undefined,
+    });
+    const garbage = new Uint8Array(64).fill(1);
+    await sender.write(encodeTransferFrame(TRANSFER_FRAME.data, garbage));
+    await sender.write(
+      encodeTransferFrame(TRANSFER_FRAME.end, utf8Encode(JSON.stringify({ length: 64 })))
+    );
+
+    await expect(receiveTransfer(receiver, invite)).rejects.toThrow("could not be decrypted");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(replies).toEqual([TRANSFER_FRAME.hello, TRANSFER_FRAME.error]);
+  });
+
+  it("gives up when the other device stops responding", async () => {
+    const [, receiver] = createLoopbackPair();
+
+    const invite = createTransferInvite("127.0.0.1", 40000);
+
+    await expect(receiveTransfer(receiver, invite, 20)).rejects.toThrow("stopped responding");
+  });
+});
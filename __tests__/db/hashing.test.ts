@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  base64ToBytes,
+  bytesToBase64,
+  hmacSha256,
+  pbkdf2Sha256,
+  sha256,
+  utf8Decode,
+  utf8Encode,
+} from "../../db/hashing";
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+const ascii = (value: string) => new Uint8Array(Buffer.from(value, "utf8"));
+
+describe("hashing", () => {
+  it("matches the SHA-256 and HMAC-SHA256 test vectors", () => {
+    expect(hex(sha256(ascii("abc")))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+    expect(hex(hmacSha256(ascii("Jefe"), ascii("what do ya want for nothing?")))).toBe(
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+    );
+    expect(hex(sha256(ascii("a".repeat(1000))))).toBe(
+      "41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3"
+    );
+  });
+
+  it("matches the PBKDF2-HMAC-SHA256 test vectors", async () => {
+    expect(hex(await pbkdf2Sha256(ascii("password"), ascii("salt"), 1, 32))).toBe(
+      "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b"
+    );
+    expect(hex(await pbkdf2Sha256(ascii("password"), ascii("salt"), 4096, 32))).toBe(
+      "c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a"
+    );
+    expect(
+      hex(
+        await pbkdf2Sha256(
+          ascii("passwordPASSWORDpassword"),
+          ascii("saltSALTsaltSALTsaltSALTsaltSALTsalt"),
+          4096,
+          40
+        )
+      )
+    ).toBe(
+      "348c89dbcbd32b2f32d814b8116e84cf2b17347ebc1800181c4e2a1fb8dd53e1c635518c7dac47e9"
+    );
+  });
+
+  it("round-trips UTF-8 and base64", () => {
+    const text = "Calm 😌 — día";
+    expect(hex(utf8Encode(text))).toBe(Buffer.from(text, "utf8").toString("hex"));
+    expect(utf8Decode(utf8Encode(text))).toBe(text);
+    for (const length of [0, 1, 2, 3, 31]) {
+      const bytes = new Uint8Array(length).map((_, index) => index * 37);
+      expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString("base64"));
+      expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    }
+  });
+});
@@ -5,6 +5,8 @@ import { vi } from "vitest";
  */
 
 import { createMockDb } from "./mockClient";
+import type { CsvImportMapping } from "../../db/moods/csvImport";
+import { replayIncrementalBackups } from "../../db/moods/exportFormat";
 
 // Mock the database client module
 const mockDb = createMockDb();
@@ -26,23 +28,72 @@ vi.mock("../../db/moods/emotions", () => ({
 
 // Import after mocking
 import {
+  exportIncrementalMoods,
   exportMoods,
+  importCsvMoods,
   importMoods,
   importOldBackup,
+  mergeImportMoods,
+  previewCsvImportMoods,
   previewImportMoods,
+  previewMergeImportMoods,
 } from "../../db/moods/importExport";
 import { linkEmotionsToMood } from "../../db/moods/emotions";
+import * as FileSystem from "expo-file-system/legacy";
+import { getMoodPhotoUri } from "../../db/moods/photoStorage";
+import { getMoodVoiceMemoUri } from "../../db/moods/voiceMemoStorage";
+
+const files = (FileSystem as unknown as {
+  __files: Map<string, { content: string; modificationTime: number }>;
+}).__files;
 
 describe("Import/Export", () => {
   beforeEach(() => {
     mockDb.__reset();
+    files.clear();
     vi.clearAllMocks();
   });
 
   describe("exportMoods", () => {
     it("exports empty array when no moods", async () => {
       const result = await exportMoods();
-      expect(JSON.parse(result)).toEqual([]);
+      expect(JSON.parse(result).entries).toEqual([]);
+    });
+
+    it("wraps entries in a versioned envelope with the range and settings", async () => {
+      const result = await exportMoods(
+        { startDate: 1000, endDate: 2000 },
+        undefined,
+        {
+          appVersion: "1.5.0",
+          exportedAt: 3000,
+          settings: { contexts: ["Work"] },
+        }
+      );
+
+      expect(JSON.parse(result)).toEqual({
+        format: "moodinator-export",
+        formatVersion: 2,
+        appVersion: "1.5.0",
+        exportedAt: 3000,
+        range: { startDate: 1000, endDate: 2000 },
+        entries: [],
+        settings: { contexts: ["Work"] },
+      });
+    });
+
+    it("embeds an entries checksum when asked and rejects a replacement import that no longer matches it", async () => {
+      mockDb.__addMood({ mood: 7, timestamp: 1705320000000 });
+
+      const exported = JSON.parse(await exportMoods(undefined, undefined, { checksum: true }));
+      expect(exported.integrity).toMatchObject({ algorithm: "SHA-256", entryCount: 1 });
+      expect(exported.integrity.entriesChecksum).toMatch(/^[0-9a-f]{64}$/);
+
+      exported.entries[0].mood = 2;
+      await expect(importMoods(JSON.stringify(exported))).rejects.toThrow(
+        "checksum does not match"
+      );
+      expect(mockDb.__getMoods()[0]).toMatchObject({ mood: 7 });
     });
 
     it("exports moods with supported launch fields", async () => {
@@ -57,21 +108,22 @@ describe("Import/Export", () => {
         location_json: '{"latitude":48.2,"longitude":16.37,"name":"Vienna"}',
         voice_memos_json: '["file:///memo.m4a"]',
         based_on_entry_id: 12,
+        created_at: 1705406400000,
+        updated_at: 1705410000000,
       });
 
       const result = await exportMoods();
-      const parsed = JSON.parse(result);
+      const parsed = JSON.parse(result).entries;
 
       expect(parsed).toHaveLength(1);
       expect(parsed[0]).toEqual({
+        id: 1,
         timestamp: 1705320000000,
         mood: 7,
         emotions: [{ name: "Happy", category: "positive" }],
-        context: ["work"],
         contextTags: ["work"],
         energy: 8,
         note: "Great day",
-        notes: "Great day",
         moodScale: {
           version: 1,
           min: 0,
@@ -79,6 +131,9 @@ describe("Import/Export", () => {
           lowerIsBetter: true,
         },
         basedOnEntryId: 12,
+        createdAt: 1705406400000,
+        updatedAt: 1705410000000,
+        location: { name: "Vienna", latitude: 48.2, longitude: 16.37, placeId: null },
       });
     });
 
@@ -90,7 +145,7 @@ describe("Import/Export", () => {
       });
 
       const result = await exportMoods();
-      const parsed = JSON.parse(result);
+      const parsed = JSON.parse(result).entries;
 
       expect(parsed[0].moodScale).toEqual(higherIsBetterScale);
     });
@@ -100,7 +155,7 @@ describe("Import/Export", () => {
       mockDb.__addMood({ mood: 7, timestamp: 2000 });
 
       const result = await exportMoods();
-      const parsed = JSON.parse(result);
+      const parsed = JSON.parse(result).entries;
 
       expect(parsed).toHaveLength(2);
     });
@@ -111,7 +166,7 @@ describe("Import/Export", () => {
       mockDb.__addMood({ mood: 3, timestamp: 3000 });
 
       const result = await exportMoods({ startDate: 1500, endDate: 2500 });
-      const parsed = JSON.parse(result);
+      const parsed = JSON.parse(result).entries;
 
       expect(parsed).toHaveLength(1);
       expect(parsed[0].mood).toBe(7);
@@ -144,7 +199,7 @@ describe("Import/Export", () => {
       expect(mockDb.__getMoodEmotions()).toEqual([]);
     });
 
-    it("imports supported mood fields and ignores legacy media fields", async () => {
+    it("imports supported mood fields, a coarse location, and ignores legacy media fields", async () => {
       const data = JSON.stringify([
         {
           mood: 7,
@@ -154,7 +209,7 @@ describe("Import/Export", () => {
           context: ["work"],
           energy: 8,
           photos: ["file:///photo.jpg"],
-          location: { latitude: 48.2, longitude: 16.37, name: "Vienna" },
+          location: { latitude: 48.2081, longitude: 16.3738, name: " Vienna " },
           voiceMemos: ["file:///memo.m4a"],
           basedOnEntryId: 3,
         },
@@ -169,7 +224,12 @@ describe("Import/Export", () => {
       expect(moods).toHaveLength(1);
       expect(moods[0].mood).toBe(7);
       expect(moods[0].photos_json).toBe("[]");
-      expect(moods[0].location_json).toBeNull();
+      expect(JSON.parse(moods[0].location_json!)).toEqual({
+        name: "Vienna",
+        latitude: 48.21,
+        longitude: 16.37,
+        placeId: null,
+      });
       expect(moods[0].voice_memos_json).toBe("[]");
       expect(JSON.parse(moods[0].mood_scale_json!)).toEqual({
         version: 1,
@@ -221,6 +281,25 @@ describe("Import/Export", () => {
       });
     });
 
+    it("keeps when entries were logged, falling back to their timestamp", async () => {
+      const data = JSON.stringify([
+        {
+          mood: 5,
+          timestamp: 1705320000000,
+          createdAt: 1705406400000,
+          updatedAt: 1705410000000,
+        },
+        { mood: 6, timestamp: 1705330000000 },
+      ]);
+
+      await importMoods(data);
+
+      expect(mockDb.__getMoods()).toMatchObject([
+        { created_at: 1705406400000, updated_at: 1705410000000 },
+        { created_at: 1705330000000, updated_at: 1705330000000 },
+      ]);
+    });
+
     it("imports legacy exports without scale data using the current scale fallback", async () => {
       const data = JSON.stringify([{ mood: 5, timestamp: 1705320000000 }]);
 
@@ -337,23 +416,201 @@ describe("Import/Export", () => {
       expect(mockDb.execAsync).not.toHaveBeenCalledWith("BEGIN TRANSACTION;");
     });
 
-    it("previews replacement imports without opening a database transaction", () => {
+    it("previews replacement imports without opening a database transaction", async () => {
       const data = JSON.stringify([{ mood: 1 }, { mood: 8 }]);
 
-      expect(previewImportMoods(data)).toEqual({ entryCount: 2 });
+      await expect(previewImportMoods(data)).resolves.toEqual({ entryCount: 2 });
       expect(mockDb.execAsync).not.toHaveBeenCalledWith("BEGIN TRANSACTION;");
     });
 
-    it("rejects invalid replacement previews before confirmation", () => {
+    it("rejects invalid replacement previews before confirmation", async () => {
       const data = JSON.stringify([{ mood: 3 }, { mood: 12 }]);
 
-      expect(() => previewImportMoods(data)).toThrow(
+      await expect(previewImportMoods(data)).rejects.toThrow(
         "Import contains invalid entries"
       );
       expect(mockDb.execAsync).not.toHaveBeenCalledWith("BEGIN TRANSACTION;");
     });
   });
 
+  describe("mergeImportMoods", () => {
+    const day = 86_400_000;
+    const [T1, T2, T3, T4, T5, T6] = [1, 2, 3, 4, 5, 6].map(
+      (offset) => 1705320000000 + offset * day
+    );
+    const existingEntry = {
+      mood: 4,
+      note: "Lunch",
+      timestamp: T1,
+      context_tags: '["Work"]',
+    };
+
+    it("previews new, duplicate and conflicting entries", async () => {
+      mockDb.__addMood(existingEntry);
+      mockDb.__addMood({ mood: 6, timestamp: T2 });
+      const data = JSON.stringify([
+        { mood: 4, note: "Lunch ", timestamp: T1, contextTags: ["work"] },
+        { mood: 2, timestamp: T2 },
+        { mood: 3, timestamp: T3 },
+        { mood: 3, timestamp: T3 },
+      ]);
+
+      await expect(previewMergeImportMoods(data)).resolves.toEqual({
+        entryCount: 4,
+        newCount: 1,
+        duplicateCount: 2,
+        conflictCount: 1,
+      });
+      expect(mockDb.execAsync).not.toHaveBeenCalledWith("BEGIN TRANSACTION;");
+    });
+
+    it("keeps current entries and skips duplicates", async () => {
+      mockDb.__addMood(existingEntry);
+      const data = JSON.stringify([
+        { mood: 4, note: "Lunch", timestamp: T1, contextTags: ["Work"] },
+        { mood: 8, timestamp: T5 },
+      ]);
+
+      const result = await mergeImportMoods(data, { conflictStrategy: "skip" });
+
+      expect(result).toMatchObject({ imported: 1, duplicates: 1, conflicts: 0 });
+      expect(mockDb.__getMoods().map((row) => row.timestamp)).toEqual([T1, T5]);
+    });
+
+    it("resolves conflicts by skipping, overwriting or keeping both", async () => {
+      const data = JSON.stringify([{ mood: 9, note: "Changed", timestamp: T1 }]);
+
+      mockDb.__addMood(existingEntry);
+      await expect(mergeImportMoods(data, { conflictStrategy: "skip" })).resolves.toMatchObject({
+        imported: 0,
+        conflicts: 1,
+        overwritten: 0,
+      });
+      expect(mockDb.__getMoods()).toHaveLength(1);
+      expect(mockDb.__getMoods()[0].mood).toBe(4);
+
+      await expect(
+        mergeImportMoods(data, { conflictStrategy: "overwrite" })
+      ).resolves.toMatchObject({ imported: 0, overwritten: 1 });
+      expect(mockDb.__getMoods()).toHaveLength(1);
+      expect(mockDb.__getMoods()[0]).toMatchObject({ id: 1, mood: 9, note: "Changed" });
+      expect(mockDb.__getMoodRevisions()).toHaveLength(1);
+      expect(JSON.parse(mockDb.__getMoodRevisions()[0].changes_json)).toEqual(
+        expect.arrayContaining([
+          { field: "mood", from: 4, to: 9 },
+          { field: "note", from: "Lunch", to: "Changed" },
+        ])
+      );
+
+      mockDb.__reset();
+      mockDb.__addMood(existingEntry);
+      await expect(
+        mergeImportMoods(data, { conflictStrategy: "keepBoth" })
+      ).resolves.toMatchObject({ imported: 1, conflicts: 1 });
+      expect(mockDb.__getMoods().map((row) => row.mood)).toEqual([4, 9]);
+    });
+
+    it("remaps basedOnEntryId to local ids and drops unknown references", async () => {
+      mockDb.__addMood(existingEntry);
+      const data = JSON.stringify([
+        { id: 20, mood: 5, timestamp: T3, basedOnEntryId: 10 },
+        { id: 10, mood: 4, note: "Lunch", timestamp: T1, contextTags: ["Work"] },
+        { id: 30, mood: 6, timestamp: T4, basedOnEntryId: 20 },
+        { id: 40, mood: 7, timestamp: T6, basedOnEntryId: 99 },
+      ]);
+
+      await mergeImportMoods(data, { conflictStrategy: "skip" });
+
+      const rows = mockDb.__getMoods();
+      const byTimestamp = new Map(rows.map((row) => [row.timestamp, row]));
+      expect(byTimestamp.get(T3)?.based_on_entry_id).toBe(1);
+      expect(byTimestamp.get(T4)?.based_on_entry_id).toBe(byTimestamp.get(T3)?.id);
+      expect(byTimestamp.get(T6)?.based_on_entry_id).toBeNull();
+    });
+
+    it("clears the link of an overwritten entry when the file's entry has none", async () => {
+      const base = mockDb.__addMood({ mood: 2, timestamp: T2 });
+      mockDb.__addMood({ ...existingEntry, based_on_entry_id: base.id });
+      const data = JSON.stringify([
+        { id: 10, mood: 9, note: "Changed", timestamp: T1 },
+        { id: 20, mood: 7, note: "Changed too", timestamp: T2, basedOnEntryId: 99 },
+      ]);
+
+      await mergeImportMoods(data, { conflictStrategy: "overwrite" });
+
+      expect(mockDb.__getMoods().map((row) => [row.mood, row.based_on_entry_id])).toEqual([
+        [7, null],
+        [9, null],
+      ]);
+    });
+
+    it("rolls back when a write fails", async () => {
+      mockDb.runAsync.mockRejectedValueOnce(new Error("disk full"));
+
+      await expect(
+        mergeImportMoods(JSON.stringify([{ mood: 5, timestamp: T1 }]), {
+          conflictStrategy: "skip",
+        })
+      ).rejects.toThrow("Import failed: disk full");
+      expect(mockDb.execAsync).toHaveBeenCalledWith("ROLLBACK;");
+    });
+  });
+
+  describe("importCsvMoods", () => {
+    const mapping: CsvImportMapping = {
+      timestamp: { column: "Date", format: "iso", dateOrder: "ymd" },
+      mood: { column: "Mood", min: 1, max: 5, lowerIsBetter: false },
+      emotions: { column: "Feelings", delimiter: "/" },
+    };
+    const csv = [
+      "Date,Mood,Feelings",
+      "2024-01-15T08:00:00.000Z,5,Calm/Hopeful",
+      "2024-01-16T08:00:00.000Z,meh,",
+      "2024-01-17T08:00:00.000Z,1,",
+    ].join("\n");
+
+    it("previews rows against local data and counts unreadable ones", async () => {
+      mockDb.__addMood({ mood: 10, timestamp: Date.parse("2024-01-17T08:00:00.000Z") });
+
+      await expect(previewCsvImportMoods(csv, mapping)).resolves.toEqual({
+        entryCount: 2,
+        newCount: 1,
+        duplicateCount: 1,
+        conflictCount: 0,
+        skipped: 1,
+        errors: ['Row 3: Unrecognized mood value "meh"'],
+      });
+    });
+
+    it("merges or replaces with the readable rows", async () => {
+      mockDb.__addMood({ mood: 10, timestamp: Date.parse("2024-01-17T08:00:00.000Z") });
+
+      const merged = await importCsvMoods(
+        csv,
+        mapping,
+        { mode: "merge", conflictStrategy: "skip" },
+        [{ name: "Calm", category: "positive" }]
+      );
+      expect(merged).toMatchObject({ imported: 1, skipped: 1, duplicates: 1 });
+      expect(mockDb.__getMoods()).toHaveLength(2);
+      expect(linkEmotionsToMood).toHaveBeenCalledWith(mockDb, expect.any(Number), [
+        { name: "Calm", category: "positive" },
+        { name: "Hopeful", category: "neutral" },
+      ]);
+
+      const replaced = await importCsvMoods(csv, mapping, { mode: "replace" });
+      expect(replaced).toMatchObject({ imported: 2, skipped: 1 });
+      expect(mockDb.__getMoods().map((row) => row.mood)).toEqual([0, 10]);
+    });
+
+    it("refuses files without any readable rows", async () => {
+      await expect(
+        importCsvMoods("Date,Mood\n2024-01-15T08:00:00.000Z,meh", mapping, { mode: "replace" })
+      ).rejects.toThrow('No rows could be imported: Row 2: Unrecognized mood value "meh"');
+      expect(mockDb.execAsync).not.toHaveBeenCalledWith("BEGIN TRANSACTION;");
+    });
+  });
+
   describe("importOldBackup", () => {
     it("imports legacy backup format", async () => {
       const data = JSON.stringify([
@@ -426,6 +683,78 @@ describe("Import/Export", () => {
     });
   });
 
+  describe("Photo attachments", () => {
+    const photo = {
+      id: "p1",
+      fileName: "p1.jpg",
+      thumbnailFileName: "p1-thumb.jpg",
+      width: 800,
+      height: 600,
+    };
+
+    it("embeds stored photos in the export", async () => {
+      files.set(getMoodPhotoUri(photo.fileName), { content: "RlVMTA==", modificationTime: 0 });
+      files.set(getMoodPhotoUri(photo.thumbnailFileName), {
+        content: "VEhVTUI=",
+        modificationTime: 0,
+      });
+      mockDb.__addMood({ mood: 5, photos_json: JSON.stringify([photo]) });
+
+      const parsed = JSON.parse(await exportMoods()).entries;
+
+      expect(parsed[0].photos).toEqual([
+        { id: "p1", width: 800, height: 600, data: "RlVMTA==", thumbnailData: "VEhVTUI=" },
+      ]);
+    });
+
+    it("skips photos whose files are missing", async () => {
+      mockDb.__addMood({ mood: 5, photos_json: JSON.stringify([photo]) });
+
+      const parsed = JSON.parse(await exportMoods()).entries;
+
+      expect(parsed[0]).not.toHaveProperty("photos");
+    });
+
+    it("restores embedded photos on import", async () => {
+      await importMoods(
+        JSON.stringify([
+          {
+            mood: 5,
+            photos: [{ id: "p1", width: 800, height: 600, data: "RlVMTA==", thumbnailData: "VEhVTUI=" }],
+          },
+        ])
+      );
+
+      const [row] = mockDb.__getMoods();
+      const [restored] = JSON.parse(row.photos_json!);
+      expect(restored).toMatchObject({ width: 800, height: 600 });
+      expect(files.get(getMoodPhotoUri(restored.fileName))?.content).toBe("RlVMTA==");
+      expect(files.get(getMoodPhotoUri(restored.thumbnailFileName))?.content).toBe("VEhVTUI=");
+    });
+  });
+
+  describe("Voice memo attachments", () => {
+    it("embeds stored voice memos in the export and restores them on import", async () => {
+      const memo = { id: "m1", fileName: "m1.m4a", durationMs: 3000 };
+      files.set(getMoodVoiceMemoUri(memo.fileName), { content: "QVVESU8=", modificationTime: 0 });
+      mockDb.__addMood({ mood: 5, voice_memos_json: JSON.stringify([memo]) });
+
+      const exported = await exportMoods();
+      expect(JSON.parse(exported).entries[0].voiceMemos).toEqual([
+        { id: "m1", durationMs: 3000, data: "QVVESU8=" },
+      ]);
+
+      mockDb.__reset();
+      files.clear();
+      await importMoods(exported);
+
+      const [row] = mockDb.__getMoods();
+      const [restored] = JSON.parse(row.voice_memos_json!);
+      expect(restored.durationMs).toBe(3000);
+      expect(files.get(getMoodVoiceMemoUri(restored.fileName))?.content).toBe("QVVESU8=");
+    });
+  });
+
   describe("Round-trip import/export", () => {
     it("preserves supported data through export and import cycle", async () => {
       // Add some moods
@@ -457,15 +786,113 @@ describe("Import/Export", () => {
       expect(moods[0].timestamp).toBe(1705320000000);
       expect(moods[0].energy).toBe(8);
       expect(moods[0].photos_json).toBe("[]");
-      expect(moods[0].location_json).toBeNull();
+      expect(JSON.parse(moods[0].location_json!)).toEqual({
+        name: "Vienna",
+        latitude: 48.2,
+        longitude: 16.37,
+        placeId: null,
+      });
       expect(moods[0].voice_memos_json).toBe("[]");
       expect(moods[0].based_on_entry_id).toBe(5);
       expect(JSON.parse(moods[0].mood_scale_json!)).toEqual(higherIsBetterScale);
     });
 
+    it("accepts both the legacy array and the envelope and returns envelope settings", async () => {
+      const entry = { mood: 4, timestamp: 1705320000000 };
+
+      await expect(importMoods(JSON.stringify([entry]))).resolves.toEqual({
+        imported: 1,
+        skipped: 0,
+        errors: [],
+      });
+
+      const envelope = {
+        format: "moodinator-export",
+        formatVersion: 2,
+        appVersion: "1.5.0",
+        exportedAt: 1705320000000,
+        range: null,
+        entries: [entry],
+        settings: {
+          contexts: ["Work", ""],
+          quickEntryPrefs: { showNotes: true },
+          reminders: [{ id: "r1", title: "Check in", body: "", hour: 20, minute: 0, enabled: true }],
+        },
+      };
+      await expect(importMoods(JSON.stringify(envelope))).resolves.toMatchObject({
+        imported: 1,
+        settings: {
+          contexts: ["Work"],
+          quickEntryPrefs: { showEmotions: true, showNotes: true },
+          reminders: [{ id: "r1", hour: 20, minute: 0, enabled: true }],
+        },
+      });
+      await expect(importOldBackup(JSON.stringify(envelope))).resolves.toMatchObject({
+        imported: 1,
+        settings: { contexts: ["Work"] },
+      });
+    });
+
+    it("rejects envelopes from newer app versions before touching data", async () => {
+      mockDb.__addMood({ mood: 4 });
+      const envelope = { format: "moodinator-export", formatVersion: 99, entries: [] };
+
+      await expect(importMoods(JSON.stringify(envelope))).rejects.toThrow(
+        "newer version of Moodinator"
+      );
+      expect(mockDb.__getMoods()).toHaveLength(1);
+      await expect(previewImportMoods(JSON.stringify({ entries: [] }))).rejects.toThrow(
+        "Import data must be an array or a Moodinator export"
+      );
+    });
+
+    it("restores a full backup replayed with an incremental one", async () => {
+      const kept = mockDb.__addMood({ mood: 3, timestamp: 1705320000000 });
+      const edited = mockDb.__addMood({ mood: 4, timestamp: 1705330000000 });
+      const removed = mockDb.__addMood({ mood: 5, timestamp: 1705340000000 });
+      const full = await exportMoods(undefined, undefined, { backupId: "full-1" });
+
+      await mockDb.runAsync("UPDATE moods SET mood = ? WHERE id = ?;", 9, edited.id);
+      await mockDb.runAsync("DELETE FROM moods WHERE id = ?;", removed.id);
+      const added = mockDb.__addMood({ mood: 6, timestamp: 1705350000000 });
+      const incremental = await exportIncrementalMoods(
+        "full-1",
+        [edited.id, removed.id, added.id],
+        { checksum: true }
+      );
+
+      expect(JSON.parse(incremental)).toMatchObject({
+        format: "moodinator-incremental-backup",
+        baseBackupId: "full-1",
+        deletedEntryIds: [removed.id],
+      });
+      expect(JSON.parse(incremental).entries).toHaveLength(2);
+      await expect(importMoods(incremental)).rejects.toThrow("This is an incremental backup");
+
+      mockDb.__reset();
+      await importMoods(await replayIncrementalBackups(full, [incremental]));
+
+      expect(
+        mockDb
+          .__getMoods()
+          .map((row) => [row.timestamp, row.mood])
+          .sort((a, b) => a[0] - b[0])
+      ).toEqual([
+        [kept.timestamp, 3],
+        [edited.timestamp, 9],
+        [added.timestamp, 6],
+      ]);
+      await expect(
+        replayIncrementalBackups(
+          full,
+          [incremental.replace('"baseBackupId":"full-1"', '"baseBackupId":"full-2"')]
+        )
+      ).rejects.toThrow("different full backup");
+    });
+
     it("handles empty data gracefully", async () => {
       const exported = await exportMoods();
-      expect(JSON.parse(exported)).toEqual([]);
+      expect(JSON.parse(exported).entries).toEqual([]);
 
       const result = await importMoods(exported);
       expect(result.imported).toBe(0);
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SAVED_PLACES,
+  coarsenCoordinate,
+  distanceInKm,
+  findNearestSavedPlace,
+  formatCoordinates,
+  parseSavedPlaces,
+  sanitizeMoodLocation,
+  toMoodLocationFromPlace,
+  type SavedPlace,
+} from "../../domain/location";
+
+describe("coarsenCoordinate", () => {
+  it("rounds to two decimals", () => {
+    expect(coarsenCoordinate(48.20849)).toBe(48.21);
+    expect(coarsenCoordinate(-74.00597)).toBe(-74.01);
+  });
+
+  it("never returns negative zero", () => {
+    expect(Object.is(coarsenCoordinate(-0.001), 0)).toBe(true);
+  });
+});
+
+describe("sanitizeMoodLocation", () => {
+  it("trims the name and coarsens coordinates", () => {
+    expect(
+      sanitizeMoodLocation({ name: "  Corner   cafe ", latitude: 51.50735, longitude: -0.12776 })
+    ).toEqual({ name: "Corner cafe", latitude: 51.51, longitude: -0.13, placeId: null });
+  });
+
+  it("requires a place name", () => {
+    expect(sanitizeMoodLocation({ name: "  ", latitude: 1, longitude: 2 })).toBeNull();
+    expect(sanitizeMoodLocation({ latitude: 1, longitude: 2 })).toBeNull();
+    expect(sanitizeMoodLocation("Vienna")).toBeNull();
+    expect(sanitizeMoodLocation(null)).toBeNull();
+  });
+
+  it("drops coordinates that are out of range or incomplete", () => {
+    expect(sanitizeMoodLocation({ name: "A", latitude: 91, longitude: 0 })).toMatchObject({
+      latitude: null,
+      longitude: null,
+    });
+    expect(sanitizeMoodLocation({ name: "A", latitude: 10 })).toMatchObject({
+      latitude: null,
+      longitude: null,
+    });
+    expect(
+      sanitizeMoodLocation({ name: "A", latitude: "10", longitude: Number.NaN })
+    ).toMatchObject({ latitude: null, longitude: null });
+  });
+
+  it("keeps a saved place reference", () => {
+    expect(sanitizeMoodLocation({ name: "Home", placeId: "home-1" })?.placeId).toBe("home-1");
+  });
+});
+
+describe("parseSavedPlaces", () => {
+  it("returns an empty list for invalid input", () => {
+    expect(parseSavedPlaces(null)).toEqual([]);
+    expect(parseSavedPlaces({})).toEqual([]);
+  });
+
+  it("drops invalid items and duplicate ids", () => {
+    expect(
+      parseSavedPlaces([
+        { id: "a", name: "Home", latitude: 48.123, longitude: 16.456 },
+        { id: "a", name: "Duplicate" },
+        { id: "", name: "No id" },
+        { id: "b", name: "" },
+        { id: "c", name: "Gym" },
+      ])
+    ).toEqual([
+      { id: "a", name: "Home", latitude: 48.12, longitude: 16.46 },
+      { id: "c", name: "Gym", latitude: null, longitude: null },
+    ]);
+  });
+
+  it("caps the number of places", () => {
+    const raw = Array.from({ length: MAX_SAVED_PLACES + 5 }, (_, i) => ({
+      id: `p${i}`,
+      name: `Place ${i}`,
+    }));
+    expect(parseSavedPlaces(raw)).toHaveLength(MAX_SAVED_PLACES);
+  });
+});
+
+describe("findNearestSavedPlace", () => {
+  const places: SavedPlace[] = [
+    { id: "home", name: "Home", latitude: 48.2, longitude: 16.37 },
+    { id: "work", name: "Work", latitude: 48.21, longitude: 16.38 },
+    { id: "gym", name: "Gym", latitude: null, longitude: null },
+  ];
+
+  it("measures great-circle distance", () => {
+    expect(
+      distanceInKm({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 })
+    ).toBeCloseTo(111.19, 1);
+  });
+
+  it("picks the closest place within range", () => {
+    expect(findNearestSavedPlace(places, { latitude: 48.209, longitude: 16.379 })?.id).toBe(
+      "work"
+    );
+  });
+
+  it("returns null when nothing is close enough", () => {
+    expect(findNearestSavedPlace(places, { latitude: 47, longitude: 15 })).toBeNull();
+  });
+});
+
+describe("location helpers", () => {
+  it("builds an entry location from a saved place", () => {
+    expect(
+      toMoodLocationFromPlace({ id: "home", name: "Home", latitude: 48.2, longitude: 16.37 })
+    ).toEqual({ name: "Home", latitude: 48.2, longitude: 16.37, placeId: "home" });
+  });
+
+  it("formats coordinates with fixed precision", () => {
+    expect(formatCoordinates({ latitude: 48.2, longitude: -16 })).toBe("48.20, -16.00");
+    expect(formatCoordinates({ latitude: null, longitude: null })).toBeNull();
+  });
+});
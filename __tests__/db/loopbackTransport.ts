@@ -0,0 +1,77 @@
+/**
+ * In-memory stand-in for a TCP connection between two devices, for testing
+ * the transfer protocol without a network.
+ */
+
+import type { TransferConnection } from "../../db/deviceTransfer";
+
+type Handlers = Parameters<TransferConnection["listen"]>[0];
+
+export type LoopbackOptions = {
+  /**
+   * Splits each write into pieces of at most this many bytes, as TCP may,
+   * so frame reassembly is exercised.
+   */
+  chunkSize?: number;
+};
+
+export type LoopbackConnection = TransferConnection & {
+  /** Every byte this end wrote, in order. */
+  written: Uint8Array[];
+};
+
+/** Creates two connected ends; bytes written to one arrive at the other. */
+export function createLoopbackPair(
+  options: LoopbackOptions = {}
+): [LoopbackConnection, LoopbackConnection] {
+  const handlers: (Handlers | null)[] = [null, null];
+  const pending: Uint8Array[][] = [[], []];
+  let closed = false;
+
+  const deliver = (to: number, bytes: Uint8Array) => {
+    const target = handlers[to];
+    if (target) {
+      target.onData(bytes);
+    } else {
+      pending[to].push(bytes);
+    }
+  };
+
+  const end = (index: number): LoopbackConnection => {
+    const other = 1 - index;
+    const connection: LoopbackConnection = {
+      written: [],
+      write: async (bytes) => {
+        if (closed) {
+          throw new Error("Connection closed");
+        }
+        connection.written.push(bytes.slice());
+        const chunkSize = options.chunkSize ?? bytes.length;
+        for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+          const chunk = bytes.slice(offset, offset + chunkSize);
+          // Deliver asynchronously, like a socket.
+          setTimeout(() => deliver(other, chunk), 0);
+        }
+      },
+      listen: (next) => {
+        handlers[index] = next;
+        for (const bytes of pending[index].splice(0)) {
+          next.onData(bytes);
+        }
+      },
+      close: () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        setTimeout(() => {
+          handlers[0]?.onClose();
+          handlers[1]?.onClose();
+        }, 0);
+      },
+    };
+    return connection;
+  };
+
+  return [end(0), end(1)];
+}
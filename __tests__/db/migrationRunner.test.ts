@@ -0,0 +1,283 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  getSchemaVersion,
+  rebuildTable,
+  runSchemaMigrations,
+  validateSchemaMigrations,
+  type SchemaMigration,
+} from "../../db/migrationRunner";
+
+vi.mock("../../db/client", () => ({
+  getDb: vi.fn(),
+}));
+
+/**
+ * Minimal stand-in that tracks user_version with transactional semantics:
+ * a ROLLBACK restores the version seen at BEGIN.
+ */
+function createVersionedDb(initialVersion = 0, foreignKeys = 1) {
+  let userVersion = initialVersion;
+  let versionAtBegin: number | null = null;
+  let foreignKeysEnabled = foreignKeys;
+  const statements: string[] = [];
+
+  const db = {
+    statements,
+    execAsync: vi.fn(async (sql: string) => {
+      statements.push(sql);
+      const versionMatch = sql.match(/PRAGMA user_version = (\d+);/);
+      if (versionMatch) {
+        userVersion = Number(versionMatch[1]);
+      } else if (sql === "BEGIN TRANSACTION;") {
+        versionAtBegin = userVersion;
+      } else if (sql === "ROLLBACK;") {
+        userVersion = versionAtBegin ?? userVersion;
+        versionAtBegin = null;
+      } else if (sql === "COMMIT;") {
+        versionAtBegin = null;
+      } else if (sql === "PRAGMA foreign_keys = OFF;") {
+        foreignKeysEnabled = 0;
+      } else if (sql === "PRAGMA foreign_keys = ON;") {
+        foreignKeysEnabled = 1;
+      }
+    }),
+    getFirstAsync: vi.fn(async (sql: string) => {
+      if (sql === "PRAGMA user_version;") {
+        return { user_version: userVersion };
+      }
+      if (sql === "PRAGMA foreign_keys;") {
+        return { foreign_keys: foreignKeysEnabled };
+      }
+      return null;
+    }),
+    getAllAsync: vi.fn(async () => []),
+    runAsync: vi.fn(async () => ({ changes: 0, lastInsertRowId: 0 })),
+    get version() {
+      return userVersion;
+    },
+    get foreignKeys() {
+      return foreignKeysEnabled;
+    },
+  };
+
+  return db;
+}
+
+function step(version: number, up = vi.fn(async () => {})): SchemaMigration {
+  return { version, name: `step-${version}`, up };
+}
+
+describe("runSchemaMigrations", () => {
+  it("applies every pending step in order and records the version", async () => {
+    const db = createVersionedDb();
+    const order: number[] = [];
+    const migrations = [1, 2, 3].map((version) =>
+      step(version, vi.fn(async () => {
+        order.push(version);
+      }))
+    );
+
+    const result = await runSchemaMigrations(db as never, migrations);
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(result).toEqual({
+      fromVersion: 0,
+      toVersion: 3,
+      applied: [
+        { version: 1, name: "step-1" },
+        { version: 2, name: "step-2" },
+        { version: 3, name: "step-3" },
+      ],
+    });
+    expect(await getSchemaVersion(db as never)).toBe(3);
+  });
+
+  it("wraps each step and its version bump in one transaction", async () => {
+    const db = createVersionedDb();
+
+    await runSchemaMigrations(db as never, [step(1)]);
+
+    expect(db.statements).toEqual([
+      "BEGIN TRANSACTION;",
+      "PRAGMA user_version = 1;",
+      "COMMIT;",
+    ]);
+  });
+
+  it("skips steps at or below the stored version", async () => {
+    const db = createVersionedDb(2);
+    const first = step(1);
+    const second = step(2);
+    const third = step(3);
+
+    const result = await runSchemaMigrations(db as never, [first, second, third]);
+
+    expect(first.up).not.toHaveBeenCalled();
+    expect(second.up).not.toHaveBeenCalled();
+    expect(third.up).toHaveBeenCalledTimes(1);
+    expect(result.applied.map((migration) => migration.version)).toEqual([3]);
+  });
+
+  it("is a no-op when the database is current", async () => {
+    const db = createVersionedDb(2);
+
+    const result = await runSchemaMigrations(db as never, [step(1), step(2)]);
+
+    expect(result).toEqual({ fromVersion: 2, toVersion: 2, applied: [] });
+    expect(db.statements).toEqual([]);
+  });
+
+  it("rolls back a failing step and keeps earlier steps committed", async () => {
+    const db = createVersionedDb();
+    const third = step(3);
+    const migrations = [
+      step(1),
+      step(2, vi.fn(async () => {
+        throw new Error("disk full");
+      })),
+      third,
+    ];
+
+    await expect(runSchemaMigrations(db as never, migrations)).rejects.toThrow(
+      "Schema migration v2 (step-2) failed: disk full"
+    );
+
+    expect(db.version).toBe(1);
+    expect(db.statements).toContain("ROLLBACK;");
+    expect(third.up).not.toHaveBeenCalled();
+  });
+
+  it("resumes from the failed step on the next run", async () => {
+    const db = createVersionedDb();
+    let shouldFail = true;
+    const flaky = step(2, vi.fn(async () => {
+      if (shouldFail) {
+        throw new Error("interrupted");
+      }
+    }));
+    const first = step(1);
+
+    await expect(runSchemaMigrations(db as never, [first, flaky])).rejects.toThrow();
+    shouldFail = false;
+    const result = await runSchemaMigrations(db as never, [first, flaky]);
+
+    expect(first.up).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ fromVersion: 1, toVersion: 2 });
+  });
+
+  it("refuses to open a database written by a newer schema", async () => {
+    const db = createVersionedDb(5);
+
+    await expect(runSchemaMigrations(db as never, [step(1)])).rejects.toThrow(
+      "Database schema version 5 is newer than this app supports (1)"
+    );
+  });
+
+  it("disables and restores foreign keys around rebuild steps", async () => {
+    const db = createVersionedDb(0, 1);
+    let foreignKeysDuringStep: number | null = null;
+    const rebuild: SchemaMigration = {
+      version: 1,
+      name: "rebuild",
+      disableForeignKeys: true,
+      up: vi.fn(async () => {
+        foreignKeysDuringStep = db.foreignKeys;
+      }),
+    };
+
+    await runSchemaMigrations(db as never, [rebuild]);
+
+    expect(foreignKeysDuringStep).toBe(0);
+    expect(db.foreignKeys).toBe(1);
+    expect(db.getAllAsync).toHaveBeenCalledWith("PRAGMA foreign_key_check;");
+  });
+
+  it("rolls back a rebuild that leaves foreign key violations", async () => {
+    const db = createVersionedDb(0, 1);
+    db.getAllAsync.mockResolvedValueOnce([{ table: "mood_emotions" }] as never);
+
+    await expect(
+      runSchemaMigrations(db as never, [{ ...step(1), disableForeignKeys: true }])
+    ).rejects.toThrow("Foreign key check failed with 1 violation(s)");
+
+    expect(db.version).toBe(0);
+    expect(db.foreignKeys).toBe(1);
+  });
+});
+
+describe("validateSchemaMigrations", () => {
+  it("accepts ascending versions with gaps", () => {
+    expect(() => validateSchemaMigrations([step(1), step(3)])).not.toThrow();
+  });
+
+  it("rejects duplicate or descending versions", () => {
+    expect(() => validateSchemaMigrations([step(2), step(2)])).toThrow(
+      'Schema migration "step-2" (v2) must come after v2'
+    );
+    expect(() => validateSchemaMigrations([step(3), step(1)])).toThrow();
+  });
+
+  it("rejects non-positive versions", () => {
+    expect(() => validateSchemaMigrations([step(0)])).toThrow("invalid version");
+  });
+});
+
+describe("rebuildTable", () => {
+  it("copies listed columns into the new shape and swaps tables", async () => {
+    const db = createVersionedDb();
+
+    await rebuildTable(db as never, {
+      table: "moods",
+      createSql: (name) => `CREATE TABLE ${name} (id INTEGER PRIMARY KEY, mood INTEGER NOT NULL);`,
+      columns: ["id", "mood"],
+      indexSql: ["CREATE INDEX idx_moods_mood ON moods(mood);"],
+    });
+
+    expect(db.statements).toEqual([
+      "DROP TABLE IF EXISTS moods__next;",
+      "CREATE TABLE moods__next (id INTEGER PRIMARY KEY, mood INTEGER NOT NULL);",
+      "INSERT INTO moods__next (id, mood) SELECT id, mood FROM moods;",
+      "DROP TABLE moods;",
+      "ALTER TABLE moods__next RENAME TO moods;",
+      "CREATE INDEX idx_moods_mood ON moods(mood);",
+    ]);
+  });
+
+  it("uses select expressions to backfill while copying", async () => {
+    const db = createVersionedDb();
+
+    await rebuildTable(db as never, {
+      table: "moods",
+      createSql: (name) => `CREATE TABLE ${name} (id INTEGER, energy INTEGER NOT NULL);`,
+      columns: ["id", "energy"],
+      selectExpressions: ["id", "COALESCE(energy, 5)"],
+    });
+
+    expect(db.statements).toContain(
+      "INSERT INTO moods__next (id, energy) SELECT id, COALESCE(energy, 5) FROM moods;"
+    );
+  });
+
+  it("rejects mismatched select expressions", async () => {
+    const db = createVersionedDb();
+
+    await expect(
+      rebuildTable(db as never, {
+        table: "moods",
+        createSql: (name) => `CREATE TABLE ${name} (id INTEGER);`,
+        columns: ["id"],
+        selectExpressions: ["id", "mood"],
+      })
+    ).rejects.toThrow("needs one select expression per column");
+  });
+});
+
+describe("MOOD_SCHEMA_MIGRATIONS", () => {
+  it("is a valid ordered history", async () => {
+    const { MOOD_SCHEMA_MIGRATIONS } = await import("../../db/moods/schemaMigrations");
+
+    expect(() => validateSchemaMigrations(MOOD_SCHEMA_MIGRATIONS)).not.toThrow();
+    expect(MOOD_SCHEMA_MIGRATIONS[0]?.version).toBe(1);
+  });
+});
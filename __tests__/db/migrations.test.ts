@@ -1,10 +1,12 @@
-import { vi } from "vitest";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { beforeEach, vi } from "vitest";
 
 vi.mock("../../db/client", () => ({
   getDb: vi.fn(),
 }));
 
-import { backfillMoodScaleJson } from "../../db/moods/migrations";
+import { backfillMoodScaleJson, migrateEmotionsToCategories } from "../../db/moods/migrations";
+import { MOOD_SCHEMA_MIGRATIONS } from "../../db/moods/schemaMigrations";
 import {
   CURRENT_MOOD_SCALE_SNAPSHOT,
   serializeMoodScale,
@@ -103,3 +105,84 @@ describe("backfillMoodScaleJson", () => {
     );
   });
 });
+
+type EmotionFixtureRow = {
+  id: number;
+  emotions: string;
+};
+
+function createEmotionFixtureDb(initial: EmotionFixtureRow[]) {
+  const rows: EmotionFixtureRow[] = initial.map((r) => ({ ...r }));
+  const getAllAsync = vi.fn(async () => rows.map((r) => ({ ...r })));
+  const runAsync = vi.fn(async (_sql: string, emotions: string, id: number) => {
+    const row = rows.find((r) => r.id === id);
+    if (row) {
+      row.emotions = emotions;
+    }
+    return { changes: row ? 1 : 0, lastInsertRowId: 0 };
+  });
+  const execAsync = vi.fn();
+
+  return { getAllAsync, runAsync, execAsync, rows };
+}
+
+describe("migrateEmotionsToCategories", () => {
+  it("adds categories to plain emotion names without opening a transaction", async () => {
+    const fixture = createEmotionFixtureDb([
+      { id: 1, emotions: JSON.stringify(["Content", "Unknown"]) },
+      { id: 2, emotions: JSON.stringify([{ name: "Calm", category: "positive" }]) },
+      { id: 3, emotions: "[]" },
+    ]);
+
+    const result = await migrateEmotionsToCategories(fixture as never);
+
+    expect(result).toEqual({ migrated: 1, skipped: 2 });
+    expect(JSON.parse(fixture.rows[0].emotions)).toEqual([
+      { name: "Content", category: "positive" },
+      { name: "Unknown", category: "neutral" },
+    ]);
+    expect(fixture.execAsync).not.toHaveBeenCalled();
+  });
+});
+
+describe("categorize-legacy-emotions schema step", () => {
+  const step = MOOD_SCHEMA_MIGRATIONS.find(
+    (migration) => migration.name === "categorize-legacy-emotions"
+  )!;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it("categorizes emotions on installs that never ran the migration", async () => {
+    const fixture = createEmotionFixtureDb([{ id: 1, emotions: JSON.stringify(["Calm"]) }]);
+
+    await step.up(fixture as never);
+
+    expect(fixture.runAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips installs whose legacy flag says the migration already ran", async () => {
+    await AsyncStorage.setItem("emotionCategoryMigrationCompleted", "true");
+    const fixture = createEmotionFixtureDb([{ id: 1, emotions: JSON.stringify(["Calm"]) }]);
+
+    await step.up(fixture as never);
+
+    expect(fixture.getAllAsync).not.toHaveBeenCalled();
+  });
+
+  it("skips installs whose bootstrap state records it as completed", async () => {
+    await AsyncStorage.setItem(
+      "bootstrapMigrationsState",
+      JSON.stringify({
+        schemaVersion: 1,
+        migrations: { "legacy-emotion-categories": { version: 1, status: "completed" } },
+      })
+    );
+    const fixture = createEmotionFixtureDb([{ id: 1, emotions: JSON.stringify(["Calm"]) }]);
+
+    await step.up(fixture as never);
+
+    expect(fixture.getAllAsync).not.toHaveBeenCalled();
+  });
+});
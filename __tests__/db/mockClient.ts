@@ -19,6 +19,16 @@ export type MockRow = {
   location_json: string | null;
   voice_memos_json: string | null;
   based_on_entry_id: number | null;
+  deleted_at: number | null;
+  created_at: number | null;
+  updated_at: number | null;
+};
+
+export type MockRevisionRow = {
+  id: number;
+  mood_id: number;
+  revised_at: number;
+  changes_json: string;
 };
 
 export type MockEmotionRow = {
@@ -32,6 +42,20 @@ export type MockMoodEmotionRow = {
   emotion_id: number;
 };
 
+/**
+ * Applies the trash conditions a query uses: live entries only, or trashed
+ * entries only.
+ */
+function filterByTrash(rows: MockRow[], sql: string): MockRow[] {
+  if (sql.includes("deleted_at IS NULL")) {
+    return rows.filter((row) => row.deleted_at === null);
+  }
+  if (sql.includes("deleted_at IS NOT NULL")) {
+    return rows.filter((row) => row.deleted_at !== null);
+  }
+  return rows;
+}
+
 /**
  * Creates a mock SQLite database for testing.
  */
@@ -39,8 +63,10 @@ export function createMockDb() {
   let moodRows: MockRow[] = [];
   let emotionRows: MockEmotionRow[] = [];
   let moodEmotionRows: MockMoodEmotionRow[] = [];
+  let revisionRows: MockRevisionRow[] = [];
   let nextMoodId = 1;
   let nextEmotionId = 1;
+  let nextRevisionId = 1;
 
   const mockDb = {
     // Transaction methods
@@ -64,11 +90,35 @@ export function createMockDb() {
           location_json: params[8] ?? null,
           voice_memos_json: params[9] ?? "[]",
           based_on_entry_id: params[10] ?? null,
+          deleted_at: null,
+          created_at: params[11] ?? null,
+          updated_at: params[12] ?? null,
         };
         moodRows.push(newRow);
         return { lastInsertRowId: id, changes: 1 };
       }
 
+      // Handle INSERT INTO mood_revisions
+      if (sql.includes("INSERT INTO mood_revisions")) {
+        const id = nextRevisionId++;
+        revisionRows.push({
+          id,
+          mood_id: params[0],
+          revised_at: params[1],
+          changes_json: params[2],
+        });
+        return { lastInsertRowId: id, changes: 1 };
+      }
+
+      // Handle DELETE FROM mood_revisions
+      if (sql.includes("DELETE FROM mood_revisions")) {
+        const initialLength = revisionRows.length;
+        revisionRows = sql.includes("NOT IN")
+          ? revisionRows.filter((row) => moodRows.some((mood) => mood.id === row.mood_id))
+          : [];
+        return { changes: initialLength - revisionRows.length };
+      }
+
       // Handle UPDATE moods
       if (sql.includes("UPDATE moods SET")) {
         const idIndex = params.length - 1;
@@ -117,6 +167,15 @@ export function createMockDb() {
               case "based_on_entry_id":
                 moodRows[rowIndex].based_on_entry_id = value;
                 break;
+              case "deleted_at":
+                moodRows[rowIndex].deleted_at = value;
+                break;
+              case "created_at":
+                moodRows[rowIndex].created_at = value;
+                break;
+              case "updated_at":
+                moodRows[rowIndex].updated_at = value;
+                break;
               default:
                 break;
             }
@@ -126,6 +185,17 @@ export function createMockDb() {
         return { changes: 0 };
       }
 
+      // Handle purging entries from the trash
+      if (sql.includes("DELETE FROM moods") && sql.includes("deleted_at IS NOT NULL")) {
+        const purged = filterByTrash(moodRows, sql).filter((row) =>
+          sql.includes("id IN") ? params.includes(row.id) : row.deleted_at! <= params[0]
+        );
+        const purgedIds = new Set(purged.map((row) => row.id));
+        moodRows = moodRows.filter((row) => !purgedIds.has(row.id));
+        moodEmotionRows = moodEmotionRows.filter((row) => !purgedIds.has(row.mood_id));
+        return { changes: purged.length };
+      }
+
       // Handle DELETE FROM moods
       if (sql.includes("DELETE FROM moods")) {
         if (params.length === 0) {
@@ -249,16 +319,25 @@ export function createMockDb() {
 
       // Handle SELECT COUNT(*) FROM moods
       if (sql.includes("SELECT COUNT") && sql.includes("moods")) {
+        const rows = filterByTrash(moodRows, sql);
         if (sql.includes("WHERE timestamp")) {
           // Filter by timestamp range
           const start = params[0];
           const end = params[1];
-          const count = moodRows.filter(
+          const count = rows.filter(
             (r) => r.timestamp >= start && r.timestamp <= end
           ).length;
           return { count };
         }
-        return { count: moodRows.length };
+        return { count: rows.length };
+      }
+
+      // Handle SELECT photos_json, voice_memos_json FROM moods WHERE id = ?
+      if (sql.includes("SELECT photos_json, voice_memos_json FROM moods WHERE id")) {
+        const row = moodRows.find((r) => r.id === params[0]);
+        return row
+          ? { photos_json: row.photos_json, voice_memos_json: row.voice_memos_json }
+          : null;
       }
 
       // Handle SELECT id FROM emotions WHERE name = ?
@@ -285,9 +364,14 @@ export function createMockDb() {
 
     // Query multiple rows
     getAllAsync: vi.fn(async (sql: string, ...params: any[]) => {
+      // Handle SELECT * FROM moods WHERE id IN (...)
+      if (sql.includes("SELECT * FROM moods WHERE id IN")) {
+        return filterByTrash(moodRows, sql).filter((r) => params.includes(r.id));
+      }
+
       // Handle SELECT * FROM moods ORDER BY timestamp DESC
       if (sql.includes("SELECT * FROM moods") && sql.includes("ORDER BY")) {
-        let result = [...moodRows];
+        let result = filterByTrash(moodRows, sql);
 
         // Handle WHERE clauses for timestamp filtering
         if (sql.includes("WHERE") && params.length > 0) {
@@ -302,6 +386,9 @@ export function createMockDb() {
           }
         }
 
+        if (sql.includes("ORDER BY deleted_at DESC")) {
+          return result.sort((a, b) => b.deleted_at! - a.deleted_at!);
+        }
         return result.sort((a, b) => b.timestamp - a.timestamp);
       }
 
@@ -313,29 +400,44 @@ export function createMockDb() {
       // Handle SELECT emotions FROM moods
       if (sql.includes("SELECT emotions FROM moods")) {
         const rows = sql.includes("ORDER BY timestamp DESC")
-          ? [...moodRows].sort((a, b) => {
+          ? filterByTrash(moodRows, sql).sort((a, b) => {
               if (b.timestamp !== a.timestamp) {
                 return b.timestamp - a.timestamp;
               }
               return b.id - a.id;
             })
-          : moodRows;
+          : filterByTrash(moodRows, sql);
         return rows.map((r) => ({ emotions: r.emotions }));
       }
 
       // Handle SELECT context_tags FROM moods
       if (sql.includes("SELECT context_tags FROM moods")) {
         const rows = sql.includes("ORDER BY timestamp DESC")
-          ? [...moodRows].sort((a, b) => {
+          ? filterByTrash(moodRows, sql).sort((a, b) => {
               if (b.timestamp !== a.timestamp) {
                 return b.timestamp - a.timestamp;
               }
               return b.id - a.id;
             })
-          : moodRows;
+          : filterByTrash(moodRows, sql);
         return rows.map((r) => ({ context_tags: r.context_tags }));
       }
 
+      // Handle SELECT * FROM mood_revisions
+      if (sql.includes("FROM mood_revisions")) {
+        return revisionRows
+          .filter((row) => params.includes(row.mood_id))
+          .sort((a, b) => a.revised_at - b.revised_at || a.id - b.id);
+      }
+
+      // Handle SELECT photos_json, voice_memos_json FROM moods
+      if (sql.includes("SELECT photos_json, voice_memos_json FROM moods")) {
+        return moodRows.map((r) => ({
+          photos_json: r.photos_json,
+          voice_memos_json: r.voice_memos_json,
+        }));
+      }
+
       // Handle SELECT name, category FROM emotions
       if (sql.includes("FROM emotions")) {
         return [...emotionRows]
@@ -350,12 +452,15 @@ export function createMockDb() {
     __getMoods: () => [...moodRows],
     __getEmotions: () => [...emotionRows],
     __getMoodEmotions: () => [...moodEmotionRows],
+    __getMoodRevisions: () => [...revisionRows],
     __reset: () => {
       moodRows = [];
       emotionRows = [];
       moodEmotionRows = [];
+      revisionRows = [];
       nextMoodId = 1;
       nextEmotionId = 1;
+      nextRevisionId = 1;
     },
     __addMood: (mood: Partial<MockRow>) => {
       const id = nextMoodId++;
@@ -372,6 +477,9 @@ export function createMockDb() {
         location_json: mood.location_json ?? null,
         voice_memos_json: mood.voice_memos_json ?? "[]",
         based_on_entry_id: mood.based_on_entry_id ?? null,
+        deleted_at: mood.deleted_at ?? null,
+        created_at: mood.created_at ?? null,
+        updated_at: mood.updated_at ?? null,
       };
       moodRows.push(newRow);
       return newRow;
@@ -398,16 +506,22 @@ export function createMockDb() {
  * Helper to create a mock MoodEntry for testing.
  */
 export function createMockMoodEntry(overrides?: Partial<MoodEntry>): MoodEntry {
+  const timestamp = overrides?.timestamp ?? Date.now();
   return {
     id: 1,
     mood: 5,
     note: null,
-    timestamp: Date.now(),
+    timestamp,
     emotions: [],
     contextTags: [],
     energy: null,
     moodScale: { version: 1, min: 0, max: 10, lowerIsBetter: true },
+    photos: [],
+    voiceMemos: [],
+    location: null,
     basedOnEntryId: null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
     ...overrides,
   };
 }
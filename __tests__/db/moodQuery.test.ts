@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  countMoodQueryCriteria,
+  isHourInTimeOfDay,
+  matchesMoodQuery,
+  normalizeMoodQuery,
+  toCurrentScaleMood,
+} from "../../domain/moodQuery";
+import { LEGACY_HIGHER_IS_BETTER_MOOD_SCALE_SNAPSHOT } from "../../domain/moodScale";
+import { buildMoodQuerySql } from "../../db/moods/query";
+import { createMockMoodEntry } from "./mockClient";
+
+function atHour(hour: number): number {
+  const date = new Date(2024, 4, 10, hour, 30);
+  return date.getTime();
+}
+
+describe("normalizeMoodQuery", () => {
+  it("drops empty and no-op criteria", () => {
+    expect(
+      normalizeMoodQuery({
+        mood: { min: 0, max: 10 },
+        emotions: { names: [" ", ""], match: "all" },
+        contextTags: { tags: [] },
+        timeOfDay: { startHour: 0, endHour: 24 },
+        note: "sometimes",
+      })
+    ).toEqual({});
+  });
+
+  it("clamps bounds, swaps inverted ranges and dedupes names", () => {
+    expect(
+      normalizeMoodQuery({
+        mood: { min: 12, max: 6 },
+        energy: { min: -3 },
+        emotions: { names: ["Anxious", "anxious", "Calm"], match: "bogus" },
+      })
+    ).toEqual({
+      mood: { min: 6 },
+      emotions: { names: ["Anxious", "Calm"], match: "any" },
+    });
+  });
+
+  it("counts active criteria", () => {
+    expect(countMoodQueryCriteria({ mood: { min: 7 }, note: "with" })).toBe(2);
+    expect(countMoodQueryCriteria({})).toBe(0);
+  });
+});
+
+describe("matchesMoodQuery", () => {
+  it("answers 'Work entries with Anxious above 7'", () => {
+    const query = {
+      mood: { min: 8 },
+      emotions: { names: ["anxious"], match: "any" as const },
+      contextTags: { tags: ["Work"], match: "any" as const },
+    };
+    const matching = createMockMoodEntry({
+      mood: 8,
+      emotions: [{ name: "Anxious", category: "negative" }],
+      contextTags: ["Work"],
+    });
+
+    expect(matchesMoodQuery(matching, query)).toBe(true);
+    expect(matchesMoodQuery({ ...matching, mood: 6 }, query)).toBe(false);
+    expect(matchesMoodQuery({ ...matching, contextTags: ["Home"] }, query)).toBe(false);
+  });
+
+  it("compares legacy-scale entries on the current scale", () => {
+    const legacy = createMockMoodEntry({
+      mood: 2,
+      moodScale: LEGACY_HIGHER_IS_BETTER_MOOD_SCALE_SNAPSHOT,
+    });
+    expect(toCurrentScaleMood(2, LEGACY_HIGHER_IS_BETTER_MOOD_SCALE_SNAPSHOT)).toBe(8);
+    expect(matchesMoodQuery(legacy, { mood: { min: 7 } })).toBe(true);
+  });
+
+  it("maps entries recorded on a scale with another span by position", () => {
+    const fivePoint = { version: 2, min: 1, max: 5, lowerIsBetter: false };
+    expect(toCurrentScaleMood(5, fivePoint)).toBe(0);
+    expect(toCurrentScaleMood(2, fivePoint)).toBe(7.5);
+    expect(toCurrentScaleMood(2, { ...fivePoint, lowerIsBetter: true })).toBe(2.5);
+
+    const entry = createMockMoodEntry({ mood: 2, moodScale: fivePoint });
+    expect(matchesMoodQuery(entry, { mood: { min: 7 } })).toBe(true);
+    expect(matchesMoodQuery(entry, { mood: { max: 3 } })).toBe(false);
+  });
+
+  it("requires every emotion for all-of matches", () => {
+    const entry = createMockMoodEntry({
+      emotions: [{ name: "Tired", category: "negative" }],
+    });
+    expect(
+      matchesMoodQuery(entry, { emotions: { names: ["Tired", "Sad"], match: "all" } })
+    ).toBe(false);
+    expect(
+      matchesMoodQuery(entry, { emotions: { names: ["Tired", "Sad"], match: "any" } })
+    ).toBe(true);
+  });
+
+  it("filters energy, notes and time of day", () => {
+    const entry = createMockMoodEntry({ energy: null, note: "  ", timestamp: atHour(19) });
+    expect(matchesMoodQuery(entry, { energy: { min: 3 } })).toBe(false);
+    expect(matchesMoodQuery(entry, { note: "without" })).toBe(true);
+    expect(matchesMoodQuery(entry, { timeOfDay: { startHour: 18, endHour: 24 } })).toBe(true);
+    expect(matchesMoodQuery(entry, { timeOfDay: { startHour: 5, endHour: 12 } })).toBe(false);
+  });
+
+  it("wraps time of day ranges past midnight", () => {
+    const night = { startHour: 22, endHour: 6 };
+    expect(isHourInTimeOfDay(23, night)).toBe(true);
+    expect(isHourInTimeOfDay(3, night)).toBe(true);
+    expect(isHourInTimeOfDay(12, night)).toBe(false);
+  });
+});
+
+describe("buildMoodQuerySql", () => {
+  it("returns a neutral clause for an empty query", () => {
+    expect(buildMoodQuerySql({})).toEqual({ where: "1", params: [] });
+  });
+
+  it("reads the mood through the entry's scale snapshot", () => {
+    const { where, params } = buildMoodQuerySql({ mood: { min: 7 } });
+    expect(where).toContain("json_extract(moods.mood_scale_json, '$.lowerIsBetter') = 0");
+    expect(where).toContain(
+      "MAX(1, json_extract(moods.mood_scale_json, '$.max') - json_extract(moods.mood_scale_json, '$.min'))"
+    );
+    expect(params).toEqual([7]);
+  });
+
+  it("matches all-of emotions through the junction table", () => {
+    const { where, params } = buildMoodQuerySql({
+      emotions: { names: ["Anxious", "Tired"], match: "all" },
+    });
+    expect(where).toContain("FROM mood_emotions me JOIN emotions e");
+    expect(where).toContain("HAVING COUNT(DISTINCT e.id) = ?");
+    expect(params).toEqual(["Anxious", "Tired", 2]);
+  });
+
+  it("lowercases context tags and binds criteria in order", () => {
+    const { where, params } = buildMoodQuerySql(
+      {
+        dateRange: { startDate: 100, endDate: 200 },
+        contextTags: { tags: ["Work"], match: "any" },
+        energy: { max: 4 },
+        note: "with",
+        timeOfDay: { startHour: 22, endHour: 6 },
+      },
+      "docs"
+    );
+    expect(where).toContain("docs.timestamp >= ?");
+    expect(where).toContain("EXISTS (SELECT 1 FROM json_each(");
+    expect(where).toContain("TRIM(COALESCE(docs.note, '')) <> ''");
+    expect(where).toContain(" OR ");
+    expect(params).toEqual([100, 200, "work", 4, 22, 6]);
+  });
+});
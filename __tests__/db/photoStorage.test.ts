@@ -0,0 +1,135 @@
+import { vi } from "vitest";
+
+/**
+ * Tests for mood photo file storage.
+ * expo-file-system is replaced by the in-memory mock from the test setup.
+ */
+
+import * as FileSystem from "expo-file-system/legacy";
+import {
+  MOOD_PHOTO_DIR,
+  deleteAllMoodPhotoFiles,
+  exportMoodPhoto,
+  getMoodPhotoUri,
+  purgeUnreferencedMoodPhotoFiles,
+  restoreExportedMoodPhoto,
+  storeMoodPhoto,
+} from "../../db/moods/photoStorage";
+import { UNSAVED_ATTACHMENT_GRACE_MS } from "../../db/moods/attachmentFiles";
+
+const fs = FileSystem as unknown as {
+  __files: Map<string, { content: string; modificationTime: number }>;
+  __setModificationTime: (uri: string, modificationTime: number) => void;
+  __reset: () => void;
+};
+
+async function storeTestPhoto() {
+  await FileSystem.writeAsStringAsync("file:///cache/full.jpg", "RlVMTA==");
+  await FileSystem.writeAsStringAsync("file:///cache/thumb.jpg", "VEhVTUI=");
+  return storeMoodPhoto({
+    uri: "file:///cache/full.jpg",
+    thumbnailUri: "file:///cache/thumb.jpg",
+    width: 1600.4,
+    height: 1200,
+  });
+}
+
+describe("photoStorage", () => {
+  beforeEach(() => {
+    fs.__reset();
+    vi.clearAllMocks();
+  });
+
+  describe("storeMoodPhoto", () => {
+    it("moves the processed files into the photo directory", async () => {
+      const photo = await storeTestPhoto();
+
+      expect(photo.fileName).toBe(`${photo.id}.jpg`);
+      expect(photo.thumbnailFileName).toBe(`${photo.id}-thumb.jpg`);
+      expect(photo.width).toBe(1600);
+      expect(fs.__files.has(getMoodPhotoUri(photo.fileName))).toBe(true);
+      expect(fs.__files.has(getMoodPhotoUri(photo.thumbnailFileName))).toBe(true);
+      expect(fs.__files.has("file:///cache/full.jpg")).toBe(false);
+    });
+  });
+
+  describe("purgeUnreferencedMoodPhotoFiles", () => {
+    it("deletes old files that no entry references", async () => {
+      const kept = await storeTestPhoto();
+      const orphan = await storeTestPhoto();
+      const now = Date.now() + UNSAVED_ATTACHMENT_GRACE_MS + 1000;
+
+      const deleted = await purgeUnreferencedMoodPhotoFiles([kept], now);
+
+      expect(deleted).toBe(2);
+      expect(fs.__files.has(getMoodPhotoUri(kept.fileName))).toBe(true);
+      expect(fs.__files.has(getMoodPhotoUri(orphan.fileName))).toBe(false);
+      expect(fs.__files.has(getMoodPhotoUri(orphan.thumbnailFileName))).toBe(false);
+    });
+
+    it("keeps recent files that may belong to an unsaved entry", async () => {
+      const draft = await storeTestPhoto();
+
+      const deleted = await purgeUnreferencedMoodPhotoFiles([]);
+
+      expect(deleted).toBe(0);
+      expect(fs.__files.has(getMoodPhotoUri(draft.fileName))).toBe(true);
+    });
+
+    it("returns 0 when the photo directory does not exist", async () => {
+      await expect(purgeUnreferencedMoodPhotoFiles([])).resolves.toBe(0);
+    });
+  });
+
+  describe("deleteAllMoodPhotoFiles", () => {
+    it("removes every stored photo", async () => {
+      await storeTestPhoto();
+
+      await deleteAllMoodPhotoFiles();
+
+      expect([...fs.__files.keys()].some((uri) => uri.startsWith(MOOD_PHOTO_DIR))).toBe(false);
+    });
+  });
+
+  describe("export and restore", () => {
+    it("round-trips a photo under a fresh id", async () => {
+      const photo = await storeTestPhoto();
+      const exported = await exportMoodPhoto(photo);
+
+      expect(exported).toEqual({
+        id: photo.id,
+        width: 1600,
+        height: 1200,
+        data: "RlVMTA==",
+        thumbnailData: "VEhVTUI=",
+      });
+
+      const restored = await restoreExportedMoodPhoto(exported);
+
+      expect(restored).not.toBeNull();
+      expect(restored!.id).not.toBe(photo.id);
+      expect(fs.__files.get(getMoodPhotoUri(restored!.fileName))?.content).toBe("RlVMTA==");
+      expect(fs.__files.get(getMoodPhotoUri(restored!.thumbnailFileName))?.content).toBe(
+        "VEhVTUI="
+      );
+    });
+
+    it("returns null when the stored file is missing", async () => {
+      const photo = await storeTestPhoto();
+      await FileSystem.deleteAsync(getMoodPhotoUri(photo.fileName));
+
+      await expect(exportMoodPhoto(photo)).resolves.toBeNull();
+    });
+
+    it("rejects bare URIs and malformed payloads", async () => {
+      await expect(restoreExportedMoodPhoto("file:///photo.jpg")).resolves.toBeNull();
+      await expect(
+        restoreExportedMoodPhoto({ width: 10, height: 10, data: "not base64!" })
+      ).resolves.toBeNull();
+      await expect(
+        restoreExportedMoodPhoto({ width: -1, height: 10, data: "RlVMTA==" })
+      ).resolves.toBeNull();
+      expect(fs.__files.size).toBe(0);
+    });
+  });
+});
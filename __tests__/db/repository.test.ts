@@ -27,6 +27,10 @@ import {
   insertMoodEntry,
   getAllMoods,
   deleteMood,
+  getDeletedMoods,
+  restoreDeletedMood,
+  purgeDeletedMoods,
+  purgeMoodsDeletedBefore,
   updateMoodNote,
   updateMoodTimestamp,
   updateMoodEntry,
@@ -35,13 +39,42 @@ import {
   getEmotionsFromMoods,
   hasMoodBeenLoggedToday,
   updateEmotionCategoryInMoods,
+  purgeUnusedMoodAttachments,
 } from "../../db/moods/repository";
+import { getMoodVoiceMemoUri } from "../../db/moods/voiceMemoStorage";
 import { linkEmotionsToMood } from "../../db/moods/emotions";
 import { toMoodEntry } from "../../db/moods/serialization";
+import * as FileSystem from "expo-file-system/legacy";
+import { getMoodPhotoUri } from "../../db/moods/photoStorage";
+
+const files = (FileSystem as unknown as {
+  __files: Map<string, { content: string; modificationTime: number }>;
+}).__files;
+
+function createStoredPhoto(id: string) {
+  const photo = {
+    id,
+    fileName: `${id}.jpg`,
+    thumbnailFileName: `${id}-thumb.jpg`,
+    width: 800,
+    height: 600,
+  };
+  // A zero modification time puts the files well outside the unsaved grace period.
+  files.set(getMoodPhotoUri(photo.fileName), { content: "RlVMTA==", modificationTime: 0 });
+  files.set(getMoodPhotoUri(photo.thumbnailFileName), { content: "VEhVTUI=", modificationTime: 0 });
+  return photo;
+}
+
+function createStoredVoiceMemo(id: string) {
+  const memo = { id, fileName: `${id}.m4a`, durationMs: 5000 };
+  files.set(getMoodVoiceMemoUri(memo.fileName), { content: "QVVESU8=", modificationTime: 0 });
+  return memo;
+}
 
 describe("Repository", () => {
   beforeEach(() => {
     mockDb.__reset();
+    files.clear();
     vi.clearAllMocks();
   });
 
@@ -117,18 +150,32 @@ describe("Repository", () => {
       });
     });
 
-    it("sets legacy media and location columns to empty defaults", async () => {
+    it("sets media and location columns to empty defaults", async () => {
       const result = await insertMoodEntry({ mood: 6 });
       const [row] = mockDb.__getMoods();
 
-      expect(result).not.toHaveProperty("photos");
-      expect(result).not.toHaveProperty("location");
-      expect(result).not.toHaveProperty("voiceMemos");
+      expect(result.photos).toEqual([]);
+      expect(result.location).toBeNull();
+      expect(result.voiceMemos).toEqual([]);
       expect(row.photos_json).toBe("[]");
       expect(row.location_json).toBeNull();
       expect(row.voice_memos_json).toBe("[]");
     });
 
+    it("stores a coarsened location", async () => {
+      const result = await insertMoodEntry({
+        mood: 6,
+        location: { name: "Park", latitude: 52.52437, longitude: 13.41053, placeId: "p1" },
+      });
+
+      expect(result.location).toEqual({
+        name: "Park",
+        latitude: 52.52,
+        longitude: 13.41,
+        placeId: "p1",
+      });
+    });
+
     it("links emotions when provided", async () => {
       const emotions = [{ name: "Calm", category: "positive" as const }];
       await insertMoodEntry({ mood: 5, emotions });
@@ -169,13 +216,16 @@ describe("Repository", () => {
   });
 
   describe("deleteMood", () => {
-    it("deletes mood by id", async () => {
+    it("moves the mood to the trash", async () => {
       mockDb.__addMood({ mood: 5 });
 
       await deleteMood(1);
 
-      const moods = mockDb.__getMoods();
-      expect(moods).toHaveLength(0);
+      const [row] = mockDb.__getMoods();
+      expect(row).toMatchObject({ id: 1, deleted_at: expect.any(Number) });
+      expect(row.updated_at).toBe(row.deleted_at);
+      await expect(getAllMoods()).resolves.toEqual([]);
+      await expect(getMoodCount()).resolves.toBe(0);
     });
 
     it("returns changes count", async () => {
@@ -187,6 +237,63 @@ describe("Repository", () => {
     });
   });
 
+  describe("trash", () => {
+    it("lists trashed entries, most recently deleted first", async () => {
+      mockDb.__addMood({ mood: 5, deleted_at: 1705320000000 });
+      mockDb.__addMood({ mood: 6 });
+      mockDb.__addMood({ mood: 7, deleted_at: 1705330000000 });
+
+      const deleted = await getDeletedMoods();
+
+      expect(deleted.map((item) => [item.entry.id, item.deletedAt])).toEqual([
+        [3, 1705330000000],
+        [1, 1705320000000],
+      ]);
+    });
+
+    it("restores an entry under its original id", async () => {
+      mockDb.__addMood({ mood: 5, updated_at: 1705320000000 });
+      mockDb.__addMood({ mood: 6, based_on_entry_id: 1 });
+      await deleteMood(1);
+
+      const restored = await restoreDeletedMood(1);
+
+      expect(restored).toMatchObject({ id: 1, mood: 5 });
+      expect(mockDb.__getMoods()[0].updated_at).toBeGreaterThan(1705320000000);
+      expect((await getAllMoods()).map((entry) => entry.id).sort()).toEqual([1, 2]);
+      expect((await getAllMoods()).find((entry) => entry.id === 2)?.basedOnEntryId).toBe(1);
+      await expect(getDeletedMoods()).resolves.toEqual([]);
+    });
+
+    it("returns undefined when restoring a purged entry", async () => {
+      await expect(restoreDeletedMood(42)).resolves.toBeUndefined();
+    });
+
+    it("keeps attachments of trashed entries until they are purged", async () => {
+      const photo = createStoredPhoto("trashed");
+      mockDb.__addMood({ mood: 5, photos_json: JSON.stringify([photo]) });
+      mockDb.__addMood({ mood: 6 });
+      await deleteMood(1);
+
+      await purgeUnusedMoodAttachments();
+      expect(files.has(getMoodPhotoUri(photo.fileName))).toBe(true);
+
+      await expect(purgeDeletedMoods([1, 2])).resolves.toBe(1);
+      expect(mockDb.__getMoods().map((row) => row.id)).toEqual([2]);
+      expect(files.has(getMoodPhotoUri(photo.fileName))).toBe(false);
+    });
+
+    it("purges entries deleted before a cutoff", async () => {
+      mockDb.__addMood({ mood: 5, deleted_at: 1705320000000 });
+      mockDb.__addMood({ mood: 6, deleted_at: 1705330000000 });
+      mockDb.__addMood({ mood: 7 });
+
+      await expect(purgeMoodsDeletedBefore(1705325000000)).resolves.toBe(1);
+
+      expect(mockDb.__getMoods().map((row) => row.id)).toEqual([2, 3]);
+    });
+  });
+
   describe("updateMoodNote", () => {
     it("updates note for existing mood", async () => {
       mockDb.__addMood({ mood: 5, note: "Original" });
@@ -272,6 +379,158 @@ describe("Repository", () => {
       );
       expect(mockDb.execAsync).toHaveBeenCalledWith("ROLLBACK;");
     });
+
+    it("deletes files of photos removed from the entry", async () => {
+      const kept = createStoredPhoto("kept");
+      const removed = createStoredPhoto("removed");
+      mockDb.__addMood({ mood: 5, photos_json: JSON.stringify([kept, removed]) });
+
+      const result = await updateMoodEntry(1, { photos: [kept] });
+
+      expect(result?.photos).toEqual([kept]);
+      expect(files.has(getMoodPhotoUri(kept.fileName))).toBe(true);
+      expect(files.has(getMoodPhotoUri(removed.fileName))).toBe(false);
+      expect(files.has(getMoodPhotoUri(removed.thumbnailFileName))).toBe(false);
+    });
+
+    it("deletes files of voice memos removed from the entry", async () => {
+      const kept = createStoredVoiceMemo("kept");
+      const removed = createStoredVoiceMemo("removed");
+      mockDb.__addMood({ mood: 5, voice_memos_json: JSON.stringify([kept, removed]) });
+
+      const result = await updateMoodEntry(1, { voiceMemos: [kept] });
+
+      expect(result?.voiceMemos).toEqual([kept]);
+      expect(files.has(getMoodVoiceMemoUri(kept.fileName))).toBe(true);
+      expect(files.has(getMoodVoiceMemoUri(removed.fileName))).toBe(false);
+    });
+
+    it("sets and clears the location", async () => {
+      mockDb.__addMood({ mood: 5 });
+
+      const tagged = await updateMoodEntry(1, {
+        location: { name: "Home", latitude: null, longitude: null, placeId: "home" },
+      });
+      expect(tagged?.location).toEqual({
+        name: "Home",
+        latitude: null,
+        longitude: null,
+        placeId: "home",
+      });
+
+      const cleared = await updateMoodEntry(1, { location: null });
+      expect(cleared?.location).toBeNull();
+      expect(mockDb.__getMoods()[0].location_json).toBeNull();
+    });
+  });
+
+  describe("logging times", () => {
+    it("records when an entry was logged apart from when it happened", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1705406400000);
+      try {
+        const entry = await insertMoodEntry({ mood: 5, timestamp: 1705320000000 });
+
+        expect(entry).toMatchObject({
+          timestamp: 1705320000000,
+          createdAt: 1705406400000,
+          updatedAt: 1705406400000,
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("updates updatedAt on every edit and leaves createdAt alone", async () => {
+      mockDb.__addMood({ mood: 5, created_at: 1705320000000, updated_at: 1705320000000 });
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(1705406400000);
+        await updateMoodEntry(1, { mood: 6 });
+        expect(mockDb.__getMoods()[0]).toMatchObject({ updated_at: 1705406400000 });
+
+        vi.setSystemTime(1705410000000);
+        const updated = await updateMoodNote(1, "Later");
+        expect(updated).toMatchObject({ createdAt: 1705320000000, updatedAt: 1705410000000 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("revisions", () => {
+    it("records the fields an edit changed", async () => {
+      mockDb.__addMood({ mood: 5, note: "Original", energy: 4 });
+
+      await updateMoodEntry(1, { mood: 7, note: "Updated", energy: 4 });
+
+      const revisions = mockDb.__getMoodRevisions();
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0].mood_id).toBe(1);
+      expect(JSON.parse(revisions[0].changes_json)).toEqual([
+        { field: "mood", from: 5, to: 7 },
+        { field: "note", from: "Original", to: "Updated" },
+      ]);
+    });
+
+    it("records note and timestamp edits in order", async () => {
+      mockDb.__addMood({ mood: 5, note: "Original", timestamp: 1705320000000 });
+
+      await updateMoodNote(1, "Updated");
+      await updateMoodTimestamp(1, 1705323600000);
+
+      const revisions = mockDb.__getMoodRevisions();
+      expect(revisions.map((row) => JSON.parse(row.changes_json))).toEqual([
+        [{ field: "note", from: "Original", to: "Updated" }],
+        [{ field: "timestamp", from: 1705320000000, to: 1705323600000 }],
+      ]);
+    });
+
+    it("skips edits that change nothing", async () => {
+      mockDb.__addMood({ mood: 5, note: "Same" });
+
+      await updateMoodNote(1, "Same");
+      await updateMoodEntry(1, { mood: 5 });
+
+      expect(mockDb.__getMoodRevisions()).toEqual([]);
+    });
+
+    it("keeps revisions through the trash and removes them on purge", async () => {
+      mockDb.__addMood({ mood: 5 });
+      mockDb.__addMood({ mood: 6 });
+      await updateMoodEntry(1, { mood: 7 });
+      await updateMoodEntry(2, { mood: 8 });
+
+      await deleteMood(1);
+      expect(mockDb.__getMoodRevisions()).toHaveLength(2);
+
+      await purgeDeletedMoods([1]);
+      expect(mockDb.__getMoodRevisions().map((row) => row.mood_id)).toEqual([2]);
+    });
+  });
+
+  describe("purgeUnusedMoodAttachments", () => {
+    it("keeps photos referenced by any entry", async () => {
+      const referenced = createStoredPhoto("referenced");
+      const orphan = createStoredPhoto("orphan");
+      mockDb.__addMood({ mood: 5, photos_json: JSON.stringify([referenced]) });
+
+      await purgeUnusedMoodAttachments();
+
+      expect(files.has(getMoodPhotoUri(referenced.fileName))).toBe(true);
+      expect(files.has(getMoodPhotoUri(orphan.fileName))).toBe(false);
+    });
+
+    it("keeps voice memos referenced by any entry", async () => {
+      const referenced = createStoredVoiceMemo("referenced");
+      const orphan = createStoredVoiceMemo("orphan");
+      mockDb.__addMood({ mood: 5, voice_memos_json: JSON.stringify([referenced]) });
+
+      await expect(purgeUnusedMoodAttachments()).resolves.toBe(1);
+
+      expect(files.has(getMoodVoiceMemoUri(referenced.fileName))).toBe(true);
+      expect(files.has(getMoodVoiceMemoUri(orphan.fileName))).toBe(false);
+    });
   });
 
   describe("getMoodCount", () => {
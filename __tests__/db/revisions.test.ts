@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { diffMoodEntries, parseMoodRevisionChanges } from "../../db/moods/revisions";
+import { createMockMoodEntry } from "./mockClient";
+
+vi.mock("../../db/client", () => ({
+  getDb: vi.fn(),
+}));
+
+describe("mood revisions", () => {
+  it("lists changed fields in a fixed order", () => {
+    const before = createMockMoodEntry({
+      mood: 5,
+      note: "Before",
+      timestamp: 1705320000000,
+      energy: null,
+      contextTags: ["Work"],
+    });
+    const after = {
+      ...before,
+      mood: 3,
+      energy: 6,
+      contextTags: ["Work", "Sleep"],
+    };
+
+    expect(diffMoodEntries(before, after)).toEqual([
+      { field: "mood", from: 5, to: 3 },
+      { field: "energy", from: null, to: 6 },
+      { field: "contextTags", from: ["Work"], to: ["Work", "Sleep"] },
+    ]);
+  });
+
+  it("ignores reordered emotions and tags and empty notes", () => {
+    const before = createMockMoodEntry({
+      note: null,
+      emotions: [
+        { name: "Calm", category: "positive" },
+        { name: "Tired", category: "negative" },
+      ],
+      contextTags: ["Work", "Sleep"],
+    });
+    const after = {
+      ...before,
+      note: "",
+      emotions: [
+        { name: "tired", category: "negative" as const },
+        { name: "Calm", category: "positive" as const },
+      ],
+      contextTags: ["Sleep", "Work"],
+    };
+
+    expect(diffMoodEntries(before, after)).toEqual([]);
+  });
+
+  it("drops stored changes it can't read", () => {
+    const json = JSON.stringify([
+      { field: "mood", from: 5, to: 7 },
+      { field: "mood", from: "5", to: 7 },
+      { field: "location", from: null, to: "Home" },
+      { field: "emotions", from: [], to: ["Calm"] },
+    ]);
+
+    expect(parseMoodRevisionChanges(json)).toEqual([
+      { field: "mood", from: 5, to: 7 },
+      { field: "emotions", from: [], to: ["Calm"] },
+    ]);
+    expect(parseMoodRevisionChanges("not json")).toEqual([]);
+    expect(parseMoodRevisionChanges(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SAVED_VIEWS,
+  MAX_VIEW_NAME_LENGTH,
+  findSavedViewForQuery,
+  parseSavedFilterViews,
+  slugifyViewName,
+} from "../../domain/savedViews";
+
+describe("parseSavedFilterViews", () => {
+  it("returns an empty list for non-array input", () => {
+    expect(parseSavedFilterViews(null)).toEqual([]);
+    expect(parseSavedFilterViews({ id: "a" })).toEqual([]);
+  });
+
+  it("normalizes queries, strips date ranges and trims names", () => {
+    const views = parseSavedFilterViews([
+      {
+        id: "evenings",
+        name: "  Evenings with friends  ",
+        query: {
+          contextTags: { tags: ["Social"], match: "sometimes" },
+          timeOfDay: { startHour: 18, endHour: 24 },
+          dateRange: { preset: "week" },
+        },
+      },
+    ]);
+
+    expect(views).toEqual([
+      {
+        id: "evenings",
+        name: "Evenings with friends",
+        query: {
+          contextTags: { tags: ["Social"], match: "any" },
+          timeOfDay: { startHour: 18, endHour: 24 },
+        },
+      },
+    ]);
+  });
+
+  it("drops unnamed, empty and duplicate views and caps the list", () => {
+    const valid = { name: "Low", query: { mood: { min: 7 } } };
+    expect(
+      parseSavedFilterViews([
+        { id: "a", ...valid },
+        { id: "a", ...valid },
+        { id: "b", name: " ", query: { mood: { min: 7 } } },
+        { id: "c", name: "Empty", query: { mood: { min: 0 } } },
+      ]).map((view) => view.id)
+    ).toEqual(["a"]);
+
+    const many = Array.from({ length: MAX_SAVED_VIEWS + 3 }, (_, i) => ({
+      id: `v${i}`,
+      name: "x".repeat(MAX_VIEW_NAME_LENGTH + 10),
+      query: { note: "with" },
+    }));
+    const parsed = parseSavedFilterViews(many);
+    expect(parsed).toHaveLength(MAX_SAVED_VIEWS);
+    expect(parsed[0].name).toHaveLength(MAX_VIEW_NAME_LENGTH);
+  });
+});
+
+describe("findSavedViewForQuery", () => {
+  it("matches views by normalized criteria", () => {
+    const views = parseSavedFilterViews([
+      { id: "work", name: "Bad work days", query: { contextTags: { tags: ["Work"] }, mood: { min: 7 } } },
+    ]);
+
+    expect(
+      findSavedViewForQuery(views, {
+        mood: { min: 7, max: 10 },
+        contextTags: { tags: ["Work"], match: "any" },
+      })?.id
+    ).toBe("work");
+    expect(findSavedViewForQuery(views, { mood: { min: 7 } })).toBeUndefined();
+  });
+});
+
+describe("slugifyViewName", () => {
+  it("builds file-name friendly slugs", () => {
+    expect(slugifyViewName("Bad work days")).toBe("bad-work-days");
+    expect(slugifyViewName("  ☀️  ")).toBe("view");
+  });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MAX_SEARCH_TERMS,
+  buildFtsMatchQuery,
+  buildLikePattern,
+  buildSearchSnippets,
+  highlightSearchTerms,
+  parseSearchQuery,
+} from "../../db/moods/search";
+import { searchMoods } from "../../db/moods/repository";
+import { createMockMoodEntry, type MockRow } from "./mockClient";
+
+const mockDb = vi.hoisted(() => ({
+  getFirstAsync: vi.fn(),
+  getAllAsync: vi.fn(),
+}));
+
+vi.mock("../../db/client", () => ({
+  getDb: vi.fn(() => Promise.resolve(mockDb)),
+}));
+
+function createMoodRow(overrides: Partial<MockRow>): MockRow {
+  return {
+    id: 1,
+    mood: 5,
+    note: null,
+    timestamp: 1_700_000_000_000,
+    emotions: "[]",
+    context_tags: "[]",
+    energy: null,
+    mood_scale_json: null,
+    photos_json: "[]",
+    location_json: null,
+    voice_memos_json: "[]",
+    based_on_entry_id: null,
+    ...overrides,
+  };
+}
+
+describe("search query helpers", () => {
+  it("splits queries into unique lowercase terms", () => {
+    expect(parseSearchQuery("  Work  tired work ")).toEqual(["work", "tired"]);
+    expect(parseSearchQuery("   ")).toEqual([]);
+  });
+
+  it("caps the number of terms", () => {
+    const query = Array.from({ length: 20 }, (_, index) => `term${index}`).join(" ");
+    expect(parseSearchQuery(query)).toHaveLength(MAX_SEARCH_TERMS);
+  });
+
+  it("quotes FTS terms as prefix matches", () => {
+    expect(buildFtsMatchQuery(["tired", 'say"hi', "OR"])).toBe('"tired"* "say""hi"* "OR"*');
+  });
+
+  it("escapes LIKE wildcards", () => {
+    expect(buildLikePattern("100%_done\\")).toBe("%100\\%\\_done\\\\%");
+  });
+});
+
+describe("highlightSearchTerms", () => {
+  it("marks every case-insensitive occurrence", () => {
+    expect(highlightSearchTerms("Work was work", ["work"])).toEqual([
+      { text: "Work", highlighted: true },
+      { text: " was ", highlighted: false },
+      { text: "work", highlighted: true },
+    ]);
+  });
+
+  it("merges overlapping matches", () => {
+    expect(highlightSearchTerms("sunshine", ["sun", "unsh"])).toEqual([
+      { text: "sunsh", highlighted: true },
+      { text: "ine", highlighted: false },
+    ]);
+  });
+});
+
+describe("buildSearchSnippets", () => {
+  it("returns a windowed note snippet and matched emotions and tags", () => {
+    const entry = createMockMoodEntry({
+      note: `${"a".repeat(100)} long day at work ${"b".repeat(100)}`,
+      emotions: [
+        { name: "Tired", category: "negative" },
+        { name: "Calm", category: "positive" },
+      ],
+      contextTags: ["Work", "Home"],
+    });
+
+    const snippets = buildSearchSnippets(entry, ["work", "tired"]);
+
+    expect(snippets.map((snippet) => snippet.field)).toEqual(["note", "emotions", "contextTags"]);
+    const noteText = snippets[0].segments.map((segment) => segment.text).join("");
+    expect(noteText.startsWith("…")).toBe(true);
+    expect(noteText.endsWith("…")).toBe(true);
+    expect(snippets[0].segments).toContainEqual({ text: "work", highlighted: true });
+    expect(snippets[1].segments).toEqual([{ text: "Tired", highlighted: true }]);
+    expect(snippets[2].segments).toEqual([{ text: "Work", highlighted: true }]);
+  });
+
+  it("omits fields without a match", () => {
+    const entry = createMockMoodEntry({ note: "quiet evening", contextTags: ["Home"] });
+    expect(buildSearchSnippets(entry, ["evening"]).map((snippet) => snippet.field)).toEqual([
+      "note",
+    ]);
+  });
+});
+
+describe("searchMoods", () => {
+  beforeEach(() => {
+    mockDb.getFirstAsync.mockReset();
+    mockDb.getAllAsync.mockReset();
+  });
+
+  it("returns nothing for an empty query without touching the database", async () => {
+    await expect(searchMoods({ query: "  ", limit: 20, offset: 0 })).resolves.toEqual({
+      data: [],
+      total: 0,
+      hasMore: false,
+    });
+    expect(mockDb.getAllAsync).not.toHaveBeenCalled();
+  });
+
+  it("uses the FTS index when it exists", async () => {
+    mockDb.getFirstAsync.mockImplementation(async (sql: string) =>
+      sql.includes("sqlite_master") ? { name: "moods_fts" } : { count: 3 }
+    );
+    mockDb.getAllAsync.mockResolvedValue([
+      createMoodRow({ id: 7, note: "Tired after work" }),
+    ]);
+
+    const result = await searchMoods({ query: "work", limit: 1, offset: 0 });
+
+    const [sql, ...params] = mockDb.getAllAsync.mock.calls[0];
+    expect(sql).toContain("moods_fts MATCH ?");
+    expect(sql).toContain("bm25(moods_fts");
+    expect(params).toEqual(['"work"*', 1, 0]);
+    expect(result.total).toBe(3);
+    expect(result.hasMore).toBe(true);
+    expect(result.data[0].entry.id).toBe(7);
+    expect(result.data[0].snippets[0].field).toBe("note");
+  });
+
+  it("falls back to LIKE matching every term in any field", async () => {
+    mockDb.getFirstAsync.mockImplementation(async (sql: string) =>
+      sql.includes("sqlite_master") ? null : { count: 1 }
+    );
+    mockDb.getAllAsync.mockResolvedValue([
+      createMoodRow({ id: 2, context_tags: JSON.stringify(["Work"]) }),
+    ]);
+
+    const result = await searchMoods({ query: "work 50%", limit: 10, offset: 0 });
+
+    const [sql, ...params] = mockDb.getAllAsync.mock.calls[0];
+    expect(sql).not.toContain("MATCH");
+    expect(sql).toContain("ORDER BY search_score DESC, timestamp DESC");
+    // Three fields per term for the score and again for the filter, then paging.
+    expect(params).toHaveLength(2 * 3 * 2 + 2);
+    expect(params.slice(0, 3)).toEqual(["%work%", "%work%", "%work%"]);
+    expect(params[3]).toBe("%50\\%%");
+    expect(params.slice(-2)).toEqual([10, 0]);
+    expect(result).toMatchObject({ total: 1, hasMore: false });
+    expect(result.data[0].snippets).toEqual([
+      { field: "contextTags", segments: [{ text: "Work", highlighted: true }] },
+    ]);
+  });
+
+  it("narrows results with a structured filter", async () => {
+    mockDb.getFirstAsync.mockImplementation(async (sql: string) =>
+      sql.includes("sqlite_master") ? null : { count: 0 }
+    );
+    mockDb.getAllAsync.mockResolvedValue([]);
+
+    await searchMoods({ query: "work", filter: { note: "with", energy: { min: 6 } }, limit: 10, offset: 0 });
+
+    const [sql, ...params] = mockDb.getAllAsync.mock.calls[0];
+    expect(sql).toContain("FROM moods WHERE moods.energy IS NOT NULL");
+    expect(params.slice(0, 2)).toEqual([6, "%work%"]);
+  });
+});
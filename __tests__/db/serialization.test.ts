@@ -14,6 +14,12 @@ import {
   sanitizeEnergy,
   sanitizeImportedMoodScale,
   isValidMoodScaleSnapshot,
+  serializePhotos,
+  deserializePhotos,
+  MAX_PHOTOS_PER_ENTRY,
+  serializeVoiceMemos,
+  deserializeVoiceMemos,
+  MAX_VOICE_MEMOS_PER_ENTRY,
 } from "../../db/moods/serialization";
 import type { Emotion, MoodEntryInput } from "../../db/types";
 
@@ -37,6 +43,80 @@ describe("serializeArray", () => {
   });
 });
 
+describe("serializePhotos", () => {
+  const photo = {
+    id: "abc-123",
+    fileName: "abc-123.jpg",
+    thumbnailFileName: "abc-123-thumb.jpg",
+    width: 1600,
+    height: 1200,
+  };
+
+  it("returns empty array string for undefined", () => {
+    expect(serializePhotos(undefined)).toBe("[]");
+  });
+
+  it("round-trips valid photos", () => {
+    expect(deserializePhotos(serializePhotos([photo]))).toEqual([photo]);
+  });
+
+  it(`limits to ${MAX_PHOTOS_PER_ENTRY} photos`, () => {
+    const photos = Array.from({ length: MAX_PHOTOS_PER_ENTRY + 2 }, (_, i) => ({
+      ...photo,
+      id: `p${i}`,
+      fileName: `p${i}.jpg`,
+      thumbnailFileName: `p${i}-thumb.jpg`,
+    }));
+    expect(JSON.parse(serializePhotos(photos))).toHaveLength(MAX_PHOTOS_PER_ENTRY);
+  });
+
+  it("drops legacy URI strings and malformed items when reading", () => {
+    const raw = JSON.stringify([
+      "file:///photo.jpg",
+      { ...photo, fileName: "../escape.jpg" },
+      { ...photo, width: 0 },
+      photo,
+    ]);
+    expect(deserializePhotos(raw)).toEqual([photo]);
+  });
+
+  it("returns empty array for null or invalid JSON", () => {
+    expect(deserializePhotos(null)).toEqual([]);
+    expect(deserializePhotos("not json")).toEqual([]);
+  });
+});
+
+describe("serializeVoiceMemos", () => {
+  const memo = { id: "abc-123", fileName: "abc-123.m4a", durationMs: 4200 };
+
+  it("returns empty array string for undefined", () => {
+    expect(serializeVoiceMemos(undefined)).toBe("[]");
+  });
+
+  it("round-trips valid voice memos", () => {
+    expect(deserializeVoiceMemos(serializeVoiceMemos([memo]))).toEqual([memo]);
+  });
+
+  it(`limits to ${MAX_VOICE_MEMOS_PER_ENTRY} voice memos`, () => {
+    const memos = Array.from({ length: MAX_VOICE_MEMOS_PER_ENTRY + 2 }, (_, i) => ({
+      ...memo,
+      id: `m${i}`,
+      fileName: `m${i}.m4a`,
+    }));
+    expect(JSON.parse(serializeVoiceMemos(memos))).toHaveLength(MAX_VOICE_MEMOS_PER_ENTRY);
+  });
+
+  it("drops legacy URI strings and malformed items when reading", () => {
+    const raw = JSON.stringify([
+      "file:///memo.m4a",
+      { ...memo, fileName: "memo.mp3" },
+      { ...memo, durationMs: -1 },
+      memo,
+    ]);
+    expect(deserializeVoiceMemos(raw)).toEqual([memo]);
+  });
+});
+
 describe("serializeEmotions", () => {
   it("returns empty array string for undefined", () => {
     expect(serializeEmotions(undefined)).toBe("[]");
@@ -135,6 +215,8 @@ describe("toMoodEntry", () => {
       location_json: null,
       voice_memos_json: null,
       based_on_entry_id: null,
+      created_at: 1705406400000,
+      updated_at: 1705410000000,
     };
 
     const result = toMoodEntry(row);
@@ -153,8 +235,30 @@ describe("toMoodEntry", () => {
         max: 10,
         lowerIsBetter: true,
       },
+      photos: [],
+      voiceMemos: [],
+      location: null,
       basedOnEntryId: null,
+      createdAt: 1705406400000,
+      updatedAt: 1705410000000,
+    });
+  });
+
+  it("treats rows without logging times as logged when they happened", () => {
+    const result = toMoodEntry({
+      id: 1,
+      mood: 5,
+      note: null,
+      timestamp: 1705320000000,
+      emotions: "[]",
+      context_tags: "[]",
+      energy: null,
+      created_at: null,
+      updated_at: null,
     });
+
+    expect(result.createdAt).toBe(1705320000000);
+    expect(result.updatedAt).toBe(1705320000000);
   });
 
   it("handles null note", () => {
@@ -362,7 +466,7 @@ describe("toMoodEntry", () => {
     expect(result.emotions).toEqual([]);
   });
 
-  it("does not expose legacy media or location columns on MoodEntry", () => {
+  it("drops legacy media URIs and reads a stored location", () => {
     const row = {
       id: 1,
       mood: 7,
@@ -379,9 +483,14 @@ describe("toMoodEntry", () => {
     };
 
     const result = toMoodEntry(row);
-    expect(result).not.toHaveProperty("photos");
-    expect(result).not.toHaveProperty("location");
-    expect(result).not.toHaveProperty("voiceMemos");
+    expect(result.photos).toEqual([]);
+    expect(result.location).toEqual({
+      name: "New York",
+      latitude: 40.71,
+      longitude: -74.01,
+      placeId: null,
+    });
+    expect(result.voiceMemos).toEqual([]);
     expect(result.basedOnEntryId).toBe(5);
   });
 });
@@ -0,0 +1,73 @@
+import { vi } from "vitest";
+
+/**
+ * Tests for voice memo file storage.
+ * expo-file-system is replaced by the in-memory mock from the test setup.
+ */
+
+import * as FileSystem from "expo-file-system/legacy";
+import {
+  exportMoodVoiceMemo,
+  getMoodVoiceMemoUri,
+  restoreExportedMoodVoiceMemo,
+  storeMoodVoiceMemo,
+} from "../../db/moods/voiceMemoStorage";
+import { MAX_VOICE_MEMO_DURATION_MS } from "../../db/moods/serialization";
+
+const fs = FileSystem as unknown as {
+  __files: Map<string, { content: string; modificationTime: number }>;
+  __reset: () => void;
+};
+
+async function storeTestMemo(durationMs = 4200.6) {
+  await FileSystem.writeAsStringAsync("file:///cache/recording.m4a", "QVVESU8=");
+  return storeMoodVoiceMemo("file:///cache/recording.m4a", durationMs);
+}
+
+describe("voiceMemoStorage", () => {
+  beforeEach(() => {
+    fs.__reset();
+    vi.clearAllMocks();
+  });
+
+  it("moves the recording into voice memo storage", async () => {
+    const memo = await storeTestMemo();
+
+    expect(memo.fileName).toBe(`${memo.id}.m4a`);
+    expect(memo.durationMs).toBe(4201);
+    expect(fs.__files.has(getMoodVoiceMemoUri(memo.fileName))).toBe(true);
+    expect(fs.__files.has("file:///cache/recording.m4a")).toBe(false);
+  });
+
+  it("caps the stored duration at the recording limit", async () => {
+    const memo = await storeTestMemo(MAX_VOICE_MEMO_DURATION_MS + 800);
+
+    expect(memo.durationMs).toBe(MAX_VOICE_MEMO_DURATION_MS);
+  });
+
+  it("round-trips a recording through export and restore", async () => {
+    const memo = await storeTestMemo();
+    const exported = await exportMoodVoiceMemo(memo);
+
+    expect(exported).toEqual({ id: memo.id, durationMs: 4201, data: "QVVESU8=" });
+
+    const restored = await restoreExportedMoodVoiceMemo(exported);
+
+    expect(restored).not.toBeNull();
+    expect(restored!.id).not.toBe(memo.id);
+    expect(fs.__files.get(getMoodVoiceMemoUri(restored!.fileName))?.content).toBe("QVVESU8=");
+  });
+
+  it("returns null when exporting a missing recording", async () => {
+    await expect(
+      exportMoodVoiceMemo({ id: "gone", fileName: "gone.m4a", durationMs: 1000 })
+    ).resolves.toBeNull();
+  });
+
+  it("rejects bare URIs and malformed payloads", async () => {
+    await expect(restoreExportedMoodVoiceMemo("file:///memo.m4a")).resolves.toBeNull();
+    await expect(restoreExportedMoodVoiceMemo({ durationMs: 1000, data: "%%%" })).resolves.toBeNull();
+    await expect(restoreExportedMoodVoiceMemo({ data: "QVVESU8=" })).resolves.toBeNull();
+    expect(fs.__files.size).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import { createMockMoodEntry } from "../../db/mockClient";
+import {
+  findMoodCorrelations,
+  getEvidenceLevel,
+} from "../../../src/features/insights/utils/correlation";
+import {
+  adjustPValuesBenjaminiHochberg,
+  hedgesG,
+  studentTCritical,
+  welchTTest,
+} from "../../../src/features/insights/utils/statistics";
+
+const higherIsBetterScale = { version: 2, min: 0, max: 10, lowerIsBetter: false };
+
+function entry(id: number, value: number, emotions: string[] = [], contextTags: string[] = []) {
+  return createMockMoodEntry({
+    id,
+    mood: value,
+    moodScale: higherIsBetterScale,
+    timestamp: 1705320000000 + id * 3600000,
+    emotions: emotions.map((name) => ({ name, category: "neutral" as const })),
+    contextTags,
+  });
+}
+
+describe("statistics", () => {
+  it("runs Welch's t-test with a 95% interval", () => {
+    const result = welchTTest([1, 2, 3, 4, 5], [2, 4, 6, 8, 10]);
+
+    expect(result?.difference).toBe(-3);
+    expect(result?.t).toBeCloseTo(-1.897, 3);
+    expect(result?.degreesOfFreedom).toBeCloseTo(5.882, 3);
+    expect(result?.pValue).toBeCloseTo(0.1075, 3);
+    expect(result?.ciLow).toBeLessThan(0);
+    expect(result?.ciHigh).toBeGreaterThan(0);
+  });
+
+  it("returns no test when the spread can't be estimated", () => {
+    expect(welchTTest([5], [1, 2, 3])).toBeNull();
+    expect(welchTTest([5, 5, 5], [2, 2, 2])).toBeNull();
+  });
+
+  it("matches tabulated critical t values", () => {
+    expect(studentTCritical(10)).toBeCloseTo(2.228, 3);
+    expect(studentTCritical(1000)).toBeCloseTo(1.962, 3);
+  });
+
+  it("computes Hedges' g with the small-sample correction", () => {
+    expect(hedgesG([2, 4, 6], [1, 3, 5])).toBeCloseTo(0.4, 2);
+  });
+
+  it("adjusts p-values with Benjamini-Hochberg in the original order", () => {
+    const adjusted = adjustPValuesBenjaminiHochberg([0.01, 0.04, 0.03, 0.005]);
+
+    [0.02, 0.04, 0.04, 0.02].forEach((expected, index) => {
+      expect(adjusted[index]).toBeCloseTo(expected, 10);
+    });
+  });
+});
+
+describe("findMoodCorrelations", () => {
+  it("grades evidence by adjusted p-value and effect size", () => {
+    expect(getEvidenceLevel(0.001, 1.2)).toBe("strong");
+    expect(getEvidenceLevel(0.001, 0.6)).toBe("moderate");
+    expect(getEvidenceLevel(0.08, -0.4)).toBe("limited");
+    expect(getEvidenceLevel(0.2, 2)).toBeNull();
+  });
+
+  it("finds labels that hold up and ranks them by evidence", () => {
+    const moods = [
+      ...[8, 9, 8, 9, 8, 9].map((value, index) => entry(index + 1, value, ["Calm"], ["Walk"])),
+      ...[3, 2, 3, 2, 3, 2].map((value, index) => entry(index + 7, value, ["tired"])),
+      ...[5, 6, 5, 6].map((value, index) => entry(index + 13, value, ["Tired"], ["Walk"])),
+    ];
+
+    const correlations = findMoodCorrelations(moods);
+
+    expect(correlations.map(({ source, name }) => `${source}:${name}`)).toEqual([
+      "emotion:Calm",
+      "context:Walk",
+      "emotion:tired",
+    ]);
+    expect(correlations[0]).toEqual(
+      expect.objectContaining({ withCount: 6, withoutCount: 10, isBetter: true })
+    );
+    expect(correlations[2]).toEqual(
+      expect.objectContaining({ withCount: 10, isBetter: false })
+    );
+  });
+
+  it("skips labels on too few entries", () => {
+    const moods = [
+      ...[9, 9, 8, 9].map((value, index) => entry(index + 1, value, ["Calm"])),
+      ...[2, 3, 2, 3, 2, 3].map((value, index) => entry(index + 5, value)),
+    ];
+
+    expect(findMoodCorrelations(moods)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import { createMockMoodEntry } from "../../db/mockClient";
+import {
+  compareQuadrantWeeks,
+  getEnergyMoodPoint,
+  getScatterPosition,
+  summarizeEnergyQuadrants,
+} from "../../../src/features/insights/utils/energyQuadrants";
+import { buildMoodInsights } from "../../../src/features/insights/utils/moodInsights";
+
+const higherIsBetterScale = { version: 2, min: 0, max: 10, lowerIsBetter: false };
+
+function entry(id: number, mood: number, energy: number | null, localDateTime = "2024-03-12T12:00:00") {
+  return createMockMoodEntry({
+    id,
+    mood,
+    energy,
+    timestamp: new Date(localDateTime).getTime(),
+  });
+}
+
+describe("energy quadrants", () => {
+  it("places entries by energy and their own Mood Scale direction", () => {
+    expect(getEnergyMoodPoint(entry(1, 2, 8))?.quadrant).toBe("energized");
+    expect(getEnergyMoodPoint(entry(2, 2, 1))?.quadrant).toBe("calm");
+    expect(getEnergyMoodPoint(entry(3, 8, 9))?.quadrant).toBe("agitated");
+    expect(getEnergyMoodPoint(entry(4, 8, 2))?.quadrant).toBe("depleted");
+
+    // 8 is a good mood when higher is better.
+    expect(
+      getEnergyMoodPoint(
+        createMockMoodEntry({ id: 5, mood: 8, energy: 2, moodScale: higherIsBetterScale })
+      )
+    ).toEqual({ id: 5, energy: 2, moodSeverity: 0.2, quadrant: "calm" });
+  });
+
+  it("counts the neutral mood and middle energy on the good, high-energy side", () => {
+    expect(getEnergyMoodPoint(entry(1, 5, 5))?.quadrant).toBe("energized");
+  });
+
+  it("draws points on a midline inside the quadrant they are counted in", () => {
+    for (let id = 1; id <= 7; id++) {
+      const point = getEnergyMoodPoint(entry(id, 5, 5))!;
+      const { x, y } = getScatterPosition(point, 200, 100, 4);
+
+      expect(point.quadrant).toBe("energized");
+      expect(x).toBeGreaterThanOrEqual(104);
+      expect(y).toBeLessThanOrEqual(46);
+    }
+  });
+
+  it("summarizes shares and leaves out entries without energy", () => {
+    const summary = summarizeEnergyQuadrants([
+      entry(1, 2, 8),
+      entry(2, 2, 9),
+      entry(3, 8, 2),
+      entry(4, 8, 1),
+      entry(5, 3, null),
+    ]);
+
+    expect(summary.total).toBe(4);
+    expect(summary.counts).toEqual({ energized: 2, calm: 0, agitated: 0, depleted: 2 });
+    expect(summary.shares.energized).toBe(0.5);
+  });
+
+  it("reports week-over-week shifts only when both weeks have entries", () => {
+    const shift = compareQuadrantWeeks(
+      [entry(1, 2, 8), entry(2, 8, 2)],
+      [entry(3, 8, 2), entry(4, 8, 1), entry(5, 8, 3), entry(6, 2, 8)]
+    );
+
+    expect(shift.shifts.energized).toBeCloseTo(0.25);
+    expect(shift.shifts.depleted).toBeCloseTo(-0.25);
+    expect(compareQuadrantWeeks([entry(1, 2, 8)], []).shifts.energized).toBe(0);
+  });
+
+  it("compares the week around the selected date in insights", () => {
+    const insights = buildMoodInsights(
+      [
+        entry(1, 2, 8, "2024-03-12T12:00:00"),
+        entry(2, 8, 2, "2024-03-05T12:00:00"),
+        entry(3, 2, 8, "2024-02-20T12:00:00"),
+      ],
+      "month",
+      new Date("2024-03-13T12:00:00")
+    );
+
+    expect(insights.energyQuadrants.summary.total).toBe(2);
+    expect(insights.energyQuadrants.weeklyShift.shifts).toEqual({
+      energized: 1,
+      calm: 0,
+      agitated: 0,
+      depleted: -1,
+    });
+  });
+});
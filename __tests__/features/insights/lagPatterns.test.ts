@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+
+import { createMockMoodEntry } from "../../db/mockClient";
+import {
+  findLowEnergyDip,
+  findNextDayContextEffects,
+  findRecoveryTimes,
+} from "../../../src/features/insights/utils/lagPatterns";
+import { detectPatterns } from "../../../src/features/insights/utils/patternDetection";
+import {
+  buildNoiseDay,
+  buildSeededHistory,
+  randomInt,
+  type FixtureDay,
+} from "./moodFixtures";
+
+// The default Mood Scale puts 0 as the best rating, so better is lower.
+
+/** One entry per day at noon, starting 2024-01-01 */
+function history(
+  moods: number[],
+  { energies = [], tags = [] }: { energies?: (number | null)[]; tags?: string[][] } = {}
+) {
+  return moods.map((mood, index) =>
+    createMockMoodEntry({
+      id: index + 1,
+      mood,
+      energy: energies[index] ?? null,
+      contextTags: tags[index] ?? [],
+      emotions: [],
+      timestamp: new Date(2024, 0, 1 + index, 12).getTime(),
+    })
+  );
+}
+
+// Every other day is a "Social" day. The days after them are rated 2-3, the
+// days after the others 6-7.
+const socialHelpsNextDay = history([6, 2, 7, 3, 6, 2, 7, 3, 6, 2, 7, 3], {
+  tags: [["Social"], [], ["Social"], [], ["Social"], [], ["Social"], [], ["Social"], [], ["Social"], []],
+});
+
+// Energy is low every fourth day, starting on day 0; two days later the mood
+// is 7-8, otherwise 2-3. One day and three days later the mood is good.
+const lowEnergyDipsTwoDaysLater = history(
+  [2, 3, 7, 3, 2, 3, 8, 3, 2, 3, 7, 3, 2, 3, 8, 3, 2, 3, 7, 3],
+  { energies: [1, 7, 6, 8, 2, 7, 6, 8, 1, 7, 6, 8, 2, 7, 6, 8, 1, 7, 6, 8] }
+);
+
+describe("lagged patterns", () => {
+  it("finds context tags that predict the next day", () => {
+    const effects = findNextDayContextEffects(socialHelpsNextDay);
+
+    expect(effects).toHaveLength(1);
+    expect(effects[0]).toMatchObject({
+      name: "Social",
+      lagDays: 1,
+      withCount: 6,
+      withoutCount: 5,
+      meanWith: 2.5,
+      isBetter: true,
+    });
+    expect(effects[0].meanWithout).toBeCloseTo(6.6);
+  });
+
+  it("finds the lag at which low energy precedes a dip", () => {
+    const dip = findLowEnergyDip(lowEnergyDipsTwoDaysLater);
+
+    expect(dip).toMatchObject({ lagDays: 2, withCount: 5, withoutCount: 13, isBetter: false });
+    expect(dip?.meanWith).toBeCloseTo(7.4);
+  });
+
+  it("measures how long low spells last", () => {
+    // Spells start on days 1, 6 and 10 and are back at neutral after 3, 2
+    // and 4 days.
+    const moods = history([3, 9, 8, 7, 4, 3, 8, 6, 5, 2, 9, 9, 9, 7, 3, 4]);
+
+    expect(findRecoveryTimes(moods)).toEqual({ episodes: 3, medianDays: 3 });
+  });
+
+  it("needs three finished low spells to report recovery times", () => {
+    // Two spells end; the third is still going.
+    const moods = history([3, 9, 4, 8, 5, 8, 9]);
+
+    expect(findRecoveryTimes(moods)).toBeNull();
+  });
+
+  it("reports nothing lagged when the next days don't differ", () => {
+    // Tags and low energy fall on even days; even and odd days alike average 4.
+    const moods = history([2, 6, 6, 2, 2, 6, 6, 2, 2, 6, 6, 2, 2, 6, 6, 2], {
+      energies: [2, 7, 2, 7, 2, 7, 2, 7, 2, 7, 2, 7, 2, 7, 2, 7],
+      tags: Array.from({ length: 16 }, (_, index) => (index % 2 === 0 ? ["Social"] : [])),
+    });
+
+    expect(findNextDayContextEffects(moods)).toEqual([]);
+    expect(findLowEnergyDip(moods)).toBeNull();
+  });
+
+  it("surfaces lagged findings as patterns", () => {
+    expect(detectPatterns(socialHelpsNextDay, 10)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          id: "next_day_context",
+          type: "lagged",
+          description: expect.stringContaining('After "Social" days, the next day tends to be better'),
+        }),
+      ])
+    );
+  });
+});
+
+// Longer generated histories, where the planted effects sit in day-to-day noise.
+
+function buildSocialDay(random: () => number, previous: FixtureDay[]): FixtureDay {
+  const yesterday = previous[previous.length - 1];
+  const lift = yesterday?.contextTags.includes("Social") ? 2.5 : 0;
+  return {
+    mood: randomInt(random, 3, 8) - lift,
+    energy: randomInt(random, 3, 8),
+    contextTags: ["Social", "Work"].filter(() => random() < 0.4),
+  };
+}
+
+function buildLowEnergyDay(random: () => number, previous: FixtureDay[]): FixtureDay {
+  const twoDaysAgo = previous[previous.length - 2];
+  const dip = twoDaysAgo?.energy !== null && (twoDaysAgo?.energy ?? 10) <= 2 ? 3 : 0;
+  return {
+    mood: randomInt(random, 2, 6) + dip,
+    energy: random() < 0.3 ? randomInt(random, 0, 2) : randomInt(random, 5, 9),
+    contextTags: [],
+  };
+}
+
+describe("lagged patterns on seeded histories", () => {
+  it("finds context tags that predict the next day", () => {
+    const effects = findNextDayContextEffects(buildSeededHistory(120, 7, buildSocialDay));
+
+    expect(effects.map((effect) => effect.name)).toEqual(["Social"]);
+    expect(effects[0]).toEqual(expect.objectContaining({ lagDays: 1, isBetter: true }));
+    expect(effects[0].difference).toBeLessThan(-1.5);
+  });
+
+  it("finds the lag at which low energy precedes a dip", () => {
+    const moods = buildSeededHistory(150, 11, buildLowEnergyDay);
+
+    expect(findLowEnergyDip(moods)).toEqual(
+      expect.objectContaining({ lagDays: 2, isBetter: false })
+    );
+  });
+
+  it("measures how long low spells last", () => {
+    let spellDay = -1;
+    const moods = buildSeededHistory(120, 3, (random) => {
+      if (spellDay >= 0) {
+        spellDay = spellDay === 2 ? -1 : spellDay + 1;
+        return { mood: spellDay === -1 ? 4 : 8, energy: null, contextTags: [] };
+      }
+      if (random() < 0.1) {
+        spellDay = 0;
+        return { mood: 9, energy: null, contextTags: [] };
+      }
+      return { mood: randomInt(random, 2, 5), energy: null, contextTags: [] };
+    });
+
+    expect(findRecoveryTimes(moods)).toEqual(expect.objectContaining({ medianDays: 3 }));
+  });
+
+  it("reports nothing lagged for independent days", () => {
+    const moods = buildSeededHistory(180, 42, buildNoiseDay);
+
+    expect(findNextDayContextEffects(moods)).toEqual([]);
+    expect(findLowEnergyDip(moods)).toBeNull();
+  });
+});
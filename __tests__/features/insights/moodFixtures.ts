@@ -0,0 +1,60 @@
+import type { MoodEntry } from "../../../db/types";
+import { createMockMoodEntry } from "../../db/mockClient";
+
+export type FixtureDay = {
+  mood: number;
+  energy: number | null;
+  contextTags: string[];
+};
+
+/** Deterministic PRNG (mulberry32), so fixture histories are the same on every run */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * One entry per day at noon, starting 2024-01-01, on the default Mood Scale
+ * (0 best, 10 worst). `buildDay` sees the days generated so far, so effects
+ * can be planted across days.
+ */
+export function buildSeededHistory(
+  days: number,
+  seed: number,
+  buildDay: (random: () => number, previous: FixtureDay[]) => FixtureDay
+): MoodEntry[] {
+  const random = createSeededRandom(seed);
+  const generated: FixtureDay[] = [];
+  return Array.from({ length: days }, (_, index) => {
+    const day = buildDay(random, generated);
+    generated.push(day);
+    const date = new Date(2024, 0, 1 + index, 12);
+    return createMockMoodEntry({
+      id: index + 1,
+      mood: Math.max(0, Math.min(10, Math.round(day.mood))),
+      energy: day.energy,
+      contextTags: day.contextTags,
+      emotions: [],
+      timestamp: date.getTime(),
+    });
+  });
+}
+
+/** Independent days drawn like the app's demo seed: no lagged effects at all */
+export function buildNoiseDay(random: () => number): FixtureDay {
+  return {
+    mood: randomInt(random, 2, 8),
+    energy: randomInt(random, 0, 10),
+    contextTags: ["Work", "Social", "Exercise", "Family"].filter(() => random() < 0.35),
+  };
+}
@@ -76,33 +76,13 @@ describe("moodInsights", () => {
   });
 
   it("runs pattern detection for month and all-time insights", () => {
-    const allMoods = [
-      mood(1, 9, "2024-03-01T12:00:00", {
-        moodScale: higherIsBetterScale,
-        emotions: [{ name: "Calm", category: "positive" }],
-      }),
-      mood(2, 9, "2024-03-02T12:00:00", {
-        moodScale: higherIsBetterScale,
-        emotions: [{ name: "Calm", category: "positive" }],
-      }),
-      mood(3, 9, "2024-03-03T12:00:00", {
+    const calm = [{ name: "Calm", category: "positive" as const }];
+    const allMoods = [8, 9, 9, 8, 9, 8, 4, 5, 4, 5, 6, 5].map((value, index) =>
+      mood(index + 1, value, `2024-03-${String(index + 1).padStart(2, "0")}T12:00:00`, {
         moodScale: higherIsBetterScale,
-        emotions: [{ name: "Calm", category: "positive" }],
-      }),
-      mood(4, 2, "2024-03-04T12:00:00", {
-        moodScale: higherIsBetterScale,
-        emotions: [{ name: "Anxious", category: "negative" }],
-      }),
-      mood(5, 2, "2024-03-05T12:00:00", {
-        moodScale: higherIsBetterScale,
-        emotions: [{ name: "Anxious", category: "negative" }],
-      }),
-      mood(6, 2, "2024-03-06T12:00:00", {
-        moodScale: higherIsBetterScale,
-        emotions: [{ name: "Anxious", category: "negative" }],
-      }),
-      mood(7, 5, "2024-03-07T12:00:00"),
-    ];
+        emotions: index < 6 ? calm : [],
+      })
+    );
 
     const insights = buildMoodInsights(
       allMoods,
@@ -115,12 +95,107 @@ describe("moodInsights", () => {
         expect.objectContaining({
           id: "emotion_correlation",
           type: "emotion",
-          description: expect.stringContaining("Calm"),
+          description: 'When feeling "Calm", your mood tends to be better, by about 3.7 points',
+          evidence: { level: "strong", sampleSize: 6 },
+        }),
+      ])
+    );
+  });
+
+  it("skips emotion patterns drawn from a handful of entries", () => {
+    const allMoods = [
+      ...[1, 2, 3].map((id) =>
+        mood(id, 9, `2024-03-0${id}T12:00:00`, {
+          moodScale: higherIsBetterScale,
+          emotions: [{ name: "Calm", category: "positive" }],
+        })
+      ),
+      ...[4, 5, 6].map((id) =>
+        mood(id, 2, `2024-03-0${id}T12:00:00`, {
+          moodScale: higherIsBetterScale,
+          emotions: [{ name: "Anxious", category: "negative" }],
+        })
+      ),
+      mood(7, 5, "2024-03-07T12:00:00"),
+    ];
+
+    const insights = buildMoodInsights(
+      allMoods,
+      "month",
+      new Date("2024-03-13T12:00:00")
+    );
+
+    expect(insights.patterns.map((pattern) => pattern.type)).not.toContain("emotion");
+  });
+
+  it("detects place patterns grouped by saved place", () => {
+    const home = { name: "Home", latitude: null, longitude: null, placeId: "home" };
+    const office = { name: "Office", latitude: 48.2, longitude: 16.37, placeId: "office" };
+    const allMoods = [1, 2, 1, 2, 1, 2, 7, 8, 7, 8, 7, 8].map((value, index) =>
+      mood(index + 1, value, `2024-03-${String(index + 1).padStart(2, "0")}T12:00:00`, {
+        location:
+          index >= 6 ? office : index === 1 ? { ...home, name: "Home (old name)" } : home,
+      })
+    );
+
+    const insights = buildMoodInsights(
+      allMoods,
+      "month",
+      new Date("2024-03-13T12:00:00")
+    );
+
+    expect(insights.patterns).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          id: "place_correlation",
+          type: "place",
+          description: 'Entries logged at "Home" tend to be better than elsewhere, by about 6.0 points',
+          evidence: { level: "strong", sampleSize: 6 },
         }),
       ])
     );
   });
 
+  it("skips place patterns drawn from a handful of entries", () => {
+    const home = { name: "Home", latitude: null, longitude: null, placeId: "home" };
+    const office = { name: "Office", latitude: 48.2, longitude: 16.37, placeId: "office" };
+    const allMoods = [
+      ...[1, 2, 3].map((id) => mood(id, 1, `2024-03-0${id}T12:00:00`, { location: home })),
+      ...[4, 5, 6].map((id) => mood(id, 8, `2024-03-0${id}T12:00:00`, { location: office })),
+      mood(7, 5, "2024-03-07T12:00:00"),
+    ];
+
+    const insights = buildMoodInsights(
+      allMoods,
+      "month",
+      new Date("2024-03-13T12:00:00")
+    );
+
+    expect(insights.patterns.map((pattern) => pattern.type)).not.toContain("place");
+  });
+
+  it("lists baseline shifts for month insights but not for a week", () => {
+    // Two calm weeks, then two difficult ones from March 16.
+    const allMoods = Array.from({ length: 30 }, (_, index) =>
+      mood(
+        index + 1,
+        (index < 15 ? 2 : 7) + (index % 2),
+        `2024-03-${String(index + 1).padStart(2, "0")}T12:00:00`
+      )
+    );
+    const date = new Date("2024-03-20T12:00:00");
+
+    const { baselineChanges } = buildMoodInsights(allMoods, "month", date);
+
+    expect(baselineChanges.shifts).toHaveLength(1);
+    expect(baselineChanges.shifts[0].date).toEqual(new Date("2024-03-16T00:00:00"));
+    expect(baselineChanges.anomalies).toEqual([]);
+    expect(buildMoodInsights(allMoods, "week", date).baselineChanges).toEqual({
+      shifts: [],
+      anomalies: [],
+    });
+  });
+
   it("calculates streaks from the full Mood history", () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date("2024-03-13T12:00:00"));
@@ -137,4 +212,47 @@ describe("moodInsights", () => {
 
     expect(insights.streak).toEqual({ current: 2, longest: 2 });
   });
+
+  it("keeps backfilled days out of streaks unless they are counted", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-13T12:00:00"));
+    const allMoods = [
+      mood(1, 2, "2024-03-13T12:00:00"),
+      // Filled in the next morning to bridge a missed day.
+      mood(2, 3, "2024-03-12T12:00:00", {
+        createdAt: new Date("2024-03-13T08:00:00").getTime(),
+      }),
+      mood(3, 4, "2024-03-11T12:00:00"),
+    ];
+    const date = new Date("2024-03-13T12:00:00");
+
+    expect(buildMoodInsights(allMoods, "week", date).streak).toEqual({
+      current: 1,
+      longest: 1,
+    });
+    expect(
+      buildMoodInsights(allMoods, "week", date, {
+        countBackfilledInStreaks: true,
+        countBackfilledInInsights: true,
+      }).streak
+    ).toEqual({ current: 3, longest: 3 });
+  });
+
+  it("leaves backfilled entries out of period stats when asked to", () => {
+    const allMoods = [
+      mood(1, 2, "2024-03-11T12:00:00"),
+      mood(2, 8, "2024-03-12T12:00:00", {
+        createdAt: new Date("2024-03-15T09:00:00").getTime(),
+      }),
+    ];
+    const date = new Date("2024-03-13T12:00:00");
+
+    expect(buildMoodInsights(allMoods, "week", date).stats.entryCount).toBe(2);
+    expect(
+      buildMoodInsights(allMoods, "week", date, {
+        countBackfilledInStreaks: false,
+        countBackfilledInInsights: false,
+      }).periodMoods.map((entry) => entry.id)
+    ).toEqual([1]);
+  });
 });
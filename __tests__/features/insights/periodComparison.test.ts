@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+
+import { createMockMoodEntry } from "../../db/mockClient";
+import {
+  buildMoodDistribution,
+  compareEmotionFrequencies,
+  comparePeriods,
+  createDefaultComparisonConfig,
+  getComparisonRanges,
+  type PeriodComparisonConfig,
+} from "../../../src/features/insights/utils/periodComparison";
+
+const higherIsBetterScale = { version: 2, min: 0, max: 10, lowerIsBetter: false };
+
+function entry(id: number, mood: number, localDate: string, emotions: string[] = []) {
+  return createMockMoodEntry({
+    id,
+    mood,
+    timestamp: new Date(`${localDate}T12:00:00`).getTime(),
+    emotions: emotions.map((name) => ({ name, category: "neutral" as const })),
+  });
+}
+
+function config(overrides: Partial<PeriodComparisonConfig>): PeriodComparisonConfig {
+  return { ...createDefaultComparisonConfig(new Date(2024, 5, 15)), ...overrides };
+}
+
+describe("getComparisonRanges", () => {
+  it("pairs a month with the same month a year earlier", () => {
+    const { first, second } = getComparisonRanges(
+      config({ mode: "lastYear", month: new Date(2024, 2, 20) }),
+      []
+    );
+
+    expect(first).toEqual({
+      start: new Date(2023, 2, 1),
+      end: new Date(2023, 2, 31, 23, 59, 59, 999),
+      label: "March 2023",
+    });
+    expect(second.start).toEqual(new Date(2024, 2, 1));
+    expect(second.label).toBe("March 2024");
+  });
+
+  it("covers whole days of custom ranges, even when picked end first", () => {
+    const { first, second } = getComparisonRanges(
+      config({
+        mode: "ranges",
+        first: { start: new Date(2024, 0, 10, 15), end: new Date(2024, 0, 1, 9) },
+        second: { start: new Date(2023, 11, 20), end: new Date(2024, 0, 5) },
+      }),
+      []
+    );
+
+    expect(first.start).toEqual(new Date(2024, 0, 1));
+    expect(first.end).toEqual(new Date(2024, 0, 10, 23, 59, 59, 999));
+    expect(first.label).toBe("Jan 1 – Jan 10, 2024");
+    expect(second.label).toBe("Dec 20, 2023 – Jan 5, 2024");
+  });
+
+  it("splits the history at a date, with the date itself on the after side", () => {
+    const moods = [entry(1, 5, "2024-01-03"), entry(2, 5, "2024-04-20")];
+    const { first, second } = getComparisonRanges(
+      config({ mode: "splitDate", splitDate: new Date(2024, 2, 1, 18) }),
+      moods
+    );
+
+    expect(first.start).toEqual(new Date(2024, 0, 3));
+    expect(first.end).toEqual(new Date(2024, 1, 29, 23, 59, 59, 999));
+    expect(first.label).toBe("Before Mar 1, 2024");
+    expect(second.start).toEqual(new Date(2024, 2, 1));
+    expect(second.end).toEqual(new Date(2024, 3, 20, 23, 59, 59, 999));
+    expect(second.label).toBe("Since Mar 1, 2024");
+  });
+});
+
+describe("buildMoodDistribution", () => {
+  it("has a bin for every rating, on the current Mood Scale", () => {
+    const distribution = buildMoodDistribution([
+      entry(1, 2, "2024-01-01"),
+      entry(2, 2, "2024-01-02"),
+      // 8 on a higher-is-better scale is a 2 on the current one.
+      createMockMoodEntry({ id: 3, mood: 8, moodScale: higherIsBetterScale }),
+      entry(4, 7, "2024-01-04"),
+    ]);
+
+    expect(distribution).toHaveLength(11);
+    expect(distribution[2]).toEqual({ rating: 2, count: 3, share: 0.75 });
+    expect(distribution[7]).toEqual({ rating: 7, count: 1, share: 0.25 });
+    expect(distribution[0]).toEqual({ rating: 0, count: 0, share: 0 });
+  });
+});
+
+describe("compareEmotionFrequencies", () => {
+  it("compares each emotion's share of entries, largest change first", () => {
+    const changes = compareEmotionFrequencies(
+      [
+        entry(1, 6, "2024-01-01", ["Anxious", "Tired"]),
+        entry(2, 6, "2024-01-02", ["anxious"]),
+        entry(3, 5, "2024-01-03", []),
+        entry(4, 5, "2024-01-04", ["Tired"]),
+      ],
+      [entry(5, 3, "2024-03-01", ["Calm"]), entry(6, 3, "2024-03-02", ["Tired", "Calm"])]
+    );
+
+    expect(changes).toEqual([
+      {
+        name: "Calm",
+        firstCount: 0,
+        secondCount: 2,
+        firstShare: 0,
+        secondShare: 1,
+        change: 1,
+      },
+      {
+        name: "Anxious",
+        firstCount: 2,
+        secondCount: 0,
+        firstShare: 0.5,
+        secondShare: 0,
+        change: -0.5,
+      },
+      {
+        name: "Tired",
+        firstCount: 2,
+        secondCount: 1,
+        firstShare: 0.5,
+        secondShare: 0.5,
+        change: 0,
+      },
+    ]);
+  });
+});
+
+describe("comparePeriods", () => {
+  const moods = [
+    entry(1, 7, "2024-01-10", ["Anxious"]),
+    entry(2, 6, "2024-01-20", ["Anxious"]),
+    entry(3, 3, "2024-03-05", ["Calm"]),
+    entry(4, 2, "2024-03-15"),
+    entry(5, 4, "2024-03-25", ["Calm"]),
+  ];
+
+  it("measures the second side's mood change against the first", () => {
+    const comparison = comparePeriods(
+      moods,
+      config({ mode: "splitDate", splitDate: new Date(2024, 2, 1) })
+    );
+
+    expect(comparison.first.moods.map((mood) => mood.id)).toEqual([1, 2]);
+    expect(comparison.second.moods.map((mood) => mood.id)).toEqual([3, 4, 5]);
+    expect(comparison.first.stats.averageMood).toBe(6.5);
+    expect(comparison.first.stats.moodChange).toBe(0);
+    expect(comparison.second.stats.averageMood).toBe(3);
+    expect(comparison.second.stats.moodChange).toBe(-3.5);
+    expect(comparison.second.distribution[3].count).toBe(1);
+    expect(comparison.emotionChanges.map((change) => change.name)).toEqual(["Anxious", "Calm"]);
+  });
+
+  it("leaves backfilled entries out when insights do not count them", () => {
+    const backfilled = {
+      ...entry(6, 10, "2024-03-20"),
+      createdAt: new Date("2024-03-28T12:00:00").getTime(),
+    };
+    const splitConfig = config({ mode: "splitDate", splitDate: new Date(2024, 2, 1) });
+
+    expect(comparePeriods([...moods, backfilled], splitConfig).second.stats.entryCount).toBe(4);
+    expect(
+      comparePeriods([...moods, backfilled], splitConfig, {
+        countBackfilledInInsights: false,
+        countBackfilledInStreaks: false,
+      }).second.stats.entryCount
+    ).toBe(3);
+  });
+});
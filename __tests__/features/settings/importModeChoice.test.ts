@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  chooseImportMode,
+  type ImportModeAlertButton,
+} from "../../../src/features/settings/utils/importModeChoice";
+
+describe("chooseImportMode", () => {
+  const showAlert = vi.fn();
+  const onChoose = vi.fn();
+  const onExportFirst = vi.fn();
+  const onCancel = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function open(conflictCount: number) {
+    chooseImportMode({
+      showAlert,
+      summary: "The selected file contains 2 entries: 2 new.",
+      conflictCount,
+      onChoose,
+      onExportFirst,
+      onCancel,
+    });
+    return showAlert.mock.calls[0][2] as ImportModeAlertButton[];
+  }
+
+  function press(buttons: ImportModeAlertButton[], text: string) {
+    buttons.find((button) => button.text === text)?.onPress?.();
+  }
+
+  it("offers merge, replace and exporting first", () => {
+    const buttons = open(0);
+
+    expect(showAlert.mock.calls[0][1]).toContain("The selected file contains 2 entries: 2 new.");
+    expect(buttons.map((button) => button.text)).toEqual([
+      "Cancel",
+      "Export Current Data First",
+      "Merge",
+      "Replace Data",
+    ]);
+
+    press(buttons, "Replace Data");
+    expect(onChoose).toHaveBeenCalledWith({ mode: "replace" });
+    press(buttons, "Merge");
+    expect(onChoose).toHaveBeenLastCalledWith({ mode: "merge", conflictStrategy: "skip" });
+    expect(showAlert).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks how to resolve conflicts before merging", () => {
+    press(open(2), "Merge");
+
+    expect(showAlert).toHaveBeenLastCalledWith(
+      "Resolve Conflicts",
+      "2 imported entries have the same time as a different entry on this device.",
+      expect.any(Array)
+    );
+    const conflictButtons = showAlert.mock.calls[1][2] as ImportModeAlertButton[];
+    press(conflictButtons, "Keep Both");
+    expect(onChoose).toHaveBeenCalledWith({ mode: "merge", conflictStrategy: "keepBoth" });
+    press(conflictButtons, "Cancel");
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
@@ -75,4 +75,15 @@ describe("sanitizeTherapyFields", () => {
       sanitizeTherapyFields(["timestamp", "notes", "bad-field", "mood"])
     ).toEqual(["timestamp", "notes", "mood"]);
   });
+
+  test("keeps the opt-in edits field", () => {
+    expect(sanitizeTherapyFields(["mood", "edits"])).toEqual(["mood", "edits"]);
+  });
+
+  test("keeps the baseline summary only alongside an entry field", () => {
+    expect(sanitizeTherapyFields(["mood", "baseline"])).toEqual(["mood", "baseline"]);
+    expect(sanitizeTherapyFields(["baseline"])).toBe(
+      DEFAULT_THERAPY_EXPORT_PREFS.fields
+    );
+  });
 });
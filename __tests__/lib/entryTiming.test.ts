@@ -0,0 +1,43 @@
+import { describe, expect, test } from "vitest";
+import {
+  DEFAULT_ENTRY_TIMING_PREFS,
+  isBackfilledEntry,
+  parseEntryTimingPrefs,
+} from "../../src/lib/entryTiming";
+
+const at = (localDateTime: string) => new Date(localDateTime).getTime();
+
+describe("isBackfilledEntry", () => {
+  test("counts entries logged on the day they describe as live", () => {
+    expect(
+      isBackfilledEntry({
+        timestamp: at("2024-03-12T08:00:00"),
+        createdAt: at("2024-03-12T21:30:00"),
+      })
+    ).toBe(false);
+  });
+
+  test("flags entries logged on a later day", () => {
+    expect(
+      isBackfilledEntry({
+        timestamp: at("2024-03-12T23:30:00"),
+        createdAt: at("2024-03-13T00:15:00"),
+      })
+    ).toBe(true);
+  });
+});
+
+describe("parseEntryTimingPrefs", () => {
+  test("returns defaults for missing or invalid input", () => {
+    expect(parseEntryTimingPrefs(null)).toBe(DEFAULT_ENTRY_TIMING_PREFS);
+    expect(parseEntryTimingPrefs({ countBackfilledInStreaks: "yes" })).toEqual(
+      DEFAULT_ENTRY_TIMING_PREFS
+    );
+  });
+
+  test("keeps stored choices", () => {
+    expect(
+      parseEntryTimingPrefs({ countBackfilledInStreaks: true, countBackfilledInInsights: false })
+    ).toEqual({ countBackfilledInStreaks: true, countBackfilledInInsights: false });
+  });
+});
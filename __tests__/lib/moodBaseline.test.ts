@@ -0,0 +1,143 @@
+import { describe, test, expect } from "vitest";
+import { addDays, format } from "date-fns";
+import {
+  detectBaselineShifts,
+  detectMoodAnomalies,
+  formatBaselineShift,
+  getDailyChartAnnotations,
+} from "../../src/lib/moodBaseline";
+import { processMoodDataForDailyChart } from "../../src/lib/moodChartData";
+import type { MoodEntry } from "../../db/types";
+
+const defaultScale = {
+  version: 1 as const,
+  min: 0 as const,
+  max: 10 as const,
+  lowerIsBetter: true as const,
+};
+
+const START = new Date(2024, 0, 1, 12);
+
+/** One entry a day from Jan 1, 2024; null leaves the day without an entry */
+function dailyMoods(values: (number | null)[]): MoodEntry[] {
+  return values.flatMap((value, day) =>
+    value === null
+      ? []
+      : [
+          {
+            id: day + 1,
+            mood: value,
+            note: null,
+            timestamp: addDays(START, day).getTime(),
+            emotions: [],
+            contextTags: [],
+            energy: null,
+            moodScale: defaultScale,
+            basedOnEntryId: null,
+          },
+        ]
+  );
+}
+
+/** Alternates between `low` and `low + 1` for `days` days */
+function steady(low: number, days: number): number[] {
+  return Array.from({ length: days }, (_, day) => low + (day % 2));
+}
+
+function aggregatesFor(values: (number | null)[]) {
+  return processMoodDataForDailyChart(dailyMoods(values), values.length).dailyAggregates;
+}
+
+describe("detectBaselineShifts", () => {
+  test("finds the day the daily average moved to a new level", () => {
+    const shifts = detectBaselineShifts(aggregatesFor([...steady(3, 20), ...steady(7, 20)]));
+
+    expect(shifts).toHaveLength(1);
+    expect(shifts[0].index).toBe(20);
+    expect(format(shifts[0].date, "yyyy-MM-dd")).toBe("2024-01-21");
+    expect(shifts[0].before).toBeCloseTo(3.5);
+    expect(shifts[0].after).toBeCloseTo(7.5);
+  });
+
+  test("finds nothing in a steady history or a single unusual day", () => {
+    expect(detectBaselineShifts(aggregatesFor(steady(3, 40)))).toEqual([]);
+
+    const withOutlier = steady(3, 30);
+    withOutlier[15] = 9;
+    expect(detectBaselineShifts(aggregatesFor(withOutlier))).toEqual([]);
+  });
+
+  test("needs a week of real days on each side", () => {
+    expect(detectBaselineShifts(aggregatesFor([...steady(3, 6), ...steady(7, 6)]))).toEqual([]);
+  });
+
+  test("ignores interpolated days", () => {
+    const values: (number | null)[] = [...steady(3, 20), ...steady(7, 20)];
+    // Three of the 7s after the shift are missing
+    [22, 24, 26].forEach((day) => {
+      values[day] = null;
+    });
+    const shifts = detectBaselineShifts(aggregatesFor(values));
+
+    expect(shifts).toHaveLength(1);
+    expect(shifts[0].index).toBe(20);
+    expect(shifts[0].after).toBeCloseTo((7 * 7 + 8 * 10) / 17);
+  });
+});
+
+describe("detectMoodAnomalies", () => {
+  test("flags a day far from its recent baseline", () => {
+    const values = steady(3, 30);
+    values[15] = 9;
+    const anomalies = detectMoodAnomalies(aggregatesFor(values));
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ index: 15, value: 9, isBetter: false });
+    expect(anomalies[0].baseline).toBeCloseTo(3.5);
+    expect(anomalies[0].zScore).toBeGreaterThan(2.5);
+  });
+
+  test("does not flag the days right after a shift", () => {
+    const aggregates = aggregatesFor([...steady(3, 20), ...steady(7, 20)]);
+
+    expect(detectMoodAnomalies(aggregates)).toEqual([]);
+    expect(detectMoodAnomalies(aggregates, []).map((anomaly) => anomaly.index)).toContain(20);
+  });
+
+  test("needs a week of earlier days", () => {
+    const values = steady(3, 10);
+    values[5] = 9;
+
+    expect(detectMoodAnomalies(aggregatesFor(values))).toEqual([]);
+  });
+});
+
+describe("getDailyChartAnnotations", () => {
+  test("returns shifts and unusual days in chart order", () => {
+    const values = [...steady(3, 20), ...steady(7, 20)];
+    values[30] = 1;
+    const annotations = getDailyChartAnnotations(aggregatesFor(values));
+
+    expect(annotations.map(({ index, kind, label }) => ({ index, kind, label }))).toEqual([
+      { index: 20, kind: "shift", label: "3.5 → 7.2" },
+      { index: 30, kind: "anomaly", label: "Unusually good" },
+    ]);
+  });
+
+  test("comes back with the daily chart data", () => {
+    const { annotations } = processMoodDataForDailyChart(
+      dailyMoods([...steady(3, 20), ...steady(7, 20)]),
+      40
+    );
+
+    expect(annotations.map((annotation) => annotation.kind)).toEqual(["shift"]);
+  });
+});
+
+test("formatBaselineShift describes the move in the daily average", () => {
+  const [shift] = detectBaselineShifts(aggregatesFor([...steady(3, 20), ...steady(7, 20)]));
+
+  expect(formatBaselineShift(shift)).toBe(
+    "Since Jan 21, 2024 the daily average moved from 3.5 to 7.5"
+  );
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import * as FileSystem from "expo-file-system/legacy";
+
+const mocks = vi.hoisted(() => ({
+  defineTask: vi.fn(),
+}));
+
+vi.mock("react-native", () => ({
+  Platform: { OS: "ios" },
+}));
+
+vi.mock("expo-constants", () => ({
+  default: { isDevice: true, expoConfig: { version: "1.5.0" } },
+}));
+
+vi.mock("expo-task-manager", () => ({
+  defineTask: mocks.defineTask,
+  isTaskRegisteredAsync: vi.fn(),
+}));
+
+vi.mock("expo-background-task", () => ({
+  BackgroundTaskResult: { Success: 1, Failed: 2 },
+  BackgroundTaskStatus: { Restricted: 1, Available: 2 },
+  registerTaskAsync: vi.fn(),
+  unregisterTaskAsync: vi.fn(),
+  getStatusAsync: vi.fn(),
+}));
+
+vi.mock("@db/db", async () => {
+  const exportFormat = await vi.importActual<typeof import("../../db/moods/exportFormat")>(
+    "../../db/moods/exportFormat"
+  );
+  return {
+    ...exportFormat,
+    exportMoods: async (
+      _range: unknown,
+      _filter: unknown,
+      options: import("../../db/moods/exportFormat").MoodExportOptions
+    ) => JSON.stringify(await exportFormat.buildMoodExportEnvelope([], null, options)),
+    exportIncrementalMoods: vi.fn(),
+    getMoodChangeSequence: vi.fn(async () => 0),
+    getMoodChangesSince: vi.fn(),
+    getMoodCount: vi.fn(async () => 0),
+    pruneMoodChanges: vi.fn(),
+  };
+});
+
+vi.mock("@db/backupEncryption", () => ({
+  getBackupEncryptionKey: vi.fn(async () => null),
+  changeBackupPassphrase: vi.fn(),
+  disableBackupEncryption: vi.fn(),
+  enableBackupEncryption: vi.fn(),
+  isBackupEncryptionEnabled: vi.fn(async () => false),
+}));
+
+vi.mock("@/services/settingsService", () => ({
+  settingsService: {
+    load: async () => ({
+      emotions: [{ name: "Calm", category: "positive" }],
+      contexts: ["Work"],
+      quickEntryPrefs: { showEmotions: true, showContext: true, showEnergy: true, showNotes: false },
+    }),
+  },
+}));
+
+vi.mock("@/services/notificationService", () => ({
+  getAllNotifications: async () => [
+    { id: "r1", title: "Check in", body: "", hour: 20, minute: 0, enabled: true },
+  ],
+  saveAllNotifications: vi.fn(),
+}));
+
+vi.mock("@/services/presetSyncService", () => ({
+  presetSyncService: { addMissingFromHistory: vi.fn() },
+}));
+
+vi.mock("@/shared/state/moodsStore", () => ({
+  useMoodsStore: { getState: () => ({ invalidate: vi.fn(), ensureFresh: vi.fn() }) },
+}));
+
+vi.mock("@/shared/state/settingsStore", () => ({
+  useSettingsStore: { getState: () => ({}) },
+}));
+
+// What index.js loads before the router; the root layout is never rendered.
+import "../../src/services/backgroundBackupService";
+import { BACKGROUND_BACKUP_TASK, runBackgroundBackupTask } from "../../db/backgroundBackup";
+
+const fileSystem = FileSystem as unknown as { __files: Map<string, { content: string }> };
+// Captured before setup.ts's vi.clearAllMocks() runs
+const moduleLoadDefineTaskCalls = mocks.defineTask.mock.calls.slice();
+
+describe("background backups", () => {
+  it("defines the task when the entry module loads", () => {
+    expect(moduleLoadDefineTaskCalls).toContainEqual([BACKGROUND_BACKUP_TASK, runBackgroundBackupTask]);
+  });
+
+  it("include the app settings without the root layout", async () => {
+    const result = await runBackgroundBackupTask();
+
+    expect(result).toBe(1);
+    const backups = [...fileSystem.__files.entries()].filter(([uri]) =>
+      uri.includes("MoodinatorBackups/")
+    );
+    expect(backups).toHaveLength(1);
+    expect(JSON.parse(backups[0][1].content)).toMatchObject({
+      appVersion: "1.5.0",
+      settings: {
+        emotions: [{ name: "Calm", category: "positive" }],
+        contexts: ["Work"],
+        reminders: [{ id: "r1", title: "Check in", body: "", hour: 20, minute: 0, enabled: true }],
+      },
+    });
+  });
+});
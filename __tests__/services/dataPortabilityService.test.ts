@@ -3,21 +3,68 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 const mocks = vi.hoisted(() => ({
   exportMoods: vi.fn(),
   importMoods: vi.fn(),
-  previewImportMoods: vi.fn(),
+  mergeImportMoods: vi.fn(),
+  previewMergeImportMoods: vi.fn(),
+  importCsvMoods: vi.fn(),
+  previewCsvImportMoods: vi.fn(),
   clearMoodData: vi.fn(),
   createBackup: vi.fn(),
+  listBackups: vi.fn(),
+  setBackupPolicy: vi.fn(),
+  rescheduleBackgroundBackupTask: vi.fn(),
   getBackupInfo: vi.fn(),
+  getBackupHealth: vi.fn(),
   getBackupFolder: vi.fn(),
   setBackupFolder: vi.fn(),
   addMissingFromHistory: vi.fn(),
   invalidate: vi.fn(),
   ensureFresh: vi.fn(),
+  loadSettings: vi.fn(),
+  getAllNotifications: vi.fn(),
+  saveAllNotifications: vi.fn(),
+  setEmotions: vi.fn(),
+  setContexts: vi.fn(),
+  setQuickEntryPrefs: vi.fn(),
 }));
 
-vi.mock("@db/db", () => ({
+vi.mock("expo-constants", () => ({
+  default: { expoConfig: { version: "1.5.0" } },
+}));
+
+vi.mock("@/services/settingsService", () => ({
+  settingsService: { load: mocks.loadSettings },
+}));
+
+vi.mock("@/services/notificationService", () => ({
+  getAllNotifications: mocks.getAllNotifications,
+  saveAllNotifications: mocks.saveAllNotifications,
+}));
+
+vi.mock("@/shared/state/settingsStore", () => ({
+  useSettingsStore: {
+    getState: () => ({
+      emotions: [{ name: "Calm", category: "positive" }],
+      contexts: ["Work"],
+      setEmotions: mocks.setEmotions,
+      setContexts: mocks.setContexts,
+      setQuickEntryPrefs: mocks.setQuickEntryPrefs,
+    }),
+  },
+}));
+
+vi.mock("@db/db", async () => ({
+  ...(await vi.importActual<typeof import("../../db/moods/csvImport")>(
+    "../../db/moods/csvImport"
+  )),
+  ...(await vi.importActual<typeof import("../../db/moods/exportFormat")>(
+    "../../db/moods/exportFormat"
+  )),
   exportMoods: mocks.exportMoods,
   importMoods: mocks.importMoods,
-  previewImportMoods: mocks.previewImportMoods,
+  mergeImportMoods: mocks.mergeImportMoods,
+  previewMergeImportMoods: mocks.previewMergeImportMoods,
+  importCsvMoods: mocks.importCsvMoods,
+  previewCsvImportMoods: mocks.previewCsvImportMoods,
   clearMoodData: mocks.clearMoodData,
 }));
 
@@ -29,11 +76,32 @@ vi.mock("@/services/presetSyncService", () => ({
 
 vi.mock("@db/backup", () => ({
   createBackup: mocks.createBackup,
+  listBackups: mocks.listBackups,
+  setBackupPolicy: mocks.setBackupPolicy,
+  readBackupFile: vi.fn(),
+  verifyBackup: vi.fn(),
   getBackupInfo: mocks.getBackupInfo,
+  getBackupHealth: mocks.getBackupHealth,
   getBackupFolder: mocks.getBackupFolder,
   setBackupFolder: mocks.setBackupFolder,
 }));
 
+vi.mock("@db/backgroundBackup", () => ({
+  rescheduleBackgroundBackupTask: mocks.rescheduleBackgroundBackupTask,
+}));
+
+vi.mock("@db/backupCrypto", () => ({
+  decryptBackup: vi.fn(),
+  isEncryptedBackup: vi.fn(() => false),
+}));
+
+vi.mock("@db/backupEncryption", () => ({
+  changeBackupPassphrase: vi.fn(),
+  disableBackupEncryption: vi.fn(),
+  enableBackupEncryption: vi.fn(),
+  isBackupEncryptionEnabled: vi.fn(() => Promise.resolve(false)),
+}));
+
 vi.mock("@/shared/state/moodsStore", () => ({
   useMoodsStore: {
     getState: () => ({
@@ -48,6 +116,68 @@ import { dataPortabilityService } from "../../src/services/dataPortabilityServic
 describe("dataPortabilityService", () => {
   beforeEach(() => {
     Object.values(mocks).forEach((mock) => mock.mockReset());
+    mocks.loadSettings.mockResolvedValue({
+      emotions: [{ name: "Calm", category: "positive" }],
+      contexts: ["Work"],
+      quickEntryPrefs: { showEmotions: true, showContext: true, showEnergy: true, showNotes: false },
+    });
+    mocks.getAllNotifications.mockResolvedValue([]);
+  });
+
+  it("adds the app version and configuration to exports", async () => {
+    mocks.getAllNotifications.mockResolvedValue([
+      { id: "r1", title: "Check in", body: "", hour: 20, minute: 0, enabled: true, scheduledId: "x" },
+      { id: "r2", title: "Gone", body: "", hour: 9, minute: 0, enabled: false, pendingAction: "delete" },
+    ]);
+
+    await expect(dataPortabilityService.getExportOptions()).resolves.toEqual({
+      appVersion: "1.5.0",
+      settings: {
+        emotions: [{ name: "Calm", category: "positive" }],
+        contexts: ["Work"],
+        quickEntryPrefs: { showEmotions: true, showContext: true, showEnergy: true, showNotes: false },
+        reminders: [{ id: "r1", title: "Check in", body: "", hour: 20, minute: 0, enabled: true }],
+      },
+    });
+  });
+
+  it("restores configuration from replacement imports and only adds presets when merging", async () => {
+    const settings = {
+      emotions: [{ name: "Tired", category: "negative" }],
+      contexts: ["work", "Gym"],
+      quickEntryPrefs: { showEmotions: false, showContext: true, showEnergy: true, showNotes: true },
+      reminders: [{ id: "r1", title: "Check in", body: "", hour: 20, minute: 0, enabled: true }],
+    };
+    mocks.importMoods.mockResolvedValue({ imported: 1, skipped: 0, errors: [], settings });
+    mocks.mergeImportMoods.mockResolvedValue({
+      imported: 1,
+      skipped: 0,
+      errors: [],
+      duplicates: 0,
+      conflicts: 0,
+      overwritten: 0,
+      settings,
+    });
+    mocks.addMissingFromHistory.mockResolvedValue({ addedEmotions: [], addedContexts: [] });
+
+    const replaced = await dataPortabilityService.importData("{}");
+    expect(mocks.setEmotions).toHaveBeenCalledWith(settings.emotions);
+    expect(mocks.setContexts).toHaveBeenCalledWith(settings.contexts);
+    expect(mocks.setQuickEntryPrefs).toHaveBeenCalledWith(settings.quickEntryPrefs);
+    expect(mocks.saveAllNotifications).toHaveBeenCalledWith(settings.reminders);
+    expect(dataPortabilityService.summarizeImportResult(replaced)).toBe(
+      "Imported 1 entry.\n\nRestored your emotion list, context tags, quick entry options and reminders from the file."
+    );
+
+    Object.values(mocks).forEach((mock) => mock.mockClear());
+    await dataPortabilityService.importData("{}", { mode: "merge", conflictStrategy: "skip" });
+    expect(mocks.setEmotions).toHaveBeenCalledWith([
+      { name: "Calm", category: "positive" },
+      { name: "Tired", category: "negative" },
+    ]);
+    expect(mocks.setContexts).toHaveBeenCalledWith(["Work", "Gym"]);
+    expect(mocks.setQuickEntryPrefs).not.toHaveBeenCalled();
+    expect(mocks.saveAllNotifications).not.toHaveBeenCalled();
   });
 
   it("resolves export ranges and file names", async () => {
@@ -65,7 +195,38 @@ describe("dataPortabilityService", () => {
       fileName: "moodinator-export-week-2026-05-27.json",
       jsonData: "[{\"mood\":4}]",
     });
-    expect(mocks.exportMoods).toHaveBeenCalledWith({ preset: "week" });
+    expect(mocks.exportMoods).toHaveBeenCalledWith(
+      { preset: "week" },
+      undefined,
+      expect.objectContaining({ appVersion: "1.5.0" })
+    );
+  });
+
+  it("narrows exports to a saved view and names the file after it", async () => {
+    mocks.exportMoods.mockResolvedValue("[]");
+    const view = {
+      id: "work",
+      name: "Bad work days",
+      query: { contextTags: { tags: ["Work"], match: "any" as const }, mood: { min: 7 } },
+    };
+
+    const result = await dataPortabilityService.createExport({
+      range: "full",
+      customStartDate: new Date("2026-05-01T12:00:00Z"),
+      customEndDate: new Date("2026-05-07T12:00:00Z"),
+      view,
+      now: new Date("2026-05-27T12:00:00Z"),
+    });
+
+    expect(result).toMatchObject({
+      ok: true,
+      fileName: "moodinator-export-bad-work-days-full-2026-05-27.json",
+    });
+    expect(mocks.exportMoods).toHaveBeenCalledWith(
+      undefined,
+      view.query,
+      expect.objectContaining({ appVersion: "1.5.0" })
+    );
   });
 
   it("rejects invalid custom export ranges before exporting", async () => {
@@ -128,18 +289,93 @@ describe("dataPortabilityService", () => {
     expect(mocks.ensureFresh).toHaveBeenCalledTimes(1);
   });
 
-  it("previews imports for the destructive replacement prompt", () => {
-    mocks.previewImportMoods.mockReturnValue({ entryCount: 3 });
+  it("previews how imported entries compare to local data", async () => {
+    mocks.previewMergeImportMoods.mockResolvedValue({
+      entryCount: 3,
+      newCount: 1,
+      duplicateCount: 1,
+      conflictCount: 1,
+    });
 
-    const preview = dataPortabilityService.previewImportData("[{\"mood\":3}]");
+    const preview = await dataPortabilityService.previewImportData("[{\"mood\":3}]");
 
-    expect(preview).toEqual({ entryCount: 3 });
-    expect(mocks.previewImportMoods).toHaveBeenCalledWith("[{\"mood\":3}]");
+    expect(mocks.previewMergeImportMoods).toHaveBeenCalledWith("[{\"mood\":3}]");
     expect(dataPortabilityService.summarizeImportPreview(preview)).toBe(
-      "The selected file contains 3 entries. Importing replaces your current local Moodinator data."
+      "The selected file contains 3 entries: 1 new, 1 already on this device, 1 conflicting with an existing entry at the same time."
     );
   });
 
+  it("merges imports with the chosen conflict strategy", async () => {
+    mocks.mergeImportMoods.mockResolvedValue({
+      imported: 2,
+      skipped: 0,
+      errors: [],
+      duplicates: 3,
+      conflicts: 1,
+      overwritten: 1,
+    });
+    mocks.addMissingFromHistory.mockResolvedValue({ addedEmotions: [], addedContexts: [] });
+
+    const result = await dataPortabilityService.importData("[]", {
+      mode: "merge",
+      conflictStrategy: "overwrite",
+    });
+
+    expect(mocks.mergeImportMoods).toHaveBeenCalledWith("[]", { conflictStrategy: "overwrite" });
+    expect(mocks.importMoods).not.toHaveBeenCalled();
+    expect(dataPortabilityService.summarizeImportResult(result)).toBe(
+      "Imported 2 entries.\n\nSkipped 3 entries already on this device.\n\nReplaced 1 entry with the imported version."
+    );
+  });
+
+  it("reads CSV files and suggests a preset mapping", () => {
+    const file = dataPortabilityService.readCsvImportFile(
+      "full_date,date,weekday,time,mood,activities,note_title,note\n2024-01-15,Jan 15,Monday,20:30,rad,,,\n"
+    );
+
+    expect(file).toMatchObject({
+      headers: ["full_date", "date", "weekday", "time", "mood", "activities", "note_title", "note"],
+      rowCount: 1,
+      preset: { id: "daylio" },
+      mapping: { timestamp: { column: "full_date", timeColumn: "time" } },
+    });
+    expect(() => dataPortabilityService.readCsvImportFile("\n")).toThrow("CSV file is empty");
+  });
+
+  it("previews and imports CSV data with the user's emotion categories", async () => {
+    const mapping = dataPortabilityService.readCsvImportFile("Timestamp,Mood Rating\n").mapping;
+    mocks.previewCsvImportMoods.mockResolvedValue({
+      entryCount: 2,
+      newCount: 2,
+      duplicateCount: 0,
+      conflictCount: 0,
+      skipped: 1,
+      errors: ['Row 4: Unrecognized mood value "grumpy"'],
+    });
+    mocks.importCsvMoods.mockResolvedValue({ imported: 2, skipped: 1, errors: [] });
+    mocks.addMissingFromHistory.mockResolvedValue({ addedEmotions: [], addedContexts: ["Gym"] });
+
+    const preview = await dataPortabilityService.previewCsvImport("csv", mapping);
+    expect(dataPortabilityService.summarizeCsvImportPreview(preview)).toBe(
+      'The selected file contains 2 entries: 2 new.\n\n1 row can\'t be read with this mapping and will be skipped.\n\nRow 4: Unrecognized mood value "grumpy"'
+    );
+
+    const result = await dataPortabilityService.importCsvData("csv", mapping, {
+      mode: "merge",
+      conflictStrategy: "skip",
+    });
+    const emotions = [{ name: "Calm", category: "positive" }];
+    expect(mocks.previewCsvImportMoods).toHaveBeenCalledWith("csv", mapping, emotions);
+    expect(mocks.importCsvMoods).toHaveBeenCalledWith(
+      "csv",
+      mapping,
+      { mode: "merge", conflictStrategy: "skip" },
+      emotions
+    );
+    expect(result.addedContexts).toEqual(["Gym"]);
+    expect(mocks.invalidate).toHaveBeenCalled();
+  });
+
   it("deletes local mood data and refreshes mood history", async () => {
     mocks.clearMoodData.mockResolvedValue(undefined);
     mocks.ensureFresh.mockResolvedValue(undefined);
@@ -167,13 +403,103 @@ describe("dataPortabilityService", () => {
     });
   });
 
-  it("loads backup metadata and folder together", async () => {
+  it("loads backup metadata, folder and health together", async () => {
+    const health = { status: "healthy", lastSuccessAt: 123, lastFailure: null };
     mocks.getBackupInfo.mockResolvedValue({ count: 2, latestBackup: 123 });
     mocks.getBackupFolder.mockResolvedValue("file:///backups");
+    mocks.getBackupHealth.mockResolvedValue(health);
 
     await expect(dataPortabilityService.getBackupStatus()).resolves.toEqual({
       info: { count: 2, latestBackup: 123 },
       folderUri: "file:///backups",
+      health,
+    });
+  });
+
+  it("describes backup verification results", () => {
+    expect(
+      dataPortabilityService.describeBackupVerification({
+        ok: true,
+        encrypted: false,
+        entryCount: 2,
+        checksum: "valid",
+        error: null,
+      })
+    ).toBe("2 entries. The checksum matches, so the backup is intact.");
+    expect(
+      dataPortabilityService.describeBackupVerification({
+        ok: false,
+        encrypted: false,
+        entryCount: null,
+        checksum: "unverified",
+        error: "Unexpected end of JSON input",
+      })
+    ).toBe("This backup cannot be read: Unexpected end of JSON input");
+  });
+
+  it("describes what a backup holds before restoring it", () => {
+    const backup = JSON.stringify({
+      format: "moodinator-export",
+      formatVersion: 2,
+      appVersion: "1.5.0",
+      exportedAt: 1705320000000,
+      range: null,
+      entries: [{ timestamp: 1705320000000 }, { timestamp: 1705406400000 }],
+      settings: { emotions: [], reminders: [] },
     });
+
+    expect(dataPortabilityService.describeBackup(backup)).toBe(
+      `2 entries from ${new Date(1705320000000).toLocaleDateString()} to ${new Date(
+        1705406400000
+      ).toLocaleDateString()}. Includes your emotion list and reminders. Made with Moodinator 1.5.0.`
+    );
+  });
+
+  it("saves a safety backup before restoring and stops if it fails", async () => {
+    const backup = JSON.stringify([{ timestamp: 1705320000000, mood: 4 }]);
+    mocks.importMoods.mockResolvedValue({ imported: 1, skipped: 0, errors: [] });
+    mocks.addMissingFromHistory.mockResolvedValue({ addedEmotions: [], addedContexts: [] });
+    mocks.createBackup.mockResolvedValueOnce({ success: true, data: "file:///safety.json" });
+
+    await dataPortabilityService.clearBackupLog();
+    await expect(
+      dataPortabilityService.restoreBackup(backup, "moodinator-backup-2024-01-15.json")
+    ).resolves.toMatchObject({
+      imported: 1,
+      safetyBackupUri: "file:///safety.json",
+    });
+    expect(mocks.createBackup).toHaveBeenCalledWith("pre-restore");
+    expect(mocks.createBackup.mock.invocationCallOrder[0]).toBeLessThan(
+      mocks.importMoods.mock.invocationCallOrder[0]
+    );
+
+    mocks.importMoods.mockClear();
+    mocks.createBackup.mockResolvedValueOnce({ success: false, error: "disk full" });
+    await expect(dataPortabilityService.restoreBackup(backup)).rejects.toThrow(
+      "Restore cancelled because a safety backup of your current data failed: disk full"
+    );
+    expect(mocks.importMoods).not.toHaveBeenCalled();
+    await expect(dataPortabilityService.getBackupLog()).resolves.toMatchObject([
+      { operation: "restore", result: "failure", error: expect.stringContaining("disk full") },
+      {
+        operation: "restore",
+        trigger: "manual",
+        result: "success",
+        fileName: "moodinator-backup-2024-01-15.json",
+        entryCount: 1,
+      },
+    ]);
+  });
+
+  it("saves the backup policy and reschedules the background task", async () => {
+    const policy = {
+      frequency: "daily" as const,
+      retention: { type: "gfs" as const, daily: 7, weekly: 4, monthly: 12 },
+    };
+
+    await dataPortabilityService.setBackupPolicy(policy);
+
+    expect(mocks.setBackupPolicy).toHaveBeenCalledWith(policy);
+    expect(mocks.rescheduleBackgroundBackupTask).toHaveBeenCalledTimes(1);
   });
 });
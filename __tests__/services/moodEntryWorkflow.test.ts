@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { MoodEntry, MoodEntryInput } from "../../db/types";
+import type { MoodEntry } from "../../db/types";
 import {
   createMoodEntryWorkflow,
   type MoodEntryWorkflowRepository,
@@ -37,6 +37,7 @@ describe("createMoodEntryWorkflow", () => {
       create: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
+      restore: vi.fn(),
       updateTimestamp: vi.fn(),
     };
     applyMutation = vi.fn((nextMoods: MoodEntry[]) => {
@@ -100,27 +101,35 @@ describe("createMoodEntryWorkflow", () => {
     expect(refreshAfterMutation).toHaveBeenCalledTimes(1);
   });
 
-  it("restores a Mood Entry through the create path", async () => {
-    const restored = makeMood(2, 200);
-    vi.mocked(repository.create).mockResolvedValue(restored);
+  it("restores a Mood Entry from the trash under its original id", async () => {
+    const newer = makeMood(2, 300);
+    const restored = makeMood(1, 200);
+    moods = [newer];
+    vi.mocked(repository.restore).mockResolvedValue(restored);
 
-    await expect(
-      workflow().restore({ mood: 4, timestamp: 200 } satisfies MoodEntryInput)
-    ).resolves.toEqual(restored);
+    await expect(workflow().restore(1)).resolves.toEqual(restored);
 
-    expect(moods).toEqual([restored]);
+    expect(repository.restore).toHaveBeenCalledWith(1);
+    expect(repository.create).not.toHaveBeenCalled();
+    expect(moods).toEqual([newer, restored]);
     expect(refreshAfterMutation).toHaveBeenCalledTimes(1);
   });
 
   it("undoes delete through the restore workflow", async () => {
     const restored = makeMood(3, 300);
-    vi.mocked(repository.create).mockResolvedValue(restored);
+    vi.mocked(repository.restore).mockResolvedValue(restored);
 
-    await expect(
-      workflow().undoDelete({ mood: 4, timestamp: 300 } satisfies MoodEntryInput)
-    ).resolves.toEqual(restored);
+    await expect(workflow().undoDelete(3)).resolves.toEqual(restored);
 
     expect(moods).toEqual([restored]);
     expect(refreshAfterMutation).toHaveBeenCalledTimes(1);
   });
+
+  it("leaves the store alone when the entry was already purged", async () => {
+    vi.mocked(repository.restore).mockResolvedValue(undefined);
+
+    await expect(workflow().restore(4)).resolves.toBeNull();
+
+    expect(applyMutation).not.toHaveBeenCalled();
+  });
 });
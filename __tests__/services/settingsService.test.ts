@@ -13,6 +13,8 @@ import {
   EMOTION_PRESETS_KEY,
   HISTORY_CARD_STYLE_KEY,
   QUICK_ENTRY_PREFS_KEY,
+  SAVED_FILTER_VIEWS_KEY,
+  SAVED_PLACES_KEY,
 } from "../../src/shared/storage/keys";
 
 describe("settingsService", () => {
@@ -46,4 +48,41 @@ describe("settingsService", () => {
       },
     });
   });
+
+  it("keeps location tagging off and drops malformed saved places", async () => {
+    await AsyncStorage.setItem(
+      SAVED_PLACES_KEY,
+      JSON.stringify([{ id: "home", name: "Home" }, { name: "No id" }])
+    );
+
+    await expect(settingsService.load()).resolves.toMatchObject({
+      locationTaggingEnabled: false,
+      savedPlaces: [{ id: "home", name: "Home", latitude: null, longitude: null }],
+    });
+  });
+
+  it("round-trips saved filter views and drops ones without criteria", async () => {
+    await settingsService.setSavedViews([
+      {
+        id: "work",
+        name: "Bad work days",
+        query: { contextTags: { tags: ["Work"], match: "any" }, mood: { min: 7 } },
+      },
+    ]);
+    const stored = JSON.parse((await AsyncStorage.getItem(SAVED_FILTER_VIEWS_KEY)) ?? "[]");
+    await AsyncStorage.setItem(
+      SAVED_FILTER_VIEWS_KEY,
+      JSON.stringify([...stored, { id: "empty", name: "Everything", query: {} }])
+    );
+
+    await expect(settingsService.load()).resolves.toMatchObject({
+      savedViews: [
+        {
+          id: "work",
+          name: "Bad work days",
+          query: { contextTags: { tags: ["Work"], match: "any" }, mood: { min: 7 } },
+        },
+      ],
+    });
+  });
 });
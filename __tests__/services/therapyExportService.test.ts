@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 
+import { DEFAULT_THERAPY_EXPORT_PREFS } from "../../src/lib/entrySettings";
 import { buildTherapyExportCsv } from "../../src/services/therapyExportService";
 import { createMockMoodEntry } from "../db/mockClient";
 
@@ -39,4 +40,75 @@ describe("therapyExportService", () => {
 
     expect(csv).toContain('"Joy, ""big""","Line 1\nLine 2"');
   });
+
+  it("marks edited entries with their original values", () => {
+    const revisedAt = 1705323600000;
+    const csv = buildTherapyExportCsv(
+      [
+        createMockMoodEntry({ id: 1, mood: 7, note: "Rested" }),
+        createMockMoodEntry({ id: 2, mood: 5 }),
+      ],
+      ["mood", "edits"],
+      new Map([
+        [
+          1,
+          [
+            {
+              id: 1,
+              moodId: 1,
+              revisedAt,
+              changes: [
+                { field: "mood" as const, from: 5, to: 7 },
+                { field: "note" as const, from: "Tired", to: "Rested" },
+              ],
+            },
+          ],
+        ],
+      ])
+    );
+    const [header, edited, unedited] = csv.split("\n");
+    const editedAt = new Date(revisedAt).toLocaleString();
+
+    expect(header.endsWith(",Edited,Edit History")).toBe(true);
+    expect(edited).toContain(
+      `Yes,"${editedAt}: Mood 5 (Neutral) -> 7 (Struggling); Note ""Tired"" -> ""Rested"""`
+    );
+    expect(unedited.endsWith(",No,")).toBe(true);
+  });
+
+  it("lists baseline shifts and unusual days after the entries", () => {
+    const start = new Date(2024, 0, 1, 12).getTime();
+    const dayMs = 24 * 60 * 60 * 1000;
+    const entries = Array.from({ length: 40 }, (_, day) =>
+      createMockMoodEntry({
+        id: day + 1,
+        mood: day < 20 ? 3 + (day % 2) : 7 + (day % 2),
+        timestamp: start + day * dayMs,
+      })
+    );
+    const lines = buildTherapyExportCsv(entries, ["mood", "baseline"]).split("\n");
+
+    expect(lines.slice(41)).toEqual([
+      "",
+      "Moodinator Baseline Summary",
+      "Type,Details",
+      'Mood Scale,"Daily averages on the current scale (0-10, lower is better)"',
+      "Baseline shift,\"Since Jan 21, 2024 the daily average moved from 3.5 to 7.5\"",
+    ]);
+  });
+
+  it("includes the baseline summary by default", () => {
+    const csv = buildTherapyExportCsv(
+      [createMockMoodEntry({ mood: 4 })],
+      DEFAULT_THERAPY_EXPORT_PREFS.fields
+    );
+
+    expect(csv).toContain("\nMoodinator Baseline Summary\n");
+  });
+
+  it("leaves the baseline summary out unless selected", () => {
+    const csv = buildTherapyExportCsv([createMockMoodEntry({ mood: 4 })], ["mood"]);
+
+    expect(csv).not.toContain("Moodinator Baseline Summary");
+  });
 });
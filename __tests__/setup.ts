@@ -21,10 +21,99 @@ vi.mock("@react-native-async-storage/async-storage", () => {
   };
 });
 
+// expo-crypto's digest is native; node:crypto computes the same SHA-256.
+vi.mock("expo-crypto", async () => {
+  const { createHash, randomUUID } = await import("node:crypto");
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    digest: async (_algorithm: string, data: Uint8Array) =>
+      new Uint8Array(createHash("sha256").update(data).digest()).buffer,
+    randomUUID,
+  };
+});
+
 vi.mock("expo-sqlite", () => ({
   openDatabaseAsync: vi.fn(),
 }));
 
+// In-memory file system. Tests can inspect it through `__files` and seed
+// modification times with `__setModificationTime`.
+vi.mock("expo-file-system/legacy", () => {
+  const files = new Map<string, { content: string; modificationTime: number }>();
+  const directories = new Set<string>();
+  const nowInSeconds = () => Date.now() / 1000;
+
+  const isInDirectory = (uri: string, dir: string) =>
+    uri.startsWith(dir.endsWith("/") ? dir : `${dir}/`);
+
+  return {
+    documentDirectory: "file:///documents/",
+    cacheDirectory: "file:///cache/",
+    EncodingType: { UTF8: "utf8", Base64: "base64" },
+    getInfoAsync: vi.fn(async (uri: string) => {
+      const file = files.get(uri);
+      if (file) {
+        return { exists: true, isDirectory: false, uri, modificationTime: file.modificationTime };
+      }
+      if (directories.has(uri) || [...files.keys()].some((fileUri) => isInDirectory(fileUri, uri))) {
+        return { exists: true, isDirectory: true, uri, modificationTime: nowInSeconds() };
+      }
+      return { exists: false, isDirectory: false, uri };
+    }),
+    makeDirectoryAsync: vi.fn(async (uri: string) => {
+      directories.add(uri);
+    }),
+    readDirectoryAsync: vi.fn(async (uri: string) =>
+      [...files.keys()]
+        .filter((fileUri) => isInDirectory(fileUri, uri))
+        .map((fileUri) => fileUri.slice(uri.length))
+    ),
+    readAsStringAsync: vi.fn(async (uri: string) => {
+      const file = files.get(uri);
+      if (!file) {
+        throw new Error(`File not found: ${uri}`);
+      }
+      return file.content;
+    }),
+    writeAsStringAsync: vi.fn(async (uri: string, content: string) => {
+      files.set(uri, { content, modificationTime: nowInSeconds() });
+    }),
+    moveAsync: vi.fn(async ({ from, to }: { from: string; to: string }) => {
+      const file = files.get(from);
+      if (!file) {
+        throw new Error(`File not found: ${from}`);
+      }
+      files.delete(from);
+      files.set(to, file);
+    }),
+    deleteAsync: vi.fn(async (uri: string) => {
+      files.delete(uri);
+      directories.delete(uri);
+      for (const fileUri of [...files.keys()]) {
+        if (isInDirectory(fileUri, uri)) {
+          files.delete(fileUri);
+        }
+      }
+    }),
+    StorageAccessFramework: {
+      requestDirectoryPermissionsAsync: vi.fn(async () => ({ granted: false })),
+      createFileAsync: vi.fn(),
+      readDirectoryAsync: vi.fn(async () => []),
+    },
+    __files: files,
+    __setModificationTime: (uri: string, modificationTime: number) => {
+      const file = files.get(uri);
+      if (file) {
+        file.modificationTime = modificationTime;
+      }
+    },
+    __reset: () => {
+      files.clear();
+      directories.clear();
+    },
+  };
+});
+
 beforeEach(() => {
   vi.clearAllMocks();
 });
@@ -5,6 +5,7 @@ const moodServiceMock = vi.hoisted(() => ({
   create: vi.fn(),
   update: vi.fn(),
   delete: vi.fn(),
+  restore: vi.fn(),
   updateTimestamp: vi.fn(),
   getAll: vi.fn(),
   getPaginated: vi.fn(),
@@ -170,17 +171,14 @@ describe("useMoodsStore", () => {
     const restored = makeMood(2, 200);
     let resolveRefresh: ((value: MoodEntry[]) => void) | null = null;
 
-    moodServiceMock.create.mockResolvedValue(restored);
+    moodServiceMock.restore.mockResolvedValue(restored);
     moodServiceMock.getAll.mockReturnValue(
       new Promise<MoodEntry[]>((resolve) => {
         resolveRefresh = resolve;
       })
     );
 
-    const result = await useMoodsStore.getState().restore({
-      mood: restored.mood,
-      note: restored.note,
-    });
+    const result = await useMoodsStore.getState().restore(restored.id);
     await flushMicrotasks();
 
     expect(result).toEqual(restored);
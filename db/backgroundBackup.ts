@@ -2,7 +2,9 @@ import * as BackgroundTask from "expo-background-task";
 import Constants from "expo-constants";
 import * as TaskManager from "expo-task-manager";
 import { Platform } from "react-native";
-import { createBackup, isBackupNeeded } from "./backup";
+import { createBackup, getBackupPolicy, isBackupNeeded, recordBackupFailure } from "./backup";
+import { appendBackupLog } from "./backupLog";
+import { getBackgroundTaskIntervalMinutes } from "./backupPolicy";
 
 export const BACKGROUND_BACKUP_TASK = "MOODINATOR_WEEKLY_BACKUP";
 
@@ -16,13 +18,15 @@ export async function runBackgroundBackupTask(): Promise<BackgroundTask.Backgrou
 
     if (!(await isBackupNeeded())) {
       console.log("[BackgroundBackup] Backup not needed yet");
+      // Logged so the history shows the task still runs when nothing is due
+      await appendBackupLog({ operation: "backup", trigger: "background", result: "skipped" });
       return BackgroundTask.BackgroundTaskResult.Success;
     }
 
     console.log("[BackgroundBackup] Creating backup...");
-    // createBackup() runs cleanupOldBackups() internally on success, so no
-    // extra cleanup call here.
-    const result = await createBackup();
+    // createBackup() runs cleanupOldBackups() internally on success and
+    // logs its own outcome, so no extra cleanup call here.
+    const result = await createBackup("background");
 
     if (!result.success) {
       console.error("[BackgroundBackup] Backup failed:", result.error);
@@ -33,6 +37,12 @@ export async function runBackgroundBackupTask(): Promise<BackgroundTask.Backgrou
     return BackgroundTask.BackgroundTaskResult.Success;
   } catch (error) {
     console.error("[BackgroundBackup] Task error:", error);
+    // Surface the failure in the backup health status and log, not just the console
+    const message = error instanceof Error ? error.message : String(error);
+    await Promise.all([
+      recordBackupFailure(message),
+      appendBackupLog({ operation: "backup", trigger: "background", result: "failure", error: message }),
+    ]);
     return BackgroundTask.BackgroundTaskResult.Failed;
   }
 }
@@ -42,7 +52,7 @@ TaskManager.defineTask(BACKGROUND_BACKUP_TASK, runBackgroundBackupTask);
 /**
  * Registers the periodic background backup task. The OS decides when it
  * actually fires — minimumInterval is a hint, not a guarantee. The task itself
- * throttles via isBackupNeeded so backups happen at most weekly.
+ * throttles via isBackupNeeded so backups follow the saved backup frequency.
  * Call this once when the app initializes.
  */
 export async function registerBackgroundBackupTask(): Promise<void> {
@@ -61,11 +71,12 @@ export async function registerBackgroundBackupTask(): Promise<void> {
     }
 
     // Register the background task
-    // minimumInterval is in MINUTES. Set to 24 hours (1440 minutes).
-    // The actual interval depends on OS scheduling. The task will check if a week has passed.
+    // minimumInterval is in MINUTES: 12 hours for daily backups, otherwise 24 hours.
+    // The actual interval depends on OS scheduling. The task will check if a backup is due.
     // Note: iOS minimum is 15 minutes, but system often runs tasks during specific windows (e.g., overnight)
+    const policy = await getBackupPolicy();
     await BackgroundTask.registerTaskAsync(BACKGROUND_BACKUP_TASK, {
-      minimumInterval: 60 * 24, // 24 hours in minutes (OS may call less frequently)
+      minimumInterval: getBackgroundTaskIntervalMinutes(policy.frequency),
     });
 
     console.log("[BackgroundBackup] Task registered successfully");
@@ -93,6 +104,14 @@ export async function unregisterBackgroundBackupTask(): Promise<void> {
   }
 }
 
+/**
+ * Re-registers the task so a changed backup frequency updates its interval.
+ */
+export async function rescheduleBackgroundBackupTask(): Promise<void> {
+  await unregisterBackgroundBackupTask();
+  await registerBackgroundBackupTask();
+}
+
 /**
  * Gets the current status of the background task.
  */
@@ -1,23 +1,115 @@
+import * as Crypto from "expo-crypto";
 import * as FileSystem from "expo-file-system/legacy";
 import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { exportMoods } from "./db";
 import {
-  BACKUP_INTERVAL_MS,
+  exportIncrementalMoods,
+  exportMoods,
+  getMoodChangeSequence,
+  getMoodChangesSince,
+  getMoodCount,
+  pruneMoodChanges,
+  summarizeMoodExport,
+  type MoodExportOptions,
+  type MoodExportSummary,
+} from "./db";
+import {
+  checkMoodExportIntegrity,
+  isIncrementalBackup,
+  parseIncrementalBackup,
+  parseMoodExport,
+  type MoodExportIntegrityStatus,
+} from "./moods/exportFormat";
+import {
+  decryptBackupWithKey,
+  encryptBackup,
+  isEncryptedBackup,
+  type BackupKeyMaterial,
+} from "./backupCrypto";
+import { getBackupEncryptionKey } from "./backupEncryption";
+import { appendBackupLog, type BackupTrigger } from "./backupLog";
+import {
+  assessBackupHealth,
+  canBackupIncrementally,
+  findBaseBackup,
   getBackupFilename,
+  isBackupDue,
   parseBackupFilename,
+  parseBackupPolicy,
   parseBackupUri,
   selectBackupsForDeletion,
   sortBackupsNewestFirst,
   type BackupFileSummary,
+  type BackupHealth,
+  type BackupKind,
+  type BackupPolicy,
 } from "./backupPolicy";
 
 export type BackupResult<T> =
   | { success: true; data: T }
   | { success: false; error: string };
 
+export type BackupVerification = {
+  /** False when the file can't be read or its checksum doesn't match. */
+  ok: boolean;
+  encrypted: boolean;
+  entryCount: number | null;
+  /** `unverified` when an encrypted file can't be opened with the saved key. */
+  checksum: MoodExportIntegrityStatus | "unverified";
+  error: string | null;
+};
+
+export type BackupListItem = BackupFileSummary & {
+  size: number;
+  encrypted: boolean;
+  /** `null` when the file is encrypted or could not be read. */
+  contents: MoodExportSummary | null;
+  error: string | null;
+};
+
+type BackupExportOptionsProvider = () => Promise<MoodExportOptions>;
+
+let exportOptionsProvider: BackupExportOptionsProvider | null = null;
+
+/**
+ * Lets the app layer add its version and configuration (presets, reminders)
+ * to every backup. The app registers it when its entry module loads, so
+ * background backups get it too. Without a provider, backups carry entries
+ * only.
+ */
+export function setBackupExportOptionsProvider(provider: BackupExportOptionsProvider | null): void {
+  exportOptionsProvider = provider;
+}
+
+async function getBackupExportOptions(): Promise<MoodExportOptions> {
+  if (!exportOptionsProvider) {
+    return {};
+  }
+  try {
+    return await exportOptionsProvider();
+  } catch (error) {
+    console.warn("Could not collect settings for backup:", error);
+    return {};
+  }
+}
+
 const LAST_BACKUP_KEY = "lastBackupTimestamp";
 const BACKUP_FOLDER_KEY = "backupFolderUri"; // User-selected backup folder URI
+const BACKUP_POLICY_KEY = "backupPolicy";
+const LAST_BACKUP_FAILURE_KEY = "lastBackupFailure";
+const INCREMENTAL_BASE_KEY = "incrementalBackupBase";
+const BACKUP_SUMMARIES_KEY = "backupSummaries";
+
+/** The full backup the next incremental backup builds on. */
+type IncrementalBackupBase = {
+  backupId: string;
+  filename: string;
+  /** Change log sequence read just before the full backup was exported. */
+  changeSeq: number;
+  incrementalCount: number;
+  /** Salt of the encryption key used, so a passphrase change starts a new chain. */
+  keySalt: string | null;
+};
 
 // Default backup directory (fallback if user hasn't selected one).
 // Use documentDirectory so automatic backups are durable and survive OS cache eviction.
@@ -125,6 +217,26 @@ export async function getBackupFolder(): Promise<string | null> {
   }
 }
 
+/**
+ * Gets the backup frequency and retention, or the defaults if none is saved
+ */
+export async function getBackupPolicy(): Promise<BackupPolicy> {
+  try {
+    const stored = await AsyncStorage.getItem(BACKUP_POLICY_KEY);
+    return parseBackupPolicy(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    console.error("Error getting backup policy:", error);
+    return parseBackupPolicy(null);
+  }
+}
+
+/**
+ * Saves the backup frequency and retention
+ */
+export async function setBackupPolicy(policy: BackupPolicy): Promise<void> {
+  await AsyncStorage.setItem(BACKUP_POLICY_KEY, JSON.stringify(parseBackupPolicy(policy)));
+}
+
 /**
  * Ensures the backup directory exists
  */
@@ -187,6 +299,170 @@ async function getLastBackupTimestamp(): Promise<number | null> {
   }
 }
 
+async function getLastBackupFailure(): Promise<BackupHealth["lastFailure"]> {
+  try {
+    const stored = await AsyncStorage.getItem(LAST_BACKUP_FAILURE_KEY);
+    if (!stored) {
+      return null;
+    }
+    const parsed = JSON.parse(stored) as { at?: unknown; error?: unknown };
+    return typeof parsed.at === "number" && typeof parsed.error === "string"
+      ? { at: parsed.at, error: parsed.error }
+      : null;
+  } catch (error) {
+    console.error("Error getting last backup failure:", error);
+    return null;
+  }
+}
+
+/**
+ * Records a failed backup attempt so the health status can report it
+ */
+export async function recordBackupFailure(error: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      LAST_BACKUP_FAILURE_KEY,
+      JSON.stringify({ at: Date.now(), error })
+    );
+  } catch (storageError) {
+    console.error("Error recording backup failure:", storageError);
+  }
+}
+
+async function clearBackupFailure(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(LAST_BACKUP_FAILURE_KEY);
+  } catch (error) {
+    console.error("Error clearing backup failure:", error);
+  }
+}
+
+async function getIncrementalBackupBase(): Promise<IncrementalBackupBase | null> {
+  try {
+    const stored = await AsyncStorage.getItem(INCREMENTAL_BASE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as Partial<IncrementalBackupBase>) : null;
+    if (
+      !parsed ||
+      typeof parsed.backupId !== "string" ||
+      typeof parsed.filename !== "string" ||
+      typeof parsed.changeSeq !== "number" ||
+      typeof parsed.incrementalCount !== "number"
+    ) {
+      return null;
+    }
+    return {
+      backupId: parsed.backupId,
+      filename: parsed.filename,
+      changeSeq: parsed.changeSeq,
+      incrementalCount: parsed.incrementalCount,
+      keySalt: typeof parsed.keySalt === "string" ? parsed.keySalt : null,
+    };
+  } catch (error) {
+    console.error("Error reading incremental backup state:", error);
+    return null;
+  }
+}
+
+async function setIncrementalBackupBase(base: IncrementalBackupBase): Promise<void> {
+  await AsyncStorage.setItem(INCREMENTAL_BASE_KEY, JSON.stringify(base));
+}
+
+/** What the backup list shows for a file, cached so the list doesn't read every backup. */
+type CachedBackupSummary = Pick<BackupListItem, "encrypted" | "contents">;
+
+async function getBackupSummaryCache(): Promise<Record<string, CachedBackupSummary>> {
+  try {
+    const stored = await AsyncStorage.getItem(BACKUP_SUMMARIES_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return typeof parsed === "object" && parsed !== null
+      ? (parsed as Record<string, CachedBackupSummary>)
+      : {};
+  } catch (error) {
+    console.error("Error reading backup summaries:", error);
+    return {};
+  }
+}
+
+async function setBackupSummaryCache(cache: Record<string, CachedBackupSummary>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(BACKUP_SUMMARIES_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error("Error saving backup summaries:", error);
+  }
+}
+
+async function cacheBackupSummary(filename: string, summary: CachedBackupSummary): Promise<void> {
+  const cache = await getBackupSummaryCache();
+  await setBackupSummaryCache({ ...cache, [filename]: summary });
+}
+
+type PreparedBackup = {
+  kind: BackupKind;
+  exportData: string;
+  /** Records the backup in the incremental chain once it is written and verified. */
+  commit: (filename: string) => Promise<void>;
+};
+
+/**
+ * Exports an incremental backup when the policy and the chain allow it,
+ * otherwise a full backup that later incremental ones can build on.
+ */
+async function prepareBackup(
+  allowIncremental: boolean,
+  encryptionKey: BackupKeyMaterial | null
+): Promise<PreparedBackup> {
+  const [policy, base, exportOptions] = await Promise.all([
+    getBackupPolicy(),
+    getIncrementalBackupBase(),
+    getBackupExportOptions(),
+  ]);
+  const keySalt = encryptionKey?.kdf.salt ?? null;
+
+  if (allowIncremental && policy.incremental && base && base.keySalt === keySalt) {
+    const [changes, totalCount, files] = await Promise.all([
+      getMoodChangesSince(base.changeSeq),
+      getMoodCount(),
+      getBackupFiles(),
+    ]);
+    if (
+      canBackupIncrementally({
+        policy,
+        baseAvailable: files.some((file) => file.filename === base.filename),
+        incrementalCount: base.incrementalCount,
+        changedCount: changes.moodIds.length,
+        totalCount,
+      })
+    ) {
+      return {
+        kind: "incremental",
+        exportData: await exportIncrementalMoods(base.backupId, changes.moodIds, {
+          ...exportOptions,
+          checksum: true,
+        }),
+        commit: () =>
+          setIncrementalBackupBase({ ...base, incrementalCount: base.incrementalCount + 1 }),
+      };
+    }
+  }
+
+  // Read before exporting: a change made during the export is then also in
+  // the next incremental backup, which is harmless, rather than in neither.
+  const changeSeq = await getMoodChangeSequence();
+  const backupId = Crypto.randomUUID();
+  return {
+    kind: "full",
+    exportData: await exportMoods(undefined, undefined, {
+      ...exportOptions,
+      checksum: true,
+      backupId,
+    }),
+    commit: async (filename) => {
+      await setIncrementalBackupBase({ backupId, filename, changeSeq, incrementalCount: 0, keySalt });
+      await pruneMoodChanges(changeSeq);
+    },
+  };
+}
+
 /**
  * Sets the timestamp of the last backup
  */
@@ -201,8 +477,38 @@ async function setLastBackupTimestamp(timestamp: number): Promise<void> {
 /**
  * Creates a new backup of all mood data
  * Saves to user-selected backup folder (or default if not selected)
+ * and records the outcome in the backup log and health status
  */
-export async function createBackup(): Promise<BackupResult<string>> {
+export async function createBackup(
+  trigger: BackupTrigger = "manual"
+): Promise<BackupResult<string>> {
+  // The safety backup before a restore stands on its own.
+  const result = await writeBackup(trigger !== "pre-restore");
+  if (!result.success) {
+    await Promise.all([
+      recordBackupFailure(result.error),
+      appendBackupLog({ operation: "backup", trigger, result: "failure", error: result.error }),
+    ]);
+    return result;
+  }
+
+  const { uri, filename, entryCount } = result.data;
+  await appendBackupLog({ operation: "backup", trigger, result: "success", fileName: filename, entryCount });
+  // Cleaning up after a safety backup could delete the very backup the user
+  // is about to restore, so only regular backups rotate old ones out.
+  if (trigger === "pre-restore") {
+    return { success: true, data: uri };
+  }
+  const deletedCount = await cleanupOldBackups(trigger);
+  if (deletedCount > 0) {
+    console.log(`Cleaned up ${deletedCount} old backup(s)`);
+  }
+  return { success: true, data: uri };
+}
+
+async function writeBackup(
+  allowIncremental: boolean
+): Promise<BackupResult<{ uri: string; filename: string; entryCount: number | null }>> {
   try {
     // On Android, enforce user-selected folder
     if (Platform.OS === "android") {
@@ -226,10 +532,14 @@ export async function createBackup(): Promise<BackupResult<string>> {
     }
 
     const timestamp = Date.now();
-    const filename = getBackupFilename(timestamp);
 
-    // Export all mood data
-    const jsonData = await exportMoods();
+    // Export the mood data, encrypted when the user has set a backup passphrase
+    const encryptionKey = await getBackupEncryptionKey();
+    const prepared = await prepareBackup(allowIncremental, encryptionKey);
+    const filename = getBackupFilename(timestamp, prepared.kind);
+    const jsonData = encryptionKey
+      ? await encryptBackup(prepared.exportData, encryptionKey)
+      : prepared.exportData;
 
     let fileUri: string;
 
@@ -276,16 +586,38 @@ export async function createBackup(): Promise<BackupResult<string>> {
       });
     }
 
+    // Read the file back so a truncated or unreadable write is caught now,
+    // not when the backup is needed
+    const verification = await verifyBackup(fileUri);
+    if (!verification.ok) {
+      await deleteBackupFile(fileUri);
+      return {
+        success: false,
+        error: `Backup could not be verified after writing: ${verification.error ?? "checksum mismatch"}`,
+      };
+    }
+
+    try {
+      await prepared.commit(filename);
+    } catch (error) {
+      // The chain stays on the previous full backup, which is still valid.
+      console.error("Error recording incremental backup state:", error);
+    }
+
+    await cacheBackupSummary(filename, {
+      encrypted: encryptionKey !== null,
+      contents: encryptionKey ? null : summarizeMoodExport(prepared.exportData),
+    });
+
     // Update last backup timestamp
     await setLastBackupTimestamp(timestamp);
+    await clearBackupFailure();
 
     console.log(`Backup created: ${filename} at ${fileUri}`);
-    // Clean up old backups after creating a new one
-    const deletedCount = await cleanupOldBackups();
-    if (deletedCount > 0) {
-      console.log(`Cleaned up ${deletedCount} old backup(s)`);
-    }
-    return { success: true, data: fileUri };
+    return {
+      success: true,
+      data: { uri: fileUri, filename, entryCount: verification.entryCount },
+    };
   } catch (error) {
     console.error("Error creating backup:", error);
     return {
@@ -296,22 +628,15 @@ export async function createBackup(): Promise<BackupResult<string>> {
 }
 
 /**
- * Checks if a backup is needed (if it's been more than a week since last backup)
+ * Checks if a backup is due under the saved backup frequency
  */
 export async function isBackupNeeded(): Promise<boolean> {
   try {
-    const lastBackup = await getLastBackupTimestamp();
-
-    if (!lastBackup) {
-      // No backup exists, create one
-      return true;
-    }
-
-    const now = Date.now();
-    const timeSinceLastBackup = now - lastBackup;
-
-    // If it's been more than the backup interval, create a new backup
-    return timeSinceLastBackup >= BACKUP_INTERVAL_MS;
+    const [lastBackup, policy] = await Promise.all([
+      getLastBackupTimestamp(),
+      getBackupPolicy(),
+    ]);
+    return isBackupDue(lastBackup, policy.frequency);
   } catch (error) {
     console.error("Error checking if backup is needed:", error);
     return false;
@@ -416,16 +741,24 @@ async function getBackupFiles(): Promise<BackupFileSummary[]> {
   }
 }
 
+async function deleteBackupFile(uri: string): Promise<void> {
+  // Handle SAF URIs
+  if (uri.startsWith("content://")) {
+    await FileSystem.StorageAccessFramework.deleteAsync(uri);
+  } else {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+}
+
 /**
  * Cleans up old backups
- * Keeps only the most recent WEEKS_TO_KEEP backups
- * Also deletes backups older than the cutoff date
+ * Deletes the backups that fall outside the saved retention policy
  */
-export async function cleanupOldBackups(): Promise<number> {
+export async function cleanupOldBackups(trigger: BackupTrigger = "manual"): Promise<number> {
   try {
-    const backupFiles = await getBackupFiles();
+    const [backupFiles, policy] = await Promise.all([getBackupFiles(), getBackupPolicy()]);
 
-    const filesToDelete = selectBackupsForDeletion(backupFiles);
+    const filesToDelete = selectBackupsForDeletion(backupFiles, policy.retention);
 
     if (filesToDelete.length === 0) {
       return 0;
@@ -435,22 +768,36 @@ export async function cleanupOldBackups(): Promise<number> {
 
     for (const file of filesToDelete) {
       try {
-        // Handle SAF URIs
-        if (file.uri.startsWith("content://")) {
-          await FileSystem.StorageAccessFramework.deleteAsync(file.uri);
-        } else {
-          await FileSystem.deleteAsync(file.uri, { idempotent: true });
-        }
+        await deleteBackupFile(file.uri);
         deletedCount++;
         console.log(`Deleted old backup: ${file.filename}`);
+        await appendBackupLog({
+          operation: "cleanup",
+          trigger,
+          result: "success",
+          fileName: file.filename,
+        });
       } catch (error) {
         console.error(`Error deleting backup ${file.filename}:`, error);
+        await appendBackupLog({
+          operation: "cleanup",
+          trigger,
+          result: "failure",
+          fileName: file.filename,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
     }
 
     return deletedCount;
   } catch (error) {
     console.error("Error cleaning up old backups:", error);
+    await appendBackupLog({
+      operation: "cleanup",
+      trigger,
+      result: "failure",
+      error: error instanceof Error ? error.message : String(error),
+    });
     return 0;
   }
 }
@@ -540,3 +887,167 @@ export async function getBackupInfo(): Promise<{
     };
   }
 }
+
+async function getBackupFileSize(uri: string): Promise<number> {
+  try {
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    return fileInfo.exists && "size" in fileInfo ? fileInfo.size : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Reads the raw contents of a backup file, which may be encrypted.
+ */
+export async function readBackupFile(uri: string): Promise<string> {
+  return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+}
+
+/**
+ * Lists every backup newest first with what it holds. Summaries are cached
+ * per file, so only backups not seen before are read. Encrypted backups can
+ * only be described after they are unlocked.
+ */
+export async function listBackups(): Promise<BackupListItem[]> {
+  const [backupFiles, cache] = await Promise.all([getBackupFiles(), getBackupSummaryCache()]);
+  const nextCache: Record<string, CachedBackupSummary> = {};
+  const items: BackupListItem[] = [];
+
+  for (const file of backupFiles) {
+    const size = await getBackupFileSize(file.uri);
+    const cached = cache[file.filename];
+    if (cached) {
+      nextCache[file.filename] = cached;
+      items.push({ ...file, size, ...cached, error: null });
+      continue;
+    }
+    try {
+      const content = await readBackupFile(file.uri);
+      const encrypted = isEncryptedBackup(content);
+      const summary = {
+        encrypted,
+        contents: encrypted ? null : summarizeMoodExport(content),
+      };
+      nextCache[file.filename] = summary;
+      items.push({ ...file, size, ...summary, error: null });
+    } catch (error) {
+      items.push({
+        ...file,
+        size,
+        encrypted: false,
+        contents: null,
+        error: error instanceof Error ? error.message : "Backup could not be read",
+      });
+    }
+  }
+
+  // Also drops summaries of backups that were deleted or cleaned up.
+  await setBackupSummaryCache(nextCache);
+  return items;
+}
+
+/**
+ * Reads what restoring a backup needs: the file itself for a full backup, or
+ * its full backup followed by it for an incremental one. Incremental backups
+ * hold every change since their full backup, so the ones in between aren't
+ * needed.
+ */
+export async function readBackupChain(uri: string): Promise<string[]> {
+  const files = await getBackupFiles();
+  const target = files.find((file) => file.uri === uri);
+  if (!target || target.kind === "full") {
+    return [await readBackupFile(uri)];
+  }
+  const base = findBaseBackup(target, files);
+  if (!base) {
+    throw new Error("The full backup this incremental backup builds on is missing, so it cannot be restored.");
+  }
+  return [await readBackupFile(base.uri), await readBackupFile(uri)];
+}
+
+async function verifyBackupContent(content: string): Promise<BackupVerification> {
+  const encrypted = isEncryptedBackup(content);
+  let jsonData = content;
+  if (encrypted) {
+    const key = await getBackupEncryptionKey();
+    if (!key) {
+      return {
+        ok: true,
+        encrypted,
+        entryCount: null,
+        checksum: "unverified",
+        error: "Backup encryption is off, so this backup can only be checked with its passphrase.",
+      };
+    }
+    try {
+      jsonData = await decryptBackupWithKey(content, key);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Backup could not be decrypted";
+      // A backup made with an earlier passphrase is not damaged, just not checkable here.
+      const otherPassphrase = message.includes("different passphrase");
+      return {
+        ok: otherPassphrase,
+        encrypted,
+        entryCount: null,
+        checksum: "unverified",
+        error: message,
+      };
+    }
+  }
+
+  try {
+    const json: unknown = JSON.parse(jsonData);
+    const parsed = isIncrementalBackup(json) ? parseIncrementalBackup(json) : parseMoodExport(json);
+    const checksum = await checkMoodExportIntegrity(parsed);
+    return {
+      ok: checksum !== "mismatch",
+      encrypted,
+      entryCount: parsed.entries.length,
+      checksum,
+      error: checksum === "mismatch" ? "Checksum does not match the backup's entries" : null,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      encrypted,
+      entryCount: null,
+      checksum: "unverified",
+      error: error instanceof Error ? error.message : "Backup could not be read",
+    };
+  }
+}
+
+/**
+ * Reads a backup back and checks it: that it parses, how many entries it
+ * holds and whether they match its embedded checksum. Encrypted backups are
+ * opened with the saved backup key when it matches.
+ */
+export async function verifyBackup(uri: string): Promise<BackupVerification> {
+  let content: string;
+  try {
+    content = await readBackupFile(uri);
+  } catch (error) {
+    return {
+      ok: false,
+      encrypted: false,
+      entryCount: null,
+      checksum: "unverified",
+      error: error instanceof Error ? error.message : "Backup could not be read",
+    };
+  }
+  return verifyBackupContent(content);
+}
+
+/**
+ * Gets the backup health: when the last backup succeeded, whether a newer
+ * attempt failed, and whether backups are overdue under the saved frequency.
+ */
+export async function getBackupHealth(): Promise<BackupHealth> {
+  const [lastSuccessAt, lastFailure, policy] = await Promise.all([
+    getLastBackupTimestamp(),
+    getLastBackupFailure(),
+    getBackupPolicy(),
+  ]);
+  return assessBackupHealth(lastSuccessAt, lastFailure, policy.frequency);
+}
@@ -0,0 +1,220 @@
+import {
+  AESEncryptionKey,
+  AESSealedData,
+  aesDecryptAsync,
+  aesEncryptAsync,
+  getRandomBytes,
+} from "expo-crypto";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  hmacSha256,
+  pbkdf2Sha256,
+  utf8Decode,
+  utf8Encode,
+} from "./hashing";
+
+export const ENCRYPTED_BACKUP_FORMAT = "moodinator-encrypted-backup";
+export const ENCRYPTED_BACKUP_VERSION = 1;
+export const BACKUP_KDF_ITERATIONS = 250_000;
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const KDF_NAME = "PBKDF2-SHA256";
+const CIPHER_NAME = "AES-256-GCM";
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const VERIFIER_LABEL = "moodinator-backup-verifier";
+
+export type BackupKdfParams = {
+  name: typeof KDF_NAME;
+  iterations: number;
+  /** Base64. */
+  salt: string;
+};
+
+/**
+ * Unencrypted header of an encrypted backup. It is bound to the ciphertext
+ * as additional authenticated data, so edited parameters fail decryption.
+ */
+export type EncryptedBackupHeader = {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: BackupKdfParams;
+  cipher: typeof CIPHER_NAME;
+};
+
+export type EncryptedBackupFile = EncryptedBackupHeader & {
+  /** Base64 of the IV, ciphertext and authentication tag. */
+  data: string;
+};
+
+/** A derived key together with the parameters needed to derive it again. */
+export type BackupKeyMaterial = {
+  kdf: BackupKdfParams;
+  key: Uint8Array;
+};
+
+function assertPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters.`
+    );
+  }
+}
+
+/** Derives a backup key from `passphrase`, with a fresh salt unless `kdf` is given. */
+export async function deriveBackupKey(
+  passphrase: string,
+  kdf?: Omit<BackupKdfParams, "name">
+): Promise<BackupKeyMaterial> {
+  const params: BackupKdfParams = {
+    name: KDF_NAME,
+    iterations: kdf?.iterations ?? BACKUP_KDF_ITERATIONS,
+    salt: kdf?.salt ?? bytesToBase64(getRandomBytes(SALT_LENGTH)),
+  };
+  return {
+    kdf: params,
+    key: await pbkdf2Sha256(
+      utf8Encode(passphrase),
+      base64ToBytes(params.salt),
+      params.iterations,
+      KEY_LENGTH
+    ),
+  };
+}
+
+/** Creates a new key for `passphrase`, after checking its length. */
+export async function createBackupKey(passphrase: string): Promise<BackupKeyMaterial> {
+  assertPassphrase(passphrase);
+  return deriveBackupKey(passphrase);
+}
+
+/** A value that confirms a passphrase without revealing the key it derives. */
+export function createBackupKeyVerifier(key: Uint8Array): string {
+  return bytesToBase64(hmacSha256(key, utf8Encode(VERIFIER_LABEL)));
+}
+
+function headerBytes(header: EncryptedBackupHeader): Uint8Array {
+  return utf8Encode(
+    JSON.stringify([
+      header.format,
+      header.version,
+      header.kdf.name,
+      header.kdf.iterations,
+      header.kdf.salt,
+      header.cipher,
+    ])
+  );
+}
+
+export async function encryptBackup(plaintext: string, material: BackupKeyMaterial): Promise<string> {
+  const header: EncryptedBackupHeader = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: material.kdf,
+    cipher: CIPHER_NAME,
+  };
+  const key = await AESEncryptionKey.import(material.key);
+  const sealed = await aesEncryptAsync(utf8Encode(plaintext), key, {
+    additionalData: headerBytes(header),
+  });
+  const file: EncryptedBackupFile = {
+    ...header,
+    data: bytesToBase64(await sealed.combined()),
+  };
+  return JSON.stringify(file);
+}
+
+/** Reads the header of an encrypted backup, or `null` for any other content. */
+export function parseEncryptedBackup(content: string): EncryptedBackupFile | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    return null;
+  }
+  const candidate = parsed as Record<string, unknown>;
+  if (candidate.format !== ENCRYPTED_BACKUP_FORMAT) {
+    return null;
+  }
+  if (typeof candidate.version !== "number" || candidate.version > ENCRYPTED_BACKUP_VERSION) {
+    throw new Error(
+      "This backup was encrypted by a newer version of Moodinator. Update the app to restore it."
+    );
+  }
+  const kdf = candidate.kdf as Record<string, unknown> | undefined;
+  if (
+    candidate.cipher !== CIPHER_NAME ||
+    typeof candidate.data !== "string" ||
+    kdf?.name !== KDF_NAME ||
+    typeof kdf.salt !== "string" ||
+    typeof kdf.iterations !== "number" ||
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < 1
+  ) {
+    throw new Error("Encrypted backup is damaged");
+  }
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: candidate.version,
+    kdf: { name: KDF_NAME, iterations: kdf.iterations, salt: kdf.salt },
+    cipher: CIPHER_NAME,
+    data: candidate.data,
+  };
+}
+
+export function isEncryptedBackup(content: string): boolean {
+  try {
+    return parseEncryptedBackup(content) !== null;
+  } catch {
+    return true;
+  }
+}
+
+async function openBackup(file: EncryptedBackupFile, key: Uint8Array): Promise<string> {
+  try {
+    const sealed = AESSealedData.fromCombined(base64ToBytes(file.data));
+    const plaintext = await aesDecryptAsync(sealed, await AESEncryptionKey.import(key), {
+      additionalData: headerBytes(file),
+    });
+    return utf8Decode(plaintext);
+  } catch {
+    throw new Error("Incorrect passphrase, or the backup is damaged.");
+  }
+}
+
+function requireEncryptedBackup(content: string): EncryptedBackupFile {
+  const file = parseEncryptedBackup(content);
+  if (!file) {
+    throw new Error("File is not an encrypted backup");
+  }
+  return file;
+}
+
+/**
+ * Decrypts a backup with `passphrase`. A wrong passphrase and a tampered file
+ * look the same to authenticated encryption, so both share one error.
+ */
+export async function decryptBackup(content: string, passphrase: string): Promise<string> {
+  const file = requireEncryptedBackup(content);
+  const { key } = await deriveBackupKey(passphrase, file.kdf);
+  return openBackup(file, key);
+}
+
+/**
+ * Decrypts a backup with an already derived key, as long as the backup was
+ * made with the same passphrase and salt.
+ */
+export async function decryptBackupWithKey(
+  content: string,
+  material: BackupKeyMaterial
+): Promise<string> {
+  const file = requireEncryptedBackup(content);
+  if (file.kdf.salt !== material.kdf.salt || file.kdf.iterations !== material.kdf.iterations) {
+    throw new Error("This backup was encrypted with a different passphrase.");
+  }
+  return openBackup(file, material.key);
+}
@@ -0,0 +1,99 @@
+import * as SecureStore from "expo-secure-store";
+import {
+  createBackupKey,
+  createBackupKeyVerifier,
+  deriveBackupKey,
+  type BackupKdfParams,
+  type BackupKeyMaterial,
+} from "./backupCrypto";
+import { base64ToBytes, bytesToBase64 } from "./hashing";
+
+// The derived key is kept (never the passphrase) so background backups can
+// encrypt without prompting. The verifier confirms a passphrase before the
+// key is replaced or removed.
+const BACKUP_KEY_STORE_KEY = "backupEncryptionKey";
+const BACKUP_VERIFIER_STORE_KEY = "backupPassphraseVerifier";
+const SECURE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+type StoredBackupKey = {
+  kdf: BackupKdfParams;
+  /** Base64. */
+  key: string;
+};
+
+function parseStoredKey(value: string): BackupKeyMaterial {
+  const parsed = JSON.parse(value) as Partial<StoredBackupKey>;
+  if (!parsed.kdf || typeof parsed.key !== "string") {
+    throw new Error("Stored backup encryption key is invalid.");
+  }
+  return { kdf: parsed.kdf, key: base64ToBytes(parsed.key) };
+}
+
+/**
+ * Gets the key used to encrypt new backups, or null when backups are saved
+ * as plain JSON.
+ */
+export async function getBackupEncryptionKey(): Promise<BackupKeyMaterial | null> {
+  const stored = await SecureStore.getItemAsync(BACKUP_KEY_STORE_KEY, SECURE_OPTIONS);
+  return stored ? parseStoredKey(stored) : null;
+}
+
+export async function isBackupEncryptionEnabled(): Promise<boolean> {
+  return (await SecureStore.getItemAsync(BACKUP_KEY_STORE_KEY, SECURE_OPTIONS)) !== null;
+}
+
+/**
+ * Checks `passphrase` against the one backups are currently encrypted with.
+ */
+export async function verifyBackupPassphrase(passphrase: string): Promise<boolean> {
+  const [material, verifier] = await Promise.all([
+    getBackupEncryptionKey(),
+    SecureStore.getItemAsync(BACKUP_VERIFIER_STORE_KEY, SECURE_OPTIONS),
+  ]);
+  if (!material || !verifier) {
+    return false;
+  }
+  const { key } = await deriveBackupKey(passphrase, material.kdf);
+  return createBackupKeyVerifier(key) === verifier;
+}
+
+/**
+ * Encrypts future backups with `passphrase`. Existing backup files are left
+ * as they are.
+ */
+export async function enableBackupEncryption(passphrase: string): Promise<void> {
+  const material = await createBackupKey(passphrase);
+  const stored: StoredBackupKey = { kdf: material.kdf, key: bytesToBase64(material.key) };
+  await SecureStore.setItemAsync(BACKUP_KEY_STORE_KEY, JSON.stringify(stored), SECURE_OPTIONS);
+  await SecureStore.setItemAsync(
+    BACKUP_VERIFIER_STORE_KEY,
+    createBackupKeyVerifier(material.key),
+    SECURE_OPTIONS
+  );
+}
+
+/**
+ * Goes back to plain JSON backups once `passphrase` is confirmed.
+ */
+export async function disableBackupEncryption(passphrase: string): Promise<void> {
+  if (!(await verifyBackupPassphrase(passphrase))) {
+    throw new Error("Incorrect passphrase.");
+  }
+  await SecureStore.deleteItemAsync(BACKUP_KEY_STORE_KEY, SECURE_OPTIONS);
+  await SecureStore.deleteItemAsync(BACKUP_VERIFIER_STORE_KEY, SECURE_OPTIONS);
+}
+
+/**
+ * Switches future backups to `nextPassphrase` once `currentPassphrase` is confirmed.
+ */
+export async function changeBackupPassphrase(
+  currentPassphrase: string,
+  nextPassphrase: string
+): Promise<void> {
+  if (!(await verifyBackupPassphrase(currentPassphrase))) {
+    throw new Error("Incorrect passphrase.");
+  }
+  await enableBackupEncryption(nextPassphrase);
+}
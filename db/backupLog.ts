@@ -0,0 +1,151 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export type BackupLogOperation = "backup" | "cleanup" | "restore" | "import";
+
+/** What started an operation. Imports and restores are always manual. */
+export type BackupTrigger = "manual" | "background" | "pre-restore";
+
+/**
+ * `skipped` records a background run that found no backup due; consecutive
+ * skips share one entry holding the latest run.
+ */
+export type BackupLogResult = "success" | "failure" | "skipped";
+
+export type BackupLogEntry = {
+  at: number;
+  operation: BackupLogOperation;
+  trigger: BackupTrigger;
+  result: BackupLogResult;
+  fileName: string | null;
+  entryCount: number | null;
+  error: string | null;
+};
+
+export const BACKUP_LOG_FORMAT = "moodinator-backup-log";
+export const MAX_BACKUP_LOG_ENTRIES = 200;
+
+const BACKUP_LOG_KEY = "backupLog";
+const OPERATIONS: BackupLogOperation[] = ["backup", "cleanup", "restore", "import"];
+const TRIGGERS: BackupTrigger[] = ["manual", "background", "pre-restore"];
+const RESULTS: BackupLogResult[] = ["success", "failure", "skipped"];
+
+// Appends read, modify and write the whole log, so they run one at a time.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nullableString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function parseBackupLogEntry(value: unknown): BackupLogEntry | null {
+  if (
+    !isRecord(value) ||
+    typeof value.at !== "number" ||
+    !OPERATIONS.includes(value.operation as BackupLogOperation) ||
+    !TRIGGERS.includes(value.trigger as BackupTrigger) ||
+    !RESULTS.includes(value.result as BackupLogResult)
+  ) {
+    return null;
+  }
+  return {
+    at: value.at,
+    operation: value.operation as BackupLogOperation,
+    trigger: value.trigger as BackupTrigger,
+    result: value.result as BackupLogResult,
+    fileName: nullableString(value.fileName),
+    entryCount: typeof value.entryCount === "number" ? value.entryCount : null,
+    error: nullableString(value.error),
+  };
+}
+
+/**
+ * Gets the backup, cleanup, restore and import history, newest first.
+ */
+export async function getBackupLog(): Promise<BackupLogEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(BACKUP_LOG_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .map(parseBackupLogEntry)
+      .filter((entry): entry is BackupLogEntry => entry !== null);
+  } catch (error) {
+    console.error("Error reading backup log:", error);
+    return [];
+  }
+}
+
+/**
+ * Adds an entry to the backup log, dropping the oldest beyond
+ * `MAX_BACKUP_LOG_ENTRIES`. A skip right after another skip replaces it, so
+ * background runs with nothing due don't push real outcomes out of the log.
+ * Never throws, so logging can't fail an operation.
+ */
+export function appendBackupLog(
+  entry: Omit<BackupLogEntry, "at" | "fileName" | "entryCount" | "error"> &
+    Partial<Pick<BackupLogEntry, "at" | "fileName" | "entryCount" | "error">>
+): Promise<void> {
+  const complete: BackupLogEntry = {
+    at: entry.at ?? Date.now(),
+    operation: entry.operation,
+    trigger: entry.trigger,
+    result: entry.result,
+    fileName: entry.fileName ?? null,
+    entryCount: entry.entryCount ?? null,
+    error: entry.error ?? null,
+  };
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      const log = await getBackupLog();
+      const [latest] = log;
+      const repeatsSkip =
+        complete.result === "skipped" &&
+        latest?.result === "skipped" &&
+        latest.operation === complete.operation &&
+        latest.trigger === complete.trigger;
+      const kept = repeatsSkip ? log.slice(1) : log;
+      await AsyncStorage.setItem(
+        BACKUP_LOG_KEY,
+        JSON.stringify([complete, ...kept].slice(0, MAX_BACKUP_LOG_ENTRIES))
+      );
+    } catch (error) {
+      console.error("Error writing backup log:", error);
+    }
+  });
+  return pendingWrite;
+}
+
+export async function clearBackupLog(): Promise<void> {
+  await pendingWrite;
+  await AsyncStorage.removeItem(BACKUP_LOG_KEY);
+}
+
+/**
+ * Serializes the log for sharing with support. It holds file names, counts
+ * and error messages, never entry contents.
+ */
+export function serializeBackupLog(
+  entries: BackupLogEntry[],
+  details: { appVersion: string | null; device: string; exportedAt: number }
+): string {
+  return JSON.stringify(
+    {
+      format: BACKUP_LOG_FORMAT,
+      appVersion: details.appVersion,
+      device: details.device,
+      exportedAt: new Date(details.exportedAt).toISOString(),
+      entries: entries.map((entry) => ({ ...entry, at: new Date(entry.at).toISOString() })),
+    },
+    null,
+    2
+  );
+}
+
+export function getBackupLogFilename(exportedAt: number): string {
+  return `moodinator-backup-log-${new Date(exportedAt).toISOString().slice(0, 10)}.json`;
+}
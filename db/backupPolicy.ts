@@ -1,56 +1,338 @@
+/**
+ * Full backups hold every entry; incremental ones only the changes since the
+ * newest full backup before them, which they need to be restored.
+ */
+export type BackupKind = "full" | "incremental";
+
 export type BackupFileSummary = {
   uri: string;
   timestamp: number;
   filename: string;
+  kind: BackupKind;
+};
+
+export type BackupFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * Which backups survive cleanup: the newest `count`, or grandfather-father-son
+ * rotation keeping the newest backup of each of the last `daily` days,
+ * `weekly` weeks and `monthly` months.
+ */
+export type BackupRetention =
+  | { type: "keepLast"; count: number }
+  | { type: "gfs"; daily: number; weekly: number; monthly: number };
+
+export type BackupPolicy = {
+  frequency: BackupFrequency;
+  retention: BackupRetention;
+  /** Save only the changes since the last full backup between full ones. */
+  incremental: boolean;
+};
+
+export const DEFAULT_BACKUP_POLICY: BackupPolicy = {
+  frequency: "weekly",
+  retention: { type: "keepLast", count: 8 },
+  incremental: false,
+};
+
+/** With incremental backups on, every seventh backup is a full one. */
+export const INCREMENTAL_BACKUPS_PER_FULL = 6;
+
+export const DEFAULT_GFS_RETENTION: BackupRetention = {
+  type: "gfs",
+  daily: 7,
+  weekly: 4,
+  monthly: 12,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RETENTION_COUNT = 365;
+const BACKUP_FREQUENCIES: BackupFrequency[] = ["daily", "weekly", "monthly"];
+
+function isRetentionCount(value: unknown, min: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= MAX_RETENTION_COUNT
+  );
+}
+
+function parseBackupRetention(value: unknown): BackupRetention | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const candidate = value as Record<string, unknown>;
+  if (candidate.type === "keepLast" && isRetentionCount(candidate.count, 1)) {
+    return { type: "keepLast", count: candidate.count };
+  }
+  if (
+    candidate.type === "gfs" &&
+    isRetentionCount(candidate.daily, 0) &&
+    isRetentionCount(candidate.weekly, 0) &&
+    isRetentionCount(candidate.monthly, 0)
+  ) {
+    return {
+      type: "gfs",
+      daily: candidate.daily,
+      weekly: candidate.weekly,
+      monthly: candidate.monthly,
+    };
+  }
+  return null;
+}
+
+/** Reads a stored policy, falling back to the defaults for anything invalid. */
+export function parseBackupPolicy(value: unknown): BackupPolicy {
+  if (typeof value !== "object" || value === null) {
+    return DEFAULT_BACKUP_POLICY;
+  }
+  const candidate = value as Record<string, unknown>;
+  return {
+    frequency: BACKUP_FREQUENCIES.includes(candidate.frequency as BackupFrequency)
+      ? (candidate.frequency as BackupFrequency)
+      : DEFAULT_BACKUP_POLICY.frequency,
+    retention: parseBackupRetention(candidate.retention) ?? DEFAULT_BACKUP_POLICY.retention,
+    incremental: candidate.incremental === true,
+  };
+}
+
+/**
+ * Whether the next backup can be incremental: the policy allows it, the full
+ * backup it builds on is still usable, the chain is short enough and the
+ * changes are small next to a full copy.
+ */
+export function canBackupIncrementally(options: {
+  policy: BackupPolicy;
+  baseAvailable: boolean;
+  incrementalCount: number;
+  changedCount: number;
+  totalCount: number;
+}): boolean {
+  return (
+    options.policy.incremental &&
+    options.baseAvailable &&
+    options.incrementalCount < INCREMENTAL_BACKUPS_PER_FULL &&
+    options.changedCount * 2 < options.totalCount
+  );
+}
+
+/**
+ * Whether a scheduled backup is due. Daily backups follow local calendar
+ * days so a task that fires a little late each day doesn't skip one; weekly
+ * backups need seven full days; monthly ones a calendar month.
+ */
+export function isBackupDue(
+  lastBackup: number | null,
+  frequency: BackupFrequency,
+  now = Date.now()
+): boolean {
+  if (lastBackup === null) {
+    return true;
+  }
+  switch (frequency) {
+    case "daily":
+      return new Date(now).toDateString() !== new Date(lastBackup).toDateString() && now > lastBackup;
+    case "weekly":
+      return now - lastBackup >= 7 * DAY_MS;
+    case "monthly": {
+      const last = new Date(lastBackup);
+      const due = new Date(last);
+      due.setMonth(last.getMonth() + 1);
+      // Clamp e.g. Jan 31 to the end of February rather than rolling into March.
+      if (due.getDate() !== last.getDate()) {
+        due.setDate(0);
+      }
+      return now >= due.getTime();
+    }
+  }
+}
+
+export type BackupHealthStatus = "healthy" | "overdue" | "failing" | "none";
+
+export type BackupHealth = {
+  status: BackupHealthStatus;
+  lastSuccessAt: number | null;
+  lastFailure: { at: number; error: string } | null;
 };
 
-export const WEEKS_TO_KEEP = 8;
-export const BACKUP_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+// How long past its due time a scheduled backup may be before it counts as
+// overdue; background tasks run when the OS allows, not on the dot.
+const OVERDUE_GRACE_MS = 2 * DAY_MS;
+
+/**
+ * Rates backups from the last success and failure. A failure newer than the
+ * last success wins over an overdue backup, since it explains it.
+ */
+export function assessBackupHealth(
+  lastSuccessAt: number | null,
+  lastFailure: { at: number; error: string } | null,
+  frequency: BackupFrequency,
+  now = Date.now()
+): BackupHealth {
+  const failing = lastFailure !== null && (lastSuccessAt === null || lastFailure.at > lastSuccessAt);
+  let status: BackupHealthStatus;
+  if (failing) {
+    status = "failing";
+  } else if (lastSuccessAt === null) {
+    status = "none";
+  } else if (isBackupDue(lastSuccessAt, frequency, now - OVERDUE_GRACE_MS)) {
+    status = "overdue";
+  } else {
+    status = "healthy";
+  }
+  return { status, lastSuccessAt, lastFailure: failing ? lastFailure : null };
+}
+
+/** The background task hint, in minutes. The task still throttles itself with `isBackupDue`. */
+export function getBackgroundTaskIntervalMinutes(frequency: BackupFrequency): number {
+  return frequency === "daily" ? 60 * 12 : 60 * 24;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
 
-export function getBackupFilename(timestamp: number): string {
+/** Names include the UTC time so several backups can be kept for one day. */
+export function getBackupFilename(timestamp: number, kind: BackupKind = "full"): string {
   const date = new Date(timestamp);
   const dateStr = date.toISOString().split("T")[0];
-  return `moodinator-backup-${dateStr}.json`;
+  const timeStr = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map(pad)
+    .join("-");
+  const suffix = kind === "incremental" ? "-incremental" : "";
+  return `moodinator-backup-${dateStr}_${timeStr}${suffix}.json`;
+}
+
+// Older versions wrote one backup per day with only the date in the name.
+const BACKUP_NAME_PATTERN =
+  /moodinator-backup-(\d{4})-(\d{2})-(\d{2})(?:_(\d{2})-(\d{2})-(\d{2})(-incremental)?)?\.json/;
+
+function parseBackupTimestamp(match: RegExpMatchArray): number {
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = match;
+  return Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds)
+  );
 }
 
 export function parseBackupFilename(
   filename: string,
   uri: string
 ): BackupFileSummary | null {
-  if (!filename.startsWith("moodinator-backup-") || !filename.endsWith(".json")) {
+  const match = filename.match(BACKUP_NAME_PATTERN);
+  if (!match || match.index !== 0 || match[0].length !== filename.length) {
     return null;
   }
 
-  const dateStr = filename
-    .replace("moodinator-backup-", "")
-    .replace(".json", "");
-  const timestamp = new Date(dateStr).getTime();
-
+  const timestamp = parseBackupTimestamp(match);
   if (Number.isNaN(timestamp)) {
     return null;
   }
 
-  return { uri, timestamp, filename };
+  return { uri, timestamp, filename, kind: match[7] ? "incremental" : "full" };
 }
 
 export function parseBackupUri(uri: string): BackupFileSummary | null {
   const uriDecoded = decodeURIComponent(uri);
-  const match = uriDecoded.match(/moodinator-backup-(\d{4}-\d{2}-\d{2})/);
+  const match = uriDecoded.match(BACKUP_NAME_PATTERN);
   if (!match) {
     return null;
   }
 
-  const filename = `moodinator-backup-${match[1]}.json`;
-  return parseBackupFilename(filename, uri);
+  return parseBackupFilename(match[0], uri);
 }
 
 export function sortBackupsNewestFirst<T extends BackupFileSummary>(files: T[]): T[] {
   return [...files].sort((a, b) => b.timestamp - a.timestamp);
 }
 
+function startOfLocalWeek(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  // Weeks start on Monday.
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+const GFS_PERIODS: {
+  key: "daily" | "weekly" | "monthly";
+  bucket: (timestamp: number) => string;
+}[] = [
+  { key: "daily", bucket: (timestamp) => new Date(timestamp).toDateString() },
+  { key: "weekly", bucket: (timestamp) => String(startOfLocalWeek(timestamp)) },
+  {
+    key: "monthly",
+    bucket: (timestamp) => {
+      const date = new Date(timestamp);
+      return `${date.getFullYear()}-${date.getMonth()}`;
+    },
+  },
+];
+
+/**
+ * The full backup an incremental one builds on: the newest full backup made
+ * before it. Null for full backups and for incremental ones left without one.
+ */
+export function findBaseBackup<T extends BackupFileSummary>(file: T, files: T[]): T | null {
+  if (file.kind === "full") {
+    return null;
+  }
+  return (
+    sortBackupsNewestFirst(files).find(
+      (candidate) => candidate.kind === "full" && candidate.timestamp < file.timestamp
+    ) ?? null
+  );
+}
+
+/**
+ * Picks the backups that fall outside `retention`. The newest backup is
+ * always kept. Full backups that kept incremental ones build on are kept
+ * too, and incremental ones whose full backup goes are removed with it.
+ */
 export function selectBackupsForDeletion<T extends BackupFileSummary>(
   files: T[],
-  keepCount = WEEKS_TO_KEEP
+  retention: BackupRetention = DEFAULT_BACKUP_POLICY.retention
 ): T[] {
-  return sortBackupsNewestFirst(files).slice(keepCount);
+  const sorted = sortBackupsNewestFirst(files);
+  const kept = selectRetainedBackups(sorted, retention);
+  for (const file of [...kept]) {
+    const base = findBaseBackup(file, sorted);
+    if (base) {
+      kept.add(base);
+    } else if (file.kind === "incremental") {
+      kept.delete(file);
+    }
+  }
+  return sorted.filter((file) => !kept.has(file));
+}
+
+function selectRetainedBackups<T extends BackupFileSummary>(
+  sorted: T[],
+  retention: BackupRetention
+): Set<T> {
+  if (retention.type === "keepLast") {
+    return new Set(sorted.slice(0, Math.max(1, retention.count)));
+  }
+
+  const kept = new Set<T>(sorted.slice(0, 1));
+  for (const { key, bucket } of GFS_PERIODS) {
+    const seen = new Set<string>();
+    for (const file of sorted) {
+      const period = bucket(file.timestamp);
+      if (seen.has(period)) {
+        continue;
+      }
+      if (seen.size >= retention[key]) {
+        break;
+      }
+      seen.add(period);
+      kept.add(file);
+    }
+  }
+  return kept;
 }
@@ -2,12 +2,8 @@ import * as SQLite from "expo-sqlite";
 import * as SecureStore from "expo-secure-store";
 import * as Crypto from "expo-crypto";
 import { Platform } from "react-native";
-import { createMoodTable } from "./moods/schema";
-import {
-  hasEmotionTableMigrated,
-  migrateEmotionsToTable,
-} from "./moods/emotions";
-import { backfillMoodScaleJson } from "./moods/migrations";
+import { runSchemaMigrations } from "./migrationRunner";
+import { MOOD_SCHEMA_MIGRATIONS } from "./moods/schemaMigrations";
 
 let db: SQLite.SQLiteDatabase | null = null;
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
@@ -86,23 +82,11 @@ async function configureDatabaseEncryption(database: SQLite.SQLiteDatabase): Pro
 }
 
 async function initializeDatabase(database: SQLite.SQLiteDatabase): Promise<void> {
-  await createMoodTable(database);
-
-  try {
-    await backfillMoodScaleJson(database);
-  } catch (error) {
-    console.error("Failed to backfill mood_scale_json:", error);
-  }
-
-  const migrated = await hasEmotionTableMigrated(database);
-  if (migrated) {
-    return;
-  }
-
-  try {
-    await migrateEmotionsToTable(database);
-  } catch (error) {
-    console.error("Failed to migrate emotions to table:", error);
+  const result = await runSchemaMigrations(database, MOOD_SCHEMA_MIGRATIONS);
+  if (result.applied.length > 0) {
+    console.log(
+      `Database schema migrated from v${result.fromVersion} to v${result.toVersion}`
+    );
   }
 }
 
@@ -1,13 +1,22 @@
 export { createMoodTable } from "./moods/schema";
 export type { MoodDateRange, MoodRangePreset } from "./moods/range";
+export type { MoodQuery } from "../domain/moodQuery";
 export {
   deleteMood,
+  getDeletedMoods,
+  restoreDeletedMood,
+  purgeDeletedMoods,
+  purgeMoodsDeletedBefore,
   getAllMoods,
   getMoodCount,
   getMoodsWithinRange,
   getMoodsInRange,
   getMoodsByMonth,
   getMoodsPaginated,
+  getMoodsMatching,
+  getMoodsMatchingPaginated,
+  getMoodsByIds,
+  searchMoods,
   hasMoodBeenLoggedToday,
   insertMood,
   insertMoodEntry,
@@ -18,19 +27,94 @@ export {
   getEmotionNamesFromMoods,
   updateMoodNote,
   updateMoodTimestamp,
+  purgeUnusedMoodAttachments,
+  type DeletedMoodEntry,
   type PaginationOptions,
   type PaginatedResult,
 } from "./moods/repository";
+export type {
+  MoodSearchOptions,
+  MoodSearchResult,
+  MoodSearchSegment,
+  MoodSearchSnippet,
+} from "./moods/search";
 export {
+  exportIncrementalMoods,
   exportMoods,
+  importCsvMoods,
   importMoods,
   importOldBackup,
+  mergeImportMoods,
+  previewCsvImportMoods,
   previewImportMoods,
+  previewMergeImportMoods,
+  type CsvImportOptions,
+  type CsvImportPreviewResult,
+  type CsvImportResult,
   type ImportPreviewResult,
   type ImportResult,
+  type MergeImportOptions,
+  type MergeImportPreviewResult,
+  type MergeImportResult,
 } from "./moods/importExport";
+export type { MergeConflictStrategy } from "./moods/importMerge";
+export {
+  CSV_IMPORT_PRESETS,
+  createCsvImportMapping,
+  detectCsvImportPreset,
+  parseCsv,
+  type CsvDateOrder,
+  type CsvImportMapping,
+  type CsvImportPreset,
+  type CsvTimestampFormat,
+} from "./moods/csvImport";
+export {
+  MOOD_EXPORT_FORMAT_VERSION,
+  replayIncrementalBackups,
+  summarizeMoodExport,
+  type ExportedReminder,
+  type MoodExportOptions,
+  type MoodExportSettings,
+  type MoodExportSummary,
+} from "./moods/exportFormat";
+export {
+  MAX_PHOTOS_PER_ENTRY,
+  MAX_VOICE_MEMOS_PER_ENTRY,
+  MAX_VOICE_MEMO_DURATION_MS,
+} from "./moods/serialization";
+export {
+  getMoodPhotoUri,
+  storeMoodPhoto,
+  type ExportedMoodPhoto,
+  type ProcessedPhoto,
+} from "./moods/photoStorage";
+export {
+  getMoodVoiceMemoUri,
+  storeMoodVoiceMemo,
+  type ExportedMoodVoiceMemo,
+} from "./moods/voiceMemoStorage";
 export { clearMoodData, clearMoods, seedMoods, seedMoodsFromFile } from "./moods/seed";
 export { backfillMoodScaleJson, migrateEmotionsToCategories } from "./moods/migrations";
+export {
+  getMoodChangeSequence,
+  getMoodChangesSince,
+  pruneMoodChanges,
+  type MoodChanges,
+} from "./moods/changeLog";
+export {
+  getMoodRevisions,
+  getMoodRevisionsByMoodIds,
+  type MoodRevision,
+  type MoodRevisionChange,
+  type MoodRevisionField,
+} from "./moods/revisions";
+export {
+  getSchemaVersion,
+  runSchemaMigrations,
+  type SchemaMigration,
+  type SchemaMigrationResult,
+} from "./migrationRunner";
+export { MOOD_SCHEMA_MIGRATIONS } from "./moods/schemaMigrations";
 export {
   createEmotionsTable,
   createMoodEmotionsTable,
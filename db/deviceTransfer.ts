@@ -0,0 +1,456 @@
+import {
+  AESEncryptionKey,
+  AESSealedData,
+  aesDecryptAsync,
+  aesEncryptAsync,
+  getRandomBytes,
+} from "expo-crypto";
+import { base64ToBytes, bytesToBase64, hmacSha256, utf8Decode, utf8Encode } from "./hashing";
+
+// Device-to-device transfer. The sending device shows a link (as a QR code)
+// holding its address and a one-time key; the receiving device opens the
+// link, connects, proves it holds the key and pulls the export encrypted
+// with that key. Nothing here depends on the network: both ends talk to a
+// `TransferConnection`, which the app backs with a TCP socket.
+
+export const TRANSFER_PROTOCOL_VERSION = 1;
+/** Matches the `scheme` in app.json, so the system camera opens the app. */
+export const TRANSFER_LINK_PREFIX = "myapp://transfer";
+export const TRANSFER_INVITE_TTL_MS = 10 * 60_000;
+export const TRANSFER_IDLE_TIMEOUT_MS = 30_000;
+export const TRANSFER_CHUNK_BYTES = 64 * 1024;
+
+const KEY_LENGTH = 32;
+const SESSION_ID_LENGTH = 16;
+const FRAME_HEADER_BYTES = 5;
+const MAX_FRAME_BYTES = 1024 * 1024;
+const HELLO_LABEL = "moodinator-transfer-hello";
+const INVALID_LINK_MESSAGE = "This is not a valid Moodinator transfer link.";
+
+/** What the sending device shares with the receiving one. Keys are base64url. */
+export type TransferInvite = {
+  host: string;
+  port: number;
+  sessionId: string;
+  key: string;
+};
+
+export type TransferConnection = {
+  write(bytes: Uint8Array): Promise<void>;
+  /** Registers the handlers; bytes arrive in arbitrary chunks. */
+  listen(handlers: {
+    onData: (bytes: Uint8Array) => void;
+    onClose: (error?: Error) => void;
+  }): void;
+  close(): void;
+};
+
+export const TRANSFER_FRAME = {
+  hello: 1,
+  data: 2,
+  end: 3,
+  ack: 4,
+  error: 5,
+} as const;
+
+export type TransferFrameType = (typeof TRANSFER_FRAME)[keyof typeof TRANSFER_FRAME];
+
+export type TransferFrame = { type: TransferFrameType; payload: Uint8Array };
+
+const FRAME_TYPES = new Set<number>(Object.values(TRANSFER_FRAME));
+
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+}
+
+/** Creates an invite with a fresh session id and one-time key. */
+export function createTransferInvite(host: string, port: number): TransferInvite {
+  return {
+    host,
+    port,
+    sessionId: toBase64Url(getRandomBytes(SESSION_ID_LENGTH)),
+    key: toBase64Url(getRandomBytes(KEY_LENGTH)),
+  };
+}
+
+export function buildTransferLink(invite: TransferInvite): string {
+  const params = [
+    ["v", String(TRANSFER_PROTOCOL_VERSION)],
+    ["host", invite.host],
+    ["port", String(invite.port)],
+    ["session", invite.sessionId],
+    ["key", invite.key],
+  ];
+  return `${TRANSFER_LINK_PREFIX}?${params
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join("&")}`;
+}
+
+/**
+ * Reads an invite from the query parameters of a transfer link, as the
+ * router passes them to the screen the link opens.
+ */
+export function parseTransferParams(params: Record<string, unknown>): TransferInvite {
+  const value = (name: string) => (typeof params[name] === "string" ? params[name] : "");
+  if (Number(value("v")) > TRANSFER_PROTOCOL_VERSION) {
+    throw new Error(
+      "This transfer link is from a newer version of Moodinator. Update the app to use it."
+    );
+  }
+  const port = Number(value("port"));
+  const invite: TransferInvite = {
+    host: value("host"),
+    port,
+    sessionId: value("session"),
+    key: value("key"),
+  };
+  let keyLength = 0;
+  try {
+    keyLength = fromBase64Url(invite.key).length;
+  } catch {
+    // Reported below.
+  }
+  if (
+    value("v") === "" ||
+    !/^[0-9A-Za-z.:-]+$/.test(invite.host) ||
+    !Number.isInteger(port) ||
+    port < 1 ||
+    port > 65535 ||
+    !/^[0-9A-Za-z_-]+$/.test(invite.sessionId) ||
+    keyLength !== KEY_LENGTH
+  ) {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+  return invite;
+}
+
+export function parseTransferLink(link: string): TransferInvite {
+  const trimmed = link.trim();
+  if (!trimmed.startsWith(`${TRANSFER_LINK_PREFIX}?`)) {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+  const params: Record<string, string> = {};
+  for (const pair of trimmed.slice(TRANSFER_LINK_PREFIX.length + 1).split("&")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      try {
+        params[pair.slice(0, separator)] = decodeURIComponent(pair.slice(separator + 1));
+      } catch {
+        throw new Error(INVALID_LINK_MESSAGE);
+      }
+    }
+  }
+  return parseTransferParams(params);
+}
+
+export function encodeTransferFrame(
+  type: TransferFrameType,
+  payload: Uint8Array = new Uint8Array()
+): Uint8Array {
+  const frame = new Uint8Array(FRAME_HEADER_BYTES + payload.length);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, type);
+  view.setUint32(1, payload.length);
+  frame.set(payload, FRAME_HEADER_BYTES);
+  return frame;
+}
+
+function encodeJsonFrame(type: TransferFrameType, value: unknown): Uint8Array {
+  return encodeTransferFrame(type, utf8Encode(JSON.stringify(value)));
+}
+
+function decodeJsonFrame(frame: TransferFrame): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(utf8Decode(frame.payload));
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below.
+  }
+  throw new Error("The other device sent data Moodinator can't read.");
+}
+
+/**
+ * Splits a byte stream into frames: a type byte, a 4-byte big-endian payload
+ * length and the payload. `push` returns the frames completed by `bytes` and
+ * keeps any partial frame for the next call.
+ */
+export function createTransferFrameReader() {
+  let buffered = new Uint8Array();
+
+  return {
+    push(bytes: Uint8Array): TransferFrame[] {
+      const combined = new Uint8Array(buffered.length + bytes.length);
+      combined.set(buffered);
+      combined.set(bytes, buffered.length);
+
+      const frames: TransferFrame[] = [];
+      let offset = 0;
+      while (combined.length - offset >= FRAME_HEADER_BYTES) {
+        const view = new DataView(combined.buffer, offset);
+        const type = view.getUint8(0);
+        const length = view.getUint32(1);
+        if (!FRAME_TYPES.has(type) || length > MAX_FRAME_BYTES) {
+          throw new Error("The other device sent data Moodinator can't read.");
+        }
+        if (combined.length - offset - FRAME_HEADER_BYTES < length) {
+          break;
+        }
+        const start = offset + FRAME_HEADER_BYTES;
+        frames.push({
+          type: type as TransferFrameType,
+          payload: combined.slice(start, start + length),
+        });
+        offset = start + length;
+      }
+      buffered = combined.slice(offset);
+      return frames;
+    },
+  };
+}
+
+/**
+ * Reads frames from `connection` one at a time. `next` rejects once the
+ * connection closes, or when no frame arrives within `idleTimeoutMs`.
+ */
+function createFrameQueue(connection: TransferConnection, idleTimeoutMs: number) {
+  const reader = createTransferFrameReader();
+  const frames: TransferFrame[] = [];
+  let failure: Error | null = null;
+  let waiting: {
+    resolve: (frame: TransferFrame) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  const fail = (error: Error) => {
+    failure ??= error;
+    waiting?.reject(failure);
+    waiting = null;
+  };
+
+  connection.listen({
+    onData: (bytes) => {
+      try {
+        frames.push(...reader.push(bytes));
+      } catch (error) {
+        fail(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+      if (waiting && frames.length > 0) {
+        waiting.resolve(frames.shift()!);
+        waiting = null;
+      }
+    },
+    onClose: (error) =>
+      fail(
+        error ?? new Error("The other device closed the connection before the transfer finished.")
+      ),
+  });
+
+  return {
+    next(): Promise<TransferFrame> {
+      if (frames.length > 0) {
+        return Promise.resolve(frames.shift()!);
+      }
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          waiting = null;
+          reject(new Error("The other device stopped responding."));
+        }, idleTimeoutMs);
+        waiting = {
+          resolve: (frame) => {
+            clearTimeout(timer);
+            resolve(frame);
+          },
+          reject: (error) => {
+            clearTimeout(timer);
+            reject(error);
+          },
+        };
+      });
+    },
+  };
+}
+
+/** Throws the message of an error frame, so both ends report the same problem. */
+function throwIfErrorFrame(frame: TransferFrame): void {
+  if (frame.type === TRANSFER_FRAME.error) {
+    const { message } = decodeJsonFrame(frame);
+    throw new Error(
+      typeof message === "string" ? message : "The transfer failed on the other device."
+    );
+  }
+}
+
+async function sendError(connection: TransferConnection, message: string): Promise<void> {
+  try {
+    await connection.write(encodeJsonFrame(TRANSFER_FRAME.error, { message }));
+  } catch {
+    // The connection is already gone; the caller reports the original error.
+  }
+}
+
+function helloProof(invite: TransferInvite): string {
+  return toBase64Url(
+    hmacSha256(fromBase64Url(invite.key), utf8Encode(`${HELLO_LABEL}|${invite.sessionId}`))
+  );
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function additionalData(invite: TransferInvite): Uint8Array {
+  return utf8Encode(`moodinator-transfer|${TRANSFER_PROTOCOL_VERSION}|${invite.sessionId}`);
+}
+
+/** Encrypts `plaintext` with the invite's key (AES-256-GCM, bound to the session). */
+export async function sealTransferPayload(
+  plaintext: string,
+  invite: TransferInvite
+): Promise<Uint8Array> {
+  const key = await AESEncryptionKey.import(fromBase64Url(invite.key));
+  const sealed = await aesEncryptAsync(utf8Encode(plaintext), key, {
+    additionalData: additionalData(invite),
+  });
+  return sealed.combined();
+}
+
+export async function openTransferPayload(
+  sealed: Uint8Array,
+  invite: TransferInvite
+): Promise<string> {
+  try {
+    const plaintext = await aesDecryptAsync(
+      AESSealedData.fromCombined(sealed),
+      await AESEncryptionKey.import(fromBase64Url(invite.key)),
+      { additionalData: additionalData(invite) }
+    );
+    return utf8Decode(plaintext);
+  } catch {
+    throw new Error("The transferred data could not be decrypted. Scan a new code and try again.");
+  }
+}
+
+/**
+ * Serves one transfer on `connection`: checks that the receiver holds the
+ * invite's key, sends `payload` encrypted and waits for the receiver to
+ * confirm it decrypted it. Rejects if any step fails.
+ */
+export async function sendTransfer(
+  connection: TransferConnection,
+  invite: TransferInvite,
+  payload: string,
+  idleTimeoutMs = TRANSFER_IDLE_TIMEOUT_MS
+): Promise<void> {
+  const frames = createFrameQueue(connection, idleTimeoutMs);
+
+  const hello = await frames.next();
+  throwIfErrorFrame(hello);
+  if (hello.type !== TRANSFER_FRAME.hello) {
+    throw new Error("The other device sent data Moodinator can't read.");
+  }
+  const { version, sessionId, proof } = decodeJsonFrame(hello);
+  if (typeof version !== "number" || version > TRANSFER_PROTOCOL_VERSION) {
+    await sendError(
+      connection,
+      "The sending device runs an older version of Moodinator. Update it and try again."
+    );
+    throw new Error(
+      "The other device runs a newer version of Moodinator. Update the app and try again."
+    );
+  }
+  if (
+    sessionId !== invite.sessionId ||
+    typeof proof !== "string" ||
+    !constantTimeEqual(proof, helloProof(invite))
+  ) {
+    await sendError(
+      connection,
+      "This transfer code is no longer valid. Scan the current code and try again."
+    );
+    throw new Error("A device connected without the current transfer code.");
+  }
+
+  const sealed = await sealTransferPayload(payload, invite);
+  for (let offset = 0; offset < sealed.length; offset += TRANSFER_CHUNK_BYTES) {
+    const chunk = sealed.subarray(offset, offset + TRANSFER_CHUNK_BYTES);
+    await connection.write(encodeTransferFrame(TRANSFER_FRAME.data, chunk));
+  }
+  await connection.write(encodeJsonFrame(TRANSFER_FRAME.end, { length: sealed.length }));
+
+  const reply = await frames.next();
+  throwIfErrorFrame(reply);
+  if (reply.type !== TRANSFER_FRAME.ack) {
+    throw new Error("The other device sent data Moodinator can't read.");
+  }
+}
+
+/**
+ * Pulls a transfer over `connection` and returns the decrypted payload. The
+ * sender only learns the transfer succeeded once the payload decrypts here.
+ */
+export async function receiveTransfer(
+  connection: TransferConnection,
+  invite: TransferInvite,
+  idleTimeoutMs = TRANSFER_IDLE_TIMEOUT_MS
+): Promise<string> {
+  const frames = createFrameQueue(connection, idleTimeoutMs);
+  await connection.write(
+    encodeJsonFrame(TRANSFER_FRAME.hello, {
+      version: TRANSFER_PROTOCOL_VERSION,
+      sessionId: invite.sessionId,
+      proof: helloProof(invite),
+    })
+  );
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const frame = await frames.next();
+    throwIfErrorFrame(frame);
+    if (frame.type === TRANSFER_FRAME.data) {
+      chunks.push(frame.payload);
+      received += frame.payload.length;
+      continue;
+    }
+    if (frame.type === TRANSFER_FRAME.end && decodeJsonFrame(frame).length === received) {
+      break;
+    }
+    await sendError(connection, "The transfer arrived incomplete. Try again.");
+    throw new Error("The transfer arrived incomplete. Try again.");
+  }
+
+  const sealed = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    sealed.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  let payload: string;
+  try {
+    payload = await openTransferPayload(sealed, invite);
+  } catch (error) {
+    await sendError(connection, "The other device could not decrypt the transfer.");
+    throw error;
+  }
+  await connection.write(encodeTransferFrame(TRANSFER_FRAME.ack));
+  return payload;
+}
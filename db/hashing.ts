@@ -0,0 +1,305 @@
+// Pure TypeScript SHA-256, HMAC-SHA256 and PBKDF2, plus byte helpers, for
+// backup encryption and device transfer. expo-crypto's SHA-256 digest covers
+// backup checksums, but it has no HMAC or key derivation, and these reuse the
+// hash's internal state between blocks, so they carry their own SHA-256.
+
+const KDF_YIELD_INTERVAL = 10_000;
+
+// SHA-256 round constants.
+const K = new Int32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+/** Runs the SHA-256 compression function over one 64-byte block in `words`. */
+function compress(state: Int32Array, words: Int32Array): void {
+  for (let i = 16; i < 64; i++) {
+    const w15 = words[i - 15];
+    const w2 = words[i - 2];
+    const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+    const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+    words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+  }
+
+  let a = state[0];
+  let b = state[1];
+  let c = state[2];
+  let d = state[3];
+  let e = state[4];
+  let f = state[5];
+  let g = state[6];
+  let h = state[7];
+
+  for (let i = 0; i < 64; i++) {
+    const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const t1 = (h + s1 + ch + K[i] + words[i]) | 0;
+    const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (s0 + maj) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+}
+
+/** Hashes `data` starting from `initial`, as if `prefixLength` bytes were already absorbed. */
+function sha256From(initial: ArrayLike<number>, data: Uint8Array, prefixLength = 0): Int32Array {
+  const state = Int32Array.from(initial);
+  const words = new Int32Array(64);
+  const totalLength = prefixLength + data.length;
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const bitLength = totalLength * 8;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getInt32(offset + i * 4);
+    }
+    compress(state, words);
+  }
+  return state;
+}
+
+function stateToBytes(state: Int32Array): Uint8Array {
+  const bytes = new Uint8Array(32);
+  const view = new DataView(bytes.buffer);
+  state.forEach((word, index) => view.setInt32(index * 4, word));
+  return bytes;
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  return stateToBytes(sha256From(INITIAL_STATE, data));
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/** HMAC key schedule: the hash states after absorbing the inner and outer pads. */
+function hmacStates(key: Uint8Array): { inner: Int32Array; outer: Int32Array } {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const words = new Int32Array(64);
+  const padState = (pad: number) => {
+    const state = Int32Array.from(INITIAL_STATE);
+    for (let i = 0; i < 16; i++) {
+      words[i] =
+        ((block[i * 4] ^ pad) << 24) |
+        ((block[i * 4 + 1] ^ pad) << 16) |
+        ((block[i * 4 + 2] ^ pad) << 8) |
+        (block[i * 4 + 3] ^ pad);
+    }
+    compress(state, words);
+    return state;
+  };
+  return { inner: padState(0x36), outer: padState(0x5c) };
+}
+
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const { inner, outer } = hmacStates(key);
+  const innerHash = stateToBytes(sha256From(inner, data, 64));
+  return stateToBytes(sha256From(outer, innerHash, 64));
+}
+
+/**
+ * Replaces `digest` with the hash of a 32-byte message continuing from `padState`,
+ * i.e. one HMAC half applied to the previous PBKDF2 output.
+ */
+function absorbDigest(padState: Int32Array, digest: Int32Array, state: Int32Array, words: Int32Array) {
+  state.set(padState);
+  words.set(digest);
+  words[8] = 0x80000000;
+  words.fill(0, 9, 15);
+  words[15] = (64 + 32) * 8;
+  compress(state, words);
+  digest.set(state);
+}
+
+/**
+ * PBKDF2-HMAC-SHA256 in plain TypeScript, since expo-crypto offers digests
+ * and AES but no key derivation. Iterations reuse the padded HMAC states so
+ * each one costs two compressions, and the loop yields now and then so the
+ * UI keeps rendering during a full-strength derivation.
+ */
+export async function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number
+): Promise<Uint8Array> {
+  const { inner, outer } = hmacStates(password);
+  const output = new Uint8Array(keyLength);
+  const state = new Int32Array(8);
+  const words = new Int32Array(64);
+  const blockInput = new Uint8Array(salt.length + 4);
+  blockInput.set(salt);
+
+  for (let block = 1, offset = 0; offset < keyLength; block++, offset += 32) {
+    new DataView(blockInput.buffer).setUint32(salt.length, block);
+    const digest = sha256From(outer, stateToBytes(sha256From(inner, blockInput, 64)), 64);
+    const result = Int32Array.from(digest);
+
+    for (let iteration = 1; iteration < iterations; iteration++) {
+      absorbDigest(inner, digest, state, words);
+      absorbDigest(outer, digest, state, words);
+      for (let i = 0; i < 8; i++) result[i] ^= digest[i];
+      if (iteration % KDF_YIELD_INTERVAL === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    output.set(stateToBytes(result).subarray(0, Math.min(32, keyLength - offset)), offset);
+  }
+  return output;
+}
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LOOKUP = new Int16Array(128).fill(-1);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+// Backups embed photos, so text is built in chunks rather than per character.
+const STRING_CHUNK_SIZE = 0x4000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const triple = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    chunk +=
+      BASE64_ALPHABET[(triple >> 18) & 63] +
+      BASE64_ALPHABET[(triple >> 12) & 63] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 63] : "=") +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[triple & 63] : "=");
+    if (chunk.length >= STRING_CHUNK_SIZE) {
+      chunks.push(chunk);
+      chunk = "";
+    }
+  }
+  chunks.push(chunk);
+  return chunks.join("");
+}
+
+export function base64ToBytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil((value.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    const sextet = code < 128 ? BASE64_LOOKUP[code] : -1;
+    if (sextet === -1) {
+      continue;
+    }
+    buffer = ((buffer << 6) | sextet) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, index);
+}
+
+export function utf8Encode(value: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(value.length * 3);
+  let index = 0;
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < value.length) {
+      const low = value.charCodeAt(i + 1);
+      if (low >= 0xdc00 && low < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) {
+      bytes[index++] = code;
+    } else if (code < 0x800) {
+      bytes[index++] = 0xc0 | (code >> 6);
+      bytes[index++] = 0x80 | (code & 63);
+    } else if (code < 0x10000) {
+      bytes[index++] = 0xe0 | (code >> 12);
+      bytes[index++] = 0x80 | ((code >> 6) & 63);
+      bytes[index++] = 0x80 | (code & 63);
+    } else {
+      bytes[index++] = 0xf0 | (code >> 18);
+      bytes[index++] = 0x80 | ((code >> 12) & 63);
+      bytes[index++] = 0x80 | ((code >> 6) & 63);
+      bytes[index++] = 0x80 | (code & 63);
+    }
+  }
+  return bytes.slice(0, index);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  const units: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 31) << 6) | (bytes[i + 1] & 63);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code = ((byte & 15) << 12) | ((bytes[i + 1] & 63) << 6) | (bytes[i + 2] & 63);
+      i += 3;
+    } else {
+      code =
+        ((byte & 7) << 18) |
+        ((bytes[i + 1] & 63) << 12) |
+        ((bytes[i + 2] & 63) << 6) |
+        (bytes[i + 3] & 63);
+      i += 4;
+    }
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      units.push(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      units.push(code);
+    }
+    if (units.length >= STRING_CHUNK_SIZE) {
+      chunks.push(String.fromCharCode(...units));
+      units.length = 0;
+    }
+  }
+  chunks.push(String.fromCharCode(...units));
+  return chunks.join("");
+}
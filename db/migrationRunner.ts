@@ -0,0 +1,192 @@
+import type * as SQLite from "expo-sqlite";
+
+/**
+ * A single, ordered schema step tracked through `PRAGMA user_version`.
+ *
+ * Each step runs inside its own transaction together with the version bump,
+ * so an interrupted upgrade resumes from the first step that did not commit.
+ * `up` must not open its own transaction.
+ */
+export type SchemaMigration = {
+  version: number;
+  name: string;
+  /**
+   * Table rebuilds (drop column, new constraints) must run with foreign keys
+   * disabled, otherwise dropping the old table cascades into child rows.
+   * The pragma cannot change inside a transaction, so the runner toggles it.
+   */
+  disableForeignKeys?: boolean;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+};
+
+export type AppliedSchemaMigration = Pick<SchemaMigration, "version" | "name">;
+
+export type SchemaMigrationResult = {
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedSchemaMigration[];
+};
+
+type UserVersionRow = { user_version: number };
+type ForeignKeysRow = { foreign_keys: number };
+
+export async function getSchemaVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  const row = await db.getFirstAsync<UserVersionRow>("PRAGMA user_version;");
+  return row?.user_version ?? 0;
+}
+
+async function setSchemaVersion(db: SQLite.SQLiteDatabase, version: number): Promise<void> {
+  // PRAGMA does not accept bound parameters; the version is validated as a
+  // positive integer before it gets here.
+  await db.execAsync(`PRAGMA user_version = ${version};`);
+}
+
+export function getLatestSchemaVersion(migrations: SchemaMigration[]): number {
+  return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
+
+/**
+ * Throws when versions are not strictly ascending positive integers.
+ * Gaps are allowed so a withdrawn step can keep its number retired.
+ */
+export function validateSchemaMigrations(migrations: SchemaMigration[]): void {
+  let previous = 0;
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= 0) {
+      throw new Error(
+        `Schema migration "${migration.name}" has an invalid version: ${migration.version}`
+      );
+    }
+    if (migration.version <= previous) {
+      throw new Error(
+        `Schema migration "${migration.name}" (v${migration.version}) must come after v${previous}`
+      );
+    }
+    previous = migration.version;
+  }
+}
+
+async function applyMigration(
+  db: SQLite.SQLiteDatabase,
+  migration: SchemaMigration
+): Promise<void> {
+  let restoreForeignKeys = false;
+
+  if (migration.disableForeignKeys) {
+    const foreignKeys = await db.getFirstAsync<ForeignKeysRow>("PRAGMA foreign_keys;");
+    restoreForeignKeys = (foreignKeys?.foreign_keys ?? 0) === 1;
+    await db.execAsync("PRAGMA foreign_keys = OFF;");
+  }
+
+  try {
+    await db.execAsync("BEGIN TRANSACTION;");
+    try {
+      await migration.up(db);
+
+      if (migration.disableForeignKeys) {
+        const violations = await db.getAllAsync("PRAGMA foreign_key_check;");
+        if (violations.length > 0) {
+          throw new Error(`Foreign key check failed with ${violations.length} violation(s)`);
+        }
+      }
+
+      await setSchemaVersion(db, migration.version);
+      await db.execAsync("COMMIT;");
+    } catch (error) {
+      await db.execAsync("ROLLBACK;");
+      throw error;
+    }
+  } finally {
+    if (restoreForeignKeys) {
+      await db.execAsync("PRAGMA foreign_keys = ON;");
+    }
+  }
+}
+
+/**
+ * Applies every migration newer than the database's `user_version`, in order.
+ * Stops at the first failure; the failed step is rolled back and retried on
+ * the next run while earlier steps stay committed.
+ */
+export async function runSchemaMigrations(
+  db: SQLite.SQLiteDatabase,
+  migrations: SchemaMigration[]
+): Promise<SchemaMigrationResult> {
+  validateSchemaMigrations(migrations);
+
+  const fromVersion = await getSchemaVersion(db);
+  const latestVersion = getLatestSchemaVersion(migrations);
+
+  if (fromVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${fromVersion} is newer than this app supports (${latestVersion})`
+    );
+  }
+
+  const applied: AppliedSchemaMigration[] = [];
+  let currentVersion = fromVersion;
+
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) {
+      continue;
+    }
+
+    try {
+      await applyMigration(db, migration);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Schema migration v${migration.version} (${migration.name}) failed: ${message}`
+      );
+    }
+
+    applied.push({ version: migration.version, name: migration.name });
+    currentVersion = migration.version;
+  }
+
+  return { fromVersion, toVersion: currentVersion, applied };
+}
+
+export type TableRebuild = {
+  table: string;
+  /** Builds the CREATE TABLE statement for the new shape under the given name. */
+  createSql: (tableName: string) => string;
+  /** Columns copied from the old table; columns not listed are dropped. */
+  columns: string[];
+  /** Optional SELECT expressions matching `columns`, for backfilling or casting. */
+  selectExpressions?: string[];
+  /** Index statements to recreate after the swap. */
+  indexSql?: string[];
+};
+
+/**
+ * SQLite's recommended rebuild for changes ALTER TABLE cannot express:
+ * create the new shape, copy, drop the old table, rename the copy into place.
+ * Run it from a migration with `disableForeignKeys: true`.
+ */
+export async function rebuildTable(
+  db: SQLite.SQLiteDatabase,
+  rebuild: TableRebuild
+): Promise<void> {
+  const { table, createSql, columns, selectExpressions, indexSql = [] } = rebuild;
+
+  if (selectExpressions && selectExpressions.length !== columns.length) {
+    throw new Error(`Rebuild of ${table} needs one select expression per column`);
+  }
+
+  const nextTable = `${table}__next`;
+  const columnList = columns.join(", ");
+  const selectList = (selectExpressions ?? columns).join(", ");
+
+  await db.execAsync(`DROP TABLE IF EXISTS ${nextTable};`);
+  await db.execAsync(createSql(nextTable));
+  await db.execAsync(
+    `INSERT INTO ${nextTable} (${columnList}) SELECT ${selectList} FROM ${table};`
+  );
+  await db.execAsync(`DROP TABLE ${table};`);
+  await db.execAsync(`ALTER TABLE ${nextTable} RENAME TO ${table};`);
+
+  for (const statement of indexSql) {
+    await db.execAsync(statement);
+  }
+}
@@ -0,0 +1,83 @@
+import * as FileSystem from "expo-file-system/legacy";
+
+// Attachments are written as soon as they are captured, before the entry is
+// saved. Files younger than this may belong to an open entry form and are kept
+// by the unreferenced-file sweep.
+export const UNSAVED_ATTACHMENT_GRACE_MS = 60 * 60 * 1000;
+
+export function createAttachmentId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function ensureDirectory(dir: string): Promise<void> {
+  const dirInfo = await FileSystem.getInfoAsync(dir);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  }
+}
+
+export async function deleteAttachmentFiles(dir: string, fileNames: string[]): Promise<void> {
+  for (const fileName of fileNames) {
+    try {
+      await FileSystem.deleteAsync(`${dir}${fileName}`, { idempotent: true });
+    } catch (error) {
+      console.warn(`Failed to delete attachment file ${fileName}:`, error);
+    }
+  }
+}
+
+/**
+ * Deletes files in `dir` that are not listed in `keep`, skipping files still
+ * inside the unsaved grace period.
+ */
+export async function purgeUnreferencedFiles(
+  dir: string,
+  keep: Set<string>,
+  now = Date.now()
+): Promise<number> {
+  const dirInfo = await FileSystem.getInfoAsync(dir);
+  if (!dirInfo.exists) {
+    return 0;
+  }
+
+  const files = await FileSystem.readDirectoryAsync(dir);
+  let deletedCount = 0;
+
+  for (const file of files) {
+    if (keep.has(file)) {
+      continue;
+    }
+
+    const uri = `${dir}${file}`;
+    try {
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists) {
+        continue;
+      }
+      // modificationTime is reported in seconds.
+      if (now - info.modificationTime * 1000 < UNSAVED_ATTACHMENT_GRACE_MS) {
+        continue;
+      }
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      deletedCount++;
+    } catch (error) {
+      console.warn(`Failed to purge attachment file ${file}:`, error);
+    }
+  }
+
+  return deletedCount;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export function isBase64(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && BASE64_PATTERN.test(value);
+}
+
+export function readBase64(uri: string): Promise<string> {
+  return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+}
+
+export function writeBase64(uri: string, data: string): Promise<void> {
+  return FileSystem.writeAsStringAsync(uri, data, { encoding: FileSystem.EncodingType.Base64 });
+}
@@ -0,0 +1,65 @@
+import { getDb } from "../client";
+
+export const MOOD_CHANGE_LOG_TABLE = "mood_changes";
+
+/**
+ * Every insert, update and delete on `moods` appends the entry id to the
+ * change log, whichever code path made it (edits, imports, emotion renames).
+ * Incremental backups read the ids changed since their full backup and look
+ * up the current rows, so the log only needs ids, not the kind of change.
+ */
+export const CREATE_MOOD_CHANGE_LOG_SQL = `
+  CREATE TABLE IF NOT EXISTS ${MOOD_CHANGE_LOG_TABLE} (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    mood_id INTEGER NOT NULL
+  );
+  CREATE TRIGGER IF NOT EXISTS moods_changes_after_insert AFTER INSERT ON moods BEGIN
+    INSERT INTO ${MOOD_CHANGE_LOG_TABLE} (mood_id) VALUES (new.id);
+  END;
+  CREATE TRIGGER IF NOT EXISTS moods_changes_after_update AFTER UPDATE ON moods BEGIN
+    INSERT INTO ${MOOD_CHANGE_LOG_TABLE} (mood_id) VALUES (new.id);
+  END;
+  CREATE TRIGGER IF NOT EXISTS moods_changes_after_delete AFTER DELETE ON moods BEGIN
+    INSERT INTO ${MOOD_CHANGE_LOG_TABLE} (mood_id) VALUES (old.id);
+  END;
+`;
+
+export type MoodChanges = {
+  /** Distinct ids of entries created, changed or deleted. */
+  moodIds: number[];
+  /** Sequence number of the newest change read. */
+  throughSeq: number;
+};
+
+/**
+ * The sequence number of the newest change. Read it before taking a full
+ * backup; changes after it belong to the next incremental one.
+ */
+export async function getMoodChangeSequence(): Promise<number> {
+  const db = await getDb();
+  // AUTOINCREMENT never reuses numbers, so sqlite_sequence still holds the
+  // latest one after the log has been pruned.
+  const row = await db.getFirstAsync<{ seq: number | null }>(
+    "SELECT seq FROM sqlite_sequence WHERE name = ?;",
+    MOOD_CHANGE_LOG_TABLE
+  );
+  return row?.seq ?? 0;
+}
+
+export async function getMoodChangesSince(sequence: number): Promise<MoodChanges> {
+  const db = await getDb();
+  const rows = await db.getAllAsync<{ mood_id: number; seq: number }>(
+    `SELECT mood_id, MAX(seq) AS seq FROM ${MOOD_CHANGE_LOG_TABLE} WHERE seq > ? GROUP BY mood_id ORDER BY seq;`,
+    sequence
+  );
+  return {
+    moodIds: rows.map((row) => row.mood_id),
+    throughSeq: rows.reduce((latest, row) => Math.max(latest, row.seq), sequence),
+  };
+}
+
+/** Drops changes a newer full backup already contains. */
+export async function pruneMoodChanges(throughSequence: number): Promise<void> {
+  const db = await getDb();
+  await db.runAsync(`DELETE FROM ${MOOD_CHANGE_LOG_TABLE} WHERE seq <= ?;`, throughSequence);
+}
@@ -0,0 +1,546 @@
+import type { Emotion } from "../types";
+import { isValidTimestamp } from "../validation";
+import { getSupportedMoodScaleSnapshot } from "../../domain/moodScale";
+import { THERAPY_EXPORT_SUMMARY_HEADING } from "../../domain/entrySettings";
+
+export type CsvTimestampFormat = "iso" | "dateTime" | "unixSeconds" | "unixMilliseconds";
+
+/** Order of the day, month and year parts in `dateTime` values. */
+export type CsvDateOrder = "ymd" | "mdy" | "dmy";
+
+/**
+ * Describes how the columns of a CSV file become mood entries. Columns are
+ * referenced by header name, matched case-insensitively.
+ */
+export type CsvImportMapping = {
+  timestamp: {
+    column: string;
+    format: CsvTimestampFormat;
+    dateOrder: CsvDateOrder;
+    /** Separate time-of-day column for layouts that split date and time. */
+    timeColumn?: string | null;
+  };
+  mood: {
+    column: string;
+    /** Range of the source app's ratings; converted onto the 0 (best) to 10 (worst) scale. */
+    min: number;
+    max: number;
+    lowerIsBetter: boolean;
+    /** Text ratings mapped onto `min`..`max`, for apps that export mood names. */
+    labels?: Record<string, number>;
+    /** Keeps ratings as recorded when the row carries Moodinator's scale columns. */
+    useScaleColumns?: boolean;
+  };
+  emotions?: { column: string; delimiter: string } | null;
+  contextTags?: { column: string; delimiter: string } | null;
+  energy?: { column: string; min: number; max: number } | null;
+  /** Non-empty values are joined with a blank line, e.g. a title and a body. */
+  notes?: { columns: string[] } | null;
+};
+
+export type CsvImportPreset = {
+  id: "moodinator" | "daylio";
+  label: string;
+  /** Headers that identify the layout. */
+  requiredHeaders: string[];
+  createMapping: (headers: string[]) => CsvImportMapping;
+};
+
+export type CsvImportedRow = {
+  timestamp: number;
+  mood: number;
+  moodScale?: unknown;
+  emotions: Emotion[];
+  contextTags: string[];
+  energy: number | null;
+  note: string | null;
+};
+
+export type CsvConversionResult = {
+  rows: CsvImportedRow[];
+  errors: string[];
+};
+
+const MOOD_SCALE_VALUE_MAX = 10;
+const DEFAULT_TIME_OF_DAY_HOUR = 12;
+
+const THERAPY_SCALE_HEADERS = {
+  version: "Mood Scale Version",
+  min: "Mood Scale Min",
+  max: "Mood Scale Max",
+  direction: "Mood Scale Direction",
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with escaped quotes
+ * and line breaks, CRLF line endings and a leading byte order mark. Blank
+ * lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = detectCsvDelimiter(text)): string[][] {
+  const source = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim().length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/** Picks comma, semicolon or tab by counting them in the header line. */
+export function detectCsvDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const candidates = [",", ";", "\t"];
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+function findHeader(headers: string[], name: string): string | null {
+  const wanted = normalizeHeader(name);
+  return headers.find((header) => normalizeHeader(header) === wanted) ?? null;
+}
+
+function findHeaderMatching(headers: string[], pattern: RegExp): string | null {
+  return headers.find((header) => pattern.test(header)) ?? null;
+}
+
+/** Reads the date order the device uses when it formats dates. */
+export function getLocaleDateOrder(locale?: string): CsvDateOrder {
+  const formatted = new Date(2006, 10, 22).toLocaleDateString(locale);
+  const year = formatted.indexOf("2006");
+  const month = formatted.indexOf("11");
+  const day = formatted.indexOf("22");
+  if (year === -1 || month === -1 || day === -1) {
+    return "mdy";
+  }
+  if (year < month && year < day) {
+    return "ymd";
+  }
+  return day < month ? "dmy" : "mdy";
+}
+
+export const CSV_IMPORT_PRESETS: CsvImportPreset[] = [
+  {
+    id: "moodinator",
+    label: "Moodinator CSV",
+    requiredHeaders: ["Timestamp", "Mood Rating"],
+    createMapping: (headers) => {
+      const emotions = findHeader(headers, "Emotions");
+      const contextTags = findHeader(headers, "Context Tags");
+      const energy = findHeader(headers, "Energy Level");
+      const notes = findHeader(headers, "Notes");
+      return {
+        timestamp: {
+          column: "Timestamp",
+          format: "dateTime",
+          // The therapy export writes timestamps in the device's locale.
+          dateOrder: getLocaleDateOrder(),
+        },
+        mood: {
+          column: "Mood Rating",
+          min: 0,
+          max: 10,
+          lowerIsBetter: true,
+          useScaleColumns: true,
+        },
+        emotions: emotions ? { column: emotions, delimiter: ";" } : null,
+        contextTags: contextTags ? { column: contextTags, delimiter: ";" } : null,
+        energy: energy ? { column: energy, min: 0, max: 10 } : null,
+        notes: notes ? { columns: [notes] } : null,
+      };
+    },
+  },
+  {
+    id: "daylio",
+    label: "Daylio",
+    requiredHeaders: ["full_date", "time", "mood"],
+    createMapping: (headers) => {
+      const activities = findHeader(headers, "activities");
+      const notes = ["note_title", "note"]
+        .map((name) => findHeader(headers, name))
+        .filter((header): header is string => header !== null);
+      return {
+        timestamp: {
+          column: "full_date",
+          format: "dateTime",
+          dateOrder: "ymd",
+          timeColumn: "time",
+        },
+        mood: {
+          column: "mood",
+          min: 1,
+          max: 5,
+          lowerIsBetter: false,
+          labels: { awful: 1, bad: 2, meh: 3, good: 4, rad: 5 },
+        },
+        emotions: null,
+        contextTags: activities ? { column: activities, delimiter: "|" } : null,
+        energy: null,
+        notes: notes.length > 0 ? { columns: notes } : null,
+      };
+    },
+  },
+];
+
+export function detectCsvImportPreset(headers: string[]): CsvImportPreset | null {
+  return (
+    CSV_IMPORT_PRESETS.find((preset) =>
+      preset.requiredHeaders.every((header) => findHeader(headers, header) !== null)
+    ) ?? null
+  );
+}
+
+export function guessCsvTimestampFormat(value: string): CsvTimestampFormat {
+  const trimmed = value.trim();
+  if (/^\d{13}$/.test(trimmed)) {
+    return "unixMilliseconds";
+  }
+  if (/^\d{9,10}$/.test(trimmed)) {
+    return "unixSeconds";
+  }
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    return "iso";
+  }
+  return "dateTime";
+}
+
+/**
+ * Starting mapping for a file: the matching preset's, or columns guessed from
+ * common header names with the scale inferred from the first rows.
+ */
+export function createCsvImportMapping(headers: string[], rows: string[][] = []): CsvImportMapping {
+  const preset = detectCsvImportPreset(headers);
+  if (preset) {
+    return preset.createMapping(headers);
+  }
+
+  const timestamp = findHeaderMatching(headers, /date|time/i) ?? headers[0] ?? "";
+  const mood = findHeaderMatching(headers, /mood|rating|score/i) ?? headers[1] ?? "";
+  const emotions = findHeaderMatching(headers, /emotion|feeling/i);
+  const contextTags = findHeaderMatching(headers, /tag|activit|context/i);
+  const energy = findHeaderMatching(headers, /energy/i);
+  const notes = findHeaderMatching(headers, /note|comment|journal/i);
+
+  const timestampIndex = headers.indexOf(timestamp);
+  const moodIndex = headers.indexOf(mood);
+  const moodValues = rows
+    .map((row) => Number(row[moodIndex]))
+    .filter((value) => Number.isFinite(value));
+  const observedMax = moodValues.length > 0 ? Math.max(...moodValues) : 10;
+  const observedMin = moodValues.length > 0 ? Math.min(...moodValues) : 1;
+
+  return {
+    timestamp: {
+      column: timestamp,
+      format: guessCsvTimestampFormat(rows[0]?.[timestampIndex] ?? ""),
+      dateOrder: getLocaleDateOrder(),
+    },
+    mood: {
+      column: mood,
+      min: observedMin < 1 ? 0 : 1,
+      max: observedMax <= 5 ? 5 : observedMax <= 10 ? 10 : 100,
+      lowerIsBetter: false,
+    },
+    emotions: emotions ? { column: emotions, delimiter: ";" } : null,
+    contextTags: contextTags ? { column: contextTags, delimiter: ";" } : null,
+    energy: energy ? { column: energy, min: 0, max: 10 } : null,
+    notes: notes ? { columns: [notes] } : null,
+  };
+}
+
+function parseTimeOfDay(value: string): [number, number, number] | null {
+  const match = value.trim().match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap])?\.?\s*m?\.?/i);
+  if (!match) {
+    return null;
+  }
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = match[3] ? Number(match[3]) : 0;
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === "p" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+  return [hours, minutes, seconds];
+}
+
+/** Parses a local date with an optional time, in the given part order. */
+function parseDateTime(value: string, dateOrder: CsvDateOrder): number | null {
+  const dateMatch = value.match(/(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})/);
+  if (!dateMatch) {
+    return null;
+  }
+  const parts = [dateMatch[1], dateMatch[2], dateMatch[3]].map(Number);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (dateOrder === "ymd" || dateMatch[1].length === 4) {
+    [year, month, day] = parts;
+  } else if (dateOrder === "dmy") {
+    [day, month, year] = parts;
+  } else {
+    [month, day, year] = parts;
+  }
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const rest = value.slice((dateMatch.index ?? 0) + dateMatch[0].length);
+  const time = rest.trim() ? parseTimeOfDay(rest) : [DEFAULT_TIME_OF_DAY_HOUR, 0, 0];
+  if (!time) {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day, time[0], time[1], time[2]);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date.getTime();
+}
+
+function parseTimestamp(
+  value: string,
+  timeValue: string | null,
+  mapping: CsvImportMapping["timestamp"]
+): number | null {
+  const trimmed = value.trim();
+  switch (mapping.format) {
+    case "unixSeconds":
+    case "unixMilliseconds": {
+      if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+        return null;
+      }
+      const numeric = Number(trimmed);
+      return Math.round(mapping.format === "unixSeconds" ? numeric * 1000 : numeric);
+    }
+    case "iso": {
+      const parsed = Date.parse(trimmed);
+      return Number.isNaN(parsed) ? null : parsed;
+    }
+    default:
+      return parseDateTime(timeValue ? `${trimmed} ${timeValue.trim()}` : trimmed, mapping.dateOrder);
+  }
+}
+
+/** Converts `value` from `min`..`max` onto 0..10, flipping the direction when needed. */
+function toMoodScaleValue(value: number, min: number, max: number, lowerIsBetter: boolean) {
+  const position = (value - min) / (max - min);
+  const scaled = (lowerIsBetter ? position : 1 - position) * MOOD_SCALE_VALUE_MAX;
+  return Math.round(scaled);
+}
+
+function parseMood(
+  value: string,
+  readCell: (column: string) => string | null,
+  mapping: CsvImportMapping["mood"]
+): Pick<CsvImportedRow, "mood" | "moodScale"> | null {
+  const trimmed = value.trim();
+  if (!trimmed || mapping.max === mapping.min) {
+    return null;
+  }
+
+  let numeric: number | null = null;
+  if (mapping.labels) {
+    const label = Object.keys(mapping.labels).find(
+      (key) => key.toLowerCase() === trimmed.toLowerCase()
+    );
+    numeric = label ? mapping.labels[label] : null;
+  }
+  if (numeric === null && /^-?\d+(\.\d+)?$/.test(trimmed)) {
+    numeric = Number(trimmed);
+  }
+  if (numeric === null) {
+    return null;
+  }
+
+  if (mapping.useScaleColumns) {
+    const direction = readCell(THERAPY_SCALE_HEADERS.direction);
+    const scale = getSupportedMoodScaleSnapshot({
+      version: Number(readCell(THERAPY_SCALE_HEADERS.version)),
+      min: Number(readCell(THERAPY_SCALE_HEADERS.min)),
+      max: Number(readCell(THERAPY_SCALE_HEADERS.max)),
+      lowerIsBetter: direction?.trim().toLowerCase() === "lower is better",
+    });
+    if (scale && Number.isInteger(numeric) && numeric >= scale.min && numeric <= scale.max) {
+      return { mood: numeric, moodScale: scale };
+    }
+  }
+
+  const low = Math.min(mapping.min, mapping.max);
+  const high = Math.max(mapping.min, mapping.max);
+  if (numeric < low || numeric > high) {
+    return null;
+  }
+  return { mood: toMoodScaleValue(numeric, mapping.min, mapping.max, mapping.lowerIsBetter) };
+}
+
+function splitList(value: string | null, delimiter: string): string[] {
+  if (!value) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const items: string[] = [];
+  for (const item of value.split(delimiter || ";")) {
+    const trimmed = item.trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase());
+      items.push(trimmed);
+    }
+  }
+  return items;
+}
+
+/**
+ * Converts parsed CSV rows (header first) into entries. Rows that cannot be
+ * read are reported by their line number in the file and left out. Emotion
+ * names take their category from `knownEmotions` and default to neutral.
+ * A therapy export's baseline summary, after the entries, is skipped.
+ */
+export function convertCsvRows(
+  rows: string[][],
+  mapping: CsvImportMapping,
+  knownEmotions: Emotion[] = []
+): CsvConversionResult {
+  const [headerRow = [], ...rowsAfterHeader] = rows;
+  const summaryStart = rowsAfterHeader.findIndex(
+    (row) => row.length === 1 && row[0].trim() === THERAPY_EXPORT_SUMMARY_HEADING
+  );
+  const dataRows = summaryStart === -1 ? rowsAfterHeader : rowsAfterHeader.slice(0, summaryStart);
+  const headers = headerRow.map(normalizeHeader);
+  const result: CsvConversionResult = { rows: [], errors: [] };
+
+  const missing = [mapping.timestamp.column, mapping.mood.column].filter(
+    (column) => !headers.includes(normalizeHeader(column))
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `CSV is missing the ${missing.map((column) => `"${column}"`).join(" and ")} column${missing.length > 1 ? "s" : ""}`
+    );
+  }
+
+  const categories = new Map(
+    knownEmotions.map((emotion) => [emotion.name.toLowerCase(), emotion.category])
+  );
+
+  dataRows.forEach((row, index) => {
+    const line = index + 2;
+    const readCell = (column: string): string | null => {
+      const position = headers.indexOf(normalizeHeader(column));
+      return position === -1 ? null : (row[position] ?? null);
+    };
+
+    const timestampValue = readCell(mapping.timestamp.column)?.trim() ?? "";
+    if (!timestampValue) {
+      result.errors.push(`Row ${line}: Missing date`);
+      return;
+    }
+    const timeValue = mapping.timestamp.timeColumn ? readCell(mapping.timestamp.timeColumn) : null;
+    const timestamp = parseTimestamp(timestampValue, timeValue, mapping.timestamp);
+    if (timestamp === null) {
+      result.errors.push(`Row ${line}: Unrecognized date "${timestampValue}"`);
+      return;
+    }
+    if (!isValidTimestamp(timestamp)) {
+      result.errors.push(`Row ${line}: Date is out of range`);
+      return;
+    }
+
+    const moodValue = readCell(mapping.mood.column) ?? "";
+    if (!moodValue.trim()) {
+      result.errors.push(`Row ${line}: Missing mood value`);
+      return;
+    }
+    const mood = parseMood(moodValue, readCell, mapping.mood);
+    if (!mood) {
+      result.errors.push(`Row ${line}: Unrecognized mood value "${moodValue.trim()}"`);
+      return;
+    }
+
+    let energy: number | null = null;
+    const energyValue = mapping.energy ? readCell(mapping.energy.column)?.trim() : "";
+    if (mapping.energy && energyValue) {
+      const numeric = Number(energyValue);
+      if (!Number.isFinite(numeric) || mapping.energy.max === mapping.energy.min) {
+        result.errors.push(`Row ${line}: Unrecognized energy value "${energyValue}"`);
+        return;
+      }
+      energy = toMoodScaleValue(numeric, mapping.energy.min, mapping.energy.max, true);
+    }
+
+    const note = (mapping.notes?.columns ?? [])
+      .map((column) => readCell(column)?.trim() ?? "")
+      .filter((value) => value.length > 0)
+      .join("\n\n");
+
+    result.rows.push({
+      timestamp,
+      ...mood,
+      emotions: mapping.emotions
+        ? splitList(readCell(mapping.emotions.column), mapping.emotions.delimiter).map((name) => ({
+            name,
+            category: categories.get(name.toLowerCase()) ?? "neutral",
+          }))
+        : [],
+      contextTags: mapping.contextTags
+        ? splitList(readCell(mapping.contextTags.column), mapping.contextTags.delimiter)
+        : [],
+      energy,
+      note: note || null,
+    });
+  });
+
+  return result;
+}
@@ -158,63 +158,76 @@ export async function linkEmotionsToMood(
   }
 }
 
-export async function migrateEmotionsToTable(
-  database?: SQLite.SQLiteDatabase
-): Promise<{ migrated: number }> {
-  const db = database ?? (await getDb());
+/**
+ * Copies the legacy `moods.emotions` JSON into the emotions and mood_emotions
+ * tables. Runs inside the caller's transaction.
+ */
+export async function populateMoodEmotionsTable(
+  db: SQLite.SQLiteDatabase
+): Promise<{ migrated: number; uniqueEmotions: number }> {
   let migrated = 0;
   const emotionIds = new Map<string, number>();
 
-  await db.execAsync("BEGIN TRANSACTION;");
-  try {
-    const rows = await db.getAllAsync<Pick<MoodRow, "id" | "emotions">>(
-      "SELECT id, emotions FROM moods;"
-    );
+  const rows = await db.getAllAsync<Pick<MoodRow, "id" | "emotions">>(
+    "SELECT id, emotions FROM moods;"
+  );
 
-    for (const row of rows) {
-      const rawEmotions = row.emotions;
-      if (!rawEmotions || rawEmotions === "[]") {
+  for (const row of rows) {
+    const rawEmotions = row.emotions;
+    if (!rawEmotions || rawEmotions === "[]") {
+      continue;
+    }
+
+    try {
+      const parsed = JSON.parse(rawEmotions);
+      if (!Array.isArray(parsed) || parsed.length === 0) {
         continue;
       }
 
-      try {
-        const parsed = JSON.parse(rawEmotions);
-        if (!Array.isArray(parsed) || parsed.length === 0) {
-          continue;
-        }
-
-        const emotions: Emotion[] = parsed
-          .map(parseEmotionItem)
-          .filter((e): e is Emotion => e !== null);
-
-        for (const emotion of emotions) {
-          let emotionId: number;
-          if (emotionIds.has(emotion.name)) {
-            emotionId = emotionIds.get(emotion.name)!;
-          } else {
-            emotionId = await getOrCreateEmotionId(db, emotion);
-            emotionIds.set(emotion.name, emotionId);
-          }
+      const emotions: Emotion[] = parsed
+        .map(parseEmotionItem)
+        .filter((e): e is Emotion => e !== null);
 
-          await db.runAsync(
-            "INSERT OR IGNORE INTO mood_emotions (mood_id, emotion_id) VALUES (?, ?);",
-            row.id,
-            emotionId
-          );
+      for (const emotion of emotions) {
+        let emotionId: number;
+        if (emotionIds.has(emotion.name)) {
+          emotionId = emotionIds.get(emotion.name)!;
+        } else {
+          emotionId = await getOrCreateEmotionId(db, emotion);
+          emotionIds.set(emotion.name, emotionId);
         }
 
-        migrated++;
-      } catch (error) {
-        console.error(
-          `Failed to migrate emotions for mood ${row.id}:`,
-          error
+        await db.runAsync(
+          "INSERT OR IGNORE INTO mood_emotions (mood_id, emotion_id) VALUES (?, ?);",
+          row.id,
+          emotionId
         );
       }
+
+      migrated++;
+    } catch (error) {
+      console.error(
+        `Failed to migrate emotions for mood ${row.id}:`,
+        error
+      );
     }
+  }
+
+  return { migrated, uniqueEmotions: emotionIds.size };
+}
+
+export async function migrateEmotionsToTable(
+  database?: SQLite.SQLiteDatabase
+): Promise<{ migrated: number }> {
+  const db = database ?? (await getDb());
+
+  await db.execAsync("BEGIN TRANSACTION;");
+  try {
+    const { migrated, uniqueEmotions } = await populateMoodEmotionsTable(db);
 
     await db.execAsync("COMMIT;");
     console.log(
-      `Emotion migration complete: ${migrated} moods migrated, ${emotionIds.size} unique emotions in table`
+      `Emotion migration complete: ${migrated} moods migrated, ${uniqueEmotions} unique emotions in table`
     );
     return { migrated };
   } catch (error) {
@@ -0,0 +1,479 @@
+import { CryptoDigestAlgorithm, digest } from "expo-crypto";
+import {
+  DEFAULT_QUICK_ENTRY_PREFS,
+  parseEmotionList,
+  parseStringList,
+  type Emotion,
+  type QuickEntryPrefs,
+} from "../../domain/entrySettings";
+import { bytesToHex, utf8Encode } from "../hashing";
+
+export const MOOD_EXPORT_FORMAT = "moodinator-export";
+/** Version 1 is the bare entry array written before the envelope existed. */
+export const LEGACY_MOOD_EXPORT_FORMAT_VERSION = 1;
+export const MOOD_EXPORT_FORMAT_VERSION = 2;
+
+/**
+ * Incremental backups hold the entries created or changed since a full
+ * backup, plus the ids deleted since, and only make sense replayed on top of
+ * it. They use their own format so no version imports one as a full file.
+ */
+export const INCREMENTAL_BACKUP_FORMAT = "moodinator-incremental-backup";
+export const INCREMENTAL_BACKUP_FORMAT_VERSION = 1;
+
+export type ExportedReminder = {
+  id: string;
+  title: string;
+  body: string;
+  hour: number;
+  minute: number;
+  enabled: boolean;
+};
+
+/** Optional configuration sections carried next to the entries. */
+export type MoodExportSettings = {
+  emotions?: Emotion[];
+  contexts?: string[];
+  quickEntryPrefs?: QuickEntryPrefs;
+  reminders?: ExportedReminder[];
+};
+
+export type MoodExportRange = {
+  startDate: number | null;
+  endDate: number | null;
+};
+
+/**
+ * Checksum over the serialized entries, written into backups so a file can
+ * be checked against the data it was made from.
+ */
+export type MoodExportIntegrity = {
+  algorithm: "SHA-256";
+  entryCount: number;
+  /** Hex SHA-256 of `JSON.stringify(entries)`. */
+  entriesChecksum: string;
+};
+
+export type MoodExportIntegrityStatus = "valid" | "mismatch" | "missing";
+
+export type MoodExportEnvelope = {
+  format: typeof MOOD_EXPORT_FORMAT;
+  formatVersion: number;
+  appVersion: string | null;
+  exportedAt: number;
+  /** `null` for a full export. */
+  range: MoodExportRange | null;
+  entries: unknown[];
+  settings?: MoodExportSettings;
+  integrity?: MoodExportIntegrity;
+  /** Set on full backups so incremental backups can name their base. */
+  backupId?: string;
+};
+
+export type IncrementalBackupEnvelope = {
+  format: typeof INCREMENTAL_BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string | null;
+  exportedAt: number;
+  /** `backupId` of the full backup this one applies to. */
+  baseBackupId: string;
+  /** Current state of every entry created or changed since the full backup. */
+  entries: unknown[];
+  /** Ids (as in the full backup) of entries deleted since. */
+  deletedEntryIds: number[];
+  settings?: MoodExportSettings;
+  integrity?: MoodExportIntegrity;
+};
+
+export type MoodExportOptions = {
+  appVersion?: string | null;
+  settings?: MoodExportSettings;
+  exportedAt?: number;
+  /** Adds an `integrity` section; used for backups. */
+  checksum?: boolean;
+  /** Marks a full backup that incremental backups can build on. */
+  backupId?: string;
+};
+
+export type ParsedMoodExport = {
+  formatVersion: number;
+  appVersion: string | null;
+  exportedAt: number | null;
+  entries: unknown[];
+  settings: MoodExportSettings | null;
+  integrity: MoodExportIntegrity | null;
+  backupId: string | null;
+};
+
+export type ParsedIncrementalBackup = {
+  formatVersion: number;
+  appVersion: string | null;
+  exportedAt: number | null;
+  baseBackupId: string;
+  entries: unknown[];
+  deletedEntryIds: number[];
+  settings: MoodExportSettings | null;
+  integrity: MoodExportIntegrity | null;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isClockValue(value: unknown, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= max;
+}
+
+function sanitizeExportedReminders(value: unknown): ExportedReminder[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const reminders: ExportedReminder[] = [];
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.id !== "string" || seen.has(item.id)) {
+      continue;
+    }
+    if (!isClockValue(item.hour, 23) || !isClockValue(item.minute, 59)) {
+      continue;
+    }
+    seen.add(item.id);
+    reminders.push({
+      id: item.id,
+      title: typeof item.title === "string" ? item.title : "",
+      body: typeof item.body === "string" ? item.body : "",
+      hour: item.hour,
+      minute: item.minute,
+      enabled: item.enabled === true,
+    });
+  }
+  return reminders;
+}
+
+function sanitizeQuickEntryPrefs(value: unknown): QuickEntryPrefs | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const prefs = { ...DEFAULT_QUICK_ENTRY_PREFS };
+  for (const key of Object.keys(prefs) as (keyof QuickEntryPrefs)[]) {
+    if (typeof value[key] === "boolean") {
+      prefs[key] = value[key];
+    }
+  }
+  return prefs;
+}
+
+/**
+ * Reads the settings section of an envelope. Sections that are missing or
+ * not arrays/objects are left out so importing never resets them to defaults.
+ */
+export function sanitizeMoodExportSettings(value: unknown): MoodExportSettings | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const settings: MoodExportSettings = {};
+  if (Array.isArray(value.emotions)) {
+    settings.emotions = parseEmotionList(value.emotions);
+  }
+  if (Array.isArray(value.contexts)) {
+    settings.contexts = parseStringList(value.contexts, []);
+  }
+  const quickEntryPrefs = sanitizeQuickEntryPrefs(value.quickEntryPrefs);
+  if (quickEntryPrefs) {
+    settings.quickEntryPrefs = quickEntryPrefs;
+  }
+  if (Array.isArray(value.reminders)) {
+    settings.reminders = sanitizeExportedReminders(value.reminders);
+  }
+  return Object.keys(settings).length > 0 ? settings : null;
+}
+
+export async function buildMoodExportEnvelope(
+  entries: unknown[],
+  range: MoodExportRange | null,
+  options: MoodExportOptions = {}
+): Promise<MoodExportEnvelope> {
+  return {
+    format: MOOD_EXPORT_FORMAT,
+    formatVersion: MOOD_EXPORT_FORMAT_VERSION,
+    appVersion: options.appVersion ?? null,
+    exportedAt: options.exportedAt ?? Date.now(),
+    range,
+    entries,
+    ...(options.settings ? { settings: options.settings } : {}),
+    ...(options.checksum ? { integrity: await createMoodExportIntegrity(entries) } : {}),
+    ...(options.backupId ? { backupId: options.backupId } : {}),
+  };
+}
+
+export async function buildIncrementalBackupEnvelope(
+  baseBackupId: string,
+  entries: unknown[],
+  deletedEntryIds: number[],
+  options: Omit<MoodExportOptions, "backupId"> = {}
+): Promise<IncrementalBackupEnvelope> {
+  return {
+    format: INCREMENTAL_BACKUP_FORMAT,
+    formatVersion: INCREMENTAL_BACKUP_FORMAT_VERSION,
+    appVersion: options.appVersion ?? null,
+    exportedAt: options.exportedAt ?? Date.now(),
+    baseBackupId,
+    entries,
+    deletedEntryIds,
+    ...(options.settings ? { settings: options.settings } : {}),
+    ...(options.checksum ? { integrity: await createMoodExportIntegrity(entries) } : {}),
+  };
+}
+
+export async function createMoodExportIntegrity(entries: unknown[]): Promise<MoodExportIntegrity> {
+  const checksum = await digest(CryptoDigestAlgorithm.SHA256, utf8Encode(JSON.stringify(entries)));
+  return {
+    algorithm: "SHA-256",
+    entryCount: entries.length,
+    entriesChecksum: bytesToHex(new Uint8Array(checksum)),
+  };
+}
+
+function parseMoodExportIntegrity(value: unknown): MoodExportIntegrity | null {
+  if (
+    !isRecord(value) ||
+    value.algorithm !== "SHA-256" ||
+    typeof value.entryCount !== "number" ||
+    typeof value.entriesChecksum !== "string"
+  ) {
+    return null;
+  }
+  return {
+    algorithm: "SHA-256",
+    entryCount: value.entryCount,
+    entriesChecksum: value.entriesChecksum,
+  };
+}
+
+/** Compares the entries of a parsed export with its checksum, if it has one. */
+export async function checkMoodExportIntegrity(
+  parsed: Pick<ParsedMoodExport, "entries" | "integrity">
+): Promise<MoodExportIntegrityStatus> {
+  if (!parsed.integrity) {
+    return "missing";
+  }
+  const actual = await createMoodExportIntegrity(parsed.entries);
+  return actual.entryCount === parsed.integrity.entryCount &&
+    actual.entriesChecksum === parsed.integrity.entriesChecksum
+    ? "valid"
+    : "mismatch";
+}
+
+/**
+ * Detects the format of parsed export JSON. Accepts the legacy bare array and
+ * envelopes up to the current version; newer envelopes are rejected rather
+ * than half-imported.
+ */
+export function parseMoodExport(parsed: unknown): ParsedMoodExport {
+  if (Array.isArray(parsed)) {
+    return {
+      formatVersion: LEGACY_MOOD_EXPORT_FORMAT_VERSION,
+      appVersion: null,
+      exportedAt: null,
+      entries: parsed,
+      settings: null,
+      integrity: null,
+      backupId: null,
+    };
+  }
+
+  if (isIncrementalBackup(parsed)) {
+    throw new Error(
+      "This is an incremental backup. Restore it from the backup list so its full backup is applied first."
+    );
+  }
+  if (!isRecord(parsed) || parsed.format !== MOOD_EXPORT_FORMAT) {
+    throw new Error("Import data must be an array or a Moodinator export");
+  }
+
+  const formatVersion = parsed.formatVersion;
+  if (
+    typeof formatVersion !== "number" ||
+    !Number.isInteger(formatVersion) ||
+    formatVersion < MOOD_EXPORT_FORMAT_VERSION
+  ) {
+    throw new Error("Unsupported export format version");
+  }
+  if (formatVersion > MOOD_EXPORT_FORMAT_VERSION) {
+    throw new Error(
+      "This export was created by a newer version of Moodinator. Update the app to import it."
+    );
+  }
+  if (!Array.isArray(parsed.entries)) {
+    throw new Error("Export is missing its entries");
+  }
+
+  return {
+    formatVersion,
+    appVersion: typeof parsed.appVersion === "string" ? parsed.appVersion : null,
+    exportedAt: typeof parsed.exportedAt === "number" ? parsed.exportedAt : null,
+    entries: parsed.entries,
+    settings: sanitizeMoodExportSettings(parsed.settings),
+    integrity: parseMoodExportIntegrity(parsed.integrity),
+    backupId: typeof parsed.backupId === "string" ? parsed.backupId : null,
+  };
+}
+
+export function isIncrementalBackup(parsed: unknown): boolean {
+  return isRecord(parsed) && parsed.format === INCREMENTAL_BACKUP_FORMAT;
+}
+
+export function parseIncrementalBackup(parsed: unknown): ParsedIncrementalBackup {
+  if (!isRecord(parsed) || parsed.format !== INCREMENTAL_BACKUP_FORMAT) {
+    throw new Error("Not an incremental backup");
+  }
+  const formatVersion = parsed.formatVersion;
+  if (typeof formatVersion !== "number" || !Number.isInteger(formatVersion) || formatVersion < 1) {
+    throw new Error("Unsupported incremental backup version");
+  }
+  if (formatVersion > INCREMENTAL_BACKUP_FORMAT_VERSION) {
+    throw new Error(
+      "This backup was created by a newer version of Moodinator. Update the app to restore it."
+    );
+  }
+  if (
+    typeof parsed.baseBackupId !== "string" ||
+    !Array.isArray(parsed.entries) ||
+    !Array.isArray(parsed.deletedEntryIds)
+  ) {
+    throw new Error("Incremental backup is damaged");
+  }
+
+  return {
+    formatVersion,
+    appVersion: typeof parsed.appVersion === "string" ? parsed.appVersion : null,
+    exportedAt: typeof parsed.exportedAt === "number" ? parsed.exportedAt : null,
+    baseBackupId: parsed.baseBackupId,
+    entries: parsed.entries,
+    deletedEntryIds: parsed.deletedEntryIds.filter(
+      (id): id is number => typeof id === "number" && Number.isInteger(id)
+    ),
+    settings: sanitizeMoodExportSettings(parsed.settings),
+    integrity: parseMoodExportIntegrity(parsed.integrity),
+  };
+}
+
+function entryId(entry: unknown): number | null {
+  return isRecord(entry) && typeof entry.id === "number" ? entry.id : null;
+}
+
+function entryTimestamp(entry: unknown): number {
+  return isRecord(entry) && typeof entry.timestamp === "number" ? entry.timestamp : 0;
+}
+
+/**
+ * Rebuilds a full export from a full backup and incremental backups made on
+ * top of it, applied oldest first. Each incremental backup holds every change
+ * since the full one, so a missing middle file doesn't lose data.
+ */
+export async function replayIncrementalBackups(
+  fullJson: string,
+  incrementalJsons: string[]
+): Promise<string> {
+  const full = parseMoodExport(JSON.parse(fullJson));
+  if (incrementalJsons.length === 0) {
+    return fullJson;
+  }
+  if (!full.backupId) {
+    throw new Error("This backup can't be combined with incremental backups");
+  }
+
+  const entries = new Map<number, unknown>();
+  const unnumbered: unknown[] = [];
+  for (const entry of full.entries) {
+    const id = entryId(entry);
+    if (id === null) {
+      unnumbered.push(entry);
+    } else {
+      entries.set(id, entry);
+    }
+  }
+
+  let settings = full.settings;
+  let appVersion = full.appVersion;
+  let exportedAt = full.exportedAt;
+  for (const json of incrementalJsons) {
+    const incremental = parseIncrementalBackup(JSON.parse(json));
+    if (incremental.baseBackupId !== full.backupId) {
+      throw new Error("An incremental backup belongs to a different full backup");
+    }
+    if ((await checkMoodExportIntegrity(incremental)) === "mismatch") {
+      throw new Error("An incremental backup's checksum does not match its entries, so it may be damaged");
+    }
+    for (const id of incremental.deletedEntryIds) {
+      entries.delete(id);
+    }
+    for (const entry of incremental.entries) {
+      const id = entryId(entry);
+      if (id !== null) {
+        entries.set(id, entry);
+      }
+    }
+    settings = incremental.settings ?? settings;
+    appVersion = incremental.appVersion ?? appVersion;
+    exportedAt = incremental.exportedAt ?? exportedAt;
+  }
+
+  const merged = [...entries.values(), ...unnumbered].sort(
+    (a, b) => entryTimestamp(b) - entryTimestamp(a)
+  );
+  return JSON.stringify(
+    await buildMoodExportEnvelope(merged, null, {
+      appVersion,
+      exportedAt: exportedAt ?? undefined,
+      settings: settings ?? undefined,
+      checksum: true,
+      backupId: full.backupId,
+    })
+  );
+}
+
+export type MoodExportSummary = {
+  formatVersion: number;
+  appVersion: string | null;
+  exportedAt: number | null;
+  entryCount: number;
+  firstEntryAt: number | null;
+  lastEntryAt: number | null;
+  /** Configuration sections the file would restore. */
+  settingsSections: (keyof MoodExportSettings)[];
+  /** Set for incremental backups, where `entryCount` counts changed entries. */
+  incremental: { deletedCount: number } | null;
+};
+
+/**
+ * Describes export JSON without validating each entry, for showing what a
+ * file holds before it is imported.
+ */
+export function summarizeMoodExport(jsonData: string): MoodExportSummary {
+  const json: unknown = JSON.parse(jsonData);
+  const incremental = isIncrementalBackup(json) ? parseIncrementalBackup(json) : null;
+  const parsed = incremental ?? parseMoodExport(json);
+  let firstEntryAt: number | null = null;
+  let lastEntryAt: number | null = null;
+  for (const entry of parsed.entries) {
+    const timestamp = isRecord(entry) ? entry.timestamp : undefined;
+    if (typeof timestamp !== "number") {
+      continue;
+    }
+    firstEntryAt = firstEntryAt === null ? timestamp : Math.min(firstEntryAt, timestamp);
+    lastEntryAt = lastEntryAt === null ? timestamp : Math.max(lastEntryAt, timestamp);
+  }
+  return {
+    formatVersion: parsed.formatVersion,
+    appVersion: parsed.appVersion,
+    exportedAt: parsed.exportedAt,
+    entryCount: parsed.entries.length,
+    firstEntryAt,
+    lastEntryAt,
+    settingsSections: parsed.settings
+      ? (Object.keys(parsed.settings) as (keyof MoodExportSettings)[])
+      : [],
+    incremental: incremental ? { deletedCount: incremental.deletedEntryIds.length } : null,
+  };
+}
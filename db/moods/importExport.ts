@@ -1,7 +1,15 @@
-import type { Emotion } from "../types";
+import type { Emotion, MoodEntry, MoodLocation, MoodPhoto, MoodVoiceMemo } from "../types";
 import { getDb } from "../client";
-import { getMoodsWithinRange } from "./repository";
-import type { MoodDateRange } from "./range";
+import {
+  getMoodsByIds,
+  getMoodsMatching,
+  getMoodsWithinRange,
+  purgeUnusedMoodAttachments,
+  updateWithRevision,
+} from "./repository";
+import { MOOD_REVISIONS_TABLE } from "./revisions";
+import { resolveDateRange, type MoodDateRange } from "./range";
+import type { MoodQuery } from "../../domain/moodQuery";
 import {
   sanitizeEnergy,
   sanitizeImportedArray,
@@ -9,11 +17,37 @@ import {
   sanitizeImportedMoodScale,
   serializeArray,
   serializeEmotions,
+  serializeLocation,
   serializeMoodScale,
+  serializePhotos,
+  serializeVoiceMemos,
+  MAX_PHOTOS_PER_ENTRY,
+  MAX_VOICE_MEMOS_PER_ENTRY,
 } from "./serialization";
+import { exportMoodPhoto, restoreExportedMoodPhoto, type ExportedMoodPhoto } from "./photoStorage";
+import {
+  exportMoodVoiceMemo,
+  restoreExportedMoodVoiceMemo,
+  type ExportedMoodVoiceMemo,
+} from "./voiceMemoStorage";
 import { linkEmotionsToMood } from "./emotions";
 import { parseEmotionItem } from "./emotionUtils";
-import { sanitizeMoodValue, sanitizeTimestamp } from "../validation";
+import { isValidTimestamp, sanitizeMoodValue, sanitizeTimestamp } from "../validation";
+import { sanitizeMoodLocation } from "../../domain/location";
+import {
+  createMergeImportIndex,
+  remapBasedOnEntryId,
+  type MergeConflictStrategy,
+} from "./importMerge";
+import {
+  buildIncrementalBackupEnvelope,
+  buildMoodExportEnvelope,
+  checkMoodExportIntegrity,
+  parseMoodExport,
+  type MoodExportOptions,
+  type MoodExportSettings,
+} from "./exportFormat";
+import { convertCsvRows, parseCsv, type CsvImportMapping } from "./csvImport";
 
 function sanitizeBasedOnEntryId(value: unknown): number | null {
   if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
@@ -24,6 +58,8 @@ function sanitizeBasedOnEntryId(value: unknown): number | null {
 }
 
 type NormalizedImportedMood = {
+  /** Id the entry had on the exporting device, used to remap `basedOnEntryId`. */
+  sourceId: number | null;
   mood: number;
   note: string | null;
   timestamp: number;
@@ -31,7 +67,12 @@ type NormalizedImportedMood = {
   contextTags: string[];
   energy: number | null;
   moodScale: ReturnType<typeof sanitizeImportedMoodScale>;
+  photos: unknown[];
+  voiceMemos: unknown[];
+  location: MoodLocation | null;
   basedOnEntryId: number | null;
+  createdAt: number;
+  updatedAt: number;
 };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -52,6 +93,14 @@ function validateImportedMoodValue(value: unknown): number | null {
   return value;
 }
 
+/**
+ * Files from before entries carried `createdAt` and `updatedAt`, and other
+ * apps' CSVs, are read as logged at the time they describe.
+ */
+function sanitizeLoggedAt(value: unknown, fallback: number): number {
+  return isValidTimestamp(value) ? value : fallback;
+}
+
 function normalizeReplacementImportEntries(parsed: unknown[]): {
   entries: NormalizedImportedMood[];
   errors: string[];
@@ -79,16 +128,24 @@ function normalizeReplacementImportEntries(parsed: unknown[]): {
 
     const note = (rawMood.notes ?? rawMood.note ?? null) as string | null;
     const contextSource = rawMood.contextTags ?? rawMood.context ?? [];
+    const timestamp = sanitizeTimestamp(rawMood.timestamp);
+    const createdAt = sanitizeLoggedAt(rawMood.createdAt, timestamp);
 
     entries.push({
+      sourceId: sanitizeBasedOnEntryId(rawMood.id),
       mood: moodValue,
       note,
-      timestamp: sanitizeTimestamp(rawMood.timestamp),
+      timestamp,
       emotions: sanitizeImportedEmotions(rawMood.emotions),
       contextTags: sanitizeImportedArray(contextSource),
       energy: sanitizeEnergy(rawMood.energy),
       moodScale: sanitizeImportedMoodScale(rawMood.moodScale),
+      photos: Array.isArray(rawMood.photos) ? rawMood.photos : [],
+      voiceMemos: Array.isArray(rawMood.voiceMemos) ? rawMood.voiceMemos : [],
+      location: sanitizeMoodLocation(rawMood.location),
       basedOnEntryId: sanitizeBasedOnEntryId(rawMood.basedOnEntryId),
+      createdAt,
+      updatedAt: sanitizeLoggedAt(rawMood.updatedAt, createdAt),
     });
   }
 
@@ -98,37 +155,168 @@ function normalizeReplacementImportEntries(parsed: unknown[]): {
 async function clearImportedMoodData(db: Awaited<ReturnType<typeof getDb>>) {
   await db.runAsync("DELETE FROM mood_emotions;");
   await db.runAsync("DELETE FROM moods;");
+  await db.runAsync(`DELETE FROM ${MOOD_REVISIONS_TABLE};`);
+}
+
+async function exportPhotos(photos: MoodPhoto[]): Promise<ExportedMoodPhoto[]> {
+  const exported: ExportedMoodPhoto[] = [];
+  for (const photo of photos) {
+    const data = await exportMoodPhoto(photo);
+    if (data) {
+      exported.push(data);
+    }
+  }
+  return exported;
+}
+
+/**
+ * Restores embedded photos from an import. Bare URIs and malformed items are
+ * skipped; the files they pointed at belong to another install.
+ */
+async function restorePhotos(rawPhotos: unknown[]): Promise<MoodPhoto[]> {
+  const restored: MoodPhoto[] = [];
+  for (const rawPhoto of rawPhotos.slice(0, MAX_PHOTOS_PER_ENTRY)) {
+    const photo = await restoreExportedMoodPhoto(rawPhoto);
+    if (photo) {
+      restored.push(photo);
+    }
+  }
+  return restored;
+}
+
+async function exportVoiceMemos(memos: MoodVoiceMemo[]): Promise<ExportedMoodVoiceMemo[]> {
+  const exported: ExportedMoodVoiceMemo[] = [];
+  for (const memo of memos) {
+    const data = await exportMoodVoiceMemo(memo);
+    if (data) {
+      exported.push(data);
+    }
+  }
+  return exported;
+}
+
+async function restoreVoiceMemos(rawMemos: unknown[]): Promise<MoodVoiceMemo[]> {
+  const restored: MoodVoiceMemo[] = [];
+  for (const rawMemo of rawMemos.slice(0, MAX_VOICE_MEMOS_PER_ENTRY)) {
+    const memo = await restoreExportedMoodVoiceMemo(rawMemo);
+    if (memo) {
+      restored.push(memo);
+    }
+  }
+  return restored;
+}
+
+/**
+ * Serializes entries within `range` into a versioned export envelope. A
+ * `filter` (typically a saved view) narrows the export further; the range
+ * always takes precedence over any date range the filter carries. `options`
+ * adds the app version and configuration sections, which only the app layer
+ * can read.
+ */
+export async function exportMoods(
+  range?: MoodDateRange,
+  filter?: MoodQuery,
+  options?: MoodExportOptions
+): Promise<string> {
+  const moods = filter
+    ? await getMoodsMatching({ ...filter, dateRange: range })
+    : await getMoodsWithinRange(range);
+  const exported = await toExportedEntries(moods);
+
+  const { startDate, endDate } = resolveDateRange(range);
+  const exportRange = range
+    ? { startDate: startDate ?? null, endDate: endDate ?? null }
+    : null;
+  return JSON.stringify(await buildMoodExportEnvelope(exported, exportRange, options));
 }
 
-export async function exportMoods(range?: MoodDateRange): Promise<string> {
-  const moods = await getMoodsWithinRange(range);
+/**
+ * Exports the current state of the given entries as an incremental backup on
+ * top of the full backup `baseBackupId`. Ids with no entry left are recorded
+ * as deleted.
+ */
+export async function exportIncrementalMoods(
+  baseBackupId: string,
+  changedIds: number[],
+  options?: Omit<MoodExportOptions, "backupId">
+): Promise<string> {
+  const moods = await getMoodsByIds(changedIds);
+  const remaining = new Set(moods.map((entry) => entry.id));
+  const deletedIds = changedIds.filter((id) => !remaining.has(id));
   return JSON.stringify(
-    moods.map((entry) => ({
+    await buildIncrementalBackupEnvelope(
+      baseBackupId,
+      await toExportedEntries(moods),
+      deletedIds,
+      options
+    )
+  );
+}
+
+async function toExportedEntries(moods: MoodEntry[]) {
+  const exported = [];
+  for (const entry of moods) {
+    const photos = await exportPhotos(entry.photos);
+    const voiceMemos = await exportVoiceMemos(entry.voiceMemos);
+    exported.push({
+      id: entry.id,
       timestamp: entry.timestamp,
       mood: entry.mood,
       emotions: entry.emotions,
-      context: entry.contextTags,
       contextTags: entry.contextTags,
       energy: entry.energy,
       note: entry.note,
-      notes: entry.note,
       moodScale: entry.moodScale,
       basedOnEntryId: entry.basedOnEntryId,
-    }))
-  );
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+      ...(photos.length > 0 ? { photos } : {}),
+      ...(voiceMemos.length > 0 ? { voiceMemos } : {}),
+      ...(entry.location ? { location: entry.location } : {}),
+    });
+  }
+  return exported;
 }
 
 export type ImportResult = {
   imported: number;
   skipped: number;
   errors: string[];
+  /** Configuration from an envelope export, applied by the caller. */
+  settings?: MoodExportSettings;
 };
 
 export type ImportPreviewResult = {
   entryCount: number;
 };
 
-function normalizeReplacementImportData(jsonData: string): NormalizedImportedMood[] {
+export type MergeImportPreviewResult = ImportPreviewResult & {
+  newCount: number;
+  duplicateCount: number;
+  conflictCount: number;
+};
+
+export type MergeImportOptions = {
+  conflictStrategy: MergeConflictStrategy;
+};
+
+/**
+ * `skipped` keeps its meaning of invalid entries; entries left out because
+ * they already exist are reported as `duplicates` and `conflicts`.
+ */
+export type MergeImportResult = ImportResult & {
+  /** Entries already present with identical content. */
+  duplicates: number;
+  /** Entries sharing a timestamp with a different existing entry. */
+  conflicts: number;
+  /** Existing entries replaced by their imported counterpart. */
+  overwritten: number;
+};
+
+async function normalizeReplacementImportData(jsonData: string): Promise<{
+  entries: NormalizedImportedMood[];
+  settings: MoodExportSettings | null;
+}> {
   let parsed: unknown;
   try {
     parsed = JSON.parse(jsonData);
@@ -136,82 +324,378 @@ function normalizeReplacementImportData(jsonData: string): NormalizedImportedMoo
     throw new Error("Invalid JSON format");
   }
 
-  if (!Array.isArray(parsed)) {
-    throw new Error("Import data must be an array");
+  const exportData = parseMoodExport(parsed);
+  if ((await checkMoodExportIntegrity(exportData)) === "mismatch") {
+    throw new Error("The file's checksum does not match its entries, so it may be damaged");
   }
-
-  const normalized = normalizeReplacementImportEntries(parsed);
+  const { entries, settings } = exportData;
+  const normalized = normalizeReplacementImportEntries(entries);
   if (normalized.errors.length > 0) {
     throw new Error(
       `Import contains invalid entries: ${normalized.errors.slice(0, 5).join("; ")}`
     );
   }
 
-  return normalized.entries;
+  return { entries: normalized.entries, settings };
 }
 
-export function previewImportMoods(jsonData: string): ImportPreviewResult {
+export async function previewImportMoods(jsonData: string): Promise<ImportPreviewResult> {
   return {
-    entryCount: normalizeReplacementImportData(jsonData).length,
+    entryCount: (await normalizeReplacementImportData(jsonData)).entries.length,
   };
 }
 
-export async function importMoods(jsonData: string): Promise<ImportResult> {
-  const entries = normalizeReplacementImportData(jsonData);
+async function getMergeImportIndex(entries: NormalizedImportedMood[]) {
+  if (entries.length === 0) {
+    return createMergeImportIndex();
+  }
+  const timestamps = entries.map((entry) => entry.timestamp);
+  const existing = await getMoodsWithinRange({
+    startDate: Math.min(...timestamps),
+    endDate: Math.max(...timestamps),
+  });
+  return createMergeImportIndex(existing);
+}
+
+/**
+ * Counts how a merge would treat each entry in the file without writing
+ * anything. Entries repeated within the file count as duplicates.
+ */
+export async function previewMergeImportMoods(
+  jsonData: string
+): Promise<MergeImportPreviewResult> {
+  return previewMergeEntries((await normalizeReplacementImportData(jsonData)).entries);
+}
+
+async function previewMergeEntries(
+  entries: NormalizedImportedMood[]
+): Promise<MergeImportPreviewResult> {
+  const index = await getMergeImportIndex(entries);
+  const preview: MergeImportPreviewResult = {
+    entryCount: entries.length,
+    newCount: 0,
+    duplicateCount: 0,
+    conflictCount: 0,
+  };
+
+  entries.forEach((entry, position) => {
+    const { classification } = index.classify(entry);
+    if (classification === "duplicate") {
+      preview.duplicateCount++;
+      return;
+    }
+    if (classification === "conflict") {
+      preview.conflictCount++;
+    } else {
+      preview.newCount++;
+    }
+    // Negative ids keep file rows apart from stored ones.
+    index.remember(-(position + 1), entry);
+  });
+
+  return preview;
+}
+
+async function insertImportedMood(
+  db: Awaited<ReturnType<typeof getDb>>,
+  entry: NormalizedImportedMood,
+  basedOnEntryId: number | null
+): Promise<number> {
+  const photos = await restorePhotos(entry.photos);
+  const voiceMemos = await restoreVoiceMemos(entry.voiceMemos);
+  const dbResult = await db.runAsync(
+    "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
+    entry.mood,
+    entry.note,
+    entry.timestamp,
+    serializeEmotions(entry.emotions),
+    serializeArray(entry.contextTags),
+    entry.energy,
+    serializeMoodScale(entry.moodScale),
+    serializePhotos(photos),
+    serializeLocation(entry.location),
+    serializeVoiceMemos(voiceMemos),
+    basedOnEntryId,
+    entry.createdAt,
+    entry.updatedAt
+  );
+
+  if (entry.emotions.length > 0) {
+    await linkEmotionsToMood(db, dbResult.lastInsertRowId, entry.emotions);
+  }
+  return dbResult.lastInsertRowId;
+}
+
+async function overwriteWithImportedMood(
+  db: Awaited<ReturnType<typeof getDb>>,
+  id: number,
+  entry: NormalizedImportedMood
+): Promise<void> {
+  const photos = await restorePhotos(entry.photos);
+  const voiceMemos = await restoreVoiceMemos(entry.voiceMemos);
+  // Logged like an edit, so the entry's history shows what the import replaced.
+  await updateWithRevision(db, id, async () => {
+    await db.runAsync(
+      "UPDATE moods SET mood = ?, note = ?, timestamp = ?, emotions = ?, context_tags = ?, energy = ?, mood_scale_json = ?, photos_json = ?, location_json = ?, voice_memos_json = ?, updated_at = ? WHERE id = ?;",
+      entry.mood,
+      entry.note,
+      entry.timestamp,
+      serializeEmotions(entry.emotions),
+      serializeArray(entry.contextTags),
+      entry.energy,
+      serializeMoodScale(entry.moodScale),
+      serializePhotos(photos),
+      serializeLocation(entry.location),
+      serializeVoiceMemos(voiceMemos),
+      Date.now(),
+      id
+    );
+  });
+
+  await db.runAsync("DELETE FROM mood_emotions WHERE mood_id = ?;", id);
+  if (entry.emotions.length > 0) {
+    await linkEmotionsToMood(db, id, entry.emotions);
+  }
+}
+
+/**
+ * Adds the file's entries to the current data instead of replacing it.
+ * Entries with the same timestamp and content are skipped; entries that share
+ * a timestamp but differ are resolved with `conflictStrategy`. Every imported
+ * entry is mapped to its local id so `basedOnEntryId` links survive the merge.
+ */
+export async function mergeImportMoods(
+  jsonData: string,
+  options: MergeImportOptions
+): Promise<MergeImportResult> {
+  const { entries, settings } = await normalizeReplacementImportData(jsonData);
+  return mergeImportedEntries(entries, settings, options);
+}
+
+async function mergeImportedEntries(
+  entries: NormalizedImportedMood[],
+  settings: MoodExportSettings | null,
+  options: MergeImportOptions
+): Promise<MergeImportResult> {
+  const index = await getMergeImportIndex(entries);
 
   const db = await getDb();
-  const result: ImportResult = { imported: 0, skipped: 0, errors: [] };
+  const result: MergeImportResult = {
+    imported: 0,
+    skipped: 0,
+    errors: [],
+    duplicates: 0,
+    conflicts: 0,
+    overwritten: 0,
+    ...(settings ? { settings } : {}),
+  };
+  const idMap = new Map<number, number>();
+  const written: { id: number; basedOnEntryId: number | null; overwritten: boolean }[] = [];
 
   await db.execAsync("BEGIN TRANSACTION;");
   try {
-    await clearImportedMoodData(db);
-
     for (const entry of entries) {
-      const dbResult = await db.runAsync(
-        "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
-        entry.mood,
-        entry.note,
-        entry.timestamp,
-        serializeEmotions(entry.emotions),
-        serializeArray(entry.contextTags),
-        entry.energy,
-        serializeMoodScale(entry.moodScale),
-        "[]",
-        null,
-        "[]",
-        entry.basedOnEntryId
-      );
+      const match = index.classify(entry);
+      let localId: number;
+
+      if (match.classification === "duplicate" && match.existingId !== null) {
+        result.duplicates++;
+        localId = match.existingId;
+      } else if (match.classification === "conflict" && match.existingId !== null) {
+        result.conflicts++;
+        if (options.conflictStrategy === "skip") {
+          localId = match.existingId;
+        } else if (options.conflictStrategy === "overwrite") {
+          await overwriteWithImportedMood(db, match.existingId, entry);
+          index.replace(match.existingId, entry);
+          result.overwritten++;
+          localId = match.existingId;
+          written.push({ id: localId, basedOnEntryId: entry.basedOnEntryId, overwritten: true });
+        } else {
+          localId = await insertImportedMood(db, entry, null);
+          index.remember(localId, entry);
+          result.imported++;
+          written.push({ id: localId, basedOnEntryId: entry.basedOnEntryId, overwritten: false });
+        }
+      } else {
+        localId = await insertImportedMood(db, entry, null);
+        index.remember(localId, entry);
+        result.imported++;
+        written.push({ id: localId, basedOnEntryId: entry.basedOnEntryId, overwritten: false });
+      }
+
+      if (entry.sourceId !== null) {
+        idMap.set(entry.sourceId, localId);
+      }
+    }
 
-      if (entry.emotions.length > 0) {
-        await linkEmotionsToMood(db, dbResult.lastInsertRowId, entry.emotions);
+    // Links are written once every entry has its local id, since an entry can
+    // be based on one that appears later in the file. Overwritten rows drop
+    // the link they had when the file's entry has none.
+    for (const { id, basedOnEntryId, overwritten } of written) {
+      const remapped = remapBasedOnEntryId(basedOnEntryId, idMap);
+      const link = remapped === id ? null : remapped;
+      if (link !== null || overwritten) {
+        await db.runAsync("UPDATE moods SET based_on_entry_id = ? WHERE id = ?;", link, id);
       }
+    }
+
+    await db.execAsync("COMMIT;");
+  } catch (error) {
+    await db.execAsync("ROLLBACK;");
+    console.error("Error merging imported moods:", error);
+    throw new Error(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
 
+  if (result.overwritten > 0) {
+    // Overwritten entries may have dropped their previous attachments.
+    try {
+      await purgeUnusedMoodAttachments();
+    } catch (error) {
+      console.warn("Failed to remove unused attachments after import:", error);
+    }
+  }
+  return result;
+}
+
+export async function importMoods(jsonData: string): Promise<ImportResult> {
+  const { entries, settings } = await normalizeReplacementImportData(jsonData);
+  return replaceWithImportedEntries(entries, settings);
+}
+
+async function replaceWithImportedEntries(
+  entries: NormalizedImportedMood[],
+  settings: MoodExportSettings | null
+): Promise<ImportResult> {
+  const db = await getDb();
+  const result: ImportResult = {
+    imported: 0,
+    skipped: 0,
+    errors: [],
+    ...(settings ? { settings } : {}),
+  };
+
+  await db.execAsync("BEGIN TRANSACTION;");
+  try {
+    await clearImportedMoodData(db);
+
+    for (const entry of entries) {
+      await insertImportedMood(db, entry, entry.basedOnEntryId);
       result.imported++;
     }
 
     await db.execAsync("COMMIT;");
-    return result;
   } catch (error) {
     await db.execAsync("ROLLBACK;");
     console.error("Error importing moods:", error);
     throw new Error(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
+
+  // The replaced entries' attachment files are no longer referenced.
+  try {
+    await purgeUnusedMoodAttachments();
+  } catch (error) {
+    console.warn("Failed to remove unused attachments after import:", error);
+  }
+  return result;
+}
+
+export type CsvImportPreviewResult = MergeImportPreviewResult & {
+  /** Rows that could not be read with the mapping. */
+  skipped: number;
+  errors: string[];
+};
+
+/** Replace clears local data first; merge adds to it. */
+export type CsvImportOptions =
+  | { mode: "replace" }
+  | ({ mode: "merge" } & MergeImportOptions);
+
+export type CsvImportResult = ImportResult &
+  Partial<Pick<MergeImportResult, "duplicates" | "conflicts" | "overwritten">>;
+
+function normalizeCsvImportData(
+  csvData: string,
+  mapping: CsvImportMapping,
+  knownEmotions: Emotion[]
+): { entries: NormalizedImportedMood[]; errors: string[] } {
+  const rows = parseCsv(csvData);
+  if (rows.length === 0) {
+    throw new Error("CSV file is empty");
+  }
+  const converted = convertCsvRows(rows, mapping, knownEmotions);
+  const normalized = normalizeReplacementImportEntries(converted.rows);
+  return {
+    entries: normalized.entries,
+    errors: [...converted.errors, ...normalized.errors],
+  };
+}
+
+/**
+ * Reads a CSV file with `mapping` and counts how its rows compare to local
+ * data without writing anything.
+ */
+export async function previewCsvImportMoods(
+  csvData: string,
+  mapping: CsvImportMapping,
+  knownEmotions: Emotion[] = []
+): Promise<CsvImportPreviewResult> {
+  const { entries, errors } = normalizeCsvImportData(csvData, mapping, knownEmotions);
+  return {
+    ...(await previewMergeEntries(entries)),
+    skipped: errors.length,
+    errors,
+  };
+}
+
+/**
+ * Imports the rows of a CSV file through the same pipeline as JSON imports.
+ * Unlike JSON, rows that cannot be read are skipped and reported instead of
+ * failing the import, since files from other apps are rarely uniform.
+ */
+export async function importCsvMoods(
+  csvData: string,
+  mapping: CsvImportMapping,
+  options: CsvImportOptions,
+  knownEmotions: Emotion[] = []
+): Promise<CsvImportResult> {
+  const { entries, errors } = normalizeCsvImportData(csvData, mapping, knownEmotions);
+  if (entries.length === 0) {
+    throw new Error(
+      errors.length > 0
+        ? `No rows could be imported: ${errors.slice(0, 3).join("; ")}`
+        : "CSV file has no entries"
+    );
+  }
+
+  const result =
+    options.mode === "merge"
+      ? await mergeImportedEntries(entries, null, options)
+      : await replaceWithImportedEntries(entries, null);
+  return {
+    ...result,
+    skipped: result.skipped + errors.length,
+    errors: [...errors, ...result.errors],
+  };
 }
 
 export async function importOldBackup(jsonData: string): Promise<ImportResult> {
-  let parsed: unknown;
+  let data: unknown;
   try {
-    parsed = JSON.parse(jsonData);
+    data = JSON.parse(jsonData);
   } catch {
     throw new Error("Invalid JSON format in backup");
   }
 
-  if (!Array.isArray(parsed)) {
-    throw new Error("Backup data must be an array");
-  }
+  const { entries: parsed, settings } = parseMoodExport(data);
 
   const db = await getDb();
-  const result: ImportResult = { imported: 0, skipped: 0, errors: [] };
+  const result: ImportResult = {
+    imported: 0,
+    skipped: 0,
+    errors: [],
+    ...(settings ? { settings } : {}),
+  };
 
   await db.execAsync("BEGIN TRANSACTION;");
   try {
@@ -242,9 +726,13 @@ export async function importOldBackup(jsonData: string): Promise<ImportResult> {
       const basedOnEntryId = sanitizeBasedOnEntryId(mood?.basedOnEntryId);
       // Legacy backups did not carry moodScale; assume the current local scale.
       const moodScale = sanitizeImportedMoodScale(mood?.moodScale);
+      const photos = await restorePhotos(Array.isArray(mood?.photos) ? mood.photos : []);
+      const voiceMemos = await restoreVoiceMemos(
+        Array.isArray(mood?.voiceMemos) ? mood.voiceMemos : []
+      );
 
       const dbResult = await db.runAsync(
-        "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
+        "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
         moodValue,
         note,
         timestamp,
@@ -252,10 +740,12 @@ export async function importOldBackup(jsonData: string): Promise<ImportResult> {
         serializeArray(contextTags),
         energy,
         serializeMoodScale(moodScale),
-        "[]",
-        null,
-        "[]",
-        basedOnEntryId
+        serializePhotos(photos),
+        serializeLocation(sanitizeMoodLocation(mood?.location)),
+        serializeVoiceMemos(voiceMemos),
+        basedOnEntryId,
+        timestamp,
+        timestamp
       );
 
       if (emotions.length > 0) {
@@ -0,0 +1,115 @@
+import type { Emotion } from "../types";
+
+/**
+ * How a merge import treats an entry that shares its timestamp with an
+ * existing one but differs in content.
+ */
+export type MergeConflictStrategy = "skip" | "overwrite" | "keepBoth";
+
+export type MergeImportClassification = "new" | "duplicate" | "conflict";
+
+/** The fields that decide whether two entries describe the same check-in. */
+export type MergeComparableMood = {
+  mood: number;
+  note: string | null;
+  timestamp: number;
+  emotions: Emotion[];
+  contextTags: string[];
+  energy: number | null;
+};
+
+export type MergeImportMatch = {
+  classification: MergeImportClassification;
+  /** Existing entry the imported one duplicates or conflicts with. */
+  existingId: number | null;
+};
+
+function normalizeList(values: string[]): string[] {
+  return Array.from(new Set(values.map((value) => value.trim().toLowerCase()))).sort();
+}
+
+/**
+ * Content fingerprint used to de-duplicate merges. Emotions and tags are
+ * compared as case-insensitive sets so re-ordered lists still match.
+ */
+export function buildMoodContentKey(entry: MergeComparableMood): string {
+  return JSON.stringify([
+    entry.mood,
+    entry.note?.trim() || null,
+    entry.energy,
+    normalizeList(entry.emotions.map((emotion) => emotion.name)),
+    normalizeList(entry.contextTags),
+  ]);
+}
+
+export type MergeImportIndex = {
+  classify: (entry: MergeComparableMood) => MergeImportMatch;
+  /** Records an entry that is now stored under `id`. */
+  remember: (id: number, entry: MergeComparableMood) => void;
+  /** Updates the content of a stored entry after it was overwritten. */
+  replace: (id: number, entry: MergeComparableMood) => void;
+};
+
+/**
+ * Indexes the entries already on the device by timestamp so imported entries
+ * can be classified against them. Accepted entries are remembered as the
+ * import runs, which also catches repeated rows within one file.
+ */
+export function createMergeImportIndex(
+  existing: (MergeComparableMood & { id: number })[] = []
+): MergeImportIndex {
+  const byTimestamp = new Map<number, { id: number; key: string }[]>();
+
+  const remember = (id: number, entry: MergeComparableMood) => {
+    const item = { id, key: buildMoodContentKey(entry) };
+    const bucket = byTimestamp.get(entry.timestamp);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      byTimestamp.set(entry.timestamp, [item]);
+    }
+  };
+
+  for (const entry of existing) {
+    remember(entry.id, entry);
+  }
+
+  return {
+    classify(entry) {
+      const bucket = byTimestamp.get(entry.timestamp);
+      if (!bucket || bucket.length === 0) {
+        return { classification: "new", existingId: null };
+      }
+      const key = buildMoodContentKey(entry);
+      const duplicate = bucket.find((item) => item.key === key);
+      if (duplicate) {
+        return { classification: "duplicate", existingId: duplicate.id };
+      }
+      return { classification: "conflict", existingId: bucket[0].id };
+    },
+    remember,
+    replace(id, entry) {
+      const match = byTimestamp.get(entry.timestamp)?.find((item) => item.id === id);
+      if (match) {
+        match.key = buildMoodContentKey(entry);
+      } else {
+        remember(id, entry);
+      }
+    },
+  };
+}
+
+/**
+ * Maps `basedOnEntryId` values from the imported file onto the ids the
+ * referenced entries ended up with locally. References to entries that were
+ * not part of the import point at another device and are dropped.
+ */
+export function remapBasedOnEntryId(
+  basedOnEntryId: number | null,
+  idMap: Map<number, number>
+): number | null {
+  if (basedOnEntryId === null) {
+    return null;
+  }
+  return idMap.get(basedOnEntryId) ?? null;
+}
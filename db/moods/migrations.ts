@@ -1,91 +1,115 @@
 import type * as SQLite from "expo-sqlite";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { getDb } from "../client";
 import type { Emotion } from "../types";
 import type { MoodRow, RawEmotionItem } from "../types/rows";
 import { DEFAULT_EMOTIONS } from "../../domain/entrySettings";
 import { CURRENT_MOOD_SCALE_SNAPSHOT, serializeEmotions, serializeMoodScale } from "./serialization";
 
-export async function migrateEmotionsToCategories(): Promise<{
+// Before the schema runner, the app recorded this migration in AsyncStorage.
+const LEGACY_EMOTION_MIGRATION_COMPLETED_KEY = "emotionCategoryMigrationCompleted";
+const LEGACY_BOOTSTRAP_MIGRATIONS_STATE_KEY = "bootstrapMigrationsState";
+const LEGACY_EMOTION_MIGRATION_ID = "legacy-emotion-categories";
+
+/**
+ * Whether an earlier version already categorized emotions and recorded it in
+ * AsyncStorage, so the schema step doesn't scan every entry again.
+ */
+export async function hasCompletedLegacyEmotionMigration(): Promise<boolean> {
+  try {
+    if ((await AsyncStorage.getItem(LEGACY_EMOTION_MIGRATION_COMPLETED_KEY)) === "true") {
+      return true;
+    }
+    const stored = await AsyncStorage.getItem(LEGACY_BOOTSTRAP_MIGRATIONS_STATE_KEY);
+    const state = stored
+      ? (JSON.parse(stored) as { migrations?: Record<string, { status?: string }> })
+      : null;
+    return state?.migrations?.[LEGACY_EMOTION_MIGRATION_ID]?.status === "completed";
+  } catch (error) {
+    console.warn("Could not read legacy emotion migration state:", error);
+    return false;
+  }
+}
+
+/**
+ * Rewrites emotions stored as plain names, or without a category, as
+ * categorized emotions. Runs as a schema step, so it must not open its own
+ * transaction.
+ */
+export async function migrateEmotionsToCategories(
+  db: SQLite.SQLiteDatabase
+): Promise<{
   migrated: number;
   skipped: number;
 }> {
-  const db = await getDb();
   let migrated = 0;
   let skipped = 0;
 
-  await db.execAsync("BEGIN TRANSACTION;");
-  try {
-    const rows = await db.getAllAsync<Pick<MoodRow, "id" | "emotions">>(
-      "SELECT id, emotions FROM moods;"
-    );
+  const rows = await db.getAllAsync<Pick<MoodRow, "id" | "emotions">>(
+    "SELECT id, emotions FROM moods;"
+  );
 
-    for (const row of rows) {
-      const rawEmotions = row.emotions;
+  for (const row of rows) {
+    const rawEmotions = row.emotions;
+
+    if (!rawEmotions || rawEmotions === "[]") {
+      skipped++;
+      continue;
+    }
 
-      if (!rawEmotions || rawEmotions === "[]") {
+    try {
+      const parsed = JSON.parse(rawEmotions) as RawEmotionItem[];
+      if (!Array.isArray(parsed)) {
         skipped++;
         continue;
       }
 
-      try {
-        const parsed = JSON.parse(rawEmotions) as RawEmotionItem[];
-        if (!Array.isArray(parsed)) {
-          skipped++;
-          continue;
-        }
-
-        const needsMigration = parsed.some((item) => {
-          return (
-            typeof item === "string" ||
-            (typeof item === "object" && item && !("category" in item))
-          );
-        });
+      const needsMigration = parsed.some((item) => {
+        return (
+          typeof item === "string" ||
+          (typeof item === "object" && item && !("category" in item))
+        );
+      });
 
-        if (!needsMigration) {
-          skipped++;
-          continue;
-        }
+      if (!needsMigration) {
+        skipped++;
+        continue;
+      }
 
-        const migratedEmotions: Emotion[] = parsed.map((item): Emotion => {
-          if (typeof item === "string") {
-            const name = item;
-            let category: "positive" | "negative" | "neutral" = "neutral";
-            const defaultEmotion = DEFAULT_EMOTIONS.find((e) => e.name === name);
-            if (defaultEmotion) {
-              category = defaultEmotion.category;
-            }
-            return { name, category };
+      const migratedEmotions: Emotion[] = parsed.map((item): Emotion => {
+        if (typeof item === "string") {
+          const name = item;
+          let category: "positive" | "negative" | "neutral" = "neutral";
+          const defaultEmotion = DEFAULT_EMOTIONS.find((e) => e.name === name);
+          if (defaultEmotion) {
+            category = defaultEmotion.category;
           }
-          if (typeof item === "object" && item && "name" in item) {
-            const category = item.category || "neutral";
-            return { name: item.name, category };
-          }
-          return { name: String(item), category: "neutral" };
-        });
+          return { name, category };
+        }
+        if (typeof item === "object" && item && "name" in item) {
+          const category = item.category || "neutral";
+          return { name: item.name, category };
+        }
+        return { name: String(item), category: "neutral" };
+      });
 
-        await db.runAsync(
-          "UPDATE moods SET emotions = ? WHERE id = ?;",
-          serializeEmotions(migratedEmotions),
-          row.id
-        );
+      await db.runAsync(
+        "UPDATE moods SET emotions = ? WHERE id = ?;",
+        serializeEmotions(migratedEmotions),
+        row.id
+      );
 
-        migrated++;
-      } catch (error) {
-        console.error(`Failed to migrate emotions for mood ${row.id}:`, error);
-        skipped++;
-      }
+      migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate emotions for mood ${row.id}:`, error);
+      skipped++;
     }
-
-    await db.execAsync("COMMIT;");
-    console.log(
-      `Emotion migration complete: ${migrated} migrated, ${skipped} skipped`
-    );
-    return { migrated, skipped };
-  } catch (error) {
-    await db.execAsync("ROLLBACK;");
-    console.error("Error during emotion migration:", error);
-    throw error;
   }
+
+  console.log(
+    `Emotion migration complete: ${migrated} migrated, ${skipped} skipped`
+  );
+  return { migrated, skipped };
 }
 
 export async function backfillMoodScaleJson(
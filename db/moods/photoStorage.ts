@@ -0,0 +1,154 @@
+import * as FileSystem from "expo-file-system/legacy";
+import type { MoodPhoto } from "../types";
+import {
+  createAttachmentId,
+  deleteAttachmentFiles,
+  ensureDirectory,
+  isBase64,
+  purgeUnreferencedFiles,
+  readBase64,
+  writeBase64,
+} from "./attachmentFiles";
+
+// documentDirectory is app-private on both platforms and is not evicted like
+// the cache, so attached photos live as long as the entry that references them.
+export const MOOD_PHOTO_DIR = `${FileSystem.documentDirectory}MoodPhotos/`;
+
+/**
+ * A compressed image and its thumbnail, written to temporary storage by the
+ * picker and ready to be moved into photo storage.
+ */
+export type ProcessedPhoto = {
+  uri: string;
+  thumbnailUri: string;
+  width: number;
+  height: number;
+};
+
+/**
+ * Photo payload embedded in JSON exports and backups, so restoring a file on
+ * another device brings the images along.
+ */
+export type ExportedMoodPhoto = {
+  id: string;
+  width: number;
+  height: number;
+  data: string; // base64 JPEG
+  thumbnailData: string; // base64 JPEG
+};
+
+export function getMoodPhotoUri(fileName: string): string {
+  return `${MOOD_PHOTO_DIR}${fileName}`;
+}
+
+function toMoodPhoto(id: string, width: number, height: number): MoodPhoto {
+  return {
+    id,
+    fileName: `${id}.jpg`,
+    thumbnailFileName: `${id}-thumb.jpg`,
+    width: Math.round(width),
+    height: Math.round(height),
+  };
+}
+
+/**
+ * Moves a processed photo into app-private storage.
+ */
+export async function storeMoodPhoto(processed: ProcessedPhoto): Promise<MoodPhoto> {
+  await ensureDirectory(MOOD_PHOTO_DIR);
+  const photo = toMoodPhoto(createAttachmentId(), processed.width, processed.height);
+
+  await FileSystem.moveAsync({
+    from: processed.uri,
+    to: getMoodPhotoUri(photo.fileName),
+  });
+  await FileSystem.moveAsync({
+    from: processed.thumbnailUri,
+    to: getMoodPhotoUri(photo.thumbnailFileName),
+  });
+
+  return photo;
+}
+
+export async function deleteMoodPhotoFiles(photos: MoodPhoto[]): Promise<void> {
+  await deleteAttachmentFiles(
+    MOOD_PHOTO_DIR,
+    photos.flatMap((photo) => [photo.fileName, photo.thumbnailFileName])
+  );
+}
+
+export async function deleteAllMoodPhotoFiles(): Promise<void> {
+  await FileSystem.deleteAsync(MOOD_PHOTO_DIR, { idempotent: true });
+}
+
+/**
+ * Deletes photo files that no entry references, e.g. after an entry was
+ * deleted and its undo window closed, or after a replacing import.
+ */
+export async function purgeUnreferencedMoodPhotoFiles(
+  referenced: MoodPhoto[],
+  now = Date.now()
+): Promise<number> {
+  const keep = new Set<string>();
+  for (const photo of referenced) {
+    keep.add(photo.fileName);
+    keep.add(photo.thumbnailFileName);
+  }
+  return purgeUnreferencedFiles(MOOD_PHOTO_DIR, keep, now);
+}
+
+/**
+ * Reads a stored photo for export. Returns null when the file is gone so a
+ * missing image never blocks an export or backup.
+ */
+export async function exportMoodPhoto(photo: MoodPhoto): Promise<ExportedMoodPhoto | null> {
+  try {
+    const data = await readBase64(getMoodPhotoUri(photo.fileName));
+    let thumbnailData = data;
+    try {
+      thumbnailData = await readBase64(getMoodPhotoUri(photo.thumbnailFileName));
+    } catch {
+      // Fall back to the full image; the viewer scales it down.
+    }
+
+    return {
+      id: photo.id,
+      width: photo.width,
+      height: photo.height,
+      data,
+      thumbnailData,
+    };
+  } catch (error) {
+    console.warn(`Photo ${photo.id} could not be read for export:`, error);
+    return null;
+  }
+}
+
+function isPositiveDimension(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Writes an exported photo back into photo storage under a fresh id.
+ * Returns null for anything that is not an embedded image, including bare
+ * file URIs from other devices.
+ */
+export async function restoreExportedMoodPhoto(value: unknown): Promise<MoodPhoto | null> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return null;
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (!isBase64(raw.data) || !isPositiveDimension(raw.width) || !isPositiveDimension(raw.height)) {
+    return null;
+  }
+
+  await ensureDirectory(MOOD_PHOTO_DIR);
+  const photo = toMoodPhoto(createAttachmentId(), raw.width, raw.height);
+  const thumbnailData = isBase64(raw.thumbnailData) ? raw.thumbnailData : raw.data;
+
+  await writeBase64(getMoodPhotoUri(photo.fileName), raw.data);
+  await writeBase64(getMoodPhotoUri(photo.thumbnailFileName), thumbnailData);
+
+  return photo;
+}
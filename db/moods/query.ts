@@ -0,0 +1,128 @@
+import type { QueryParam } from "../types/rows";
+import { resolveDateRange } from "./range";
+import { normalizeMoodQuery, type MoodQuery } from "../../domain/moodQuery";
+import { CURRENT_MOOD_SCALE_SNAPSHOT } from "../../domain/moodScale";
+
+export type MoodQuerySql = {
+  /** Boolean SQL expression, `1` when the query has no criteria. */
+  where: string;
+  params: QueryParam[];
+};
+
+function placeholders(count: number): string {
+  return new Array(count).fill("?").join(", ");
+}
+
+function jsonArraySql(column: string): string {
+  return `json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END)`;
+}
+
+/**
+ * The stored rating mapped onto the current scale (0 best, 10 worst) using the
+ * entry's own `mood_scale_json` snapshot, by direction and span like
+ * `toCurrentScaleMood`. Rows without a snapshot are on the current scale.
+ */
+export function currentScaleMoodSql(alias: string): string {
+  const scale = `${alias}.mood_scale_json`;
+  const min = `json_extract(${scale}, '$.min')`;
+  const max = `json_extract(${scale}, '$.max')`;
+  const rating = `MAX(${min}, MIN(${max}, ${alias}.mood))`;
+  const severity = `(CASE WHEN json_extract(${scale}, '$.lowerIsBetter') = 0 THEN ${max} - ${rating} ELSE ${rating} - ${min} END) * 1.0 / MAX(1, ${max} - ${min})`;
+  const { min: currentMin, max: currentMax } = CURRENT_MOOD_SCALE_SNAPSHOT;
+  return `(CASE WHEN json_valid(${scale}) AND ${min} IS NOT NULL AND ${max} IS NOT NULL THEN ${currentMin} + ${severity} * ${currentMax - currentMin} ELSE ${alias}.mood END)`;
+}
+
+/**
+ * Translates a `MoodQuery` into a WHERE expression over the `moods` table (or
+ * a CTE with the same columns) referenced as `alias`. Emotion criteria go
+ * through the `mood_emotions` junction table; context tags are read from the
+ * JSON column.
+ */
+export function buildMoodQuerySql(query: MoodQuery, alias = "moods"): MoodQuerySql {
+  const normalized = normalizeMoodQuery(query);
+  const clauses: string[] = [];
+  const params: QueryParam[] = [];
+
+  const { startDate, endDate } = resolveDateRange(normalized.dateRange);
+  if (typeof startDate === "number") {
+    clauses.push(`${alias}.timestamp >= ?`);
+    params.push(startDate);
+  }
+  if (typeof endDate === "number") {
+    clauses.push(`${alias}.timestamp <= ?`);
+    params.push(endDate);
+  }
+
+  if (normalized.mood) {
+    const mood = currentScaleMoodSql(alias);
+    if (normalized.mood.min !== undefined) {
+      clauses.push(`${mood} >= ?`);
+      params.push(normalized.mood.min);
+    }
+    if (normalized.mood.max !== undefined) {
+      clauses.push(`${mood} <= ?`);
+      params.push(normalized.mood.max);
+    }
+  }
+
+  if (normalized.emotions) {
+    const { names, match } = normalized.emotions;
+    // emotions.name is COLLATE NOCASE, so IN compares case-insensitively.
+    const linked = `SELECT me.mood_id FROM mood_emotions me JOIN emotions e ON e.id = me.emotion_id WHERE e.name IN (${placeholders(names.length)})`;
+    clauses.push(
+      match === "all"
+        ? `${alias}.id IN (${linked} GROUP BY me.mood_id HAVING COUNT(DISTINCT e.id) = ?)`
+        : `${alias}.id IN (${linked})`
+    );
+    params.push(...names);
+    if (match === "all") params.push(names.length);
+  }
+
+  if (normalized.contextTags) {
+    const { tags, match } = normalized.contextTags;
+    const matching = `FROM ${jsonArraySql(`${alias}.context_tags`)} WHERE type = 'text' AND LOWER(value) IN (${placeholders(tags.length)})`;
+    clauses.push(
+      match === "all"
+        ? `(SELECT COUNT(DISTINCT LOWER(value)) ${matching}) = ?`
+        : `EXISTS (SELECT 1 ${matching})`
+    );
+    params.push(...tags.map((tag) => tag.toLowerCase()));
+    if (match === "all") params.push(tags.length);
+  }
+
+  if (normalized.energy) {
+    clauses.push(`${alias}.energy IS NOT NULL`);
+    if (normalized.energy.min !== undefined) {
+      clauses.push(`${alias}.energy >= ?`);
+      params.push(normalized.energy.min);
+    }
+    if (normalized.energy.max !== undefined) {
+      clauses.push(`${alias}.energy <= ?`);
+      params.push(normalized.energy.max);
+    }
+  }
+
+  if (normalized.note) {
+    clauses.push(
+      normalized.note === "with"
+        ? `TRIM(COALESCE(${alias}.note, '')) <> ''`
+        : `TRIM(COALESCE(${alias}.note, '')) = ''`
+    );
+  }
+
+  if (normalized.timeOfDay) {
+    const { startHour, endHour } = normalized.timeOfDay;
+    const hour = `CAST(strftime('%H', ${alias}.timestamp / 1000, 'unixepoch', 'localtime') AS INTEGER)`;
+    clauses.push(
+      startHour < endHour
+        ? `(${hour} >= ? AND ${hour} < ?)`
+        : `(${hour} >= ? OR ${hour} < ?)`
+    );
+    params.push(startHour, endHour);
+  }
+
+  return {
+    where: clauses.length > 0 ? clauses.join(" AND ") : "1",
+    params,
+  };
+}
@@ -1,19 +1,50 @@
+import type * as SQLite from "expo-sqlite";
 import type { Emotion, MoodEntry, MoodEntryInput } from "../types";
 import type { MoodRow, CountResult, QueryParam } from "../types/rows";
 import { getDb } from "../client";
 import { resolveDateRange, type MoodDateRange } from "./range";
+import { buildMoodQuerySql } from "./query";
+import type { MoodQuery } from "../../domain/moodQuery";
 import {
+  deserializePhotos,
+  deserializeVoiceMemos,
   normalizeInput,
   serializeArray,
   serializeEmotions,
+  serializeLocation,
   serializeMoodScale,
+  serializePhotos,
+  serializeVoiceMemos,
   toMoodEntry,
 } from "./serialization";
+import { deleteMoodPhotoFiles, purgeUnreferencedMoodPhotoFiles } from "./photoStorage";
+import {
+  deleteMoodVoiceMemoFiles,
+  purgeUnreferencedMoodVoiceMemoFiles,
+} from "./voiceMemoStorage";
 import {
   linkEmotionsToMood,
   upsertEmotionCategory,
 } from "./emotions";
 import { parseEmotionItem } from "./emotionUtils";
+import { deleteOrphanedMoodRevisions, diffMoodEntries, recordMoodRevision } from "./revisions";
+import {
+  MOOD_SEARCH_TABLE,
+  buildFtsMatchQuery,
+  buildLikePattern,
+  buildSearchSnippets,
+  contextTagSearchTextSql,
+  emotionSearchTextSql,
+  parseSearchQuery,
+  type MoodSearchOptions,
+  type MoodSearchResult,
+} from "./search";
+
+/**
+ * Entries in the trash have `deleted_at` set. Every query that lists, counts
+ * or summarises entries leaves them out; lookups by id after a write do not.
+ */
+const NOT_DELETED = "deleted_at IS NULL";
 
 export async function insertMood(
   mood: number,
@@ -27,10 +58,12 @@ export async function insertMood(
     ...metadata,
   });
 
+  const createdAt = Date.now();
+
   await db.execAsync("BEGIN TRANSACTION;");
   try {
     const result = await db.runAsync(
-      "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
+      "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
       mood,
       normalized.note,
       normalized.timestamp,
@@ -38,10 +71,12 @@ export async function insertMood(
       serializeArray(normalized.contextTags),
       normalized.energy,
       serializeMoodScale(normalized.moodScale),
-      "[]",
-      null,
-      "[]",
-      normalized.basedOnEntryId
+      serializePhotos(normalized.photos),
+      serializeLocation(normalized.location),
+      serializeVoiceMemos(normalized.voiceMemos),
+      normalized.basedOnEntryId,
+      createdAt,
+      createdAt
     );
 
     if (normalized.emotions && normalized.emotions.length > 0) {
@@ -65,10 +100,12 @@ export async function insertMoodEntry(entry: MoodEntryInput): Promise<MoodEntry>
   const db = await getDb();
   const normalized = normalizeInput(entry);
 
+  const createdAt = Date.now();
+
   await db.execAsync("BEGIN TRANSACTION;");
   try {
     const result = await db.runAsync(
-      "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
+      "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, photos_json, location_json, voice_memos_json, based_on_entry_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
       entry.mood,
       normalized.note,
       normalized.timestamp,
@@ -76,10 +113,12 @@ export async function insertMoodEntry(entry: MoodEntryInput): Promise<MoodEntry>
       serializeArray(normalized.contextTags),
       normalized.energy,
       serializeMoodScale(normalized.moodScale),
-      "[]",
-      null,
-      "[]",
-      normalized.basedOnEntryId
+      serializePhotos(normalized.photos),
+      serializeLocation(normalized.location),
+      serializeVoiceMemos(normalized.voiceMemos),
+      normalized.basedOnEntryId,
+      createdAt,
+      createdAt
     );
 
     if (normalized.emotions && normalized.emotions.length > 0) {
@@ -107,7 +146,7 @@ export async function hasMoodBeenLoggedToday(): Promise<boolean> {
   todayEnd.setHours(23, 59, 59, 999);
 
   const result = await db.getFirstAsync<CountResult>(
-    "SELECT COUNT(*) as count FROM moods WHERE timestamp >= ? AND timestamp <= ?;",
+    `SELECT COUNT(*) as count FROM moods WHERE timestamp >= ? AND timestamp <= ? AND ${NOT_DELETED};`,
     todayStart.getTime(),
     todayEnd.getTime()
   );
@@ -115,12 +154,45 @@ export async function hasMoodBeenLoggedToday(): Promise<boolean> {
   return (result?.count ?? 0) > 0;
 }
 
-export async function updateMoodNote(
+/**
+ * Runs `update` against one entry and records what it changed in the
+ * revision log. The caller owns the transaction.
+ */
+export async function updateWithRevision(
+  db: SQLite.SQLiteDatabase,
   id: number,
-  note: string
+  update: () => Promise<void>
+): Promise<void> {
+  const before = await db.getFirstAsync<MoodRow>("SELECT * FROM moods WHERE id = ?;", id);
+  const beforeEntry = before ? toMoodEntry(before) : undefined;
+  await update();
+  const after = await db.getFirstAsync<MoodRow>("SELECT * FROM moods WHERE id = ?;", id);
+  if (beforeEntry && after) {
+    await recordMoodRevision(db, id, diffMoodEntries(beforeEntry, toMoodEntry(after)));
+  }
+}
+
+async function updateSingleColumn(
+  id: number,
+  column: "note" | "timestamp",
+  value: QueryParam
 ): Promise<MoodEntry | undefined> {
   const db = await getDb();
-  await db.runAsync("UPDATE moods SET note = ? WHERE id = ?;", note, id);
+  await db.execAsync("BEGIN TRANSACTION;");
+  try {
+    await updateWithRevision(db, id, async () => {
+      await db.runAsync(
+        `UPDATE moods SET ${column} = ?, updated_at = ? WHERE id = ?;`,
+        value,
+        Date.now(),
+        id
+      );
+    });
+    await db.execAsync("COMMIT;");
+  } catch (error) {
+    await db.execAsync("ROLLBACK;");
+    throw error;
+  }
   const updated = await db.getFirstAsync<MoodRow>(
     "SELECT * FROM moods WHERE id = ?;",
     id
@@ -128,17 +200,18 @@ export async function updateMoodNote(
   return updated ? toMoodEntry(updated) : undefined;
 }
 
+export async function updateMoodNote(
+  id: number,
+  note: string
+): Promise<MoodEntry | undefined> {
+  return updateSingleColumn(id, "note", note);
+}
+
 export async function updateMoodTimestamp(
   id: number,
   timestamp: number
 ): Promise<MoodEntry | undefined> {
-  const db = await getDb();
-  await db.runAsync("UPDATE moods SET timestamp = ? WHERE id = ?;", timestamp, id);
-  const updated = await db.getFirstAsync<MoodRow>(
-    "SELECT * FROM moods WHERE id = ?;",
-    id
-  );
-  return updated ? toMoodEntry(updated) : undefined;
+  return updateSingleColumn(id, "timestamp", timestamp);
 }
 
 export async function updateMoodEntry(
@@ -150,6 +223,7 @@ export async function updateMoodEntry(
   const params: QueryParam[] = [];
   let updateEmotions = false;
   let emotionsToUpdate: Emotion[] = [];
+  let previousAttachments: Pick<MoodRow, "photos_json" | "voice_memos_json"> | null = null;
 
   if (typeof updates.mood === "number") {
     fields.push("mood = ?");
@@ -185,6 +259,23 @@ export async function updateMoodEntry(
     fields.push("mood_scale_json = ?");
     params.push(serializeMoodScale(updates.moodScale));
   }
+  if (updates.photos !== undefined || updates.voiceMemos !== undefined) {
+    previousAttachments = await db.getFirstAsync<
+      Pick<MoodRow, "photos_json" | "voice_memos_json">
+    >("SELECT photos_json, voice_memos_json FROM moods WHERE id = ?;", id);
+  }
+  if (updates.photos !== undefined) {
+    fields.push("photos_json = ?");
+    params.push(serializePhotos(updates.photos));
+  }
+  if (updates.voiceMemos !== undefined) {
+    fields.push("voice_memos_json = ?");
+    params.push(serializeVoiceMemos(updates.voiceMemos));
+  }
+  if (updates.location !== undefined) {
+    fields.push("location_json = ?");
+    params.push(serializeLocation(updates.location));
+  }
   if (updates.basedOnEntryId !== undefined) {
     fields.push("based_on_entry_id = ?");
     params.push(updates.basedOnEntryId);
@@ -194,14 +285,18 @@ export async function updateMoodEntry(
     const current = await db.getFirstAsync<MoodRow>("SELECT * FROM moods WHERE id = ?;", id);
     return current ? toMoodEntry(current) : undefined;
   }
+  fields.push("updated_at = ?");
+  params.push(Date.now());
 
   await db.execAsync("BEGIN TRANSACTION;");
   try {
-    await db.runAsync(
-      `UPDATE moods SET ${fields.join(", ")} WHERE id = ?;`,
-      ...params,
-      id
-    );
+    await updateWithRevision(db, id, async () => {
+      await db.runAsync(
+        `UPDATE moods SET ${fields.join(", ")} WHERE id = ?;`,
+        ...params,
+        id
+      );
+    });
 
     if (updateEmotions) {
       await linkEmotionsToMood(db, id, emotionsToUpdate);
@@ -213,6 +308,21 @@ export async function updateMoodEntry(
     throw error;
   }
 
+  if (updates.photos !== undefined) {
+    const keptIds = new Set(updates.photos.map((photo) => photo.id));
+    await deleteMoodPhotoFiles(
+      deserializePhotos(previousAttachments?.photos_json).filter((photo) => !keptIds.has(photo.id))
+    );
+  }
+  if (updates.voiceMemos !== undefined) {
+    const keptIds = new Set(updates.voiceMemos.map((memo) => memo.id));
+    await deleteMoodVoiceMemoFiles(
+      deserializeVoiceMemos(previousAttachments?.voice_memos_json).filter(
+        (memo) => !keptIds.has(memo.id)
+      )
+    );
+  }
+
   const updated = await db.getFirstAsync<MoodRow>(
     "SELECT * FROM moods WHERE id = ?;",
     id
@@ -222,10 +332,34 @@ export async function updateMoodEntry(
 
 export async function getAllMoods(): Promise<MoodEntry[]> {
   const db = await getDb();
-  const rows = await db.getAllAsync<MoodRow>("SELECT * FROM moods ORDER BY timestamp DESC;");
+  const rows = await db.getAllAsync<MoodRow>(
+    `SELECT * FROM moods WHERE ${NOT_DELETED} ORDER BY timestamp DESC;`
+  );
   return rows.map(toMoodEntry);
 }
 
+// Stays well under SQLite's limit on bound parameters per statement.
+const MAX_IDS_PER_QUERY = 500;
+
+/**
+ * Get the entries with the given ids, newest first. Ids with no entry, or
+ * whose entry is in the trash, are left out.
+ */
+export async function getMoodsByIds(ids: number[]): Promise<MoodEntry[]> {
+  const db = await getDb();
+  const rows: MoodRow[] = [];
+  for (let start = 0; start < ids.length; start += MAX_IDS_PER_QUERY) {
+    const chunk = ids.slice(start, start + MAX_IDS_PER_QUERY);
+    rows.push(
+      ...(await db.getAllAsync<MoodRow>(
+        `SELECT * FROM moods WHERE id IN (${chunk.map(() => "?").join(", ")}) AND ${NOT_DELETED};`,
+        ...chunk
+      ))
+    );
+  }
+  return rows.sort((a, b) => b.timestamp - a.timestamp).map(toMoodEntry);
+}
+
 export type PaginationOptions = {
   limit: number;
   offset: number;
@@ -245,11 +379,11 @@ export async function getMoodsPaginated(
 
   const [rows, countResult] = await Promise.all([
     db.getAllAsync<MoodRow>(
-      "SELECT * FROM moods ORDER BY timestamp DESC LIMIT ? OFFSET ?;",
+      `SELECT * FROM moods WHERE ${NOT_DELETED} ORDER BY timestamp DESC LIMIT ? OFFSET ?;`,
       limit,
       offset
     ),
-    db.getFirstAsync<CountResult>("SELECT COUNT(*) as count FROM moods;"),
+    db.getFirstAsync<CountResult>(`SELECT COUNT(*) as count FROM moods WHERE ${NOT_DELETED};`),
   ]);
 
   const total = countResult?.count ?? 0;
@@ -262,14 +396,215 @@ export async function getMoodsPaginated(
   };
 }
 
+async function hasMoodSearchIndex(db: SQLite.SQLiteDatabase): Promise<boolean> {
+  const row = await db.getFirstAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?;",
+    MOOD_SEARCH_TABLE
+  );
+  return row !== null && row !== undefined;
+}
+
+/**
+ * Searches notes, emotion names and context tags. Uses the FTS5 index where
+ * the platform's SQLite has it (ranked by bm25) and a LIKE scan otherwise
+ * (ranked by which fields matched). Every term must match; an optional
+ * `filter` narrows results further. Pages the same way as `getMoodsPaginated`.
+ */
+export async function searchMoods(
+  options: MoodSearchOptions
+): Promise<PaginatedResult<MoodSearchResult>> {
+  const { limit, offset } = options;
+  const terms = parseSearchQuery(options.query);
+  if (terms.length === 0) {
+    return { data: [], total: 0, hasMore: false };
+  }
+
+  const db = await getDb();
+  let rows: MoodRow[];
+  let total: number;
+
+  if (await hasMoodSearchIndex(db)) {
+    const match = buildFtsMatchQuery(terms);
+    const filter = buildMoodQuerySql(options.filter ?? {}, "moods");
+    const from = `FROM ${MOOD_SEARCH_TABLE} JOIN moods ON moods.id = ${MOOD_SEARCH_TABLE}.rowid WHERE ${MOOD_SEARCH_TABLE} MATCH ? AND ${filter.where} AND moods.${NOT_DELETED}`;
+    const [ftsRows, countResult] = await Promise.all([
+      db.getAllAsync<MoodRow>(
+        `SELECT moods.* ${from} ORDER BY bm25(${MOOD_SEARCH_TABLE}, 1.0, 2.0, 2.0), moods.timestamp DESC LIMIT ? OFFSET ?;`,
+        match,
+        ...filter.params,
+        limit,
+        offset
+      ),
+      db.getFirstAsync<CountResult>(
+        `SELECT COUNT(*) as count ${from};`,
+        match,
+        ...filter.params
+      ),
+    ]);
+    rows = ftsRows;
+    total = countResult?.count ?? 0;
+  } else {
+    const filter = buildMoodQuerySql(options.filter ?? {}, "moods");
+    const docs = `WITH docs AS (SELECT moods.*, LOWER(COALESCE(moods.note, '')) AS search_note, LOWER(${emotionSearchTextSql("moods.emotions")}) AS search_emotions, LOWER(${contextTagSearchTextSql("moods.context_tags")}) AS search_tags FROM moods WHERE ${filter.where} AND moods.${NOT_DELETED})`;
+    const fieldMatch = (column: string) => `${column} LIKE ? ESCAPE '\\'`;
+    const where = terms
+      .map(
+        () =>
+          `(${fieldMatch("search_note")} OR ${fieldMatch("search_emotions")} OR ${fieldMatch("search_tags")})`
+      )
+      .join(" AND ");
+    const score = terms
+      .map(
+        () =>
+          `(${fieldMatch("search_note")}) + 2 * (${fieldMatch("search_emotions")}) + 2 * (${fieldMatch("search_tags")})`
+      )
+      .join(" + ");
+    const patterns = terms.flatMap((term) => {
+      const pattern = buildLikePattern(term);
+      return [pattern, pattern, pattern];
+    });
+
+    const [likeRows, countResult] = await Promise.all([
+      db.getAllAsync<MoodRow>(
+        `${docs} SELECT *, ${score} AS search_score FROM docs WHERE ${where} ORDER BY search_score DESC, timestamp DESC LIMIT ? OFFSET ?;`,
+        ...filter.params,
+        ...patterns,
+        ...patterns,
+        limit,
+        offset
+      ),
+      db.getFirstAsync<CountResult>(
+        `${docs} SELECT COUNT(*) as count FROM docs WHERE ${where};`,
+        ...filter.params,
+        ...patterns
+      ),
+    ]);
+    rows = likeRows;
+    total = countResult?.count ?? 0;
+  }
+
+  const data = rows.map((row) => {
+    const entry = toMoodEntry(row);
+    return { entry, snippets: buildSearchSnippets(entry, terms) };
+  });
+
+  return {
+    data,
+    total,
+    hasMore: offset + data.length < total,
+  };
+}
+
+/**
+ * Moves an entry to the trash. The row keeps its id, emotion links and
+ * attachment files until it is restored or purged.
+ */
 export async function deleteMood(id: number) {
   const db = await getDb();
-  return await db.runAsync("DELETE FROM moods WHERE id = ?;", id);
+  const now = Date.now();
+  return await db.runAsync(
+    `UPDATE moods SET deleted_at = ?, updated_at = ? WHERE id = ? AND ${NOT_DELETED};`,
+    now,
+    now,
+    id
+  );
+}
+
+export type DeletedMoodEntry = {
+  entry: MoodEntry;
+  deletedAt: number;
+};
+
+/**
+ * Get the entries in the trash, most recently deleted first
+ */
+export async function getDeletedMoods(): Promise<DeletedMoodEntry[]> {
+  const db = await getDb();
+  const rows = await db.getAllAsync<MoodRow>(
+    "SELECT * FROM moods WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC;"
+  );
+  return rows.map((row) => ({ entry: toMoodEntry(row), deletedAt: row.deleted_at ?? 0 }));
+}
+
+/**
+ * Takes an entry out of the trash under its original id, so entries copied
+ * from it stay linked. Returns undefined when the entry has been purged.
+ */
+export async function restoreDeletedMood(id: number): Promise<MoodEntry | undefined> {
+  const db = await getDb();
+  await db.runAsync(
+    "UPDATE moods SET deleted_at = ?, updated_at = ? WHERE id = ?;",
+    null,
+    Date.now(),
+    id
+  );
+  const restored = await db.getFirstAsync<MoodRow>("SELECT * FROM moods WHERE id = ?;", id);
+  return restored ? toMoodEntry(restored) : undefined;
+}
+
+/**
+ * Permanently deletes the given entries from the trash, along with their
+ * revisions and attachment files. Ids not in the trash are ignored. Returns the number of
+ * entries deleted.
+ */
+export async function purgeDeletedMoods(ids: number[]): Promise<number> {
+  const db = await getDb();
+  let purged = 0;
+  for (let start = 0; start < ids.length; start += MAX_IDS_PER_QUERY) {
+    const chunk = ids.slice(start, start + MAX_IDS_PER_QUERY);
+    const result = await db.runAsync(
+      `DELETE FROM moods WHERE deleted_at IS NOT NULL AND id IN (${chunk.map(() => "?").join(", ")});`,
+      ...chunk
+    );
+    purged += result.changes;
+  }
+  if (purged > 0) {
+    await deleteOrphanedMoodRevisions(db);
+    await purgeUnusedMoodAttachments();
+  }
+  return purged;
+}
+
+/**
+ * Permanently deletes entries moved to the trash at or before `cutoff`, along
+ * with their revisions and attachment files. Returns the number of entries deleted.
+ */
+export async function purgeMoodsDeletedBefore(cutoff: number): Promise<number> {
+  const db = await getDb();
+  const result = await db.runAsync(
+    "DELETE FROM moods WHERE deleted_at IS NOT NULL AND deleted_at <= ?;",
+    cutoff
+  );
+  if (result.changes > 0) {
+    await deleteOrphanedMoodRevisions(db);
+    await purgeUnusedMoodAttachments();
+  }
+  return result.changes;
+}
+
+/**
+ * Removes photo and voice memo files no longer referenced by any entry,
+ * including entries in the trash. Returns the number of files deleted.
+ */
+export async function purgeUnusedMoodAttachments(): Promise<number> {
+  const db = await getDb();
+  const rows = await db.getAllAsync<Pick<MoodRow, "photos_json" | "voice_memos_json">>(
+    "SELECT photos_json, voice_memos_json FROM moods;"
+  );
+  const photos = rows.flatMap((row) => deserializePhotos(row.photos_json));
+  const voiceMemos = rows.flatMap((row) => deserializeVoiceMemos(row.voice_memos_json));
+
+  return (
+    (await purgeUnreferencedMoodPhotoFiles(photos)) +
+    (await purgeUnreferencedMoodVoiceMemoFiles(voiceMemos))
+  );
 }
 
 export async function getMoodCount(): Promise<number> {
   const db = await getDb();
-  const result = await db.getFirstAsync<CountResult>("SELECT COUNT(*) as count FROM moods");
+  const result = await db.getFirstAsync<CountResult>(
+    `SELECT COUNT(*) as count FROM moods WHERE ${NOT_DELETED};`
+  );
   return result?.count ?? 0;
 }
 
@@ -284,7 +619,7 @@ export async function updateEmotionCategoryInMoods(
 export async function getEmotionNamesFromMoods(): Promise<string[]> {
   const db = await getDb();
   const rows = await db.getAllAsync<Pick<MoodRow, "emotions">>(
-    "SELECT emotions FROM moods;"
+    `SELECT emotions FROM moods WHERE ${NOT_DELETED};`
   );
   const seen = new Map<string, string>();
 
@@ -397,7 +732,7 @@ function parseHistoryContextTags(value: unknown): string[] {
 export async function getEmotionsFromMoods(): Promise<Emotion[]> {
   const db = await getDb();
   const rows = await db.getAllAsync<Pick<MoodRow, "emotions">>(
-    "SELECT emotions FROM moods ORDER BY timestamp DESC, id DESC;"
+    `SELECT emotions FROM moods WHERE ${NOT_DELETED} ORDER BY timestamp DESC, id DESC;`
   );
   const seen = new Map<string, Emotion>();
 
@@ -417,7 +752,7 @@ export async function getEmotionsFromMoods(): Promise<Emotion[]> {
 export async function getContextTagsFromMoods(): Promise<string[]> {
   const db = await getDb();
   const rows = await db.getAllAsync<Pick<MoodRow, "context_tags">>(
-    "SELECT context_tags FROM moods ORDER BY timestamp DESC, id DESC;"
+    `SELECT context_tags FROM moods WHERE ${NOT_DELETED} ORDER BY timestamp DESC, id DESC;`
   );
   const seen = new Map<string, string>();
 
@@ -439,7 +774,7 @@ export async function getMoodsWithinRange(
 ): Promise<MoodEntry[]> {
   const db = await getDb();
   const { startDate, endDate } = resolveDateRange(range);
-  const conditions: string[] = [];
+  const conditions: string[] = [NOT_DELETED];
   const params: QueryParam[] = [];
 
   if (typeof startDate === "number") {
@@ -451,14 +786,57 @@ export async function getMoodsWithinRange(
     params.push(endDate);
   }
 
-  const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
   const rows = await db.getAllAsync<MoodRow>(
-    `SELECT * FROM moods ${whereClause} ORDER BY timestamp DESC;`,
+    `SELECT * FROM moods WHERE ${conditions.join(" AND ")} ORDER BY timestamp DESC;`,
     ...params
   );
   return rows.map(toMoodEntry);
 }
 
+/**
+ * Get every entry matching a structured filter, newest first
+ */
+export async function getMoodsMatching(query: MoodQuery): Promise<MoodEntry[]> {
+  const db = await getDb();
+  const { where, params } = buildMoodQuerySql(query);
+  const rows = await db.getAllAsync<MoodRow>(
+    `SELECT * FROM moods WHERE ${where} AND ${NOT_DELETED} ORDER BY timestamp DESC;`,
+    ...params
+  );
+  return rows.map(toMoodEntry);
+}
+
+export async function getMoodsMatchingPaginated(
+  query: MoodQuery,
+  options: PaginationOptions
+): Promise<PaginatedResult<MoodEntry>> {
+  const db = await getDb();
+  const { limit, offset } = options;
+  const { where, params } = buildMoodQuerySql(query);
+
+  const [rows, countResult] = await Promise.all([
+    db.getAllAsync<MoodRow>(
+      `SELECT * FROM moods WHERE ${where} AND ${NOT_DELETED} ORDER BY timestamp DESC LIMIT ? OFFSET ?;`,
+      ...params,
+      limit,
+      offset
+    ),
+    db.getFirstAsync<CountResult>(
+      `SELECT COUNT(*) as count FROM moods WHERE ${where} AND ${NOT_DELETED};`,
+      ...params
+    ),
+  ]);
+
+  const total = countResult?.count ?? 0;
+  const data = rows.map(toMoodEntry);
+
+  return {
+    data,
+    total,
+    hasMore: offset + data.length < total,
+  };
+}
+
 /**
  * Get moods in a specific timestamp range (optimized for index usage)
  * @param startDate - Start timestamp in milliseconds
@@ -470,7 +848,7 @@ export async function getMoodsInRange(
 ): Promise<MoodEntry[]> {
   const db = await getDb();
   const rows = await db.getAllAsync<MoodRow>(
-    "SELECT * FROM moods WHERE timestamp >= ? AND timestamp <= ? ORDER BY timestamp DESC;",
+    `SELECT * FROM moods WHERE timestamp >= ? AND timestamp <= ? AND ${NOT_DELETED} ORDER BY timestamp DESC;`,
     startDate,
     endDate
   );
@@ -494,7 +872,7 @@ export async function getMoodsByMonth(
   const endOfMonth = new Date(year, month + 1, 0, 23, 59, 59, 999);
 
   const rows = await db.getAllAsync<MoodRow>(
-    "SELECT * FROM moods WHERE timestamp >= ? AND timestamp <= ? ORDER BY timestamp ASC;",
+    `SELECT * FROM moods WHERE timestamp >= ? AND timestamp <= ? AND ${NOT_DELETED} ORDER BY timestamp ASC;`,
     startOfMonth.getTime(),
     endOfMonth.getTime()
   );
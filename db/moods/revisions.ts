@@ -0,0 +1,196 @@
+import type * as SQLite from "expo-sqlite";
+import { getDb } from "../client";
+import type { MoodEntry } from "../types";
+import type { MoodRevisionRow } from "../types/rows";
+
+export const MOOD_REVISIONS_TABLE = "mood_revisions";
+
+/**
+ * Every edit to an entry appends one row holding the fields it changed, with
+ * their values before and after. Rows are written in the same transaction as
+ * the edit and removed only when their entry is permanently deleted.
+ */
+export const CREATE_MOOD_REVISIONS_SQL = `
+  CREATE TABLE IF NOT EXISTS ${MOOD_REVISIONS_TABLE} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    mood_id INTEGER NOT NULL,
+    revised_at INTEGER NOT NULL,
+    changes_json TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_mood_revisions_mood_id ON ${MOOD_REVISIONS_TABLE}(mood_id, revised_at);
+`;
+
+export type MoodRevisionChange =
+  | { field: "mood"; from: number; to: number }
+  | { field: "note"; from: string | null; to: string | null }
+  | { field: "timestamp"; from: number; to: number }
+  | { field: "energy"; from: number | null; to: number | null }
+  | { field: "emotions" | "contextTags"; from: string[]; to: string[] };
+
+export type MoodRevisionField = MoodRevisionChange["field"];
+
+export type MoodRevision = {
+  id: number;
+  moodId: number;
+  revisedAt: number;
+  changes: MoodRevisionChange[];
+};
+
+function sameNames(a: string[], b: string[]): boolean {
+  const normalize = (names: string[]) =>
+    names.map((name) => name.toLowerCase()).sort().join("\n");
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * The tracked fields that differ between two versions of an entry, in a
+ * fixed order. Attachments, location and the Mood Scale snapshot are not
+ * tracked. Reordering emotions or tags does not count as a change.
+ */
+export function diffMoodEntries(before: MoodEntry, after: MoodEntry): MoodRevisionChange[] {
+  const changes: MoodRevisionChange[] = [];
+  if (before.mood !== after.mood) {
+    changes.push({ field: "mood", from: before.mood, to: after.mood });
+  }
+  if ((before.note ?? "") !== (after.note ?? "")) {
+    changes.push({ field: "note", from: before.note, to: after.note });
+  }
+  if (before.timestamp !== after.timestamp) {
+    changes.push({ field: "timestamp", from: before.timestamp, to: after.timestamp });
+  }
+  if (before.energy !== after.energy) {
+    changes.push({ field: "energy", from: before.energy, to: after.energy });
+  }
+  const emotionsBefore = before.emotions.map((emotion) => emotion.name);
+  const emotionsAfter = after.emotions.map((emotion) => emotion.name);
+  if (!sameNames(emotionsBefore, emotionsAfter)) {
+    changes.push({ field: "emotions", from: emotionsBefore, to: emotionsAfter });
+  }
+  if (!sameNames(before.contextTags, after.contextTags)) {
+    changes.push({ field: "contextTags", from: before.contextTags, to: after.contextTags });
+  }
+  return changes;
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+const isNullableNumber = (value: unknown): value is number | null =>
+  value === null || isNumber(value);
+const isNullableString = (value: unknown): value is string | null =>
+  value === null || typeof value === "string";
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+function parseRevisionChange(value: unknown): MoodRevisionChange | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const { field, from, to } = value as Record<string, unknown>;
+  switch (field) {
+    case "mood":
+    case "timestamp":
+      return isNumber(from) && isNumber(to) ? { field, from, to } : null;
+    case "energy":
+      return isNullableNumber(from) && isNullableNumber(to) ? { field, from, to } : null;
+    case "note":
+      return isNullableString(from) && isNullableString(to) ? { field, from, to } : null;
+    case "emotions":
+    case "contextTags":
+      return isStringList(from) && isStringList(to) ? { field, from, to } : null;
+    default:
+      return null;
+  }
+}
+
+/** Reads stored changes, dropping any this version of the app can't show. */
+export function parseMoodRevisionChanges(json: string | null): MoodRevisionChange[] {
+  try {
+    const parsed: unknown = JSON.parse(json ?? "[]");
+    return Array.isArray(parsed)
+      ? parsed
+          .map(parseRevisionChange)
+          .filter((change): change is MoodRevisionChange => change !== null)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function toMoodRevision(row: MoodRevisionRow): MoodRevision {
+  return {
+    id: row.id,
+    moodId: row.mood_id,
+    revisedAt: row.revised_at,
+    changes: parseMoodRevisionChanges(row.changes_json),
+  };
+}
+
+/**
+ * Appends a revision for `moodId`. Runs inside the caller's transaction;
+ * does nothing when there are no changes.
+ */
+export async function recordMoodRevision(
+  db: SQLite.SQLiteDatabase,
+  moodId: number,
+  changes: MoodRevisionChange[],
+  revisedAt = Date.now()
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+  await db.runAsync(
+    `INSERT INTO ${MOOD_REVISIONS_TABLE} (mood_id, revised_at, changes_json) VALUES (?, ?, ?);`,
+    moodId,
+    revisedAt,
+    JSON.stringify(changes)
+  );
+}
+
+/**
+ * Get the revisions of one entry, oldest first
+ */
+export async function getMoodRevisions(moodId: number): Promise<MoodRevision[]> {
+  const db = await getDb();
+  const rows = await db.getAllAsync<MoodRevisionRow>(
+    `SELECT * FROM ${MOOD_REVISIONS_TABLE} WHERE mood_id = ? ORDER BY revised_at ASC, id ASC;`,
+    moodId
+  );
+  return rows.map(toMoodRevision);
+}
+
+// Stays well under SQLite's limit on bound parameters per statement.
+const MAX_IDS_PER_QUERY = 500;
+
+/**
+ * Get the revisions of several entries, oldest first, keyed by entry id.
+ * Entries never edited are left out.
+ */
+export async function getMoodRevisionsByMoodIds(
+  moodIds: number[]
+): Promise<Map<number, MoodRevision[]>> {
+  const db = await getDb();
+  const revisions = new Map<number, MoodRevision[]>();
+  for (let start = 0; start < moodIds.length; start += MAX_IDS_PER_QUERY) {
+    const chunk = moodIds.slice(start, start + MAX_IDS_PER_QUERY);
+    const rows = await db.getAllAsync<MoodRevisionRow>(
+      `SELECT * FROM ${MOOD_REVISIONS_TABLE} WHERE mood_id IN (${chunk.map(() => "?").join(", ")}) ORDER BY revised_at ASC, id ASC;`,
+      ...chunk
+    );
+    for (const row of rows) {
+      const list = revisions.get(row.mood_id) ?? [];
+      list.push(toMoodRevision(row));
+      revisions.set(row.mood_id, list);
+    }
+  }
+  return revisions;
+}
+
+/**
+ * Removes revisions whose entry no longer exists. Run after permanently
+ * deleting entries; foreign keys are not enforced.
+ */
+export async function deleteOrphanedMoodRevisions(db: SQLite.SQLiteDatabase): Promise<void> {
+  await db.runAsync(
+    `DELETE FROM ${MOOD_REVISIONS_TABLE} WHERE mood_id NOT IN (SELECT id FROM moods);`
+  );
+}
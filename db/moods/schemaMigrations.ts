@@ -0,0 +1,111 @@
+import type { SchemaMigration } from "../migrationRunner";
+import { createMoodTable } from "./schema";
+import {
+  backfillMoodScaleJson,
+  hasCompletedLegacyEmotionMigration,
+  migrateEmotionsToCategories,
+} from "./migrations";
+import { hasEmotionTableMigrated, populateMoodEmotionsTable } from "./emotions";
+import { CREATE_MOOD_SEARCH_INDEX_SQL } from "./search";
+import { CREATE_MOOD_CHANGE_LOG_SQL } from "./changeLog";
+import { CREATE_MOOD_REVISIONS_SQL } from "./revisions";
+
+/**
+ * Ordered schema history for moodinator.db. Append new steps with the next
+ * version number; never edit or reorder a step that has shipped.
+ *
+ * Versions 1-3 reproduce the idempotent start-up work that ran before
+ * `user_version` was tracked, so existing installs (at version 0) replay them
+ * safely and fresh installs reach the same shape.
+ */
+export const MOOD_SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    name: "create-mood-tables",
+    up: async (db) => {
+      await createMoodTable(db);
+    },
+  },
+  {
+    version: 2,
+    name: "backfill-mood-scale-json",
+    up: async (db) => {
+      await backfillMoodScaleJson(db);
+    },
+  },
+  {
+    version: 3,
+    name: "populate-mood-emotions",
+    up: async (db) => {
+      if (await hasEmotionTableMigrated(db)) {
+        return;
+      }
+      await populateMoodEmotionsTable(db);
+    },
+  },
+  {
+    version: 4,
+    name: "create-mood-search-index",
+    up: async (db) => {
+      // Android builds ship SQLite without FTS5; search falls back to LIKE there.
+      const fts = await db.getFirstAsync<{ enabled: number }>(
+        "SELECT sqlite_compileoption_used('ENABLE_FTS5') as enabled;"
+      );
+      if (!fts?.enabled) {
+        return;
+      }
+      await db.execAsync(CREATE_MOOD_SEARCH_INDEX_SQL);
+    },
+  },
+  {
+    version: 5,
+    name: "create-mood-change-log",
+    up: async (db) => {
+      // Existing entries are not logged; the first backup afterwards is full.
+      await db.execAsync(CREATE_MOOD_CHANGE_LOG_SQL);
+    },
+  },
+  {
+    version: 6,
+    name: "add-mood-deleted-at",
+    up: async (db) => {
+      // NULL for every existing entry: nothing starts out in the trash.
+      await db.execAsync(`
+        ALTER TABLE moods ADD COLUMN deleted_at INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_moods_deleted_at ON moods(deleted_at);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "create-mood-revisions",
+    up: async (db) => {
+      // Edits made before this version have no history.
+      await db.execAsync(CREATE_MOOD_REVISIONS_SQL);
+    },
+  },
+  {
+    version: 8,
+    name: "add-mood-created-updated-at",
+    up: async (db) => {
+      // When existing entries were logged is unknown; they are treated as
+      // logged at the time they describe.
+      await db.execAsync(`
+        ALTER TABLE moods ADD COLUMN created_at INTEGER;
+        ALTER TABLE moods ADD COLUMN updated_at INTEGER;
+        UPDATE moods SET created_at = timestamp, updated_at = timestamp;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "categorize-legacy-emotions",
+    up: async (db) => {
+      // Installs that ran this from app start-up already recorded it there.
+      if (await hasCompletedLegacyEmotionMigration()) {
+        return;
+      }
+      await migrateEmotionsToCategories(db);
+    },
+  },
+];
@@ -0,0 +1,187 @@
+import type { MoodEntry } from "../types";
+import type { MoodQuery } from "../../domain/moodQuery";
+
+export const MAX_SEARCH_TERMS = 8;
+export const MAX_SEARCH_TERM_LENGTH = 64;
+const NOTE_SNIPPET_RADIUS = 40;
+
+export const MOOD_SEARCH_TABLE = "moods_fts";
+
+export type MoodSearchOptions = {
+  query: string;
+  limit: number;
+  offset: number;
+  filter?: MoodQuery;
+};
+
+export type MoodSearchSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+export type MoodSearchSnippet = {
+  field: "note" | "emotions" | "contextTags";
+  segments: MoodSearchSegment[];
+};
+
+export type MoodSearchResult = {
+  entry: MoodEntry;
+  snippets: MoodSearchSnippet[];
+};
+
+/**
+ * SQL expressions that flatten the JSON columns into space separated text.
+ * Emotions are stored either as plain names (legacy) or `{name, category}`
+ * objects, so both shapes are read.
+ */
+export function emotionSearchTextSql(column: string): string {
+  return `(SELECT COALESCE(group_concat(CASE WHEN type = 'object' THEN json_extract(value, '$.name') ELSE value END, ' '), '') FROM json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END))`;
+}
+
+export function contextTagSearchTextSql(column: string): string {
+  return `(SELECT COALESCE(group_concat(value, ' '), '') FROM json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END) WHERE type = 'text')`;
+}
+
+/**
+ * FTS5 index over notes, emotion names and context tags. The rowid mirrors
+ * `moods.id` and triggers keep it in step with every write to `moods`.
+ */
+export const CREATE_MOOD_SEARCH_INDEX_SQL = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS ${MOOD_SEARCH_TABLE} USING fts5(
+    note,
+    emotions,
+    context_tags,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+  CREATE TRIGGER IF NOT EXISTS moods_fts_after_insert AFTER INSERT ON moods BEGIN
+    INSERT INTO ${MOOD_SEARCH_TABLE} (rowid, note, emotions, context_tags)
+    VALUES (new.id, COALESCE(new.note, ''), ${emotionSearchTextSql("new.emotions")}, ${contextTagSearchTextSql("new.context_tags")});
+  END;
+  CREATE TRIGGER IF NOT EXISTS moods_fts_after_delete AFTER DELETE ON moods BEGIN
+    DELETE FROM ${MOOD_SEARCH_TABLE} WHERE rowid = old.id;
+  END;
+  CREATE TRIGGER IF NOT EXISTS moods_fts_after_update AFTER UPDATE OF note, emotions, context_tags ON moods BEGIN
+    DELETE FROM ${MOOD_SEARCH_TABLE} WHERE rowid = old.id;
+    INSERT INTO ${MOOD_SEARCH_TABLE} (rowid, note, emotions, context_tags)
+    VALUES (new.id, COALESCE(new.note, ''), ${emotionSearchTextSql("new.emotions")}, ${contextTagSearchTextSql("new.context_tags")});
+  END;
+  DELETE FROM ${MOOD_SEARCH_TABLE};
+  INSERT INTO ${MOOD_SEARCH_TABLE} (rowid, note, emotions, context_tags)
+  SELECT id, COALESCE(note, ''), ${emotionSearchTextSql("emotions")}, ${contextTagSearchTextSql("context_tags")}
+  FROM moods;
+`;
+
+/**
+ * Splits free text into lowercase terms. Every term must match somewhere in
+ * an entry for it to be returned.
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  for (const raw of query.toLowerCase().split(/\s+/)) {
+    const term = raw.trim().slice(0, MAX_SEARCH_TERM_LENGTH);
+    if (term.length === 0 || terms.includes(term)) {
+      continue;
+    }
+    terms.push(term);
+    if (terms.length >= MAX_SEARCH_TERMS) {
+      break;
+    }
+  }
+  return terms;
+}
+
+/**
+ * Quotes each term so FTS5 operators in user input are treated as text, and
+ * makes it a prefix match so partial words find results while typing.
+ */
+export function buildFtsMatchQuery(terms: string[]): string {
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"*`).join(" ");
+}
+
+/** Builds a `%term%` pattern for `LIKE ... ESCAPE '\'`. */
+export function buildLikePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+/**
+ * Splits text into highlighted and plain segments for every case-insensitive
+ * occurrence of a term.
+ */
+export function highlightSearchTerms(text: string, terms: string[]): MoodSearchSegment[] {
+  if (text.length === 0) {
+    return [];
+  }
+
+  const lower = text.toLowerCase();
+  const marks = new Array<boolean>(text.length).fill(false);
+  for (const term of terms) {
+    if (term.length === 0) continue;
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      marks.fill(true, index, index + term.length);
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  const segments: MoodSearchSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || marks[i] !== marks[start]) {
+      segments.push({ text: text.slice(start, i), highlighted: marks[start] });
+      start = i;
+    }
+  }
+  return segments;
+}
+
+function matchesAnyTerm(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.some((term) => lower.includes(term));
+}
+
+function buildNoteSnippet(note: string, terms: string[]): MoodSearchSnippet | null {
+  const lower = note.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index !== -1);
+  if (positions.length === 0) {
+    return null;
+  }
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - NOTE_SNIPPET_RADIUS);
+  const end = Math.min(note.length, first + NOTE_SNIPPET_RADIUS * 2);
+  const window = note.slice(start, end).replace(/\s+/g, " ");
+  const text = `${start > 0 ? "…" : ""}${window}${end < note.length ? "…" : ""}`;
+
+  return { field: "note", segments: highlightSearchTerms(text, terms) };
+}
+
+function buildListSnippet(
+  field: MoodSearchSnippet["field"],
+  values: string[],
+  terms: string[]
+): MoodSearchSnippet | null {
+  const matched = values.filter((value) => matchesAnyTerm(value, terms));
+  if (matched.length === 0) {
+    return null;
+  }
+  return { field, segments: highlightSearchTerms(matched.join(", "), terms) };
+}
+
+/**
+ * Builds the highlighted snippets shown under a search result. Both the FTS
+ * and LIKE backends share this so results look the same on every platform.
+ */
+export function buildSearchSnippets(entry: MoodEntry, terms: string[]): MoodSearchSnippet[] {
+  const snippets = [
+    entry.note ? buildNoteSnippet(entry.note, terms) : null,
+    buildListSnippet(
+      "emotions",
+      entry.emotions.map((emotion) => emotion.name),
+      terms
+    ),
+    buildListSnippet("contextTags", entry.contextTags, terms),
+  ];
+  return snippets.filter((snippet): snippet is MoodSearchSnippet => snippet !== null);
+}
@@ -184,14 +184,16 @@ export async function seedMoods() {
       await db.withExclusiveTransactionAsync(async (tx) => {
         for (const entry of batch) {
           const result = await tx.runAsync(
-            "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json) VALUES (?, ?, ?, ?, ?, ?, ?);",
+            "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);",
             entry.mood,
             entry.note,
             entry.timestamp,
             serializeEmotions(entry.emotions),
             serializeArray(entry.contextTags),
             entry.energy,
-            serializeMoodScale()
+            serializeMoodScale(),
+            entry.timestamp,
+            entry.timestamp
           );
 
           if (entry.emotions.length > 0) {
@@ -239,14 +241,16 @@ export async function seedMoodsFromFile(): Promise<{
           const energy = sanitizeEnergy((mood as any)?.energy);
           const timestamp = parseTimestamp((mood as any)?.timestamp);
           const result = await db.runAsync(
-            "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json) VALUES (?, ?, ?, ?, ?, ?, ?);",
+            "INSERT INTO moods (mood, note, timestamp, emotions, context_tags, energy, mood_scale_json, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);",
             mood.mood,
             note,
             timestamp,
             serializeEmotions(emotions),
             serializeArray(contextTags),
             energy,
-            serializeMoodScale()
+            serializeMoodScale(),
+            timestamp,
+            timestamp
           );
 
           if (emotions.length > 0) {
@@ -1,4 +1,7 @@
 import { getDb } from "../client";
+import { deleteAllMoodPhotoFiles } from "./photoStorage";
+import { deleteAllMoodVoiceMemoFiles } from "./voiceMemoStorage";
+import { MOOD_REVISIONS_TABLE } from "./revisions";
 
 export async function clearMoodData() {
   const db = await getDb();
@@ -7,12 +10,16 @@ export async function clearMoodData() {
   try {
     await db.runAsync("DELETE FROM mood_emotions;");
     await db.runAsync("DELETE FROM moods;");
+    await db.runAsync(`DELETE FROM ${MOOD_REVISIONS_TABLE};`);
     await db.runAsync("DELETE FROM emotions;");
     await db.execAsync("COMMIT;");
   } catch (error) {
     await db.execAsync("ROLLBACK;");
     throw error;
   }
+
+  await deleteAllMoodPhotoFiles();
+  await deleteAllMoodVoiceMemoFiles();
 }
 
 export async function clearMoods() {
@@ -1,9 +1,18 @@
-import type { Emotion, MoodEntry, MoodEntryInput, MoodScaleSnapshot } from "../types";
+import type {
+  Emotion,
+  MoodEntry,
+  MoodEntryInput,
+  MoodLocation,
+  MoodPhoto,
+  MoodScaleSnapshot,
+  MoodVoiceMemo,
+} from "../types";
 import type { MoodRow, RawEmotionItem } from "../types/rows";
 import {
   CURRENT_MOOD_SCALE_SNAPSHOT,
   getSupportedMoodScaleSnapshot,
 } from "../../domain/moodScale";
+import { sanitizeMoodLocation } from "../../domain/location";
 
 export { CURRENT_MOOD_SCALE_SNAPSHOT } from "../../domain/moodScale";
 
@@ -21,6 +30,89 @@ export function serializeEmotions(value?: Emotion[]): string {
   return JSON.stringify(value.slice(0, 50));
 }
 
+export const MAX_PHOTOS_PER_ENTRY = 6;
+
+// Photo files are generated by the app; anything else (paths, URIs) is rejected
+// so a crafted import cannot point an entry at files outside photo storage.
+const PHOTO_FILE_NAME_PATTERN = /^[a-z0-9-]+\.jpg$/;
+
+function isPositiveDimension(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+export function isValidMoodPhoto(value: unknown): value is MoodPhoto {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const raw = value as Record<string, unknown>;
+  return (
+    typeof raw.id === "string" &&
+    raw.id.length > 0 &&
+    typeof raw.fileName === "string" &&
+    PHOTO_FILE_NAME_PATTERN.test(raw.fileName) &&
+    typeof raw.thumbnailFileName === "string" &&
+    PHOTO_FILE_NAME_PATTERN.test(raw.thumbnailFileName) &&
+    isPositiveDimension(raw.width) &&
+    isPositiveDimension(raw.height)
+  );
+}
+
+export function serializePhotos(value?: MoodPhoto[]): string {
+  if (!value || value.length === 0) {
+    return "[]";
+  }
+  return JSON.stringify(
+    value.slice(0, MAX_PHOTOS_PER_ENTRY).map((photo) => ({
+      id: photo.id,
+      fileName: photo.fileName,
+      thumbnailFileName: photo.thumbnailFileName,
+      width: photo.width,
+      height: photo.height,
+    }))
+  );
+}
+
+export const MAX_VOICE_MEMOS_PER_ENTRY = 3;
+export const MAX_VOICE_MEMO_DURATION_MS = 3 * 60 * 1000;
+
+const VOICE_MEMO_FILE_NAME_PATTERN = /^[a-z0-9-]+\.m4a$/;
+
+export function isValidMoodVoiceMemo(value: unknown): value is MoodVoiceMemo {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const raw = value as Record<string, unknown>;
+  return (
+    typeof raw.id === "string" &&
+    raw.id.length > 0 &&
+    typeof raw.fileName === "string" &&
+    VOICE_MEMO_FILE_NAME_PATTERN.test(raw.fileName) &&
+    typeof raw.durationMs === "number" &&
+    Number.isFinite(raw.durationMs) &&
+    raw.durationMs >= 0
+  );
+}
+
+export function serializeVoiceMemos(value?: MoodVoiceMemo[]): string {
+  if (!value || value.length === 0) {
+    return "[]";
+  }
+  return JSON.stringify(
+    value.slice(0, MAX_VOICE_MEMOS_PER_ENTRY).map((memo) => ({
+      id: memo.id,
+      fileName: memo.fileName,
+      durationMs: memo.durationMs,
+    }))
+  );
+}
+
+export function serializeLocation(value?: MoodLocation | null): string | null {
+  const location = sanitizeMoodLocation(value);
+  return location ? JSON.stringify(location) : null;
+}
+
 export function serializeMoodScale(value?: MoodScaleSnapshot): string {
   return JSON.stringify(value ?? CURRENT_MOOD_SCALE_SNAPSHOT);
 }
@@ -85,6 +177,48 @@ function deserializeEmotions(value: unknown): Emotion[] {
   }
 }
 
+export function deserializePhotos(value: unknown): MoodPhoto[] {
+  if (typeof value !== "string" || value.length === 0) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    // Rows written before photo support may hold bare URI strings; those were
+    // never populated by the app and are dropped here.
+    return Array.isArray(parsed)
+      ? parsed.filter(isValidMoodPhoto).slice(0, MAX_PHOTOS_PER_ENTRY)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function deserializeVoiceMemos(value: unknown): MoodVoiceMemo[] {
+  if (typeof value !== "string" || value.length === 0) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    // As with photos, legacy bare URI strings are dropped.
+    return Array.isArray(parsed)
+      ? parsed.filter(isValidMoodVoiceMemo).slice(0, MAX_VOICE_MEMOS_PER_ENTRY)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function deserializeLocation(value: unknown): MoodLocation | null {
+  if (typeof value !== "string" || value.length === 0) {
+    return null;
+  }
+  try {
+    return sanitizeMoodLocation(JSON.parse(value));
+  } catch {
+    return null;
+  }
+}
+
 function deserializeMoodScale(value: unknown): MoodScaleSnapshot {
   if (typeof value !== "string" || value.length === 0) {
     return CURRENT_MOOD_SCALE_SNAPSHOT;
@@ -134,7 +268,12 @@ export function toMoodEntry(row: MoodRow): MoodEntry {
         ? null
         : Number(row.energy),
     moodScale: deserializeMoodScale(row.mood_scale_json),
+    photos: deserializePhotos(row.photos_json),
+    voiceMemos: deserializeVoiceMemos(row.voice_memos_json),
+    location: deserializeLocation(row.location_json),
     basedOnEntryId: row.based_on_entry_id ?? null,
+    createdAt: row.created_at ?? parseTimestamp(row.timestamp),
+    updatedAt: row.updated_at ?? row.created_at ?? parseTimestamp(row.timestamp),
   };
 }
 
@@ -149,6 +288,9 @@ export function normalizeInput(entry: MoodEntryInput) {
         : Math.min(10, Math.max(0, Math.round(entry.energy))),
     moodScale: entry.moodScale ?? CURRENT_MOOD_SCALE_SNAPSHOT,
     timestamp: entry.timestamp ?? Date.now(),
+    photos: entry.photos ? entry.photos.slice(0, MAX_PHOTOS_PER_ENTRY) : [],
+    voiceMemos: entry.voiceMemos ? entry.voiceMemos.slice(0, MAX_VOICE_MEMOS_PER_ENTRY) : [],
+    location: sanitizeMoodLocation(entry.location),
     basedOnEntryId: entry.basedOnEntryId ?? null,
   };
 }
@@ -0,0 +1,121 @@
+import * as FileSystem from "expo-file-system/legacy";
+import type { MoodVoiceMemo } from "../types";
+import {
+  createAttachmentId,
+  deleteAttachmentFiles,
+  ensureDirectory,
+  isBase64,
+  purgeUnreferencedFiles,
+  readBase64,
+  writeBase64,
+} from "./attachmentFiles";
+import { MAX_VOICE_MEMO_DURATION_MS } from "./serialization";
+
+export const MOOD_VOICE_MEMO_DIR = `${FileSystem.documentDirectory}MoodVoiceMemos/`;
+
+/**
+ * Voice memo payload embedded in JSON exports and backups.
+ */
+export type ExportedMoodVoiceMemo = {
+  id: string;
+  durationMs: number;
+  data: string; // base64 AAC in an MPEG-4 container
+};
+
+export function getMoodVoiceMemoUri(fileName: string): string {
+  return `${MOOD_VOICE_MEMO_DIR}${fileName}`;
+}
+
+function toMoodVoiceMemo(id: string, durationMs: number): MoodVoiceMemo {
+  return {
+    id,
+    fileName: `${id}.m4a`,
+    durationMs: Math.min(MAX_VOICE_MEMO_DURATION_MS, Math.max(0, Math.round(durationMs))),
+  };
+}
+
+/**
+ * Moves a finished recording into app-private storage.
+ */
+export async function storeMoodVoiceMemo(
+  recordingUri: string,
+  durationMs: number
+): Promise<MoodVoiceMemo> {
+  await ensureDirectory(MOOD_VOICE_MEMO_DIR);
+  const memo = toMoodVoiceMemo(createAttachmentId(), durationMs);
+
+  await FileSystem.moveAsync({
+    from: recordingUri,
+    to: getMoodVoiceMemoUri(memo.fileName),
+  });
+
+  return memo;
+}
+
+export async function deleteMoodVoiceMemoFiles(memos: MoodVoiceMemo[]): Promise<void> {
+  await deleteAttachmentFiles(
+    MOOD_VOICE_MEMO_DIR,
+    memos.map((memo) => memo.fileName)
+  );
+}
+
+export async function deleteAllMoodVoiceMemoFiles(): Promise<void> {
+  await FileSystem.deleteAsync(MOOD_VOICE_MEMO_DIR, { idempotent: true });
+}
+
+/**
+ * Deletes recordings that no entry references.
+ */
+export async function purgeUnreferencedMoodVoiceMemoFiles(
+  referenced: MoodVoiceMemo[],
+  now = Date.now()
+): Promise<number> {
+  const keep = new Set(referenced.map((memo) => memo.fileName));
+  return purgeUnreferencedFiles(MOOD_VOICE_MEMO_DIR, keep, now);
+}
+
+/**
+ * Reads a stored recording for export. Returns null when the file is gone.
+ */
+export async function exportMoodVoiceMemo(
+  memo: MoodVoiceMemo
+): Promise<ExportedMoodVoiceMemo | null> {
+  try {
+    return {
+      id: memo.id,
+      durationMs: memo.durationMs,
+      data: await readBase64(getMoodVoiceMemoUri(memo.fileName)),
+    };
+  } catch (error) {
+    console.warn(`Voice memo ${memo.id} could not be read for export:`, error);
+    return null;
+  }
+}
+
+/**
+ * Writes an exported recording back into storage under a fresh id. Returns
+ * null for anything that is not an embedded recording.
+ */
+export async function restoreExportedMoodVoiceMemo(
+  value: unknown
+): Promise<MoodVoiceMemo | null> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return null;
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (
+    !isBase64(raw.data) ||
+    typeof raw.durationMs !== "number" ||
+    !Number.isFinite(raw.durationMs) ||
+    raw.durationMs < 0
+  ) {
+    return null;
+  }
+
+  await ensureDirectory(MOOD_VOICE_MEMO_DIR);
+  const memo = toMoodVoiceMemo(createAttachmentId(), raw.durationMs);
+  await writeBase64(getMoodVoiceMemoUri(memo.fileName), raw.data);
+
+  return memo;
+}
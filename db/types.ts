@@ -1,6 +1,8 @@
 import type { Emotion } from "../domain/entrySettings";
+import type { MoodLocation } from "../domain/location";
 
 export type { Emotion } from "../domain/entrySettings";
+export type { MoodLocation } from "../domain/location";
 
 export type CurrentMoodScaleSnapshot = {
     version: 1;
@@ -20,6 +22,28 @@ export type MoodScaleSnapshot =
     | CurrentMoodScaleSnapshot
     | LegacyHigherIsBetterMoodScaleSnapshot;
 
+/**
+ * A photo attached to a mood entry. Files live in app-private storage and are
+ * referenced by file name so entries survive container path changes on update.
+ */
+export type MoodPhoto = {
+    id: string;
+    fileName: string;
+    thumbnailFileName: string;
+    width: number;
+    height: number;
+};
+
+/**
+ * A voice memo recorded for a mood entry. Like photos, the audio file lives in
+ * app-private storage and is referenced by file name.
+ */
+export type MoodVoiceMemo = {
+    id: string;
+    fileName: string;
+    durationMs: number;
+};
+
 /**
  * Represents a single mood entry in the database.
  */
@@ -27,12 +51,17 @@ export type MoodEntry = {
     id: number;
     mood: number; // 0-10
     note: string | null;
-    timestamp: number; // milliseconds since epoch
+    timestamp: number; // when the mood was experienced, milliseconds since epoch
     emotions: Emotion[];
     contextTags: string[];
     energy: number | null;
     moodScale: MoodScaleSnapshot;
+    photos: MoodPhoto[];
+    voiceMemos: MoodVoiceMemo[];
+    location: MoodLocation | null; // Opt-in, coarse only
     basedOnEntryId: number | null; // Reference to copied entry
+    createdAt: number; // when the entry was logged; later than `timestamp` for backdated entries
+    updatedAt: number; // when the entry was last saved
 };
 
 /**
@@ -53,5 +82,8 @@ export type MoodEntryInput = {
     contextTags?: string[];
     energy?: number | null;
     moodScale?: MoodScaleSnapshot;
+    photos?: MoodPhoto[];
+    voiceMemos?: MoodVoiceMemo[];
+    location?: MoodLocation | null;
     basedOnEntryId?: number | null;
 };
@@ -16,10 +16,23 @@ export interface MoodRow {
   context_tags: string; // JSON string
   energy: number | null;
   mood_scale_json: string | null; // JSON string snapshot of the Mood Scale used at entry creation
-  photos_json: string | null; // JSON string array of file URIs
-  location_json: string | null; // JSON string of location object
-  voice_memos_json: string | null; // JSON string array of audio file URIs
+  photos_json: string | null; // JSON string array of MoodPhoto objects
+  location_json: string | null; // JSON string of a coarse MoodLocation object
+  voice_memos_json: string | null; // JSON string array of MoodVoiceMemo objects
   based_on_entry_id: number | null; // Reference to copied entry
+  deleted_at: number | null; // When the entry was moved to the trash
+  created_at: number | null; // When the entry was logged
+  updated_at: number | null; // When the entry was last saved
+}
+
+/**
+ * Raw revision row from the mood_revisions table
+ */
+export interface MoodRevisionRow {
+  id: number;
+  mood_id: number;
+  revised_at: number;
+  changes_json: string; // JSON string array of MoodRevisionChange objects
 }
 
 /**
@@ -16,7 +16,7 @@ const MAX_FUTURE_TIMESTAMP_MS = 24 * 60 * 60 * 1000; // 1 day in the future
 
 const VALID_CATEGORIES: Emotion["category"][] = ["positive", "negative", "neutral"];
 
-function isValidTimestamp(timestamp: unknown): timestamp is number {
+export function isValidTimestamp(timestamp: unknown): timestamp is number {
   if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
     return false;
   }
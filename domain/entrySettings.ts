@@ -100,7 +100,9 @@ export type TherapyExportField =
     | "emotions"
     | "context"
     | "energy"
-    | "notes";
+    | "notes"
+    | "edits"
+    | "baseline";
 
 export type TherapyExportPrefs = {
     fields: TherapyExportField[];
@@ -116,9 +118,27 @@ export const DEFAULT_QUICK_ENTRY_PREFS: QuickEntryPrefs = {
 export const DEFAULT_HISTORY_CARD_STYLE: HistoryCardStyle = "minimal";
 
 export const DEFAULT_THERAPY_EXPORT_PREFS: TherapyExportPrefs = {
-    fields: ["timestamp", "mood", "emotions", "context", "energy", "notes"],
+    fields: ["timestamp", "mood", "emotions", "context", "energy", "notes", "baseline"],
 };
 
+/** Every exportable field. Edit markers are opt-in, so not in the defaults. */
+export const THERAPY_EXPORT_FIELDS: TherapyExportField[] = [
+    "timestamp",
+    "mood",
+    "emotions",
+    "context",
+    "energy",
+    "notes",
+    "edits",
+    "baseline",
+];
+
+/**
+ * The only cell of the row that starts the baseline summary, which follows
+ * the entries. CSV import stops reading entries at a row holding just this.
+ */
+export const THERAPY_EXPORT_SUMMARY_HEADING = "Moodinator Baseline Summary";
+
 // ── Pure parsing functions ────────────────────────────────────────────────────
 // These are called by settingsStore after reading raw JSON from AsyncStorage.
 
@@ -190,18 +210,21 @@ export function parseStringList(data: unknown, fallback: string[]): string[] {
 
 /**
  * Validate and filter a therapy export field list.
- * Returns DEFAULT_THERAPY_EXPORT_PREFS.fields on empty or invalid input.
+ * Returns DEFAULT_THERAPY_EXPORT_PREFS.fields on empty or invalid input, or
+ * when only the baseline summary is left, which has no entry columns.
  */
 export function sanitizeTherapyFields(value: unknown): TherapyExportField[] {
     if (!Array.isArray(value)) {
         return DEFAULT_THERAPY_EXPORT_PREFS.fields;
     }
-    const allowed = new Set(DEFAULT_THERAPY_EXPORT_PREFS.fields);
+    const allowed = new Set(THERAPY_EXPORT_FIELDS);
     const cleaned = value.filter(
         (field): field is TherapyExportField =>
             typeof field === "string" && allowed.has(field as TherapyExportField)
     );
-    return cleaned.length ? cleaned : DEFAULT_THERAPY_EXPORT_PREFS.fields;
+    return cleaned.some((field) => field !== "baseline")
+        ? cleaned
+        : DEFAULT_THERAPY_EXPORT_PREFS.fields;
 }
 
 export function sanitizeHistoryCardStyle(value: unknown): HistoryCardStyle {
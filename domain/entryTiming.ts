@@ -0,0 +1,57 @@
+/**
+ * Pure helpers for telling live entries from backfilled ones.
+ *
+ * An entry's `timestamp` is when the mood was experienced and `createdAt` is
+ * when it was logged. An entry logged on a later calendar day than the one
+ * it describes is backfilled; one logged the same day counts as live, even
+ * if its time was moved earlier in that day.
+ */
+
+/** Which consumers count backfilled entries. */
+export type EntryTimingPrefs = {
+  /** Off by default, so a missed day can't be filled in afterwards to keep a streak. */
+  countBackfilledInStreaks: boolean;
+  countBackfilledInInsights: boolean;
+};
+
+export const DEFAULT_ENTRY_TIMING_PREFS: EntryTimingPrefs = {
+  countBackfilledInStreaks: false,
+  countBackfilledInInsights: true,
+};
+
+type TimedEntry = { timestamp: number; createdAt: number };
+
+function startOfLocalDay(value: number): number {
+  const date = new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function isBackfilledEntry(entry: TimedEntry): boolean {
+  return startOfLocalDay(entry.createdAt) > startOfLocalDay(entry.timestamp);
+}
+
+/** Returns `entries` unchanged when `includeBackfilled` is set. */
+export function filterByEntryTiming<T extends TimedEntry>(
+  entries: T[],
+  includeBackfilled: boolean
+): T[] {
+  return includeBackfilled ? entries : entries.filter((entry) => !isBackfilledEntry(entry));
+}
+
+export function parseEntryTimingPrefs(value: unknown): EntryTimingPrefs {
+  if (typeof value !== "object" || value === null) {
+    return DEFAULT_ENTRY_TIMING_PREFS;
+  }
+  const candidate = value as Record<string, unknown>;
+  return {
+    countBackfilledInStreaks:
+      typeof candidate.countBackfilledInStreaks === "boolean"
+        ? candidate.countBackfilledInStreaks
+        : DEFAULT_ENTRY_TIMING_PREFS.countBackfilledInStreaks,
+    countBackfilledInInsights:
+      typeof candidate.countBackfilledInInsights === "boolean"
+        ? candidate.countBackfilledInInsights
+        : DEFAULT_ENTRY_TIMING_PREFS.countBackfilledInInsights,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Pure types and helpers for coarse location tagging.
+ *
+ * Locations are only ever stored as a user-facing place name plus, optionally,
+ * coordinates rounded to roughly one kilometre. Nothing here talks to a
+ * geocoding service; place names come from the user or their saved places.
+ */
+
+/** A location attached to a mood entry. */
+export type MoodLocation = {
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  /** Id of the saved place this location was picked from, if any. */
+  placeId: string | null;
+};
+
+/** A user-defined named place kept in settings. */
+export type SavedPlace = {
+  id: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+// Two decimals is about 1.1 km of latitude: enough to tell places apart,
+// too coarse to pinpoint a building.
+export const LOCATION_COORDINATE_DECIMALS = 2;
+export const MAX_PLACE_NAME_LENGTH = 60;
+export const MAX_SAVED_PLACES = 30;
+export const NEAREST_PLACE_MAX_DISTANCE_KM = 1.5;
+
+const EARTH_RADIUS_KM = 6371;
+
+export function coarsenCoordinate(value: number): number {
+  const factor = 10 ** LOCATION_COORDINATE_DECIMALS;
+  const rounded = Math.round(value * factor) / factor;
+  // Avoid persisting -0 for values that round to zero.
+  return rounded === 0 ? 0 : rounded;
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+function sanitizePlaceName(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const name = value.trim().replace(/\s+/g, " ").slice(0, MAX_PLACE_NAME_LENGTH).trim();
+  return name.length > 0 ? name : null;
+}
+
+/**
+ * Returns coarsened coordinates when both values are valid, otherwise null.
+ * A lone latitude or longitude is meaningless and is dropped.
+ */
+export function sanitizeCoordinates(latitude: unknown, longitude: unknown): Coordinates | null {
+  if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+    return null;
+  }
+  return {
+    latitude: coarsenCoordinate(latitude),
+    longitude: coarsenCoordinate(longitude),
+  };
+}
+
+/**
+ * Validate an untrusted location value (from storage or an import).
+ * Returns null when there is no usable place name.
+ */
+export function sanitizeMoodLocation(value: unknown): MoodLocation | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const name = sanitizePlaceName(raw.name);
+  if (!name) {
+    return null;
+  }
+  const coordinates = sanitizeCoordinates(raw.latitude, raw.longitude);
+  return {
+    name,
+    latitude: coordinates?.latitude ?? null,
+    longitude: coordinates?.longitude ?? null,
+    placeId: typeof raw.placeId === "string" && raw.placeId.length > 0 ? raw.placeId : null,
+  };
+}
+
+function sanitizeSavedPlace(value: unknown): SavedPlace | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const name = sanitizePlaceName(raw.name);
+  if (!name || typeof raw.id !== "string" || raw.id.length === 0) {
+    return null;
+  }
+  const coordinates = sanitizeCoordinates(raw.latitude, raw.longitude);
+  return {
+    id: raw.id,
+    name,
+    latitude: coordinates?.latitude ?? null,
+    longitude: coordinates?.longitude ?? null,
+  };
+}
+
+/**
+ * Parse raw AsyncStorage JSON into a validated SavedPlace[].
+ * Invalid items and duplicate ids are dropped.
+ */
+export function parseSavedPlaces(data: unknown): SavedPlace[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const places: SavedPlace[] = [];
+  for (const item of data) {
+    const place = sanitizeSavedPlace(item);
+    if (!place || seen.has(place.id)) {
+      continue;
+    }
+    seen.add(place.id);
+    places.push(place);
+    if (places.length >= MAX_SAVED_PLACES) {
+      break;
+    }
+  }
+  return places;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance between two points, in kilometres. */
+export function distanceInKm(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * The closest saved place with coordinates within `maxDistanceKm`, or null.
+ * Used to suggest a place offline instead of reverse geocoding.
+ */
+export function findNearestSavedPlace(
+  places: SavedPlace[],
+  coordinates: Coordinates,
+  maxDistanceKm: number = NEAREST_PLACE_MAX_DISTANCE_KM
+): SavedPlace | null {
+  let nearest: SavedPlace | null = null;
+  let nearestDistance = Infinity;
+  for (const place of places) {
+    if (place.latitude === null || place.longitude === null) {
+      continue;
+    }
+    const distance = distanceInKm(coordinates, {
+      latitude: place.latitude,
+      longitude: place.longitude,
+    });
+    if (distance <= maxDistanceKm && distance < nearestDistance) {
+      nearest = place;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+export function toMoodLocationFromPlace(place: SavedPlace): MoodLocation {
+  return {
+    name: place.name,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    placeId: place.id,
+  };
+}
+
+export function formatCoordinates(location: Pick<MoodLocation, "latitude" | "longitude">): string | null {
+  if (location.latitude === null || location.longitude === null) {
+    return null;
+  }
+  return `${location.latitude.toFixed(LOCATION_COORDINATE_DECIMALS)}, ${location.longitude.toFixed(
+    LOCATION_COORDINATE_DECIMALS
+  )}`;
+}
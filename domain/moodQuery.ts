@@ -0,0 +1,249 @@
+import type { MoodEntry, MoodScaleSnapshot } from "../db/types";
+import { resolveDateRange, type MoodDateRange } from "../db/moods/range";
+import { CURRENT_MOOD_SCALE_SNAPSHOT } from "./moodScale";
+
+export type MoodQueryMatch = "any" | "all";
+
+export type MoodQueryBounds = {
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Hours of the local day, `startHour` inclusive and `endHour` exclusive.
+ * A start after the end wraps past midnight (22 to 6 covers the night).
+ */
+export type MoodQueryTimeOfDay = {
+  startHour: number;
+  endHour: number;
+};
+
+/**
+ * Composable filter over mood entries. Every present criterion must hold.
+ * Mood bounds use the current scale (0 best, 10 worst) so entries recorded on
+ * an older scale are compared by meaning rather than raw value.
+ */
+export type MoodQuery = {
+  dateRange?: MoodDateRange;
+  mood?: MoodQueryBounds;
+  emotions?: { names: string[]; match: MoodQueryMatch };
+  contextTags?: { tags: string[]; match: MoodQueryMatch };
+  energy?: MoodQueryBounds;
+  note?: "with" | "without";
+  timeOfDay?: MoodQueryTimeOfDay;
+};
+
+export const MOOD_QUERY_VALUE_MIN = 0;
+export const MOOD_QUERY_VALUE_MAX = 10;
+export const MAX_MOOD_QUERY_NAMES = 20;
+
+export const TIME_OF_DAY_PRESETS: { id: string; label: string; range: MoodQueryTimeOfDay }[] = [
+  { id: "morning", label: "Morning", range: { startHour: 5, endHour: 12 } },
+  { id: "afternoon", label: "Afternoon", range: { startHour: 12, endHour: 18 } },
+  { id: "evening", label: "Evening", range: { startHour: 18, endHour: 24 } },
+  { id: "night", label: "Night", range: { startHour: 0, endHour: 5 } },
+];
+
+function clampValue(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+function normalizeBounds(bounds: MoodQueryBounds | undefined): MoodQueryBounds | undefined {
+  if (!bounds) return undefined;
+  const min =
+    typeof bounds.min === "number" && Number.isFinite(bounds.min)
+      ? clampValue(bounds.min, MOOD_QUERY_VALUE_MIN, MOOD_QUERY_VALUE_MAX)
+      : undefined;
+  const max =
+    typeof bounds.max === "number" && Number.isFinite(bounds.max)
+      ? clampValue(bounds.max, MOOD_QUERY_VALUE_MIN, MOOD_QUERY_VALUE_MAX)
+      : undefined;
+
+  const [low, high] =
+    min !== undefined && max !== undefined && min > max ? [max, min] : [min, max];
+
+  // A bound at the edge of the scale excludes nothing, so it is dropped.
+  const normalized: MoodQueryBounds = {};
+  if (low !== undefined && low !== MOOD_QUERY_VALUE_MIN) normalized.min = low;
+  if (high !== undefined && high !== MOOD_QUERY_VALUE_MAX) normalized.max = high;
+  return normalized.min === undefined && normalized.max === undefined ? undefined : normalized;
+}
+
+function normalizeNames(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  const seen = new Set<string>();
+  const names: string[] = [];
+  for (const value of values) {
+    if (typeof value !== "string") continue;
+    const trimmed = value.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    names.push(trimmed);
+    if (names.length >= MAX_MOOD_QUERY_NAMES) break;
+  }
+  return names;
+}
+
+function normalizeMatch(value: unknown): MoodQueryMatch {
+  return value === "all" ? "all" : "any";
+}
+
+function normalizeDateRange(range: unknown): MoodDateRange | undefined {
+  if (typeof range !== "object" || range === null) return undefined;
+  const candidate = range as Record<string, unknown>;
+  if (
+    candidate.preset === "week" ||
+    candidate.preset === "twoWeeks" ||
+    candidate.preset === "month"
+  ) {
+    return { preset: candidate.preset };
+  }
+  if (
+    typeof candidate.startDate === "number" &&
+    typeof candidate.endDate === "number" &&
+    Number.isFinite(candidate.startDate) &&
+    Number.isFinite(candidate.endDate)
+  ) {
+    return candidate.startDate <= candidate.endDate
+      ? { startDate: candidate.startDate, endDate: candidate.endDate }
+      : { startDate: candidate.endDate, endDate: candidate.startDate };
+  }
+  return undefined;
+}
+
+function normalizeTimeOfDay(value: unknown): MoodQueryTimeOfDay | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.startHour !== "number" || typeof candidate.endHour !== "number") {
+    return undefined;
+  }
+  if (!Number.isFinite(candidate.startHour) || !Number.isFinite(candidate.endHour)) {
+    return undefined;
+  }
+  const startHour = clampValue(candidate.startHour, 0, 23);
+  const endHour = clampValue(candidate.endHour, 1, 24);
+  if (startHour === endHour || (startHour === 0 && endHour === 24)) return undefined;
+  return { startHour, endHour };
+}
+
+/**
+ * Drops empty or no-op criteria and clamps the rest, so stored or hand-built
+ * queries can be passed to the repository as-is.
+ */
+export function normalizeMoodQuery(query: unknown): MoodQuery {
+  if (typeof query !== "object" || query === null) return {};
+  const candidate = query as Record<string, unknown>;
+  const normalized: MoodQuery = {};
+
+  const dateRange = normalizeDateRange(candidate.dateRange);
+  if (dateRange) normalized.dateRange = dateRange;
+
+  const mood = normalizeBounds(candidate.mood as MoodQueryBounds | undefined);
+  if (mood) normalized.mood = mood;
+
+  const emotions = candidate.emotions as Record<string, unknown> | undefined;
+  const emotionNames = normalizeNames(emotions?.names);
+  if (emotionNames.length > 0) {
+    normalized.emotions = { names: emotionNames, match: normalizeMatch(emotions?.match) };
+  }
+
+  const contextTags = candidate.contextTags as Record<string, unknown> | undefined;
+  const tags = normalizeNames(contextTags?.tags);
+  if (tags.length > 0) {
+    normalized.contextTags = { tags, match: normalizeMatch(contextTags?.match) };
+  }
+
+  const energy = normalizeBounds(candidate.energy as MoodQueryBounds | undefined);
+  if (energy) normalized.energy = energy;
+
+  if (candidate.note === "with" || candidate.note === "without") {
+    normalized.note = candidate.note;
+  }
+
+  const timeOfDay = normalizeTimeOfDay(candidate.timeOfDay);
+  if (timeOfDay) normalized.timeOfDay = timeOfDay;
+
+  return normalized;
+}
+
+export function countMoodQueryCriteria(query: MoodQuery): number {
+  return Object.values(normalizeMoodQuery(query)).length;
+}
+
+export function isMoodQueryEmpty(query: MoodQuery): boolean {
+  return countMoodQueryCriteria(query) === 0;
+}
+
+/**
+ * Converts a rating recorded on `scale` to the current 0 (best) to 10 (worst)
+ * scale, by direction and span like `getMoodRatingSeverity`.
+ */
+export function toCurrentScaleMood(mood: number, scale: MoodScaleSnapshot): number {
+  const rating = Math.min(scale.max, Math.max(scale.min, mood));
+  const range = Math.max(1, scale.max - scale.min);
+  const severity = scale.lowerIsBetter ? (rating - scale.min) / range : (scale.max - rating) / range;
+  const current = CURRENT_MOOD_SCALE_SNAPSHOT;
+  return current.min + severity * (current.max - current.min);
+}
+
+function withinBounds(value: number, bounds: MoodQueryBounds): boolean {
+  if (bounds.min !== undefined && value < bounds.min) return false;
+  if (bounds.max !== undefined && value > bounds.max) return false;
+  return true;
+}
+
+export function isHourInTimeOfDay(hour: number, range: MoodQueryTimeOfDay): boolean {
+  return range.startHour < range.endHour
+    ? hour >= range.startHour && hour < range.endHour
+    : hour >= range.startHour || hour < range.endHour;
+}
+
+function matchesNames(values: string[], wanted: string[], match: MoodQueryMatch): boolean {
+  const present = new Set(values.map((value) => value.trim().toLowerCase()));
+  const check = (name: string) => present.has(name.toLowerCase());
+  return match === "all" ? wanted.every(check) : wanted.some(check);
+}
+
+/**
+ * In-memory counterpart of the repository's SQL filter, for screens that
+ * already hold the entries (Insights).
+ */
+export function matchesMoodQuery(entry: MoodEntry, query: MoodQuery): boolean {
+  const { startDate, endDate } = resolveDateRange(query.dateRange);
+  if (startDate !== undefined && entry.timestamp < startDate) return false;
+  if (endDate !== undefined && entry.timestamp > endDate) return false;
+  if (query.mood && !withinBounds(toCurrentScaleMood(entry.mood, entry.moodScale), query.mood)) {
+    return false;
+  }
+  if (
+    query.emotions &&
+    !matchesNames(
+      entry.emotions.map((emotion) => emotion.name),
+      query.emotions.names,
+      query.emotions.match
+    )
+  ) {
+    return false;
+  }
+  if (
+    query.contextTags &&
+    !matchesNames(entry.contextTags, query.contextTags.tags, query.contextTags.match)
+  ) {
+    return false;
+  }
+  if (query.energy && (entry.energy === null || !withinBounds(entry.energy, query.energy))) {
+    return false;
+  }
+  if (query.note) {
+    const hasNote = (entry.note ?? "").trim().length > 0;
+    if (hasNote !== (query.note === "with")) return false;
+  }
+  if (
+    query.timeOfDay &&
+    !isHourInTimeOfDay(new Date(entry.timestamp).getHours(), query.timeOfDay)
+  ) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,84 @@
+import { isMoodQueryEmpty, normalizeMoodQuery, type MoodQuery } from "./moodQuery";
+
+/**
+ * A named, stored `MoodQuery` such as "Bad work days" (Work tag, mood 7 and
+ * up). Views are shown as chips over the history and can drive exports.
+ * They describe which entries match, not when, so a view never carries a
+ * date range; callers add one at use time.
+ */
+export type SavedFilterView = {
+  id: string;
+  name: string;
+  query: MoodQuery;
+};
+
+export const MAX_SAVED_VIEWS = 20;
+export const MAX_VIEW_NAME_LENGTH = 40;
+
+/** Normalizes `query` for storage in a view, dropping any date range. */
+export function normalizeSavedViewQuery(query: unknown): MoodQuery {
+  const normalized = normalizeMoodQuery(query);
+  delete normalized.dateRange;
+  return normalized;
+}
+
+function sanitizeSavedFilterView(value: unknown): SavedFilterView | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.id !== "string" || candidate.id.length === 0) {
+    return null;
+  }
+  if (typeof candidate.name !== "string") {
+    return null;
+  }
+  const name = candidate.name.trim().slice(0, MAX_VIEW_NAME_LENGTH);
+  const query = normalizeSavedViewQuery(candidate.query);
+  if (!name || isMoodQueryEmpty(query)) {
+    return null;
+  }
+  return { id: candidate.id, name, query };
+}
+
+export function parseSavedFilterViews(data: unknown): SavedFilterView[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const views: SavedFilterView[] = [];
+  for (const item of data) {
+    const view = sanitizeSavedFilterView(item);
+    if (!view || seen.has(view.id)) {
+      continue;
+    }
+    seen.add(view.id);
+    views.push(view);
+    if (views.length >= MAX_SAVED_VIEWS) {
+      break;
+    }
+  }
+  return views;
+}
+
+/** Finds the saved view whose criteria equal `query`, if any. */
+export function findSavedViewForQuery(
+  views: SavedFilterView[],
+  query: MoodQuery
+): SavedFilterView | undefined {
+  const key = JSON.stringify(normalizeSavedViewQuery(query));
+  return views.find((view) => JSON.stringify(normalizeSavedViewQuery(view.query)) === key);
+}
+
+export function createSavedViewId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** File-name friendly form of a view name, e.g. "Bad work days" -> "bad-work-days". */
+export function slugifyViewName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "view";
+}
@@ -17,4 +17,8 @@ console.warn = (...args) => {
 
 LogBox.ignoreLogs(ignoredWarnings);
 
+// Defines the background backup task with its export options, which must not
+// depend on a screen being mounted.
+require("./src/services/backgroundBackupService");
+
 require("expo-router/entry");
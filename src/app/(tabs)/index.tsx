@@ -36,12 +36,15 @@ import { HapticTab } from "@/components/HapticTab";
 import { DisplayMoodItem } from "@/components/DisplayMoodItem";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { EmptyState } from "@/components/ui/EmptyState";
+import { Alert } from "@/components/ui/AppAlert";
 import { ScreenBackgroundAccent } from "@/components/layout/ScreenBackgroundAccent";
 import { TabSceneTransition } from "@/components/ui/TabSceneTransition";
 import {
   DetailedMoodButtonSelector,
   HomeHeader,
   HistoryListHeader,
+  MoodSearchBar,
+  MoodSearchSnippets,
   CollapsedMoodSelector,
   UnifiedMoodSelector,
   UNIFIED_COMPACT_EXPANDED_HEIGHT,
@@ -51,6 +54,16 @@ import { useMoodsStore } from "@/shared/state/moodsStore";
 import { useEntrySettings } from "@/hooks/useEntrySettings";
 import { useMoodModals } from "@/hooks/useMoodModals";
 import { useMoodItemActions } from "@/hooks/useMoodItemActions";
+import { useMoodSearch } from "@/hooks/useMoodSearch";
+import { MoodFilterButton, MoodFilterSheet, SavedViewChips } from "@/components/filters";
+import { countMoodQueryCriteria, type MoodQuery } from "@/lib/moodQuery";
+import {
+  MAX_SAVED_VIEWS,
+  createSavedViewId,
+  findSavedViewForQuery,
+  type SavedFilterView,
+} from "@/lib/savedViews";
+import { useSettingsStore } from "@/shared/state/settingsStore";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { usePullToRefresh } from "@/hooks/usePullToRefresh";
 import { haptics } from "@/lib/haptics";
@@ -126,6 +139,50 @@ function HomeScreenContent() {
   const itemActions = useMoodItemActions({
     setEditingEntry: modals.setEditingEntry,
   });
+  const [historyFilter, setHistoryFilter] = useState<MoodQuery>({});
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  const search = useMoodSearch(historyFilter);
+  const savedViews = useSettingsStore((state) => state.savedViews);
+  const setSavedViews = useSettingsStore((state) => state.setSavedViews);
+  const activeSavedView = useMemo(
+    () => findSavedViewForQuery(savedViews, historyFilter) ?? null,
+    [historyFilter, savedViews]
+  );
+
+  const handleSelectSavedView = useCallback((view: SavedFilterView | null) => {
+    setHistoryFilter(view ? view.query : {});
+  }, []);
+
+  const handleSaveView = useCallback(
+    (name: string, query: MoodQuery) => {
+      if (savedViews.length >= MAX_SAVED_VIEWS) {
+        Alert.alert(
+          "Too many views",
+          `You can keep up to ${MAX_SAVED_VIEWS} saved views. Delete one to save another.`
+        );
+        return;
+      }
+      void setSavedViews([...savedViews, { id: createSavedViewId(), name, query }]);
+    },
+    [savedViews, setSavedViews]
+  );
+
+  const handleSavedViewLongPress = useCallback(
+    (view: SavedFilterView) => {
+      Alert.alert("Delete saved view?", `"${view.name}" will be removed. Your entries are not affected.`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            haptics.destructive();
+            void setSavedViews(savedViews.filter((item) => item.id !== view.id));
+          },
+        },
+      ]);
+    },
+    [savedViews, setSavedViews]
+  );
 
   useEffect(() => {
     loadAll();
@@ -140,6 +197,9 @@ function HomeScreenContent() {
         emotions: values.emotions,
         contextTags: values.contextTags,
         energy: values.energy,
+        photos: values.photos,
+        voiceMemos: values.voiceMemos,
+        location: values.location,
       });
     },
     [modals.editingEntry, updateMood]
@@ -162,19 +222,30 @@ function HomeScreenContent() {
 
   const keyExtractor = useCallback((item: MoodEntry) => item.id.toString(), []);
 
+  const { isActive: searchActive, snippetsById } = search;
   const renderMoodItem = useCallback(
-    ({ item }: { item: MoodEntry }) => (
-      <DisplayMoodItem
-        mood={item}
-        onSwipeableWillOpen={itemActions.onSwipeableWillOpen}
-        onPress={modals.openDateModal}
-        onLongPress={handleMoodItemLongPress}
-        onEdit={modals.setEditingEntry}
-        onDelete={itemActions.handleDeleteMood}
-        swipeThreshold={itemActions.SWIPE_THRESHOLD}
-      />
-    ),
-    [handleMoodItemLongPress, itemActions, modals]
+    ({ item }: { item: MoodEntry }) => {
+      const moodItem = (
+        <DisplayMoodItem
+          mood={item}
+          onSwipeableWillOpen={itemActions.onSwipeableWillOpen}
+          onPress={modals.openDateModal}
+          onLongPress={handleMoodItemLongPress}
+          onEdit={modals.setEditingEntry}
+          onDelete={itemActions.handleDeleteMood}
+          swipeThreshold={itemActions.SWIPE_THRESHOLD}
+        />
+      );
+      if (!searchActive) return moodItem;
+
+      return (
+        <View>
+          {moodItem}
+          <MoodSearchSnippets snippets={snippetsById.get(item.id) ?? []} />
+        </View>
+      );
+    },
+    [handleMoodItemLongPress, itemActions, modals, searchActive, snippetsById]
   );
 
   const estimatedExpandedPanelHeight = entrySettings.showDetailedLabels
@@ -373,6 +444,9 @@ function HomeScreenContent() {
       emotions: values.emotions,
       contextTags: values.contextTags,
       energy: values.energy,
+      photos: values.photos,
+      voiceMemos: values.voiceMemos,
+      location: values.location,
     });
 
     scrollHomeListToTop({ haptic: false });
@@ -539,7 +613,34 @@ function HomeScreenContent() {
 
   const listEmptyComponent = useMemo(
     () =>
-      loading ? (
+      search.isActive ? (
+        search.status === "searching" ? (
+          <LoadingSpinner message="Searching..." />
+        ) : search.status === "error" ? (
+          <EmptyState
+            icon="warning-outline"
+            tone="coral"
+            title="Search failed"
+            description="Your entries are safe. Try a different search."
+          />
+        ) : search.isSearching ? (
+          <EmptyState
+            icon="search-outline"
+            tone="sage"
+            title="No matching entries"
+            description="Try another word from a note, an emotion or a context tag"
+          />
+        ) : (
+          <EmptyState
+            icon="funnel-outline"
+            tone="sage"
+            title="No entries match these filters"
+            description="Loosen a filter or clear them to see your full history"
+            actionLabel="Clear Filters"
+            onAction={() => setHistoryFilter({})}
+          />
+        )
+      ) : loading ? (
         <LoadingSpinner message="Loading..." />
       ) : status === "error" ? (
         <EmptyState
@@ -560,7 +661,7 @@ function HomeScreenContent() {
           description="Tap a mood above to log how you're feeling right now"
         />
       ),
-    [error, loadAll, loading, status]
+    [error, loadAll, loading, search.isActive, search.isSearching, search.status, status]
   );
 
   const listContentContainerStyle = useMemo(
@@ -611,10 +712,12 @@ function HomeScreenContent() {
               // Supplying a plain ScrollView keeps it a single wrap and restores
               // a working native scroll ref.
               renderScrollComponent={RNScrollView}
-              data={moods}
+              data={search.isActive ? search.entries : moods}
               keyExtractor={keyExtractor}
               renderItem={renderMoodItem}
               ListEmptyComponent={listEmptyComponent}
+              onEndReached={search.isActive ? search.loadMore : undefined}
+              onEndReachedThreshold={0.5}
               refreshControl={
                 <RefreshControl
                   refreshing={refreshing}
@@ -707,11 +810,43 @@ function HomeScreenContent() {
               </Animated.View>
 
               <View
-                pointerEvents="none"
+                pointerEvents="box-none"
                 onLayout={handleHistoryChromeLayout}
                 style={{ paddingTop: HEADER_SECTION_GAP }}
               >
-                <HistoryListHeader moodCount={moods.length} />
+                <View className="flex-row" style={{ gap: 8 }}>
+                  <View className="flex-1">
+                    <MoodSearchBar
+                      value={search.query}
+                      onChangeText={search.setQuery}
+                      onClear={search.clear}
+                      searching={search.status === "searching"}
+                    />
+                  </View>
+                  <MoodFilterButton
+                    activeCount={countMoodQueryCriteria(historyFilter)}
+                    onPress={() => setFilterSheetVisible(true)}
+                  />
+                </View>
+                <SavedViewChips
+                  views={savedViews}
+                  activeViewId={activeSavedView?.id ?? null}
+                  onSelect={handleSelectSavedView}
+                  onLongPress={handleSavedViewLongPress}
+                />
+                <View pointerEvents="none">
+                  <HistoryListHeader
+                    moodCount={moods.length}
+                    results={
+                      search.isActive
+                        ? {
+                            title: search.isSearching ? "Search results" : "Filtered entries",
+                            count: search.total,
+                          }
+                        : null
+                    }
+                  />
+                </View>
               </View>
             </Animated.View>
 
@@ -748,6 +883,14 @@ function HomeScreenContent() {
         </SafeAreaView>
       </GestureHandlerRootView>
 
+      <MoodFilterSheet
+        visible={filterSheetVisible}
+        value={historyFilter}
+        onApply={setHistoryFilter}
+        onClose={() => setFilterSheetVisible(false)}
+        onSaveView={handleSaveView}
+      />
+
       {modals.showDateModal && (
         <DateTimePickerModal
           visible={modals.showDateModal}
@@ -10,6 +10,7 @@ import { AppToaster } from "@/components/ui/AppToaster";
 import { AppAlertProvider } from "@/components/ui/AppAlert";
 import { useSettingsStore } from "@/shared/state/settingsStore";
 import { runAppBootstrap, type AppBootstrapStatus } from "@/services/bootstrapService";
+import { trashService } from "@/services/trashService";
 import {
   startPendingReminderNavigation,
   useNotifications,
@@ -133,6 +134,9 @@ export default function Layout() {
 
   useEffect(() => {
     registerBackgroundBackupTask();
+    trashService.purgeExpired().catch((error) => {
+      console.error("[layout] Failed to empty expired trash:", error);
+    });
   }, []);
 
   useEffect(() => {
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useState } from "react";
 import { View, Text, ScrollView, TouchableOpacity, Platform, ActivityIndicator } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
 import { useColorScheme } from "nativewind";
 import { Ionicons } from "@expo/vector-icons";
 import * as DocumentPicker from "expo-document-picker";
@@ -9,27 +10,81 @@ import { SettingsPageHeader } from "@/features/settings/components/SettingsPageH
 import { SettingsSection } from "@/features/settings/components/SettingsSection";
 import { SettingRow } from "@/features/settings/components/SettingRow";
 import { ExportModal } from "@/features/settings/components/ExportModal";
-import { formatBackupDate, formatBackupFolderPath } from "@/features/settings/utils/backupFormat";
+import { CsvImportModal } from "@/features/settings/components/CsvImportModal";
+import { BackupBrowserModal } from "@/features/settings/components/BackupBrowserModal";
+import { BackupLogModal } from "@/features/settings/components/BackupLogModal";
+import { DeviceTransferModal } from "@/features/settings/components/DeviceTransferModal";
+import {
+  BackupPassphraseModal,
+  type BackupPassphraseMode,
+  type BackupPassphraseValues,
+} from "@/features/settings/components/BackupPassphraseModal";
+import {
+  BACKUP_FREQUENCY_LABELS,
+  formatBackupDate,
+  formatBackupFolderPath,
+  formatBackupHealthWarning,
+  formatBackupRetention,
+} from "@/features/settings/utils/backupFormat";
 import { confirmDeleteLocalMoodData } from "@/features/settings/utils/deleteLocalDataConfirmation";
-import { dataPortabilityService } from "@/services/dataPortabilityService";
+import { chooseImportMode } from "@/features/settings/utils/importModeChoice";
+import {
+  dataPortabilityService,
+  type CsvImportFile,
+  type DataImportMode,
+} from "@/services/dataPortabilityService";
+import type { BackupListItem } from "@db/backup";
+import {
+  DEFAULT_GFS_RETENTION,
+  type BackupFrequency,
+  type BackupHealth,
+  type BackupPolicy,
+  type BackupRetention,
+} from "@db/backupPolicy";
 import { Alert } from "@/components/ui/AppAlert";
 
 export default function DataSettingsScreen() {
+  const router = useRouter();
   const { colorScheme } = useColorScheme();
   const isDark = colorScheme === "dark";
 
-  const [loading, setLoading] = useState<"import" | "backup" | "delete" | null>(null);
+  const [loading, setLoading] = useState<
+    "import" | "csv" | "backup" | "restore" | "delete" | null
+  >(null);
   const [exportModalVisible, setExportModalVisible] = useState(false);
+  const [transferVisible, setTransferVisible] = useState(false);
+  const [csvImport, setCsvImport] = useState<{ csvData: string; file: CsvImportFile } | null>(
+    null
+  );
   const [backupInfo, setBackupInfo] = useState<{
     count: number;
     latestBackup: number | null;
   } | null>(null);
   const [backupFolderUri, setBackupFolderUri] = useState<string | null>(null);
+  const [backupHealth, setBackupHealth] = useState<BackupHealth | null>(null);
+  const [backupEncrypted, setBackupEncrypted] = useState(false);
+  const [backupPolicy, setBackupPolicy] = useState<BackupPolicy | null>(null);
+  const [passphraseMode, setPassphraseMode] = useState<BackupPassphraseMode | null>(null);
+  const [encryptedFile, setEncryptedFile] = useState<{
+    /** One file to import, or the backup chain to restore, oldest first. */
+    contents: string[];
+    fileName: string | null;
+    purpose: "import" | "restore";
+  } | null>(null);
+  const [backupBrowserVisible, setBackupBrowserVisible] = useState(false);
+  const [backupLogVisible, setBackupLogVisible] = useState(false);
 
   const loadBackupInfo = useCallback(async () => {
-    const status = await dataPortabilityService.getBackupStatus();
+    const [status, encrypted, policy] = await Promise.all([
+      dataPortabilityService.getBackupStatus(),
+      dataPortabilityService.isBackupEncryptionEnabled(),
+      dataPortabilityService.getBackupPolicy(),
+    ]);
     setBackupInfo(status.info);
     setBackupFolderUri(status.folderUri);
+    setBackupHealth(status.health);
+    setBackupEncrypted(encrypted);
+    setBackupPolicy(policy);
   }, []);
 
   useEffect(() => {
@@ -40,9 +95,7 @@ export default function DataSettingsScreen() {
     try {
       setLoading("backup");
       const backupResult = await dataPortabilityService.runBackupNow();
-      if (backupResult.success) {
-        await loadBackupInfo();
-      }
+      await loadBackupInfo();
       Alert.alert(backupResult.title, backupResult.message);
     } catch (error) {
       Alert.alert("Backup Error", "Failed to create backup.");
@@ -52,6 +105,64 @@ export default function DataSettingsScreen() {
     }
   }, [loadBackupInfo]);
 
+  const saveBackupPolicy = useCallback(
+    async (changes: Partial<BackupPolicy>) => {
+      if (!backupPolicy) {
+        return;
+      }
+      try {
+        await dataPortabilityService.setBackupPolicy({ ...backupPolicy, ...changes });
+        await loadBackupInfo();
+      } catch (error) {
+        console.error("Error saving backup policy:", error);
+        Alert.alert("Error", "Failed to save backup settings.");
+      }
+    },
+    [backupPolicy, loadBackupInfo]
+  );
+
+  const handleSelectBackupFrequency = useCallback(() => {
+    Alert.alert("Backup Frequency", "How often automatic backups are made.", [
+      { text: "Cancel", style: "cancel" },
+      ...(Object.keys(BACKUP_FREQUENCY_LABELS) as BackupFrequency[]).map((frequency) => ({
+        text: BACKUP_FREQUENCY_LABELS[frequency],
+        onPress: () => void saveBackupPolicy({ frequency }),
+      })),
+    ]);
+  }, [saveBackupPolicy]);
+
+  const handleSelectBackupRetention = useCallback(() => {
+    const options: BackupRetention[] = [
+      { type: "keepLast", count: 4 },
+      { type: "keepLast", count: 8 },
+      { type: "keepLast", count: 16 },
+      DEFAULT_GFS_RETENTION,
+    ];
+    Alert.alert(
+      "Keep Backups",
+      "Older backups are removed after each new backup. Daily, weekly and monthly keeps the newest backup from each recent day, week and month.",
+      [
+        { text: "Cancel", style: "cancel" },
+        ...options.map((retention) => ({
+          text: formatBackupRetention(retention),
+          onPress: () => void saveBackupPolicy({ retention }),
+        })),
+      ]
+    );
+  }, [saveBackupPolicy]);
+
+  const handleSelectBackupType = useCallback(() => {
+    Alert.alert(
+      "Backup Type",
+      "Incremental backups save only the entries added, changed or deleted since the last full backup. Every seventh backup is a full one, and restoring an incremental backup also needs its full backup.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Full Every Time", onPress: () => void saveBackupPolicy({ incremental: false }) },
+        { text: "Incremental", onPress: () => void saveBackupPolicy({ incremental: true }) },
+      ]
+    );
+  }, [saveBackupPolicy]);
+
   const handleSelectBackupFolder = useCallback(async () => {
     try {
       if (Platform.OS === "android") {
@@ -74,6 +185,53 @@ export default function DataSettingsScreen() {
     }
   }, [loadBackupInfo]);
 
+  const reviewImport = useCallback(async (fileContent: string, fileName: string | null) => {
+    try {
+      const importPreview = await dataPortabilityService.previewImportData(fileContent);
+
+      const runImport = async (mode: DataImportMode) => {
+        try {
+          const importResult = await dataPortabilityService.importData(
+            fileContent,
+            mode,
+            fileName
+          );
+          Alert.alert(
+            "Import Successful",
+            dataPortabilityService.summarizeImportResult(importResult)
+          );
+        } catch (error) {
+          Alert.alert(
+            "Import Error",
+            error instanceof Error ? error.message : "Failed to import mood data."
+          );
+          console.error(error);
+        } finally {
+          setLoading(null);
+        }
+      };
+
+      chooseImportMode({
+        showAlert: Alert.alert,
+        summary: dataPortabilityService.summarizeImportPreview(importPreview),
+        conflictCount: importPreview.conflictCount,
+        onChoose: (mode) => void runImport(mode),
+        onExportFirst: () => {
+          setLoading(null);
+          setExportModalVisible(true);
+        },
+        onCancel: () => setLoading(null),
+      });
+    } catch (error) {
+      Alert.alert(
+        "Import Error",
+        error instanceof Error ? error.message : "Failed to import mood data."
+      );
+      console.error(error);
+      setLoading(null);
+    }
+  }, []);
+
   const handleImport = useCallback(async () => {
     try {
       setLoading("import");
@@ -82,54 +240,174 @@ export default function DataSettingsScreen() {
         setLoading(null);
         return;
       }
-      const fileContent = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const importPreview = dataPortabilityService.previewImportData(fileContent);
+      const { uri, name } = result.assets[0];
+      const fileContent = await FileSystem.readAsStringAsync(uri);
+      if (dataPortabilityService.isEncryptedBackup(fileContent)) {
+        setEncryptedFile({ contents: [fileContent], fileName: name, purpose: "import" });
+        setPassphraseMode("unlock");
+        return;
+      }
+      await reviewImport(fileContent, name);
+    } catch (error) {
       Alert.alert(
-        "Replace Current Data?",
-        `${dataPortabilityService.summarizeImportPreview(importPreview)} This cannot be undone unless you have a separate Data Export or Backup.`,
+        "Import Error",
+        error instanceof Error ? error.message : "Failed to import mood data."
+      );
+      console.error(error);
+      setLoading(null);
+    }
+  }, [reviewImport]);
+
+  const confirmRestore = useCallback(
+    (jsonData: string, fileName: string | null) => {
+      const runRestore = async () => {
+        try {
+          setLoading("restore");
+          const restoreResult = await dataPortabilityService.restoreBackup(jsonData, fileName);
+          Alert.alert(
+            "Backup Restored",
+            `${dataPortabilityService.summarizeImportResult(restoreResult)}\n\nYour previous data was saved as a safety backup.`
+          );
+        } catch (error) {
+          Alert.alert(
+            "Restore Error",
+            error instanceof Error ? error.message : "Failed to restore the backup."
+          );
+          console.error(error);
+        } finally {
+          setLoading(null);
+          await loadBackupInfo();
+        }
+      };
+
+      let description: string;
+      try {
+        description = dataPortabilityService.describeBackup(jsonData);
+      } catch (error) {
+        Alert.alert(
+          "Restore Error",
+          error instanceof Error ? error.message : "Failed to read the backup."
+        );
+        return;
+      }
+      Alert.alert(
+        "Restore Backup",
+        `${description}\n\nRestoring replaces the entries and settings on this device. A safety backup of your current data is saved first.`,
         [
-          {
-            text: "Cancel",
-            style: "cancel",
-            onPress: () => setLoading(null),
-          },
-          {
-            text: "Export Current Data First",
-            onPress: () => {
-              setLoading(null);
-              setExportModalVisible(true);
-            },
-          },
-          {
-            text: "Replace Data",
-            style: "destructive",
-            onPress: async () => {
-              try {
-                const importResult = await dataPortabilityService.importData(fileContent);
-                Alert.alert(
-                  "Import Successful",
-                  dataPortabilityService.summarizeImportResult(importResult)
-                );
-              } catch (error) {
-                Alert.alert(
-                  "Import Error",
-                  error instanceof Error ? error.message : "Failed to import mood data."
-                );
-                console.error(error);
-              } finally {
-                setLoading(null);
-              }
-            },
-          },
+          { text: "Cancel", style: "cancel" },
+          { text: "Restore", style: "destructive", onPress: () => void runRestore() },
         ]
       );
+    },
+    [loadBackupInfo]
+  );
+
+  const handleRestoreBackup = useCallback(
+    async (backup: BackupListItem) => {
+      setBackupBrowserVisible(false);
+      try {
+        const contents = await dataPortabilityService.readBackupChain(backup.uri);
+        if (contents.some((content) => dataPortabilityService.isEncryptedBackup(content))) {
+          setEncryptedFile({ contents, fileName: backup.filename, purpose: "restore" });
+          setPassphraseMode("unlock");
+          return;
+        }
+        confirmRestore(await dataPortabilityService.combineBackupChain(contents), backup.filename);
+      } catch (error) {
+        Alert.alert(
+          "Restore Error",
+          error instanceof Error ? error.message : "Failed to read the backup."
+        );
+        console.error(error);
+      }
+    },
+    [confirmRestore]
+  );
+
+  const handleBackupEncryption = useCallback(() => {
+    if (!backupEncrypted) {
+      setPassphraseMode("setup");
       return;
+    }
+    Alert.alert("Backup Encryption", "New backups are encrypted with your passphrase.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Change Passphrase", onPress: () => setPassphraseMode("change") },
+      { text: "Turn Off", style: "destructive", onPress: () => setPassphraseMode("disable") },
+    ]);
+  }, [backupEncrypted]);
+
+  const closePassphraseModal = useCallback(() => {
+    if (passphraseMode === "unlock") {
+      setEncryptedFile(null);
+      setLoading(null);
+    }
+    setPassphraseMode(null);
+  }, [passphraseMode]);
+
+  const handlePassphraseSubmit = useCallback(
+    async ({ current, next }: BackupPassphraseValues) => {
+      switch (passphraseMode) {
+        case "unlock": {
+          if (!encryptedFile) {
+            return;
+          }
+          const fileContents = await Promise.all(
+            encryptedFile.contents.map((content) =>
+              dataPortabilityService.isEncryptedBackup(content)
+                ? dataPortabilityService.decryptBackup(content, current)
+                : content
+            )
+          );
+          setEncryptedFile(null);
+          setPassphraseMode(null);
+          if (encryptedFile.purpose === "restore") {
+            confirmRestore(
+              await dataPortabilityService.combineBackupChain(fileContents),
+              encryptedFile.fileName
+            );
+          } else {
+            await reviewImport(fileContents[0], encryptedFile.fileName);
+          }
+          return;
+        }
+        case "setup":
+          await dataPortabilityService.enableBackupEncryption(next);
+          Alert.alert("Backups Encrypted", "New backups will be encrypted with your passphrase.");
+          break;
+        case "change":
+          await dataPortabilityService.changeBackupPassphrase(current, next);
+          Alert.alert("Passphrase Changed", "New backups will use your new passphrase.");
+          break;
+        case "disable":
+          await dataPortabilityService.disableBackupEncryption(current);
+          Alert.alert("Encryption Turned Off", "New backups will be saved as plain JSON.");
+          break;
+      }
+      setPassphraseMode(null);
+      await loadBackupInfo();
+    },
+    [confirmRestore, encryptedFile, loadBackupInfo, passphraseMode, reviewImport]
+  );
+
+  const handleImportCsv = useCallback(async () => {
+    try {
+      setLoading("csv");
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["text/csv", "text/comma-separated-values", "text/plain"],
+      });
+      if (result.canceled) {
+        return;
+      }
+      const { uri, name } = result.assets[0];
+      const csvData = await FileSystem.readAsStringAsync(uri);
+      setCsvImport({ csvData, file: dataPortabilityService.readCsvImportFile(csvData, name) });
     } catch (error) {
       Alert.alert(
         "Import Error",
-        error instanceof Error ? error.message : "Failed to import mood data."
+        error instanceof Error ? error.message : "Failed to read the CSV file."
       );
       console.error(error);
+    } finally {
       setLoading(null);
     }
   }, []);
@@ -144,6 +422,8 @@ export default function DataSettingsScreen() {
     });
   }, [loadBackupInfo]);
 
+  const healthWarning = backupHealth ? formatBackupHealthWarning(backupHealth) : null;
+
   return (
     <SafeAreaView className="flex-1 bg-paper-100 dark:bg-paper-900" edges={["top"]}>
       <SettingsPageHeader
@@ -180,6 +460,19 @@ export default function DataSettingsScreen() {
               Last backup: {formatBackupDate(backupInfo.latestBackup)}
             </Text>
           )}
+          {healthWarning && (
+            <View className="flex-row items-start mt-2">
+              <Ionicons
+                name="warning-outline"
+                size={16}
+                color={isDark ? "#F5A899" : "#C75441"}
+                style={{ marginRight: 6, marginTop: 1 }}
+              />
+              <Text className="flex-1 text-xs text-coral-600 dark:text-coral-400">
+                {healthWarning}
+              </Text>
+            </View>
+          )}
         </View>
 
         <SettingsSection title="Data Export">
@@ -198,13 +491,43 @@ export default function DataSettingsScreen() {
             subLabel="Replace current data from a JSON export or backup"
             icon="document-outline"
             onPress={handleImport}
-            isLast
             action={
               loading === "import" ? (
                 <ActivityIndicator size="small" color={isDark ? "#A8C5A8" : "#5B8A5B"} />
               ) : undefined
             }
           />
+          <SettingRow
+            label="Import CSV"
+            subLabel="Map columns from another mood app or a therapy CSV"
+            icon="grid-outline"
+            onPress={handleImportCsv}
+            isLast
+            action={
+              loading === "csv" ? (
+                <ActivityIndicator size="small" color={isDark ? "#A8C5A8" : "#5B8A5B"} />
+              ) : undefined
+            }
+          />
+        </SettingsSection>
+
+        <SettingsSection
+          title="Device Transfer"
+          footer="Moves your entries and settings directly between two devices on the same Wi-Fi network. The data is encrypted with a one-time key from the code."
+        >
+          <SettingRow
+            label="Send to Another Device"
+            subLabel="Show a code for the other device to scan"
+            icon="qr-code-outline"
+            onPress={() => setTransferVisible(true)}
+          />
+          <SettingRow
+            label="Receive from Another Device"
+            subLabel="Paste a transfer link from the other device"
+            icon="phone-portrait-outline"
+            onPress={() => router.push("/transfer")}
+            isLast
+          />
         </SettingsSection>
 
         <SettingsSection
@@ -228,7 +551,7 @@ export default function DataSettingsScreen() {
 
         <SettingsSection
           title="Periodic Backups"
-          footer="Backups are files saved on this device or in the folder you choose. The system may use network availability only to schedule background work; Moodinator does not upload your data."
+          footer="Backups are files saved on this device or in the folder you choose. Encrypted backups can only be restored with their passphrase. The system may use network availability only to schedule background work; Moodinator does not upload your data."
         >
           {Platform.OS === "android" && (
             <SettingRow
@@ -242,6 +565,30 @@ export default function DataSettingsScreen() {
               onPress={handleSelectBackupFolder}
             />
           )}
+          <SettingRow
+            label="Backup Frequency"
+            subLabel={backupPolicy ? BACKUP_FREQUENCY_LABELS[backupPolicy.frequency] : "Loading..."}
+            icon="calendar-outline"
+            onPress={handleSelectBackupFrequency}
+          />
+          <SettingRow
+            label="Backup Type"
+            subLabel={
+              backupPolicy
+                ? backupPolicy.incremental
+                  ? "Incremental, with a full backup every seventh time"
+                  : "Full backup every time"
+                : "Loading..."
+            }
+            icon="git-commit-outline"
+            onPress={handleSelectBackupType}
+          />
+          <SettingRow
+            label="Keep Backups"
+            subLabel={backupPolicy ? formatBackupRetention(backupPolicy.retention) : "Loading..."}
+            icon="layers-outline"
+            onPress={handleSelectBackupRetention}
+          />
           <SettingRow
             label="Backup Status"
             subLabel={
@@ -250,7 +597,6 @@ export default function DataSettingsScreen() {
                 : "Checking backup status..."
             }
             icon="cloud-done-outline"
-            isLast
             action={
               <TouchableOpacity onPress={handleRunBackupNow} disabled={loading === "backup"}>
                 <View className="px-3 py-1.5 rounded-full bg-sage-100 dark:bg-sage-600/20">
@@ -265,10 +611,58 @@ export default function DataSettingsScreen() {
               </TouchableOpacity>
             }
           />
+          <SettingRow
+            label="Restore Backup"
+            subLabel="Browse saved backups and restore one"
+            icon="time-outline"
+            onPress={() => setBackupBrowserVisible(true)}
+            action={
+              loading === "restore" ? (
+                <ActivityIndicator size="small" color={isDark ? "#A8C5A8" : "#5B8A5B"} />
+              ) : undefined
+            }
+          />
+          <SettingRow
+            label="Backup History"
+            subLabel="Past backups, restores and imports, exportable for support"
+            icon="list-outline"
+            onPress={() => setBackupLogVisible(true)}
+          />
+          <SettingRow
+            label="Encrypt Backups"
+            subLabel={
+              backupEncrypted
+                ? "On · new backups need your passphrase to restore"
+                : "Off · protect new backups with a passphrase"
+            }
+            icon={backupEncrypted ? "lock-closed-outline" : "lock-open-outline"}
+            onPress={handleBackupEncryption}
+            isLast
+          />
         </SettingsSection>
       </ScrollView>
 
       <ExportModal visible={exportModalVisible} onClose={() => setExportModalVisible(false)} />
+      <CsvImportModal
+        visible={csvImport !== null}
+        csvData={csvImport?.csvData ?? ""}
+        file={csvImport?.file ?? null}
+        onClose={() => setCsvImport(null)}
+        onExportFirst={() => setExportModalVisible(true)}
+      />
+      <BackupBrowserModal
+        visible={backupBrowserVisible}
+        onClose={() => setBackupBrowserVisible(false)}
+        onRestore={(backup) => void handleRestoreBackup(backup)}
+      />
+      <BackupLogModal visible={backupLogVisible} onClose={() => setBackupLogVisible(false)} />
+      <DeviceTransferModal visible={transferVisible} onClose={() => setTransferVisible(false)} />
+      <BackupPassphraseModal
+        visible={passphraseMode !== null}
+        mode={passphraseMode ?? "unlock"}
+        onSubmit={handlePassphraseSubmit}
+        onClose={closePassphraseModal}
+      />
     </SafeAreaView>
   );
 }
@@ -185,6 +185,8 @@ export default function DisplaySettingsScreen() {
   const setHapticsEnabled = useSettingsStore((state) => state.setHapticsEnabled);
   const historyCardStyle = useSettingsStore((state) => state.historyCardStyle);
   const setHistoryCardStyle = useSettingsStore((state) => state.setHistoryCardStyle);
+  const entryTimingPrefs = useSettingsStore((state) => state.entryTimingPrefs);
+  const setEntryTimingPrefs = useSettingsStore((state) => state.setEntryTimingPrefs);
 
   return (
     <SafeAreaView className="flex-1 bg-paper-100 dark:bg-paper-900" edges={["top"]}>
@@ -239,6 +241,31 @@ export default function DisplaySettingsScreen() {
           />
         </SettingsSection>
 
+        <SettingsSection
+          title="Backfilled Entries"
+          footer="Entries logged on a later day than the one they describe, such as ones added with a past date."
+        >
+          <ToggleRow
+            title="Count in Streaks"
+            description="Let a past day filled in later keep your streak going"
+            value={entryTimingPrefs.countBackfilledInStreaks}
+            onChange={(value) =>
+              setEntryTimingPrefs({ ...entryTimingPrefs, countBackfilledInStreaks: value })
+            }
+            icon="flame-outline"
+          />
+          <ToggleRow
+            title="Count in Insights"
+            description="Include them in averages, trends and patterns"
+            value={entryTimingPrefs.countBackfilledInInsights}
+            onChange={(value) =>
+              setEntryTimingPrefs({ ...entryTimingPrefs, countBackfilledInInsights: value })
+            }
+            icon="analytics-outline"
+            isLast
+          />
+        </SettingsSection>
+
         <SettingsSection title="Feedback">
           <ToggleRow
             title="Haptic Feedback"
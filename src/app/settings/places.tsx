@@ -0,0 +1,262 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useThemeColors, colors } from "@/constants/colors";
+import { useSettingsStore } from "@/shared/state/settingsStore";
+import { SettingsPageHeader } from "@/features/settings/components/SettingsPageHeader";
+import { SettingsSection } from "@/features/settings/components/SettingsSection";
+import { ToggleRow } from "@/features/settings/components/ToggleRow";
+import { Alert } from "@/components/ui/AppAlert";
+import { haptics } from "@/lib/haptics";
+import {
+  MAX_PLACE_NAME_LENGTH,
+  MAX_SAVED_PLACES,
+  formatCoordinates,
+  type Coordinates,
+  type SavedPlace,
+} from "@/lib/location";
+import { locationService } from "@/services/locationService";
+
+function createPlaceId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function SavedPlaceRow({
+  place,
+  onRemove,
+}: {
+  place: SavedPlace;
+  onRemove: (place: SavedPlace) => void;
+}) {
+  const { isDark, get } = useThemeColors();
+  const coordinates = formatCoordinates(place);
+
+  return (
+    <View className="flex-row items-center p-4 border-b border-paper-200 dark:border-paper-800">
+      <View className="w-9 h-9 rounded-xl items-center justify-center mr-3 bg-sage-100 dark:bg-sage-600/20">
+        <Ionicons name="location-outline" size={18} color={get("primary")} />
+      </View>
+      <View className="flex-1 mr-3">
+        <Text className="text-base font-medium" style={{ color: get("text") }}>
+          {place.name}
+        </Text>
+        <Text className="text-xs mt-0.5" style={{ color: get("textMuted") }}>
+          {coordinates ? `Approx. ${coordinates}` : "Name only"}
+        </Text>
+      </View>
+      <Pressable
+        onPress={() => onRemove(place)}
+        className="w-8 h-8 rounded-full items-center justify-center"
+        style={{ backgroundColor: isDark ? colors.negative.bg.dark : colors.negative.bg.light }}
+        hitSlop={6}
+        accessibilityRole="button"
+        accessibilityLabel={`Remove ${place.name}`}
+      >
+        <Ionicons
+          name="trash-outline"
+          size={14}
+          color={isDark ? colors.negative.text.dark : colors.negative.text.light}
+        />
+      </Pressable>
+    </View>
+  );
+}
+
+export default function PlacesSettingsScreen() {
+  const { get } = useThemeColors();
+  const locationTaggingEnabled = useSettingsStore((state) => state.locationTaggingEnabled);
+  const setLocationTaggingEnabled = useSettingsStore((state) => state.setLocationTaggingEnabled);
+  const savedPlaces = useSettingsStore((state) => state.savedPlaces);
+  const setSavedPlaces = useSettingsStore((state) => state.setSavedPlaces);
+
+  const [name, setName] = useState("");
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const isFull = savedPlaces.length >= MAX_SAVED_PLACES;
+  const canAdd = name.trim().length > 0 && !isFull;
+
+  const handleUsePosition = async () => {
+    if (coordinates) {
+      setCoordinates(null);
+      return;
+    }
+    setIsLocating(true);
+    try {
+      const granted = await locationService.requestPermission();
+      if (!granted) {
+        Alert.alert(
+          "Location access needed",
+          "Allow location access in your device settings, or save the place by name only."
+        );
+        return;
+      }
+      setCoordinates(await locationService.getCoarsePosition());
+    } catch (error) {
+      console.error("Failed to read approximate position:", error);
+      Alert.alert("Position unavailable", "Your approximate position could not be read.");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const trimmed = name.trim().slice(0, MAX_PLACE_NAME_LENGTH);
+    if (!trimmed || isFull) return;
+
+    if (savedPlaces.some((place) => place.name.toLowerCase() === trimmed.toLowerCase())) {
+      Alert.alert("Duplicate Place", "A place with this name already exists.");
+      return;
+    }
+
+    haptics.medium();
+    await setSavedPlaces([
+      ...savedPlaces,
+      {
+        id: createPlaceId(),
+        name: trimmed,
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+      },
+    ]);
+    setName("");
+    setCoordinates(null);
+  };
+
+  const handleRemove = (place: SavedPlace) => {
+    Alert.alert(
+      "Remove Place",
+      `Remove "${place.name}"? Entries already tagged with it keep their location.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            haptics.destructive();
+            await setSavedPlaces(savedPlaces.filter((item) => item.id !== place.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const formattedCoordinates = coordinates ? formatCoordinates(coordinates) : null;
+
+  return (
+    <SafeAreaView className="flex-1 bg-paper-100 dark:bg-paper-900" edges={["top"]}>
+      <SettingsPageHeader
+        title="Places"
+        subtitle="Customization"
+        icon="location-outline"
+        accentColor="sage"
+      />
+
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ paddingBottom: 40, paddingTop: 16 }}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <SettingsSection
+          title="Location Tagging"
+          footer="Locations stay on this device. Positions are rounded to about 1 km and place names are never looked up online."
+        >
+          <ToggleRow
+            title="Tag Entries with a Place"
+            description="Show a location field when logging a mood"
+            value={locationTaggingEnabled}
+            onChange={setLocationTaggingEnabled}
+            icon="location-outline"
+            isLast
+          />
+        </SettingsSection>
+
+        <SettingsSection
+          title="Saved Places"
+          footer="Saved places work offline. When a place has a position, entries logged nearby suggest it."
+        >
+          {savedPlaces.map((place) => (
+            <SavedPlaceRow key={place.id} place={place} onRemove={handleRemove} />
+          ))}
+          {savedPlaces.length === 0 && (
+            <View className="px-4 pt-4">
+              <Text className="text-sm" style={{ color: get("textMuted") }}>
+                No saved places yet
+              </Text>
+            </View>
+          )}
+
+          <View className="p-4">
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder={isFull ? "Saved place limit reached" : "Place name, e.g. Home"}
+              placeholderTextColor={get("textSubtle")}
+              maxLength={MAX_PLACE_NAME_LENGTH}
+              editable={!isFull}
+              returnKeyType="done"
+              onSubmitEditing={() => {
+                void handleAdd();
+              }}
+              className="rounded-xl px-3 py-2.5 text-base"
+              style={{ backgroundColor: get("surfaceAlt"), color: get("text") }}
+              accessibilityLabel="New place name"
+            />
+            <View className="flex-row items-center mt-3" style={{ gap: 8 }}>
+              <Pressable
+                onPress={() => {
+                  void handleUsePosition();
+                }}
+                disabled={isLocating || isFull}
+                className="flex-1 flex-row items-center justify-center rounded-xl py-2.5"
+                style={{
+                  backgroundColor: coordinates ? get("primaryBg") : get("surfaceAlt"),
+                  opacity: isLocating || isFull ? 0.5 : 1,
+                }}
+                accessibilityRole="button"
+                accessibilityLabel={
+                  coordinates ? "Remove approximate position" : "Use approximate current position"
+                }
+              >
+                {isLocating ? (
+                  <ActivityIndicator size="small" color={get("primary")} />
+                ) : (
+                  <Ionicons
+                    name={coordinates ? "navigate" : "navigate-outline"}
+                    size={16}
+                    color={coordinates ? get("primary") : get("textMuted")}
+                  />
+                )}
+                <Text
+                  className="ml-2 text-sm font-medium"
+                  style={{ color: coordinates ? get("primary") : get("textMuted") }}
+                  numberOfLines={1}
+                >
+                  {formattedCoordinates ? `Approx. ${formattedCoordinates}` : "Add position"}
+                </Text>
+              </Pressable>
+              <Pressable
+                onPress={() => {
+                  void handleAdd();
+                }}
+                disabled={!canAdd}
+                className="flex-row items-center justify-center rounded-xl px-4 py-2.5"
+                style={{ backgroundColor: get("primary"), opacity: canAdd ? 1 : 0.5 }}
+                accessibilityRole="button"
+                accessibilityLabel="Save place"
+                accessibilityState={{ disabled: !canAdd }}
+              >
+                <Ionicons name="add" size={16} color={get("onPrimary")} />
+                <Text className="ml-1 text-sm font-semibold" style={{ color: get("onPrimary") }}>
+                  Save
+                </Text>
+              </Pressable>
+            </View>
+          </View>
+        </SettingsSection>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
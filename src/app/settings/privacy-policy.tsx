@@ -33,8 +33,8 @@ export default function PrivacyPolicyScreen() {
             Moodinator stores information you choose to enter or configure:
           </Paragraph>
           <BulletList items={[
-            "Mood data: ratings, timestamps, notes, emotions, context tags, energy values, and history",
-            "Settings: entry and display preferences, onboarding state, and other app configuration",
+            "Mood data: ratings, timestamps, when each entry was logged and last changed, notes, emotions, context tags, energy values, attached photos and voice memos, optional place tags, earlier values of edited entries, and history",
+            "Settings: entry preferences, saved places, display preferences, onboarding state, and other app configuration",
             "Reminders: local notification titles, messages, schedules, permission state, and identifiers",
             "App lock: enabled settings, PIN length, failed-attempt state, and a salted hash of your PIN",
             "Backup metadata: the selected folder and latest-backup time",
@@ -50,6 +50,15 @@ export default function PrivacyPolicyScreen() {
           <Paragraph>
             Mood data is stored in a local SQLite database inside the operating system app sandbox. On Android, Moodinator does not apply database-level encryption to that database. App lock is not database encryption.
           </Paragraph>
+          <Paragraph>
+            Attached photos are re-encoded as JPEG, which removes embedded metadata such as location, and stored in private app storage. They are not added to your photo library and are not encrypted by Moodinator.
+          </Paragraph>
+          <Paragraph>
+            Moodinator uses the microphone only while you record a voice memo, after you grant permission. Recordings stay in private app storage, are not transcribed or sent anywhere, and are not encrypted by Moodinator.
+          </Paragraph>
+          <Paragraph>
+            Location tagging is off by default. When you use your approximate position, Moodinator asks for while-in-use permission, rounds the position to about 1 km, and uses it only to suggest a saved place or store approximate coordinates with a name you enter. It never requests precise or background location and never sends positions to a geocoding or map service.
+          </Paragraph>
           <Paragraph>
             If you set an app-lock PIN, Moodinator stores a salted hash—not the plaintext PIN—in the operating system secure storage. Biometric enrollment and matching stay with the operating system; Moodinator does not receive or store your biometric template.
           </Paragraph>
@@ -63,13 +72,16 @@ export default function PrivacyPolicyScreen() {
 
         <Section title="Exports and Backups">
           <Paragraph>
-            Mood-history exports and backups are plaintext JSON; therapy exports are plaintext CSV. Moodinator does not encrypt them. Android JSON exports are written to a selected folder. Other export flows use a temporary app-cache file and the operating-system share sheet, or can offer to copy the full content to the clipboard when sharing is unavailable.
+            Mood-history exports are plaintext JSON; therapy exports are plaintext CSV. Moodinator does not encrypt exports. Backups are plaintext JSON unless you turn on backup encryption, which encrypts new backups with AES-256-GCM using a key derived from your passphrase and kept in the operating system secure storage. The passphrase is not stored and cannot be recovered. Mood-history exports and unencrypted backups embed attached photos, voice memos, and place tags. Android JSON exports are written to a selected folder. Other export flows use a temporary app-cache file and the operating-system share sheet, or can offer to copy the full content to the clipboard when sharing is unavailable.
           </Paragraph>
           <Paragraph>
             Moodinator attempts to delete temporary exports after the flow, but an interrupted or failed share can leave a file until the operating system clears the cache. Selected destinations can include cloud-backed providers. Anyone with access to a file or clipboard copy may be able to read it.
           </Paragraph>
           <Paragraph>
-            Periodic backups are scheduled by the operating system, which decides whether and when they run. After backup storage is available, the background task may run automatically and limits its successful backups to at most once per week; manual backups are not subject to that cadence. Android requires a selected folder first. Moodinator keeps the eight newest app-managed backup files it can identify and removes older identified managed backups. It cannot delete arbitrary exports, renamed copies, clipboard content, or copies held by another app or provider.
+            Periodic backups are scheduled by the operating system, which decides whether and when they run. After backup storage is available, the background task may run automatically and limits its successful backups to the frequency you choose, by default at most once per week; manual backups are not subject to that cadence. Android requires a selected folder first. By default Moodinator keeps the eight newest app-managed backup files it can identify, or follows the retention you choose, and removes older identified managed backups. It cannot delete arbitrary exports, renamed copies, clipboard content, or copies held by another app or provider.
+          </Paragraph>
+          <Paragraph>
+            Device transfer sends your entries and settings directly to another of your devices on the same local network, encrypted with AES-256-GCM under a one-time key shown in a QR code and link. The data does not pass through our servers. Anyone who sees the code while it is showing and is on the same network could receive the data. The code stops working after one transfer, when closed, or after 10 minutes.
           </Paragraph>
         </Section>
 
@@ -81,14 +93,14 @@ export default function PrivacyPolicyScreen() {
 
         <Section title="Sharing and Sale">
           <Paragraph>
-            We do not operate servers that receive your Moodinator data, sell it, or use advertising or analytics SDKs. Data can leave through a deliberate export, share, copy, import, or support action; when an OS-scheduled periodic backup runs after storage is available; or through platform backup or transfer behavior outside our control.
+            We do not operate servers that receive your Moodinator data, sell it, or use advertising or analytics SDKs. Data can leave through a deliberate export, share, copy, import, device transfer, or support action; when an OS-scheduled periodic backup runs after storage is available; or through platform backup or transfer behavior outside our control.
           </Paragraph>
         </Section>
 
         <Section title="Your Control and Deletion">
           <BulletList items={[
-            "Delete an individual mood entry.",
-            "Delete Mood Data removes mood history, including mood rows, mood–emotion link records, and database emotion records used by that history.",
+            "Delete an individual mood entry. It moves to Settings > Trash and stays on this device, with its attached photos and voice memos, for the period you choose there (7, 30 by default, or 90 days) unless you restore it, delete it permanently, or empty the trash sooner.",
+            "Delete Mood Data removes mood history, including mood rows and entries in the trash, their edit history, mood–emotion link records, database emotion records used by that history, and attached photos and voice memos.",
             "Delete Mood Data retains the user-visible Emotion List presets, context-tag presets, other settings, reminders, app-lock data, and files saved outside the app.",
           ]} />
           <Paragraph>
@@ -125,7 +137,7 @@ export default function PrivacyPolicyScreen() {
             items={[
               "No developer-operated account, data server, analytics, or ads",
               "Android mood database is sandboxed but not encrypted by Moodinator",
-              "JSON and CSV exports and JSON backups are readable plaintext",
+              "JSON and CSV exports, and backups without a passphrase, are readable plaintext",
               "Delete Mood Data has a limited, documented scope",
             ]}
             color="sage"
@@ -36,7 +36,7 @@ export default function TermsOfServiceScreen() {
             "Record moods on a 0–10 scale, where lower is better and 9–10 require the most support",
             "Add notes, emotions, contexts, and energy values",
             "Configure local reminders and view on-device patterns",
-            "Create plaintext JSON mood exports/backups and plaintext CSV therapy exports",
+            "Create plaintext JSON mood exports/backups, passphrase-encrypted backups, and plaintext CSV therapy exports",
           ]} />
         </Section>
 
@@ -48,13 +48,13 @@ export default function TermsOfServiceScreen() {
 
         <Section title="Your Data">
           <Paragraph>
-            You retain your rights in mood entries, notes, tags, settings, exports, and backups you create. Moodinator has no developer-operated account or server copy. You are responsible for device security and protecting plaintext JSON mood exports/backups and plaintext CSV therapy exports.
+            You retain your rights in mood entries, notes, tags, settings, exports, and backups you create. Moodinator has no developer-operated account or server copy. You are responsible for device security and protecting plaintext JSON mood exports/backups, plaintext CSV therapy exports, and the passphrase for encrypted backups.
           </Paragraph>
           <Paragraph>
             Delete Mood Data removes mood history, including mood rows, mood–emotion link records, and database emotion records used by that history. It retains the user-visible Emotion List presets, context-tag presets, other settings, reminders, app-lock data, and external files.
           </Paragraph>
           <Paragraph>
-            Export flows may use a temporary app-cache file and share sheet, or offer a clipboard copy. Failed sharing can leave a temporary file until the operating system clears it. Periodic OS-scheduled backups are not guaranteed to run; after storage is available, the background task may run automatically and limits its successful backups to at most once per week, while manual backups are not subject to that cadence. Android requires a selected folder. Moodinator keeps the eight newest app-managed backups it can identify and removes older identified managed backups, but cannot delete arbitrary exports, renamed copies, clipboard contents, or provider copies. Uninstall and platform backup or transfer behavior can vary. We cannot recover lost data or delete external copies.
+            Export flows may use a temporary app-cache file and share sheet, or offer a clipboard copy. Failed sharing can leave a temporary file until the operating system clears it. Periodic OS-scheduled backups are not guaranteed to run; after storage is available, the background task may run automatically and limits its successful backups to the chosen frequency, by default at most once per week, while manual backups are not subject to that cadence. Android requires a selected folder. By default Moodinator keeps the eight newest app-managed backups it can identify, or follows the retention you choose, and removes older identified managed backups, but cannot delete arbitrary exports, renamed copies, clipboard contents, or provider copies. Uninstall and platform backup or transfer behavior can vary. We cannot recover lost data or delete external copies.
           </Paragraph>
         </Section>
 
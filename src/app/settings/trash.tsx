@@ -0,0 +1,291 @@
+import React, { useCallback, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useFocusEffect } from "expo-router";
+import { useThemeColors, colors } from "@/constants/colors";
+import { getMoodRatingDisplay } from "@/constants/moodScaleInterpretation";
+import { SettingsPageHeader } from "@/features/settings/components/SettingsPageHeader";
+import { SettingsSection } from "@/features/settings/components/SettingsSection";
+import { SettingRow } from "@/features/settings/components/SettingRow";
+import { Alert } from "@/components/ui/AppAlert";
+import { haptics } from "@/lib/haptics";
+import { useMoodsStore } from "@/shared/state/moodsStore";
+import {
+  TRASH_RETENTION_DAY_OPTIONS,
+  getTrashPurgeDate,
+  trashService,
+  type DeletedMoodEntry,
+} from "@/services/trashService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatEntryDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatPurgeCountdown(purgeAt: number, now: number): string {
+  const days = Math.ceil((purgeAt - now) / DAY_MS);
+  if (days <= 1) {
+    return "Deleted for good within a day";
+  }
+  return `Deleted for good in ${days} days`;
+}
+
+function TrashedEntryRow({
+  item,
+  retentionDays,
+  busy,
+  onRestore,
+  onPurge,
+}: {
+  item: DeletedMoodEntry;
+  retentionDays: number;
+  busy: boolean;
+  onRestore: (item: DeletedMoodEntry) => void;
+  onPurge: (item: DeletedMoodEntry) => void;
+}) {
+  const { isDark, get } = useThemeColors();
+  const { entry } = item;
+  const mood = getMoodRatingDisplay(entry.mood, isDark, entry.moodScale);
+  const note = entry.note?.trim();
+
+  return (
+    <View className="flex-row items-center p-4 border-b border-paper-200 dark:border-paper-800">
+      <View
+        className="w-9 h-9 rounded-xl items-center justify-center mr-3"
+        style={{ backgroundColor: mood.backgroundHex }}
+      >
+        <Text className="text-sm font-bold" style={{ color: mood.colorHex }}>
+          {mood.value}
+        </Text>
+      </View>
+      <View className="flex-1 mr-3">
+        <Text className="text-base font-medium" style={{ color: get("text") }} numberOfLines={1}>
+          {mood.label} · {formatEntryDate(entry.timestamp)}
+        </Text>
+        {note ? (
+          <Text className="text-xs mt-0.5" style={{ color: get("textMuted") }} numberOfLines={1}>
+            {note}
+          </Text>
+        ) : null}
+        <Text className="text-xs mt-0.5" style={{ color: get("textSubtle") }}>
+          {formatPurgeCountdown(getTrashPurgeDate(item.deletedAt, retentionDays), Date.now())}
+        </Text>
+      </View>
+      <Pressable
+        onPress={() => onRestore(item)}
+        disabled={busy}
+        className="w-8 h-8 rounded-full items-center justify-center mr-2"
+        style={{ backgroundColor: get("primaryBg"), opacity: busy ? 0.5 : 1 }}
+        hitSlop={6}
+        accessibilityRole="button"
+        accessibilityLabel={`Restore entry from ${formatEntryDate(entry.timestamp)}`}
+      >
+        <Ionicons name="arrow-undo-outline" size={14} color={get("primary")} />
+      </Pressable>
+      <Pressable
+        onPress={() => onPurge(item)}
+        disabled={busy}
+        className="w-8 h-8 rounded-full items-center justify-center"
+        style={{
+          backgroundColor: isDark ? colors.negative.bg.dark : colors.negative.bg.light,
+          opacity: busy ? 0.5 : 1,
+        }}
+        hitSlop={6}
+        accessibilityRole="button"
+        accessibilityLabel={`Delete entry from ${formatEntryDate(entry.timestamp)} permanently`}
+      >
+        <Ionicons
+          name="trash-outline"
+          size={14}
+          color={isDark ? colors.negative.text.dark : colors.negative.text.light}
+        />
+      </Pressable>
+    </View>
+  );
+}
+
+/**
+ * Lists deleted entries until they are purged. Entries come back under their
+ * original id, so entries copied from them stay linked.
+ */
+export default function TrashSettingsScreen() {
+  const { get } = useThemeColors();
+  const restoreMood = useMoodsStore((state) => state.restore);
+  const [items, setItems] = useState<DeletedMoodEntry[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [deleted, days] = await Promise.all([
+        trashService.list(),
+        trashService.getRetentionDays(),
+      ]);
+      setItems(deleted);
+      setRetentionDays(days);
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+      setItems([]);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const runAction = useCallback(
+    async (action: () => Promise<unknown>, failure: string) => {
+      setBusy(true);
+      try {
+        await action();
+      } catch (error) {
+        console.error(failure, error);
+        Alert.alert("Trash", failure);
+      } finally {
+        setBusy(false);
+        await load();
+      }
+    },
+    [load]
+  );
+
+  const handleRestore = (item: DeletedMoodEntry) => {
+    haptics.success();
+    void runAction(async () => {
+      if (!(await restoreMood(item.entry.id))) {
+        throw new Error("Entry is no longer in the trash");
+      }
+    }, "The entry could not be restored.");
+  };
+
+  const handlePurge = (item: DeletedMoodEntry) => {
+    Alert.alert(
+      "Delete Permanently",
+      "This entry and its photos and voice memos will be deleted. This can't be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            haptics.destructive();
+            void runAction(
+              () => trashService.purge([item.entry.id]),
+              "The entry could not be deleted."
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmpty = () => {
+    const count = items?.length ?? 0;
+    Alert.alert(
+      "Empty Trash",
+      `Permanently delete ${count} entr${count === 1 ? "y" : "ies"}? This can't be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: () => {
+            haptics.destructive();
+            void runAction(() => trashService.empty(), "The trash could not be emptied.");
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSelectRetention = () => {
+    Alert.alert("Keep Deleted Entries", "Entries older than this are deleted for good.", [
+      { text: "Cancel", style: "cancel" },
+      ...TRASH_RETENTION_DAY_OPTIONS.map((days) => ({
+        text: `${days} days`,
+        onPress: () =>
+          void runAction(async () => {
+            await trashService.setRetentionDays(days);
+            await trashService.purgeExpired();
+          }, "The setting could not be saved."),
+      })),
+    ]);
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-paper-100 dark:bg-paper-900" edges={["top"]}>
+      <SettingsPageHeader
+        title="Trash"
+        subtitle="Privacy & Data"
+        icon="trash-outline"
+        accentColor="coral"
+      />
+
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ paddingBottom: 40, paddingTop: 16 }}
+        showsVerticalScrollIndicator={false}
+      >
+        <SettingsSection
+          title="Retention"
+          footer="Deleted entries, with their photos and voice memos, stay on this device until they are purged. They are left out of history, insights and exports."
+        >
+          <SettingRow
+            label="Keep Deleted Entries"
+            subLabel={retentionDays === null ? "Loading..." : `${retentionDays} days`}
+            icon="time-outline"
+            onPress={handleSelectRetention}
+            isLast
+          />
+        </SettingsSection>
+
+        <SettingsSection title="Recently Deleted">
+          {items === null && (
+            <View className="p-4 items-center">
+              <ActivityIndicator color={get("primary")} />
+            </View>
+          )}
+          {items !== null && items.length === 0 && (
+            <View className="p-4">
+              <Text className="text-sm" style={{ color: get("textMuted") }}>
+                The trash is empty
+              </Text>
+            </View>
+          )}
+          {items !== null &&
+            retentionDays !== null &&
+            items.map((item) => (
+              <TrashedEntryRow
+                key={item.entry.id}
+                item={item}
+                retentionDays={retentionDays}
+                busy={busy}
+                onRestore={handleRestore}
+                onPurge={handlePurge}
+              />
+            ))}
+          {items !== null && items.length > 0 && (
+            <SettingRow
+              label="Empty Trash"
+              subLabel="Delete every entry above now"
+              icon="trash-bin-outline"
+              onPress={busy ? undefined : handleEmpty}
+              destructive
+              isLast
+            />
+          )}
+        </SettingsSection>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -33,6 +33,8 @@ import {
   type MoodRangePreset,
 } from "@/services/moodService";
 import { buildTherapyExportCsv } from "@/services/therapyExportService";
+import { slugifyViewName } from "@/lib/savedViews";
+import { useSettingsStore } from "@/shared/state/settingsStore";
 
 type RangeOption = MoodRangePreset | "custom";
 
@@ -78,6 +80,18 @@ const FIELD_OPTIONS: {
     description: "Additional thoughts saved with the entry",
     icon: "document-text-outline",
   },
+  {
+    key: "edits",
+    label: "Edit Markers",
+    description: "Whether an entry was changed later, with its original values",
+    icon: "create-outline",
+  },
+  {
+    key: "baseline",
+    label: "Baseline Summary",
+    description: "Shifts in the daily average and unusual days, listed after the entries",
+    icon: "pulse-outline",
+  },
 ];
 
 const RANGE_OPTIONS: {
@@ -129,6 +143,9 @@ export default function TherapyExportScreen() {
   const [loading, setLoading] = useState(false);
   const [showStartPicker, setShowStartPicker] = useState(false);
   const [showEndPicker, setShowEndPicker] = useState(false);
+  const savedViews = useSettingsStore((state) => state.savedViews);
+  const [viewId, setViewId] = useState<string | null>(null);
+  const selectedView = savedViews.find((view) => view.id === viewId) ?? null;
 
   useEffect(() => {
     (async () => {
@@ -140,8 +157,12 @@ export default function TherapyExportScreen() {
   const handleToggleField = (field: TherapyExportField) => {
     setSelectedFields((prev) => {
       const hasField = prev.includes(field);
-      if (hasField && prev.length === 1) {
-        Alert.alert("At least one field", "Keep at least one field selected.");
+      // The baseline summary has no columns of its own, so it cannot stand alone.
+      const remainingEntryFields = prev.filter(
+        (item) => item !== field && item !== "baseline"
+      );
+      if (hasField && remainingEntryFields.length === 0) {
+        Alert.alert("At least one field", "Keep at least one entry field selected.");
         return prev;
       }
       const next = hasField
@@ -160,6 +181,8 @@ export default function TherapyExportScreen() {
     return option?.label ?? "Last 7 Days";
   }, [rangeOption, customStartDate, customEndDate]);
 
+  const entriesSummary = selectedView ? `Only "${selectedView.name}"` : null;
+
   const resolveRangePayload = ():
     | MoodDateRange
     | { startDate: number; endDate: number }
@@ -192,16 +215,29 @@ export default function TherapyExportScreen() {
 
     try {
       setLoading(true);
-      const rows = await moodService.getInRange(rangePayload);
+      const rows = selectedView
+        ? await moodService.query({ ...selectedView.query, dateRange: rangePayload })
+        : await moodService.getInRange(rangePayload);
       if (!rows.length) {
-        Alert.alert("No entries", "No mood entries found for this range.");
+        Alert.alert(
+          "No entries",
+          selectedView
+            ? `No mood entries in "${selectedView.name}" for this range.`
+            : "No mood entries found for this range."
+        );
         return;
       }
-      const csv = buildTherapyExportCsv(rows, selectedFields);
-      const fileSuffix =
+      const revisions = selectedFields.includes("edits")
+        ? await moodService.getRevisionsByIds(rows.map((entry) => entry.id))
+        : undefined;
+      const csv = buildTherapyExportCsv(rows, selectedFields, revisions);
+      const rangeSuffix =
         rangeOption === "custom"
           ? `${formatDateSlug(customStartDate)}-to-${formatDateSlug(customEndDate)}`
           : rangeOption;
+      const fileSuffix = selectedView
+        ? `${slugifyViewName(selectedView.name)}-${rangeSuffix}`
+        : rangeSuffix;
       const fileUri = `${FileSystem.cacheDirectory}therapy-export-${fileSuffix}.csv`;
       await FileSystem.writeAsStringAsync(fileUri, csv, {
         encoding: FileSystem.EncodingType.UTF8,
@@ -251,7 +287,7 @@ export default function TherapyExportScreen() {
       .join(", ");
     Alert.alert(
       "Review therapy export",
-      `${rangeSummary}\n\nIncludes: ${includedFields}\n\nThis report may contain sensitive health notes. After sharing it, Moodinator cannot control how it is stored or forwarded.`,
+      `${rangeSummary}${entriesSummary ? `\n${entriesSummary}` : ""}\n\nIncludes: ${includedFields}\n\nThis report may contain sensitive health notes. After sharing it, Moodinator cannot control how it is stored or forwarded.`,
       [
         { text: "Back and edit", style: "cancel" },
         { text: "Create report", onPress: () => void performExport() },
@@ -316,7 +352,7 @@ export default function TherapyExportScreen() {
           <View className="flex-row items-center mt-1">
             <Ionicons name="calendar-outline" size={14} color={isDark ? "#C4BBCF" : "#847596"} />
             <Text className="text-xs font-medium ml-1 text-dusk-600 dark:text-dusk-300">
-              {rangeSummary}
+              {entriesSummary ? `${rangeSummary} · ${entriesSummary}` : rangeSummary}
             </Text>
           </View>
         </View>
@@ -537,6 +573,51 @@ export default function TherapyExportScreen() {
           </View>
         </View>
 
+        {/* Saved View Section */}
+        {savedViews.length > 0 && (
+          <View className="mx-4 mb-4">
+            <Text className="text-xs font-semibold uppercase tracking-wider text-paper-700 dark:text-sand-400 mb-2 ml-1">
+              Entries
+            </Text>
+            <View
+              className="rounded-2xl bg-paper-50 dark:bg-paper-850 overflow-hidden p-4"
+              style={isDark ? styles.sectionShadowDark : styles.sectionShadowLight}
+            >
+              <View className="flex-row flex-wrap gap-2">
+                {[null, ...savedViews].map((view) => {
+                  const isSelected = (view?.id ?? null) === viewId;
+                  return (
+                    <Pressable
+                      key={view?.id ?? "all"}
+                      onPress={() => setViewId(view?.id ?? null)}
+                      className={`rounded-full border px-3 py-2 ${
+                        isSelected
+                          ? "border-sage-500 bg-sage-100 dark:bg-sage-600/20"
+                          : "border-paper-200 dark:border-paper-800"
+                      }`}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text
+                        className={`text-sm font-medium ${
+                          isSelected
+                            ? "text-sage-600 dark:text-sage-300"
+                            : "text-paper-800 dark:text-paper-200"
+                        }`}
+                      >
+                        {view?.name ?? "All entries"}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Text className="text-xs text-paper-700 dark:text-sand-400 mt-3">
+                Limit the report to a saved view from your history.
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Export Button */}
         <View className="mx-4 mt-2">
           <Pressable
@@ -0,0 +1,183 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { View, Text, ScrollView, TextInput, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useColorScheme } from "nativewind";
+import { Ionicons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import { ScreenHeader } from "@/components/ui/ScreenHeader";
+import { Alert } from "@/components/ui/AppAlert";
+import { ExportModal } from "@/features/settings/components/ExportModal";
+import { chooseImportMode } from "@/features/settings/utils/importModeChoice";
+import { dataPortabilityService, type DataImportMode } from "@/services/dataPortabilityService";
+import { deviceTransferService } from "@/services/deviceTransferService";
+
+/**
+ * Receives data from another device. Opened by scanning the sending device's
+ * QR code (a `myapp://transfer` link), or from Data & Backups to paste the
+ * link by hand. Received data is merged or replaced like an imported file.
+ */
+export default function TransferScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const [pastedLink, setPastedLink] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [received, setReceived] = useState<string | null>(null);
+  const [exportModalVisible, setExportModalVisible] = useState(false);
+
+  const linkedInvite = useMemo(() => {
+    if (typeof params.key !== "string") {
+      return null;
+    }
+    try {
+      return { invite: deviceTransferService.readLinkParams(params), error: null };
+    } catch (error) {
+      return {
+        invite: null,
+        error: error instanceof Error ? error.message : "This transfer link can't be read.",
+      };
+    }
+  }, [params]);
+
+  const reviewReceived = useCallback(
+    async (jsonData: string) => {
+      const preview = await dataPortabilityService.previewImportData(jsonData);
+
+      const runImport = async (mode: DataImportMode) => {
+        try {
+          setLoading(true);
+          const result = await dataPortabilityService.importData(jsonData, mode);
+          setReceived(null);
+          Alert.alert("Transfer Complete", dataPortabilityService.summarizeImportResult(result), [
+            { text: "OK", onPress: () => router.replace("/") },
+          ]);
+        } catch (error) {
+          Alert.alert(
+            "Import Error",
+            error instanceof Error ? error.message : "Failed to add the received data."
+          );
+          console.error(error);
+        } finally {
+          setLoading(false);
+        }
+      };
+
+      chooseImportMode({
+        showAlert: Alert.alert,
+        summary: dataPortabilityService.summarizeImportPreview(preview),
+        conflictCount: preview.conflictCount,
+        onChoose: (mode) => void runImport(mode),
+        onExportFirst: () => setExportModalVisible(true),
+        onCancel: () => undefined,
+      });
+    },
+    [router]
+  );
+
+  const handleReceive = useCallback(async () => {
+    try {
+      const invite = linkedInvite?.invite ?? deviceTransferService.readLink(pastedLink);
+      setLoading(true);
+      const jsonData = await deviceTransferService.receive(invite);
+      setReceived(jsonData);
+      setLoading(false);
+      await reviewReceived(jsonData);
+    } catch (error) {
+      setLoading(false);
+      Alert.alert(
+        "Transfer Error",
+        error instanceof Error ? error.message : "Failed to receive data from the other device."
+      );
+      console.error(error);
+    }
+  }, [linkedInvite, pastedLink, reviewReceived]);
+
+  const handlePaste = useCallback(async () => {
+    setPastedLink((await Clipboard.getStringAsync()).trim());
+  }, []);
+
+  const canReceive = linkedInvite ? linkedInvite.invite !== null : pastedLink.trim() !== "";
+
+  return (
+    <SafeAreaView className="flex-1 bg-paper-100 dark:bg-paper-900" edges={["top"]}>
+      <View className="pt-2 pb-4 bg-paper-100 dark:bg-paper-900">
+        <ScreenHeader
+          title="Receive Data"
+          eyebrow="Device Transfer"
+          icon="phone-portrait-outline"
+          tone="sage"
+          compact
+          onBack={() => (router.canGoBack() ? router.back() : router.replace("/"))}
+          backLabel="Back"
+        />
+      </View>
+
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ padding: 16, paddingBottom: 40 }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View className="p-4 rounded-2xl bg-sage-100 dark:bg-sage-600/20">
+          <Text className="text-sm text-paper-800 dark:text-paper-200">
+            {linkedInvite
+              ? "Another device is offering its Moodinator data. Keep both devices on the same Wi-Fi network and the code showing on the other device."
+              : "On the other device, open Data & Backups and choose Send to Another Device. Scan its code with this device's camera, or copy the link there and paste it here."}
+          </Text>
+        </View>
+
+        {linkedInvite?.error && (
+          <Text className="text-sm mt-4 text-coral-600 dark:text-coral-400">
+            {linkedInvite.error}
+          </Text>
+        )}
+
+        {!linkedInvite && (
+          <View className="mt-4">
+            <Text className="text-xs mb-1 text-paper-700 dark:text-paper-400">Transfer link</Text>
+            <TextInput
+              value={pastedLink}
+              onChangeText={setPastedLink}
+              placeholder="myapp://transfer?..."
+              autoCapitalize="none"
+              autoCorrect={false}
+              accessibilityLabel="Transfer link"
+              className="p-3 rounded-xl text-base bg-paper-200 dark:bg-paper-800 border border-sand-300 dark:border-sand-800 text-paper-800 dark:text-paper-200"
+            />
+            <TouchableOpacity
+              onPress={() => void handlePaste()}
+              className="flex-row items-center self-start mt-2 px-3 py-2 rounded-xl bg-paper-200 dark:bg-paper-800"
+            >
+              <Ionicons
+                name="clipboard-outline"
+                size={16}
+                color={isDark ? "#A8C5A8" : "#5B8A5B"}
+                style={{ marginRight: 6 }}
+              />
+              <Text className="text-sm font-semibold text-sage-600 dark:text-sage-300">Paste</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity
+          onPress={() => void (received ? reviewReceived(received) : handleReceive())}
+          disabled={loading || (!received && !canReceive)}
+          className={`mt-6 p-4 rounded-xl flex-row justify-center items-center bg-sage-600 dark:bg-sage-600 ${
+            loading || (!received && !canReceive) ? "opacity-50" : ""
+          }`}
+        >
+          {loading ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text className="text-white font-bold">
+              {received ? "Add Received Data" : "Receive Data"}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+
+      <ExportModal visible={exportModalVisible} onClose={() => setExportModalVisible(false)} />
+    </SafeAreaView>
+  );
+}
@@ -26,6 +26,7 @@ import { getMoodItemLabel, getMoodItemHint } from "@/constants/accessibility";
 import { motion, springs } from "@/constants/motion";
 import { haptics } from "@/lib/haptics";
 import { useSettingsStore } from "@/shared/state/settingsStore";
+import { PhotoThumbnailStrip } from "./entry/PhotoThumbnailStrip";
 
 interface Props {
   mood: MoodEntry;
@@ -166,6 +167,11 @@ export const DisplayMoodItem = React.memo(function DisplayMoodItem(
       hour: "2-digit",
       minute: "2-digit",
     });
+    const voiceMemoCount = mood.voiceMemos.length;
+    const voiceMemoLabel =
+      voiceMemoCount > 0
+        ? `${voiceMemoCount} voice ${voiceMemoCount === 1 ? "memo" : "memos"}`
+        : null;
 
     const accessibilityLabel = getMoodItemLabel(
       mood.mood,
@@ -438,6 +444,20 @@ export const DisplayMoodItem = React.memo(function DisplayMoodItem(
                             Energy {mood.energy}/10
                           </Text>
                         ) : null}
+                        {voiceMemoLabel ? (
+                          <Text className="text-[10px]" style={{ color: get("textMuted") }}>
+                            {voiceMemoLabel}
+                          </Text>
+                        ) : null}
+                        {mood.location ? (
+                          <Text
+                            className="text-[10px]"
+                            style={{ color: get("textMuted") }}
+                            numberOfLines={1}
+                          >
+                            {mood.location.name}
+                          </Text>
+                        ) : null}
                       </View>
 
                       <Pressable
@@ -455,6 +475,12 @@ export const DisplayMoodItem = React.memo(function DisplayMoodItem(
                     </View>
 
                     <CommentBlock note={mood.note} get={get} variant="compact" />
+
+                    {mood.photos.length > 0 && (
+                      <View className="mt-3">
+                        <PhotoThumbnailStrip photos={mood.photos} size={44} maxVisible={4} />
+                      </View>
+                    )}
                   </View>
                 ) : (
                   <View className="p-4">
@@ -500,10 +526,18 @@ export const DisplayMoodItem = React.memo(function DisplayMoodItem(
                     <Text className="mb-3 text-xs" style={{ color: get("textMuted") }}>
                       {formattedDate}
                       {typeof mood.energy === "number" ? ` · Energy ${mood.energy}/10` : ""}
+                      {voiceMemoLabel ? ` · ${voiceMemoLabel}` : ""}
+                      {mood.location ? ` · ${mood.location.name}` : ""}
                     </Text>
 
                     <CommentBlock note={mood.note} get={get} variant="minimal" />
 
+                    {mood.photos.length > 0 && (
+                      <View className="mb-3">
+                        <PhotoThumbnailStrip photos={mood.photos} size={56} maxVisible={4} />
+                      </View>
+                    )}
+
                     {(sortedEmotions.length > 0 || (mood.contextTags?.length ?? 0) > 0) && (
                       <View className="flex-row flex-wrap gap-2">
                         {sortedEmotions.map((emotion) => {
@@ -26,15 +26,25 @@ import {
 import { HapticTab } from "./HapticTab";
 import { useThemeColors, colors } from "@/constants/colors";
 import { typography } from "@/constants/typography";
-import type { Emotion, MoodEntry } from "../../db/types";
+import type { Emotion, MoodEntry, MoodLocation, MoodPhoto, MoodVoiceMemo } from "../../db/types";
 import { SameAsYesterdayButton } from "./entry";
 import { EmotionPicker } from "./entry/EmotionPicker";
 import { EnergySlider } from "./entry/EnergySlider";
+import { PhotoThumbnailStrip } from "./entry/PhotoThumbnailStrip";
+import { VoiceMemoList } from "./entry/VoiceMemoList";
+import { VoiceMemoRecorder } from "./entry/VoiceMemoRecorder";
+import { LocationPicker } from "./entry/LocationPicker";
+import {
+    MAX_PHOTOS_PER_ENTRY,
+    photoAttachmentService,
+} from "@/services/photoAttachmentService";
+import { MAX_VOICE_MEMOS_PER_ENTRY } from "@/services/voiceMemoService";
 import {
     getMoodButtonLabel,
     BUTTON_HINTS,
 } from "@/constants/accessibility";
 import { haptics } from "@/lib/haptics";
+import { useSettingsStore } from "@/shared/state/settingsStore";
 import { shouldOfferCrisisSupport } from "@/lib/crisisSupport";
 import { showCrisisSupportAlert } from "@/lib/showCrisisSupportAlert";
 import {
@@ -129,6 +139,8 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
 }) => {
     const { isDark, get } = useThemeColors();
     const { height: windowHeight } = useWindowDimensions();
+    const locationTaggingEnabled = useSettingsStore((state) => state.locationTaggingEnabled);
+    const savedPlaces = useSettingsStore((state) => state.savedPlaces);
     const pagerRef = useRef<PagerView>(null);
     const scrollViewRef = useRef<ScrollView>(null);
     const notesFocusedRef = useRef(false);
@@ -141,6 +153,11 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
     const [contextTags, setContextTags] = useState<string[]>([]);
     const [energy, setEnergy] = useState<number | null>(null);
     const [note, setNote] = useState("");
+    const [photos, setPhotos] = useState<MoodPhoto[]>([]);
+    const [isAddingPhotos, setIsAddingPhotos] = useState(false);
+    const [voiceMemos, setVoiceMemos] = useState<MoodVoiceMemo[]>([]);
+    const [isRecordingVoiceMemo, setIsRecordingVoiceMemo] = useState(false);
+    const [location, setLocation] = useState<MoodLocation | null>(null);
     const [basedOnEntryId, setBasedOnEntryId] = useState<number | null>(null);
     const [isSaving, setIsSaving] = useState(false);
     const [keyboardHeight, setKeyboardHeight] = useState(0);
@@ -255,9 +272,30 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
     );
     const isDirty = useMemo(
         () =>
-            JSON.stringify({ mood, emotions, contextTags, energy, note, basedOnEntryId }) !==
-            JSON.stringify(initialDraft),
-        [basedOnEntryId, contextTags, emotions, energy, initialDraft, mood, note]
+            JSON.stringify({
+                mood,
+                emotions,
+                contextTags,
+                energy,
+                note,
+                photos,
+                voiceMemos,
+                location,
+                basedOnEntryId,
+            }) !== JSON.stringify(initialDraft) || isRecordingVoiceMemo,
+        [
+            basedOnEntryId,
+            contextTags,
+            emotions,
+            energy,
+            initialDraft,
+            isRecordingVoiceMemo,
+            location,
+            mood,
+            note,
+            photos,
+            voiceMemos,
+        ]
     );
 
     // ── Reset on open
@@ -269,6 +307,11 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
             setContextTags(draft.contextTags);
             setEnergy(draft.energy);
             setNote(draft.note);
+            setPhotos(draft.photos);
+            setIsAddingPhotos(false);
+            setVoiceMemos(draft.voiceMemos);
+            setIsRecordingVoiceMemo(false);
+            setLocation(draft.location);
             setBasedOnEntryId(draft.basedOnEntryId);
             setIsSaving(false);
             setCurrentStep(0);
@@ -300,11 +343,25 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
     // ── Save
     const handleSave = useCallback(async () => {
         if (isSaving) return;
+        if (isRecordingVoiceMemo) {
+            Alert.alert("Recording in progress", "Stop the voice memo before saving your entry.");
+            return;
+        }
         setIsSaving(true);
         try {
             await onSubmit(
                 buildMoodEntrySubmitValues(
-                    { mood, emotions, contextTags, energy, note, basedOnEntryId },
+                    {
+                        mood,
+                        emotions,
+                        contextTags,
+                        energy,
+                        note,
+                        photos,
+                        voiceMemos,
+                        location,
+                        basedOnEntryId,
+                    },
                     fieldConfig
                 )
             );
@@ -329,11 +386,15 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
         emotions,
         energy,
         fieldConfig,
+        isRecordingVoiceMemo,
         isSaving,
+        location,
         mood,
         note,
         onClose,
         onSubmit,
+        photos,
+        voiceMemos,
     ]);
 
     const handleNext = useCallback(() => {
@@ -397,6 +458,8 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
         setContextTags(entry.contextTags);
         setEnergy(entry.energy);
         setNote(entry.note ?? "");
+        // Photos and voice memos stay with the original entry; sharing files
+        // between entries would let one entry's edit delete the other's media.
         setBasedOnEntryId(entry.id);
     };
 
@@ -410,6 +473,43 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
         [scrollNotesIntoView]
     );
 
+    const handleAddPhotos = useCallback(async () => {
+        if (isAddingPhotos) return;
+        setIsAddingPhotos(true);
+        try {
+            const picked = await photoAttachmentService.pick(
+                MAX_PHOTOS_PER_ENTRY - photos.length
+            );
+            if (picked.length > 0) {
+                setPhotos((current) =>
+                    [...current, ...picked].slice(0, MAX_PHOTOS_PER_ENTRY)
+                );
+                haptics.light();
+            }
+        } catch (error) {
+            console.error("Failed to attach photos:", error);
+            haptics.error();
+            Alert.alert("Photo not added", "That image could not be attached. Please try another one.");
+        } finally {
+            setIsAddingPhotos(false);
+        }
+    }, [isAddingPhotos, photos.length]);
+
+    const handleRemovePhoto = useCallback((photo: MoodPhoto) => {
+        setPhotos((current) => current.filter((item) => item.id !== photo.id));
+        haptics.light();
+    }, []);
+
+    const handleVoiceMemoRecorded = useCallback((memo: MoodVoiceMemo) => {
+        setVoiceMemos((current) => [...current, memo].slice(0, MAX_VOICE_MEMOS_PER_ENTRY));
+        haptics.light();
+    }, []);
+
+    const handleRemoveVoiceMemo = useCallback((memo: MoodVoiceMemo) => {
+        setVoiceMemos((current) => current.filter((item) => item.id !== memo.id));
+        haptics.light();
+    }, []);
+
     const toggleContext = useCallback((value: string) => {
         setContextTags((prev) =>
             prev.includes(value)
@@ -1143,6 +1243,105 @@ const BaseMoodEntryModal: React.FC<BaseMoodEntryModalProps> = ({
                     </>
                 )}
 
+                {/* Photos */}
+                {!isNotesKeyboardActive && (
+                    <>
+                        {(showContextInDetails || fieldConfig.energy || fieldConfig.notes) && (
+                            <Separator isDark={isDark} />
+                        )}
+                        <View>
+                            <SectionLabel
+                                label="Photos"
+                                isDark={isDark}
+                                badge={
+                                    photos.length > 0
+                                        ? `${photos.length}/${MAX_PHOTOS_PER_ENTRY}`
+                                        : undefined
+                                }
+                            />
+                            <PhotoThumbnailStrip
+                                photos={photos}
+                                size={72}
+                                onRemove={handleRemovePhoto}
+                                trailing={
+                                    photos.length < MAX_PHOTOS_PER_ENTRY ? (
+                                        <Pressable
+                                            onPress={() => {
+                                                void handleAddPhotos();
+                                            }}
+                                            disabled={isAddingPhotos}
+                                            className="items-center justify-center rounded-xl"
+                                            style={{
+                                                width: 72,
+                                                height: 72,
+                                                borderWidth: 1,
+                                                borderStyle: "dashed",
+                                                borderColor: isDark
+                                                    ? "rgba(61, 53, 42, 0.6)"
+                                                    : "rgba(180, 160, 130, 0.6)",
+                                                opacity: isAddingPhotos ? 0.5 : 1,
+                                            }}
+                                            accessibilityRole="button"
+                                            accessibilityLabel="Add photo"
+                                            accessibilityState={{ disabled: isAddingPhotos }}
+                                        >
+                                            <Ionicons
+                                                name={isAddingPhotos ? "hourglass" : "image-outline"}
+                                                size={22}
+                                                color={get("textMuted")}
+                                            />
+                                        </Pressable>
+                                    ) : undefined
+                                }
+                            />
+                        </View>
+                    </>
+                )}
+
+                {/* Voice memos: kept mounted while recording so focusing notes does not cut it off */}
+                {(!isNotesKeyboardActive || isRecordingVoiceMemo) && (
+                    <>
+                        <Separator isDark={isDark} />
+                        <View>
+                            <SectionLabel
+                                label="Voice memos"
+                                isDark={isDark}
+                                badge={
+                                    voiceMemos.length > 0
+                                        ? `${voiceMemos.length}/${MAX_VOICE_MEMOS_PER_ENTRY}`
+                                        : undefined
+                                }
+                            />
+                            <View style={{ gap: 8 }}>
+                                <VoiceMemoList memos={voiceMemos} onRemove={handleRemoveVoiceMemo} />
+                                {voiceMemos.length < MAX_VOICE_MEMOS_PER_ENTRY && (
+                                    <VoiceMemoRecorder
+                                        disabled={isSaving}
+                                        onRecorded={handleVoiceMemoRecorded}
+                                        onRecordingChange={setIsRecordingVoiceMemo}
+                                    />
+                                )}
+                            </View>
+                        </View>
+                    </>
+                )}
+
+                {/* Location: opt-in, or shown when editing an entry that already has one */}
+                {!isNotesKeyboardActive && (locationTaggingEnabled || location !== null) && (
+                    <>
+                        <Separator isDark={isDark} />
+                        <View>
+                            <SectionLabel label="Location" isDark={isDark} />
+                            <LocationPicker
+                                value={location}
+                                savedPlaces={savedPlaces}
+                                disabled={isSaving}
+                                onChange={setLocation}
+                            />
+                        </View>
+                    </>
+                )}
+
             </View>
         );
     };
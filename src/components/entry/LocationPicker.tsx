@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Pressable, Text, TextInput, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { MoodLocation } from "@db/types";
+import { useThemeColors, colors } from "@/constants/colors";
+import { Alert } from "@/components/ui/AppAlert";
+import { haptics } from "@/lib/haptics";
+import {
+  MAX_PLACE_NAME_LENGTH,
+  findNearestSavedPlace,
+  formatCoordinates,
+  toMoodLocationFromPlace,
+  type Coordinates,
+  type SavedPlace,
+} from "@/lib/location";
+import { locationService } from "@/services/locationService";
+
+interface LocationPickerProps {
+  value: MoodLocation | null;
+  savedPlaces: SavedPlace[];
+  disabled?: boolean;
+  onChange: (location: MoodLocation | null) => void;
+}
+
+/**
+ * Picks a saved place or names the current spot. The device position is only
+ * used to suggest the nearest saved place or to attach rounded coordinates to
+ * a name the user types; it is never looked up online.
+ */
+export function LocationPicker({ value, savedPlaces, disabled = false, onChange }: LocationPickerProps) {
+  const { isDark, get } = useThemeColors();
+  const [customName, setCustomName] = useState("");
+  const [pendingCoordinates, setPendingCoordinates] = useState<Coordinates | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const sandBg = isDark ? colors.sand.bg.dark : colors.sand.bg.light;
+  const sandText = isDark ? colors.sand.text.dark : colors.sand.text.light;
+  const sandBorder = isDark ? colors.sand.border.dark : colors.sand.border.light;
+
+  const handleLocate = async () => {
+    setIsLocating(true);
+    try {
+      const granted = await locationService.requestPermission();
+      if (!granted) {
+        Alert.alert(
+          "Location access needed",
+          "Allow location access in your device settings, or pick a saved place instead."
+        );
+        return;
+      }
+      const coordinates = await locationService.getCoarsePosition();
+      const nearest = findNearestSavedPlace(savedPlaces, coordinates);
+      if (nearest) {
+        onChange(toMoodLocationFromPlace(nearest));
+        setPendingCoordinates(null);
+        haptics.light();
+        return;
+      }
+      setPendingCoordinates(coordinates);
+    } catch (error) {
+      console.error("Failed to read approximate position:", error);
+      Alert.alert("Position unavailable", "Your approximate position could not be read.");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleSetCustom = () => {
+    const name = customName.trim();
+    if (!name) return;
+    onChange({
+      name,
+      latitude: pendingCoordinates?.latitude ?? null,
+      longitude: pendingCoordinates?.longitude ?? null,
+      placeId: null,
+    });
+    setCustomName("");
+    setPendingCoordinates(null);
+    haptics.light();
+  };
+
+  if (value) {
+    const coordinates = formatCoordinates(value);
+    return (
+      <View
+        className="flex-row items-center rounded-xl px-3 py-2.5"
+        style={{ backgroundColor: get("surfaceAlt") }}
+      >
+        <Ionicons name="location" size={18} color={get("primary")} />
+        <View className="flex-1 ml-2 mr-3">
+          <Text className="text-sm font-medium" style={{ color: get("text") }}>
+            {value.name}
+          </Text>
+          {coordinates && (
+            <Text className="text-xs" style={{ color: get("textSubtle") }}>
+              Approx. {coordinates}
+            </Text>
+          )}
+        </View>
+        <Pressable
+          onPress={() => {
+            onChange(null);
+            haptics.light();
+          }}
+          disabled={disabled}
+          hitSlop={6}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove location ${value.name}`}
+        >
+          <Ionicons name="close-circle" size={20} color={get("textMuted")} />
+        </Pressable>
+      </View>
+    );
+  }
+
+  const formattedPending = pendingCoordinates ? formatCoordinates(pendingCoordinates) : null;
+
+  return (
+    <View style={{ gap: 10 }}>
+      {savedPlaces.length > 0 && (
+        <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+          {savedPlaces.map((place) => (
+            <Pressable
+              key={place.id}
+              onPress={() => {
+                onChange(toMoodLocationFromPlace(place));
+                haptics.light();
+              }}
+              disabled={disabled}
+              className="flex-row items-center px-3 py-2 rounded-xl"
+              style={{ backgroundColor: sandBg, borderWidth: 1, borderColor: sandBorder }}
+              accessibilityRole="button"
+              accessibilityLabel={`Place: ${place.name}`}
+            >
+              <Ionicons name="location-outline" size={13} color={sandText} />
+              <Text className="ml-1 text-sm font-medium" style={{ color: sandText }}>
+                {place.name}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      <View className="flex-row items-center" style={{ gap: 8 }}>
+        <TextInput
+          value={customName}
+          onChangeText={setCustomName}
+          placeholder={formattedPending ? "Name this spot" : "Other place"}
+          placeholderTextColor={get("textSubtle")}
+          maxLength={MAX_PLACE_NAME_LENGTH}
+          editable={!disabled}
+          returnKeyType="done"
+          onSubmitEditing={handleSetCustom}
+          className="flex-1 rounded-xl px-3 py-2.5 text-sm"
+          style={{ backgroundColor: get("surfaceAlt"), color: get("text") }}
+          accessibilityLabel="Place name"
+        />
+        <Pressable
+          onPress={() => {
+            void handleLocate();
+          }}
+          disabled={disabled || isLocating}
+          className="w-10 h-10 rounded-xl items-center justify-center"
+          style={{
+            backgroundColor: pendingCoordinates ? get("primaryBg") : get("surfaceAlt"),
+            opacity: disabled || isLocating ? 0.5 : 1,
+          }}
+          accessibilityRole="button"
+          accessibilityLabel="Use approximate position"
+        >
+          {isLocating ? (
+            <ActivityIndicator size="small" color={get("primary")} />
+          ) : (
+            <Ionicons
+              name={pendingCoordinates ? "navigate" : "navigate-outline"}
+              size={18}
+              color={pendingCoordinates ? get("primary") : get("textMuted")}
+            />
+          )}
+        </Pressable>
+        {customName.trim().length > 0 && (
+          <Pressable
+            onPress={handleSetCustom}
+            disabled={disabled}
+            className="w-10 h-10 rounded-xl items-center justify-center"
+            style={{ backgroundColor: get("primary") }}
+            accessibilityRole="button"
+            accessibilityLabel="Set place"
+          >
+            <Ionicons name="checkmark" size={18} color={get("onPrimary")} />
+          </Pressable>
+        )}
+      </View>
+
+      {formattedPending && (
+        <Text className="text-xs" style={{ color: get("textSubtle") }}>
+          No saved place nearby. Name this spot to tag it at approx. {formattedPending}.
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import {
+  Image,
+  Modal,
+  Pressable,
+  ScrollView,
+  Text,
+  View,
+  useWindowDimensions,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { MoodPhoto } from "@db/types";
+import { useThemeColors, colors } from "@/constants/colors";
+import { photoAttachmentService } from "@/services/photoAttachmentService";
+
+interface PhotoThumbnailStripProps {
+  photos: MoodPhoto[];
+  size?: number;
+  /** Shows a remove badge on each thumbnail when provided. */
+  onRemove?: (photo: MoodPhoto) => void;
+  /** Opens the full-size image in a viewer when enabled. */
+  expandable?: boolean;
+  trailing?: React.ReactNode;
+  /**
+   * Renders a fixed row with a "+N" tile instead of a horizontal scroller,
+   * for places like swipeable list rows where a nested scroll would fight
+   * the row gesture.
+   */
+  maxVisible?: number;
+}
+
+function PhotoViewer({
+  photo,
+  onClose,
+}: {
+  photo: MoodPhoto | null;
+  onClose: () => void;
+}) {
+  const { width, height } = useWindowDimensions();
+  if (!photo) {
+    return null;
+  }
+
+  const scale = Math.min(width / photo.width, (height * 0.8) / photo.height, 1);
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable
+        onPress={onClose}
+        className="flex-1 items-center justify-center"
+        style={{ backgroundColor: "rgba(0,0,0,0.92)" }}
+        accessibilityRole="button"
+        accessibilityLabel="Close photo"
+      >
+        <Image
+          source={{ uri: photoAttachmentService.getUri(photo) }}
+          style={{ width: photo.width * scale, height: photo.height * scale }}
+          resizeMode="contain"
+          accessibilityIgnoresInvertColors
+        />
+      </Pressable>
+    </Modal>
+  );
+}
+
+export function PhotoThumbnailStrip({
+  photos,
+  size = 56,
+  onRemove,
+  expandable = false,
+  trailing,
+  maxVisible,
+}: PhotoThumbnailStripProps) {
+  const { isDark, get } = useThemeColors();
+  const [viewing, setViewing] = useState<MoodPhoto | null>(null);
+
+  if (photos.length === 0 && !trailing) {
+    return null;
+  }
+
+  if (maxVisible !== undefined) {
+    const visible = photos.slice(0, maxVisible);
+    const hiddenCount = photos.length - visible.length;
+
+    return (
+      <View
+        className="flex-row"
+        style={{ gap: 6 }}
+        accessible
+        accessibilityLabel={`${photos.length} ${photos.length === 1 ? "photo" : "photos"} attached`}
+      >
+        {visible.map((photo) => (
+          <Image
+            key={photo.id}
+            source={{ uri: photoAttachmentService.getThumbnailUri(photo) }}
+            style={{
+              width: size,
+              height: size,
+              borderRadius: 8,
+              backgroundColor: get("surfaceAlt"),
+            }}
+            resizeMode="cover"
+            accessibilityIgnoresInvertColors
+          />
+        ))}
+        {hiddenCount > 0 && (
+          <View
+            className="items-center justify-center"
+            style={{
+              width: size,
+              height: size,
+              borderRadius: 8,
+              backgroundColor: get("surfaceAlt"),
+            }}
+          >
+            <Text className="text-xs font-semibold" style={{ color: get("textMuted") }}>
+              +{hiddenCount}
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={{ gap: 8 }}
+      >
+        {photos.map((photo, index) => (
+          <View key={photo.id}>
+            <Pressable
+              onPress={expandable ? () => setViewing(photo) : undefined}
+              disabled={!expandable}
+              accessibilityRole={expandable ? "imagebutton" : "image"}
+              accessibilityLabel={`Photo ${index + 1} of ${photos.length}`}
+            >
+              <Image
+                source={{ uri: photoAttachmentService.getThumbnailUri(photo) }}
+                style={{
+                  width: size,
+                  height: size,
+                  borderRadius: 10,
+                  backgroundColor: get("surfaceAlt"),
+                }}
+                resizeMode="cover"
+                accessibilityIgnoresInvertColors
+              />
+            </Pressable>
+            {onRemove && (
+              <Pressable
+                onPress={() => onRemove(photo)}
+                className="absolute items-center justify-center rounded-full"
+                style={{
+                  top: -6,
+                  right: -6,
+                  width: 22,
+                  height: 22,
+                  backgroundColor: isDark
+                    ? colors.negative.bgSelected.dark
+                    : colors.negative.bgSelected.light,
+                }}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove photo ${index + 1}`}
+              >
+                <Ionicons
+                  name="close"
+                  size={13}
+                  color={isDark ? colors.negative.textSelected.dark : colors.negative.textSelected.light}
+                />
+              </Pressable>
+            )}
+          </View>
+        ))}
+        {trailing}
+      </ScrollView>
+      {expandable && <PhotoViewer photo={viewing} onClose={() => setViewing(null)} />}
+    </>
+  );
+}
@@ -0,0 +1,114 @@
+import React from "react";
+import { Pressable, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import type { MoodVoiceMemo } from "@db/types";
+import { useThemeColors, colors } from "@/constants/colors";
+import { formatVoiceMemoDuration, voiceMemoService } from "@/services/voiceMemoService";
+
+interface VoiceMemoListProps {
+  memos: MoodVoiceMemo[];
+  /** Shows a remove button on each memo when provided. */
+  onRemove?: (memo: MoodVoiceMemo) => void;
+}
+
+function VoiceMemoRow({
+  memo,
+  index,
+  onRemove,
+}: {
+  memo: MoodVoiceMemo;
+  index: number;
+  onRemove?: (memo: MoodVoiceMemo) => void;
+}) {
+  const { isDark, get } = useThemeColors();
+  const player = useAudioPlayer(voiceMemoService.getUri(memo));
+  const status = useAudioPlayerStatus(player);
+
+  const durationSeconds = status.duration > 0 ? status.duration : memo.durationMs / 1000;
+  const progress = durationSeconds > 0 ? Math.min(1, status.currentTime / durationSeconds) : 0;
+  const isAtEnd = status.didJustFinish || progress >= 1;
+
+  const togglePlayback = () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    if (isAtEnd) {
+      void player.seekTo(0);
+    }
+    player.play();
+  };
+
+  return (
+    <View
+      className="flex-row items-center rounded-xl px-3 py-2"
+      style={{ backgroundColor: get("surfaceAlt") }}
+    >
+      <Pressable
+        onPress={togglePlayback}
+        disabled={!status.isLoaded}
+        className="w-9 h-9 rounded-full items-center justify-center mr-3"
+        style={{ backgroundColor: get("primaryBg"), opacity: status.isLoaded ? 1 : 0.5 }}
+        accessibilityRole="button"
+        accessibilityLabel={`${status.playing ? "Pause" : "Play"} voice memo ${index + 1}`}
+      >
+        <Ionicons name={status.playing ? "pause" : "play"} size={16} color={get("primary")} />
+      </Pressable>
+      <View className="flex-1 mr-3">
+        <View
+          className="h-1.5 rounded-full overflow-hidden"
+          style={{ backgroundColor: get("borderSubtle") }}
+        >
+          <View
+            className="h-full rounded-full"
+            style={{ width: `${progress * 100}%`, backgroundColor: get("primary") }}
+          />
+        </View>
+      </View>
+      <Text
+        className="text-xs font-medium"
+        style={{ color: get("textSubtle"), fontVariant: ["tabular-nums"] }}
+      >
+        {status.playing || (progress > 0 && !isAtEnd)
+          ? formatVoiceMemoDuration(status.currentTime * 1000)
+          : formatVoiceMemoDuration(memo.durationMs)}
+      </Text>
+      {onRemove && (
+        <Pressable
+          onPress={() => {
+            player.pause();
+            onRemove(memo);
+          }}
+          className="ml-2 w-7 h-7 rounded-full items-center justify-center"
+          style={{
+            backgroundColor: isDark ? colors.negative.bg.dark : colors.negative.bg.light,
+          }}
+          hitSlop={6}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove voice memo ${index + 1}`}
+        >
+          <Ionicons
+            name="trash-outline"
+            size={13}
+            color={isDark ? colors.negative.text.dark : colors.negative.text.light}
+          />
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+export function VoiceMemoList({ memos, onRemove }: VoiceMemoListProps) {
+  if (memos.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={{ gap: 8 }}>
+      {memos.map((memo, index) => (
+        <VoiceMemoRow key={memo.id} memo={memo} index={index} onRemove={onRemove} />
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Alert, Pressable, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAudioRecorder, useAudioRecorderState } from "expo-audio";
+import type { MoodVoiceMemo } from "@db/types";
+import { useThemeColors, colors } from "@/constants/colors";
+import {
+  MAX_VOICE_MEMO_DURATION_MS,
+  VOICE_MEMO_RECORDING_OPTIONS,
+  formatVoiceMemoDuration,
+  voiceMemoService,
+} from "@/services/voiceMemoService";
+
+// Shorter recordings are almost always accidental taps.
+const MIN_VOICE_MEMO_DURATION_MS = 1000;
+
+interface VoiceMemoRecorderProps {
+  disabled?: boolean;
+  onRecorded: (memo: MoodVoiceMemo) => void;
+  onRecordingChange?: (isRecording: boolean) => void;
+}
+
+export function VoiceMemoRecorder({
+  disabled = false,
+  onRecorded,
+  onRecordingChange,
+}: VoiceMemoRecorderProps) {
+  const { isDark, get } = useThemeColors();
+  const recorder = useAudioRecorder(VOICE_MEMO_RECORDING_OPTIONS);
+  const recorderState = useAudioRecorderState(recorder, 250);
+  const [isBusy, setIsBusy] = useState(false);
+  const isRecording = recorderState.isRecording;
+  const durationMs = recorderState.durationMillis;
+
+  const isRecordingRef = useRef(false);
+
+  useEffect(() => {
+    isRecordingRef.current = isRecording;
+    onRecordingChange?.(isRecording);
+  }, [isRecording, onRecordingChange]);
+
+  // The recorder is released on unmount; an unfinished recording is dropped
+  // with it, but the audio session still needs to leave recording mode.
+  useEffect(
+    () => () => {
+      if (isRecordingRef.current) {
+        void voiceMemoService.endRecordingSession().catch(() => {});
+      }
+    },
+    []
+  );
+
+  const startRecording = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      const granted = await voiceMemoService.requestPermission();
+      if (!granted) {
+        Alert.alert(
+          "Microphone access needed",
+          "Allow microphone access in your device settings to record voice memos."
+        );
+        return;
+      }
+      await voiceMemoService.beginRecordingSession();
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+    } catch (error) {
+      console.error("Failed to start voice memo recording:", error);
+      Alert.alert("Recording failed", "The voice memo could not be started. Please try again.");
+      await voiceMemoService.endRecordingSession().catch(() => {});
+    } finally {
+      setIsBusy(false);
+    }
+  }, [recorder]);
+
+  const stopRecording = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      await recorder.stop();
+      const uri = recorder.uri;
+      if (!uri) {
+        return;
+      }
+      if (durationMs < MIN_VOICE_MEMO_DURATION_MS) {
+        await voiceMemoService.discard(uri);
+        return;
+      }
+      onRecorded(await voiceMemoService.save(uri, durationMs));
+    } catch (error) {
+      console.error("Failed to save voice memo:", error);
+      Alert.alert("Voice memo not saved", "The recording could not be saved. Please try again.");
+    } finally {
+      await voiceMemoService.endRecordingSession().catch(() => {});
+      setIsBusy(false);
+    }
+  }, [durationMs, onRecorded, recorder]);
+
+  // Stop automatically at the length limit.
+  useEffect(() => {
+    if (isRecording && !isBusy && durationMs >= MAX_VOICE_MEMO_DURATION_MS) {
+      void stopRecording();
+    }
+  }, [durationMs, isBusy, isRecording, stopRecording]);
+
+  const negativeBg = isDark ? colors.negative.bg.dark : colors.negative.bg.light;
+  const negativeText = isDark ? colors.negative.text.dark : colors.negative.text.light;
+
+  if (isRecording) {
+    return (
+      <Pressable
+        onPress={() => {
+          void stopRecording();
+        }}
+        disabled={isBusy}
+        className="flex-row items-center rounded-xl px-3 py-2.5"
+        style={{ backgroundColor: negativeBg }}
+        accessibilityRole="button"
+        accessibilityLabel="Stop recording"
+      >
+        <View className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: negativeText }} />
+        <Text
+          className="flex-1 text-sm font-medium"
+          style={{ color: negativeText, fontVariant: ["tabular-nums"] }}
+        >
+          {formatVoiceMemoDuration(durationMs)} /{" "}
+          {formatVoiceMemoDuration(MAX_VOICE_MEMO_DURATION_MS)}
+        </Text>
+        <Ionicons name="stop" size={16} color={negativeText} />
+      </Pressable>
+    );
+  }
+
+  return (
+    <Pressable
+      onPress={() => {
+        void startRecording();
+      }}
+      disabled={disabled || isBusy}
+      className="flex-row items-center justify-center rounded-xl py-2.5"
+      style={{
+        borderWidth: 1,
+        borderStyle: "dashed",
+        borderColor: isDark ? "rgba(61, 53, 42, 0.6)" : "rgba(180, 160, 130, 0.6)",
+        opacity: disabled || isBusy ? 0.5 : 1,
+      }}
+      accessibilityRole="button"
+      accessibilityLabel="Record voice memo"
+      accessibilityState={{ disabled: disabled || isBusy }}
+    >
+      <Ionicons name="mic-outline" size={18} color={get("textMuted")} />
+      <Text className="ml-2 text-sm font-medium" style={{ color: get("textMuted") }}>
+        Record voice memo
+      </Text>
+    </Pressable>
+  );
+}
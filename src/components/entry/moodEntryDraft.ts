@@ -1,4 +1,4 @@
-import type { Emotion } from "@db/types";
+import type { Emotion, MoodLocation, MoodPhoto, MoodVoiceMemo } from "@db/types";
 
 export type MoodEntryFormValues = {
   mood: number;
@@ -6,6 +6,9 @@ export type MoodEntryFormValues = {
   contextTags: string[];
   energy: number | null;
   note: string;
+  photos: MoodPhoto[];
+  voiceMemos: MoodVoiceMemo[];
+  location: MoodLocation | null;
   basedOnEntryId: number | null;
 };
 
@@ -81,6 +84,9 @@ export function createMoodEntryFormValues(
         ? initialValues.energy
         : null,
     note: initialValues?.note ?? "",
+    photos: initialValues?.photos ?? [],
+    voiceMemos: initialValues?.voiceMemos ?? [],
+    location: initialValues?.location ?? null,
     basedOnEntryId: initialValues?.basedOnEntryId ?? null,
   };
 }
@@ -95,6 +101,9 @@ export function buildMoodEntrySubmitValues(
     contextTags: fieldConfig.context ? values.contextTags : [],
     energy: fieldConfig.energy ? values.energy : null,
     note: fieldConfig.notes ? values.note.trim() : "",
+    photos: values.photos,
+    voiceMemos: values.voiceMemos,
+    location: values.location,
     basedOnEntryId: values.basedOnEntryId,
   };
 }
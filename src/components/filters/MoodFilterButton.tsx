@@ -0,0 +1,45 @@
+import React from "react";
+import { Pressable, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useThemeColors } from "@/constants/colors";
+
+interface MoodFilterButtonProps {
+  activeCount: number;
+  onPress: () => void;
+}
+
+/**
+ * Opens the filter sheet. Shows how many criteria are active.
+ */
+export function MoodFilterButton({ activeCount, onPress }: MoodFilterButtonProps) {
+  const { get } = useThemeColors();
+  const active = activeCount > 0;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      className="w-10 h-10 rounded-xl items-center justify-center"
+      style={{ backgroundColor: active ? get("primaryBg") : get("surfaceAlt") }}
+      accessibilityRole="button"
+      accessibilityLabel={active ? `Filters, ${activeCount} active` : "Filters"}
+    >
+      <Ionicons
+        name={active ? "funnel" : "funnel-outline"}
+        size={17}
+        color={active ? get("primary") : get("textMuted")}
+      />
+      {active && (
+        <View
+          className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full items-center justify-center"
+          style={{ backgroundColor: get("primary") }}
+        >
+          <Text className="text-[10px] font-bold" style={{ color: get("onPrimary") }}>
+            {activeCount}
+          </Text>
+        </View>
+      )}
+    </Pressable>
+  );
+}
+
+export default MoodFilterButton;
@@ -0,0 +1,454 @@
+import React, { useEffect, useState } from "react";
+import { Modal, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useThemeColors, colors } from "@/constants/colors";
+import { haptics } from "@/lib/haptics";
+import {
+  MOOD_QUERY_VALUE_MAX,
+  MOOD_QUERY_VALUE_MIN,
+  TIME_OF_DAY_PRESETS,
+  normalizeMoodQuery,
+  type MoodQuery,
+  type MoodQueryBounds,
+  type MoodQueryMatch,
+} from "@/lib/moodQuery";
+import {
+  MAX_VIEW_NAME_LENGTH,
+  normalizeSavedViewQuery,
+} from "@/lib/savedViews";
+import { isMoodQueryEmpty } from "@/lib/moodQuery";
+import type { MoodRangePreset } from "@db/moods/range";
+import { useSettingsStore } from "@/shared/state/settingsStore";
+
+const DATE_PRESETS: { id: MoodRangePreset; label: string }[] = [
+  { id: "week", label: "Last 7 days" },
+  { id: "twoWeeks", label: "Last 14 days" },
+  { id: "month", label: "Last 30 days" },
+];
+
+const NOTE_OPTIONS: { id: MoodQuery["note"]; label: string }[] = [
+  { id: undefined, label: "Any" },
+  { id: "with", label: "With note" },
+  { id: "without", label: "No note" },
+];
+
+interface MoodFilterSheetProps {
+  visible: boolean;
+  value: MoodQuery;
+  onApply: (query: MoodQuery) => void;
+  onClose: () => void;
+  /** Insights navigates by period itself, so it hides the date presets. */
+  showDateRange?: boolean;
+  /** When set, the sheet offers to store the draft as a named saved view. */
+  onSaveView?: (name: string, query: MoodQuery) => void;
+}
+
+function SectionTitle({ children }: { children: string }) {
+  const { get } = useThemeColors();
+  return (
+    <Text className="text-sm font-semibold mb-2" style={{ color: get("text") }}>
+      {children}
+    </Text>
+  );
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  const { get } = useThemeColors();
+  return (
+    <Pressable
+      onPress={() => {
+        haptics.selection();
+        onPress();
+      }}
+      className="px-3 py-1.5 rounded-xl"
+      style={{
+        backgroundColor: selected ? get("primary") : get("surfaceAlt"),
+        borderWidth: 1,
+        borderColor: selected ? get("primary") : get("borderSubtle"),
+      }}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      accessibilityLabel={label}
+    >
+      <Text
+        className="text-sm font-medium"
+        style={{ color: selected ? get("onPrimary") : get("textMuted") }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function MatchToggle({
+  value,
+  onChange,
+}: {
+  value: MoodQueryMatch;
+  onChange: (value: MoodQueryMatch) => void;
+}) {
+  return (
+    <View className="flex-row" style={{ gap: 6 }}>
+      <Chip label="Any of" selected={value === "any"} onPress={() => onChange("any")} />
+      <Chip label="All of" selected={value === "all"} onPress={() => onChange("all")} />
+    </View>
+  );
+}
+
+function Stepper({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  const { get } = useThemeColors();
+  const canDecrease = value > MOOD_QUERY_VALUE_MIN;
+  const canIncrease = value < MOOD_QUERY_VALUE_MAX;
+
+  return (
+    <View className="flex-1 flex-row items-center rounded-xl px-2 py-1.5" style={{ backgroundColor: get("surfaceAlt") }}>
+      <Text className="text-xs mr-auto" style={{ color: get("textSubtle") }}>
+        {label}
+      </Text>
+      <Pressable
+        onPress={() => onChange(value - 1)}
+        disabled={!canDecrease}
+        hitSlop={6}
+        style={{ opacity: canDecrease ? 1 : 0.35 }}
+        accessibilityRole="button"
+        accessibilityLabel={`Decrease ${label.toLowerCase()}`}
+      >
+        <Ionicons name="remove-circle-outline" size={22} color={get("primary")} />
+      </Pressable>
+      <Text className="w-7 text-center text-base font-semibold" style={{ color: get("text") }}>
+        {value}
+      </Text>
+      <Pressable
+        onPress={() => onChange(value + 1)}
+        disabled={!canIncrease}
+        hitSlop={6}
+        style={{ opacity: canIncrease ? 1 : 0.35 }}
+        accessibilityRole="button"
+        accessibilityLabel={`Increase ${label.toLowerCase()}`}
+      >
+        <Ionicons name="add-circle-outline" size={22} color={get("primary")} />
+      </Pressable>
+    </View>
+  );
+}
+
+function BoundsEditor({
+  value,
+  onChange,
+}: {
+  value: MoodQueryBounds | undefined;
+  onChange: (value: MoodQueryBounds) => void;
+}) {
+  const min = value?.min ?? MOOD_QUERY_VALUE_MIN;
+  const max = value?.max ?? MOOD_QUERY_VALUE_MAX;
+  return (
+    <View className="flex-row" style={{ gap: 8 }}>
+      <Stepper label="From" value={min} onChange={(next) => onChange({ min: next, max: Math.max(next, max) })} />
+      <Stepper label="To" value={max} onChange={(next) => onChange({ min: Math.min(min, next), max: next })} />
+    </View>
+  );
+}
+
+/**
+ * Bottom sheet for building a `MoodQuery`. Edits a draft and only hands the
+ * normalized query back on Apply.
+ */
+export function MoodFilterSheet({
+  visible,
+  value,
+  onApply,
+  onClose,
+  showDateRange = true,
+  onSaveView,
+}: MoodFilterSheetProps) {
+  const { isDark, get } = useThemeColors();
+  const emotions = useSettingsStore((state) => state.emotions);
+  const contexts = useSettingsStore((state) => state.contexts);
+  const [draft, setDraft] = useState<MoodQuery>(value);
+  const [viewName, setViewName] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(value);
+      setViewName("");
+    }
+  }, [value, visible]);
+
+  const update = (patch: Partial<MoodQuery>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const isSelected = (list: string[], name: string) =>
+    list.some((item) => item.toLowerCase() === name.toLowerCase());
+  const toggleName = (list: string[], name: string) =>
+    isSelected(list, name)
+      ? list.filter((item) => item.toLowerCase() !== name.toLowerCase())
+      : [...list, name];
+
+  const selectedEmotions = draft.emotions?.names ?? [];
+  const emotionMatch = draft.emotions?.match ?? "any";
+  const selectedTags = draft.contextTags?.tags ?? [];
+  const tagMatch = draft.contextTags?.match ?? "any";
+  const activePreset = draft.dateRange && "preset" in draft.dateRange ? draft.dateRange.preset : null;
+  const activeTimeOfDay = TIME_OF_DAY_PRESETS.find(
+    (preset) =>
+      preset.range.startHour === draft.timeOfDay?.startHour &&
+      preset.range.endHour === draft.timeOfDay?.endHour
+  );
+  const canSaveView =
+    viewName.trim().length > 0 && !isMoodQueryEmpty(normalizeSavedViewQuery(draft));
+
+  const handleSaveView = () => {
+    if (!onSaveView || !canSaveView) return;
+    haptics.medium();
+    onSaveView(viewName.trim(), normalizeSavedViewQuery(draft));
+    onApply(normalizeMoodQuery(draft));
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+      accessibilityViewIsModal
+    >
+      <View className="flex-1 justify-end" style={{ backgroundColor: colors.overlay }}>
+        <View className="rounded-t-3xl max-h-[85%]" style={{ backgroundColor: get("background") }}>
+          <View
+            className="px-5 pt-4 pb-3"
+            style={{
+              borderBottomWidth: 1,
+              borderBottomColor: isDark ? "rgba(61, 53, 42, 0.3)" : "rgba(229, 217, 191, 0.5)",
+            }}
+          >
+            <View className="w-10 h-1 rounded-full self-center mb-4" style={{ backgroundColor: get("border") }} />
+            <View className="flex-row items-center justify-between">
+              <Text className="text-xl font-bold" style={{ color: get("text") }}>
+                Filter entries
+              </Text>
+              <Pressable
+                onPress={onClose}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel="Close filters"
+              >
+                <Ionicons name="close" size={22} color={get("textMuted")} />
+              </Pressable>
+            </View>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 20, gap: 20 }}>
+            {showDateRange && (
+              <View>
+                <SectionTitle>Date</SectionTitle>
+                <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+                  <Chip label="All time" selected={!draft.dateRange} onPress={() => update({ dateRange: undefined })} />
+                  {DATE_PRESETS.map((preset) => (
+                    <Chip
+                      key={preset.id}
+                      label={preset.label}
+                      selected={activePreset === preset.id}
+                      onPress={() => update({ dateRange: { preset: preset.id } })}
+                    />
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View>
+              <SectionTitle>Mood rating (0 best, 10 worst)</SectionTitle>
+              <BoundsEditor value={draft.mood} onChange={(mood) => update({ mood })} />
+            </View>
+
+            {emotions.length > 0 && (
+              <View>
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="text-sm font-semibold" style={{ color: get("text") }}>
+                    Emotions
+                  </Text>
+                  <MatchToggle
+                    value={emotionMatch}
+                    onChange={(match) => update({ emotions: { names: selectedEmotions, match } })}
+                  />
+                </View>
+                <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+                  {emotions.map((emotion) => (
+                    <Chip
+                      key={emotion.name}
+                      label={emotion.name}
+                      selected={isSelected(selectedEmotions, emotion.name)}
+                      onPress={() =>
+                        update({
+                          emotions: {
+                            names: toggleName(selectedEmotions, emotion.name),
+                            match: emotionMatch,
+                          },
+                        })
+                      }
+                    />
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {contexts.length > 0 && (
+              <View>
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="text-sm font-semibold" style={{ color: get("text") }}>
+                    Context tags
+                  </Text>
+                  <MatchToggle
+                    value={tagMatch}
+                    onChange={(match) => update({ contextTags: { tags: selectedTags, match } })}
+                  />
+                </View>
+                <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+                  {contexts.map((context) => (
+                    <Chip
+                      key={context}
+                      label={context}
+                      selected={isSelected(selectedTags, context)}
+                      onPress={() =>
+                        update({
+                          contextTags: { tags: toggleName(selectedTags, context), match: tagMatch },
+                        })
+                      }
+                    />
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View>
+              <SectionTitle>Energy</SectionTitle>
+              <BoundsEditor value={draft.energy} onChange={(energy) => update({ energy })} />
+            </View>
+
+            <View>
+              <SectionTitle>Notes</SectionTitle>
+              <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+                {NOTE_OPTIONS.map((option) => (
+                  <Chip
+                    key={option.label}
+                    label={option.label}
+                    selected={draft.note === option.id}
+                    onPress={() => update({ note: option.id })}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View>
+              <SectionTitle>Time of day</SectionTitle>
+              <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+                <Chip label="Any time" selected={!draft.timeOfDay} onPress={() => update({ timeOfDay: undefined })} />
+                {TIME_OF_DAY_PRESETS.map((preset) => (
+                  <Chip
+                    key={preset.id}
+                    label={preset.label}
+                    selected={activeTimeOfDay?.id === preset.id}
+                    onPress={() => update({ timeOfDay: preset.range })}
+                  />
+                ))}
+              </View>
+            </View>
+
+            {onSaveView && (
+              <View>
+                <SectionTitle>Save as view</SectionTitle>
+                <View className="flex-row items-center" style={{ gap: 8 }}>
+                  <TextInput
+                    value={viewName}
+                    onChangeText={setViewName}
+                    placeholder="e.g. Bad work days"
+                    placeholderTextColor={get("textSubtle")}
+                    maxLength={MAX_VIEW_NAME_LENGTH}
+                    returnKeyType="done"
+                    onSubmitEditing={handleSaveView}
+                    className="flex-1 rounded-xl px-3 py-2.5 text-base"
+                    style={{
+                      color: get("text"),
+                      backgroundColor: get("surfaceAlt"),
+                      borderWidth: 1,
+                      borderColor: get("borderSubtle"),
+                    }}
+                    accessibilityLabel="Saved view name"
+                  />
+                  <Pressable
+                    onPress={handleSaveView}
+                    disabled={!canSaveView}
+                    className="rounded-xl px-4 py-3"
+                    style={{
+                      backgroundColor: get("primaryBg"),
+                      opacity: canSaveView ? 1 : 0.5,
+                    }}
+                    accessibilityRole="button"
+                    accessibilityLabel="Save filters as a view"
+                    accessibilityState={{ disabled: !canSaveView }}
+                  >
+                    <Text className="text-sm font-semibold" style={{ color: get("primary") }}>
+                      Save
+                    </Text>
+                  </Pressable>
+                </View>
+                <Text className="text-xs mt-2" style={{ color: get("textSubtle") }}>
+                  Views keep every criterion except the date, and appear as chips above your history.
+                </Text>
+              </View>
+            )}
+          </ScrollView>
+
+          <View className="flex-row px-5 pt-3 pb-8" style={{ gap: 12 }}>
+            <Pressable
+              onPress={() => {
+                haptics.light();
+                setDraft({});
+              }}
+              className="flex-1 items-center justify-center rounded-xl py-3"
+              style={{ backgroundColor: get("surfaceAlt") }}
+              accessibilityRole="button"
+              accessibilityLabel="Clear all filters"
+            >
+              <Text className="text-base font-semibold" style={{ color: get("textMuted") }}>
+                Clear
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={() => {
+                haptics.medium();
+                onApply(normalizeMoodQuery(draft));
+                onClose();
+              }}
+              className="flex-1 items-center justify-center rounded-xl py-3"
+              style={{ backgroundColor: get("primary") }}
+              accessibilityRole="button"
+              accessibilityLabel="Apply filters"
+            >
+              <Text className="text-base font-semibold" style={{ color: get("onPrimary") }}>
+                Apply
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+export default MoodFilterSheet;
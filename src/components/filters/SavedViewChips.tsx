@@ -0,0 +1,76 @@
+import React from "react";
+import { Pressable, ScrollView, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useThemeColors } from "@/constants/colors";
+import { haptics } from "@/lib/haptics";
+import type { SavedFilterView } from "@/lib/savedViews";
+
+interface SavedViewChipsProps {
+  views: SavedFilterView[];
+  activeViewId: string | null;
+  onSelect: (view: SavedFilterView | null) => void;
+  onLongPress: (view: SavedFilterView) => void;
+}
+
+/**
+ * Horizontal row of saved views above the history. Tapping a view applies its
+ * criteria, tapping the active one clears them again.
+ */
+export function SavedViewChips({ views, activeViewId, onSelect, onLongPress }: SavedViewChipsProps) {
+  const { get } = useThemeColors();
+
+  if (views.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+      className="mb-3"
+      contentContainerStyle={{ gap: 8 }}
+    >
+      {views.map((view) => {
+        const selected = view.id === activeViewId;
+        return (
+          <Pressable
+            key={view.id}
+            onPress={() => {
+              haptics.selection();
+              onSelect(selected ? null : view);
+            }}
+            onLongPress={() => {
+              haptics.light();
+              onLongPress(view);
+            }}
+            className="flex-row items-center px-3 py-1.5 rounded-xl"
+            style={{
+              backgroundColor: selected ? get("primary") : get("surfaceAlt"),
+              borderWidth: 1,
+              borderColor: selected ? get("primary") : get("borderSubtle"),
+            }}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+            accessibilityLabel={`Saved view ${view.name}`}
+            accessibilityHint="Long press to delete"
+          >
+            <Ionicons
+              name={selected ? "bookmark" : "bookmark-outline"}
+              size={13}
+              color={selected ? get("onPrimary") : get("textMuted")}
+            />
+            <Text
+              className="ml-1.5 text-sm font-medium"
+              style={{ color: selected ? get("onPrimary") : get("textMuted") }}
+            >
+              {view.name}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+export default SavedViewChips;
@@ -0,0 +1,3 @@
+export { MoodFilterButton } from "./MoodFilterButton";
+export { MoodFilterSheet } from "./MoodFilterSheet";
+export { SavedViewChips } from "./SavedViewChips";
@@ -5,13 +5,16 @@ import { colors } from "@/constants/colors";
 
 interface HistoryListHeaderProps {
   moodCount: number;
+  /** Title and match count while searching or filtering; null shows the plain history. */
+  results?: { title: string; count: number } | null;
 }
 
 /**
  * Header for the mood history list section.
- * Shows "Recent entries" title with count badge.
+ * Shows "Recent entries" title with count badge, or the match count while
+ * searching or filtering.
  */
-export function HistoryListHeader({ moodCount }: HistoryListHeaderProps) {
+export function HistoryListHeader({ moodCount, results = null }: HistoryListHeaderProps) {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === "dark";
 
@@ -21,9 +24,9 @@ export function HistoryListHeader({ moodCount }: HistoryListHeaderProps) {
         className="font-semibold text-base"
         style={{ color: isDark ? colors.text.dark : colors.text.light }}
       >
-        Recent entries
+        {results ? results.title : "Recent entries"}
       </Text>
-      {moodCount > 0 && (
+      {(results || moodCount > 0) && (
         <View
           className="px-2.5 py-1 rounded-full"
           style={{ backgroundColor: isDark ? colors.primaryBg.dark : colors.primaryBg.light }}
@@ -32,7 +35,7 @@ export function HistoryListHeader({ moodCount }: HistoryListHeaderProps) {
             className="text-xs font-medium"
             style={{ color: isDark ? colors.positive.text.dark : colors.positive.text.light }}
           >
-            {moodCount} total
+            {results ? `${results.count} found` : `${moodCount} total`}
           </Text>
         </View>
       )}
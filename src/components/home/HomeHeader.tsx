@@ -5,6 +5,7 @@ import { useColorScheme } from "@/hooks/useColorScheme";
 import { typography } from "@/constants/typography";
 import { colors, semanticToneColors } from "@/constants/colors";
 import { useMoodsStore } from "@/shared/state/moodsStore";
+import { useSettingsStore } from "@/shared/state/settingsStore";
 import { calculateStreak } from "@/features/insights/utils/patternDetection";
 
 function getGreeting(date: Date): string {
@@ -29,7 +30,13 @@ export function HomeHeader() {
 	const isDark = useColorScheme() === "dark";
 
 	const moods = useMoodsStore((s) => s.moods);
-	const streak = useMemo(() => calculateStreak(moods), [moods]);
+	const countBackfilled = useSettingsStore(
+		(s) => s.entryTimingPrefs.countBackfilledInStreaks
+	);
+	const streak = useMemo(
+		() => calculateStreak(moods, { includeBackfilled: countBackfilled }),
+		[moods, countBackfilled]
+	);
 
 	const now = new Date();
 	const greeting = getGreeting(now);
@@ -0,0 +1,54 @@
+import React from "react";
+import { ActivityIndicator, Pressable, TextInput, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useThemeColors } from "@/constants/colors";
+
+interface MoodSearchBarProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  onClear: () => void;
+  searching?: boolean;
+}
+
+/**
+ * Search field above the mood history. Matches notes, emotions and context tags.
+ */
+export function MoodSearchBar({ value, onChangeText, onClear, searching = false }: MoodSearchBarProps) {
+  const { get } = useThemeColors();
+
+  return (
+    <View
+      className="flex-row items-center rounded-xl px-3 mb-3"
+      style={{ backgroundColor: get("surfaceAlt"), height: 40 }}
+    >
+      <Ionicons name="search" size={16} color={get("textSubtle")} />
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        placeholder="Search notes, emotions, tags"
+        placeholderTextColor={get("textSubtle")}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="search"
+        clearButtonMode="never"
+        className="flex-1 ml-2 text-sm"
+        style={{ color: get("text"), paddingVertical: 0 }}
+        accessibilityLabel="Search mood history"
+      />
+      {searching ? (
+        <ActivityIndicator size="small" color={get("primary")} />
+      ) : value.length > 0 ? (
+        <Pressable
+          onPress={onClear}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Clear search"
+        >
+          <Ionicons name="close-circle" size={18} color={get("textMuted")} />
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+export default MoodSearchBar;
@@ -0,0 +1,62 @@
+import React from "react";
+import { Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { MoodSearchSnippet } from "@db/db";
+import { useThemeColors } from "@/constants/colors";
+
+const FIELD_ICONS: Record<MoodSearchSnippet["field"], keyof typeof Ionicons.glyphMap> = {
+  note: "document-text-outline",
+  emotions: "heart-outline",
+  contextTags: "pricetag-outline",
+};
+
+interface MoodSearchSnippetsProps {
+  snippets: MoodSearchSnippet[];
+}
+
+/**
+ * Shows where a search result matched, with the matching text highlighted.
+ */
+export function MoodSearchSnippets({ snippets }: MoodSearchSnippetsProps) {
+  const { get } = useThemeColors();
+
+  if (snippets.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="px-3 pb-3 -mt-1" style={{ gap: 4 }}>
+      {snippets.map((snippet) => (
+        <View key={snippet.field} className="flex-row items-start">
+          <Ionicons
+            name={FIELD_ICONS[snippet.field]}
+            size={13}
+            color={get("textSubtle")}
+            style={{ marginTop: 2 }}
+          />
+          <Text
+            className="flex-1 ml-1.5 text-xs"
+            style={{ color: get("textMuted") }}
+            numberOfLines={2}
+          >
+            {snippet.segments.map((segment, index) =>
+              segment.highlighted ? (
+                <Text
+                  key={index}
+                  className="font-semibold"
+                  style={{ color: get("primary"), backgroundColor: get("primaryBg") }}
+                >
+                  {segment.text}
+                </Text>
+              ) : (
+                <Text key={index}>{segment.text}</Text>
+              )
+            )}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export default MoodSearchSnippets;
@@ -10,3 +10,5 @@ export {
   UNIFIED_COMPACT_EXPANDED_HEIGHT,
 } from "./UnifiedMoodSelector";
 export { CollapsedMoodSelector } from "./CollapsedMoodSelector";
+export { MoodSearchBar } from "./MoodSearchBar";
+export { MoodSearchSnippets } from "./MoodSearchSnippets";
@@ -0,0 +1,90 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useColorScheme } from "nativewind";
+import { formatBaselineShift, formatMoodAnomaly } from "@/lib/moodBaseline";
+import { SurfaceCard } from "@/components/ui/SurfaceCard";
+import { IconBadge } from "@/components/ui/IconBadge";
+import { typography } from "@/constants/typography";
+import type { BaselineChanges } from "../utils/moodInsights";
+
+interface BaselineChangesCardProps {
+  changes: BaselineChanges;
+}
+
+type ChangeItem = {
+  key: string;
+  /** Position in the daily averages */
+  order: number;
+  icon: keyof typeof Ionicons.glyphMap;
+  title: string;
+  description: string;
+};
+
+export function BaselineChangesCard({ changes }: BaselineChangesCardProps) {
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  const items: ChangeItem[] = [
+    ...changes.shifts.map((shift) => ({
+      key: `shift-${shift.index}`,
+      order: shift.index,
+      icon: "swap-vertical" as const,
+      title: "Baseline shift",
+      description: formatBaselineShift(shift),
+    })),
+    ...changes.anomalies.map((anomaly) => ({
+      key: `anomaly-${anomaly.index}`,
+      order: anomaly.index,
+      icon: "alert-circle-outline" as const,
+      title: "Unusual day",
+      description: formatMoodAnomaly(anomaly),
+    })),
+  ].sort((a, b) => a.order - b.order);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <SurfaceCard tone="sand">
+      <View className="flex-row items-center mb-2">
+        <IconBadge icon="pulse-outline" tone="sand" size="md" style={{ marginRight: 14 }} />
+        <View className="flex-1">
+          <Text className="text-paper-800 dark:text-paper-200" style={typography.bodyMd}>
+            Changes in Your Baseline
+          </Text>
+          <Text className="text-paper-700 dark:text-sand-400 mt-0.5" style={typography.bodySm}>
+            From your daily averages
+          </Text>
+        </View>
+      </View>
+
+      <View className="mt-2">
+        {items.map((item, index) => (
+          <View
+            key={item.key}
+            className={`flex-row items-start py-3 ${
+              index < items.length - 1 ? "border-b border-paper-200 dark:border-paper-800" : ""
+            }`}
+          >
+            <Ionicons
+              name={item.icon}
+              size={18}
+              color={isDark ? "#D4C4A0" : "#7A6545"}
+              style={{ marginRight: 12, marginTop: 1 }}
+            />
+            <View className="flex-1">
+              <Text className="text-sm font-bold text-paper-800 dark:text-paper-200 mb-0.5">
+                {item.title}
+              </Text>
+              <Text className="text-sm text-paper-700 dark:text-sand-400 leading-5">
+                {item.description}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    </SurfaceCard>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useState } from "react";
+import { View, Text, Pressable, Platform } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useColorScheme } from "nativewind";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { format } from "date-fns";
+
+interface ComparisonDateFieldProps {
+  label: string;
+  value: Date;
+  onChange: (date: Date) => void;
+  /** Shows the month only, for picking a month by any of its days */
+  monthOnly?: boolean;
+}
+
+export function ComparisonDateField({
+  label,
+  value,
+  onChange,
+  monthOnly = false,
+}: ComparisonDateFieldProps) {
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const [showPicker, setShowPicker] = useState(false);
+  const displayValue = format(value, monthOnly ? "MMMM yyyy" : "MMM d, yyyy");
+
+  return (
+    <View className="flex-1">
+      <Text className="text-xs font-semibold text-paper-700 dark:text-sand-400 mb-1.5">
+        {label}
+      </Text>
+      {Platform.OS === "ios" ? (
+        <View className="items-start">
+          <DateTimePicker
+            value={value}
+            mode="date"
+            display="compact"
+            maximumDate={new Date()}
+            onChange={(_, date) => {
+              if (date) onChange(date);
+            }}
+          />
+        </View>
+      ) : (
+        <>
+          <Pressable
+            onPress={() => setShowPicker(true)}
+            className="rounded-2xl border border-paper-200 dark:border-paper-800 bg-paper-100 dark:bg-paper-900 px-3 py-2.5 flex-row items-center"
+            accessibilityRole="button"
+            accessibilityLabel={`${label}, ${displayValue}`}
+          >
+            <Ionicons name="calendar-outline" size={16} color={isDark ? "#A8C5A8" : "#5B8A5B"} />
+            <Text className="text-sm font-medium text-paper-800 dark:text-paper-200 ml-2">
+              {displayValue}
+            </Text>
+          </Pressable>
+          {showPicker && (
+            <DateTimePicker
+              value={value}
+              mode="date"
+              display="default"
+              maximumDate={new Date()}
+              onChange={(_, date) => {
+                setShowPicker(false);
+                if (date) onChange(date);
+              }}
+            />
+          )}
+        </>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useState } from "react";
+import { View, Text, type LayoutChangeEvent } from "react-native";
+import { useColorScheme } from "nativewind";
+import { SurfaceCard } from "@/components/ui/SurfaceCard";
+import { IconBadge } from "@/components/ui/IconBadge";
+import { typography } from "@/constants/typography";
+import { EnergyQuadrantScatter } from "./EnergyQuadrantScatter";
+import {
+  ENERGY_QUADRANTS,
+  ENERGY_QUADRANT_LABELS,
+  type EnergyQuadrant,
+  type EnergyQuadrantAnalysis,
+} from "../utils/energyQuadrants";
+
+interface EnergyQuadrantCardProps {
+  analysis: EnergyQuadrantAnalysis;
+}
+
+const CHART_HEIGHT = 200;
+
+const QUADRANT_COLORS: Record<EnergyQuadrant, { light: string; dark: string }> = {
+  energized: { light: "#5B8A5B", dark: "#A8C5A8" },
+  calm: { light: "#847596", dark: "#C4BBCF" },
+  agitated: { light: "#E06B55", dark: "#F5A899" },
+  depleted: { light: "#7A6545", dark: "#D4C4A0" },
+};
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function formatShift(shift: number): string {
+  const points = Math.round(shift * 100);
+  if (points === 0) return "same as last week";
+  return `${points > 0 ? "+" : ""}${points} pts vs last week`;
+}
+
+function QuadrantChart({ analysis, isDark }: { analysis: EnergyQuadrantAnalysis; isDark: boolean }) {
+  const [width, setWidth] = useState(0);
+  const tint = (quadrant: EnergyQuadrant) => QUADRANT_COLORS[quadrant][isDark ? "dark" : "light"];
+
+  const { shares } = analysis.summary;
+  const accessibilityLabel = `Mood and energy chart. ${ENERGY_QUADRANTS.map(
+    (quadrant) => `${ENERGY_QUADRANT_LABELS[quadrant]} ${formatShare(shares[quadrant])}`
+  ).join(", ")}`;
+
+  return (
+    <View accessible accessibilityRole="image" accessibilityLabel={accessibilityLabel}>
+      <View
+        style={{ height: CHART_HEIGHT }}
+        onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+      >
+        {width > 0 && (
+          <EnergyQuadrantScatter
+            points={analysis.points}
+            width={width}
+            height={CHART_HEIGHT}
+            tint={tint}
+            axisColor={isDark ? "#3D352A" : "#E5D9BF"}
+          />
+        )}
+        <Text className="absolute left-2 top-1 text-xs text-paper-700 dark:text-sand-400">
+          Better mood
+        </Text>
+        <Text className="absolute left-2 bottom-1 text-xs text-paper-700 dark:text-sand-400">
+          Worse mood
+        </Text>
+      </View>
+      <View className="flex-row justify-between mt-1.5">
+        <Text className="text-xs text-paper-700 dark:text-sand-400">Low energy</Text>
+        <Text className="text-xs text-paper-700 dark:text-sand-400">High energy</Text>
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Scatter of the period's entries by energy and mood, with the share of
+ * entries in each quadrant and how that share moved week over week.
+ */
+export function EnergyQuadrantCard({ analysis }: EnergyQuadrantCardProps) {
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+
+  if (analysis.summary.total === 0) {
+    return null;
+  }
+
+  const { current, previous, shifts } = analysis.weeklyShift;
+  const hasWeeklyShift = current.total > 0 && previous.total > 0;
+
+  return (
+    <SurfaceCard tone="sand">
+      <View className="flex-row items-center mb-4">
+        <IconBadge icon="flash-outline" tone="sand" size="md" style={{ marginRight: 14 }} />
+        <View className="flex-1">
+          <Text className="text-paper-800 dark:text-paper-200" style={typography.bodyMd}>
+            Mood & Energy
+          </Text>
+          <Text className="text-paper-700 dark:text-sand-400 mt-0.5" style={typography.bodySm}>
+            {analysis.summary.total} entries with an energy level
+          </Text>
+        </View>
+      </View>
+
+      <QuadrantChart analysis={analysis} isDark={isDark} />
+
+      <View className="mt-4">
+        {ENERGY_QUADRANTS.map((quadrant, index) => (
+          <View
+            key={quadrant}
+            className={`flex-row items-center py-2.5 ${
+              index < ENERGY_QUADRANTS.length - 1
+                ? "border-b border-paper-200 dark:border-paper-800"
+                : ""
+            }`}
+          >
+            <View
+              className="w-2.5 h-2.5 rounded-full mr-3"
+              style={{ backgroundColor: QUADRANT_COLORS[quadrant][isDark ? "dark" : "light"] }}
+            />
+            <View className="flex-1">
+              <Text className="text-paper-800 dark:text-paper-200" style={typography.bodySm}>
+                {ENERGY_QUADRANT_LABELS[quadrant]}
+              </Text>
+              {hasWeeklyShift && (
+                <Text className="text-xs text-paper-700 dark:text-sand-400">
+                  {formatShift(shifts[quadrant])}
+                </Text>
+              )}
+            </View>
+            <Text className="text-sm font-bold text-paper-800 dark:text-paper-200">
+              {formatShare(analysis.summary.shares[quadrant])}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </SurfaceCard>
+  );
+}
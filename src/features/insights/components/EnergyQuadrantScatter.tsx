@@ -0,0 +1,53 @@
+import React from "react";
+import { Canvas, Circle, Line, Rect, vec } from "@shopify/react-native-skia";
+import {
+  ENERGY_MIDPOINT,
+  getScatterPosition,
+  type EnergyMoodPoint,
+  type EnergyQuadrant,
+} from "../utils/energyQuadrants";
+
+export interface EnergyQuadrantScatterProps {
+  points: EnergyMoodPoint[];
+  width: number;
+  height: number;
+  tint: (quadrant: EnergyQuadrant) => string;
+  axisColor: string;
+}
+
+const POINT_RADIUS = 4;
+
+export function EnergyQuadrantScatter({
+  points,
+  width,
+  height,
+  tint,
+  axisColor,
+}: EnergyQuadrantScatterProps) {
+  const midX = (width * ENERGY_MIDPOINT) / 10;
+  const midY = height / 2;
+
+  return (
+    <Canvas style={{ width, height }}>
+      <Rect x={0} y={0} width={midX} height={midY} color={tint("calm")} opacity={0.12} />
+      <Rect x={midX} y={0} width={width - midX} height={midY} color={tint("energized")} opacity={0.12} />
+      <Rect x={0} y={midY} width={midX} height={midY} color={tint("depleted")} opacity={0.12} />
+      <Rect x={midX} y={midY} width={width - midX} height={midY} color={tint("agitated")} opacity={0.12} />
+      <Line p1={vec(midX, 0)} p2={vec(midX, height)} color={axisColor} strokeWidth={1} />
+      <Line p1={vec(0, midY)} p2={vec(width, midY)} color={axisColor} strokeWidth={1} />
+      {points.map((point) => {
+        const { x, y } = getScatterPosition(point, width, height, POINT_RADIUS);
+        return (
+          <Circle
+            key={point.id}
+            cx={x}
+            cy={y}
+            r={POINT_RADIUS}
+            color={tint(point.quadrant)}
+            opacity={0.75}
+          />
+        );
+      })}
+    </Canvas>
+  );
+}
@@ -0,0 +1,60 @@
+import React from "react";
+import { View } from "react-native";
+import { ENERGY_MIDPOINT, getScatterPosition } from "../utils/energyQuadrants";
+import type { EnergyQuadrantScatterProps } from "./EnergyQuadrantScatter";
+
+const POINT_SIZE = 8;
+
+// Skia needs CanvasKit loaded before it can draw on web, so the same chart
+// is laid out with plain views there.
+export function EnergyQuadrantScatter({
+  points,
+  width,
+  height,
+  tint,
+  axisColor,
+}: EnergyQuadrantScatterProps) {
+  const midX = (width * ENERGY_MIDPOINT) / 10;
+  const midY = height / 2;
+  const areas = [
+    { quadrant: "calm" as const, left: 0, top: 0, width: midX, height: midY },
+    { quadrant: "energized" as const, left: midX, top: 0, width: width - midX, height: midY },
+    { quadrant: "depleted" as const, left: 0, top: midY, width: midX, height: midY },
+    { quadrant: "agitated" as const, left: midX, top: midY, width: width - midX, height: midY },
+  ];
+
+  return (
+    <View style={{ width, height }}>
+      {areas.map(({ quadrant, ...area }) => (
+        <View
+          key={quadrant}
+          style={{ position: "absolute", ...area, backgroundColor: tint(quadrant), opacity: 0.12 }}
+        />
+      ))}
+      <View
+        style={{ position: "absolute", left: midX, top: 0, width: 1, height, backgroundColor: axisColor }}
+      />
+      <View
+        style={{ position: "absolute", left: 0, top: midY, width, height: 1, backgroundColor: axisColor }}
+      />
+      {points.map((point) => {
+        const { x, y } = getScatterPosition(point, width, height, POINT_SIZE / 2);
+        return (
+          <View
+            key={point.id}
+            style={{
+              position: "absolute",
+              left: x - POINT_SIZE / 2,
+              top: y - POINT_SIZE / 2,
+              width: POINT_SIZE,
+              height: POINT_SIZE,
+              borderRadius: POINT_SIZE / 2,
+              backgroundColor: tint(point.quadrant),
+              opacity: 0.75,
+            }}
+          />
+        );
+      })}
+    </View>
+  );
+}
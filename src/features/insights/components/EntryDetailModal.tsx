@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   View,
   Text,
@@ -15,10 +15,19 @@ import type { MoodEntry, MoodScaleSnapshot } from "@db/types";
 import { getEnergySegmentColor } from "@/constants/colors";
 import { motion } from "@/constants/motion";
 import { getInterpretedMoodRating } from "@/constants/moodScaleInterpretation";
+import { PhotoThumbnailStrip } from "@/components/entry/PhotoThumbnailStrip";
+import { VoiceMemoList } from "@/components/entry/VoiceMemoList";
+import { formatCoordinates } from "@/lib/location";
+import { isBackfilledEntry } from "@/lib/entryTiming";
+import { summarizeMoodRevisionChange } from "@/lib/moodRevisionPresentation";
+import { moodService, type MoodRevision } from "@/services/moodService";
 
 const sectionReveal = (index: number) =>
   FadeInUp.duration(motion.duration.normal).delay(index * motion.stagger.tight);
 
+const formatEntryDateTime = (timestamp: number) =>
+  format(new Date(timestamp), "MMM d, yyyy h:mm a");
+
 interface EntryDetailModalProps {
   entry: MoodEntry | null;
   onClose: () => void;
@@ -34,6 +43,22 @@ export function EntryDetailModal({
 }: EntryDetailModalProps) {
   const { colorScheme } = useColorScheme();
   const isDark = colorScheme === "dark";
+  const [revisions, setRevisions] = useState<MoodRevision[]>([]);
+
+  useEffect(() => {
+    setRevisions([]);
+    if (!entry) return;
+    let cancelled = false;
+    moodService
+      .getRevisions(entry.id)
+      .then((loaded) => {
+        if (!cancelled) setRevisions(loaded);
+      })
+      .catch((error) => console.error("Failed to load entry history:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [entry]);
 
   if (!entry) return null;
 
@@ -41,6 +66,10 @@ export function EntryDetailModal({
   const hasContextTags = entry.contextTags && entry.contextTags.length > 0;
   const hasNote = entry.note && entry.note.trim().length > 0;
   const hasEnergy = entry.energy !== null && entry.energy !== undefined;
+  const hasPhotos = entry.photos.length > 0;
+  const hasVoiceMemos = entry.voiceMemos.length > 0;
+  const hasRevisions = revisions.length > 0;
+  const locationCoordinates = entry.location ? formatCoordinates(entry.location) : null;
   const interpretedMood = getInterpretedMoodRating(entry);
 
   return (
@@ -132,6 +161,14 @@ export function EntryDetailModal({
                 >
                   {format(new Date(entry.timestamp), "h:mm a")}
                 </Text>
+                {isBackfilledEntry(entry) && (
+                  <Text
+                    className="text-xs mt-1"
+                    style={{ color: isDark ? "#BDA77D" : "#9D8660" }}
+                  >
+                    Logged later, on {formatEntryDateTime(entry.createdAt)}
+                  </Text>
+                )}
               </View>
             </View>
           </Animated.View>
@@ -301,11 +338,60 @@ export function EntryDetailModal({
             </Animated.View>
           )}
 
+          {/* Location */}
+          {entry.location && (
+            <Animated.View
+              entering={sectionReveal(4)}
+              className="rounded-3xl p-5 mb-5"
+              style={{
+                backgroundColor: isDark ? "#2C4038" : "#FDFCFA",
+                shadowColor: isDark ? "#000" : "#9D8660",
+                shadowOffset: { width: 0, height: 4 },
+                shadowOpacity: isDark ? 0.25 : 0.08,
+                shadowRadius: 12,
+                elevation: 3,
+              }}
+            >
+              <View className="flex-row items-center mb-3">
+                <View
+                  className="w-8 h-8 rounded-xl items-center justify-center mr-3"
+                  style={{ backgroundColor: isDark ? "#364C44" : "#F0EBE0" }}
+                >
+                  <Ionicons
+                    name="location"
+                    size={16}
+                    color={isDark ? "#BDA77D" : "#9D8660"}
+                  />
+                </View>
+                <Text
+                  className="text-base font-medium"
+                  style={{ color: isDark ? "#F5F1E8" : "#3D352A" }}
+                >
+                  Location
+                </Text>
+              </View>
+              <Text
+                className="text-sm font-medium"
+                style={{ color: isDark ? "#D4CFC5" : "#5A5248" }}
+              >
+                {entry.location.name}
+              </Text>
+              {locationCoordinates && (
+                <Text
+                  className="text-xs mt-1"
+                  style={{ color: isDark ? "#BDA77D" : "#9D8660" }}
+                >
+                  Approx. {locationCoordinates}
+                </Text>
+              )}
+            </Animated.View>
+          )}
+
           {/* Note */}
           {hasNote && (
             <Animated.View
-              entering={sectionReveal(4)}
-              className="rounded-3xl p-5"
+              entering={sectionReveal(5)}
+              className="rounded-3xl p-5 mb-5"
               style={{
                 backgroundColor: isDark ? "#2C4038" : "#FDFCFA",
                 shadowColor: isDark ? "#000" : "#9D8660",
@@ -342,11 +428,83 @@ export function EntryDetailModal({
             </Animated.View>
           )}
 
+          {/* Photos */}
+          {hasPhotos && (
+            <Animated.View
+              entering={sectionReveal(6)}
+              className="rounded-3xl p-5 mb-5"
+              style={{
+                backgroundColor: isDark ? "#2C4038" : "#FDFCFA",
+                shadowColor: isDark ? "#000" : "#9D8660",
+                shadowOffset: { width: 0, height: 4 },
+                shadowOpacity: isDark ? 0.25 : 0.08,
+                shadowRadius: 12,
+                elevation: 3,
+              }}
+            >
+              <View className="flex-row items-center mb-3">
+                <View
+                  className="w-8 h-8 rounded-xl items-center justify-center mr-3"
+                  style={{ backgroundColor: isDark ? "#364C44" : "#F0EBE0" }}
+                >
+                  <Ionicons
+                    name="images"
+                    size={16}
+                    color={isDark ? "#BDA77D" : "#9D8660"}
+                  />
+                </View>
+                <Text
+                  className="text-base font-medium"
+                  style={{ color: isDark ? "#F5F1E8" : "#3D352A" }}
+                >
+                  Photos
+                </Text>
+              </View>
+              <PhotoThumbnailStrip photos={entry.photos} size={88} expandable />
+            </Animated.View>
+          )}
+
+          {/* Voice memos */}
+          {hasVoiceMemos && (
+            <Animated.View
+              entering={sectionReveal(7)}
+              className={`rounded-3xl p-5${hasRevisions ? " mb-5" : ""}`}
+              style={{
+                backgroundColor: isDark ? "#2C4038" : "#FDFCFA",
+                shadowColor: isDark ? "#000" : "#9D8660",
+                shadowOffset: { width: 0, height: 4 },
+                shadowOpacity: isDark ? 0.25 : 0.08,
+                shadowRadius: 12,
+                elevation: 3,
+              }}
+            >
+              <View className="flex-row items-center mb-3">
+                <View
+                  className="w-8 h-8 rounded-xl items-center justify-center mr-3"
+                  style={{ backgroundColor: isDark ? "#364C44" : "#F0EBE0" }}
+                >
+                  <Ionicons
+                    name="mic"
+                    size={16}
+                    color={isDark ? "#BDA77D" : "#9D8660"}
+                  />
+                </View>
+                <Text
+                  className="text-base font-medium"
+                  style={{ color: isDark ? "#F5F1E8" : "#3D352A" }}
+                >
+                  Voice memos
+                </Text>
+              </View>
+              <VoiceMemoList memos={entry.voiceMemos} />
+            </Animated.View>
+          )}
+
           {/* Empty state if no additional details */}
-          {!hasEmotions && !hasContextTags && !hasNote && !hasEnergy && (
+          {!hasEmotions && !hasContextTags && !hasNote && !hasEnergy && !hasPhotos && !hasVoiceMemos && !entry.location && (
             <Animated.View
               entering={sectionReveal(1)}
-              className="rounded-3xl p-8 items-center"
+              className={`rounded-3xl p-8 items-center${hasRevisions ? " mb-5" : ""}`}
               style={{
                 backgroundColor: isDark ? "#2C4038" : "#FDFCFA",
                 shadowColor: isDark ? "#000" : "#9D8660",
@@ -364,6 +522,84 @@ export function EntryDetailModal({
               </Text>
             </Animated.View>
           )}
+
+          {/* History */}
+          {hasRevisions && (
+            <Animated.View
+              entering={sectionReveal(8)}
+              className="rounded-3xl p-5"
+              style={{
+                backgroundColor: isDark ? "#2C4038" : "#FDFCFA",
+                shadowColor: isDark ? "#000" : "#9D8660",
+                shadowOffset: { width: 0, height: 4 },
+                shadowOpacity: isDark ? 0.25 : 0.08,
+                shadowRadius: 12,
+                elevation: 3,
+              }}
+            >
+              <View className="flex-row items-center mb-3">
+                <View
+                  className="w-8 h-8 rounded-xl items-center justify-center mr-3"
+                  style={{ backgroundColor: isDark ? "#364C44" : "#F0EBE0" }}
+                >
+                  <Ionicons
+                    name="time"
+                    size={16}
+                    color={isDark ? "#BDA77D" : "#9D8660"}
+                  />
+                </View>
+                <Text
+                  className="text-base font-medium"
+                  style={{ color: isDark ? "#F5F1E8" : "#3D352A" }}
+                >
+                  History
+                </Text>
+              </View>
+              {[...revisions].reverse().map((revision, index) => (
+                <View
+                  key={revision.id}
+                  className={index > 0 ? "pt-3 mt-3 border-t" : ""}
+                  style={{ borderColor: isDark ? "#364C44" : "#F0EBE0" }}
+                >
+                  <Text
+                    className="text-xs mb-1"
+                    style={{ color: isDark ? "#BDA77D" : "#9D8660" }}
+                  >
+                    Edited {formatEntryDateTime(revision.revisedAt)}
+                  </Text>
+                  {revision.changes.map((change) => {
+                    const summary = summarizeMoodRevisionChange(
+                      change,
+                      entry.moodScale,
+                      formatEntryDateTime
+                    );
+                    return (
+                      <View key={change.field} className="mt-1">
+                        <Text
+                          className="text-sm font-medium"
+                          style={{ color: isDark ? "#F5F1E8" : "#3D352A" }}
+                        >
+                          {summary.label}
+                        </Text>
+                        <Text
+                          className="text-sm line-through"
+                          style={{ color: isDark ? "#BDA77D" : "#9D8660" }}
+                        >
+                          {summary.from}
+                        </Text>
+                        <Text
+                          className="text-sm"
+                          style={{ color: isDark ? "#D4CFC5" : "#5A5248" }}
+                        >
+                          {summary.to}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              ))}
+            </Animated.View>
+          )}
         </ScrollView>
       </View>
     </Modal>
@@ -2,7 +2,8 @@ import React from "react";
 import { View, Text } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useColorScheme } from "nativewind";
-import type { Pattern } from "../utils/patternDetection";
+import type { Pattern, PatternEvidence } from "../utils/patternDetection";
+import { describeEvidence } from "../utils/correlation";
 import { SurfaceCard } from "@/components/ui/SurfaceCard";
 import { IconBadge } from "@/components/ui/IconBadge";
 import { typography } from "@/constants/typography";
@@ -40,6 +41,11 @@ function ConfidenceIndicator({ confidence }: { confidence: number }) {
   );
 }
 
+function formatEvidence({ level, sampleSize }: PatternEvidence): string {
+  const label = describeEvidence(level);
+  return `${label.charAt(0).toUpperCase()}${label.slice(1)} · ${sampleSize} entries`;
+}
+
 function PatternItem({ pattern, isLast }: { pattern: Pattern; isLast: boolean }) {
   const { colorScheme } = useColorScheme();
   const isDark = colorScheme === "dark";
@@ -48,6 +54,7 @@ function PatternItem({ pattern, isLast }: { pattern: Pattern; isLast: boolean })
   const getIconStyle = () => {
     switch (pattern.type) {
       case "time_of_day":
+      case "lagged":
         return {
           bg: isDark ? "#2D3D2D" : "#E8EFE8",
           color: isDark ? "#A8C5A8" : "#5B8A5B",
@@ -64,6 +71,7 @@ function PatternItem({ pattern, isLast }: { pattern: Pattern; isLast: boolean })
           color: isDark ? "#F5A899" : "#E06B55",
         };
       case "context":
+      case "place":
         return {
           bg: isDark ? "#2D2A33" : "#EFECF2",
           color: isDark ? "#C4BBCF" : "#847596",
@@ -107,6 +115,11 @@ function PatternItem({ pattern, isLast }: { pattern: Pattern; isLast: boolean })
         <Text className="text-sm text-paper-700 dark:text-sand-400 leading-5">
           {pattern.description}
         </Text>
+        {pattern.evidence && (
+          <Text className="text-xs text-paper-700 dark:text-sand-400 mt-1 opacity-80">
+            {formatEvidence(pattern.evidence)}
+          </Text>
+        )}
       </View>
     </View>
   );
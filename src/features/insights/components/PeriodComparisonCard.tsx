@@ -0,0 +1,262 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { useColorScheme } from "nativewind";
+import { SurfaceCard } from "@/components/ui/SurfaceCard";
+import { IconBadge } from "@/components/ui/IconBadge";
+import { typography } from "@/constants/typography";
+import { TrendIndicator } from "./TrendIndicator";
+import type { PeriodStats } from "../utils/periodStats";
+import type {
+  MoodDistributionBin,
+  PeriodComparison,
+  PeriodComparisonSide,
+} from "../utils/periodComparison";
+
+interface PeriodComparisonCardProps {
+  comparison: PeriodComparison;
+}
+
+const HISTOGRAM_HEIGHT = 96;
+const MAX_EMOTION_CHANGES = 6;
+
+const SIDE_COLORS = {
+  first: { light: "#BDA77D", dark: "#D4C4A0" },
+  second: { light: "#5B8A5B", dark: "#A8C5A8" },
+};
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function formatPointChange(change: number): string {
+  const points = Math.round(change * 100);
+  return `${points > 0 ? "+" : ""}${points} pts`;
+}
+
+function StatRow({
+  label,
+  first,
+  second,
+  isLast = false,
+}: {
+  label: string;
+  first: string;
+  second: string;
+  isLast?: boolean;
+}) {
+  return (
+    <View
+      className={`flex-row items-center py-2.5 ${
+        isLast ? "" : "border-b border-paper-200 dark:border-paper-800"
+      }`}
+    >
+      <Text className="flex-1 text-paper-700 dark:text-sand-400" style={typography.bodySm}>
+        {label}
+      </Text>
+      <Text className="w-24 text-right text-sm font-semibold text-paper-800 dark:text-paper-200">
+        {first}
+      </Text>
+      <Text className="w-24 text-right text-sm font-semibold text-paper-800 dark:text-paper-200">
+        {second}
+      </Text>
+    </View>
+  );
+}
+
+function SideLegend({ side, color }: { side: PeriodComparisonSide; color: string }) {
+  return (
+    <View className="flex-row items-center mt-1">
+      <View className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: color }} />
+      <Text className="flex-1 text-paper-800 dark:text-paper-200" style={typography.bodySm}>
+        {side.range.label}
+      </Text>
+      <Text className="text-xs text-paper-700 dark:text-sand-400">
+        {side.stats.entryCount} entries
+      </Text>
+    </View>
+  );
+}
+
+function StatsTable({
+  first,
+  second,
+  isDark,
+}: {
+  first: PeriodStats;
+  second: PeriodStats;
+  isDark: boolean;
+}) {
+  const orDash = (stats: PeriodStats, value: (stats: PeriodStats) => string | null) =>
+    stats.entryCount > 0 ? value(stats) ?? "-" : "-";
+  const rows: { label: string; value: (stats: PeriodStats) => string | null }[] = [
+    { label: "Entries", value: (stats) => String(stats.entryCount) },
+    { label: "Average mood", value: (stats) => stats.averageMood.toFixed(1) },
+    { label: "Most common", value: (stats) => String(stats.mostCommonMood) },
+    {
+      label: "Avg energy",
+      value: (stats) => (stats.energyAvg !== null ? stats.energyAvg.toFixed(1) : null),
+    },
+    { label: "Best day", value: (stats) => stats.bestDay },
+    { label: "Hardest day", value: (stats) => stats.worstDay },
+  ];
+
+  return (
+    <View>
+      <View className="flex-row">
+        <View className="flex-1" />
+        {(["first", "second"] as const).map((side) => (
+          <View key={side} className="w-24 items-end">
+            <View
+              className="w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: SIDE_COLORS[side][isDark ? "dark" : "light"] }}
+            />
+          </View>
+        ))}
+      </View>
+      {rows.map((row, index) => (
+        <StatRow
+          key={row.label}
+          label={row.label}
+          first={orDash(first, row.value)}
+          second={orDash(second, row.value)}
+          isLast={index === rows.length - 1}
+        />
+      ))}
+    </View>
+  );
+}
+
+function DistributionHistogram({
+  first,
+  second,
+  isDark,
+}: {
+  first: MoodDistributionBin[];
+  second: MoodDistributionBin[];
+  isDark: boolean;
+}) {
+  const maxShare = Math.max(...first.map((bin) => bin.share), ...second.map((bin) => bin.share));
+  const barHeight = (share: number) => (maxShare > 0 ? (share / maxShare) * HISTOGRAM_HEIGHT : 0);
+  const accessibilityLabel = `Mood Rating distribution. ${first
+    .map(
+      (bin, index) =>
+        `Rating ${bin.rating}: ${formatPercent(bin.share)} then ${formatPercent(second[index].share)}`
+    )
+    .join(", ")}`;
+
+  return (
+    <View accessible accessibilityRole="image" accessibilityLabel={accessibilityLabel}>
+      <View className="flex-row items-end" style={{ height: HISTOGRAM_HEIGHT }}>
+        {first.map((bin, index) => (
+          <View key={bin.rating} className="flex-1 flex-row items-end justify-center gap-0.5">
+            <View
+              className="w-1.5 rounded-t-sm"
+              style={{
+                height: barHeight(bin.share),
+                backgroundColor: SIDE_COLORS.first[isDark ? "dark" : "light"],
+              }}
+            />
+            <View
+              className="w-1.5 rounded-t-sm"
+              style={{
+                height: barHeight(second[index].share),
+                backgroundColor: SIDE_COLORS.second[isDark ? "dark" : "light"],
+              }}
+            />
+          </View>
+        ))}
+      </View>
+      <View className="flex-row mt-1.5">
+        {first.map((bin) => (
+          <Text key={bin.rating} className="flex-1 text-center text-xs text-paper-700 dark:text-sand-400">
+            {bin.rating}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Two periods side by side: their stats, how their Mood Ratings spread out,
+ * and which emotions came up more or less often.
+ */
+export function PeriodComparisonCard({ comparison }: PeriodComparisonCardProps) {
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const { first, second } = comparison;
+  const hasBoth = first.stats.entryCount > 0 && second.stats.entryCount > 0;
+  const emotionChanges = comparison.emotionChanges
+    .filter((change) => change.change !== 0)
+    .slice(0, MAX_EMOTION_CHANGES);
+
+  return (
+    <SurfaceCard tone="sage">
+      <View className="flex-row items-center mb-3">
+        <IconBadge icon="git-compare-outline" tone="sage" size="md" style={{ marginRight: 14 }} />
+        <View className="flex-1">
+          <Text className="text-paper-800 dark:text-paper-200" style={typography.bodyMd}>
+            Period Comparison
+          </Text>
+          {hasBoth && second.stats.moodChange !== 0 && (
+            <View className="flex-row items-center mt-1">
+              <Text className="text-paper-700 dark:text-sand-400 mr-2" style={typography.bodySm}>
+                Average mood {first.stats.averageMood.toFixed(1)} → {second.stats.averageMood.toFixed(1)}
+              </Text>
+              <TrendIndicator
+                direction={second.stats.trendDirection}
+                value={Math.abs(second.stats.moodChange)}
+                size="sm"
+              />
+            </View>
+          )}
+        </View>
+      </View>
+
+      <SideLegend side={first} color={SIDE_COLORS.first[isDark ? "dark" : "light"]} />
+      <SideLegend side={second} color={SIDE_COLORS.second[isDark ? "dark" : "light"]} />
+
+      {!hasBoth ? (
+        <Text className="text-paper-700 dark:text-sand-400 mt-4" style={typography.bodySm}>
+          {first.stats.entryCount === 0 && second.stats.entryCount === 0
+            ? "No entries in either period."
+            : `No entries ${first.stats.entryCount === 0 ? "in the first" : "in the second"} period to compare with.`}
+        </Text>
+      ) : (
+        <>
+          <View className="mt-4">
+            <StatsTable first={first.stats} second={second.stats} isDark={isDark} />
+          </View>
+
+          <Text className="text-paper-800 dark:text-paper-200 mt-5 mb-3" style={typography.bodySm}>
+            Mood Rating spread (0 is best)
+          </Text>
+          <DistributionHistogram
+            first={first.distribution}
+            second={second.distribution}
+            isDark={isDark}
+          />
+
+          <Text className="text-paper-800 dark:text-paper-200 mt-5 mb-1" style={typography.bodySm}>
+            Emotions, share of entries
+          </Text>
+          {emotionChanges.length === 0 ? (
+            <Text className="text-xs text-paper-700 dark:text-sand-400">
+              Emotions came up just as often in both periods.
+            </Text>
+          ) : (
+            emotionChanges.map((change, index) => (
+              <StatRow
+                key={change.name}
+                label={`${change.name} (${formatPointChange(change.change)})`}
+                first={formatPercent(change.firstShare)}
+                second={formatPercent(change.secondShare)}
+                isLast={index === emotionChanges.length - 1}
+              />
+            ))
+          )}
+        </>
+      )}
+    </SurfaceCard>
+  );
+}
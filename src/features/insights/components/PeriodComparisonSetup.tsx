@@ -0,0 +1,115 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { SegmentedControl } from "@/components/ui/SegmentedControl";
+import { SurfaceCard } from "@/components/ui/SurfaceCard";
+import { typography } from "@/constants/typography";
+import { ComparisonDateField } from "./ComparisonDateField";
+import type {
+  ComparisonMode,
+  DateRange,
+  PeriodComparisonConfig,
+} from "../utils/periodComparison";
+
+interface PeriodComparisonSetupProps {
+  config: PeriodComparisonConfig;
+  onChange: (config: PeriodComparisonConfig) => void;
+}
+
+const modes: { id: ComparisonMode; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { id: "lastYear", label: "Last Year", icon: "repeat-outline" },
+  { id: "ranges", label: "Ranges", icon: "calendar-outline" },
+  { id: "splitDate", label: "Before/After", icon: "flag-outline" },
+];
+
+const MODE_HINTS: Record<ComparisonMode, string> = {
+  lastYear: "A month against the same month a year earlier.",
+  ranges: "Any two date ranges.",
+  splitDate: "Everything before a date, like starting a medication, against everything since.",
+};
+
+function RangeFields({
+  title,
+  range,
+  onChange,
+}: {
+  title: string;
+  range: DateRange;
+  onChange: (range: DateRange) => void;
+}) {
+  return (
+    <View className="mt-3">
+      <Text className="text-paper-800 dark:text-paper-200 mb-2" style={typography.bodySm}>
+        {title}
+      </Text>
+      <View className="flex-row gap-3">
+        <ComparisonDateField
+          label="From"
+          value={range.start}
+          onChange={(start) => onChange({ start, end: start > range.end ? start : range.end })}
+        />
+        <ComparisonDateField
+          label="To"
+          value={range.end}
+          onChange={(end) => onChange({ start: end < range.start ? end : range.start, end })}
+        />
+      </View>
+    </View>
+  );
+}
+
+/** Picks what to compare; the dates of every mode are kept while switching. */
+export function PeriodComparisonSetup({ config, onChange }: PeriodComparisonSetupProps) {
+  const update = (changes: Partial<PeriodComparisonConfig>) => onChange({ ...config, ...changes });
+
+  return (
+    <SurfaceCard tone="dusk">
+      <SegmentedControl
+        value={config.mode}
+        items={modes}
+        onChange={(mode) => update({ mode })}
+        padding={4}
+        className="mb-3 rounded-2xl"
+      />
+      <Text className="text-paper-700 dark:text-sand-400" style={typography.bodySm}>
+        {MODE_HINTS[config.mode]}
+      </Text>
+
+      {config.mode === "lastYear" && (
+        <View className="flex-row mt-3">
+          <ComparisonDateField
+            label="Month"
+            value={config.month}
+            onChange={(month) => update({ month })}
+            monthOnly
+          />
+        </View>
+      )}
+
+      {config.mode === "ranges" && (
+        <>
+          <RangeFields
+            title="First range"
+            range={config.first}
+            onChange={(first) => update({ first })}
+          />
+          <RangeFields
+            title="Second range"
+            range={config.second}
+            onChange={(second) => update({ second })}
+          />
+        </>
+      )}
+
+      {config.mode === "splitDate" && (
+        <View className="flex-row mt-3">
+          <ComparisonDateField
+            label="Changed on"
+            value={config.splitDate}
+            onChange={(splitDate) => update({ splitDate })}
+          />
+        </View>
+      )}
+    </SurfaceCard>
+  );
+}
@@ -4,15 +4,19 @@ import { SegmentedControl } from "@/components/ui/SegmentedControl";
 
 export type TimePeriod = "week" | "month" | "all";
 
+/** A single period, or two periods of the user's choosing side by side */
+export type InsightsPeriod = TimePeriod | "compare";
+
 interface TimePeriodSelectorProps {
-  value: TimePeriod;
-  onChange: (period: TimePeriod) => void;
+  value: InsightsPeriod;
+  onChange: (period: InsightsPeriod) => void;
 }
 
-const periods: { id: TimePeriod; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+const periods: { id: InsightsPeriod; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
   { id: "week", label: "Week", icon: "calendar-outline" },
   { id: "month", label: "Month", icon: "calendar-number-outline" },
   { id: "all", label: "All", icon: "infinite-outline" },
+  { id: "compare", label: "Compare", icon: "git-compare-outline" },
 ];
 
 export function TimePeriodSelector({ value, onChange }: TimePeriodSelectorProps) {
@@ -2,17 +2,27 @@ import { useState, useEffect, useCallback, useMemo } from "react";
 import { isAfter, isBefore, startOfDay } from "date-fns";
 import { useFocusEffect } from "expo-router";
 import type { MoodEntry, MoodScaleSnapshot } from "@db/types";
-import type { TimePeriod } from "../components/TimePeriodSelector";
+import type { InsightsPeriod, TimePeriod } from "../components/TimePeriodSelector";
 import type { Pattern } from "../utils/patternDetection";
 import {
   buildMoodInsights,
   getNextPeriodDate,
   getPreviousPeriodDate,
+  type BaselineChanges,
 } from "../utils/moodInsights";
 import type { PeriodStats } from "../utils/periodStats";
+import type { EnergyQuadrantAnalysis } from "../utils/energyQuadrants";
+import {
+  comparePeriods,
+  createDefaultComparisonConfig,
+  type PeriodComparison,
+  type PeriodComparisonConfig,
+} from "../utils/periodComparison";
 import { getMoodRatingLabel } from "@/constants/moodScaleInterpretation";
 import { getMoodHex } from "@/lib/moodPresentation";
 import { useMoodsStore } from "@/shared/state/moodsStore";
+import { useSettingsStore } from "@/shared/state/settingsStore";
+import { isMoodQueryEmpty, matchesMoodQuery, type MoodQuery } from "@/lib/moodQuery";
 import { useThemeColors } from "@/constants/colors";
 
 export type { PeriodStats };
@@ -24,10 +34,14 @@ export interface InsightsData {
   loading: boolean;
   error: string | null;
 
+  // Filter applied to the summary stats
+  filter: MoodQuery;
+  setFilter: (filter: MoodQuery) => void;
+
   // Period navigation
-  period: TimePeriod;
+  period: InsightsPeriod;
   currentDate: Date;
-  setPeriod: (period: TimePeriod) => void;
+  setPeriod: (period: InsightsPeriod) => void;
   goToPrevious: () => void;
   goToNext: () => void;
   goToToday: () => void;
@@ -37,7 +51,14 @@ export interface InsightsData {
   // Stats
   stats: PeriodStats;
   patterns: Pattern[];
+  baselineChanges: BaselineChanges;
   streak: { current: number; longest: number };
+  energyQuadrants: EnergyQuadrantAnalysis;
+
+  // Custom comparison, computed only while period is "compare"
+  comparisonConfig: PeriodComparisonConfig;
+  setComparisonConfig: (config: PeriodComparisonConfig) => void;
+  comparison: PeriodComparison | null;
 
   // Helpers
   getMoodLabel: (value: number, sourceScale?: MoodScaleSnapshot) => string;
@@ -49,14 +70,19 @@ export interface InsightsData {
 
 export function useInsightsData(): InsightsData {
   const { isDark } = useThemeColors();
-  const [period, setPeriod] = useState<TimePeriod>("week");
+  const [period, setPeriod] = useState<InsightsPeriod>("week");
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [comparisonConfig, setComparisonConfig] = useState<PeriodComparisonConfig>(() =>
+    createDefaultComparisonConfig()
+  );
+  const [filter, setFilter] = useState<MoodQuery>({});
   const allMoods = useMoodsStore((state) => state.moods);
   const status = useMoodsStore((state) => state.status);
   const error = useMoodsStore((state) => state.error);
   const isStale = useMoodsStore((state) => state.isStale);
   const ensureFresh = useMoodsStore((state) => state.ensureFresh);
   const refreshMoods = useMoodsStore((state) => state.refreshMoods);
+  const entryTimingPrefs = useSettingsStore((state) => state.entryTimingPrefs);
   const loading =
     status === "loading" ||
     (status === "refreshing" && allMoods.length === 0) ||
@@ -80,24 +106,49 @@ export function useInsightsData(): InsightsData {
     }, [ensureFresh])
   );
 
+  const filteredMoods = useMemo(
+    () =>
+      isMoodQueryEmpty(filter)
+        ? allMoods
+        : allMoods.filter((mood) => matchesMoodQuery(mood, filter)),
+    [allMoods, filter]
+  );
+
+  // The comparison picks its own dates and replaces the period insights, so
+  // those are built from no entries while comparing.
+  const isComparing = period === "compare";
+  const statsPeriod: TimePeriod = isComparing ? "all" : period;
+
   const insights = useMemo(
-    () => buildMoodInsights(allMoods, period, currentDate),
-    [allMoods, period, currentDate]
+    () =>
+      buildMoodInsights(
+        isComparing ? [] : filteredMoods,
+        statsPeriod,
+        currentDate,
+        entryTimingPrefs
+      ),
+    [isComparing, filteredMoods, statsPeriod, currentDate, entryTimingPrefs]
+  );
+  const { periodMoods, stats, patterns, baselineChanges, streak, energyQuadrants } = insights;
+
+  const comparison = useMemo(
+    () =>
+      isComparing ? comparePeriods(filteredMoods, comparisonConfig, entryTimingPrefs) : null,
+    [isComparing, filteredMoods, comparisonConfig, entryTimingPrefs]
   );
-  const { periodMoods, stats, patterns, streak } = insights;
 
   // Navigation
   const goToPrevious = useCallback(() => {
-    if (period !== "all") {
-      setCurrentDate((d) => getPreviousPeriodDate(period, d));
+    if (statsPeriod !== "all") {
+      setCurrentDate((d) => getPreviousPeriodDate(statsPeriod, d));
     }
-  }, [period]);
+  }, [statsPeriod]);
 
   const goToNext = useCallback(() => {
-    if (period !== "all") {
-      setCurrentDate((d) => getNextPeriodDate(period, d));
+    if (statsPeriod !== "all") {
+      setCurrentDate((d) => getNextPeriodDate(statsPeriod, d));
     }
-  }, [period]);
+  }, [statsPeriod]);
 
   const goToToday = useCallback(() => {
     setCurrentDate(new Date());
@@ -105,22 +156,22 @@ export function useInsightsData(): InsightsData {
 
   // Can navigate?
   const canGoNext = useMemo(() => {
-    if (period === "all") return false;
-    const nextDate = getNextPeriodDate(period, currentDate);
+    if (statsPeriod === "all") return false;
+    const nextDate = getNextPeriodDate(statsPeriod, currentDate);
     return !isAfter(startOfDay(nextDate), startOfDay(new Date()));
-  }, [period, currentDate]);
+  }, [statsPeriod, currentDate]);
 
   const canGoPrevious = useMemo(() => {
-    if (period === "all") return false;
+    if (statsPeriod === "all") return false;
     if (allMoods.length === 0) return false;
 
     // Can go back as long as there's data
     const oldestMood = allMoods[allMoods.length - 1];
     const oldestDate = new Date(oldestMood.timestamp);
-    const prevDate = getPreviousPeriodDate(period, currentDate);
+    const prevDate = getPreviousPeriodDate(statsPeriod, currentDate);
 
     return !isBefore(prevDate, startOfDay(oldestDate));
-  }, [period, currentDate, allMoods]);
+  }, [statsPeriod, currentDate, allMoods]);
 
   // Helpers
   const getMoodLabel = useCallback((value: number, sourceScale?: MoodScaleSnapshot) => {
@@ -138,6 +189,8 @@ export function useInsightsData(): InsightsData {
     periodMoods,
     loading,
     error,
+    filter,
+    setFilter,
     period,
     currentDate,
     setPeriod,
@@ -148,7 +201,12 @@ export function useInsightsData(): InsightsData {
     canGoPrevious,
     stats,
     patterns,
+    baselineChanges,
     streak,
+    energyQuadrants,
+    comparisonConfig,
+    setComparisonConfig,
+    comparison,
     getMoodLabel,
     getMoodColor,
     refresh: refreshMoods,
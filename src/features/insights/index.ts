@@ -6,6 +6,10 @@ export { InsightCard, CompactInsightCard } from "./components/InsightCard";
 export { TimePeriodSelector } from "./components/TimePeriodSelector";
 export { WeekNavigator } from "./components/WeekNavigator";
 export { PatternCard } from "./components/PatternCard";
+export { BaselineChangesCard } from "./components/BaselineChangesCard";
+export { EnergyQuadrantCard } from "./components/EnergyQuadrantCard";
+export { PeriodComparisonCard } from "./components/PeriodComparisonCard";
+export { PeriodComparisonSetup } from "./components/PeriodComparisonSetup";
 export { StreakBadge, CompactStreakBadge } from "./components/StreakBadge";
 export { TrendIndicator, getTrendDirection } from "./components/TrendIndicator";
 
@@ -14,9 +18,36 @@ export { useInsightsData } from "./hooks/useInsightsData";
 
 // Utils
 export { detectPatterns, calculateStreak } from "./utils/patternDetection";
+export { findMoodCorrelations } from "./utils/correlation";
+export {
+  findLowEnergyDip,
+  findNextDayContextEffects,
+  findRecoveryTimes,
+} from "./utils/lagPatterns";
+export {
+  comparePeriods,
+  compareEmotionFrequencies,
+  createDefaultComparisonConfig,
+  getComparisonRanges,
+} from "./utils/periodComparison";
 
 // Types
-export type { TimePeriod } from "./components/TimePeriodSelector";
+export type { InsightsPeriod, TimePeriod } from "./components/TimePeriodSelector";
 export type { TrendDirection } from "./components/TrendIndicator";
-export type { Pattern } from "./utils/patternDetection";
+export type { Pattern, PatternEvidence } from "./utils/patternDetection";
+export type { EvidenceLevel, MoodCorrelation } from "./utils/correlation";
+export type {
+  EnergyQuadrant,
+  EnergyQuadrantAnalysis,
+  EnergyQuadrantSummary,
+} from "./utils/energyQuadrants";
+export type { LaggedEffect, NextDayContextEffect, RecoveryTimes } from "./utils/lagPatterns";
+export type {
+  ComparisonMode,
+  EmotionFrequencyChange,
+  MoodDistributionBin,
+  PeriodComparison,
+  PeriodComparisonConfig,
+} from "./utils/periodComparison";
+export type { BaselineChanges } from "./utils/moodInsights";
 export type { InsightsData, PeriodStats } from "./hooks/useInsightsData";
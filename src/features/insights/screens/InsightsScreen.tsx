@@ -24,10 +24,15 @@ import { TimePeriodSelector } from "../components/TimePeriodSelector";
 import { WeekNavigator } from "../components/WeekNavigator";
 import { InsightCard, CompactInsightCard } from "../components/InsightCard";
 import { PatternCard } from "../components/PatternCard";
+import { BaselineChangesCard } from "../components/BaselineChangesCard";
+import { EnergyQuadrantCard } from "../components/EnergyQuadrantCard";
+import { PeriodComparisonSetup } from "../components/PeriodComparisonSetup";
+import { PeriodComparisonCard } from "../components/PeriodComparisonCard";
 import { StreakBadge } from "../components/StreakBadge";
 import { EntryDetailModal } from "../components/EntryDetailModal";
 import { InsightsHeader } from "../components/InsightsHeader";
 import { MoodCalendar } from "@/components/calendar";
+import { MoodFilterButton, MoodFilterSheet } from "@/components/filters";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { SurfaceCard } from "@/components/ui/SurfaceCard";
@@ -40,6 +45,7 @@ import { haptics } from "@/lib/haptics";
 import { usePullToRefresh } from "@/hooks/usePullToRefresh";
 import type { MoodEntry } from "@db/types";
 import { getInterpretedMoodRating } from "@/constants/moodScaleInterpretation";
+import { countMoodQueryCriteria } from "@/lib/moodQuery";
 
 type ViewMode = "calendar" | "summary";
 
@@ -54,6 +60,7 @@ export function InsightsScreen() {
   const [selectedEntry, setSelectedEntry] = useState<MoodEntry | null>(null);
   const [showAllEntries, setShowAllEntries] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("calendar");
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
   const calendarRefreshRef = useRef<(() => Promise<void>) | null>(null);
 
   const {
@@ -61,6 +68,8 @@ export function InsightsScreen() {
     periodMoods,
     loading,
     error,
+    filter,
+    setFilter,
     period,
     currentDate,
     setPeriod,
@@ -71,7 +80,12 @@ export function InsightsScreen() {
     canGoPrevious,
     stats,
     patterns,
+    baselineChanges,
     streak,
+    energyQuadrants,
+    comparisonConfig,
+    setComparisonConfig,
+    comparison,
     getMoodLabel,
     getMoodColor,
     refresh,
@@ -146,6 +160,7 @@ export function InsightsScreen() {
 
   const hasData = allMoods.length > 0;
   const hasPeriodData = periodMoods.length > 0;
+  const filterCount = countMoodQueryCriteria(filter);
   const reveal = (index: number) =>
     FadeInUp.duration(motion.duration.normal).delay(index * motion.stagger.tight);
 
@@ -237,18 +252,31 @@ export function InsightsScreen() {
             style={{ flex: 1 }}
           >
             {/* Time Period Selector */}
-            <TimePeriodSelector value={period} onChange={setPeriod} />
+            <View className="flex-row items-center pr-4">
+              <View className="flex-1">
+                <TimePeriodSelector value={period} onChange={setPeriod} />
+              </View>
+              {/* SegmentedControl carries a bottom margin; match it to stay centered. */}
+              <View className="mb-4">
+                <MoodFilterButton
+                  activeCount={filterCount}
+                  onPress={() => setFilterSheetVisible(true)}
+                />
+              </View>
+            </View>
 
-            {/* Week/Day Navigator */}
-            <WeekNavigator
-              currentDate={currentDate}
-              period={period}
-              onPrevious={goToPrevious}
-              onNext={goToNext}
-              onToday={goToToday}
-              canGoNext={canGoNext}
-              canGoPrevious={canGoPrevious}
-            />
+            {/* Week/Day Navigator (the comparison picks its own dates) */}
+            {period !== "compare" && (
+              <WeekNavigator
+                currentDate={currentDate}
+                period={period}
+                onPrevious={goToPrevious}
+                onNext={goToNext}
+                onToday={goToToday}
+                canGoNext={canGoNext}
+                canGoPrevious={canGoPrevious}
+              />
+            )}
 
             <ScrollView
               className="flex-1"
@@ -266,7 +294,18 @@ export function InsightsScreen() {
                 />
               }
             >
-              {hasPeriodData ? (
+              {period === "compare" ? (
+                <>
+                  <Animated.View entering={reveal(0)} className="mb-4">
+                    <PeriodComparisonSetup config={comparisonConfig} onChange={setComparisonConfig} />
+                  </Animated.View>
+                  {comparison && (
+                    <Animated.View entering={reveal(1)} className="mb-4">
+                      <PeriodComparisonCard comparison={comparison} />
+                    </Animated.View>
+                  )}
+                </>
+              ) : hasPeriodData ? (
                 <>
                   {/* Hero metric */}
                   <Animated.View entering={reveal(0)} className="mb-4">
@@ -362,9 +401,23 @@ export function InsightsScreen() {
                     </Animated.View>
                   )}
 
+                  {/* Baseline shifts and unusual days (month/all view) */}
+                  {baselineChanges.shifts.length + baselineChanges.anomalies.length > 0 && (
+                    <Animated.View entering={reveal(5)} className="mb-4">
+                      <BaselineChangesCard changes={baselineChanges} />
+                    </Animated.View>
+                  )}
+
+                  {/* Mood x energy quadrants (entries with an energy level) */}
+                  {energyQuadrants.summary.total > 0 && (
+                    <Animated.View entering={reveal(6)} className="mb-4">
+                      <EnergyQuadrantCard analysis={energyQuadrants} />
+                    </Animated.View>
+                  )}
+
                   {/* Entries List */}
                   {periodMoods.length > 0 && (
-                    <Animated.View entering={reveal(5)}>
+                    <Animated.View entering={reveal(7)}>
                     <SurfaceCard tone="sage" style={{ marginBottom: 4 }}>
                       <View className="flex-row items-center mb-4">
                         <IconBadge
@@ -462,6 +515,16 @@ export function InsightsScreen() {
                 </>
               ) : (
                 /* No data for this period */
+                filterCount > 0 ? (
+                  <EmptyState
+                    icon="funnel-outline"
+                    tone="sand"
+                    title="No matching entries"
+                    description="No entries in this period match your filters."
+                    actionLabel="Clear Filters"
+                    onAction={() => setFilter({})}
+                  />
+                ) : (
                 <EmptyState
                   icon="calendar-clear-outline"
                   tone="sand"
@@ -474,12 +537,21 @@ export function InsightsScreen() {
                       : "No mood entries for this time period."
                   }
                 />
+                )
               )}
             </ScrollView>
           </Animated.View>
         )}
       </SafeAreaView>
 
+      <MoodFilterSheet
+        visible={filterSheetVisible}
+        value={filter}
+        onApply={setFilter}
+        onClose={() => setFilterSheetVisible(false)}
+        showDateRange={false}
+      />
+
       {/* Entry Detail Modal */}
       <EntryDetailModal
         entry={selectedEntry}
@@ -0,0 +1,168 @@
+import type { MoodEntry } from "@db/types";
+import {
+  getInterpretedMoodRating,
+  isBetterMoodRating,
+} from "@/constants/moodScaleInterpretation";
+import {
+  adjustPValuesBenjaminiHochberg,
+  hedgesG,
+  mean,
+  welchTTest,
+} from "./statistics";
+
+export type CorrelationSource = "emotion" | "context" | "place";
+
+export type EvidenceLevel = "strong" | "moderate" | "limited";
+
+/**
+ * How entries with one emotion, context tag or place compare with all other
+ * entries.
+ * Rating values are on the current Mood Scale.
+ */
+export interface MoodCorrelation {
+  source: CorrelationSource;
+  /** As first written in the history */
+  name: string;
+  withCount: number;
+  withoutCount: number;
+  meanWith: number;
+  meanWithout: number;
+  /** meanWith - meanWithout, with its 95% confidence interval */
+  difference: number;
+  ciLow: number;
+  ciHigh: number;
+  /** Hedges' g */
+  effectSize: number;
+  pValue: number;
+  /** Adjusted across every emotion, tag and place tested together */
+  adjustedPValue: number;
+  evidence: EvidenceLevel;
+  isBetter: boolean;
+}
+
+/** Entries needed both with and without a label before it is tested */
+export const MIN_CORRELATION_GROUP_SIZE = 5;
+
+const EVIDENCE_RANK: Record<EvidenceLevel, number> = {
+  strong: 3,
+  moderate: 2,
+  limited: 1,
+};
+
+/**
+ * Grades a finding by its adjusted p-value and effect size. Returns null when
+ * the evidence is too weak to show at all.
+ */
+export function getEvidenceLevel(
+  adjustedPValue: number,
+  effectSize: number
+): EvidenceLevel | null {
+  const magnitude = Math.abs(effectSize);
+  if (adjustedPValue < 0.01 && magnitude >= 0.8) return "strong";
+  if (adjustedPValue < 0.05 && magnitude >= 0.5) return "moderate";
+  if (adjustedPValue < 0.1 && magnitude >= 0.3) return "limited";
+  return null;
+}
+
+export function describeEvidence(level: EvidenceLevel): string {
+  return `${level} evidence`;
+}
+
+/** 1 for strong, 2/3 for moderate and 1/3 for limited evidence */
+export function getEvidenceConfidence(level: EvidenceLevel): number {
+  return EVIDENCE_RANK[level] / 3;
+}
+
+type LabelGroup = { source: CorrelationSource; name: string; entryIds: Set<number> };
+
+function collectLabels(moods: MoodEntry[]): LabelGroup[] {
+  const groups = new Map<string, LabelGroup>();
+  const add = (
+    source: CorrelationSource,
+    name: string,
+    entryId: number,
+    id = name.toLowerCase()
+  ) => {
+    const key = `${source}:${id}`;
+    const group = groups.get(key) ?? { source, name, entryIds: new Set<number>() };
+    group.entryIds.add(entryId);
+    groups.set(key, group);
+  };
+
+  moods.forEach((mood) => {
+    mood.emotions?.forEach((emotion) => add("emotion", emotion.name, mood.id));
+    mood.contextTags?.forEach((tag) => add("context", tag, mood.id));
+    // Saved places keep their group when renamed; one-off places go by name.
+    if (mood.location) {
+      add(
+        "place",
+        mood.location.name,
+        mood.id,
+        mood.location.placeId ?? `name:${mood.location.name.toLowerCase()}`
+      );
+    }
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Tests every emotion, context tag and place against the entries without it,
+ * using Welch's t-test with Benjamini-Hochberg correction across all of them.
+ * Labels seen on fewer than `minGroupSize` entries, or missing from fewer
+ * than that, are skipped. Findings are ranked by evidence, then effect size.
+ */
+export function findMoodCorrelations(
+  moods: MoodEntry[],
+  { minGroupSize = MIN_CORRELATION_GROUP_SIZE }: { minGroupSize?: number } = {}
+): MoodCorrelation[] {
+  const ratings = new Map(moods.map((mood) => [mood.id, getInterpretedMoodRating(mood)]));
+
+  const tested = collectLabels(moods).flatMap((group) => {
+    const withRatings: number[] = [];
+    const withoutRatings: number[] = [];
+    ratings.forEach((rating, id) => {
+      (group.entryIds.has(id) ? withRatings : withoutRatings).push(rating);
+    });
+    if (withRatings.length < minGroupSize || withoutRatings.length < minGroupSize) {
+      return [];
+    }
+    const test = welchTTest(withRatings, withoutRatings);
+    if (!test) return [];
+    return [{ group, withRatings, withoutRatings, test }];
+  });
+
+  const adjusted = adjustPValuesBenjaminiHochberg(tested.map(({ test }) => test.pValue));
+
+  return tested
+    .flatMap(({ group, withRatings, withoutRatings, test }, index): MoodCorrelation[] => {
+      const effectSize = hedgesG(withRatings, withoutRatings);
+      const evidence = getEvidenceLevel(adjusted[index], effectSize);
+      if (!evidence) return [];
+      const meanWith = mean(withRatings);
+      const meanWithout = mean(withoutRatings);
+      return [
+        {
+          source: group.source,
+          name: group.name,
+          withCount: withRatings.length,
+          withoutCount: withoutRatings.length,
+          meanWith,
+          meanWithout,
+          difference: test.difference,
+          ciLow: test.ciLow,
+          ciHigh: test.ciHigh,
+          effectSize,
+          pValue: test.pValue,
+          adjustedPValue: adjusted[index],
+          evidence,
+          isBetter: isBetterMoodRating(meanWith, meanWithout),
+        },
+      ];
+    })
+    .sort(
+      (a, b) =>
+        EVIDENCE_RANK[b.evidence] - EVIDENCE_RANK[a.evidence] ||
+        Math.abs(b.effectSize) - Math.abs(a.effectSize) ||
+        a.adjustedPValue - b.adjustedPValue
+    );
+}
@@ -0,0 +1,163 @@
+/**
+ * Mood x energy quadrants
+ *
+ * Places each entry with an energy level on two axes: energy (0-10) and how
+ * good its mood was on the entry's own Mood Scale, so entries recorded under
+ * either scale direction land on the same side. Entries without energy are
+ * left out.
+ */
+
+import type { MoodEntry } from "@db/types";
+import { getMoodRatingSeverity } from "@/constants/moodScaleInterpretation";
+
+export type EnergyQuadrant = "energized" | "calm" | "agitated" | "depleted";
+
+/** Good moods first, then high energy first */
+export const ENERGY_QUADRANTS: EnergyQuadrant[] = ["energized", "calm", "agitated", "depleted"];
+
+export const ENERGY_QUADRANT_LABELS: Record<EnergyQuadrant, string> = {
+  energized: "High-Energy Good",
+  calm: "Low-Energy Good",
+  agitated: "Agitated",
+  depleted: "Depleted",
+};
+
+/** Energy at or above this is high; moods at neutral or better are good. */
+export const ENERGY_MIDPOINT = 5;
+
+export interface EnergyMoodPoint {
+  id: number;
+  energy: number;
+  /** 0 for the best rating on the entry's scale, 1 for the worst */
+  moodSeverity: number;
+  quadrant: EnergyQuadrant;
+}
+
+export interface EnergyQuadrantSummary {
+  /** Entries with an energy level */
+  total: number;
+  counts: Record<EnergyQuadrant, number>;
+  /** Share of `total`, 0-1; all 0 when `total` is 0 */
+  shares: Record<EnergyQuadrant, number>;
+}
+
+export interface EnergyQuadrantShift {
+  current: EnergyQuadrantSummary;
+  previous: EnergyQuadrantSummary;
+  /** current share - previous share; 0 unless both weeks have entries */
+  shifts: Record<EnergyQuadrant, number>;
+}
+
+export interface EnergyQuadrantAnalysis {
+  points: EnergyMoodPoint[];
+  summary: EnergyQuadrantSummary;
+  weeklyShift: EnergyQuadrantShift;
+}
+
+function quadrantRecord(value: (quadrant: EnergyQuadrant) => number): Record<EnergyQuadrant, number> {
+  return {
+    energized: value("energized"),
+    calm: value("calm"),
+    agitated: value("agitated"),
+    depleted: value("depleted"),
+  };
+}
+
+export function getEnergyMoodPoint(
+  entry: Pick<MoodEntry, "id" | "mood" | "energy" | "moodScale">
+): EnergyMoodPoint | null {
+  if (entry.energy === null) return null;
+
+  const moodSeverity = getMoodRatingSeverity(entry.mood, entry.moodScale);
+  const isGood = moodSeverity <= 0.5;
+  const isHighEnergy = entry.energy >= ENERGY_MIDPOINT;
+  const quadrant: EnergyQuadrant = isGood
+    ? isHighEnergy
+      ? "energized"
+      : "calm"
+    : isHighEnergy
+      ? "agitated"
+      : "depleted";
+  return { id: entry.id, energy: entry.energy, moodSeverity, quadrant };
+}
+
+// Integer ratings stack on the same spot; a small fixed offset per entry
+// keeps them visible.
+function jitter(id: number): number {
+  return ((id * 37) % 7) - 3;
+}
+
+/**
+ * Where a point of radius `radius` is drawn in a `width` x `height` chart:
+ * better moods at the top, higher energy to the right. Points are kept
+ * inside their own quadrant, so ones on a midline (energy 5, a neutral mood)
+ * are drawn on the side they are counted on.
+ */
+export function getScatterPosition(
+  point: EnergyMoodPoint,
+  width: number,
+  height: number,
+  radius: number
+): { x: number; y: number } {
+  const midX = (width * ENERGY_MIDPOINT) / 10;
+  const midY = height / 2;
+  const isHighEnergy = point.quadrant === "energized" || point.quadrant === "agitated";
+  const isGood = point.quadrant === "energized" || point.quadrant === "calm";
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  const x = (point.energy / 10) * width + jitter(point.id);
+  const y = point.moodSeverity * height + jitter(point.id + 3);
+  return {
+    x: isHighEnergy ? clamp(x, midX + radius, width - radius) : clamp(x, radius, midX - radius),
+    y: isGood ? clamp(y, radius, midY - radius) : clamp(y, midY + radius, height - radius),
+  };
+}
+
+function toPoints(moods: MoodEntry[]): EnergyMoodPoint[] {
+  return moods.flatMap((mood) => {
+    const point = getEnergyMoodPoint(mood);
+    return point ? [point] : [];
+  });
+}
+
+/** Time spent in each quadrant, measured as the share of entries */
+export function summarizeEnergyQuadrants(moods: MoodEntry[]): EnergyQuadrantSummary {
+  const points = toPoints(moods);
+  const counts = quadrantRecord(
+    (quadrant) => points.filter((point) => point.quadrant === quadrant).length
+  );
+  const total = points.length;
+  return {
+    total,
+    counts,
+    shares: quadrantRecord((quadrant) => (total > 0 ? counts[quadrant] / total : 0)),
+  };
+}
+
+/** Compares one week's quadrant shares with the week before */
+export function compareQuadrantWeeks(
+  currentWeekMoods: MoodEntry[],
+  previousWeekMoods: MoodEntry[]
+): EnergyQuadrantShift {
+  const current = summarizeEnergyQuadrants(currentWeekMoods);
+  const previous = summarizeEnergyQuadrants(previousWeekMoods);
+  const comparable = current.total > 0 && previous.total > 0;
+  return {
+    current,
+    previous,
+    shifts: quadrantRecord((quadrant) =>
+      comparable ? current.shares[quadrant] - previous.shares[quadrant] : 0
+    ),
+  };
+}
+
+export function analyzeEnergyQuadrants(
+  periodMoods: MoodEntry[],
+  currentWeekMoods: MoodEntry[],
+  previousWeekMoods: MoodEntry[]
+): EnergyQuadrantAnalysis {
+  return {
+    points: toPoints(periodMoods),
+    summary: summarizeEnergyQuadrants(periodMoods),
+    weeklyShift: compareQuadrantWeeks(currentWeekMoods, previousWeekMoods),
+  };
+}
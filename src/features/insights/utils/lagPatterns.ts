@@ -0,0 +1,258 @@
+/**
+ * Lagged and sequential patterns
+ *
+ * Looks across days instead of within one entry: what a day's context tags
+ * or energy say about the days after it, and how long low moods last.
+ * Entries are grouped by local calendar day; a day's mood and energy are the
+ * averages of its entries.
+ */
+
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import type { MoodEntry } from "@db/types";
+import {
+  compareMoodRatings,
+  getInterpretedMoodRating,
+  getNeutralMoodRating,
+  isBetterMoodRating,
+} from "@/constants/moodScaleInterpretation";
+import {
+  MIN_CORRELATION_GROUP_SIZE,
+  getEvidenceLevel,
+  type EvidenceLevel,
+} from "./correlation";
+import {
+  adjustPValuesBenjaminiHochberg,
+  hedgesG,
+  mean,
+  welchTTest,
+} from "./statistics";
+
+/** How the days after one kind of day compare with the days after others */
+export interface LaggedEffect {
+  /** Days between the leading day and the day compared */
+  lagDays: number;
+  withCount: number;
+  withoutCount: number;
+  meanWith: number;
+  meanWithout: number;
+  difference: number;
+  effectSize: number;
+  adjustedPValue: number;
+  evidence: EvidenceLevel;
+  isBetter: boolean;
+}
+
+export interface NextDayContextEffect extends LaggedEffect {
+  /** As first written in the history */
+  name: string;
+}
+
+export interface RecoveryTimes {
+  episodes: number;
+  /** Calendar days from the first low entry to the first entry back at neutral */
+  medianDays: number;
+}
+
+/** Daily average energy at or below this counts as a low-energy day */
+export const LOW_ENERGY_LEVEL = 3;
+
+/** Entries rated this or worse start a low spell */
+export const LOW_MOOD_RATING = 8;
+
+export const MAX_ENERGY_LAG_DAYS = 3;
+
+const MIN_RECOVERY_EPISODES = 3;
+
+type DaySummary = {
+  date: Date;
+  mood: number;
+  energy: number | null;
+  /** Lowercase tag -> tag as first written */
+  contextTags: Map<string, string>;
+};
+
+function dayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function summarizeDays(moods: MoodEntry[]): Map<string, DaySummary> {
+  const grouped = new Map<string, MoodEntry[]>();
+  moods.forEach((mood) => {
+    const key = dayKey(new Date(mood.timestamp));
+    grouped.set(key, [...(grouped.get(key) ?? []), mood]);
+  });
+
+  const days = new Map<string, DaySummary>();
+  grouped.forEach((entries, key) => {
+    const energies = entries
+      .map((entry) => entry.energy)
+      .filter((energy): energy is number => energy !== null);
+    const contextTags = new Map<string, string>();
+    entries.forEach((entry) =>
+      entry.contextTags?.forEach((tag) => {
+        if (!contextTags.has(tag.toLowerCase())) contextTags.set(tag.toLowerCase(), tag);
+      })
+    );
+    const date = new Date(entries[0].timestamp);
+    date.setHours(0, 0, 0, 0);
+    days.set(key, {
+      date,
+      mood: mean(entries.map((entry) => getInterpretedMoodRating(entry))),
+      energy: energies.length > 0 ? mean(energies) : null,
+      contextTags,
+    });
+  });
+  return days;
+}
+
+/**
+ * Pairs each day with the day `lagDays` later, skipping days without a
+ * follow-up entry.
+ */
+function pairDays(
+  days: Map<string, DaySummary>,
+  lagDays: number
+): { lead: DaySummary; follow: DaySummary }[] {
+  return Array.from(days.values()).flatMap((lead) => {
+    const follow = days.get(dayKey(addDays(lead.date, lagDays)));
+    return follow ? [{ lead, follow }] : [];
+  });
+}
+
+type LaggedComparison = { withRatings: number[]; withoutRatings: number[]; lagDays: number };
+
+function testLaggedComparisons<T extends LaggedComparison>(
+  comparisons: T[],
+  minGroupSize: number
+): { comparison: T; effect: LaggedEffect }[] {
+  const tested = comparisons.flatMap((comparison) => {
+    if (
+      comparison.withRatings.length < minGroupSize ||
+      comparison.withoutRatings.length < minGroupSize
+    ) {
+      return [];
+    }
+    const test = welchTTest(comparison.withRatings, comparison.withoutRatings);
+    return test ? [{ comparison, test }] : [];
+  });
+  const adjusted = adjustPValuesBenjaminiHochberg(tested.map(({ test }) => test.pValue));
+
+  return tested.flatMap(({ comparison, test }, index) => {
+    const effectSize = hedgesG(comparison.withRatings, comparison.withoutRatings);
+    const evidence = getEvidenceLevel(adjusted[index], effectSize);
+    if (!evidence) return [];
+    const meanWith = mean(comparison.withRatings);
+    const meanWithout = mean(comparison.withoutRatings);
+    const effect: LaggedEffect = {
+      lagDays: comparison.lagDays,
+      withCount: comparison.withRatings.length,
+      withoutCount: comparison.withoutRatings.length,
+      meanWith,
+      meanWithout,
+      difference: test.difference,
+      effectSize,
+      adjustedPValue: adjusted[index],
+      evidence,
+      isBetter: isBetterMoodRating(meanWith, meanWithout),
+    };
+    return [{ comparison, effect }];
+  });
+}
+
+function byStrength(a: LaggedEffect, b: LaggedEffect): number {
+  return (
+    Math.abs(b.effectSize) - Math.abs(a.effectSize) || a.adjustedPValue - b.adjustedPValue
+  );
+}
+
+/**
+ * Compares the day after each context tag with the day after days without
+ * it. Tags are corrected for multiple comparisons together and ranked by
+ * effect size.
+ */
+export function findNextDayContextEffects(
+  moods: MoodEntry[],
+  { minGroupSize = MIN_CORRELATION_GROUP_SIZE }: { minGroupSize?: number } = {}
+): NextDayContextEffect[] {
+  const pairs = pairDays(summarizeDays(moods), 1);
+  const names = new Map<string, string>();
+  pairs.forEach(({ lead }) =>
+    lead.contextTags.forEach((name, key) => {
+      if (!names.has(key)) names.set(key, name);
+    })
+  );
+
+  const comparisons = Array.from(names.entries()).map(([key, name]) => {
+    const withRatings: number[] = [];
+    const withoutRatings: number[] = [];
+    pairs.forEach(({ lead, follow }) =>
+      (lead.contextTags.has(key) ? withRatings : withoutRatings).push(follow.mood)
+    );
+    return { name, lagDays: 1, withRatings, withoutRatings };
+  });
+
+  return testLaggedComparisons(comparisons, minGroupSize)
+    .map(({ comparison, effect }) => ({ name: comparison.name, ...effect }))
+    .sort(byStrength);
+}
+
+/**
+ * Whether low-energy days are followed by worse moods 1 to
+ * `MAX_ENERGY_LAG_DAYS` days later, compared with other days with an energy
+ * level. Returns the strongest lag that holds up after correction, or null.
+ */
+export function findLowEnergyDip(
+  moods: MoodEntry[],
+  { minGroupSize = MIN_CORRELATION_GROUP_SIZE }: { minGroupSize?: number } = {}
+): LaggedEffect | null {
+  const days = summarizeDays(moods);
+  const comparisons = Array.from({ length: MAX_ENERGY_LAG_DAYS }, (_, index) => {
+    const lagDays = index + 1;
+    const withRatings: number[] = [];
+    const withoutRatings: number[] = [];
+    pairDays(days, lagDays).forEach(({ lead, follow }) => {
+      if (lead.energy === null) return;
+      (lead.energy <= LOW_ENERGY_LEVEL ? withRatings : withoutRatings).push(follow.mood);
+    });
+    return { lagDays, withRatings, withoutRatings };
+  });
+
+  const dips = testLaggedComparisons(comparisons, minGroupSize)
+    .map(({ effect }) => effect)
+    .filter((effect) => !effect.isBetter)
+    .sort(byStrength);
+  return dips[0] ?? null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * How long it takes to get back to a neutral mood after an entry rated
+ * `LOW_MOOD_RATING` or worse. Spells still ongoing at the end of the history
+ * are left out. Returns null with fewer than three finished spells.
+ */
+export function findRecoveryTimes(moods: MoodEntry[]): RecoveryTimes | null {
+  const neutral = getNeutralMoodRating();
+  const sorted = [...moods].sort((a, b) => a.timestamp - b.timestamp);
+  const durations: number[] = [];
+  let spellStart: number | null = null;
+
+  sorted.forEach((mood) => {
+    const rating = getInterpretedMoodRating(mood);
+    if (spellStart === null) {
+      if (!isBetterMoodRating(rating, LOW_MOOD_RATING)) {
+        spellStart = mood.timestamp;
+      }
+    } else if (compareMoodRatings(rating, neutral) >= 0) {
+      durations.push(differenceInCalendarDays(mood.timestamp, spellStart));
+      spellStart = null;
+    }
+  });
+
+  if (durations.length < MIN_RECOVERY_EPISODES) return null;
+  return { episodes: durations.length, medianDays: median(durations) };
+}
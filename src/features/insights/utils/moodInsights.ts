@@ -1,6 +1,7 @@
 import {
   addMonths,
   addWeeks,
+  differenceInCalendarDays,
   endOfMonth,
   endOfWeek,
   startOfMonth,
@@ -9,16 +10,36 @@ import {
   subWeeks,
 } from "date-fns";
 import type { MoodEntry } from "@db/types";
+import {
+  DEFAULT_ENTRY_TIMING_PREFS,
+  filterByEntryTiming,
+  type EntryTimingPrefs,
+} from "@/lib/entryTiming";
+import { processMoodDataForDailyChart } from "@/lib/moodChartData";
+import {
+  detectBaselineShifts,
+  detectMoodAnomalies,
+  type BaselineShift,
+  type MoodAnomaly,
+} from "@/lib/moodBaseline";
 import type { TimePeriod } from "../components/TimePeriodSelector";
 import { calculatePeriodStats, type PeriodStats } from "./periodStats";
 import { calculateStreak, detectPatterns, type Pattern } from "./patternDetection";
+import { analyzeEnergyQuadrants, type EnergyQuadrantAnalysis } from "./energyQuadrants";
+
+export type BaselineChanges = {
+  shifts: BaselineShift[];
+  anomalies: MoodAnomaly[];
+};
 
 export type MoodInsightsResult = {
   periodMoods: MoodEntry[];
   previousPeriodMoods: MoodEntry[];
   stats: PeriodStats;
   patterns: Pattern[];
+  baselineChanges: BaselineChanges;
   streak: { current: number; longest: number };
+  energyQuadrants: EnergyQuadrantAnalysis;
 };
 
 export function getMoodsInPeriod(
@@ -67,11 +88,37 @@ export function getNextPeriodDate(period: TimePeriod, date: Date): Date {
   return date;
 }
 
+/** Baseline shifts and unusual days over every day from the first entry to the last */
+export function findBaselineChanges(moods: MoodEntry[]): BaselineChanges {
+  if (moods.length === 0) {
+    return { shifts: [], anomalies: [] };
+  }
+  const { first, last } = moods.reduce(
+    (range, entry) => ({
+      first: Math.min(range.first, entry.timestamp),
+      last: Math.max(range.last, entry.timestamp),
+    }),
+    { first: Infinity, last: -Infinity }
+  );
+  const { dailyAggregates } = processMoodDataForDailyChart(
+    moods,
+    differenceInCalendarDays(last, first) + 1
+  );
+  const shifts = detectBaselineShifts(dailyAggregates);
+  return { shifts, anomalies: detectMoodAnomalies(dailyAggregates, shifts) };
+}
+
+/**
+ * `timing` decides whether backfilled entries feed the period stats and
+ * patterns, and separately whether they keep a streak going.
+ */
 export function buildMoodInsights(
-  allMoods: MoodEntry[],
+  moods: MoodEntry[],
   period: TimePeriod,
-  currentDate: Date
+  currentDate: Date,
+  timing: EntryTimingPrefs = DEFAULT_ENTRY_TIMING_PREFS
 ): MoodInsightsResult {
+  const allMoods = filterByEntryTiming(moods, timing.countBackfilledInInsights);
   const periodMoods = getMoodsInPeriod(allMoods, period, currentDate);
   const previousPeriodMoods =
     period === "all"
@@ -88,6 +135,14 @@ export function buildMoodInsights(
     previousPeriodMoods,
     stats: calculatePeriodStats(periodMoods, previousPeriodMoods),
     patterns: period === "week" ? [] : detectPatterns(moodsForPatterns),
-    streak: calculateStreak(allMoods),
+    baselineChanges:
+      period === "week" ? { shifts: [], anomalies: [] } : findBaselineChanges(moodsForPatterns),
+    streak: calculateStreak(moods, { includeBackfilled: timing.countBackfilledInStreaks }),
+    // Week over week around `currentDate`, whatever the selected period.
+    energyQuadrants: analyzeEnergyQuadrants(
+      periodMoods,
+      getMoodsInPeriod(allMoods, "week", currentDate),
+      getMoodsInPeriod(allMoods, "week", getPreviousPeriodDate("week", currentDate))
+    ),
   };
 }
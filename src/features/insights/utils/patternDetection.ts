@@ -5,16 +5,37 @@ import {
   isBetterMoodRating,
   sortMoodRatingsBestFirst,
 } from "@/constants/moodScaleInterpretation";
+import { filterByEntryTiming } from "@/lib/entryTiming";
+import {
+  findMoodCorrelations,
+  getEvidenceConfidence,
+  type EvidenceLevel,
+  type MoodCorrelation,
+} from "./correlation";
+import {
+  findLowEnergyDip,
+  findNextDayContextEffects,
+  findRecoveryTimes,
+  LOW_MOOD_RATING,
+} from "./lagPatterns";
 
 export interface Pattern {
   id: string;
-  type: "time_of_day" | "day_of_week" | "emotion" | "context" | "weekend";
+  type: "time_of_day" | "day_of_week" | "emotion" | "context" | "place" | "weekend" | "lagged";
   title: string;
   description: string;
   confidence: number; // 0-1 scale
+  /** Set for patterns backed by a statistical test */
+  evidence?: PatternEvidence;
   icon: string;
 }
 
+export interface PatternEvidence {
+  level: EvidenceLevel;
+  /** Entries the pattern is based on */
+  sampleSize: number;
+}
+
 interface TimeOfDayStats {
   morning: { total: number; count: number }; // 5-11
   afternoon: { total: number; count: number }; // 12-16
@@ -189,94 +210,136 @@ function detectWeekendPattern(moods: MoodEntry[]): Pattern | null {
   };
 }
 
-/**
- * Detect emotion-mood correlations
- */
-function detectEmotionPatterns(moods: MoodEntry[]): Pattern | null {
-  const emotionStats: Record<string, { total: number; count: number }> = {};
-
-  moods.forEach((mood) => {
-    if (mood.emotions && mood.emotions.length > 0) {
-      mood.emotions.forEach((emotion) => {
-        const name = emotion.name.toLowerCase();
-        if (!emotionStats[name]) {
-          emotionStats[name] = { total: 0, count: 0 };
-        }
-        emotionStats[name].total += getInterpretedMoodRating(mood);
-        emotionStats[name].count++;
-      });
-    }
-  });
-
-  const sortedEmotions = Object.entries(emotionStats)
-    .filter(([_, data]) => data.count >= 3)
-    .map(([name, data]) => ({
-      name,
-      avg: data.total / data.count,
-      count: data.count,
-    }))
-    .sort((a, b) => sortMoodRatingsBestFirst(a.avg, b.avg));
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
 
-  if (sortedEmotions.length < 2) return null;
+function formatPoints(difference: number): string {
+  const points = Math.abs(difference).toFixed(1);
+  return `${points} point${points === "1.0" ? "" : "s"}`;
+}
 
-  const best = sortedEmotions[0];
-  const worst = sortedEmotions[sortedEmotions.length - 1];
+function toEvidence(correlation: MoodCorrelation): PatternEvidence {
+  return { level: correlation.evidence, sampleSize: correlation.withCount };
+}
 
-  // Capitalize first letter
-  const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+/**
+ * Strongest emotion-mood correlation, if any holds up after correction
+ */
+function detectEmotionPatterns(correlations: MoodCorrelation[]): Pattern | null {
+  const top = correlations.find((correlation) => correlation.source === "emotion");
+  if (!top) return null;
 
   return {
     id: "emotion_correlation",
     type: "emotion",
     title: "Emotion Insight",
-    description: `When feeling "${capitalize(best.name)}", your mood tends to be better`,
-    confidence: Math.min(Math.abs(worst.avg - best.avg) / 2, 1),
+    description: `When feeling "${capitalize(top.name)}", your mood tends to be ${
+      top.isBetter ? "better" : "worse"
+    }, by about ${formatPoints(top.difference)}`,
+    confidence: getEvidenceConfidence(top.evidence),
+    evidence: toEvidence(top),
     icon: "heart-outline",
   };
 }
 
 /**
- * Detect context patterns
+ * Strongest context tag-mood correlation, if any holds up after correction
  */
-function detectContextPatterns(moods: MoodEntry[]): Pattern | null {
-  const contextStats: Record<string, { total: number; count: number }> = {};
+function detectContextPatterns(correlations: MoodCorrelation[]): Pattern | null {
+  const top = correlations.find((correlation) => correlation.source === "context");
+  if (!top) return null;
 
-  moods.forEach((mood) => {
-    if (mood.contextTags && mood.contextTags.length > 0) {
-      mood.contextTags.forEach((ctx: string) => {
-        const name = ctx.toLowerCase();
-        if (!contextStats[name]) {
-          contextStats[name] = { total: 0, count: 0 };
-        }
-        contextStats[name].total += getInterpretedMoodRating(mood);
-        contextStats[name].count++;
-      });
-    }
-  });
+  return {
+    id: "context_correlation",
+    type: "context",
+    title: "Context Insight",
+    description: `"${capitalize(top.name)}" activities are associated with ${
+      top.isBetter ? "better" : "worse"
+    } moods, by about ${formatPoints(top.difference)}`,
+    confidence: getEvidenceConfidence(top.evidence),
+    evidence: toEvidence(top),
+    icon: "location-outline",
+  };
+}
 
-  const sortedContexts = Object.entries(contextStats)
-    .filter(([_, data]) => data.count >= 3)
-    .map(([name, data]) => ({
-      name,
-      avg: data.total / data.count,
-      count: data.count,
-    }))
-    .sort((a, b) => sortMoodRatingsBestFirst(a.avg, b.avg));
+/**
+ * Strongest effect of a context tag on the following day
+ */
+function detectNextDayPattern(moods: MoodEntry[]): Pattern | null {
+  const top = findNextDayContextEffects(moods)[0];
+  if (!top) return null;
 
-  if (sortedContexts.length < 2) return null;
+  return {
+    id: "next_day_context",
+    type: "lagged",
+    title: "Next-Day Effect",
+    description: `After "${capitalize(top.name)}" days, the next day tends to be ${
+      top.isBetter ? "better" : "worse"
+    }, by about ${formatPoints(top.difference)}`,
+    confidence: getEvidenceConfidence(top.evidence),
+    evidence: { level: top.evidence, sampleSize: top.withCount },
+    icon: "arrow-forward-circle-outline",
+  };
+}
 
-  const best = sortedContexts[0];
-  const worst = sortedContexts[sortedContexts.length - 1];
+/**
+ * Low energy followed by a mood dip 1-3 days later
+ */
+function detectEnergyDipPattern(moods: MoodEntry[]): Pattern | null {
+  const dip = findLowEnergyDip(moods);
+  if (!dip) return null;
 
-  const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+  const when = dip.lagDays === 1 ? "the next day" : `${dip.lagDays} days later`;
+  return {
+    id: "low_energy_dip",
+    type: "lagged",
+    title: "Energy Early Warning",
+    description: `Low-energy days tend to be followed by a worse mood ${when}, by about ${formatPoints(
+      dip.difference
+    )}`,
+    confidence: getEvidenceConfidence(dip.evidence),
+    evidence: { level: dip.evidence, sampleSize: dip.withCount },
+    icon: "battery-dead-outline",
+  };
+}
 
+/**
+ * Typical time to get back to neutral after a low mood
+ */
+function detectRecoveryPattern(moods: MoodEntry[]): Pattern | null {
+  const recovery = findRecoveryTimes(moods);
+  if (!recovery) return null;
+
+  const days = Math.round(recovery.medianDays);
+  const within = days === 0 ? "the same day" : days === 1 ? "a day" : `${days} days`;
   return {
-    id: "context_correlation",
-    type: "context",
-    title: "Context Insight",
-    description: `"${capitalize(best.name)}" activities are associated with better moods`,
-    confidence: Math.min(Math.abs(worst.avg - best.avg) / 2, 1),
-    icon: "location-outline",
+    id: "recovery_time",
+    type: "lagged",
+    title: "Recovery Time",
+    description: `After a mood of ${LOW_MOOD_RATING} or worse, you are usually back to neutral within ${within}, going by ${recovery.episodes} low spells`,
+    // Descriptive, not a test: grows with the number of low spells seen.
+    confidence: Math.min(recovery.episodes / 10, 1),
+    icon: "refresh-outline",
+  };
+}
+
+/**
+ * Strongest place-mood correlation, if any holds up after correction. Places
+ * group by saved place, or by name for one-off places.
+ */
+function detectPlacePatterns(correlations: MoodCorrelation[]): Pattern | null {
+  const top = correlations.find((correlation) => correlation.source === "place");
+  if (!top) return null;
+
+  return {
+    id: "place_correlation",
+    type: "place",
+    title: "Place Insight",
+    description: `Entries logged at "${top.name}" tend to be ${
+      top.isBetter ? "better" : "worse"
+    } than elsewhere, by about ${formatPoints(top.difference)}`,
+    confidence: getEvidenceConfidence(top.evidence),
+    evidence: toEvidence(top),
+    icon: "map-outline",
   };
 }
 
@@ -287,12 +350,19 @@ function detectContextPatterns(moods: MoodEntry[]): Pattern | null {
 export function detectPatterns(moods: MoodEntry[], maxPatterns = 3): Pattern[] {
   if (moods.length < 7) return [];
 
+  // Emotions, tags and places are corrected for multiple comparisons together.
+  const correlations = findMoodCorrelations(moods);
+
   const allPatterns: (Pattern | null)[] = [
     detectTimeOfDayPattern(moods),
     detectDayOfWeekPattern(moods),
     detectWeekendPattern(moods),
-    detectEmotionPatterns(moods),
-    detectContextPatterns(moods),
+    detectEmotionPatterns(correlations),
+    detectContextPatterns(correlations),
+    detectPlacePatterns(correlations),
+    detectNextDayPattern(moods),
+    detectEnergyDipPattern(moods),
+    detectRecoveryPattern(moods),
   ];
 
   return allPatterns
@@ -302,13 +372,18 @@ export function detectPatterns(moods: MoodEntry[], maxPatterns = 3): Pattern[] {
 }
 
 /**
- * Calculate current streak (consecutive days with entries)
+ * Calculate current streak (consecutive days with entries). Backfilled
+ * entries only count when `includeBackfilled` is set.
  */
-export function calculateStreak(moods: MoodEntry[]): { current: number; longest: number } {
-  if (moods.length === 0) return { current: 0, longest: 0 };
+export function calculateStreak(
+  moods: MoodEntry[],
+  { includeBackfilled = false }: { includeBackfilled?: boolean } = {}
+): { current: number; longest: number } {
+  const countedMoods = filterByEntryTiming(moods, includeBackfilled);
+  if (countedMoods.length === 0) return { current: 0, longest: 0 };
 
   // Sort by timestamp descending
-  const sortedMoods = [...moods].sort((a, b) => b.timestamp - a.timestamp);
+  const sortedMoods = [...countedMoods].sort((a, b) => b.timestamp - a.timestamp);
 
   // Group by date
   const dateSet = new Set<string>();
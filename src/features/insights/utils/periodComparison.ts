@@ -0,0 +1,264 @@
+/**
+ * Custom period comparisons
+ *
+ * Compares two stretches of the history picked by the user instead of a
+ * period and the one right before it: a month against the same month a year
+ * earlier, two custom date ranges, or everything before a date against
+ * everything from it on (say, a medication start). Ratings are on the
+ * current Mood Scale.
+ */
+
+import {
+  endOfDay,
+  endOfMonth,
+  format,
+  isSameYear,
+  startOfDay,
+  startOfMonth,
+  subDays,
+  subYears,
+} from "date-fns";
+import type { MoodEntry } from "@db/types";
+import {
+  getCurrentMoodScaleSnapshot,
+  getInterpretedMoodRating,
+} from "@/constants/moodScaleInterpretation";
+import {
+  DEFAULT_ENTRY_TIMING_PREFS,
+  filterByEntryTiming,
+  type EntryTimingPrefs,
+} from "@/lib/entryTiming";
+import { calculatePeriodStats, type PeriodStats } from "./periodStats";
+
+export type ComparisonMode = "lastYear" | "ranges" | "splitDate";
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/** Dates for every mode, so switching modes keeps what was picked */
+export interface PeriodComparisonConfig {
+  mode: ComparisonMode;
+  /** Any day in the month compared with the same month a year earlier */
+  month: Date;
+  first: DateRange;
+  second: DateRange;
+  /** First day of the "after" side */
+  splitDate: Date;
+}
+
+export interface LabeledRange extends DateRange {
+  label: string;
+}
+
+export interface MoodDistributionBin {
+  /** Rounded rating on the current Mood Scale */
+  rating: number;
+  count: number;
+  /** Share of the side's entries, 0-1 */
+  share: number;
+}
+
+export interface PeriodComparisonSide {
+  range: LabeledRange;
+  moods: MoodEntry[];
+  stats: PeriodStats;
+  distribution: MoodDistributionBin[];
+}
+
+/** How often an emotion was picked on each side, as a share of entries */
+export interface EmotionFrequencyChange {
+  /** As first written in the history */
+  name: string;
+  firstCount: number;
+  secondCount: number;
+  firstShare: number;
+  secondShare: number;
+  /** secondShare - firstShare */
+  change: number;
+}
+
+export interface PeriodComparison {
+  /** The earlier side: last year, the first range, or before the date */
+  first: PeriodComparisonSide;
+  second: PeriodComparisonSide;
+  emotionChanges: EmotionFrequencyChange[];
+}
+
+/** Days in each of the default custom ranges */
+const DEFAULT_RANGE_DAYS = 30;
+
+export function createDefaultComparisonConfig(today: Date = new Date()): PeriodComparisonConfig {
+  const secondStart = startOfDay(subDays(today, DEFAULT_RANGE_DAYS - 1));
+  return {
+    mode: "lastYear",
+    month: today,
+    first: {
+      start: subDays(secondStart, DEFAULT_RANGE_DAYS),
+      end: subDays(secondStart, 1),
+    },
+    second: { start: secondStart, end: startOfDay(today) },
+    splitDate: secondStart,
+  };
+}
+
+function formatRange({ start, end }: DateRange): string {
+  return isSameYear(start, end)
+    ? `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`
+    : `${format(start, "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+}
+
+/** Whole days from the earlier date to the later, whichever order they come in */
+function toDayRange(range: DateRange): DateRange {
+  const [start, end] = range.start <= range.end ? [range.start, range.end] : [range.end, range.start];
+  return { start: startOfDay(start), end: endOfDay(end) };
+}
+
+function toMonthRange(date: Date): LabeledRange {
+  return { start: startOfMonth(date), end: endOfMonth(date), label: format(date, "MMMM yyyy") };
+}
+
+/**
+ * The two ranges compared, earlier first. In before/after mode the sides run
+ * from the first entry and to the last one, so `moods` decides their ends.
+ */
+export function getComparisonRanges(
+  config: PeriodComparisonConfig,
+  moods: MoodEntry[]
+): { first: LabeledRange; second: LabeledRange } {
+  if (config.mode === "lastYear") {
+    return { first: toMonthRange(subYears(config.month, 1)), second: toMonthRange(config.month) };
+  }
+
+  if (config.mode === "ranges") {
+    const first = toDayRange(config.first);
+    const second = toDayRange(config.second);
+    return {
+      first: { ...first, label: formatRange(first) },
+      second: { ...second, label: formatRange(second) },
+    };
+  }
+
+  const split = startOfDay(config.splitDate);
+  const timestamps = moods.map((mood) => mood.timestamp);
+  const earliest = timestamps.length > 0 ? startOfDay(Math.min(...timestamps)) : split;
+  const latest = timestamps.length > 0 ? endOfDay(Math.max(...timestamps)) : endOfDay(split);
+  return {
+    first: {
+      start: earliest < split ? earliest : split,
+      end: new Date(split.getTime() - 1),
+      label: `Before ${format(split, "MMM d, yyyy")}`,
+    },
+    second: {
+      start: split,
+      end: latest > split ? latest : endOfDay(split),
+      label: `Since ${format(split, "MMM d, yyyy")}`,
+    },
+  };
+}
+
+export function getMoodsInRange(moods: MoodEntry[], range: DateRange): MoodEntry[] {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  return moods.filter((mood) => mood.timestamp >= start && mood.timestamp <= end);
+}
+
+/** Entries per rounded rating, one bin for every rating on the current scale */
+export function buildMoodDistribution(moods: MoodEntry[]): MoodDistributionBin[] {
+  const { min, max } = getCurrentMoodScaleSnapshot();
+  const counts = new Map<number, number>();
+  moods.forEach((mood) => {
+    const rating = Math.round(getInterpretedMoodRating(mood));
+    counts.set(rating, (counts.get(rating) ?? 0) + 1);
+  });
+  return Array.from({ length: max - min + 1 }, (_, index) => {
+    const rating = min + index;
+    const count = counts.get(rating) ?? 0;
+    return { rating, count, share: moods.length > 0 ? count / moods.length : 0 };
+  });
+}
+
+function countEmotions(moods: MoodEntry[], names: Map<string, string>): Map<string, number> {
+  const counts = new Map<string, number>();
+  moods.forEach((mood) => {
+    // An emotion counts once per entry
+    const keys = new Set<string>();
+    mood.emotions?.forEach((emotion) => {
+      const key = emotion.name.toLowerCase();
+      if (!names.has(key)) names.set(key, emotion.name);
+      keys.add(key);
+    });
+    keys.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+  return counts;
+}
+
+/**
+ * Every emotion picked on either side, with how its share of entries moved
+ * from the first side to the second. Largest changes first.
+ */
+export function compareEmotionFrequencies(
+  firstMoods: MoodEntry[],
+  secondMoods: MoodEntry[]
+): EmotionFrequencyChange[] {
+  const names = new Map<string, string>();
+  const firstCounts = countEmotions(firstMoods, names);
+  const secondCounts = countEmotions(secondMoods, names);
+  const share = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+  return Array.from(names.entries())
+    .map(([key, name]) => {
+      const firstCount = firstCounts.get(key) ?? 0;
+      const secondCount = secondCounts.get(key) ?? 0;
+      const firstShare = share(firstCount, firstMoods.length);
+      const secondShare = share(secondCount, secondMoods.length);
+      return {
+        name,
+        firstCount,
+        secondCount,
+        firstShare,
+        secondShare,
+        change: secondShare - firstShare,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Math.abs(b.change) - Math.abs(a.change) ||
+        b.firstCount + b.secondCount - (a.firstCount + a.secondCount) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Side-by-side stats, rating distributions and emotion frequencies for the
+ * two ranges picked in `config`. The second side's mood change is measured
+ * against the first. `timing` decides whether backfilled entries count, as
+ * for the period stats.
+ */
+export function comparePeriods(
+  moods: MoodEntry[],
+  config: PeriodComparisonConfig,
+  timing: EntryTimingPrefs = DEFAULT_ENTRY_TIMING_PREFS
+): PeriodComparison {
+  const allMoods = filterByEntryTiming(moods, timing.countBackfilledInInsights);
+  const ranges = getComparisonRanges(config, allMoods);
+  const firstMoods = getMoodsInRange(allMoods, ranges.first);
+  const secondMoods = getMoodsInRange(allMoods, ranges.second);
+
+  return {
+    first: {
+      range: ranges.first,
+      moods: firstMoods,
+      stats: calculatePeriodStats(firstMoods, []),
+      distribution: buildMoodDistribution(firstMoods),
+    },
+    second: {
+      range: ranges.second,
+      moods: secondMoods,
+      stats: calculatePeriodStats(secondMoods, firstMoods),
+      distribution: buildMoodDistribution(secondMoods),
+    },
+    emotionChanges: compareEmotionFrequencies(firstMoods, secondMoods),
+  };
+}
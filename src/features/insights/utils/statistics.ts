@@ -0,0 +1,184 @@
+/**
+ * Small statistics toolkit for insights
+ *
+ * Pure numeric helpers: Welch's t-test with a confidence interval, Hedges' g
+ * and Benjamini-Hochberg adjustment. No dependencies, so results can be
+ * checked against any statistics package.
+ */
+
+export interface WelchTestResult {
+  /** mean(a) - mean(b) */
+  difference: number;
+  standardError: number;
+  degreesOfFreedom: number;
+  t: number;
+  /** Two-sided */
+  pValue: number;
+  /** 95% confidence interval of `difference` */
+  ciLow: number;
+  ciHigh: number;
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Sample variance (n - 1 denominator) */
+export function variance(values: number[]): number {
+  const average = mean(values);
+  return (
+    values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1)
+  );
+}
+
+// Lanczos approximation, accurate to ~15 digits for positive arguments.
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const shifted = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((coefficient, index) => {
+    sum += coefficient / (shifted + index + 1);
+  });
+  const t = shifted + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz).
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let term = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + term * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + term / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    term = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + term * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + term / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return result;
+}
+
+/** Regularized incomplete beta function I_x(a, b) */
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Two-sided p-value of Student's t with `degreesOfFreedom` */
+export function studentTTwoSidedP(t: number, degreesOfFreedom: number): number {
+  return regularizedBeta(
+    degreesOfFreedom / (degreesOfFreedom + t * t),
+    degreesOfFreedom / 2,
+    0.5
+  );
+}
+
+/** Critical t value for a two-sided interval, found by bisection */
+export function studentTCritical(degreesOfFreedom: number, confidence = 0.95): number {
+  const alpha = 1 - confidence;
+  let low = 0;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    if (studentTTwoSidedP(middle, degreesOfFreedom) > alpha) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Welch's unequal-variance t-test of mean(a) against mean(b). Returns null
+ * when either group has fewer than two values or neither group varies, since
+ * the spread can't be estimated.
+ */
+export function welchTTest(a: number[], b: number[]): WelchTestResult | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const varianceA = variance(a) / a.length;
+  const varianceB = variance(b) / b.length;
+  const standardError = Math.sqrt(varianceA + varianceB);
+  if (standardError === 0) return null;
+
+  const difference = mean(a) - mean(b);
+  const degreesOfFreedom =
+    (varianceA + varianceB) ** 2 /
+    (varianceA ** 2 / (a.length - 1) + varianceB ** 2 / (b.length - 1));
+  const t = difference / standardError;
+  const margin = studentTCritical(degreesOfFreedom) * standardError;
+
+  return {
+    difference,
+    standardError,
+    degreesOfFreedom,
+    t,
+    pValue: studentTTwoSidedP(t, degreesOfFreedom),
+    ciLow: difference - margin,
+    ciHigh: difference + margin,
+  };
+}
+
+/**
+ * Hedges' g: the difference in means in pooled standard deviations, with the
+ * small-sample bias correction. Around 0.2 is small, 0.5 medium, 0.8 large.
+ */
+export function hedgesG(a: number[], b: number[]): number {
+  const degreesOfFreedom = a.length + b.length - 2;
+  if (a.length < 2 || b.length < 2) return 0;
+  const pooledVariance =
+    ((a.length - 1) * variance(a) + (b.length - 1) * variance(b)) / degreesOfFreedom;
+  if (pooledVariance === 0) return 0;
+  const correction = 1 - 3 / (4 * degreesOfFreedom - 1);
+  return ((mean(a) - mean(b)) / Math.sqrt(pooledVariance)) * correction;
+}
+
+/**
+ * Benjamini-Hochberg adjusted p-values, in the order given. Controls the
+ * false discovery rate when many comparisons are tested at once.
+ */
+export function adjustPValuesBenjaminiHochberg(pValues: number[]): number[] {
+  const count = pValues.length;
+  const order = pValues
+    .map((pValue, index) => ({ pValue, index }))
+    .sort((a, b) => b.pValue - a.pValue);
+  const adjusted = new Array<number>(count);
+  let runningMin = 1;
+  order.forEach(({ pValue, index }, position) => {
+    const rank = count - position;
+    runningMin = Math.min(runningMin, (pValue * count) / rank);
+    adjusted[index] = runningMin;
+  });
+  return adjusted;
+}
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  Pressable,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useColorScheme } from "nativewind";
+import type { BackupListItem } from "@db/backup";
+import { dataPortabilityService } from "@/services/dataPortabilityService";
+import { Alert } from "@/components/ui/AppAlert";
+import { formatBackupDate, formatBackupSize } from "@/features/settings/utils/backupFormat";
+
+function BackupPreview({ backup }: { backup: BackupListItem }) {
+  if (backup.error) {
+    return (
+      <Text className="text-sm text-coral-600 dark:text-coral-400">
+        This backup cannot be read: {backup.error}
+      </Text>
+    );
+  }
+  if (backup.encrypted || !backup.contents) {
+    return (
+      <Text className="text-sm text-paper-700 dark:text-sand-400">
+        This backup is encrypted. You will be asked for its passphrase before it is restored.
+      </Text>
+    );
+  }
+  return (
+    <Text className="text-sm text-paper-700 dark:text-sand-400">
+      {dataPortabilityService.describeBackupContents(backup.contents)}
+    </Text>
+  );
+}
+
+/**
+ * Lists the backups found on this device (and in the selected backup
+ * folder) with a preview of each, and hands the chosen one to `onRestore`.
+ */
+export function BackupBrowserModal({
+  visible,
+  onClose,
+  onRestore,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  onRestore: (backup: BackupListItem) => void;
+}) {
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const [backups, setBackups] = useState<BackupListItem[] | null>(null);
+  const [selectedUri, setSelectedUri] = useState<string | null>(null);
+  const [verifyingUri, setVerifyingUri] = useState<string | null>(null);
+
+  const handleVerify = async (backup: BackupListItem) => {
+    setVerifyingUri(backup.uri);
+    try {
+      const verification = await dataPortabilityService.verifyBackup(backup.uri);
+      Alert.alert(
+        verification.ok ? "Backup Checked" : "Backup Problem",
+        dataPortabilityService.describeBackupVerification(verification)
+      );
+    } catch (error) {
+      console.error("Failed to verify backup:", error);
+      Alert.alert("Error", "Failed to check this backup.");
+    } finally {
+      setVerifyingUri(null);
+    }
+  };
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let cancelled = false;
+    setBackups(null);
+    setSelectedUri(null);
+    dataPortabilityService
+      .listBackups()
+      .then((items) => {
+        if (!cancelled) setBackups(items);
+      })
+      .catch((error) => {
+        console.error("Failed to list backups:", error);
+        if (!cancelled) setBackups([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/40">
+        <View
+          className="rounded-t-3xl pt-6 pb-10 bg-paper-100 dark:bg-paper-900 border-t border-sand-300 dark:border-paper-800"
+          style={{ maxHeight: "85%" }}
+        >
+          <View className="items-center mb-4 px-6">
+            <View className="w-12 h-1.5 rounded-full mb-4 bg-sand-300 dark:bg-sand-800" />
+            <Text className="text-xl font-bold text-paper-800 dark:text-paper-200">Backups</Text>
+            <Text className="text-xs mt-1 text-center text-paper-700 dark:text-sand-400">
+              Restoring replaces the data on this device. A safety backup of your current data
+              is saved first.
+            </Text>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={{ paddingHorizontal: 24, paddingBottom: 16 }}
+            showsVerticalScrollIndicator={false}
+          >
+            {backups === null ? (
+              <ActivityIndicator color={isDark ? "#A8C5A8" : "#5B8A5B"} />
+            ) : backups.length === 0 ? (
+              <Text className="text-sm text-center text-paper-700 dark:text-sand-400">
+                No backups found yet.
+              </Text>
+            ) : (
+              backups.map((backup) => {
+                const isSelected = backup.uri === selectedUri;
+                return (
+                  <Pressable
+                    key={backup.uri}
+                    onPress={() => setSelectedUri(isSelected ? null : backup.uri)}
+                    className={`p-4 mb-3 rounded-2xl border ${
+                      isSelected
+                        ? "border-sage-600 bg-sage-100 dark:bg-sage-600/20"
+                        : "border-sand-300 dark:border-sand-800 bg-paper-200 dark:bg-paper-800"
+                    }`}
+                    accessibilityRole="button"
+                    accessibilityState={{ expanded: isSelected }}
+                  >
+                    <View className="flex-row items-center">
+                      <Ionicons
+                        name={backup.encrypted ? "lock-closed-outline" : "document-text-outline"}
+                        size={18}
+                        color={isDark ? "#A8C5A8" : "#5B8A5B"}
+                        style={{ marginRight: 8 }}
+                      />
+                      <Text className="flex-1 text-base font-semibold text-paper-800 dark:text-paper-200">
+                        {formatBackupDate(backup.contents?.exportedAt ?? backup.timestamp)}
+                        {backup.kind === "incremental" && (
+                          <Text className="text-xs font-normal text-paper-700 dark:text-sand-400">
+                            {"  "}Incremental
+                          </Text>
+                        )}
+                      </Text>
+                      <Text className="text-xs text-paper-700 dark:text-sand-400">
+                        {backup.contents
+                          ? `${backup.contents.entryCount} entr${backup.contents.entryCount === 1 ? "y" : "ies"} · `
+                          : ""}
+                        {formatBackupSize(backup.size)}
+                      </Text>
+                    </View>
+
+                    {isSelected && (
+                      <View className="mt-3">
+                        <BackupPreview backup={backup} />
+                        <TouchableOpacity
+                          onPress={() => void handleVerify(backup)}
+                          disabled={verifyingUri !== null}
+                          className="mt-3 p-3 rounded-xl flex-row justify-center items-center bg-paper-200 dark:bg-paper-800 border border-sand-300 dark:border-sand-800"
+                        >
+                          {verifyingUri === backup.uri ? (
+                            <ActivityIndicator color={isDark ? "#A8C5A8" : "#5B8A5B"} />
+                          ) : (
+                            <>
+                              <Ionicons
+                                name="shield-checkmark-outline"
+                                size={18}
+                                color={isDark ? "#A8C5A8" : "#5B8A5B"}
+                                style={{ marginRight: 8 }}
+                              />
+                              <Text className="font-semibold text-paper-700 dark:text-sand-400">
+                                Verify Backup
+                              </Text>
+                            </>
+                          )}
+                        </TouchableOpacity>
+                        {!backup.error && (
+                          <TouchableOpacity
+                            onPress={() => onRestore(backup)}
+                            className="mt-3 p-3 rounded-xl flex-row justify-center items-center bg-sage-600 dark:bg-sage-600"
+                          >
+                            <Ionicons
+                              name="refresh-outline"
+                              size={18}
+                              color="white"
+                              style={{ marginRight: 8 }}
+                            />
+                            <Text className="text-white font-bold">Restore This Backup</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    )}
+                  </Pressable>
+                );
+              })
+            )}
+          </ScrollView>
+
+          <View className="px-6 pt-2">
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-4 rounded-xl items-center bg-paper-200 dark:bg-paper-800"
+            >
+              <Text className="font-semibold text-paper-700 dark:text-sand-400">Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
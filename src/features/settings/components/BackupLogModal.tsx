@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  Platform,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useColorScheme } from "nativewind";
+import * as Clipboard from "expo-clipboard";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import type { BackupLogEntry } from "@db/backupLog";
+import { dataPortabilityService } from "@/services/dataPortabilityService";
+import { formatBackupLogEntry } from "@/features/settings/utils/backupFormat";
+import { Alert } from "@/components/ui/AppAlert";
+
+async function shareBackupLog() {
+  const { fileName, content } = await dataPortabilityService.exportBackupLog(
+    `${Platform.OS} ${Platform.Version}`
+  );
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, content, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, {
+      mimeType: "application/json",
+      dialogTitle: "Moodinator Backup History",
+    });
+    return;
+  }
+  // The log holds file names, counts and errors, not entries, so copying it is safe.
+  await Clipboard.setStringAsync(content);
+  Alert.alert("Copied", "Sharing is unavailable, so the backup history was copied to your clipboard.");
+}
+
+function LogEntryRow({ entry, isDark }: { entry: BackupLogEntry; isDark: boolean }) {
+  const { title, detail } = formatBackupLogEntry(entry);
+  const icon =
+    entry.result === "failure"
+      ? "alert-circle-outline"
+      : entry.result === "skipped"
+        ? "remove-circle-outline"
+        : "checkmark-circle-outline";
+  const color =
+    entry.result === "failure"
+      ? isDark ? "#F5A899" : "#C75441"
+      : isDark ? "#A8C5A8" : "#5B8A5B";
+
+  return (
+    <View className="flex-row py-3 border-b border-sand-300 dark:border-paper-800">
+      <Ionicons name={icon} size={18} color={color} style={{ marginRight: 10, marginTop: 1 }} />
+      <View className="flex-1">
+        <Text className="text-sm font-semibold text-paper-800 dark:text-paper-200">{title}</Text>
+        <Text className="text-xs mt-0.5 text-paper-700 dark:text-sand-400">
+          {new Date(entry.at).toLocaleString()}
+        </Text>
+        {detail && (
+          <Text
+            className={`text-xs mt-1 ${
+              entry.result === "failure"
+                ? "text-coral-600 dark:text-coral-400"
+                : "text-paper-700 dark:text-sand-400"
+            }`}
+          >
+            {detail}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Shows the history of backups, cleanups, restores and imports, newest
+ * first, and exports it as a file to share with support.
+ */
+export function BackupLogModal({ visible, onClose }: { visible: boolean; onClose: () => void }) {
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const [entries, setEntries] = useState<BackupLogEntry[] | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  const loadEntries = useCallback(() => {
+    dataPortabilityService
+      .getBackupLog()
+      .then(setEntries)
+      .catch((error) => {
+        console.error("Failed to load backup history:", error);
+        setEntries([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      setEntries(null);
+      loadEntries();
+    }
+  }, [loadEntries, visible]);
+
+  const handleShare = async () => {
+    try {
+      setSharing(true);
+      await shareBackupLog();
+    } catch (error) {
+      console.error("Failed to export backup history:", error);
+      Alert.alert("Error", "Failed to export the backup history.");
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert("Clear History", "Remove all entries from the backup history? Backup files are not affected.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clear",
+        style: "destructive",
+        onPress: () => {
+          void dataPortabilityService
+            .clearBackupLog()
+            .then(loadEntries)
+            .catch((error) => {
+              console.error("Failed to clear backup history:", error);
+              Alert.alert("Error", "Failed to clear the backup history.");
+            });
+        },
+      },
+    ]);
+  };
+
+  const hasEntries = entries !== null && entries.length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/40">
+        <View
+          className="rounded-t-3xl pt-6 pb-10 bg-paper-100 dark:bg-paper-900 border-t border-sand-300 dark:border-paper-800"
+          style={{ maxHeight: "85%" }}
+        >
+          <View className="items-center mb-2 px-6">
+            <View className="w-12 h-1.5 rounded-full mb-4 bg-sand-300 dark:bg-sand-800" />
+            <Text className="text-xl font-bold text-paper-800 dark:text-paper-200">
+              Backup History
+            </Text>
+            <Text className="text-xs mt-1 text-center text-paper-700 dark:text-sand-400">
+              Backups, cleanups, restores and imports on this device. The history never
+              includes your entries.
+            </Text>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={{ paddingHorizontal: 24, paddingBottom: 16 }}
+            showsVerticalScrollIndicator={false}
+          >
+            {entries === null ? (
+              <ActivityIndicator color={isDark ? "#A8C5A8" : "#5B8A5B"} />
+            ) : entries.length === 0 ? (
+              <Text className="text-sm text-center mt-4 text-paper-700 dark:text-sand-400">
+                Nothing recorded yet.
+              </Text>
+            ) : (
+              entries.map((entry, index) => (
+                <LogEntryRow key={`${entry.at}-${index}`} entry={entry} isDark={isDark} />
+              ))
+            )}
+          </ScrollView>
+
+          <View className="px-6 pt-2 gap-3">
+            {hasEntries && (
+              <View className="flex-row gap-3">
+                <TouchableOpacity
+                  onPress={() => void handleShare()}
+                  disabled={sharing}
+                  className="flex-1 p-4 rounded-xl flex-row justify-center items-center bg-sage-600 dark:bg-sage-600"
+                >
+                  {sharing ? (
+                    <ActivityIndicator color="white" />
+                  ) : (
+                    <Text className="text-white font-bold">Export for Support</Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleClear}
+                  className="p-4 rounded-xl items-center bg-paper-200 dark:bg-paper-800"
+                >
+                  <Text className="font-semibold text-coral-600 dark:text-coral-400">Clear</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-4 rounded-xl items-center bg-paper-200 dark:bg-paper-800"
+            >
+              <Text className="font-semibold text-paper-700 dark:text-sand-400">Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { MIN_BACKUP_PASSPHRASE_LENGTH } from "@db/backupCrypto";
+
+export type BackupPassphraseMode = "setup" | "change" | "disable" | "unlock";
+
+export type BackupPassphraseValues = {
+  /** The passphrase in use, for every mode except setup. */
+  current: string;
+  /** The new passphrase, for setup and change. */
+  next: string;
+};
+
+const MODE_COPY: Record<
+  BackupPassphraseMode,
+  { title: string; message: string; submitLabel: string }
+> = {
+  setup: {
+    title: "Encrypt Backups",
+    message:
+      "New backups will be encrypted with this passphrase. You will need it to restore them, including on another device. It cannot be recovered if you forget it.",
+    submitLabel: "Turn On Encryption",
+  },
+  change: {
+    title: "Change Passphrase",
+    message: "New backups will use the new passphrase. Existing backups still need the passphrase they were made with.",
+    submitLabel: "Change Passphrase",
+  },
+  disable: {
+    title: "Turn Off Encryption",
+    message: "New backups will be saved as plain JSON. Existing encrypted backups still need their passphrase.",
+    submitLabel: "Turn Off",
+  },
+  unlock: {
+    title: "Encrypted Backup",
+    message: "Enter the passphrase this backup was made with.",
+    submitLabel: "Unlock",
+  },
+};
+
+function PassphraseField({
+  label,
+  value,
+  onChange,
+  autoFocus,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  autoFocus?: boolean;
+}) {
+  return (
+    <View className="mb-3">
+      <Text className="text-xs mb-1 text-paper-700 dark:text-paper-400">{label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChange}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus={autoFocus}
+        textContentType="password"
+        accessibilityLabel={label}
+        className="p-3 rounded-xl text-base bg-paper-200 dark:bg-paper-800 border border-sand-300 dark:border-sand-800 text-paper-800 dark:text-paper-200"
+      />
+    </View>
+  );
+}
+
+/**
+ * Collects a backup passphrase: a new one (entered twice) when turning
+ * encryption on, the current one to change or turn it off, or the one a
+ * backup file was made with when restoring it.
+ */
+export function BackupPassphraseModal({
+  visible,
+  mode,
+  onSubmit,
+  onClose,
+}: {
+  visible: boolean;
+  mode: BackupPassphraseMode;
+  /** Rejecting keeps the modal open and shows the error message. */
+  onSubmit: (values: BackupPassphraseValues) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setCurrent("");
+      setNext("");
+      setConfirmation("");
+      setError(null);
+    }
+  }, [visible, mode]);
+
+  const asksCurrent = mode !== "setup";
+  const asksNext = mode === "setup" || mode === "change";
+  const copy = MODE_COPY[mode];
+
+  const handleSubmit = async () => {
+    if (asksCurrent && !current) {
+      setError("Enter your passphrase.");
+      return;
+    }
+    if (asksNext) {
+      if (next.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (next !== confirmation) {
+        setError("Passphrases do not match.");
+        return;
+      }
+    }
+    setError(null);
+    setLoading(true);
+    try {
+      await onSubmit({ current, next });
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Something went wrong.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View className="flex-1 justify-end bg-black/40">
+          <View className="rounded-t-3xl px-6 pt-6 pb-10 bg-paper-100 dark:bg-paper-900 border-t border-sand-300 dark:border-paper-800">
+            <View className="items-center mb-4">
+              <View className="w-12 h-1.5 rounded-full mb-4 bg-sand-300 dark:bg-sand-800" />
+              <Text className="text-xl font-bold text-paper-800 dark:text-paper-200">
+                {copy.title}
+              </Text>
+              <Text className="text-sm mt-2 text-center text-paper-700 dark:text-sand-400">
+                {copy.message}
+              </Text>
+            </View>
+
+            {asksCurrent && (
+              <PassphraseField
+                label={mode === "change" ? "Current passphrase" : "Passphrase"}
+                value={current}
+                onChange={setCurrent}
+                autoFocus
+              />
+            )}
+            {asksNext && (
+              <>
+                <PassphraseField
+                  label="New passphrase"
+                  value={next}
+                  onChange={setNext}
+                  autoFocus={!asksCurrent}
+                />
+                <PassphraseField
+                  label="Confirm new passphrase"
+                  value={confirmation}
+                  onChange={setConfirmation}
+                />
+              </>
+            )}
+
+            {error && (
+              <Text className="text-sm mb-3 text-coral-600 dark:text-coral-400">{error}</Text>
+            )}
+
+            <View className="gap-3 mt-2">
+              <TouchableOpacity
+                onPress={() => void handleSubmit()}
+                disabled={loading}
+                className="p-4 rounded-xl flex-row justify-center items-center bg-sage-600 dark:bg-sage-600"
+              >
+                {loading ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <Text className="text-white font-bold text-base">{copy.submitLabel}</Text>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={onClose}
+                disabled={loading}
+                className="p-4 rounded-xl items-center bg-paper-200 dark:bg-paper-800"
+              >
+                <Text className="font-semibold text-paper-700 dark:text-sand-400">Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,483 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  CSV_IMPORT_PRESETS,
+  type CsvDateOrder,
+  type CsvImportMapping,
+  type CsvTimestampFormat,
+} from "@db/db";
+import { Alert } from "@/components/ui/AppAlert";
+import {
+  dataPortabilityService,
+  type CsvImportFile,
+  type DataImportMode,
+} from "@/services/dataPortabilityService";
+import { chooseImportMode } from "@/features/settings/utils/importModeChoice";
+
+const TIMESTAMP_FORMAT_OPTIONS: { value: CsvTimestampFormat; label: string }[] = [
+  { value: "dateTime", label: "Date & time" },
+  { value: "iso", label: "ISO 8601" },
+  { value: "unixSeconds", label: "Unix seconds" },
+  { value: "unixMilliseconds", label: "Unix ms" },
+];
+
+const DATE_ORDER_OPTIONS: { value: CsvDateOrder; label: string }[] = [
+  { value: "ymd", label: "Y-M-D" },
+  { value: "mdy", label: "M/D/Y" },
+  { value: "dmy", label: "D/M/Y" },
+];
+
+function ChipRow<T extends string | null>({
+  options,
+  selected,
+  onSelect,
+}: {
+  options: { value: T; label: string }[];
+  selected: (value: T) => boolean;
+  onSelect: (value: T) => void;
+}) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {options.map((option) => {
+        const isSelected = selected(option.value);
+        return (
+          <Pressable
+            key={option.value ?? "none"}
+            onPress={() => onSelect(option.value)}
+            className={`px-3 py-2 mr-2 rounded-full border ${
+              isSelected
+                ? "bg-sage-600 border-sage-600"
+                : "bg-paper-200 dark:bg-paper-800 border-sand-300 dark:border-sand-800"
+            }`}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text
+              className={`text-sm font-medium ${
+                isSelected ? "text-white" : "text-paper-700 dark:text-paper-400"
+              }`}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+function FieldLabel({ label, example }: { label: string; example?: string | null }) {
+  return (
+    <View className="flex-row items-baseline mb-2">
+      <Text className="text-xs font-semibold uppercase tracking-wide text-paper-700 dark:text-paper-400">
+        {label}
+      </Text>
+      {example ? (
+        <Text
+          numberOfLines={1}
+          className="flex-1 ml-2 text-xs text-paper-700 dark:text-sand-400"
+        >
+          e.g. {example}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(String(value));
+  }, [value]);
+
+  return (
+    <View className="flex-1">
+      <Text className="text-xs mb-1 text-paper-700 dark:text-paper-400">{label}</Text>
+      <TextInput
+        value={text}
+        keyboardType="numbers-and-punctuation"
+        onChangeText={(next) => {
+          setText(next);
+          const numeric = Number(next);
+          if (next.trim() && Number.isFinite(numeric)) {
+            onChange(numeric);
+          }
+        }}
+        accessibilityLabel={label}
+        className="p-3 rounded-xl text-base bg-paper-200 dark:bg-paper-800 border border-sand-300 dark:border-sand-800 text-paper-800 dark:text-paper-200"
+      />
+    </View>
+  );
+}
+
+/**
+ * Maps the columns of a CSV file onto entry fields, starting from the preset
+ * that matches its headers, then previews and runs the import.
+ */
+export function CsvImportModal({
+  visible,
+  csvData,
+  file,
+  onClose,
+  onExportFirst,
+}: {
+  visible: boolean;
+  csvData: string;
+  file: CsvImportFile | null;
+  onClose: () => void;
+  onExportFirst: () => void;
+}) {
+  const [mapping, setMapping] = useState<CsvImportMapping | null>(file?.mapping ?? null);
+  const [presetId, setPresetId] = useState<string | null>(file?.preset?.id ?? null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !file) {
+      return;
+    }
+    setMapping(file.mapping);
+    setPresetId(file.preset?.id ?? null);
+    setLoading(false);
+  }, [file, visible]);
+
+  if (!file || !mapping) {
+    return null;
+  }
+
+  const headers = file.headers;
+  const exampleFor = (column: string | null | undefined) => {
+    if (!column) return null;
+    const index = headers.indexOf(column);
+    return file.sampleRows.find((row) => row[index]?.trim())?.[index]?.trim() ?? null;
+  };
+  const columnOptions = headers.map((header) => ({ value: header as string | null, label: header }));
+  const optionalColumnOptions = [{ value: null, label: "None" }, ...columnOptions];
+
+  const update = (next: Partial<CsvImportMapping>) => {
+    setMapping({ ...mapping, ...next });
+    setPresetId(null);
+  };
+
+  const selectPreset = (id: string | null) => {
+    const preset = CSV_IMPORT_PRESETS.find((candidate) => candidate.id === id);
+    if (!preset) {
+      return;
+    }
+    setMapping(preset.createMapping(headers));
+    setPresetId(preset.id);
+  };
+
+  const runImport = async (mode: DataImportMode) => {
+    try {
+      setLoading(true);
+      const importResult = await dataPortabilityService.importCsvData(
+        csvData,
+        mapping,
+        mode,
+        file.fileName
+      );
+      Alert.alert("Import Successful", dataPortabilityService.summarizeImportResult(importResult));
+      onClose();
+    } catch (error) {
+      Alert.alert(
+        "Import Error",
+        error instanceof Error ? error.message : "Failed to import mood data."
+      );
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async () => {
+    try {
+      setLoading(true);
+      const preview = await dataPortabilityService.previewCsvImport(csvData, mapping);
+      if (preview.entryCount === 0) {
+        Alert.alert(
+          "Nothing to Import",
+          dataPortabilityService.summarizeCsvImportPreview(preview)
+        );
+        setLoading(false);
+        return;
+      }
+      chooseImportMode({
+        showAlert: Alert.alert,
+        summary: dataPortabilityService.summarizeCsvImportPreview(preview),
+        conflictCount: preview.conflictCount,
+        onChoose: (mode) => void runImport(mode),
+        onExportFirst: () => {
+          setLoading(false);
+          onClose();
+          onExportFirst();
+        },
+        onCancel: () => setLoading(false),
+      });
+    } catch (error) {
+      Alert.alert(
+        "Import Error",
+        error instanceof Error ? error.message : "Failed to read the CSV file."
+      );
+      console.error(error);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/40">
+        <View
+          className="rounded-t-3xl pt-6 pb-10 bg-paper-100 dark:bg-paper-900 border-t border-sand-300 dark:border-paper-800"
+          style={{ maxHeight: "90%" }}
+        >
+          <View className="items-center mb-4 px-6">
+            <View className="w-12 h-1.5 rounded-full mb-4 bg-sand-300 dark:bg-sand-800" />
+            <Text className="text-xl font-bold text-paper-800 dark:text-paper-200">
+              Import CSV
+            </Text>
+            <Text className="text-xs mt-1 text-paper-700 dark:text-sand-400">
+              {file.rowCount} row{file.rowCount === 1 ? "" : "s"} · {headers.length} column
+              {headers.length === 1 ? "" : "s"}
+            </Text>
+          </View>
+
+          <ScrollView
+            contentContainerStyle={{ paddingHorizontal: 24, paddingBottom: 16 }}
+            showsVerticalScrollIndicator={false}
+          >
+            <View className="mb-5">
+              <FieldLabel label="Layout" />
+              <ChipRow
+                options={[
+                  ...CSV_IMPORT_PRESETS.map((preset) => ({
+                    value: preset.id as string | null,
+                    label: preset.label,
+                  })),
+                  { value: null, label: "Custom" },
+                ]}
+                selected={(value) => value === presetId}
+                onSelect={selectPreset}
+              />
+            </View>
+
+            <View className="mb-5">
+              <FieldLabel label="Date" example={exampleFor(mapping.timestamp.column)} />
+              <ChipRow
+                options={columnOptions}
+                selected={(value) => value === mapping.timestamp.column}
+                onSelect={(value) =>
+                  value && update({ timestamp: { ...mapping.timestamp, column: value } })
+                }
+              />
+              <View className="mt-2">
+                <ChipRow
+                  options={TIMESTAMP_FORMAT_OPTIONS}
+                  selected={(value) => value === mapping.timestamp.format}
+                  onSelect={(value) => update({ timestamp: { ...mapping.timestamp, format: value } })}
+                />
+              </View>
+              {mapping.timestamp.format === "dateTime" && (
+                <View className="mt-2">
+                  <ChipRow
+                    options={DATE_ORDER_OPTIONS}
+                    selected={(value) => value === mapping.timestamp.dateOrder}
+                    onSelect={(value) =>
+                      update({ timestamp: { ...mapping.timestamp, dateOrder: value } })
+                    }
+                  />
+                </View>
+              )}
+            </View>
+
+            {mapping.timestamp.format === "dateTime" && (
+              <View className="mb-5">
+                <FieldLabel label="Time" example={exampleFor(mapping.timestamp.timeColumn)} />
+                <ChipRow
+                  options={optionalColumnOptions}
+                  selected={(value) => value === (mapping.timestamp.timeColumn ?? null)}
+                  onSelect={(value) =>
+                    update({ timestamp: { ...mapping.timestamp, timeColumn: value } })
+                  }
+                />
+              </View>
+            )}
+
+            <View className="mb-5">
+              <FieldLabel label="Mood" example={exampleFor(mapping.mood.column)} />
+              <ChipRow
+                options={columnOptions}
+                selected={(value) => value === mapping.mood.column}
+                onSelect={(value) => value && update({ mood: { ...mapping.mood, column: value } })}
+              />
+              <View className="flex-row gap-3 mt-3">
+                <NumberField
+                  label="Lowest rating"
+                  value={mapping.mood.min}
+                  onChange={(min) => update({ mood: { ...mapping.mood, min } })}
+                />
+                <NumberField
+                  label="Highest rating"
+                  value={mapping.mood.max}
+                  onChange={(max) => update({ mood: { ...mapping.mood, max } })}
+                />
+              </View>
+              <View className="mt-2">
+                <ChipRow
+                  options={[
+                    { value: "higher", label: "Higher is better" },
+                    { value: "lower", label: "Lower is better" },
+                  ]}
+                  selected={(value) => (value === "lower") === mapping.mood.lowerIsBetter}
+                  onSelect={(value) =>
+                    update({ mood: { ...mapping.mood, lowerIsBetter: value === "lower" } })
+                  }
+                />
+              </View>
+              {mapping.mood.labels && (
+                <Text className="text-xs mt-2 text-paper-700 dark:text-sand-400">
+                  Text ratings:{" "}
+                  {Object.entries(mapping.mood.labels)
+                    .map(([label, value]) => `${label} = ${value}`)
+                    .join(", ")}
+                </Text>
+              )}
+            </View>
+
+            {(["emotions", "contextTags"] as const).map((field) => {
+              const current = mapping[field];
+              return (
+                <View key={field} className="mb-5">
+                  <FieldLabel
+                    label={field === "emotions" ? "Emotions" : "Context tags"}
+                    example={exampleFor(current?.column)}
+                  />
+                  <ChipRow
+                    options={optionalColumnOptions}
+                    selected={(value) => value === (current?.column ?? null)}
+                    onSelect={(value) =>
+                      update({
+                        [field]: value
+                          ? { column: value, delimiter: current?.delimiter ?? ";" }
+                          : null,
+                      })
+                    }
+                  />
+                  {current && (
+                    <View className="flex-row items-center mt-2">
+                      <Text className="text-xs mr-2 text-paper-700 dark:text-paper-400">
+                        Separated by
+                      </Text>
+                      <TextInput
+                        value={current.delimiter}
+                        onChangeText={(delimiter) =>
+                          update({ [field]: { ...current, delimiter } })
+                        }
+                        maxLength={3}
+                        autoCapitalize="none"
+                        accessibilityLabel={`${field === "emotions" ? "Emotion" : "Context tag"} separator`}
+                        className="w-16 px-3 py-2 rounded-xl text-center text-base bg-paper-200 dark:bg-paper-800 border border-sand-300 dark:border-sand-800 text-paper-800 dark:text-paper-200"
+                      />
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+
+            <View className="mb-5">
+              <FieldLabel label="Energy" example={exampleFor(mapping.energy?.column)} />
+              <ChipRow
+                options={optionalColumnOptions}
+                selected={(value) => value === (mapping.energy?.column ?? null)}
+                onSelect={(value) =>
+                  update({
+                    energy: value
+                      ? { column: value, min: mapping.energy?.min ?? 0, max: mapping.energy?.max ?? 10 }
+                      : null,
+                  })
+                }
+              />
+              {mapping.energy && (
+                <View className="flex-row gap-3 mt-3">
+                  <NumberField
+                    label="Lowest energy"
+                    value={mapping.energy.min}
+                    onChange={(min) => mapping.energy && update({ energy: { ...mapping.energy, min } })}
+                  />
+                  <NumberField
+                    label="Highest energy"
+                    value={mapping.energy.max}
+                    onChange={(max) => mapping.energy && update({ energy: { ...mapping.energy, max } })}
+                  />
+                </View>
+              )}
+            </View>
+
+            <View className="mb-2">
+              <FieldLabel label="Notes" example={exampleFor(mapping.notes?.columns[0])} />
+              <ChipRow
+                options={columnOptions}
+                selected={(value) => !!value && (mapping.notes?.columns.includes(value) ?? false)}
+                onSelect={(value) => {
+                  if (!value) return;
+                  const columns = mapping.notes?.columns ?? [];
+                  const next = columns.includes(value)
+                    ? columns.filter((column) => column !== value)
+                    : [...columns, value];
+                  update({ notes: next.length > 0 ? { columns: next } : null });
+                }}
+              />
+            </View>
+          </ScrollView>
+
+          <View className="gap-3 px-6 pt-2">
+            <TouchableOpacity
+              onPress={() => void handleReview()}
+              disabled={loading}
+              className="p-4 rounded-xl flex-row justify-center items-center bg-sage-600 dark:bg-sage-600"
+            >
+              {loading ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <>
+                  <Ionicons
+                    name="checkmark-circle-outline"
+                    size={20}
+                    color="white"
+                    style={{ marginRight: 8 }}
+                  />
+                  <Text className="text-white font-bold text-base">Review Import</Text>
+                </>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={onClose}
+              className="p-4 rounded-xl items-center bg-paper-200 dark:bg-paper-800"
+            >
+              <Text className="font-semibold text-paper-700 dark:text-sand-400">Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
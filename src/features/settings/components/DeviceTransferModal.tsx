@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, Modal, TouchableOpacity, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useColorScheme } from "nativewind";
+import * as Clipboard from "expo-clipboard";
+import QRCode from "react-native-qrcode-svg";
+import {
+  deviceTransferService,
+  type TransferSendSession,
+} from "@/services/deviceTransferService";
+
+type SendState =
+  | { status: "starting" }
+  | { status: "waiting"; session: TransferSendSession }
+  | { status: "sent"; entryCount: number }
+  | { status: "failed"; message: string };
+
+function formatRemaining(expiresAt: number, now: number): string {
+  const seconds = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Offers all data to another device: shows a QR code with a one-time key
+ * and waits until the other device has collected the data.
+ */
+export function DeviceTransferModal({
+  visible,
+  onClose,
+}: {
+  visible: boolean;
+  onClose: () => void;
+}) {
+  const { colorScheme } = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const [state, setState] = useState<SendState>({ status: "starting" });
+  const [copied, setCopied] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let active = true;
+    let session: TransferSendSession | null = null;
+    setState({ status: "starting" });
+    setCopied(false);
+
+    deviceTransferService
+      .startSending()
+      .then((started) => {
+        session = started;
+        if (!active) {
+          started.cancel();
+          return;
+        }
+        setState({ status: "waiting", session: started });
+        return started.completed.then((sent) => {
+          if (active && sent) {
+            setState({ status: "sent", entryCount: started.entryCount });
+          }
+        });
+      })
+      .catch((error) => {
+        console.error("Device transfer failed:", error);
+        if (active) {
+          setState({
+            status: "failed",
+            message: error instanceof Error ? error.message : "The transfer failed.",
+          });
+        }
+      });
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      active = false;
+      clearInterval(timer);
+      session?.cancel();
+    };
+  }, [visible]);
+
+  const handleCopy = async (link: string) => {
+    await Clipboard.setStringAsync(link);
+    setCopied(true);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/40">
+        <View className="rounded-t-3xl pt-6 pb-10 px-6 bg-paper-100 dark:bg-paper-900 border-t border-sand-300 dark:border-paper-800">
+          <View className="items-center mb-4">
+            <View className="w-12 h-1.5 rounded-full mb-4 bg-sand-300 dark:bg-sand-800" />
+            <Text className="text-xl font-bold text-paper-800 dark:text-paper-200">
+              Send to Another Device
+            </Text>
+          </View>
+
+          {state.status === "starting" && (
+            <View className="items-center py-10">
+              <ActivityIndicator color={isDark ? "#A8C5A8" : "#5B8A5B"} />
+              <Text className="text-sm mt-3 text-paper-700 dark:text-sand-400">
+                Preparing your data...
+              </Text>
+            </View>
+          )}
+
+          {state.status === "waiting" && (
+            <View className="items-center">
+              <Text className="text-sm text-center mb-4 text-paper-700 dark:text-sand-400">
+                On the other device, scan this code with the camera, or open Moodinator and choose
+                Receive from Another Device. Keep this screen open until the transfer finishes.
+              </Text>
+              <View className="p-4 rounded-2xl bg-white">
+                <QRCode value={state.session.link} size={200} />
+              </View>
+              <Text className="text-xs mt-3 text-paper-700 dark:text-sand-400">
+                {state.session.entryCount} entr{state.session.entryCount === 1 ? "y" : "ies"} ·
+                code expires in {formatRemaining(state.session.expiresAt, now)}
+              </Text>
+              <TouchableOpacity
+                onPress={() => void handleCopy(state.session.link)}
+                className="flex-row items-center mt-3 px-4 py-2 rounded-xl bg-paper-200 dark:bg-paper-800"
+              >
+                <Ionicons
+                  name={copied ? "checkmark-outline" : "copy-outline"}
+                  size={16}
+                  color={isDark ? "#A8C5A8" : "#5B8A5B"}
+                  style={{ marginRight: 6 }}
+                />
+                <Text className="text-sm font-semibold text-sage-600 dark:text-sage-300">
+                  {copied ? "Link Copied" : "Copy Link"}
+                </Text>
+              </TouchableOpacity>
+              <Text className="text-xs mt-3 text-center text-paper-700 dark:text-sand-400">
+                Anyone with this code can read your data while it is showing. The link only works
+                on this network and stops working after one transfer.
+              </Text>
+            </View>
+          )}
+
+          {state.status === "sent" && (
+            <View className="items-center py-6">
+              <Ionicons
+                name="checkmark-circle-outline"
+                size={40}
+                color={isDark ? "#A8C5A8" : "#5B8A5B"}
+              />
+              <Text className="text-base font-semibold mt-3 text-paper-800 dark:text-paper-200">
+                Transfer complete
+              </Text>
+              <Text className="text-sm mt-1 text-center text-paper-700 dark:text-sand-400">
+                Sent {state.entryCount} entr{state.entryCount === 1 ? "y" : "ies"}. The other device
+                now asks how to add them.
+              </Text>
+            </View>
+          )}
+
+          {state.status === "failed" && (
+            <View className="items-center py-6">
+              <Ionicons
+                name="alert-circle-outline"
+                size={40}
+                color={isDark ? "#F5A899" : "#C75441"}
+              />
+              <Text className="text-sm mt-3 text-center text-coral-600 dark:text-coral-400">
+                {state.message}
+              </Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            onPress={onClose}
+            className="mt-6 p-4 rounded-xl items-center bg-paper-200 dark:bg-paper-800"
+          >
+            <Text className="font-semibold text-paper-700 dark:text-sand-400">
+              {state.status === "sent" ? "Done" : "Cancel"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
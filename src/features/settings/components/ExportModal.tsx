@@ -5,6 +5,7 @@ import {
   Modal,
   Pressable,
   Platform,
+  ScrollView,
   TouchableOpacity,
   ActivityIndicator,
   StyleSheet,
@@ -19,6 +20,7 @@ import {
   dataPortabilityService,
   type ExportRange,
 } from "@/services/dataPortabilityService";
+import { useSettingsStore } from "@/shared/state/settingsStore";
 
 async function shareJsonData(
   jsonData: string,
@@ -99,6 +101,9 @@ export function ExportModal({
   const [customEndDate, setCustomEndDate] = useState(() => new Date());
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+  const savedViews = useSettingsStore((state) => state.savedViews);
+  const [viewId, setViewId] = useState<string | null>(null);
+  const selectedView = savedViews.find((view) => view.id === viewId) ?? null;
 
   useEffect(() => {
     if (!visible) {
@@ -109,6 +114,7 @@ export function ExportModal({
     setCustomStartDate(start);
     setCustomEndDate(new Date());
     setExportRange("week");
+    setViewId(null);
     setShowStartDatePicker(false);
     setShowEndDatePicker(false);
     setLoading(false);
@@ -121,6 +127,7 @@ export function ExportModal({
         range: exportRange,
         customStartDate,
         customEndDate,
+        view: selectedView,
       });
 
       if (!exportResult.ok) {
@@ -144,9 +151,10 @@ export function ExportModal({
       exportRange === "month" ? "Last 30 days" :
       exportRange === "full" ? "All Moodinator data" :
       `${customStartDate.toLocaleDateString()} to ${customEndDate.toLocaleDateString()}`;
+    const viewLabel = selectedView ? `\nOnly entries in "${selectedView.name}"` : "";
     Alert.alert(
       "Review data export",
-      `${rangeLabel}\n\nThis JSON may include sensitive mood entries, notes, presets, and settings. After saving or sharing it, Moodinator cannot control where it is stored or forwarded.`,
+      `${rangeLabel}${viewLabel}\n\nThis JSON may include sensitive mood entries, notes, presets, and settings. After saving or sharing it, Moodinator cannot control where it is stored or forwarded.`,
       [
         { text: "Back and edit", style: "cancel" },
         { text: "Create export", onPress: () => void performExportShare() },
@@ -207,6 +215,40 @@ export function ExportModal({
             ))}
           </View>
 
+          {savedViews.length > 0 && (
+            <View className="mb-6">
+              <Text className="text-xs font-semibold uppercase tracking-wide mb-2 text-paper-700 dark:text-paper-400">
+                Entries
+              </Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {[null, ...savedViews].map((view) => {
+                  const selected = (view?.id ?? null) === viewId;
+                  return (
+                    <Pressable
+                      key={view?.id ?? "all"}
+                      onPress={() => setViewId(view?.id ?? null)}
+                      className={`px-3 py-2 mr-2 rounded-full border ${
+                        selected
+                          ? "bg-sage-600 border-sage-600"
+                          : "bg-paper-200 dark:bg-paper-800 border-sand-300 dark:border-sand-800"
+                      }`}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Text
+                        className={`text-sm font-medium ${
+                          selected ? "text-white" : "text-paper-700 dark:text-paper-400"
+                        }`}
+                      >
+                        {view?.name ?? "All entries"}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+            </View>
+          )}
+
           {exportRange === "custom" && (
             <View className="flex-row gap-3 mb-6">
               <Pressable
@@ -3,6 +3,7 @@ import { View, Text, ScrollView } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useFocusEffect } from "expo-router";
 import { dataPortabilityService } from "@/services/dataPortabilityService";
+import { trashService } from "@/services/trashService";
 import { useSettingsStore } from "@/shared/state/settingsStore";
 import { useMoodsStore } from "@/shared/state/moodsStore";
 import { useAppLockStore } from "@/features/appLock";
@@ -15,6 +16,7 @@ import { ScreenBackgroundAccent } from "@/components/layout/ScreenBackgroundAcce
 
 export function SettingsScreen() {
   const [backupCount, setBackupCount] = useState(0);
+  const [trashCount, setTrashCount] = useState(0);
   const [statsError, setStatsError] = useState(false);
   const appLockEnabled = useAppLockStore((state) => state.isEnabled);
 
@@ -23,13 +25,19 @@ export function SettingsScreen() {
   const emotions = useSettingsStore((state) => state.emotions);
   const contexts = useSettingsStore((state) => state.contexts);
   const quickEntryPrefs = useSettingsStore((state) => state.quickEntryPrefs);
+  const locationTaggingEnabled = useSettingsStore((state) => state.locationTaggingEnabled);
+  const savedPlaces = useSettingsStore((state) => state.savedPlaces);
 
   const loadStats = useCallback(async () => {
     try {
       setStatsError(false);
       await ensureFresh();
-      const backupInfo = await dataPortabilityService.getBackupInfo();
+      const [backupInfo, trash] = await Promise.all([
+        dataPortabilityService.getBackupInfo(),
+        trashService.list(),
+      ]);
       setBackupCount(backupInfo.count);
+      setTrashCount(trash.length);
     } catch (error) {
       setStatsError(true);
       console.error("Failed to load stats:", error);
@@ -130,6 +138,15 @@ export function SettingsScreen() {
             accentColor="dusk"
             badge={contexts.length}
           />
+
+          <SettingsCategoryCard
+            title="Places"
+            description="Opt-in location tags and saved places"
+            icon="location-outline"
+            href="/settings/places"
+            accentColor="sage"
+            badge={locationTaggingEnabled ? savedPlaces.length : "Off"}
+          />
         </View>
 
         <Text className="text-xs font-semibold uppercase tracking-wider text-paper-700 dark:text-paper-400 mb-3 mt-6 ml-1">
@@ -176,6 +193,15 @@ export function SettingsScreen() {
             preview={backupCount > 0 ? `${backupCount} backup${backupCount === 1 ? "" : "s"} saved` : undefined}
           />
 
+          <SettingsCategoryCard
+            title="Trash"
+            description="Restore or permanently delete entries"
+            icon="trash-outline"
+            href="/settings/trash"
+            accentColor="coral"
+            badge={trashCount > 0 ? trashCount : undefined}
+          />
+
           <SettingsCategoryCard
             title="Therapy Export"
             description="Create a report for your therapist"
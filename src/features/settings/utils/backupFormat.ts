@@ -1,3 +1,6 @@
+import type { BackupLogEntry, BackupLogOperation, BackupTrigger } from "@db/backupLog";
+import type { BackupFrequency, BackupHealth, BackupRetention } from "@db/backupPolicy";
+
 export function formatBackupDate(timestamp: number | null): string {
   if (!timestamp) {
     return "Never";
@@ -21,3 +24,77 @@ export function formatBackupFolderPath(uri: string | null): string {
   return uri.length > 50 ? `${uri.substring(0, 50)}...` : uri;
 }
 
+
+export function formatBackupSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const BACKUP_FREQUENCY_LABELS: Record<BackupFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+export function formatBackupRetention(retention: BackupRetention): string {
+  if (retention.type === "keepLast") {
+    return `Keep the last ${retention.count}`;
+  }
+  return `Keep ${retention.daily} daily, ${retention.weekly} weekly, ${retention.monthly} monthly`;
+}
+
+/** A warning for the backup status banner, or null when backups are fine. */
+export function formatBackupHealthWarning(health: BackupHealth): string | null {
+  switch (health.status) {
+    case "failing":
+      return `Last backup failed on ${formatBackupDate(health.lastFailure?.at ?? null)}: ${
+        health.lastFailure?.error ?? "unknown error"
+      }`;
+    case "overdue":
+      return "Backups are overdue. The last successful backup is older than your backup frequency allows.";
+    default:
+      return null;
+  }
+}
+
+const LOG_OPERATION_LABELS: Record<BackupLogOperation, string> = {
+  backup: "Backup",
+  cleanup: "Old backup removed",
+  restore: "Restore",
+  import: "Import",
+};
+
+const LOG_TRIGGER_LABELS: Record<BackupTrigger, string> = {
+  manual: "manual",
+  background: "automatic",
+  "pre-restore": "safety backup before restore",
+};
+
+/** A title and optional detail line for one backup log entry. */
+export function formatBackupLogEntry(entry: BackupLogEntry): {
+  title: string;
+  detail: string | null;
+} {
+  const operation =
+    entry.operation === "cleanup" && entry.result === "failure"
+      ? "Removing old backup"
+      : LOG_OPERATION_LABELS[entry.operation];
+  const outcome =
+    entry.result === "failure" ? " failed" : entry.result === "skipped" ? " not due yet" : "";
+  const trigger = entry.operation === "backup" ? ` (${LOG_TRIGGER_LABELS[entry.trigger]})` : "";
+  const detail = [
+    entry.fileName,
+    entry.entryCount !== null
+      ? `${entry.entryCount} entr${entry.entryCount === 1 ? "y" : "ies"}`
+      : null,
+    entry.error,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  return { title: `${operation}${outcome}${trigger}`, detail: detail || null };
+}
@@ -0,0 +1,71 @@
+import type { DataImportMode } from "@/services/dataPortabilityService";
+
+export type ImportModeAlertButton = {
+  text: string;
+  style?: "cancel" | "destructive";
+  onPress?: () => void | Promise<void>;
+};
+
+export type ImportModeChoiceOptions = {
+  showAlert: (title: string, message?: string, buttons?: ImportModeAlertButton[]) => void;
+  /** Preview text describing what the file contains. */
+  summary: string;
+  conflictCount: number;
+  onChoose: (mode: DataImportMode) => void;
+  onExportFirst: () => void;
+  onCancel: () => void;
+};
+
+/**
+ * Asks whether to merge the file into current data or replace it, and how to
+ * resolve conflicting entries when merging.
+ */
+export function chooseImportMode({
+  showAlert,
+  summary,
+  conflictCount,
+  onChoose,
+  onExportFirst,
+  onCancel,
+}: ImportModeChoiceOptions): void {
+  const chooseConflictStrategy = () => {
+    if (conflictCount === 0) {
+      onChoose({ mode: "merge", conflictStrategy: "skip" });
+      return;
+    }
+    showAlert(
+      "Resolve Conflicts",
+      `${conflictCount} imported entr${conflictCount === 1 ? "y has" : "ies have"} the same time as a different entry on this device.`,
+      [
+        { text: "Cancel", style: "cancel", onPress: onCancel },
+        {
+          text: "Keep Existing",
+          onPress: () => onChoose({ mode: "merge", conflictStrategy: "skip" }),
+        },
+        {
+          text: "Use Imported",
+          onPress: () => onChoose({ mode: "merge", conflictStrategy: "overwrite" }),
+        },
+        {
+          text: "Keep Both",
+          onPress: () => onChoose({ mode: "merge", conflictStrategy: "keepBoth" }),
+        },
+      ]
+    );
+  };
+
+  showAlert(
+    "Import Data",
+    `${summary}\n\nMerge adds the new entries to your current data. Replace clears your current local Moodinator data first and cannot be undone unless you have a separate Data Export or Backup.`,
+    [
+      { text: "Cancel", style: "cancel", onPress: onCancel },
+      { text: "Export Current Data First", onPress: onExportFirst },
+      { text: "Merge", onPress: chooseConflictStrategy },
+      {
+        text: "Replace Data",
+        style: "destructive",
+        onPress: () => onChoose({ mode: "replace" }),
+      },
+    ]
+  );
+}
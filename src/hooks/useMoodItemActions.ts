@@ -25,16 +25,9 @@ export function useMoodItemActions({
       await removeMood(mood.id);
       toastService.showDeletedMood(mood, async (deletedMood) => {
         haptics.success(); // Haptic feedback for undo/restore
-        await restoreMood({
-          mood: deletedMood.mood,
-          note: deletedMood.note,
-          timestamp: deletedMood.timestamp,
-          emotions: deletedMood.emotions,
-          contextTags: deletedMood.contextTags,
-          energy: deletedMood.energy,
-          moodScale: deletedMood.moodScale,
-          basedOnEntryId: deletedMood.basedOnEntryId,
-        });
+        if (!(await restoreMood(deletedMood.id))) {
+          throw new Error("The deleted entry is no longer in the trash.");
+        }
       });
     },
     [removeMood, restoreMood]
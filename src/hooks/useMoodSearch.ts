@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { MoodEntry } from "@db/types";
+import type { MoodSearchSnippet } from "@db/db";
+import {
+  moodService,
+  type MoodQuery,
+  type MoodSearchResult,
+  type PaginatedResult,
+} from "@/services/moodService";
+import { useMoodsStore } from "@/shared/state/moodsStore";
+import { isMoodQueryEmpty } from "@/lib/moodQuery";
+
+const SEARCH_PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 250;
+const NO_FILTER: MoodQuery = {};
+
+type SearchStatus = "idle" | "searching" | "loadingMore" | "error";
+
+async function fetchPage(
+  query: string,
+  filter: MoodQuery,
+  offset: number
+): Promise<PaginatedResult<MoodSearchResult>> {
+  if (query.length > 0) {
+    return moodService.search({ query, filter, limit: SEARCH_PAGE_SIZE, offset });
+  }
+  const page = await moodService.queryPaginated(filter, { limit: SEARCH_PAGE_SIZE, offset });
+  return { ...page, data: page.data.map((entry) => ({ entry, snippets: [] })) };
+}
+
+/**
+ * Drives the home history search and filters. Results page through
+ * `moodService.search` (or `queryPaginated` when only filters are set) like
+ * `loadMore` does for the plain list, and re-run whenever the mood collection
+ * changes so edits and deletions show up in open results.
+ */
+export function useMoodSearch(filter: MoodQuery = NO_FILTER) {
+  const moods = useMoodsStore((state) => state.moods);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<MoodSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [status, setStatus] = useState<SearchStatus>("idle");
+  // Each new query bumps the id so late responses for older queries are dropped.
+  const requestIdRef = useRef(0);
+
+  const trimmedQuery = query.trim();
+  const isFiltered = !isMoodQueryEmpty(filter);
+  const isSearching = trimmedQuery.length > 0;
+  const isActive = isSearching || isFiltered;
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    if (!isActive) {
+      setResults([]);
+      setTotal(0);
+      setHasMore(false);
+      setStatus("idle");
+      return;
+    }
+
+    setStatus("searching");
+    const timer = setTimeout(async () => {
+      try {
+        const page = await fetchPage(trimmedQuery, filter, 0);
+        if (requestId !== requestIdRef.current) return;
+        setResults(page.data);
+        setTotal(page.total);
+        setHasMore(page.hasMore);
+        setStatus("idle");
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        console.error("[useMoodSearch] Search failed:", error);
+        setStatus("error");
+      }
+    }, isSearching ? SEARCH_DEBOUNCE_MS : 0);
+
+    return () => clearTimeout(timer);
+  }, [filter, isActive, isSearching, moods, trimmedQuery]);
+
+  const loadMore = useCallback(async () => {
+    if (!isActive || !hasMore || status !== "idle") return;
+
+    const requestId = requestIdRef.current;
+    setStatus("loadingMore");
+    try {
+      const page = await fetchPage(trimmedQuery, filter, results.length);
+      if (requestId !== requestIdRef.current) return;
+      setResults((current) => [...current, ...page.data]);
+      setTotal(page.total);
+      setHasMore(page.hasMore);
+      setStatus("idle");
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("[useMoodSearch] Failed to load more results:", error);
+      setStatus("idle");
+    }
+  }, [filter, hasMore, isActive, results.length, status, trimmedQuery]);
+
+  const clear = useCallback(() => setQuery(""), []);
+
+  const entries = useMemo<MoodEntry[]>(
+    () => results.map((result) => result.entry),
+    [results]
+  );
+  const snippetsById = useMemo(
+    () =>
+      new Map<number, MoodSearchSnippet[]>(
+        results.map((result) => [result.entry.id, result.snippets])
+      ),
+    [results]
+  );
+
+  return {
+    query,
+    setQuery,
+    clear,
+    isActive,
+    isSearching,
+    isFiltered,
+    results,
+    entries,
+    snippetsById,
+    total,
+    hasMore,
+    status,
+    loadMore,
+  };
+}
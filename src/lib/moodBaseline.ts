@@ -0,0 +1,206 @@
+/**
+ * Mood baseline shifts and unusual days
+ *
+ * Pure functions over the daily aggregates from processMoodDataForDailyChart.
+ * Only days with real entries are used; interpolated days keep their place
+ * in the series but never start a shift or count as unusual. Results are
+ * deterministic for a given input.
+ */
+
+import { format } from "date-fns";
+import { isBetterMoodRating } from "@/constants/moodScaleInterpretation";
+import type { DailyDataPoint } from "./moodChartData";
+
+/** The daily average settled at a new level from `date` on */
+export interface BaselineShift {
+  /** Position in the daily aggregates */
+  index: number;
+  date: Date;
+  before: number;
+  after: number;
+}
+
+/** A day far from the days just before it */
+export interface MoodAnomaly {
+  index: number;
+  date: Date;
+  value: number;
+  baseline: number;
+  zScore: number;
+  isBetter: boolean;
+}
+
+export interface DailyChartAnnotation {
+  index: number;
+  date: Date;
+  kind: "shift" | "anomaly";
+  label: string;
+}
+
+/** Real days needed on each side of a shift */
+export const MIN_SHIFT_SEGMENT_DAYS = 7;
+/** Smallest change in the daily average reported as a shift */
+export const MIN_SHIFT_POINTS = 1;
+// Standardized difference a split must reach. Set well above the usual 2 as
+// the best of many candidate splits is always tried.
+const MIN_SHIFT_SCORE = 4;
+const MAX_SHIFTS = 3;
+
+/** Real days before a day that make up its rolling baseline */
+export const ANOMALY_WINDOW_DAYS = 14;
+const MIN_ANOMALY_BASELINE_DAYS = 7;
+export const ANOMALY_Z_SCORE = 2.5;
+// Keeps a very steady baseline from flagging ordinary one-point changes.
+const MIN_BASELINE_SPREAD = 0.5;
+
+type RealDay = { index: number; date: Date; value: number };
+
+function toRealDays(dailyAggregates: DailyDataPoint[]): RealDay[] {
+  return dailyAggregates.flatMap((day, index) =>
+    day.hasRealData ? [{ index, date: day.date, value: day.finalAvg }] : []
+  );
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sumOfSquares(values: number[], mean: number): number {
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+}
+
+/** Best single split of `values[start, end)`, or null if none is strong enough */
+function findBestSplit(values: number[], start: number, end: number): number | null {
+  let best: { split: number; score: number } | null = null;
+  for (
+    let split = start + MIN_SHIFT_SEGMENT_DAYS;
+    split <= end - MIN_SHIFT_SEGMENT_DAYS;
+    split++
+  ) {
+    const left = values.slice(start, split);
+    const right = values.slice(split, end);
+    const leftMean = average(left);
+    const rightMean = average(right);
+    const difference = rightMean - leftMean;
+    if (Math.abs(difference) < MIN_SHIFT_POINTS) continue;
+
+    const pooledVariance =
+      (sumOfSquares(left, leftMean) + sumOfSquares(right, rightMean)) /
+      (left.length + right.length - 2);
+    const standardError = Math.sqrt(
+      Math.max(pooledVariance, MIN_BASELINE_SPREAD ** 2) * (1 / left.length + 1 / right.length)
+    );
+    const score = Math.abs(difference) / standardError;
+    if (score >= MIN_SHIFT_SCORE && (!best || score > best.score)) {
+      best = { split, score };
+    }
+  }
+  return best?.split ?? null;
+}
+
+/**
+ * Finds up to three points where the daily average moved to a new level, by
+ * binary segmentation: split where the means on both sides differ most, then
+ * look again inside each side.
+ */
+export function detectBaselineShifts(dailyAggregates: DailyDataPoint[]): BaselineShift[] {
+  const days = toRealDays(dailyAggregates);
+  const values = days.map((day) => day.value);
+  const splits: number[] = [];
+  const pending: [number, number][] = [[0, values.length]];
+
+  while (pending.length > 0 && splits.length < MAX_SHIFTS) {
+    const [start, end] = pending.shift()!;
+    const split = findBestSplit(values, start, end);
+    if (split === null) continue;
+    splits.push(split);
+    pending.push([start, split], [split, end]);
+  }
+
+  const sortedSplits = [...splits].sort((a, b) => a - b);
+  const bounds = [0, ...sortedSplits, values.length];
+  return sortedSplits.map((split, position) => ({
+    index: days[split].index,
+    date: days[split].date,
+    before: average(values.slice(bounds[position], split)),
+    after: average(values.slice(split, bounds[position + 2])),
+  }));
+}
+
+/**
+ * Flags days at least `ANOMALY_Z_SCORE` standard deviations from the average
+ * of the `ANOMALY_WINDOW_DAYS` real days before them. The baseline never
+ * reaches back past a shift, so a new level is not flagged day after day.
+ */
+export function detectMoodAnomalies(
+  dailyAggregates: DailyDataPoint[],
+  shifts: BaselineShift[] = detectBaselineShifts(dailyAggregates)
+): MoodAnomaly[] {
+  const days = toRealDays(dailyAggregates);
+  const shiftIndexes = new Set(shifts.map((shift) => shift.index));
+  let segmentStart = 0;
+  return days.flatMap((day, position): MoodAnomaly[] => {
+    if (shiftIndexes.has(day.index)) {
+      segmentStart = position;
+    }
+    const window = days
+      .slice(Math.max(segmentStart, position - ANOMALY_WINDOW_DAYS), position)
+      .map((previous) => previous.value);
+    if (window.length < MIN_ANOMALY_BASELINE_DAYS) return [];
+
+    const baseline = average(window);
+    const spread = Math.max(
+      Math.sqrt(sumOfSquares(window, baseline) / (window.length - 1)),
+      MIN_BASELINE_SPREAD
+    );
+    const zScore = (day.value - baseline) / spread;
+    if (Math.abs(zScore) < ANOMALY_Z_SCORE) return [];
+    return [
+      {
+        index: day.index,
+        date: day.date,
+        value: day.value,
+        baseline,
+        zScore,
+        isBetter: isBetterMoodRating(day.value, baseline),
+      },
+    ];
+  });
+}
+
+export function formatBaselineShift(shift: BaselineShift): string {
+  return `Since ${format(shift.date, "MMM d, yyyy")} the daily average moved from ${shift.before.toFixed(
+    1
+  )} to ${shift.after.toFixed(1)}`;
+}
+
+export function formatMoodAnomaly(anomaly: MoodAnomaly): string {
+  return `${format(anomaly.date, "MMM d, yyyy")}: an unusually ${
+    anomaly.isBetter ? "good" : "difficult"
+  } day (${anomaly.value.toFixed(1)} against a recent average of ${anomaly.baseline.toFixed(1)})`;
+}
+
+/** Shifts and unusual days, in chart order, for marking on the daily chart */
+export function getDailyChartAnnotations(dailyAggregates: DailyDataPoint[]): DailyChartAnnotation[] {
+  const baselineShifts = detectBaselineShifts(dailyAggregates);
+  const shifts = baselineShifts.map(
+    (shift): DailyChartAnnotation => ({
+      index: shift.index,
+      date: shift.date,
+      kind: "shift",
+      label: `${shift.before.toFixed(1)} → ${shift.after.toFixed(1)}`,
+    })
+  );
+  const anomalies = detectMoodAnomalies(dailyAggregates, baselineShifts).map(
+    (anomaly): DailyChartAnnotation => ({
+      index: anomaly.index,
+      date: anomaly.date,
+      kind: "anomaly",
+      label: anomaly.isBetter ? "Unusually good" : "Unusually difficult",
+    })
+  );
+  // A shift drawn on the same day as an unusual day goes first.
+  return [...shifts, ...anomalies].sort(
+    (a, b) => a.index - b.index || Number(a.kind === "anomaly") - Number(b.kind === "anomaly")
+  );
+}
@@ -20,6 +20,7 @@ import {
   getInterpretedMoodRating,
   getNeutralMoodRating,
 } from "@/constants/moodScaleInterpretation";
+import { getDailyChartAnnotations, type DailyChartAnnotation } from "./moodBaseline";
 
 /** Daily aggregate data point for charts */
 export interface DailyDataPoint {
@@ -113,14 +114,19 @@ const getQuartiles = (arr: number[]) => {
 
 /**
  * Aggregates Mood Entries into per-day averages over a rolling window, filling
- * gaps with linear interpolation between neighbouring real days.
+ * gaps with linear interpolation between neighbouring real days. Baseline
+ * shifts and unusual days in the window come back as `annotations`.
  */
 export const processMoodDataForDailyChart = (
   allMoods: MoodEntry[],
   numDays?: number
-): { labels: string[]; dailyAggregates: DailyDataPoint[] } => {
+): {
+  labels: string[];
+  dailyAggregates: DailyDataPoint[];
+  annotations: DailyChartAnnotation[];
+} => {
   if (!allMoods || allMoods.length === 0) {
-    return { labels: [], dailyAggregates: [] };
+    return { labels: [], dailyAggregates: [], annotations: [] };
   }
 
   const maxDays = numDays || 90;
@@ -138,7 +144,7 @@ export const processMoodDataForDailyChart = (
   );
 
   if (filteredMoods.length === 0) {
-    return { labels: [], dailyAggregates: [] };
+    return { labels: [], dailyAggregates: [], annotations: [] };
   }
 
   const latestDate = startOfDay(
@@ -244,7 +250,11 @@ export const processMoodDataForDailyChart = (
   );
 
   const labels = finalAggregates.map((agg) => format(agg.date, "d"));
-  return { labels, dailyAggregates: finalAggregates };
+  return {
+    labels,
+    dailyAggregates: finalAggregates,
+    annotations: getDailyChartAnnotations(finalAggregates),
+  };
 };
 
 /**
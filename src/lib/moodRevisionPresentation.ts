@@ -0,0 +1,114 @@
+/**
+ * Mood revision presentation helpers
+ *
+ * Pure functions that turn stored entry revisions into the labels and values
+ * shown in the entry History section and the therapy CSV.
+ */
+
+import { getMoodRatingLabel } from "@/constants/moodScaleInterpretation";
+import type { MoodScaleSnapshot } from "@db/types";
+import type { MoodRevision, MoodRevisionChange, MoodRevisionField } from "@db/db";
+
+export interface MoodRevisionChangeSummary {
+  field: MoodRevisionField;
+  label: string;
+  from: string;
+  to: string;
+}
+
+const FIELD_LABELS: Record<MoodRevisionField, string> = {
+  mood: "Mood",
+  note: "Note",
+  timestamp: "Time",
+  energy: "Energy",
+  emotions: "Emotions",
+  contextTags: "Context Tags",
+};
+
+const EMPTY_VALUE = "None";
+
+function formatList(values: string[]): string {
+  return values.length > 0 ? values.join(", ") : EMPTY_VALUE;
+}
+
+function formatMood(value: number, sourceScale: MoodScaleSnapshot): string {
+  return `${value} (${getMoodRatingLabel(value, sourceScale)})`;
+}
+
+/**
+ * Describes one changed field with its old and new values. Mood ratings are
+ * labelled with the entry's own Mood Scale.
+ */
+export function summarizeMoodRevisionChange(
+  change: MoodRevisionChange,
+  sourceScale: MoodScaleSnapshot,
+  formatTime: (timestamp: number) => string
+): MoodRevisionChangeSummary {
+  const label = FIELD_LABELS[change.field];
+  switch (change.field) {
+    case "mood":
+      return {
+        field: change.field,
+        label,
+        from: formatMood(change.from, sourceScale),
+        to: formatMood(change.to, sourceScale),
+      };
+    case "timestamp":
+      return {
+        field: change.field,
+        label,
+        from: formatTime(change.from),
+        to: formatTime(change.to),
+      };
+    case "energy":
+      return {
+        field: change.field,
+        label,
+        from: change.from === null ? EMPTY_VALUE : String(change.from),
+        to: change.to === null ? EMPTY_VALUE : String(change.to),
+      };
+    case "note":
+      return {
+        field: change.field,
+        label,
+        from: change.from?.trim() || EMPTY_VALUE,
+        to: change.to?.trim() || EMPTY_VALUE,
+      };
+    case "emotions":
+    case "contextTags":
+      return {
+        field: change.field,
+        label,
+        from: formatList(change.from),
+        to: formatList(change.to),
+      };
+  }
+}
+
+function quoteNote(note: string | null): string {
+  const trimmed = note?.trim();
+  return trimmed ? `"${trimmed}"` : EMPTY_VALUE;
+}
+
+/**
+ * The edit log of one entry, oldest revision first and separated by ` | `, e.g.
+ * `1/15/2024, 9:00:00 AM: Mood 5 (Okay) -> 7 (Good); Note "Tired" -> "Rested"`.
+ */
+export function formatMoodRevisionLog(
+  revisions: MoodRevision[],
+  sourceScale: MoodScaleSnapshot,
+  formatTime: (timestamp: number) => string
+): string {
+  return revisions
+    .map((revision) => {
+      const changes = revision.changes.map((change) => {
+        const summary = summarizeMoodRevisionChange(change, sourceScale, formatTime);
+        if (change.field === "note") {
+          return `${summary.label} ${quoteNote(change.from)} -> ${quoteNote(change.to)}`;
+        }
+        return `${summary.label} ${summary.from} -> ${summary.to}`;
+      });
+      return `${formatTime(revision.revisedAt)}: ${changes.join("; ")}`;
+    })
+    .join(" | ");
+}
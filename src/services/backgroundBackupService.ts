@@ -0,0 +1,9 @@
+import "@db/backgroundBackup";
+import { setBackupExportOptionsProvider } from "@db/backup";
+
+import { dataPortabilityService } from "@/services/dataPortabilityService";
+
+// Loaded from index.js, before the router, so the provider is in place
+// whenever the background backup task can run. On Android the task may start
+// headless, without ever mounting the root layout.
+setBackupExportOptionsProvider(() => dataPortabilityService.getExportOptions());
@@ -1,22 +1,69 @@
+import Constants from "expo-constants";
+import { rescheduleBackgroundBackupTask } from "@db/backgroundBackup";
 import {
   createBackup,
   getBackupFolder,
+  getBackupHealth,
   getBackupInfo,
+  getBackupPolicy,
+  listBackups,
+  readBackupChain,
+  readBackupFile,
   setBackupFolder,
+  setBackupPolicy,
+  verifyBackup,
+  type BackupListItem,
   type BackupResult,
+  type BackupVerification,
 } from "@db/backup";
+import {
+  appendBackupLog,
+  clearBackupLog,
+  getBackupLog,
+  getBackupLogFilename,
+  serializeBackupLog,
+  type BackupLogEntry,
+} from "@db/backupLog";
+import type { BackupHealth, BackupPolicy } from "@db/backupPolicy";
+import { decryptBackup, isEncryptedBackup } from "@db/backupCrypto";
+import {
+  changeBackupPassphrase,
+  disableBackupEncryption,
+  enableBackupEncryption,
+  isBackupEncryptionEnabled,
+} from "@db/backupEncryption";
 import {
   clearMoodData,
+  createCsvImportMapping,
+  detectCsvImportPreset,
   exportMoods,
+  importCsvMoods,
   importMoods,
-  previewImportMoods,
-  type ImportPreviewResult,
+  mergeImportMoods,
+  parseCsv,
+  previewCsvImportMoods,
+  previewMergeImportMoods,
+  replayIncrementalBackups,
+  summarizeMoodExport,
+  type CsvImportMapping,
+  type CsvImportPreset,
+  type CsvImportPreviewResult,
   type ImportResult,
+  type MergeConflictStrategy,
+  type MergeImportPreviewResult,
+  type MergeImportResult,
+  type MoodExportOptions,
+  type MoodExportSettings,
+  type MoodExportSummary,
 } from "@db/db";
 import type { MoodDateRange } from "@db/moods/range";
 import type { Emotion } from "@db/types";
+import { slugifyViewName, type SavedFilterView } from "@/lib/savedViews";
 import { presetSyncService } from "@/services/presetSyncService";
+import { settingsService } from "@/services/settingsService";
+import { getAllNotifications, saveAllNotifications } from "@/services/notificationService";
 import { useMoodsStore } from "@/shared/state/moodsStore";
+import { useSettingsStore } from "@/shared/state/settingsStore";
 
 export type ExportRange = "week" | "month" | "custom" | "full";
 export type ExportRangePayload =
@@ -32,6 +79,7 @@ export type BackupInfoSummary = {
 export type BackupStatusSummary = {
   info: BackupInfoSummary;
   folderUri: string | null;
+  health: BackupHealth;
 };
 
 export type ManualBackupOutcome =
@@ -42,6 +90,8 @@ export type ExportRequest = {
   range: ExportRange;
   customStartDate: Date;
   customEndDate: Date;
+  /** Saved view that narrows the range to its matching entries. */
+  view?: SavedFilterView | null;
   now?: Date;
 };
 
@@ -53,11 +103,109 @@ export type CreateExportOutcome =
   | { ok: true; payload: ExportRangePayload; fileName: string; jsonData: string }
   | { ok: false; title: string; message: string };
 
-export type DataImportResult = ImportResult & {
-  addedEmotions: Emotion[];
-  addedContexts: string[];
+/** Replace clears local data first; merge adds to it. */
+export type DataImportMode =
+  | { mode: "replace" }
+  | { mode: "merge"; conflictStrategy: MergeConflictStrategy };
+
+export type DataImportResult = Omit<ImportResult, "settings"> &
+  Partial<Pick<MergeImportResult, "duplicates" | "conflicts" | "overwritten">> & {
+    addedEmotions: Emotion[];
+    addedContexts: string[];
+    /** Labels of the configuration sections restored from the file. */
+    restoredSettings?: string[];
+  };
+
+export type CsvImportFile = {
+  headers: string[];
+  /** First data rows, for showing example values next to each column. */
+  sampleRows: string[][];
+  rowCount: number;
+  preset: CsvImportPreset | null;
+  mapping: CsvImportMapping;
+  /** Name of the picked file, for the backup log. */
+  fileName: string | null;
+};
+
+export type BackupRestoreResult = DataImportResult & {
+  /** Backup of the data that was on the device before the restore. */
+  safetyBackupUri: string;
+};
+
+const CSV_SAMPLE_ROW_COUNT = 3;
+
+const SETTINGS_SECTION_LABELS: Record<keyof MoodExportSettings, string> = {
+  emotions: "emotion list",
+  contexts: "context tags",
+  quickEntryPrefs: "quick entry options",
+  reminders: "reminders",
 };
 
+function mergeByName<T>(current: T[], incoming: T[], nameOf: (item: T) => string): T[] {
+  const known = new Set(current.map((item) => nameOf(item).toLowerCase()));
+  return [
+    ...current,
+    ...incoming.filter((item) => !known.has(nameOf(item).toLowerCase())),
+  ];
+}
+
+/**
+ * Applies the configuration sections of an envelope import. Replacing adopts
+ * the file's configuration; merging only adds missing emotions and context
+ * tags and leaves preferences and reminders alone.
+ */
+async function applyImportedSettings(
+  settings: MoodExportSettings,
+  mode: DataImportMode["mode"]
+): Promise<string[]> {
+  const store = useSettingsStore.getState();
+  const restored: string[] = [];
+
+  if (settings.emotions) {
+    await store.setEmotions(
+      mode === "merge"
+        ? mergeByName(store.emotions, settings.emotions, (emotion) => emotion.name)
+        : settings.emotions
+    );
+    restored.push(SETTINGS_SECTION_LABELS.emotions);
+  }
+  if (settings.contexts) {
+    await store.setContexts(
+      mode === "merge"
+        ? mergeByName(store.contexts, settings.contexts, (context) => context)
+        : settings.contexts
+    );
+    restored.push(SETTINGS_SECTION_LABELS.contexts);
+  }
+  if (mode === "merge") {
+    return restored;
+  }
+
+  if (settings.quickEntryPrefs) {
+    await store.setQuickEntryPrefs(settings.quickEntryPrefs);
+    restored.push(SETTINGS_SECTION_LABELS.quickEntryPrefs);
+  }
+  if (settings.reminders) {
+    try {
+      await saveAllNotifications(settings.reminders);
+      restored.push(SETTINGS_SECTION_LABELS.reminders);
+    } catch (error) {
+      console.warn("Failed to restore reminders from import:", error);
+    }
+  }
+  return restored;
+}
+
+function formatList(items: string[]): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+    : items.join("");
+}
+
+function pluralizeEntries(count: number) {
+  return `${count} entr${count === 1 ? "y" : "ies"}`;
+}
+
 function formatDateSlug(date: Date) {
   return date.toISOString().split("T")[0];
 }
@@ -88,16 +236,78 @@ function resolveExportRangePayload(
 
 function buildExportFileName(request: ExportRequest): string {
   const now = request.now ?? new Date();
+  const prefix = request.view
+    ? `moodinator-export-${slugifyViewName(request.view.name)}`
+    : "moodinator-export";
 
   if (request.range === "custom") {
-    return `moodinator-export-${formatDateSlug(request.customStartDate)}-to-${formatDateSlug(request.customEndDate)}.json`;
+    return `${prefix}-${formatDateSlug(request.customStartDate)}-to-${formatDateSlug(request.customEndDate)}.json`;
   }
 
   if (request.range === "full") {
-    return `moodinator-export-full-${formatDateSlug(now)}.json`;
+    return `${prefix}-full-${formatDateSlug(now)}.json`;
   }
 
-  return `moodinator-export-${request.range}-${formatDateSlug(now)}.json`;
+  return `${prefix}-${request.range}-${formatDateSlug(now)}.json`;
+}
+
+/** Runs an import or restore and records its outcome in the backup log. */
+async function logImport<T extends { imported: number }>(
+  operation: "import" | "restore",
+  fileName: string | null,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    const result = await run();
+    await appendBackupLog({
+      operation,
+      trigger: "manual",
+      result: "success",
+      fileName,
+      entryCount: result.imported,
+    });
+    return result;
+  } catch (error) {
+    await appendBackupLog({
+      operation,
+      trigger: "manual",
+      result: "failure",
+      fileName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+async function importJsonData(
+  jsonData: string,
+  options: DataImportMode
+): Promise<DataImportResult> {
+  const { settings, ...result } =
+    options.mode === "merge"
+      ? await mergeImportMoods(jsonData, { conflictStrategy: options.conflictStrategy })
+      : await importMoods(jsonData);
+  const restoredSettings = settings
+    ? await applyImportedSettings(settings, options.mode)
+    : [];
+  return {
+    ...(await finishImport(result)),
+    ...(restoredSettings.length > 0 ? { restoredSettings } : {}),
+  };
+}
+
+/** Adds imported emotions and tags to the preset lists and refreshes entries. */
+async function finishImport<T extends Omit<ImportResult, "settings">>(
+  result: T
+): Promise<T & Pick<DataImportResult, "addedEmotions" | "addedContexts">> {
+  const syncResult = await presetSyncService.addMissingFromHistory("all");
+  useMoodsStore.getState().invalidate();
+  void useMoodsStore.getState().ensureFresh();
+  return {
+    ...result,
+    addedEmotions: syncResult.addedEmotions,
+    addedContexts: syncResult.addedContexts,
+  };
 }
 
 export const dataPortabilityService = {
@@ -123,8 +333,38 @@ export const dataPortabilityService = {
     };
   },
 
+  /**
+   * App version and configuration sections added to exports and backups.
+   * Reads persisted settings so it also works before the store hydrates.
+   */
+  async getExportOptions(): Promise<MoodExportOptions> {
+    const [settings, reminders] = await Promise.all([
+      settingsService.load(),
+      getAllNotifications(),
+    ]);
+
+    return {
+      appVersion: Constants.expoConfig?.version ?? null,
+      settings: {
+        emotions: settings.emotions,
+        contexts: settings.contexts,
+        quickEntryPrefs: settings.quickEntryPrefs,
+        reminders: reminders
+          .filter((reminder) => reminder.pendingAction !== "delete")
+          .map(({ id, title, body, hour, minute, enabled }) => ({
+            id,
+            title,
+            body,
+            hour,
+            minute,
+            enabled,
+          })),
+      },
+    };
+  },
+
   async exportData(range?: MoodDateRange): Promise<string> {
-    return exportMoods(range);
+    return exportMoods(range, undefined, await this.getExportOptions());
   },
 
   async createExport(
@@ -137,29 +377,91 @@ export const dataPortabilityService = {
 
     return {
       ...resolved,
-      jsonData: await exportMoods(resolved.payload),
+      jsonData: await exportMoods(
+        resolved.payload,
+        request.view?.query,
+        await this.getExportOptions()
+      ),
     };
   },
 
-  async importData(jsonData: string): Promise<DataImportResult> {
-    const result = await importMoods(jsonData);
-    const syncResult = await presetSyncService.addMissingFromHistory("all");
-    useMoodsStore.getState().invalidate();
-    void useMoodsStore.getState().ensureFresh();
+  async importData(
+    jsonData: string,
+    options: DataImportMode = { mode: "replace" },
+    fileName: string | null = null
+  ): Promise<DataImportResult> {
+    return logImport("import", fileName, () => importJsonData(jsonData, options));
+  },
+
+  /** Parses a CSV file and suggests a column mapping from its headers. */
+  readCsvImportFile(csvData: string, fileName: string | null = null): CsvImportFile {
+    const [headers = [], ...rows] = parseCsv(csvData);
+    if (headers.length === 0) {
+      throw new Error("CSV file is empty");
+    }
     return {
-      ...result,
-      addedEmotions: syncResult.addedEmotions,
-      addedContexts: syncResult.addedContexts,
+      headers,
+      sampleRows: rows.slice(0, CSV_SAMPLE_ROW_COUNT),
+      rowCount: rows.length,
+      preset: detectCsvImportPreset(headers),
+      mapping: createCsvImportMapping(headers, rows.slice(0, 20)),
+      fileName,
     };
   },
 
-  previewImportData(jsonData: string): ImportPreviewResult {
-    return previewImportMoods(jsonData);
+  async previewCsvImport(
+    csvData: string,
+    mapping: CsvImportMapping
+  ): Promise<CsvImportPreviewResult> {
+    return previewCsvImportMoods(csvData, mapping, useSettingsStore.getState().emotions);
+  },
+
+  async importCsvData(
+    csvData: string,
+    mapping: CsvImportMapping,
+    options: DataImportMode = { mode: "replace" },
+    fileName: string | null = null
+  ): Promise<DataImportResult> {
+    return logImport("import", fileName, async () => {
+      const result = await importCsvMoods(
+        csvData,
+        mapping,
+        options,
+        useSettingsStore.getState().emotions
+      );
+      return finishImport(result);
+    });
   },
 
-  summarizeImportPreview(preview: ImportPreviewResult): string {
-    const entryLabel = `${preview.entryCount} entr${preview.entryCount === 1 ? "y" : "ies"}`;
-    return `The selected file contains ${entryLabel}. Importing replaces your current local Moodinator data.`;
+  /**
+   * Validates the file and counts how its entries compare to local data, so
+   * the user can choose between merging and replacing.
+   */
+  async previewImportData(jsonData: string): Promise<MergeImportPreviewResult> {
+    return previewMergeImportMoods(jsonData);
+  },
+
+  summarizeImportPreview(preview: MergeImportPreviewResult): string {
+    const breakdown = [
+      `${preview.newCount} new`,
+      preview.duplicateCount > 0 ? `${preview.duplicateCount} already on this device` : null,
+      preview.conflictCount > 0
+        ? `${preview.conflictCount} conflicting with an existing entry at the same time`
+        : null,
+    ].filter(Boolean);
+    return `The selected file contains ${pluralizeEntries(preview.entryCount)}: ${breakdown.join(", ")}.`;
+  },
+
+  summarizeCsvImportPreview(preview: CsvImportPreviewResult): string {
+    return [
+      this.summarizeImportPreview(preview),
+      preview.skipped > 0
+        ? `${preview.skipped} row${preview.skipped === 1 ? "" : "s"} can't be read with this mapping and will be skipped.`
+        : null,
+      preview.errors.length > 0 ? preview.errors.slice(0, 2).join("\n") : null,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
   },
 
   async deleteLocalMoodData(): Promise<void> {
@@ -170,22 +472,44 @@ export const dataPortabilityService = {
 
   summarizeImportResult(
     importResult: ImportResult &
-      Partial<Pick<DataImportResult, "addedEmotions" | "addedContexts">>
+      Partial<
+        Pick<
+          DataImportResult,
+          | "addedEmotions"
+          | "addedContexts"
+          | "duplicates"
+          | "overwritten"
+          | "restoredSettings"
+        >
+      >
   ): string {
     const addedEmotionCount = importResult.addedEmotions?.length ?? 0;
     const addedContextCount = importResult.addedContexts?.length ?? 0;
 
+    const duplicateCount = importResult.duplicates ?? 0;
+    const overwrittenCount = importResult.overwritten ?? 0;
+    const restoredSettings = importResult.restoredSettings ?? [];
+
     return [
-      `Imported ${importResult.imported} entr${importResult.imported === 1 ? "y" : "ies"}.`,
+      `Imported ${pluralizeEntries(importResult.imported)}.`,
       importResult.skipped > 0
         ? `Skipped ${importResult.skipped} invalid entr${importResult.skipped === 1 ? "y" : "ies"}.`
         : null,
+      duplicateCount > 0
+        ? `Skipped ${pluralizeEntries(duplicateCount)} already on this device.`
+        : null,
+      overwrittenCount > 0
+        ? `Replaced ${pluralizeEntries(overwrittenCount)} with the imported version.`
+        : null,
       addedEmotionCount > 0
         ? `Added ${addedEmotionCount} emotion${addedEmotionCount === 1 ? "" : "s"} to your Emotion List.`
         : null,
       addedContextCount > 0
         ? `Added ${addedContextCount} context tag${addedContextCount === 1 ? "" : "s"} to your Context Tag List.`
         : null,
+      restoredSettings.length > 0
+        ? `Restored your ${formatList(restoredSettings)} from the file.`
+        : null,
       importResult.errors.length > 0
         ? importResult.errors.slice(0, 2).join("\n")
         : null,
@@ -236,17 +560,186 @@ export const dataPortabilityService = {
   },
 
   async getBackupStatus(): Promise<BackupStatusSummary> {
-    const [info, folderUri] = await Promise.all([
+    const [info, folderUri, health] = await Promise.all([
       this.getBackupInfo(),
       this.getBackupFolder(),
+      getBackupHealth(),
     ]);
 
-    return { info, folderUri };
+    return { info, folderUri, health };
   },
 
   async setBackupFolder(uri: string): Promise<void> {
     await setBackupFolder(uri);
   },
+
+  async getBackupPolicy(): Promise<BackupPolicy> {
+    return getBackupPolicy();
+  },
+
+  /**
+   * Saves the policy and reschedules the background task. Backups the new
+   * retention no longer keeps are removed after the next backup.
+   */
+  async setBackupPolicy(policy: BackupPolicy): Promise<void> {
+    await setBackupPolicy(policy);
+    await rescheduleBackgroundBackupTask();
+  },
+
+  async listBackups(): Promise<BackupListItem[]> {
+    return listBackups();
+  },
+
+  async readBackup(uri: string): Promise<string> {
+    return readBackupFile(uri);
+  },
+
+  /**
+   * Reads the files restoring a backup needs, oldest first: just the backup,
+   * or for an incremental one its full backup and then it. Each may still be
+   * encrypted.
+   */
+  async readBackupChain(uri: string): Promise<string[]> {
+    return readBackupChain(uri);
+  },
+
+  /** Combines a decrypted backup chain into one export for `restoreBackup`. */
+  async combineBackupChain(jsonFiles: string[]): Promise<string> {
+    const [full, ...incrementals] = jsonFiles;
+    if (full === undefined) {
+      throw new Error("No backup to restore");
+    }
+    return replayIncrementalBackups(full, incrementals);
+  },
+
+  async verifyBackup(uri: string): Promise<BackupVerification> {
+    return verifyBackup(uri);
+  },
+
+  describeBackupVerification(verification: BackupVerification): string {
+    const entries =
+      verification.entryCount !== null ? `${pluralizeEntries(verification.entryCount)}. ` : "";
+    switch (verification.checksum) {
+      case "valid":
+        return `${entries}The checksum matches, so the backup is intact.`;
+      case "missing":
+        return `${entries}This backup was made before checksums were added, but it can be read.`;
+      case "mismatch":
+        return `${entries}The checksum does not match. This backup may be damaged.`;
+      case "unverified":
+        return verification.ok
+          ? `${entries}${verification.error ?? "This backup could not be checked."}`
+          : `This backup cannot be read: ${verification.error ?? "unknown error"}`;
+    }
+  },
+
+  describeBackupContents(contents: MoodExportSummary): string {
+    if (contents.incremental) {
+      return [
+        `Incremental backup: ${pluralizeEntries(contents.entryCount)} added or changed${
+          contents.incremental.deletedCount > 0
+            ? ` and ${pluralizeEntries(contents.incremental.deletedCount)} deleted`
+            : ""
+        } since the last full backup.`,
+        "Restoring it also reads that full backup.",
+        contents.appVersion ? `Made with Moodinator ${contents.appVersion}.` : null,
+      ]
+        .filter(Boolean)
+        .join(" ");
+    }
+    const lines = [
+      `${pluralizeEntries(contents.entryCount)}${
+        contents.firstEntryAt !== null && contents.lastEntryAt !== null
+          ? ` from ${new Date(contents.firstEntryAt).toLocaleDateString()} to ${new Date(
+              contents.lastEntryAt
+            ).toLocaleDateString()}`
+          : ""
+      }.`,
+      contents.settingsSections.length > 0
+        ? `Includes your ${formatList(
+            contents.settingsSections.map((section) => SETTINGS_SECTION_LABELS[section])
+          )}.`
+        : null,
+      contents.appVersion ? `Made with Moodinator ${contents.appVersion}.` : null,
+    ];
+    return lines.filter(Boolean).join(" ");
+  },
+
+  describeBackup(jsonData: string): string {
+    return this.describeBackupContents(summarizeMoodExport(jsonData));
+  },
+
+  /**
+   * Replaces local data with a backup after saving the current data as a
+   * safety backup. The restore is abandoned if the safety backup fails.
+   */
+  async restoreBackup(
+    jsonData: string,
+    fileName: string | null = null
+  ): Promise<BackupRestoreResult> {
+    return logImport("restore", fileName, async () => {
+      // Parse before touching anything so an unreadable file leaves no trace.
+      summarizeMoodExport(jsonData);
+      const safetyBackup = await createBackup("pre-restore");
+      if (!safetyBackup.success) {
+        throw new Error(
+          `Restore cancelled because a safety backup of your current data failed: ${safetyBackup.error}`
+        );
+      }
+      const result = await importJsonData(jsonData, { mode: "replace" });
+      return { ...result, safetyBackupUri: safetyBackup.data };
+    });
+  },
+
+  async getBackupLog(): Promise<BackupLogEntry[]> {
+    return getBackupLog();
+  },
+
+  async clearBackupLog(): Promise<void> {
+    await clearBackupLog();
+  },
+
+  /**
+   * Builds the backup log file shared with support. `device` describes the
+   * platform and OS version, which the log can't read itself.
+   */
+  async exportBackupLog(device: string): Promise<{ fileName: string; content: string }> {
+    const exportedAt = Date.now();
+    return {
+      fileName: getBackupLogFilename(exportedAt),
+      content: serializeBackupLog(await getBackupLog(), {
+        appVersion: Constants.expoConfig?.version ?? null,
+        device,
+        exportedAt,
+      }),
+    };
+  },
+
+  async isBackupEncryptionEnabled(): Promise<boolean> {
+    return isBackupEncryptionEnabled();
+  },
+
+  async enableBackupEncryption(passphrase: string): Promise<void> {
+    await enableBackupEncryption(passphrase);
+  },
+
+  async changeBackupPassphrase(currentPassphrase: string, nextPassphrase: string): Promise<void> {
+    await changeBackupPassphrase(currentPassphrase, nextPassphrase);
+  },
+
+  async disableBackupEncryption(passphrase: string): Promise<void> {
+    await disableBackupEncryption(passphrase);
+  },
+
+  /** Whether an import file is an encrypted backup that needs a passphrase. */
+  isEncryptedBackup(fileContent: string): boolean {
+    return isEncryptedBackup(fileContent);
+  },
+
+  /** Decrypts an encrypted backup into export JSON for the regular import flow. */
+  async decryptBackup(fileContent: string, passphrase: string): Promise<string> {
+    return decryptBackup(fileContent, passphrase);
+  },
 };
 
 export default dataPortabilityService;
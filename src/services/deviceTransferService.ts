@@ -0,0 +1,201 @@
+/**
+ * Device Transfer Service
+ * Moves all data to another device on the same network. The sending device
+ * serves one encrypted export over TCP to whoever opens its transfer link;
+ * the receiving device pulls it and merges it like an imported file.
+ */
+
+import * as Network from "expo-network";
+import TcpSocket from "react-native-tcp-socket";
+import {
+  TRANSFER_INVITE_TTL_MS,
+  buildTransferLink,
+  createTransferInvite,
+  parseTransferLink,
+  parseTransferParams,
+  receiveTransfer,
+  sendTransfer,
+  type TransferConnection,
+  type TransferInvite,
+} from "@db/deviceTransfer";
+import { summarizeMoodExport } from "@db/db";
+import { utf8Encode } from "@db/hashing";
+import { dataPortabilityService } from "@/services/dataPortabilityService";
+
+type Socket = InstanceType<typeof TcpSocket.Socket>;
+
+/** Connections that fail the handshake before the session gives up. */
+const MAX_FAILED_CONNECTIONS = 5;
+const CONNECT_TIMEOUT_MS = 10_000;
+
+export type TransferSendSession = {
+  /** The link to show as a QR code. It contains the one-time key. */
+  link: string;
+  expiresAt: number;
+  entryCount: number;
+  /**
+   * Resolves with true once a device has received the data, or false when
+   * cancelled. Rejects when the code expires or too many attempts fail.
+   */
+  completed: Promise<boolean>;
+  cancel: () => void;
+};
+
+function socketConnection(socket: Socket): TransferConnection {
+  return {
+    write: (bytes) =>
+      new Promise((resolve, reject) => {
+        socket.write(bytes, undefined, (error) => (error ? reject(error) : resolve()));
+      }),
+    listen: ({ onData, onClose }) => {
+      socket.on("data", (data) =>
+        onData(typeof data === "string" ? utf8Encode(data) : new Uint8Array(data))
+      );
+      socket.on("error", (error) => onClose(error));
+      socket.on("close", () => onClose());
+    },
+    // Ends gracefully, so a final frame still reaches the other device.
+    close: () => {
+      socket.end();
+    },
+  };
+}
+
+async function getLocalAddress(): Promise<string> {
+  const [state, address] = await Promise.all([
+    Network.getNetworkStateAsync(),
+    Network.getIpAddressAsync(),
+  ]);
+  const onLocalNetwork =
+    state.type === Network.NetworkStateType.WIFI ||
+    state.type === Network.NetworkStateType.ETHERNET;
+  if (!onLocalNetwork || !address || address === "0.0.0.0") {
+    throw new Error("Connect both devices to the same Wi-Fi network to transfer your data.");
+  }
+  return address;
+}
+
+function connect(invite: TransferInvite): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = TcpSocket.createConnection(
+      { host: invite.host, port: invite.port, connectTimeout: CONNECT_TIMEOUT_MS },
+      () => {
+        socket.off("error", onError);
+        resolve(socket);
+      }
+    );
+    const onError = () => {
+      socket.destroy();
+      reject(
+        new Error(
+          "Couldn't reach the other device. Check that both are on the same Wi-Fi network and the code is still showing."
+        )
+      );
+    };
+    socket.once("error", onError);
+  });
+}
+
+export const deviceTransferService = {
+  /** Reads a transfer link typed or pasted by the user. */
+  readLink(link: string): TransferInvite {
+    return parseTransferLink(link);
+  },
+
+  /** Reads the query parameters of a transfer link the app was opened with. */
+  readLinkParams(params: Record<string, unknown>): TransferInvite {
+    return parseTransferParams(params);
+  },
+
+  /**
+   * Exports all data and waits for one device to collect it. The session
+   * ends after a successful transfer, on `cancel` or once the code expires.
+   */
+  async startSending(): Promise<TransferSendSession> {
+    const host = await getLocalAddress();
+    const payload = await dataPortabilityService.exportData();
+    const { entryCount } = summarizeMoodExport(payload);
+
+    const server = TcpSocket.createServer();
+    const port = await new Promise<number>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen({ port: 0, host: "0.0.0.0" }, () => {
+        server.off("error", reject);
+        resolve(server.address()?.port ?? 0);
+      });
+    });
+    const invite = createTransferInvite(host, port);
+    const expiresAt = Date.now() + TRANSFER_INVITE_TTL_MS;
+
+    let settle: { resolve: (sent: boolean) => void; reject: (error: Error) => void };
+    const completed = new Promise<boolean>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    let finished = false;
+    let busy = false;
+    let failures = 0;
+
+    const finish = (outcome: boolean | Error) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      clearTimeout(expiry);
+      server.close();
+      if (outcome instanceof Error) {
+        settle.reject(outcome);
+      } else {
+        settle.resolve(outcome);
+      }
+    };
+    const expiry = setTimeout(
+      () => finish(new Error("The transfer code expired. Start a new transfer to try again.")),
+      TRANSFER_INVITE_TTL_MS
+    );
+
+    server.on("connection", (socket) => {
+      // One transfer at a time, and none once the session has ended.
+      if (busy || finished) {
+        socket.destroy();
+        return;
+      }
+      busy = true;
+      const connection = socketConnection(socket);
+      sendTransfer(connection, invite, payload).then(
+        () => {
+          connection.close();
+          finish(true);
+        },
+        (error) => {
+          connection.close();
+          busy = false;
+          console.warn("Device transfer attempt failed:", error);
+          failures += 1;
+          if (failures >= MAX_FAILED_CONNECTIONS) {
+            finish(
+              new Error("Too many transfer attempts failed. Start a new transfer to try again.")
+            );
+          }
+        }
+      );
+    });
+
+    return {
+      link: buildTransferLink(invite),
+      expiresAt,
+      entryCount,
+      completed,
+      cancel: () => finish(false),
+    };
+  },
+
+  /** Pulls the data offered by `invite` and returns it as an export file. */
+  async receive(invite: TransferInvite): Promise<string> {
+    const connection = socketConnection(await connect(invite));
+    try {
+      return await receiveTransfer(connection, invite);
+    } finally {
+      connection.close();
+    }
+  },
+};
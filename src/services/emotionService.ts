@@ -17,7 +17,6 @@ import {
   countMoodEntriesWithEmotionName,
   applyEmotionHistoricalUpdate,
 } from "@db/moods/emotions";
-import { migrateEmotionsToCategories } from "@db/moods/migrations";
 import { getEmotionNamesFromMoods } from "@db/moods/repository";
 import { useMoodsStore } from "@/shared/state/moodsStore";
 
@@ -55,7 +54,6 @@ export interface EmotionServiceInterface {
   // Initialization and migration
   ensureDefaults: () => Promise<void>;
   migrateToTable: () => Promise<{ migrated: number }>;
-  migrateToCategories: () => Promise<{ migrated: number; skipped: number }>;
   hasMigrated: () => Promise<boolean>;
 }
 
@@ -169,13 +167,6 @@ export const emotionService: EmotionServiceInterface = {
     return migrateEmotionsToTable();
   },
 
-  /**
-   * Migrate old string-only emotions to include categories
-   */
-  async migrateToCategories(): Promise<{ migrated: number; skipped: number }> {
-    return migrateEmotionsToCategories();
-  },
-
   /**
    * Check if emotion table migration has been completed
    */
@@ -0,0 +1,33 @@
+/**
+ * Location Service
+ * Reads a one-off coarse device position for location tagging. Positions are
+ * rounded before they leave this module and are never reverse geocoded; place
+ * names always come from the user or their saved places.
+ */
+
+import * as Location from "expo-location";
+import { coarsenCoordinate, type Coordinates } from "@/lib/location";
+
+export const locationService = {
+  /**
+   * Asks for while-in-use location access. Returns false when the user declines.
+   */
+  async requestPermission(): Promise<boolean> {
+    const { granted } = await Location.requestForegroundPermissionsAsync();
+    return granted;
+  },
+
+  /**
+   * Current position rounded to roughly one kilometre.
+   * Low accuracy lets the OS answer from cell or Wi-Fi data without GPS.
+   */
+  async getCoarsePosition(): Promise<Coordinates> {
+    const position = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.Low,
+    });
+    return {
+      latitude: coarsenCoordinate(position.coords.latitude),
+      longitude: coarsenCoordinate(position.coords.longitude),
+    };
+  },
+};
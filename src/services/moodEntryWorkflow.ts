@@ -7,6 +7,7 @@ export interface MoodEntryWorkflowRepository {
     updates: Partial<MoodEntryInput & { mood: number }>
   ) => Promise<MoodEntry | undefined>;
   delete: (id: number) => Promise<void>;
+  restore: (id: number) => Promise<MoodEntry | undefined>;
   updateTimestamp: (
     id: number,
     timestamp: number
@@ -39,6 +40,21 @@ export function createMoodEntryWorkflow(
   repository: MoodEntryWorkflowRepository,
   store: MoodEntryWorkflowStoreAdapter
 ) {
+  // Deleted entries stay in the trash, so both undo and the Trash screen
+  // bring back the original row (and its id) rather than a copy.
+  async function restoreFromTrash(id: number): Promise<MoodEntry | null> {
+    const restored = await repository.restore(id);
+    if (!restored) {
+      return null;
+    }
+
+    commitMutation(
+      store,
+      sortNewestFirst([restored, ...withoutExistingEntry(store.getMoods(), id)])
+    );
+    return restored;
+  }
+
   return {
     async create(entry: MoodEntryInput): Promise<MoodEntry> {
       const created = await repository.create(entry);
@@ -84,16 +100,12 @@ export function createMoodEntryWorkflow(
       return existing;
     },
 
-    async restore(entry: MoodEntryInput): Promise<MoodEntry> {
-      const restored = await repository.create(entry);
-      commitMutation(store, [restored, ...withoutExistingEntry(store.getMoods(), restored.id)]);
-      return restored;
+    restore(id: number): Promise<MoodEntry | null> {
+      return restoreFromTrash(id);
     },
 
-    async undoDelete(entry: MoodEntryInput): Promise<MoodEntry> {
-      const restored = await repository.create(entry);
-      commitMutation(store, [restored, ...withoutExistingEntry(store.getMoods(), restored.id)]);
-      return restored;
+    undoDelete(id: number): Promise<MoodEntry | null> {
+      return restoreFromTrash(id);
     },
   };
 }
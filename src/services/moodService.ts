@@ -12,18 +12,33 @@ import {
   updateMoodNote,
   updateMoodTimestamp,
   deleteMood,
+  restoreDeletedMood,
+  getDeletedMoods,
+  purgeDeletedMoods,
+  purgeMoodsDeletedBefore,
   getAllMoods,
   getMoodCount,
   getMoodsWithinRange,
   getMoodsPaginated,
+  getMoodsMatching,
+  getMoodsMatchingPaginated,
+  searchMoods,
   getMoodsByMonth,
   hasMoodBeenLoggedToday,
   updateEmotionCategoryInMoods,
   getEmotionNamesFromMoods,
   clearMoodData,
+  purgeUnusedMoodAttachments,
   seedMoods,
+  getMoodRevisions,
+  getMoodRevisionsByMoodIds,
+  type DeletedMoodEntry,
+  type MoodRevision,
   type PaginationOptions,
   type PaginatedResult,
+  type MoodSearchOptions,
+  type MoodSearchResult,
+  type MoodQuery,
 } from "@db/db";
 import type { MoodDateRange, MoodRangePreset } from "@db/moods/range";
 export {
@@ -32,7 +47,11 @@ export {
   type MoodEntryWorkflowStoreAdapter,
 } from "./moodEntryWorkflow";
 
+export type { DeletedMoodEntry };
+export type { MoodRevision };
 export type { PaginationOptions, PaginatedResult };
+export type { MoodSearchOptions, MoodSearchResult };
+export type { MoodQuery };
 export type { MoodDateRange, MoodRangePreset };
 
 export interface MoodServiceInterface {
@@ -41,9 +60,25 @@ export interface MoodServiceInterface {
   update: (id: number, updates: Partial<MoodEntryInput>) => Promise<MoodEntry | undefined>;
   delete: (id: number) => Promise<void>;
 
+  // Trash
+  restore: (id: number) => Promise<MoodEntry | undefined>;
+  getDeleted: () => Promise<DeletedMoodEntry[]>;
+  purgeDeleted: (ids: number[]) => Promise<number>;
+  purgeDeletedBefore: (cutoff: number) => Promise<number>;
+
+  // Edit history
+  getRevisions: (id: number) => Promise<MoodRevision[]>;
+  getRevisionsByIds: (ids: number[]) => Promise<Map<number, MoodRevision[]>>;
+
   // Queries
   getAll: () => Promise<MoodEntry[]>;
   getPaginated: (options: PaginationOptions) => Promise<PaginatedResult<MoodEntry>>;
+  search: (options: MoodSearchOptions) => Promise<PaginatedResult<MoodSearchResult>>;
+  query: (query: MoodQuery) => Promise<MoodEntry[]>;
+  queryPaginated: (
+    query: MoodQuery,
+    options: PaginationOptions
+  ) => Promise<PaginatedResult<MoodEntry>>;
   getInRange: (range?: MoodDateRange) => Promise<MoodEntry[]>;
   getByMonth: (year: number, month: number) => Promise<Map<number, MoodEntry[]>>;
   getToday: () => Promise<MoodEntry | null>;
@@ -53,6 +88,7 @@ export interface MoodServiceInterface {
   hasLoggedToday: () => Promise<boolean>;
   clearAll: () => Promise<void>;
   seedSampleData: () => Promise<number>;
+  purgeUnusedAttachments: () => Promise<number>;
 
   // Note & timestamp updates
   updateNote: (id: number, note: string) => Promise<MoodEntry | undefined>;
@@ -130,12 +166,54 @@ export const moodService: MoodServiceInterface = {
   },
 
   /**
-   * Delete a mood entry
+   * Move a mood entry to the trash
    */
   async delete(id: number): Promise<void> {
     await deleteMood(id);
   },
 
+  /**
+   * Take a mood entry out of the trash, keeping its id
+   */
+  async restore(id: number): Promise<MoodEntry | undefined> {
+    return restoreDeletedMood(id);
+  },
+
+  /**
+   * Get the entries in the trash, most recently deleted first
+   */
+  async getDeleted(): Promise<DeletedMoodEntry[]> {
+    return getDeletedMoods();
+  },
+
+  /**
+   * Permanently delete the given entries from the trash
+   */
+  async purgeDeleted(ids: number[]): Promise<number> {
+    return purgeDeletedMoods(ids);
+  },
+
+  /**
+   * Permanently delete entries moved to the trash at or before `cutoff`
+   */
+  async purgeDeletedBefore(cutoff: number): Promise<number> {
+    return purgeMoodsDeletedBefore(cutoff);
+  },
+
+  /**
+   * Get the edits made to a mood entry, oldest first
+   */
+  async getRevisions(id: number): Promise<MoodRevision[]> {
+    return getMoodRevisions(id);
+  },
+
+  /**
+   * Get the edits made to several entries, keyed by entry id
+   */
+  async getRevisionsByIds(ids: number[]): Promise<Map<number, MoodRevision[]>> {
+    return getMoodRevisionsByMoodIds(ids);
+  },
+
   /**
    * Get all mood entries, sorted by timestamp descending
    */
@@ -150,6 +228,30 @@ export const moodService: MoodServiceInterface = {
     return getMoodsPaginated(options);
   },
 
+  /**
+   * Search notes, emotions and context tags, best matches first
+   */
+  async search(options: MoodSearchOptions): Promise<PaginatedResult<MoodSearchResult>> {
+    return searchMoods(options);
+  },
+
+  /**
+   * Get every entry matching a structured filter, newest first
+   */
+  async query(query: MoodQuery): Promise<MoodEntry[]> {
+    return getMoodsMatching(query);
+  },
+
+  /**
+   * Get entries matching a structured filter with pagination
+   */
+  async queryPaginated(
+    query: MoodQuery,
+    options: PaginationOptions
+  ): Promise<PaginatedResult<MoodEntry>> {
+    return getMoodsMatchingPaginated(query, options);
+  },
+
   /**
    * Get mood entries within a date range
    */
@@ -213,6 +315,13 @@ export const moodService: MoodServiceInterface = {
     return seedMoods();
   },
 
+  /**
+   * Delete photo and voice memo files no entry refers to any more
+   */
+  async purgeUnusedAttachments(): Promise<number> {
+    return purgeUnusedMoodAttachments();
+  },
+
   /**
    * Update just the note of a mood entry
    */
@@ -0,0 +1,115 @@
+/**
+ * Photo Attachment Service
+ * Picks images, compresses them, and moves them into app-private storage.
+ */
+
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import type { MoodPhoto } from "@db/types";
+import {
+  getMoodPhotoUri,
+  storeMoodPhoto,
+  MAX_PHOTOS_PER_ENTRY,
+  type ProcessedPhoto,
+} from "@db/db";
+
+export { MAX_PHOTOS_PER_ENTRY };
+
+export const PHOTO_MAX_DIMENSION = 1600;
+export const THUMBNAIL_MAX_DIMENSION = 320;
+const PHOTO_COMPRESS = 0.7;
+const THUMBNAIL_COMPRESS = 0.6;
+
+type PhotoResize = { width: number } | { height: number };
+
+/**
+ * Resize that fits the longer edge within `maxDimension`, or null when the
+ * image is already small enough.
+ */
+export function getPhotoResize(
+  width: number,
+  height: number,
+  maxDimension: number
+): PhotoResize | null {
+  if (width <= maxDimension && height <= maxDimension) {
+    return null;
+  }
+  return width >= height ? { width: maxDimension } : { height: maxDimension };
+}
+
+async function renderJpeg(
+  uri: string,
+  resize: PhotoResize | null,
+  compress: number
+) {
+  const context = ImageManipulator.manipulate(uri);
+  if (resize) {
+    context.resize(resize);
+  }
+  const image = await context.renderAsync();
+  // Re-encoding also drops EXIF metadata such as GPS coordinates.
+  return image.saveAsync({ compress, format: SaveFormat.JPEG });
+}
+
+async function processPhoto(uri: string): Promise<ProcessedPhoto> {
+  const original = await ImageManipulator.manipulate(uri).renderAsync();
+  const full = await renderJpeg(
+    uri,
+    getPhotoResize(original.width, original.height, PHOTO_MAX_DIMENSION),
+    PHOTO_COMPRESS
+  );
+  const thumbnail = await renderJpeg(
+    uri,
+    getPhotoResize(original.width, original.height, THUMBNAIL_MAX_DIMENSION),
+    THUMBNAIL_COMPRESS
+  );
+
+  return {
+    uri: full.uri,
+    thumbnailUri: thumbnail.uri,
+    width: full.width,
+    height: full.height,
+  };
+}
+
+export const photoAttachmentService = {
+  /**
+   * Lets the user pick up to `limit` images and stores compressed copies.
+   * Returns an empty array when the picker is cancelled.
+   */
+  async pick(limit: number): Promise<MoodPhoto[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const result = await DocumentPicker.getDocumentAsync({
+      type: "image/*",
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) {
+      return [];
+    }
+
+    const photos: MoodPhoto[] = [];
+    for (const asset of result.assets.slice(0, limit)) {
+      try {
+        photos.push(await storeMoodPhoto(await processPhoto(asset.uri)));
+      } finally {
+        await FileSystem.deleteAsync(asset.uri, { idempotent: true }).catch(() => {});
+      }
+    }
+    return photos;
+  },
+
+  getUri(photo: MoodPhoto): string {
+    return getMoodPhotoUri(photo.fileName);
+  },
+
+  getThumbnailUri(photo: MoodPhoto): string {
+    return getMoodPhotoUri(photo.thumbnailFileName);
+  },
+};
+
+export default photoAttachmentService;
@@ -10,13 +10,24 @@ import {
   type HistoryCardStyle,
   type QuickEntryPrefs,
 } from "@/lib/entrySettings";
+import { parseSavedPlaces, type SavedPlace } from "@/lib/location";
+import { parseSavedFilterViews, type SavedFilterView } from "@/lib/savedViews";
+import {
+  DEFAULT_ENTRY_TIMING_PREFS,
+  parseEntryTimingPrefs,
+  type EntryTimingPrefs,
+} from "@/lib/entryTiming";
 import {
   CONTEXT_TAGS_KEY,
   DEV_OPTIONS_KEY,
   EMOTION_PRESETS_KEY,
+  ENTRY_TIMING_PREFS_KEY,
   HAPTICS_ENABLED_KEY,
   HISTORY_CARD_STYLE_KEY,
+  LOCATION_TAGGING_ENABLED_KEY,
   QUICK_ENTRY_PREFS_KEY,
+  SAVED_FILTER_VIEWS_KEY,
+  SAVED_PLACES_KEY,
   SHOW_LABELS_KEY,
 } from "@/shared/storage/keys";
 import {
@@ -36,6 +47,10 @@ export type SettingsSnapshot = {
   emotions: Emotion[];
   contexts: string[];
   quickEntryPrefs: QuickEntryPrefs;
+  locationTaggingEnabled: boolean;
+  savedPlaces: SavedPlace[];
+  savedViews: SavedFilterView[];
+  entryTimingPrefs: EntryTimingPrefs;
 };
 
 export const DEFAULT_SETTINGS_SNAPSHOT: SettingsSnapshot = {
@@ -46,6 +61,10 @@ export const DEFAULT_SETTINGS_SNAPSHOT: SettingsSnapshot = {
   emotions: DEFAULT_EMOTIONS,
   contexts: DEFAULT_CONTEXTS,
   quickEntryPrefs: DEFAULT_QUICK_ENTRY_PREFS,
+  locationTaggingEnabled: false,
+  savedPlaces: [],
+  savedViews: [],
+  entryTimingPrefs: DEFAULT_ENTRY_TIMING_PREFS,
 };
 
 function migrateQuickEntryPrefs(
@@ -66,6 +85,10 @@ export const settingsService = {
       emotionsRaw,
       contextsRaw,
       quickEntryPrefsRaw,
+      locationTaggingEnabled,
+      savedPlacesRaw,
+      savedViewsRaw,
+      entryTimingPrefsRaw,
     ] = await Promise.all([
       getBoolean(SHOW_LABELS_KEY),
       getBoolean(DEV_OPTIONS_KEY),
@@ -74,6 +97,10 @@ export const settingsService = {
       getJson<unknown>(EMOTION_PRESETS_KEY),
       getJson<unknown>(CONTEXT_TAGS_KEY),
       getJson<Partial<QuickEntryPrefs>>(QUICK_ENTRY_PREFS_KEY),
+      getBoolean(LOCATION_TAGGING_ENABLED_KEY),
+      getJson<unknown>(SAVED_PLACES_KEY),
+      getJson<unknown>(SAVED_FILTER_VIEWS_KEY),
+      getJson<unknown>(ENTRY_TIMING_PREFS_KEY),
     ]);
 
     return {
@@ -86,6 +113,11 @@ export const settingsService = {
       emotions: parseEmotionList(emotionsRaw),
       contexts: parseStringList(contextsRaw, DEFAULT_CONTEXTS),
       quickEntryPrefs: migrateQuickEntryPrefs(quickEntryPrefsRaw),
+      locationTaggingEnabled:
+        locationTaggingEnabled ?? DEFAULT_SETTINGS_SNAPSHOT.locationTaggingEnabled,
+      savedPlaces: parseSavedPlaces(savedPlacesRaw),
+      savedViews: parseSavedFilterViews(savedViewsRaw),
+      entryTimingPrefs: parseEntryTimingPrefs(entryTimingPrefsRaw),
     };
   },
 
@@ -116,4 +148,20 @@ export const settingsService = {
   setQuickEntryPrefs(prefs: QuickEntryPrefs): Promise<void> {
     return setJson(QUICK_ENTRY_PREFS_KEY, prefs);
   },
+
+  setLocationTaggingEnabled(value: boolean): Promise<void> {
+    return setBoolean(LOCATION_TAGGING_ENABLED_KEY, value);
+  },
+
+  setSavedPlaces(places: SavedPlace[]): Promise<void> {
+    return setJson(SAVED_PLACES_KEY, places);
+  },
+
+  setSavedViews(views: SavedFilterView[]): Promise<void> {
+    return setJson(SAVED_FILTER_VIEWS_KEY, views);
+  },
+
+  setEntryTimingPrefs(prefs: EntryTimingPrefs): Promise<void> {
+    return setJson(ENTRY_TIMING_PREFS_KEY, prefs);
+  },
 };
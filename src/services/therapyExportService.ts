@@ -1,6 +1,22 @@
+import { differenceInCalendarDays } from "date-fns";
 import type { MoodEntry } from "@db/types";
-import type { TherapyExportField } from "@/lib/entrySettings";
-import { getMoodRatingLabel } from "@/constants/moodScaleInterpretation";
+import type { MoodRevision } from "@db/db";
+import {
+  THERAPY_EXPORT_SUMMARY_HEADING,
+  type TherapyExportField,
+} from "@/lib/entrySettings";
+import {
+  getCurrentMoodScaleSnapshot,
+  getMoodRatingLabel,
+} from "@/constants/moodScaleInterpretation";
+import { formatMoodRevisionLog } from "@/lib/moodRevisionPresentation";
+import { processMoodDataForDailyChart } from "@/lib/moodChartData";
+import {
+  detectBaselineShifts,
+  detectMoodAnomalies,
+  formatBaselineShift,
+  formatMoodAnomaly,
+} from "@/lib/moodBaseline";
 
 function csvEscape(value: string | number | null | undefined) {
   if (value === null || value === undefined) {
@@ -37,9 +53,16 @@ const FIELD_HEADERS: Record<TherapyExportField, string[]> = {
   context: ["Context Tags"],
   energy: ["Energy Level"],
   notes: ["Notes"],
+  edits: ["Edited", "Edit History"],
+  // Listed after the entries rather than as a column
+  baseline: [],
 };
 
-function resolveFieldColumns(entry: MoodEntry, field: TherapyExportField): CsvColumn[] {
+function resolveFieldColumns(
+  entry: MoodEntry,
+  field: TherapyExportField,
+  revisions: MoodRevision[]
+): CsvColumn[] {
   switch (field) {
     case "timestamp":
       return [{ header: "Timestamp", value: formatTimestamp(entry.timestamp) }];
@@ -71,19 +94,84 @@ function resolveFieldColumns(entry: MoodEntry, field: TherapyExportField): CsvCo
       return [{ header: "Energy Level", value: entry.energy ?? "" }];
     case "notes":
       return [{ header: "Notes", value: entry.note ?? "" }];
+    case "edits":
+      return [
+        { header: "Edited", value: revisions.length > 0 ? "Yes" : "No" },
+        {
+          header: "Edit History",
+          value: formatMoodRevisionLog(revisions, entry.moodScale, formatTimestamp),
+        },
+      ];
     default:
       return [];
   }
 }
 
+/**
+ * Rows for the baseline summary: shifts in the daily average and unusual
+ * days across every exported day, with ratings on the current Mood Scale.
+ */
+export function buildTherapyExportSummary(rows: MoodEntry[]): string[][] {
+  const scale = getCurrentMoodScaleSnapshot();
+  const summary = [
+    ["Type", "Details"],
+    [
+      "Mood Scale",
+      `Daily averages on the current scale (${scale.min}-${scale.max}, ${
+        scale.lowerIsBetter ? "lower is better" : "higher is better"
+      })`,
+    ],
+  ];
+  if (rows.length === 0) {
+    return [...summary, ["None found", "No entries to summarize"]];
+  }
+
+  const { first, last } = rows.reduce(
+    (range, entry) => ({
+      first: Math.min(range.first, entry.timestamp),
+      last: Math.max(range.last, entry.timestamp),
+    }),
+    { first: Infinity, last: -Infinity }
+  );
+  const spanDays = differenceInCalendarDays(last, first) + 1;
+  const { dailyAggregates } = processMoodDataForDailyChart(rows, spanDays);
+  const shifts = detectBaselineShifts(dailyAggregates);
+  const findings = [
+    ...shifts.map((shift) => ["Baseline shift", formatBaselineShift(shift)]),
+    ...detectMoodAnomalies(dailyAggregates, shifts).map((anomaly) => [
+      "Unusual day",
+      formatMoodAnomaly(anomaly),
+    ]),
+  ];
+  return findings.length > 0
+    ? [...summary, ...findings]
+    : [...summary, ["None found", "No baseline shifts or unusual days in this range"]];
+}
+
+/**
+ * `revisions` holds the edit history by entry id and is only read for the
+ * "edits" field; entries missing from it are exported as never edited. The
+ * "baseline" field adds the baseline summary after a blank line.
+ */
 export function buildTherapyExportCsv(
   rows: MoodEntry[],
-  fields: TherapyExportField[]
+  fields: TherapyExportField[],
+  revisions: Map<number, MoodRevision[]> = new Map()
 ) {
   const header = fields.flatMap((field) => FIELD_HEADERS[field] ?? []);
   const body = rows.map((entry) =>
-    fields.flatMap((field) => resolveFieldColumns(entry, field).map((column) => csvEscape(column.value)))
+    fields.flatMap((field) =>
+      resolveFieldColumns(entry, field, revisions.get(entry.id) ?? []).map((column) =>
+        csvEscape(column.value)
+      )
+    )
   );
 
-  return [header, ...body].map((cells) => cells.join(",")).join("\n");
+  const summary = fields.includes("baseline")
+    ? [[], [THERAPY_EXPORT_SUMMARY_HEADING], ...buildTherapyExportSummary(rows)].map((cells) =>
+        cells.map(csvEscape)
+      )
+    : [];
+
+  return [header, ...body, ...summary].map((cells) => cells.join(",")).join("\n");
 }
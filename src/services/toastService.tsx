@@ -20,7 +20,7 @@ async function restoreDeletedMood(
 
   if (!deletedEntry) {
     toast.error("Undo expired", {
-      description: "That deleted entry is no longer available to restore.",
+      description: "You can still restore it from Trash in Settings.",
     });
     return;
   }
@@ -59,9 +59,17 @@ export const toastService = {
     return toast.dismiss(toastId);
   },
 
-  showDeletedMood(entry: MoodEntry, onUndo: UndoDeletedMoodHandler) {
+  showDeletedMood(
+    entry: MoodEntry,
+    onUndo: UndoDeletedMoodHandler,
+    onClose?: () => void
+  ) {
     const toastId = `deleted-mood-${entry.id}-${entry.timestamp}-${Date.now()}`;
     deletedMoodEntries.set(toastId, entry);
+    const handleClose = () => {
+      cleanupDeletedMoodEntry(toastId);
+      onClose?.();
+    };
 
     return toast.custom(
       () => (
@@ -75,8 +83,8 @@ export const toastService = {
       {
         id: toastId,
         duration: 5000,
-        onDismiss: () => cleanupDeletedMoodEntry(toastId),
-        onAutoClose: () => cleanupDeletedMoodEntry(toastId),
+        onDismiss: handleClose,
+        onAutoClose: handleClose,
       }
     );
   },
@@ -0,0 +1,67 @@
+/**
+ * Trash Service
+ * Deleted entries wait in the trash for a number of days chosen in Settings
+ * before they are purged for good.
+ */
+
+import type { DeletedMoodEntry } from "@db/db";
+import { getString, setString } from "@/shared/storage/asyncStorage";
+import { TRASH_RETENTION_DAYS_KEY } from "@/shared/storage/keys";
+import { moodService } from "@/services/moodService";
+
+export type { DeletedMoodEntry };
+
+export const TRASH_RETENTION_DAY_OPTIONS = [7, 30, 90] as const;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Reads a stored retention period, falling back to the default. */
+export function parseTrashRetentionDays(value: unknown): number {
+  const days = typeof value === "string" ? Number(value) : value;
+  return typeof days === "number" && Number.isInteger(days) && days >= 1 && days <= 365
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/** When an entry deleted at `deletedAt` will be purged. */
+export function getTrashPurgeDate(deletedAt: number, retentionDays: number): number {
+  return deletedAt + retentionDays * DAY_MS;
+}
+
+export const trashService = {
+  async list(): Promise<DeletedMoodEntry[]> {
+    return moodService.getDeleted();
+  },
+
+  /**
+   * Permanently delete the given entries now
+   */
+  async purge(ids: number[]): Promise<number> {
+    return moodService.purgeDeleted(ids);
+  },
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  async empty(): Promise<number> {
+    return moodService.purgeDeletedBefore(Date.now());
+  },
+
+  async getRetentionDays(): Promise<number> {
+    return parseTrashRetentionDays(await getString(TRASH_RETENTION_DAYS_KEY));
+  },
+
+  setRetentionDays(days: number): Promise<void> {
+    return setString(TRASH_RETENTION_DAYS_KEY, String(parseTrashRetentionDays(days)));
+  },
+
+  /**
+   * Purge entries that have been in the trash longer than the retention
+   * period. Runs when the app starts.
+   */
+  async purgeExpired(now = Date.now()): Promise<number> {
+    const days = await this.getRetentionDays();
+    return moodService.purgeDeletedBefore(now - days * DAY_MS);
+  },
+};
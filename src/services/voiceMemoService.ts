@@ -0,0 +1,93 @@
+/**
+ * Voice Memo Service
+ * Recording options, microphone permission, and storage for entry voice memos.
+ */
+
+import * as FileSystem from "expo-file-system/legacy";
+import {
+  AudioQuality,
+  IOSOutputFormat,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  type RecordingOptions,
+} from "expo-audio";
+import type { MoodVoiceMemo } from "@db/types";
+import {
+  getMoodVoiceMemoUri,
+  storeMoodVoiceMemo,
+  MAX_VOICE_MEMOS_PER_ENTRY,
+  MAX_VOICE_MEMO_DURATION_MS,
+} from "@db/db";
+
+export { MAX_VOICE_MEMOS_PER_ENTRY, MAX_VOICE_MEMO_DURATION_MS };
+
+// Mono AAC at 64 kbps keeps speech clear at roughly 0.5 MB per minute.
+export const VOICE_MEMO_RECORDING_OPTIONS: RecordingOptions = {
+  extension: ".m4a",
+  sampleRate: 44100,
+  numberOfChannels: 1,
+  bitRate: 64000,
+  android: {
+    outputFormat: "mpeg4",
+    audioEncoder: "aac",
+  },
+  ios: {
+    outputFormat: IOSOutputFormat.MPEG4AAC,
+    audioQuality: AudioQuality.MEDIUM,
+  },
+  web: {
+    mimeType: "audio/webm",
+    bitsPerSecond: 64000,
+  },
+};
+
+/**
+ * Formats a duration as m:ss.
+ */
+export function formatVoiceMemoDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export const voiceMemoService = {
+  /**
+   * Asks for microphone access. Returns false when the user declines.
+   */
+  async requestPermission(): Promise<boolean> {
+    const { granted } = await requestRecordingPermissionsAsync();
+    return granted;
+  },
+
+  async beginRecordingSession(): Promise<void> {
+    await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+  },
+
+  /**
+   * Restores the playback audio mode so memos play through the speaker on iOS.
+   */
+  async endRecordingSession(): Promise<void> {
+    await setAudioModeAsync({ allowsRecording: false, playsInSilentMode: true });
+  },
+
+  /**
+   * Moves a finished recording into app-private storage.
+   */
+  async save(recordingUri: string, durationMs: number): Promise<MoodVoiceMemo> {
+    return storeMoodVoiceMemo(recordingUri, durationMs);
+  },
+
+  /**
+   * Deletes a recording that will not be attached, e.g. one that was cut short.
+   */
+  async discard(recordingUri: string): Promise<void> {
+    await FileSystem.deleteAsync(recordingUri, { idempotent: true });
+  },
+
+  getUri(memo: MoodVoiceMemo): string {
+    return getMoodVoiceMemoUri(memo.fileName);
+  },
+};
+
+export default voiceMemoService;
@@ -32,7 +32,7 @@ export type MoodsStore = {
     updates: Partial<MoodEntryInput & { mood: number }>
   ) => Promise<MoodEntry | null>;
   remove: (id: number) => Promise<MoodEntry | null>;
-  restore: (entry: MoodEntryInput) => Promise<MoodEntry>;
+  restore: (id: number) => Promise<MoodEntry | null>;
   updateTimestamp: (id: number, timestamp: number) => Promise<MoodEntry | null>;
   setLocal: (moods: MoodEntry[]) => void;
 
@@ -208,8 +208,8 @@ export const useMoodsStore = create<MoodsStore>((set, get) => {
       return workflow.delete(id);
     },
 
-    restore: async (entry) => {
-      return workflow.restore(entry);
+    restore: async (id) => {
+      return workflow.restore(id);
     },
 
     // Selectors
@@ -1,5 +1,8 @@
 import { create } from "zustand";
 import type { HistoryCardStyle, QuickEntryPrefs } from "@/lib/entrySettings";
+import type { SavedPlace } from "@/lib/location";
+import type { SavedFilterView } from "@/lib/savedViews";
+import type { EntryTimingPrefs } from "@/lib/entryTiming";
 import type { Emotion } from "@db/types";
 import {
     DEFAULT_SETTINGS_SNAPSHOT,
@@ -22,6 +25,13 @@ export type SettingsStore = {
     contexts: string[];
     quickEntryPrefs: QuickEntryPrefs;
 
+    locationTaggingEnabled: boolean;
+    savedPlaces: SavedPlace[];
+
+    savedViews: SavedFilterView[];
+
+    entryTimingPrefs: EntryTimingPrefs;
+
     hydrate: () => Promise<void>;
     setShowDetailedLabels: (value: boolean) => Promise<void>;
     setDevOptionsEnabled: (value: boolean) => Promise<void>;
@@ -31,6 +41,13 @@ export type SettingsStore = {
     setEmotions: (values: Emotion[]) => Promise<void>;
     setContexts: (values: string[]) => Promise<void>;
     setQuickEntryPrefs: (prefs: QuickEntryPrefs) => Promise<void>;
+
+    setLocationTaggingEnabled: (value: boolean) => Promise<void>;
+    setSavedPlaces: (places: SavedPlace[]) => Promise<void>;
+
+    setSavedViews: (views: SavedFilterView[]) => Promise<void>;
+
+    setEntryTimingPrefs: (prefs: EntryTimingPrefs) => Promise<void>;
 };
 
 export const useSettingsStore = create<SettingsStore>((set) => ({
@@ -45,6 +62,13 @@ export const useSettingsStore = create<SettingsStore>((set) => ({
     contexts: DEFAULT_SETTINGS_SNAPSHOT.contexts,
     quickEntryPrefs: DEFAULT_SETTINGS_SNAPSHOT.quickEntryPrefs,
 
+    locationTaggingEnabled: DEFAULT_SETTINGS_SNAPSHOT.locationTaggingEnabled,
+    savedPlaces: DEFAULT_SETTINGS_SNAPSHOT.savedPlaces,
+
+    savedViews: DEFAULT_SETTINGS_SNAPSHOT.savedViews,
+
+    entryTimingPrefs: DEFAULT_SETTINGS_SNAPSHOT.entryTimingPrefs,
+
     hydrate: async () => {
         const snapshot = await settingsService.load();
         setHapticsEnabledGlobal(snapshot.hapticsEnabled);
@@ -90,4 +114,24 @@ export const useSettingsStore = create<SettingsStore>((set) => ({
         set({ quickEntryPrefs: prefs });
         await settingsService.setQuickEntryPrefs(prefs);
     },
+
+    setLocationTaggingEnabled: async (value) => {
+        set({ locationTaggingEnabled: value });
+        await settingsService.setLocationTaggingEnabled(value);
+    },
+
+    setSavedPlaces: async (places) => {
+        set({ savedPlaces: places });
+        await settingsService.setSavedPlaces(places);
+    },
+
+    setSavedViews: async (views) => {
+        set({ savedViews: views });
+        await settingsService.setSavedViews(views);
+    },
+
+    setEntryTimingPrefs: async (prefs) => {
+        set({ entryTimingPrefs: prefs });
+        await settingsService.setEntryTimingPrefs(prefs);
+    },
 }));
@@ -9,9 +9,11 @@ export const EMOTION_PRESETS_KEY = "emotionPresets";
 export const CONTEXT_TAGS_KEY = "contextTags";
 export const QUICK_ENTRY_PREFS_KEY = "quickEntryPrefs";
 export const THERAPY_EXPORT_PREFS_KEY = "therapyExportPrefs";
-export const BOOTSTRAP_MIGRATIONS_STATE_KEY = "bootstrapMigrationsState";
-export const EMOTION_CATEGORY_MIGRATION_COMPLETED_KEY = "emotionCategoryMigrationCompleted";
-export const EMOTION_CATEGORY_MIGRATION_RETRIES_KEY = "emotionCategoryMigrationRetries";
+export const LOCATION_TAGGING_ENABLED_KEY = "locationTaggingEnabled";
+export const SAVED_PLACES_KEY = "savedPlaces";
+export const SAVED_FILTER_VIEWS_KEY = "savedFilterViews";
+export const ENTRY_TIMING_PREFS_KEY = "entryTimingPrefs";
+export const TRASH_RETENTION_DAYS_KEY = "trashRetentionDays";
 
 // App Lock
 export const APP_LOCK_ENABLED_KEY = "appLockEnabled";